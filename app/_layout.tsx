@@ -10,6 +10,7 @@ import { useColorScheme } from '@/hooks/use-color-scheme';
 import ErrorBoundary from '../components/ErrorBoundary';
 import SafeContainer from '../components/SafeContainer';
 import { AuthProvider } from '../contexts/AuthContext';
+import { CartProvider } from '../contexts/CartContext';
 import { ConfirmationModalProvider } from '../contexts/ConfirmationModalContext';
 import { SessionProvider } from '../contexts/SessionContext';
 import { ToastProvider } from '../contexts/ToastContext';
@@ -302,6 +303,7 @@ function RootLayout() {
         <ToastProvider>
           <SessionProvider>
             <AuthProvider>
+              <CartProvider>
               <ConfirmationModalProvider>
                 <ThemeProvider
                   value={colorScheme === 'dark' ? Farm2GoDarkTheme : Farm2GoTheme}
@@ -400,6 +402,10 @@ function RootLayout() {
             name="super-admin/backup"
             options={getDashboardScreenOptions('Backup & Restore')}
           />
+          <Stack.Screen
+            name="super-admin/sms-simulator"
+            options={getDashboardScreenOptions('SMS Simulator')}
+          />
 
           {/* Admin Dashboard - Management Console */}
           <Stack.Screen
@@ -426,6 +432,10 @@ function RootLayout() {
             name="admin/analytics"
             options={getDashboardScreenOptions('Platform Analytics')}
           />
+          <Stack.Screen
+            name="admin/payouts"
+            options={getDashboardScreenOptions('Farmer Payouts')}
+          />
 
           {/* Farmer Dashboard - Seller Center */}
           <Stack.Screen
@@ -440,6 +450,14 @@ function RootLayout() {
             name="farmer/orders"
             options={getDashboardScreenOptions('Order Management')}
           />
+          <Stack.Screen
+            name="farmer/deliveries"
+            options={getDashboardScreenOptions('Deliveries')}
+          />
+          <Stack.Screen
+            name="farmer/delivery-route"
+            options={getDashboardScreenOptions('Delivery Route')}
+          />
           <Stack.Screen
             name="farmer/inventory"
             options={getDashboardScreenOptions('Inventory Control')}
@@ -448,6 +466,10 @@ function RootLayout() {
             name="farmer/sales-history"
             options={getDashboardScreenOptions('Sales Analytics')}
           />
+          <Stack.Screen
+            name="farmer/payouts"
+            options={getDashboardScreenOptions('Payouts')}
+          />
           <Stack.Screen
             name="farmer/settings"
             options={getDashboardScreenOptions('Seller Settings')}
@@ -620,6 +642,7 @@ function RootLayout() {
         />
                 </ThemeProvider>
               </ConfirmationModalProvider>
+              </CartProvider>
             </AuthProvider>
           </SessionProvider>
         </ToastProvider>
@@ -9,6 +9,7 @@ export default function AdminLayout() {
         <Stack.Screen name="users" options={{ headerShown: false, title: 'User Management' }} />
         <Stack.Screen name="products" options={{ headerShown: false, title: 'Products' }} />
         <Stack.Screen name="orders" options={{ headerShown: false, title: 'Order Management' }} />
+        <Stack.Screen name="payouts" options={{ headerShown: false, title: 'Payouts' }} />
         <Stack.Screen name="analytics" options={{ headerShown: false, title: 'Analytics' }} />
         <Stack.Screen name="settings" options={{ headerShown: false, title: 'System Settings' }} />
       </Stack>
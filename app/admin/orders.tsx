@@ -19,8 +19,10 @@ import { useCustomAlert } from '../../components/CustomAlert';
 import { supabase } from '../../lib/supabase';
 import { getUserWithProfile } from '../../services/auth';
 import { notifyOrderStatusChange } from '../../services/notifications';
-import { subscribeToUserOrders } from '../../services/orders';
+import { subscribeToUserOrders, updateOrderStatus } from '../../services/orders';
+import { decideRefundRequest, getPendingRefundRequest } from '../../services/refunds';
 import { Database } from '../../types/database';
+import { canTransitionOrderStatus } from '../../types/orders';
 import { applyFilters } from '../../utils/filterConfigs';
 
 const { width } = Dimensions.get('window');
@@ -30,6 +32,7 @@ const isDesktop = width >= 1024;
 
 type Profile = Database['public']['Tables']['profiles']['Row'];
 
+// Row of the admin_orders_scoped view, already limited to the admin's barangays by the database
 interface DatabaseOrder {
   id: string;
   buyer_id: string;
@@ -41,24 +44,18 @@ interface DatabaseOrder {
   delivery_address: string;
   notes: string | null;
   created_at: string;
-  products: {
-    name: string;
-    unit: string;
-    price: number;
-  } | null;
-  buyer_profile: {
-    first_name: string | null;
-    last_name: string | null;
-    phone: string | null;
-    barangay: string | null;
-  } | null;
-  farmer_profile: {
-    first_name: string | null;
-    last_name: string | null;
-    phone: string | null;
-    farm_name: string | null;
-    barangay: string | null;
-  } | null;
+  product_name: string | null;
+  product_unit: string | null;
+  product_price: number | null;
+  buyer_first_name: string | null;
+  buyer_last_name: string | null;
+  buyer_phone: string | null;
+  buyer_barangay: string | null;
+  farmer_first_name: string | null;
+  farmer_last_name: string | null;
+  farmer_phone: string | null;
+  farmer_farm_name: string | null;
+  farmer_barangay: string | null;
 }
 
 interface Order {
@@ -173,7 +170,7 @@ export default function AdminOrdersScreen() {
       }
 
       setProfile(userData.profile);
-      await loadOrders(userData.profile);
+      await loadOrders();
     } catch (error) {
       console.error('Error loading data:', error);
       showAlert('Error', 'Failed to load orders', [
@@ -184,59 +181,54 @@ export default function AdminOrdersScreen() {
     }
   };
 
-  const loadOrders = async (adminProfile: Profile) => {
+  const loadOrders = async () => {
     try {
-      const { data: ordersData, error: ordersError } = await supabase
-        .from('orders')
-        .select(`
-          id,
-          buyer_id,
-          farmer_id,
-          product_id,
-          quantity,
-          total_price,
-          status,
-          delivery_address,
-          notes,
-          created_at,
-          products (
-            name,
-            unit,
-            price
-          ),
-          buyer_profile:profiles!orders_buyer_id_fkey (
-            first_name,
-            last_name,
-            phone,
-            barangay
-          ),
-          farmer_profile:profiles!orders_farmer_id_fkey (
-            first_name,
-            last_name,
-            phone,
-            farm_name,
-            barangay
-          )
-        `)
+      const { data: ordersData, error: ordersError } = await (supabase as any)
+        .from('admin_orders_scoped')
+        .select('*')
         .order('created_at', { ascending: false });
 
       if (ordersError) throw ordersError;
 
-      // Filter orders by admin's barangay
-      let filteredData = ordersData || [];
-      if (adminProfile.barangay) {
-        filteredData = filteredData.filter((order: any) =>
-          order.farmer_profile?.barangay === adminProfile.barangay ||
-          order.buyer_profile?.barangay === adminProfile.barangay
-        );
-      }
-
-      if (!filteredData || filteredData.length === 0) {
+      if (!ordersData || ordersData.length === 0) {
         setOrders([]);
         return;
       }
 
-      const ordersWithItems: Order[] = filteredData.map((order: any) => ({
+      const orderIds = (ordersData as DatabaseOrder[]).map((order) => order.id);
+      const { data: itemsData, error: itemsError } = await (supabase as any)
+        .from('order_items')
+        .select(`
+          order_id,
+          quantity,
+          unit_price,
+          unit,
+          variant_name,
+          product:product_id (
+            name,
+            unit
+          )
+        `)
+        .in('order_id', orderIds);
+
+      if (itemsError) throw itemsError;
+
+      const itemsByOrder: Record<string, NonNullable<Order['order_items']>> = {};
+      for (const item of itemsData || []) {
+        const productName = item.product?.name || '';
+        if (!itemsByOrder[item.order_id]) itemsByOrder[item.order_id] = [];
+        itemsByOrder[item.order_id].push({
+          order_id: item.order_id,
+          quantity: item.quantity,
+          unit_price: item.unit_price,
+          product: {
+            name: item.variant_name ? `${productName} (${item.variant_name})` : productName,
+            unit: item.unit || item.product?.unit || '',
+          },
+        });
+      }
+
+      const ordersWithItems: Order[] = (ordersData as DatabaseOrder[]).map((order) => ({
         id: order.id,
         buyer_id: order.buyer_id,
         farmer_id: order.farmer_id,
@@ -246,15 +238,27 @@ export default function AdminOrdersScreen() {
         delivery_date: null,
         delivery_address: order.delivery_address,
         notes: order.notes,
-        buyer_profile: order.buyer_profile,
-        farmer_profile: order.farmer_profile,
-        order_items: [{
+        buyer_profile: {
+          first_name: order.buyer_first_name,
+          last_name: order.buyer_last_name,
+          phone: order.buyer_phone,
+          barangay: order.buyer_barangay,
+        },
+        farmer_profile: {
+          first_name: order.farmer_first_name,
+          last_name: order.farmer_last_name,
+          phone: order.farmer_phone,
+          farm_name: order.farmer_farm_name,
+          barangay: order.farmer_barangay,
+        },
+        // Legacy single-product orders have no order_items rows
+        order_items: itemsByOrder[order.id] || [{
           order_id: order.id,
           quantity: order.quantity,
-          unit_price: order.products?.price || 0,
+          unit_price: order.product_price || 0,
           product: {
-            name: order.products?.name || '',
-            unit: order.products?.unit || '',
+            name: order.product_name || '',
+            unit: order.product_unit || '',
           },
         }],
       }));
@@ -307,7 +311,7 @@ export default function AdminOrdersScreen() {
     if (!profile) return;
     setRefreshing(true);
     try {
-      await loadOrders(profile);
+      await loadOrders();
     } catch (error) {
       console.error('Error refreshing:', error);
     } finally {
@@ -378,32 +382,8 @@ export default function AdminOrdersScreen() {
   const processCancelOrder = async (order: Order) => {
     setConfirmModal(prev => ({ ...prev, visible: false }));
     try {
-      const { error } = await supabase
-        .from('orders')
-        .update({ status: 'cancelled', updated_at: new Date().toISOString() })
-        .eq('id', order.id);
-      if (error) throw error;
-
-      // Restore stock
-      const { data: orderRow } = await supabase
-        .from('orders')
-        .select('product_id, quantity')
-        .eq('id', order.id)
-        .single();
-      if (orderRow) {
-        const { data: product } = await supabase
-          .from('products')
-          .select('quantity_available')
-          .eq('id', (orderRow as any).product_id)
-          .single();
-        if (product) {
-          await supabase
-            .from('products')
-            .update({ quantity_available: (product as any).quantity_available + (orderRow as any).quantity })
-            .eq('id', (orderRow as any).product_id);
-        }
-      }
-      await supabase.from('transactions').update({ status: 'failed' }).eq('order_id', order.id);
+      // Stock is restored and the payment marked failed as part of the status change
+      await updateOrderStatus(order.id, 'cancelled', 'Cancelled by admin');
 
       await notifyOrderStatusChange(
         order.id, 'cancelled',
@@ -416,10 +396,10 @@ export default function AdminOrdersScreen() {
         profile?.id || ''
       );
 
-      if (profile) await loadOrders(profile);
+      await loadOrders();
     } catch (err) {
       console.error('Error cancelling order:', err);
-      showAlert('Error', 'Failed to cancel order. Please try again.', [{ text: 'OK', style: 'default' }]);
+      showAlert('Error', err instanceof Error ? err.message : 'Failed to cancel order. Please try again.', [{ text: 'OK', style: 'default' }]);
     }
   };
 
@@ -438,6 +418,13 @@ export default function AdminOrdersScreen() {
     return statusColors[status] || '#6b7280';
   };
 
+  const getOrderParties = (order: Order) => ({
+    buyerId: order.buyer_id,
+    farmerId: order.farmer_id,
+    buyerName: `${order.buyer_profile?.first_name || ''} ${order.buyer_profile?.last_name || ''}`.trim(),
+    farmerName: order.farmer_profile?.farm_name || `${order.farmer_profile?.first_name || ''} ${order.farmer_profile?.last_name || ''}`.trim(),
+  });
+
   const handleCancellationDecision = async (order: Order, decision: 'approve' | 'reject') => {
     const actionLabel = decision === 'approve' ? 'Approve Cancellation' : 'Reject Cancellation';
     const actionMsg = decision === 'approve'
@@ -457,57 +444,34 @@ export default function AdminOrdersScreen() {
   const processCancellationDecision = async (order: Order, decision: 'approve' | 'reject') => {
     setConfirmModal(prev => ({ ...prev, visible: false }));
     try {
+      const parties = getOrderParties(order);
       const newStatus = decision === 'approve' ? 'cancelled' : 'confirmed';
-      const { error } = await supabase
-        .from('orders')
-        .update({ status: newStatus, updated_at: new Date().toISOString() })
-        .eq('id', order.id);
-      if (error) throw error;
-
-      if (decision === 'approve') {
-        // Restore stock
-        const { data: orderRow } = await supabase
-          .from('orders')
-          .select('product_id, quantity')
-          .eq('id', order.id)
-          .single();
-        if (orderRow) {
-          const { data: product } = await supabase
-            .from('products')
-            .select('quantity_available')
-            .eq('id', (orderRow as any).product_id)
-            .single();
-          if (product) {
-            await supabase
-              .from('products')
-              .update({ quantity_available: (product as any).quantity_available + (orderRow as any).quantity })
-              .eq('id', (orderRow as any).product_id);
-          }
-        }
-        // Mark transaction failed
-        await supabase.from('transactions').update({ status: 'failed' }).eq('order_id', order.id);
-      }
+      await updateOrderStatus(
+        order.id,
+        newStatus,
+        decision === 'approve' ? 'Cancellation request approved' : 'Cancellation request rejected'
+      );
 
       await notifyOrderStatusChange(
         order.id, newStatus,
         order.buyer_id, order.farmer_id,
-        { buyerName: `${order.buyer_profile?.first_name || ''} ${order.buyer_profile?.last_name || ''}`.trim(),
-          farmerName: order.farmer_profile?.farm_name || `${order.farmer_profile?.first_name || ''} ${order.farmer_profile?.last_name || ''}`.trim(),
+        { buyerName: parties.buyerName,
+          farmerName: parties.farmerName,
           totalAmount: order.total_amount },
         profile?.id || ''
       );
 
-      if (profile) await loadOrders(profile);
+      await loadOrders();
     } catch (err) {
       console.error('Error processing cancellation decision:', err);
-      showAlert('Error', 'Failed to process decision. Please try again.', [{ text: 'OK', style: 'default' }]);
+      showAlert('Error', err instanceof Error ? err.message : 'Failed to process decision. Please try again.', [{ text: 'OK', style: 'default' }]);
     }
   };
 
   const handleIssueDecision = async (order: Order, decision: 'approve' | 'reject') => {
     const actionLabel = decision === 'approve' ? 'Approve Refund' : 'Reject Complaint';
     const actionMsg = decision === 'approve'
-      ? `This will mark the order as refunded and notify the buyer.`
+      ? `This will refund the buyer and notify both parties. To put returned items back into stock, approve from the order page instead.`
       : `This will close the complaint and the order stays as delivered.`;
 
     setConfirmModal({
@@ -523,24 +487,37 @@ export default function AdminOrdersScreen() {
   const processIssueDecision = async (order: Order, decision: 'approve' | 'reject') => {
     setConfirmModal(prev => ({ ...prev, visible: false }));
     try {
+      const parties = getOrderParties(order);
+
+      // Refund requests carry their own amount and items; settle them through the request
+      const refundRequest = await getPendingRefundRequest(order.id);
+      if (refundRequest) {
+        await decideRefundRequest(
+          refundRequest,
+          decision === 'approve',
+          { note: decision === 'reject' ? 'Complaint rejected by admin' : undefined },
+          parties,
+          profile?.id || ''
+        );
+        await loadOrders();
+        return;
+      }
+
       const resolvedNote = `\n[ISSUE_RESOLVED:${decision === 'approve' ? 'approved_refund' : 'rejected'} by admin]`;
       const updatedNotes = (order.notes || '') + resolvedNote;
 
+      const { error } = await (supabase as any)
+        .from('orders')
+        .update({ notes: updatedNotes, updated_at: new Date().toISOString() })
+        .eq('id', order.id);
+      if (error) throw error;
+
+      // Approving cancels the order and refunds the payment (handled by the status change).
+      // Rejecting resets issue_reported → delivered; other statuses stay as they are.
       if (decision === 'approve') {
-        const { error } = await (supabase as any)
-          .from('orders')
-          .update({ status: 'cancelled', notes: updatedNotes, updated_at: new Date().toISOString() })
-          .eq('id', order.id);
-        if (error) throw error;
-        await (supabase as any).from('transactions').update({ status: 'refunded' }).eq('order_id', order.id);
-      } else {
-        // Reject: mark notes as resolved, keep current status (or reset issue_reported → delivered)
-        const resolvedStatus = order.status === 'issue_reported' ? 'delivered' : order.status;
-        const { error } = await (supabase as any)
-          .from('orders')
-          .update({ status: resolvedStatus, notes: updatedNotes, updated_at: new Date().toISOString() })
-          .eq('id', order.id);
-        if (error) throw error;
+        await updateOrderStatus(order.id, 'cancelled', 'Issue report approved — refunded');
+      } else if (order.status === 'issue_reported') {
+        await updateOrderStatus(order.id, 'delivered', 'Issue report rejected');
       }
 
       await notifyOrderStatusChange(
@@ -552,10 +529,10 @@ export default function AdminOrdersScreen() {
         profile?.id || ''
       );
 
-      if (profile) await loadOrders(profile);
+      await loadOrders();
     } catch (err) {
       console.error('Error processing issue decision:', err);
-      showAlert('Error', 'Failed to process decision. Please try again.', [{ text: 'OK', style: 'default' }]);
+      showAlert('Error', err instanceof Error ? err.message : 'Failed to process decision. Please try again.', [{ text: 'OK', style: 'default' }]);
     }
   };
 
@@ -726,7 +703,7 @@ export default function AdminOrdersScreen() {
         )}
 
         {/* Admin Cancel Order */}
-        {order.status !== 'cancelled' && order.status !== 'issue_reported' && order.status !== 'cancellation_requested' &&
+        {canTransitionOrderStatus(order.status, 'cancelled', 'admin') && order.status !== 'cancellation_requested' &&
           !(order.notes?.includes('[ISSUE_REPORT:') && order.status !== 'delivered') && (
           <View style={styles.cancelSection}>
             <TouchableOpacity
@@ -0,0 +1,498 @@
+import { router } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import Icon from 'react-native-vector-icons/FontAwesome5';
+import FeeRuleFormModal from '../../components/FeeRuleFormModal';
+import HeaderComponent from '../../components/HeaderComponent';
+import RecordPayoutModal from '../../components/RecordPayoutModal';
+import { useCustomAlert } from '../../components/CustomAlert';
+import { getUserWithProfile } from '../../services/auth';
+import {
+  exportSettlementStatement,
+  formatPeso,
+  getFarmerBalances,
+  getFeeRules,
+  getSettlementStatement,
+  getStatementRange,
+  setFeeRuleActive
+} from '../../services/payouts';
+import { Database } from '../../types/database';
+import { FarmerBalance, PayoutFeeRule } from '../../types/orders';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+
+const colors = {
+  primary: '#059669',
+  background: '#f8f9fa',
+  white: '#ffffff',
+  danger: '#ef4444',
+  border: '#e5e7eb',
+  text: '#111827',
+  textSecondary: '#6b7280',
+};
+
+const farmerDisplayName = (farmer: FarmerBalance) =>
+  farmer.farm_name || `${farmer.first_name || ''} ${farmer.last_name || ''}`.trim() || 'Farmer';
+
+export default function AdminPayoutsScreen() {
+  const { showAlert, AlertComponent } = useCustomAlert();
+
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [activeTab, setActiveTab] = useState<'balances' | 'fees'>('balances');
+  const [balances, setBalances] = useState<FarmerBalance[]>([]);
+  const [feeRules, setFeeRules] = useState<PayoutFeeRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [payingFarmer, setPayingFarmer] = useState<FarmerBalance | null>(null);
+  const [editingRule, setEditingRule] = useState<PayoutFeeRule | null>(null);
+  const [showRuleForm, setShowRuleForm] = useState(false);
+  const [exportingFarmerId, setExportingFarmerId] = useState<string | null>(null);
+
+  const loadBalances = useCallback(async () => {
+    try {
+      setBalances(await getFarmerBalances());
+    } catch (error) {
+      console.error('Error loading farmer balances:', error);
+      showAlert('Error', 'Failed to load farmer balances', [{ text: 'OK', style: 'default' }]);
+    }
+  }, [showAlert]);
+
+  const loadFeeRules = useCallback(async () => {
+    try {
+      setFeeRules(await getFeeRules(true));
+    } catch (error) {
+      console.error('Error loading fee rules:', error);
+      showAlert('Error', 'Failed to load fees', [{ text: 'OK', style: 'default' }]);
+    }
+  }, [showAlert]);
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        const userData = await getUserWithProfile();
+        if (!userData?.profile || !['admin', 'super-admin'].includes(userData.profile.user_type)) {
+          showAlert('Access Denied', 'Only admins can access this page', [
+            { text: 'OK', style: 'default', onPress: () => router.replace('/') }
+          ]);
+          return;
+        }
+
+        setProfile(userData.profile);
+        await Promise.all([loadBalances(), loadFeeRules()]);
+      } catch (error) {
+        console.error('Error loading payouts:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [showAlert, loadBalances, loadFeeRules]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await Promise.all([loadBalances(), loadFeeRules()]);
+    setRefreshing(false);
+  };
+
+  const handlePayoutRecorded = async () => {
+    setPayingFarmer(null);
+    await loadBalances();
+    showAlert('Payout Recorded', 'The farmer has been notified.', [{ text: 'OK', style: 'default' }]);
+  };
+
+  const downloadStatement = async (farmer: FarmerBalance) => {
+    setExportingFarmerId(farmer.farmer_id);
+    try {
+      const statement = await getSettlementStatement(farmer.farmer_id, getStatementRange('month'));
+      await exportSettlementStatement(statement, 'pdf', farmerDisplayName(farmer));
+    } catch (error) {
+      console.error('Error exporting statement:', error);
+      showAlert('Error', 'Failed to download the statement', [{ text: 'OK', style: 'default' }]);
+    } finally {
+      setExportingFarmerId(null);
+    }
+  };
+
+  const openRuleForm = (rule: PayoutFeeRule | null) => {
+    setEditingRule(rule);
+    setShowRuleForm(true);
+  };
+
+  const handleRuleSaved = async () => {
+    setShowRuleForm(false);
+    setEditingRule(null);
+    await loadFeeRules();
+  };
+
+  const toggleRuleActive = async (rule: PayoutFeeRule) => {
+    try {
+      await setFeeRuleActive(rule.id, !rule.is_active);
+      await loadFeeRules();
+    } catch (error: any) {
+      showAlert('Error', error.message || 'Failed to update the fee', [{ text: 'OK', style: 'default' }]);
+    }
+  };
+
+  const describeRuleScope = (rule: PayoutFeeRule) => {
+    if (rule.farmer_id) {
+      const farmer = balances.find(item => item.farmer_id === rule.farmer_id);
+      return farmer ? `Only ${farmerDisplayName(farmer)}` : 'One farmer';
+    }
+    return rule.barangay ? `Farmers in ${rule.barangay}` : 'All farmers';
+  };
+
+  const renderBalances = () => {
+    const totalOwed = balances.reduce((sum, farmer) => sum + Math.max(farmer.balance, 0), 0);
+
+    return (
+      <>
+        <View style={styles.card}>
+          <Text style={styles.mutedText}>Owed to farmers</Text>
+          <Text style={styles.totalAmount}>{formatPeso(totalOwed)}</Text>
+          <Text style={styles.mutedText}>
+            Online payments less fees and refunds, minus payouts already made.
+          </Text>
+        </View>
+
+        {balances.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Icon name="hand-holding-usd" size={40} color={colors.textSecondary} />
+            <Text style={styles.emptyTitle}>No farmer sales yet</Text>
+          </View>
+        ) : (
+          balances.map((farmer) => (
+            <View key={farmer.farmer_id} style={styles.card}>
+              <View style={styles.rowHeader}>
+                <View style={styles.flex}>
+                  <Text style={styles.farmerName}>{farmerDisplayName(farmer)}</Text>
+                  <Text style={styles.mutedText}>
+                    {farmer.barangay || 'No barangay'}
+                    {farmer.last_payout_at
+                      ? ` · Last paid ${new Date(farmer.last_payout_at).toLocaleDateString('en-PH')}`
+                      : ' · Never paid out'}
+                  </Text>
+                </View>
+                <Text style={[styles.balance, farmer.balance < 0 && styles.negative]}>
+                  {formatPeso(farmer.balance)}
+                </Text>
+              </View>
+              <View style={styles.actions}>
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => downloadStatement(farmer)}
+                  disabled={exportingFarmerId !== null}
+                >
+                  {exportingFarmerId === farmer.farmer_id ? (
+                    <ActivityIndicator size="small" color={colors.primary} />
+                  ) : (
+                    <Text style={styles.actionText}>This Month&apos;s Statement</Text>
+                  )}
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.payButton, farmer.balance <= 0 && styles.disabledButton]}
+                  onPress={() => setPayingFarmer(farmer)}
+                  disabled={farmer.balance <= 0}
+                >
+                  <Icon name="money-bill-wave" size={12} color={colors.white} style={styles.buttonIcon} />
+                  <Text style={styles.payButtonText}>Record Payout</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))
+        )}
+      </>
+    );
+  };
+
+  const renderFees = () => (
+    <>
+      <TouchableOpacity style={styles.addButton} onPress={() => openRuleForm(null)} activeOpacity={0.8}>
+        <Icon name="plus" size={12} color={colors.white} style={styles.buttonIcon} />
+        <Text style={styles.payButtonText}>Add Fee</Text>
+      </TouchableOpacity>
+
+      {feeRules.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Icon name="percent" size={40} color={colors.textSecondary} />
+          <Text style={styles.emptyTitle}>No fees</Text>
+          <Text style={styles.mutedText}>Farmers are owed the full amount of every online sale.</Text>
+        </View>
+      ) : (
+        feeRules.map((rule) => (
+          <View key={rule.id} style={[styles.card, !rule.is_active && styles.retiredCard]}>
+            <View style={styles.rowHeader}>
+              <View style={styles.flex}>
+                <Text style={styles.farmerName}>{rule.name}</Text>
+                <Text style={styles.mutedText}>
+                  {describeRuleScope(rule)}{rule.is_active ? '' : ' · Stopped'}
+                </Text>
+              </View>
+              <Text style={styles.balance}>{rule.percent}%</Text>
+            </View>
+            <View style={styles.actions}>
+              <TouchableOpacity style={styles.actionButton} onPress={() => openRuleForm(rule)}>
+                <Text style={styles.actionText}>Edit</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.actionButton} onPress={() => toggleRuleActive(rule)}>
+                <Text style={[styles.actionText, rule.is_active && styles.negative]}>
+                  {rule.is_active ? 'Stop' : 'Restart'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ))
+      )}
+    </>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={colors.primary} />
+        <Text style={styles.mutedText}>Loading payouts...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <HeaderComponent
+        profile={profile}
+        userType="admin"
+        currentRoute="/admin/payouts"
+        showMessages={true}
+        showNotifications={true}
+      />
+
+      <View style={styles.tabs}>
+        {(['balances', 'fees'] as const).map((tab) => (
+          <TouchableOpacity
+            key={tab}
+            style={[styles.tab, activeTab === tab && styles.tabActive]}
+            onPress={() => setActiveTab(tab)}
+          >
+            <Text style={[styles.tabText, activeTab === tab && styles.tabTextActive]}>
+              {tab === 'balances' ? 'Farmer Balances' : 'Fees'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentInner}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor={colors.primary}
+            colors={[colors.primary]}
+          />
+        }
+      >
+        {activeTab === 'balances' ? renderBalances() : renderFees()}
+      </ScrollView>
+
+      {profile && (
+        <>
+          <RecordPayoutModal
+            visible={payingFarmer !== null}
+            adminId={profile.id}
+            farmer={payingFarmer}
+            onClose={() => setPayingFarmer(null)}
+            onRecorded={handlePayoutRecorded}
+          />
+          <FeeRuleFormModal
+            visible={showRuleForm}
+            adminId={profile.id}
+            isSuperAdmin={profile.user_type === 'super-admin'}
+            defaultBarangay={profile.barangay}
+            farmers={balances}
+            rule={editingRule}
+            onClose={() => setShowRuleForm(false)}
+            onSaved={handleRuleSaved}
+          />
+        </>
+      )}
+
+      {AlertComponent}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: colors.background,
+  },
+
+  tabs: {
+    flexDirection: 'row',
+    backgroundColor: colors.white,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+    paddingHorizontal: 16,
+  },
+
+  tab: {
+    paddingVertical: 12,
+    marginRight: 20,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+
+  tabActive: {
+    borderBottomColor: colors.primary,
+  },
+
+  tabText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+
+  tabTextActive: {
+    color: colors.primary,
+  },
+
+  content: {
+    flex: 1,
+  },
+
+  contentInner: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+
+  card: {
+    backgroundColor: colors.white,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 16,
+    marginBottom: 12,
+  },
+
+  retiredCard: {
+    opacity: 0.6,
+  },
+
+  totalAmount: {
+    fontSize: 26,
+    fontWeight: '700',
+    color: colors.primary,
+    marginVertical: 4,
+  },
+
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+
+  flex: {
+    flex: 1,
+  },
+
+  farmerName: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.text,
+  },
+
+  balance: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.text,
+    marginLeft: 8,
+  },
+
+  negative: {
+    color: colors.danger,
+  },
+
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: 16,
+    marginTop: 12,
+  },
+
+  actionButton: {
+    paddingVertical: 4,
+  },
+
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+
+  payButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+
+  disabledButton: {
+    opacity: 0.5,
+  },
+
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    marginBottom: 16,
+  },
+
+  buttonIcon: {
+    marginRight: 6,
+  },
+
+  payButtonText: {
+    color: colors.white,
+    fontWeight: '600',
+    fontSize: 14,
+  },
+
+  mutedText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 40,
+    gap: 8,
+  },
+
+  emptyTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.text,
+  },
+});
@@ -153,31 +153,23 @@ export default function AdminProducts() {
         return;
       }
 
-      // Load products with farmer info, filtered by barangay
-      const { data, error } = await supabase
-        .from('products')
-        .select(`
-          *,
-          farmer_profile:profiles!products_farmer_id_fkey(
-            first_name,
-            last_name,
-            farm_name,
-            barangay
-          )
-        `)
+      // Load products with farmer info; the view only returns the admin's barangays
+      const { data, error } = await (supabase as any)
+        .from('admin_products_scoped')
+        .select('*')
         .order('created_at', { ascending: false });
 
       if (error) throw error;
 
-      // Filter products by admin's barangay
-      let filteredData = data || [];
-      if (userData.profile.barangay) {
-        filteredData = filteredData.filter(product =>
-          product.farmer_profile?.barangay === userData.profile.barangay
-        );
-      }
-
-      setProducts(filteredData);
+      setProducts((data || []).map(({ farmer_first_name, farmer_last_name, farmer_farm_name, farmer_barangay, ...product }: any) => ({
+        ...product,
+        farmer_profile: {
+          first_name: farmer_first_name,
+          last_name: farmer_last_name,
+          farm_name: farmer_farm_name,
+          barangay: farmer_barangay,
+        },
+      })));
     } catch (error) {
       console.error('Error loading products:', error);
       showAlert('Error', 'Failed to load products', [
@@ -9,19 +9,34 @@ import {
   KeyboardAvoidingView,
   Platform,
   Dimensions,
-  Image,
   ActivityIndicator,
 } from 'react-native';
 import { router, useLocalSearchParams } from 'expo-router';
-import * as ImagePicker from 'expo-image-picker';
-import * as FileSystem from 'expo-file-system/legacy';
-import { decode } from 'base64-arraybuffer';
 import ConfirmationModal from '../../../../components/ConfirmationModal';
 import { useCustomAlert } from '../../../../components/CustomAlert';
 import HeaderComponent from '../../../../components/HeaderComponent';
+import ProductImagesEditor from '../../../../components/ProductImagesEditor';
+import ProductVariantsEditor, {
+  PriceTierDraft,
+  summarizeVariantDrafts,
+  toPriceTiers,
+  toVariantDrafts,
+  toVariantInputs,
+  validateVariantDrafts,
+  VariantDraft,
+} from '../../../../components/ProductVariantsEditor';
 import { supabase } from '../../../../lib/supabase';
 import { getUserWithProfile } from '../../../../services/auth';
 import { notifyUserAction, notifyAllAdmins } from '../../../../services/notifications';
+import {
+  discardUploadedImages,
+  getProductImages,
+  ProductImageDraft,
+  saveProductImages,
+  toImageDrafts,
+  uploadImageDrafts,
+} from '../../../../services/productMedia';
+import { getProductVariants, saveProductVariants } from '../../../../services/products';
 import { Database } from '../../../../types/database';
 
 type Profile = Database['public']['Tables']['profiles']['Row'];
@@ -75,13 +90,16 @@ export default function AdminEditProductScreen() {
     category: 'Vegetables',
     status: 'pending' as 'pending' | 'approved' | 'rejected',
   });
+  const [variants, setVariants] = useState<VariantDraft[]>([]);
+  const [priceTiers, setPriceTiers] = useState<PriceTierDraft[]>([]);
+  // Saved options or bulk prices exist, so clearing the editor has to be saved too
+  const [hadPricing, setHadPricing] = useState(false);
   const [errors, setErrors] = useState<{[key: string]: string}>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [focusedInput, setFocusedInput] = useState<string | null>(null);
-  const [selectedImage, setSelectedImage] = useState<string | null>(null);
-  const [webImageFile, setWebImageFile] = useState<File | null>(null);
-  const [uploadingImage, setUploadingImage] = useState(false);
-  const [imageChanged, setImageChanged] = useState(false);
+  const [images, setImages] = useState<ProductImageDraft[]>([]);
+  const [imagesChanged, setImagesChanged] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<Record<string, number>>({});
   const [confirmModal, setConfirmModal] = useState<{
     visible: boolean;
     title: string;
@@ -156,7 +174,12 @@ export default function AdminEditProductScreen() {
         category: data.category,
         status: data.status,
       });
-      setSelectedImage(data.image_url);
+      setImages(toImageDrafts(await getProductImages(id)));
+
+      const drafts = toVariantDrafts(await getProductVariants(id));
+      setVariants(drafts.variants);
+      setPriceTiers(drafts.priceTiers);
+      setHadPricing(drafts.variants.length > 0 || drafts.priceTiers.length > 0);
     } catch (err) {
       console.error('Product fetch error:', err);
       showAlert('Error', 'Failed to load product', [
@@ -178,203 +201,24 @@ export default function AdminEditProductScreen() {
       newErrors.description = 'Description is required';
     }
 
-    if (!formData.price || isNaN(parseFloat(formData.price)) || parseFloat(formData.price) <= 0) {
-      newErrors.price = 'Valid price is required';
-    }
-
-    if (!formData.quantity_available || isNaN(parseInt(formData.quantity_available)) || parseInt(formData.quantity_available) <= 0) {
-      newErrors.quantity_available = 'Valid quantity is required';
-    }
-
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
-  };
-
-  const pickImage = async () => {
-    try {
-      const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
-      if (status !== 'granted') {
-        showAlert('Permission needed', 'Sorry, we need camera roll permissions to add product images.', [
-          { text: 'OK', style: 'default' }
-        ]);
-        return;
+    // With options, price and stock are set per option
+    if (variants.length === 0) {
+      if (!formData.price || isNaN(parseFloat(formData.price)) || parseFloat(formData.price) <= 0) {
+        newErrors.price = 'Valid price is required';
       }
 
-      const result = await ImagePicker.launchImageLibraryAsync({
-        mediaTypes: ImagePicker.MediaTypeOptions.Images,
-        allowsEditing: true,
-        aspect: [1, 1],
-        quality: 0.8,
-      });
-
-      if (!result.canceled && result.assets[0]) {
-        setSelectedImage(result.assets[0].uri);
-        setImageChanged(true);
+      if (!formData.quantity_available || isNaN(parseInt(formData.quantity_available)) || parseInt(formData.quantity_available) <= 0) {
+        newErrors.quantity_available = 'Valid quantity is required';
       }
-    } catch (error) {
-      console.error('Error picking image:', error);
-      showAlert('Error', 'Failed to select image', [
-        { text: 'OK', style: 'default' }
-      ]);
     }
-  };
-
-  const takePhoto = async () => {
-    try {
-      const { status } = await ImagePicker.requestCameraPermissionsAsync();
-      if (status !== 'granted') {
-        showAlert('Permission needed', 'Sorry, we need camera permissions to take product photos.', [
-          { text: 'OK', style: 'default' }
-        ]);
-        return;
-      }
 
-      const result = await ImagePicker.launchCameraAsync({
-        allowsEditing: true,
-        aspect: [1, 1],
-        quality: 0.8,
-      });
-
-      if (!result.canceled && result.assets[0]) {
-        setSelectedImage(result.assets[0].uri);
-        setImageChanged(true);
-      }
-    } catch (error) {
-      console.error('Error taking photo:', error);
-      showAlert('Error', 'Failed to take photo', [
-        { text: 'OK', style: 'default' }
-      ]);
+    const variantError = validateVariantDrafts(variants, priceTiers, parseFloat(formData.price));
+    if (variantError) {
+      newErrors.variants = variantError;
     }
-  };
-
-  const uploadImage = async (imageUri: string): Promise<string | null> => {
-    try {
-      setUploadingImage(true);
-
-      // Get session for authentication
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) {
-        showAlert('Error', 'You must be logged in to upload images', [
-          { text: 'OK', style: 'default' }
-        ]);
-        return null;
-      }
-
-      const filename = `product_${Date.now()}_${Math.random().toString(36).substring(7)}.jpg`;
-      const contentType = 'image/jpeg';
-
-      let arrayBuffer: ArrayBuffer;
-
-      // Handle file reading differently for web vs mobile
-      if (Platform.OS === 'web') {
-        if (webImageFile) {
-          // Use stored File object
-          console.log('📁 Web file size:', (webImageFile.size / (1024 * 1024)).toFixed(2) + 'MB');
-          arrayBuffer = await webImageFile.arrayBuffer();
-        } else {
-          // Fallback to fetching blob URL
-          const response = await fetch(imageUri);
-          const blob = await response.blob();
-          console.log('📁 Web blob size:', (blob.size / (1024 * 1024)).toFixed(2) + 'MB');
-          arrayBuffer = await blob.arrayBuffer();
-        }
-      } else {
-        // Mobile: Use FileSystem to read as base64, then convert to ArrayBuffer
-        const fileInfo = await FileSystem.getInfoAsync(imageUri);
-        if (fileInfo.exists && 'size' in fileInfo) {
-          console.log('📁 Mobile file size:', (fileInfo.size / (1024 * 1024)).toFixed(2) + 'MB');
-        }
-        const base64 = await FileSystem.readAsStringAsync(imageUri, {
-          encoding: FileSystem.EncodingType.Base64,
-        });
-        arrayBuffer = decode(base64);
-      }
-
-      console.log('✅ ArrayBuffer size:', arrayBuffer.byteLength, 'bytes');
-      console.log('📤 Uploading to Supabase Storage...');
-
-      // Upload using fetch API with ArrayBuffer - direct upload method
-      const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL || '';
-      const uploadUrl = `${supabaseUrl}/storage/v1/object/product-images/${filename}`;
-
-      const uploadResponse = await fetch(uploadUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${session.access_token}`,
-          'Content-Type': contentType,
-          'x-upsert': 'false',
-        },
-        body: arrayBuffer,
-      });
 
-      console.log('📡 Upload response:', uploadResponse.status);
-
-      if (!uploadResponse.ok) {
-        const errorText = await uploadResponse.text();
-        console.error('❌ Upload failed:', errorText);
-        throw new Error(`Upload failed: ${uploadResponse.status}`);
-      }
-
-      console.log('✅ Product image uploaded successfully');
-
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('product-images')
-        .getPublicUrl(filename);
-
-      console.log('🔗 Product image URL:', publicUrl);
-
-      return publicUrl;
-    } catch (error: any) {
-      console.error('Error uploading image:', error);
-      showAlert('Error', error.message || 'Failed to upload image', [
-        { text: 'OK', style: 'default' }
-      ]);
-      return null;
-    } finally {
-      setUploadingImage(false);
-    }
-  };
-
-  const showImageOptions = () => {
-    if (Platform.OS === 'web') {
-      const input = document.createElement('input');
-      input.type = 'file';
-      input.accept = 'image/*';
-      input.onchange = (event) => {
-        const file = (event.target as HTMLInputElement).files?.[0];
-        if (file) {
-          if (file.size > 5 * 1024 * 1024) {
-            showAlert('Error', 'Image size must be less than 5MB', [
-              { text: 'OK', style: 'default' }
-            ]);
-            return;
-          }
-          if (!file.type.startsWith('image/')) {
-            showAlert('Error', 'Please select a valid image file', [
-              { text: 'OK', style: 'default' }
-            ]);
-            return;
-          }
-          const imageUrl = URL.createObjectURL(file);
-          setSelectedImage(imageUrl);
-          setWebImageFile(file);
-          setImageChanged(true);
-        }
-      };
-      input.click();
-    } else {
-      showAlert(
-        'Change Product Image',
-        'Choose how you want to change the product image',
-        [
-          { text: 'Camera', onPress: takePhoto },
-          { text: 'Photo Library', onPress: pickImage },
-          { text: 'Remove Image', onPress: () => { setSelectedImage(null); setImageChanged(true); }, style: 'destructive' },
-          { text: 'Cancel', style: 'cancel' },
-        ]
-      );
-    }
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
   };
 
   const handleSubmit = async () => {
@@ -399,29 +243,30 @@ export default function AdminEditProductScreen() {
     setIsSubmitting(true);
 
     try {
-      let imageUrl = product.image_url;
-
-      if (imageChanged) {
-        if (selectedImage) {
-          const newImageUrl = await uploadImage(selectedImage);
-          if (!newImageUrl) {
-            throw new Error('Failed to upload image');
-          }
-          imageUrl = newImageUrl;
-        } else {
-          imageUrl = null;
-        }
-      }
+      // Only photos added in this edit are uploaded; the gallery is saved after the product
+      const uploadedImages = imagesChanged
+        ? await uploadImageDrafts(images, (key, fraction) =>
+          setUploadProgress(prev => ({ ...prev, [key]: fraction }))
+        )
+        : null;
+      const newImages = (uploadedImages || []).filter((_, index) => !images[index].uploaded);
+
+      const pricing = variants.length > 0
+        ? summarizeVariantDrafts(variants)
+        : {
+          price: parseFloat(formData.price),
+          unit: formData.unit,
+          quantity_available: parseInt(formData.quantity_available),
+        };
 
       const updatedData = {
         name: formData.name.trim(),
         description: formData.description.trim(),
-        price: parseFloat(formData.price),
-        unit: formData.unit,
-        quantity_available: parseInt(formData.quantity_available),
+        price: pricing.price,
+        unit: pricing.unit,
+        quantity_available: pricing.quantity_available,
         category: formData.category,
         status: formData.status,
-        image_url: imageUrl,
         updated_at: new Date().toISOString(),
       };
 
@@ -430,7 +275,18 @@ export default function AdminEditProductScreen() {
         .update(updatedData)
         .eq('id', id);
 
-      if (error) throw error;
+      if (error) {
+        await discardUploadedImages(newImages);
+        throw error;
+      }
+
+      if (uploadedImages) {
+        await saveProductImages(id, uploadedImages);
+      }
+
+      if (hadPricing || variants.length > 0 || priceTiers.length > 0) {
+        await saveProductVariants(id, toVariantInputs(variants), toPriceTiers(priceTiers));
+      }
 
       // Send notifications
       try {
@@ -476,6 +332,7 @@ export default function AdminEditProductScreen() {
       ]);
     } finally {
       setIsSubmitting(false);
+      setUploadProgress({});
     }
   };
 
@@ -608,73 +465,60 @@ export default function AdminEditProductScreen() {
           <Text style={styles.formSubtitle}>Update product details as administrator. All fields marked with * are required.</Text>
 
           <View style={styles.inputContainer}>
-            <Text style={styles.inputLabel}>Product Image</Text>
-            <TouchableOpacity style={styles.imagePickerButton} onPress={showImageOptions} disabled={uploadingImage}>
-              {selectedImage ? (
-                <View style={styles.imagePreviewContainer}>
-                  <Image source={{ uri: selectedImage }} style={styles.imagePreview} />
-                  <View style={styles.imageOverlay}>
-                    <Text style={styles.changeImageText}>Tap to change</Text>
-                  </View>
-                </View>
-              ) : (
-                <View style={styles.imagePlaceholder}>
-                  <Text style={styles.imagePlaceholderIcon}>📷</Text>
-                  <Text style={styles.imagePlaceholderText}>Add Product Photo</Text>
-                  <Text style={styles.imagePlaceholderSubtext}>
-                    {Platform.OS === 'web' ? 'Click to select image file' : 'Tap to select from gallery or take photo'}
-                  </Text>
-                </View>
-              )}
-              {uploadingImage && (
-                <View style={styles.uploadingOverlay}>
-                  <ActivityIndicator size="large" color="#10b981" />
-                  <Text style={styles.uploadingText}>Uploading...</Text>
-                </View>
-              )}
-            </TouchableOpacity>
+            <Text style={styles.inputLabel}>Product Photos</Text>
+            <ProductImagesEditor
+              images={images}
+              onChange={(next) => {
+                setImages(next);
+                setImagesChanged(true);
+              }}
+              progress={uploadProgress}
+              disabled={isSubmitting}
+            />
           </View>
 
           {renderInput('name', 'Product Name')}
           {renderInput('description', 'Description', { multiline: true, numberOfLines: 4 })}
 
-          <View style={styles.row}>
-            <View style={[styles.inputContainer, { flex: 1, marginRight: 12 }]}>
-              <Text style={styles.inputLabel}>
-                Price<Text style={styles.requiredStar}> *</Text>
-              </Text>
-              <View style={styles.priceInputContainer}>
-                <Text style={styles.currencySymbol}>₱</Text>
-                <TextInput
-                  style={[
-                    styles.input,
-                    styles.priceInput,
-                    focusedInput === 'price' && styles.inputFocused,
-                    errors.price && styles.inputError,
-                  ]}
-                  value={formData.price}
-                  onChangeText={(text) => {
-                    setFormData(prev => ({ ...prev, price: text }));
-                    if (errors.price) {
-                      setErrors(prev => ({ ...prev, price: '' }));
-                    }
-                  }}
-                  placeholder="0.00"
-                  placeholderTextColor="#9ca3af"
-                  onFocus={() => setFocusedInput('price')}
-                  onBlur={() => setFocusedInput(null)}
-                  keyboardType="decimal-pad"
-                />
+          {variants.length === 0 && (
+            <View style={styles.row}>
+              <View style={[styles.inputContainer, { flex: 1, marginRight: 12 }]}>
+                <Text style={styles.inputLabel}>
+                  Price<Text style={styles.requiredStar}> *</Text>
+                </Text>
+                <View style={styles.priceInputContainer}>
+                  <Text style={styles.currencySymbol}>₱</Text>
+                  <TextInput
+                    style={[
+                      styles.input,
+                      styles.priceInput,
+                      focusedInput === 'price' && styles.inputFocused,
+                      errors.price && styles.inputError,
+                    ]}
+                    value={formData.price}
+                    onChangeText={(text) => {
+                      setFormData(prev => ({ ...prev, price: text }));
+                      if (errors.price) {
+                        setErrors(prev => ({ ...prev, price: '' }));
+                      }
+                    }}
+                    placeholder="0.00"
+                    placeholderTextColor="#9ca3af"
+                    onFocus={() => setFocusedInput('price')}
+                    onBlur={() => setFocusedInput(null)}
+                    keyboardType="decimal-pad"
+                  />
+                </View>
+                {errors.price && <Text style={styles.errorText}>{errors.price}</Text>}
               </View>
-              {errors.price && <Text style={styles.errorText}>{errors.price}</Text>}
-            </View>
 
-            <View style={[styles.inputContainer, { flex: 1, marginLeft: 12 }]}>
-              {renderInput('quantity_available', 'Quantity', { keyboardType: 'numeric' })}
+              <View style={[styles.inputContainer, { flex: 1, marginLeft: 12 }]}>
+                {renderInput('quantity_available', 'Quantity', { keyboardType: 'numeric' })}
+              </View>
             </View>
-          </View>
+          )}
 
-          {renderSelector('unit', 'Unit', UNITS)}
+          {variants.length === 0 && renderSelector('unit', 'Unit', UNITS)}
           {renderSelector('category', 'Category', CATEGORIES)}
           {renderSelector('status', 'Status', [
             { value: 'pending', label: 'Pending' },
@@ -682,6 +526,22 @@ export default function AdminEditProductScreen() {
             { value: 'rejected', label: 'Rejected' }
           ])}
 
+          <ProductVariantsEditor
+            variants={variants}
+            priceTiers={priceTiers}
+            units={UNITS}
+            defaultUnit={formData.unit}
+            baseUnit={formData.unit}
+            onChange={(nextVariants, nextTiers) => {
+              setVariants(nextVariants);
+              setPriceTiers(nextTiers);
+              if (errors.variants) {
+                setErrors(prev => ({ ...prev, variants: '' }));
+              }
+            }}
+            error={errors.variants}
+          />
+
           <View style={styles.infoBox}>
             <Text style={styles.infoTitle}>🛡️ Admin Note</Text>
             <Text style={styles.infoText}>
@@ -758,15 +618,4 @@ const styles = StyleSheet.create({
   submitButton: { flex: 2, paddingVertical: 16, borderRadius: 12, alignItems: 'center', backgroundColor: '#10b981', shadowColor: '#10b981', shadowOffset: { width: 0, height: 4 }, shadowOpacity: 0.3, shadowRadius: 8, elevation: 4 },
   submitButtonDisabled: { backgroundColor: '#9ca3af', shadowOpacity: 0, elevation: 0 },
   submitButtonText: { fontSize: 16, fontWeight: '700', color: '#ffffff', letterSpacing: 0.5 },
-  imagePickerButton: { borderWidth: 2, borderColor: '#e5e7eb', borderRadius: 12, borderStyle: 'dashed', backgroundColor: '#ffffff', overflow: 'hidden' },
-  imagePlaceholder: { alignItems: 'center', justifyContent: 'center', paddingVertical: 48, paddingHorizontal: 24 },
-  imagePlaceholderIcon: { fontSize: 48, marginBottom: 16 },
-  imagePlaceholderText: { fontSize: 18, fontWeight: '600', color: '#374151', marginBottom: 8 },
-  imagePlaceholderSubtext: { fontSize: 14, color: '#6b7280', textAlign: 'center', lineHeight: 20 },
-  imagePreviewContainer: { position: 'relative', aspectRatio: 1, width: '100%' },
-  imagePreview: { width: '100%', height: '100%', resizeMode: 'cover' },
-  imageOverlay: { position: 'absolute', bottom: 0, left: 0, right: 0, backgroundColor: 'rgba(0, 0, 0, 0.7)', paddingVertical: 12, alignItems: 'center' },
-  changeImageText: { color: '#ffffff', fontSize: 14, fontWeight: '600' },
-  uploadingOverlay: { position: 'absolute', top: 0, left: 0, right: 0, bottom: 0, backgroundColor: 'rgba(255, 255, 255, 0.9)', alignItems: 'center', justifyContent: 'center' },
-  uploadingText: { marginTop: 12, fontSize: 16, fontWeight: '600', color: '#10b981' },
 });
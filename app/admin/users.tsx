@@ -30,7 +30,9 @@ import { useConfirmationModal } from '../../contexts/ConfirmationModalContext';
 import { supabase } from '../../lib/supabase';
 import { getUserWithProfile } from '../../services/auth';
 import { notifyAllAdmins, notifyUserAction } from '../../services/notifications';
+import { PurchaseScanResult, recordPurchaseScan } from '../../services/purchaseCodes';
 import { Database } from '../../types/database';
+import { verifyPurchaseQR } from '../../utils/purchaseCode';
 
 
 const { width: screenWidth } = Dimensions.get('window');
@@ -1087,11 +1089,24 @@ const [successMessage, setSuccessMessage] = useState('');
 
     const handleQrCodeScanned = async (data: string) => {
         try {
-            // Parse the QR code data (assuming it contains order information)
-            const orderData = JSON.parse(data);
+            // Only signed Farm2Go codes are accepted; the signature is checked on the device
+            const verification = verifyPurchaseQR(data);
+            if (!verification.payload) {
+                if (verification.status === 'invalid_signature' || verification.status === 'unsigned') {
+                    recordPurchaseScan({
+                        orderId: null,
+                        purchaseCode: null,
+                        result: verification.status,
+                        verifiedOffline: true,
+                    }).catch((logError) => console.error('Error logging scan:', logError));
+                }
+                Alert.alert('Error', 'This QR code is not an authentic Farm2Go purchase code');
+                return;
+            }
+            const { payload } = verification;
 
             // Fetch the full order details from the database including buyer's full information
-            const { data: orderDetails, error } = await supabase
+            const { data: orderDetails, error } = await (supabase as any)
                 .from('orders')
                 .select(`
           *,
@@ -1099,13 +1114,32 @@ const [successMessage, setSuccessMessage] = useState('');
           farmer_profile:profiles!orders_farmer_id_fkey(first_name, last_name, farm_name),
           product:products(name, price, unit)
         `)
-                .eq('id', orderData.orderId || orderData.order_id)
+                .eq('id', payload.orderId)
                 .single();
 
+            const result: PurchaseScanResult = !orderDetails
+                ? 'not_found'
+                : orderDetails.purchase_code !== payload.code
+                    ? 'mismatch'
+                    : verification.status === 'expired' ? 'expired' : 'valid';
+            recordPurchaseScan({
+                orderId: orderDetails ? payload.orderId : null,
+                purchaseCode: payload.code,
+                result,
+                verifiedOffline: false,
+            }).catch((logError) => console.error('Error logging scan:', logError));
+
             if (error || !orderDetails) {
                 Alert.alert('Error', 'Order not found or invalid QR code');
                 return;
             }
+            if (result === 'mismatch') {
+                Alert.alert('Error', 'The purchase code on this QR code does not match the order');
+                return;
+            }
+            if (result === 'expired') {
+                Alert.alert('QR Code Expired', 'This QR code is authentic but has expired. Ask the buyer to refresh it in their app.');
+            }
 
             // Add buyer name info for easy display
             const enrichedOrderData = {
@@ -2710,8 +2744,8 @@ const [successMessage, setSuccessMessage] = useState('');
             <OrderQRScanner
                 visible={qrScannerVisible}
                 onClose={() => setQrScannerVisible(false)}
-                onOrderScanned={(orderData) => {
-                    setScannedOrderData(orderData);
+                onOrderScanned={(verification) => {
+                    setScannedOrderData(verification);
                     setQrScannerVisible(false);
                     setOrderProcessingVisible(true);
                 }}
@@ -2720,7 +2754,7 @@ const [successMessage, setSuccessMessage] = useState('');
             {/* Order Verification Modal */}
             <OrderVerificationModal
                 visible={orderProcessingVisible}
-                orderData={scannedOrderData}
+                verification={scannedOrderData}
                 onClose={() => {
                     setOrderProcessingVisible(false);
                     setScannedOrderData(null);
@@ -8,6 +8,7 @@ import { supabase } from '../../lib/supabase';
 import { Database } from '../../types/database';
 import { safeLocalStorage } from '../../utils/platformUtils';
 import { checkExistingUserProfile } from '../../services/auth';
+import { geocodeProfileAddress, toLocationColumns } from '../../services/profileLocation';
 
 const { width, height } = Dimensions.get('window');
 const isMobile = width < 768;
@@ -270,6 +271,8 @@ export default function CompleteProfileScreen() {
         ? generateStableId()
         : oauthUser.id;
 
+      const location = toLocationColumns(await geocodeProfileAddress(formData.barangay));
+
       const profileData: Database['public']['Tables']['profiles']['Insert'] = {
         id: userId,
         email: oauthUser.email || '',
@@ -281,6 +284,7 @@ export default function CompleteProfileScreen() {
         user_type: userType,
         farm_name: formData.farmName || null,
         farm_size: formData.farmSize || null,
+        ...location,
       };
 
       console.log('📝 Creating complete profile:', profileData);
@@ -307,6 +311,7 @@ export default function CompleteProfileScreen() {
             user_type: userType,
             farm_name: formData.farmName || null,
             farm_size: formData.farmSize || null,
+            ...location,
           })
           .eq('id', userId)
           .select()
@@ -8,6 +8,7 @@ export default function BuyerLayout() {
         <Stack.Screen name="index" options={{ headerShown: false, title: 'Home' }} />
         <Stack.Screen name="marketplace" options={{ headerShown: false, title: 'Marketplace' }} />
         <Stack.Screen name="products" options={{ headerShown: false, title: 'Products' }} />
+        <Stack.Screen name="search" options={{ headerShown: false, title: 'Search' }} />
         <Stack.Screen name="cart" options={{ headerShown: false, title: 'Cart' }} />
         <Stack.Screen name="my-orders" options={{ headerShown: false, title: 'My Orders' }} />
         <Stack.Screen name="purchase-history" options={{ headerShown: false, title: 'Purchase History' }} />
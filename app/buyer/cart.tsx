@@ -0,0 +1,656 @@
+import { router } from "expo-router";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Image,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import Icon from "react-native-vector-icons/FontAwesome5";
+import ConfirmationModal from "../../components/ConfirmationModal";
+import DeliverySlotPicker, { DeliverySlotChoice } from "../../components/DeliverySlotPicker";
+import MockPaymentModal from "../../components/MockPaymentModal";
+import VerificationGuard from "../../components/VerificationGuard";
+import { useAuth } from "../../contexts/AuthContext";
+import { useCart } from "../../contexts/CartContext";
+import { cartLineKey, cartLinePrice, groupCartByFarmer } from "../../services/cart";
+import { notifyLowStock, notifyOrderCreated } from "../../services/notifications";
+import { createMultiItemOrders } from "../../services/orders";
+import { getAvailablePaymentMethods, openCheckout, startPayment } from "../../services/payments";
+import { PAYMENT_METHOD_CONFIG, PaymentMethod } from "../../types/orders";
+import { showError, showSuccess } from "../../utils/alert";
+
+const LOW_STOCK_THRESHOLD = 5;
+
+const formatPrice = (price: number) => `₱${price.toLocaleString()}`;
+
+export default function CartScreen() {
+  const { user, profile } = useAuth();
+  const {
+    items,
+    itemCount,
+    subtotal,
+    loading,
+    updateQuantity,
+    removeItem,
+    removeItems,
+  } = useCart();
+  const [deliveryAddress, setDeliveryAddress] = useState("");
+  const [notes, setNotes] = useState("");
+  const [placing, setPlacing] = useState(false);
+  const [showConfirm, setShowConfirm] = useState(false);
+  const paymentMethods = getAvailablePaymentMethods();
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>(paymentMethods[0] || "cod");
+  const [mockPayment, setMockPayment] = useState<{ reference: string; amount: number } | null>(null);
+  // Delivery slot or pickup point chosen for each farmer's order
+  const [slotChoices, setSlotChoices] = useState<Record<string, DeliverySlotChoice | null>>({});
+
+  useEffect(() => {
+    if (profile?.barangay) {
+      const barangay = profile.barangay;
+      setDeliveryAddress((prev) => prev || barangay);
+    }
+  }, [profile?.barangay]);
+
+  const groups = groupCartByFarmer(items);
+
+  const handleCheckout = () => {
+    if (!user) {
+      router.push("/auth/login" as any);
+      return;
+    }
+    if (items.length === 0) {
+      showError("Your cart is empty");
+      return;
+    }
+    if (!deliveryAddress.trim()) {
+      showError("Please enter a delivery address");
+      return;
+    }
+    const overStock = items.find((line) => line.quantity > line.quantity_available);
+    if (overStock) {
+      showError(`Only ${overStock.quantity_available} ${overStock.unit} of ${overStock.name} left`);
+      return;
+    }
+    setShowConfirm(true);
+  };
+
+  const placeOrders = async () => {
+    if (!user) return;
+
+    try {
+      setPlacing(true);
+
+      // Slots are booked with the orders, so a slot that filled up fails the whole checkout
+      const deliverySlots: Record<string, { slot_id: string; date: string }> = {};
+      Object.entries(slotChoices).forEach(([farmerId, choice]) => {
+        if (choice) deliverySlots[farmerId] = { slot_id: choice.slotId, date: choice.date };
+      });
+
+      const results = await createMultiItemOrders(user.id, {
+        items: items.map((line) => ({
+          product_id: line.product_id,
+          variant_id: line.variant_id || null,
+          quantity: line.quantity,
+        })),
+        delivery_address: deliveryAddress.trim(),
+        notes: notes.trim() || undefined,
+        payment_method: paymentMethod,
+        delivery_slots: deliverySlots,
+      });
+
+      const buyerName = profile
+        ? `${profile.first_name || ""} ${profile.last_name || ""}`.trim()
+        : undefined;
+
+      for (const result of results) {
+        const group = groups.find((g) => g.farmerId === result.order.farmer_id);
+
+        try {
+          await notifyOrderCreated(result.order.id, user.id, result.order.farmer_id, {
+            totalAmount: result.order.total_price,
+            itemCount: result.items?.length || group?.items.length || 1,
+            buyerName,
+            farmerName: group?.farmName || undefined,
+            productName: group?.items.map((line) => line.name).join(", "),
+          });
+
+          // Warn farmers about lines that dropped to low stock
+          for (const line of group?.items || []) {
+            const remaining = line.quantity_available - line.quantity;
+            if (remaining <= LOW_STOCK_THRESHOLD && remaining > 0) {
+              await notifyLowStock(line.farmer_id, line.name, remaining, LOW_STOCK_THRESHOLD);
+            }
+          }
+        } catch (notifError) {
+          console.error("⚠️ Failed to send order notification:", notifError);
+        }
+      }
+
+      removeItems(items.map(cartLineKey));
+      showSuccess(
+        results.length === 1
+          ? "Your order has been placed."
+          : `${results.length} orders placed, one per farmer.`,
+        "Order Placed",
+      );
+
+      // E-wallet orders are paid right away; a failed start can be retried from the order
+      try {
+        const payment = await startPayment(results.map((result) => result.transaction));
+        if (payment.next === "redirect" && payment.checkoutUrl) {
+          await openCheckout(payment.checkoutUrl);
+        } else if (payment.next === "mock" && payment.reference) {
+          setMockPayment({
+            reference: payment.reference,
+            amount: results.reduce((sum, result) => sum + Number(result.transaction.amount), 0),
+          });
+          return;
+        }
+      } catch (paymentError: any) {
+        showError(
+          `${paymentError?.message || "Payment could not be started"}. You can pay from the order page.`,
+          "Payment Not Started",
+        );
+      }
+
+      router.replace("/buyer/my-orders" as any);
+    } catch (err: any) {
+      console.error("Checkout error:", err);
+      showError(err?.message || "Failed to place order. Please try again.");
+    } finally {
+      setPlacing(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#10b981" />
+        <Text style={styles.loadingText}>Loading your cart...</Text>
+      </View>
+    );
+  }
+
+  const content = (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === "ios" ? "padding" : "height"}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>My Cart ({itemCount})</Text>
+      </View>
+
+      {items.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Icon name="shopping-basket" size={48} color="#d1d5db" />
+          <Text style={styles.emptyTitle}>Your cart is empty</Text>
+          <Text style={styles.emptyText}>
+            Add products from the marketplace to buy from several farmers in one checkout.
+          </Text>
+          <TouchableOpacity style={styles.orderButton} onPress={() => router.push("/" as any)}>
+            <Text style={styles.orderButtonText}>Browse Marketplace</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <ScrollView style={styles.content}>
+          {groups.map((group) => (
+            <View key={group.farmerId} style={styles.farmerGroup}>
+              <View style={styles.farmerHeader}>
+                <Icon name="tractor" size={14} color="#059669" />
+                <Text style={styles.farmerName}>{group.farmName || "Local Farmer"}</Text>
+              </View>
+
+              {group.items.map((line) => (
+                <View key={cartLineKey(line)} style={styles.lineItem}>
+                  {line.image_url ? (
+                    <Image source={{ uri: line.image_url }} style={styles.lineImage} />
+                  ) : (
+                    <View style={[styles.lineImage, styles.lineImagePlaceholder]}>
+                      <Icon name="seedling" size={18} color="#9ca3af" />
+                    </View>
+                  )}
+                  <View style={styles.lineInfo}>
+                    <Text style={styles.lineName}>{line.name}</Text>
+                    {line.variant_name && (
+                      <Text style={styles.lineVariant}>{line.variant_name}</Text>
+                    )}
+                    <Text style={styles.linePrice}>
+                      {formatPrice(cartLinePrice(line))} / {line.unit}
+                      {cartLinePrice(line) < line.price ? " (bulk price)" : ""}
+                    </Text>
+                    <View style={styles.quantityControls}>
+                      <TouchableOpacity
+                        style={styles.quantityButton}
+                        onPress={() => updateQuantity(cartLineKey(line), line.quantity - 1)}
+                      >
+                        <Icon name="minus" size={12} color="#059669" />
+                      </TouchableOpacity>
+                      <Text style={styles.quantityValue}>{line.quantity}</Text>
+                      <TouchableOpacity
+                        style={styles.quantityButton}
+                        onPress={() => updateQuantity(cartLineKey(line), line.quantity + 1)}
+                        disabled={line.quantity >= line.quantity_available}
+                      >
+                        <Icon name="plus" size={12} color="#059669" />
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                  <View style={styles.lineRight}>
+                    <Text style={styles.lineTotal}>{formatPrice(cartLinePrice(line) * line.quantity)}</Text>
+                    <TouchableOpacity onPress={() => removeItem(cartLineKey(line))}>
+                      <Icon name="trash-alt" size={14} color="#ef4444" />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ))}
+
+              <View style={styles.slotSection}>
+                <Text style={styles.slotTitle}>Delivery or Pickup</Text>
+                <DeliverySlotPicker
+                  farmerId={group.farmerId}
+                  value={slotChoices[group.farmerId] || null}
+                  onChange={(choice) => setSlotChoices((prev) => ({ ...prev, [group.farmerId]: choice }))}
+                />
+              </View>
+
+              <View style={styles.groupFooter}>
+                <Text style={styles.groupFooterLabel}>Subtotal</Text>
+                <Text style={styles.groupFooterValue}>{formatPrice(group.subtotal)}</Text>
+              </View>
+            </View>
+          ))}
+
+          <View style={styles.formSection}>
+            <Text style={styles.sectionTitle}>Checkout</Text>
+
+            <Text style={styles.label}>Delivery Address</Text>
+            <TextInput
+              style={styles.input}
+              value={deliveryAddress}
+              onChangeText={setDeliveryAddress}
+              placeholder="Barangay, street or landmark"
+              placeholderTextColor="#9ca3af"
+            />
+
+            <Text style={styles.label}>Notes (Optional)</Text>
+            <TextInput
+              style={[styles.input, styles.textArea]}
+              value={notes}
+              onChangeText={setNotes}
+              placeholder="Any special instructions for the farmers"
+              placeholderTextColor="#9ca3af"
+              multiline
+              numberOfLines={3}
+            />
+
+            <Text style={styles.label}>Payment Method</Text>
+            <View style={styles.paymentOptions}>
+              {paymentMethods.map((method) => {
+                const config = PAYMENT_METHOD_CONFIG[method];
+                const selected = method === paymentMethod;
+                return (
+                  <TouchableOpacity
+                    key={method}
+                    style={[styles.paymentOption, selected && styles.paymentOptionSelected]}
+                    onPress={() => setPaymentMethod(method)}
+                  >
+                    <Icon name={config.icon} size={16} color={selected ? "#059669" : "#6b7280"} />
+                    <View style={styles.paymentOptionInfo}>
+                      <Text style={styles.paymentOptionLabel}>{config.label}</Text>
+                      <Text style={styles.paymentOptionDescription}>{config.description}</Text>
+                    </View>
+                    <Icon
+                      name={selected ? "check-circle" : "circle"}
+                      size={16}
+                      color={selected ? "#10b981" : "#d1d5db"}
+                    />
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <View style={styles.totalRow}>
+              <Text style={styles.totalLabel}>
+                {groups.length} {groups.length === 1 ? "order" : "orders"} · {itemCount} item(s)
+              </Text>
+              <Text style={styles.grandTotalValue}>{formatPrice(subtotal)}</Text>
+            </View>
+          </View>
+
+          <TouchableOpacity
+            style={[styles.orderButton, placing && styles.orderButtonDisabled]}
+            onPress={handleCheckout}
+            disabled={placing}
+          >
+            <Text style={styles.orderButtonText}>
+              {placing ? "Placing Order..." : "Place Order"}
+            </Text>
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+
+      <ConfirmationModal
+        visible={showConfirm}
+        title="Confirm Order?"
+        message={`Place ${groups.length} ${groups.length === 1 ? "order" : "orders"} totaling ${formatPrice(subtotal)} with ${PAYMENT_METHOD_CONFIG[paymentMethod].label}? Each farmer receives a separate order.`}
+        confirmText="Yes, Place Order"
+        onConfirm={() => {
+          setShowConfirm(false);
+          placeOrders();
+        }}
+        onCancel={() => setShowConfirm(false)}
+      />
+
+      <MockPaymentModal
+        visible={!!mockPayment}
+        reference={mockPayment?.reference || null}
+        amount={mockPayment?.amount || 0}
+        onFinished={(outcome) => {
+          setMockPayment(null);
+          if (outcome === "completed") {
+            showSuccess("Payment received.", "Paid");
+          } else {
+            showError("The payment failed. You can retry it from the order page.", "Payment Failed");
+          }
+          router.replace("/buyer/my-orders" as any);
+        }}
+        onCancel={() => {
+          setMockPayment(null);
+          router.replace("/buyer/my-orders" as any);
+        }}
+      />
+    </KeyboardAvoidingView>
+  );
+
+  if (!user) {
+    return content;
+  }
+
+  return (
+    <VerificationGuard userId={user.id} userType="buyer" action="buy">
+      {content}
+    </VerificationGuard>
+  );
+}
+
+const styles = StyleSheet.create({
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#f8fafc",
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: "#6b7280",
+    fontWeight: "500",
+  },
+  container: {
+    flex: 1,
+    backgroundColor: "#f8fafc",
+  },
+  header: {
+    backgroundColor: "#ffffff",
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  backButtonText: {
+    color: "#10b981",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 24,
+    gap: 12,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#6b7280",
+    textAlign: "center",
+    marginBottom: 12,
+  },
+  farmerGroup: {
+    backgroundColor: "#ffffff",
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+  },
+  farmerHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 12,
+  },
+  farmerName: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#059669",
+  },
+  lineItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#f3f4f6",
+    gap: 12,
+  },
+  lineImage: {
+    width: 56,
+    height: 56,
+    borderRadius: 8,
+  },
+  lineImagePlaceholder: {
+    backgroundColor: "#f3f4f6",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  lineInfo: {
+    flex: 1,
+  },
+  lineName: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  lineVariant: {
+    fontSize: 12,
+    color: "#059669",
+    marginTop: 2,
+  },
+  linePrice: {
+    fontSize: 13,
+    color: "#6b7280",
+    marginVertical: 4,
+  },
+  quantityControls: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  quantityButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "#10b981",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  quantityValue: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#111827",
+    minWidth: 24,
+    textAlign: "center",
+  },
+  lineRight: {
+    alignItems: "flex-end",
+    gap: 12,
+  },
+  lineTotal: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  slotSection: {
+    borderTopWidth: 1,
+    borderTopColor: "#e5e7eb",
+    paddingVertical: 12,
+  },
+  slotTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#374151",
+    marginBottom: 8,
+  },
+  groupFooter: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    borderTopWidth: 1,
+    borderTopColor: "#e5e7eb",
+    paddingTop: 12,
+  },
+  groupFooterLabel: {
+    fontSize: 14,
+    color: "#6b7280",
+  },
+  groupFooterValue: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  formSection: {
+    backgroundColor: "#ffffff",
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#111827",
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#374151",
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: "#111827",
+    backgroundColor: "#ffffff",
+    marginBottom: 16,
+  },
+  textArea: {
+    height: 80,
+    textAlignVertical: "top",
+  },
+  paymentOptions: {
+    gap: 8,
+    marginBottom: 16,
+  },
+  paymentOption: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    borderRadius: 8,
+    padding: 12,
+  },
+  paymentOptionSelected: {
+    borderColor: "#10b981",
+    backgroundColor: "#ecfdf5",
+  },
+  paymentOptionInfo: {
+    flex: 1,
+  },
+  paymentOptionLabel: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  paymentOptionDescription: {
+    fontSize: 13,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+  totalRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    borderTopWidth: 1,
+    borderTopColor: "#e5e7eb",
+    paddingTop: 12,
+  },
+  totalLabel: {
+    fontSize: 15,
+    color: "#374151",
+  },
+  grandTotalValue: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#10b981",
+  },
+  orderButton: {
+    backgroundColor: "#10b981",
+    borderRadius: 8,
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    alignItems: "center",
+    marginBottom: 24,
+  },
+  orderButtonDisabled: {
+    backgroundColor: "#9ca3af",
+  },
+  orderButtonText: {
+    color: "#ffffff",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
@@ -1,5 +1,3 @@
-import { decode } from 'base64-arraybuffer';
-import * as FileSystem from 'expo-file-system/legacy';
 import { router } from 'expo-router';
 import * as ImagePicker from 'expo-image-picker';
 import React, { useEffect, useState } from 'react';
@@ -22,17 +20,27 @@ import {
   View,
 } from 'react-native';
 import ConfirmationModal from '../../components/ConfirmationModal';
+import DeliverySlotModal from '../../components/DeliverySlotModal';
 import FilterSidebar from '../../components/FilterSidebar';
 import HeaderComponent from '../../components/HeaderComponent';
 import MapDirectionsModal from '../../components/MapDirectionsModal';
 import OrderDetailsModal from '../../components/OrderDetailsModal';
 import OrderQRCodeModal from '../../components/OrderQRCodeModal';
-import { supabase } from '../../lib/supabase';
 import { getUserWithProfile } from '../../services/auth';
+import { canRescheduleOrder, formatDeliverySchedule } from '../../services/deliverySlots';
 import { notifyBarangayAdmins, notifyOrderStatusChange } from '../../services/notifications';
-import { getBuyerOrders, subscribeToUserOrders } from '../../services/orders';
+import { getBuyerOrders, subscribeToUserOrders, updateOrderStatus } from '../../services/orders';
+import { MAX_REFUND_PHOTOS, requestRefund } from '../../services/refunds';
 import { Database } from '../../types/database';
-import { ORDER_STATUS_CONFIG, OrderWithDetails, Order } from '../../types/orders';
+import {
+  canTransitionOrderStatus,
+  ORDER_STATUS_CONFIG,
+  OrderWithDetails,
+  Order,
+  REFUND_ISSUE_TYPES,
+  RefundIssueType,
+  RefundType,
+} from '../../types/orders';
 
 const { width } = Dimensions.get('window');
 
@@ -92,6 +100,7 @@ export default function BuyerMyOrdersScreen() {
   const [showDetailsModal, setShowDetailsModal] = useState(false);
   const [showMapModal, setShowMapModal] = useState(false);
   const [selectedOrder, setSelectedOrder] = useState<OrderWithDetails | null>(null);
+  const [slotOrder, setSlotOrder] = useState<OrderWithDetails | null>(null);
   const fadeAnim = new Animated.Value(0);
   const [confirmModal, setConfirmModal] = useState<{
     visible: boolean;
@@ -109,12 +118,15 @@ export default function BuyerMyOrdersScreen() {
     onConfirm: () => {},
   });
 
-  // Report Issue state
+  // Report Issue (refund request) state
   const [showReportModal, setShowReportModal] = useState(false);
   const [reportOrder, setReportOrder] = useState<OrderWithDetails | null>(null);
-  const [reportIssueType, setReportIssueType] = useState<'rotten' | 'damaged' | 'wrong_item' | ''>('');
-  const [reportPhoto, setReportPhoto] = useState<string | null>(null);
+  const [reportRefundType, setReportRefundType] = useState<RefundType>('full');
+  const [reportIssueType, setReportIssueType] = useState<RefundIssueType | ''>('');
+  const [reportPhotos, setReportPhotos] = useState<string[]>([]);
   const [reportDescription, setReportDescription] = useState('');
+  // product_id -> quantity to refund, for partial refunds
+  const [reportQuantities, setReportQuantities] = useState<Record<string, number>>({});
   const [isSubmittingReport, setIsSubmittingReport] = useState(false);
   const [reportSubmitStatus, setReportSubmitStatus] = useState<'idle' | 'success' | 'error'>('idle');
   const [reportSubmitError, setReportSubmitError] = useState('');
@@ -360,9 +372,13 @@ export default function BuyerMyOrdersScreen() {
   // Handle Report Issue
   const handleOpenReportIssue = (order: OrderWithDetails) => {
     setReportOrder(order);
+    setReportRefundType('full');
     setReportIssueType('');
-    setReportPhoto(null);
+    setReportPhotos([]);
     setReportDescription('');
+    setReportQuantities({});
+    setReportSubmitStatus('idle');
+    setReportSubmitError('');
     setShowReportModal(true);
   };
 
@@ -375,17 +391,27 @@ export default function BuyerMyOrdersScreen() {
       }
       const result = await ImagePicker.launchImageLibraryAsync({
         mediaTypes: ['images'],
-        allowsEditing: true,
+        allowsMultipleSelection: true,
+        selectionLimit: MAX_REFUND_PHOTOS - reportPhotos.length,
         quality: 0.8,
       });
       if (!result.canceled && result.assets?.length > 0) {
-        setReportPhoto(result.assets[0].uri);
+        setReportPhotos(prev =>
+          [...prev, ...result.assets.map(asset => asset.uri)].slice(0, MAX_REFUND_PHOTOS)
+        );
       }
     } catch {
       Alert.alert('Error', 'Failed to pick image. Please try again.');
     }
   };
 
+  const changeReportQuantity = (productId: string, max: number, delta: number) => {
+    setReportQuantities(prev => ({
+      ...prev,
+      [productId]: Math.min(max, Math.max(0, (prev[productId] || 0) + delta)),
+    }));
+  };
+
   const handleSubmitReport = async () => {
     if (!reportOrder) {
       setReportSubmitStatus('error');
@@ -394,7 +420,17 @@ export default function BuyerMyOrdersScreen() {
     }
     if (!reportIssueType) {
       setReportSubmitStatus('error');
-      setReportSubmitError('Please select an issue type (Rotten, Damaged, or Wrong Item).');
+      setReportSubmitError('Please select what went wrong with the order.');
+      return;
+    }
+    if (!reportDescription.trim()) {
+      setReportSubmitStatus('error');
+      setReportSubmitError('Please describe the problem.');
+      return;
+    }
+    if (reportRefundType === 'partial' && !Object.values(reportQuantities).some(quantity => quantity > 0)) {
+      setReportSubmitStatus('error');
+      setReportSubmitError('Choose how many of each item you want refunded.');
       return;
     }
     if (!profile) {
@@ -408,92 +444,30 @@ export default function BuyerMyOrdersScreen() {
     setIsSubmittingReport(true);
 
     try {
-      // Upload proof photo if provided
-      let photoUrl = '';
-      if (reportPhoto) {
-        try {
-          const { data: { session } } = await supabase.auth.getSession();
-          if (session) {
-            const timestamp = Date.now();
-            const cleanOrderId = reportOrder.id.replace(/[^a-zA-Z0-9-]/g, '_');
-            const fileExt = reportPhoto.split('.').pop()?.toLowerCase() || 'jpg';
-            const validExts = ['jpg', 'jpeg', 'png', 'gif', 'webp'];
-            const finalExt = validExts.includes(fileExt) ? fileExt : 'jpg';
-            const fileName = `issue_${cleanOrderId}_${timestamp}.${finalExt}`;
-            const contentType = finalExt === 'png' ? 'image/png' : 'image/jpeg';
-            const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL || '';
-
-            let arrayBuffer: ArrayBuffer;
-            if (Platform.OS === 'web') {
-              const resp = await fetch(reportPhoto);
-              const blob = await resp.blob();
-              arrayBuffer = await blob.arrayBuffer();
-            } else {
-              const base64 = await FileSystem.readAsStringAsync(reportPhoto, {
-                encoding: FileSystem.EncodingType.Base64,
-              });
-              arrayBuffer = decode(base64);
-            }
-
-            const uploadResp = await fetch(
-              `${supabaseUrl}/storage/v1/object/proofs/${fileName}`,
-              {
-                method: 'POST',
-                headers: {
-                  Authorization: `Bearer ${session.access_token}`,
-                  'Content-Type': contentType,
-                  'x-upsert': 'false',
-                },
-                body: arrayBuffer,
-              }
-            );
-            if (uploadResp.ok) {
-              const { data: { publicUrl } } = supabase.storage.from('proofs').getPublicUrl(fileName);
-              photoUrl = publicUrl;
-            }
-          }
-        } catch (photoErr) {
-          console.warn('Photo upload failed (non-blocking):', photoErr);
+      await requestRefund(
+        {
+          orderId: reportOrder.id,
+          refundType: reportRefundType,
+          issueType: reportIssueType,
+          reason: reportDescription,
+          photos: reportPhotos,
+          items: Object.entries(reportQuantities).map(([productId, quantity]) => ({ productId, quantity })),
+        },
+        {
+          buyerId: profile.id,
+          farmerId: reportOrder.farmer_id,
+          buyerName: `${profile.first_name || ''} ${profile.last_name || ''}`.trim(),
+          farmerName: reportOrder.farmer_profile?.farm_name || undefined,
         }
-      }
-
-      const issueNote = `[ISSUE_REPORT:${reportIssueType}:${reportDescription || ''}:${photoUrl}]`;
-      const updatedNotes = reportOrder.notes
-        ? `${reportOrder.notes}\n${issueNote}`
-        : issueNote;
-
-      // Try setting status to issue_reported; fall back to notes-only on constraint error
-      let { error } = await (supabase as any)
-        .from('orders')
-        .update({
-          status: 'issue_reported',
-          notes: updatedNotes,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', reportOrder.id);
-
-      if (error && (error.code === '23514' || error.code === '22P02')) {
-        const fallback = await (supabase as any)
-          .from('orders')
-          .update({ notes: updatedNotes, updated_at: new Date().toISOString() })
-          .eq('id', reportOrder.id);
-        error = fallback.error;
-      }
-
-      if (error) {
-        console.error('Order update error:', error);
-        setReportSubmitStatus('error');
-        setReportSubmitError(`Could not save report: ${error.message || 'Database error'}. Please try again.`);
-        return;
-      }
+      );
 
       // Notify barangay admins (non-blocking — don't fail if this errors)
       try {
         if (reportOrder.farmer_profile?.barangay) {
           await notifyBarangayAdmins(
             reportOrder.farmer_profile.barangay,
-            'Issue Report on Order',
-            `${profile.first_name} ${profile.last_name} reported an issue (${reportIssueType.replace(/_/g, ' ')}) on order ${reportOrder.id} (${reportOrder.product?.name}).`,
+            'Refund Requested on Order',
+            `${profile.first_name} ${profile.last_name} requested a ${reportRefundType} refund (${reportIssueType.replace(/_/g, ' ')}) on order ${reportOrder.id} (${reportOrder.product?.name}).`,
             profile.id,
             {
               orderId: reportOrder.id,
@@ -557,54 +531,12 @@ export default function BuyerMyOrdersScreen() {
     try {
       console.log('🚫 Processing cancellation request for order:', order.id);
 
-      // Update order status to 'cancellation_requested' (fallback to 'cancelled' if not supported)
-      let statusToUpdate = 'cancellation_requested';
-      let notesUpdate = order.notes ? `${order.notes}\n[CANCELLATION REQUESTED BY BUYER]` : '[CANCELLATION REQUESTED BY BUYER]';
-
-      // First try with cancellation_requested
-      let { error: updateError } = await (supabase as any)
-        .from('orders')
-        .update({
-          status: statusToUpdate,
-          notes: notesUpdate,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', order.id);
-
-      // If failed due to constraint, try with 'pending' status and rely on notes
-      if (updateError && updateError.code === '23514') {
-        console.log('⚠️ cancellation_requested not supported, using pending status with special notes');
-        statusToUpdate = 'pending';
-        notesUpdate = order.notes ? `${order.notes}\n[BUYER REQUESTED CANCELLATION - PENDING FARMER RESPONSE]` : '[BUYER REQUESTED CANCELLATION - PENDING FARMER RESPONSE]';
-
-        const { error: fallbackError } = await (supabase as any)
-          .from('orders')
-          .update({
-            status: statusToUpdate,
-            notes: notesUpdate,
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', order.id);
-
-        updateError = fallbackError;
-      }
-
-      if (updateError) {
+      // Move the order to 'cancellation_requested'; the farmer or an admin decides from there
+      try {
+        await updateOrderStatus(order.id, 'cancellation_requested', 'Cancellation requested by buyer');
+      } catch (updateError: any) {
         console.error('❌ Error updating order status:', updateError);
-        console.error('❌ Error code:', updateError.code);
-        console.error('❌ Error message:', updateError.message);
-        console.error('❌ Error details:', updateError.details);
-        console.error('❌ Error hint:', updateError.hint);
-        console.error('❌ Full error object:', JSON.stringify(updateError, null, 2));
-
-        let errorMessage = 'Failed to request cancellation. Please try again.';
-        if (updateError.code === '23514') {
-          errorMessage = 'The cancellation_requested status is not supported. Please contact admin to update the system.';
-        } else if (updateError.message) {
-          errorMessage = `Database error: ${updateError.message}`;
-        }
-
-        Alert.alert('Error', errorMessage);
+        Alert.alert('Error', updateError?.message || 'Failed to request cancellation. Please try again.');
         return;
       }
 
@@ -946,6 +878,27 @@ export default function BuyerMyOrdersScreen() {
           </View>
         )}
 
+        {/* Delivery Slot */}
+        {(order.delivery_date || canRescheduleOrder(order.status)) && (
+          <View style={styles.shipToSection}>
+            <Text style={styles.shipToLabel}>
+              {order.fulfillment_method === 'pickup' ? 'PICKUP' : 'DELIVERY SLOT'}
+            </Text>
+            <View style={styles.slotRow}>
+              <Text style={[styles.shipToAddress, styles.slotText]}>{formatDeliverySchedule(order)}</Text>
+              {canRescheduleOrder(order.status) && (
+                <TouchableOpacity
+                  style={styles.detailsButton}
+                  onPress={() => setSlotOrder(order)}
+                  activeOpacity={0.8}
+                >
+                  <Text style={styles.detailsButtonText}>{order.delivery_date ? 'Change slot' : 'Choose slot'}</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        )}
+
         {/* Order ID */}
         <View style={styles.orderIdSection}>
           <Text style={styles.orderIdLabel}>ORDER # {order.id.slice(-12).toUpperCase()}</Text>
@@ -998,13 +951,13 @@ export default function BuyerMyOrdersScreen() {
         {(order.status === 'issue_reported' || order.notes?.includes('[ISSUE_REPORT:')) && (
           <View style={styles.cancelButtonRow}>
             <View style={[styles.cancelRequestedBadge, { backgroundColor: '#fee2e2', borderColor: '#dc2626' }]}>
-              <Text style={[styles.cancelRequestedText, { color: '#dc2626' }]}>Issue Reported — Pending Admin Review</Text>
+              <Text style={[styles.cancelRequestedText, { color: '#dc2626' }]}>Refund Requested — Awaiting Review</Text>
             </View>
           </View>
         )}
 
         {/* Cancellation Button Row */}
-        {order.status !== 'cancelled' && order.status !== 'delivered' && order.status !== 'issue_reported' && order.status !== 'cancellation_requested' && !order.notes?.includes('CANCELLATION REQUESTED') && (
+        {canTransitionOrderStatus(order.status, 'cancellation_requested', 'buyer') && !order.notes?.includes('CANCELLATION REQUESTED') && (
           <View style={styles.cancelButtonRow}>
             <TouchableOpacity
               style={styles.cancelButton}
@@ -1175,7 +1128,7 @@ export default function BuyerMyOrdersScreen() {
           onClose={handleCloseDetailsModal}
           order={{
             ...selectedOrder,
-            order_items: selectedOrder.product ? [{
+            order_items: selectedOrder.order_items?.length ? selectedOrder.order_items : selectedOrder.product ? [{
               product: {
                 name: selectedOrder.product.name,
                 unit: selectedOrder.product.unit,
@@ -1202,6 +1155,21 @@ export default function BuyerMyOrdersScreen() {
         />
       )}
 
+      {profile && (
+        <DeliverySlotModal
+          visible={!!slotOrder}
+          order={slotOrder}
+          changedBy={profile.id}
+          buyerName={`${profile.first_name || ''} ${profile.last_name || ''}`.trim() || undefined}
+          farmerName={slotOrder?.farmer_profile?.farm_name || undefined}
+          onClose={() => setSlotOrder(null)}
+          onBooked={(booked) => {
+            setOrders(prev => prev.map(order => order.id === booked.id ? { ...order, ...booked } : order));
+            setSlotOrder(null);
+          }}
+        />
+      )}
+
       {/* Mobile Sidebar Modal */}
       {!isDesktop && (
         <FilterSidebar
@@ -1224,28 +1192,74 @@ export default function BuyerMyOrdersScreen() {
         <View style={styles.modalOverlay}>
           <View style={styles.reportModal}>
             <View style={styles.reportModalHeader}>
-              <Text style={styles.reportModalTitle}>Report Issue</Text>
+              <Text style={styles.reportModalTitle}>Report Issue & Request Refund</Text>
               <TouchableOpacity onPress={() => setShowReportModal(false)}>
                 <Text style={styles.reportModalClose}>✕</Text>
               </TouchableOpacity>
             </View>
 
             <ScrollView showsVerticalScrollIndicator={false}>
-              <Text style={styles.reportLabel}>Issue Type <Text style={{ color: '#dc2626' }}>*</Text></Text>
-              {(['rotten', 'damaged', 'wrong_item'] as const).map((type) => (
+              <Text style={styles.reportLabel}>Refund</Text>
+              <View style={styles.refundTypeRow}>
+                {(['full', 'partial'] as const).map((type) => (
+                  <TouchableOpacity
+                    key={type}
+                    style={[styles.issueTypeBtn, styles.refundTypeBtn, reportRefundType === type && styles.issueTypeBtnActive]}
+                    onPress={() => setReportRefundType(type)}
+                    activeOpacity={0.8}
+                  >
+                    <Text style={[styles.issueTypeBtnText, reportRefundType === type && styles.issueTypeBtnTextActive]}>
+                      {type === 'full' ? 'Whole order' : 'Some items'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {reportRefundType === 'partial' && (
+                <>
+                  <Text style={[styles.reportLabel, { marginTop: 8 }]}>Items to refund</Text>
+                  {(reportOrder?.order_items || []).map((line) => (
+                    <View key={line.product_id} style={styles.refundItemRow}>
+                      <Text style={styles.refundItemName}>
+                        {line.product?.name} ({line.quantity} {line.product?.unit})
+                      </Text>
+                      <View style={styles.refundItemControls}>
+                        <TouchableOpacity
+                          style={styles.refundStepBtn}
+                          onPress={() => line.product_id && changeReportQuantity(line.product_id, line.quantity, -1)}
+                        >
+                          <Text style={styles.refundStepText}>−</Text>
+                        </TouchableOpacity>
+                        <Text style={styles.refundItemQuantity}>
+                          {(line.product_id && reportQuantities[line.product_id]) || 0}
+                        </Text>
+                        <TouchableOpacity
+                          style={styles.refundStepBtn}
+                          onPress={() => line.product_id && changeReportQuantity(line.product_id, line.quantity, 1)}
+                        >
+                          <Text style={styles.refundStepText}>+</Text>
+                        </TouchableOpacity>
+                      </View>
+                    </View>
+                  ))}
+                </>
+              )}
+
+              <Text style={[styles.reportLabel, { marginTop: 16 }]}>What went wrong? <Text style={{ color: '#dc2626' }}>*</Text></Text>
+              {REFUND_ISSUE_TYPES.map((type) => (
                 <TouchableOpacity
-                  key={type}
-                  style={[styles.issueTypeBtn, reportIssueType === type && styles.issueTypeBtnActive]}
-                  onPress={() => setReportIssueType(type)}
+                  key={type.key}
+                  style={[styles.issueTypeBtn, reportIssueType === type.key && styles.issueTypeBtnActive]}
+                  onPress={() => setReportIssueType(type.key)}
                   activeOpacity={0.8}
                 >
-                  <Text style={[styles.issueTypeBtnText, reportIssueType === type && styles.issueTypeBtnTextActive]}>
-                    {type === 'rotten' ? '🤢 Rotten' : type === 'damaged' ? '💥 Damaged' : '❓ Wrong Item'}
+                  <Text style={[styles.issueTypeBtnText, reportIssueType === type.key && styles.issueTypeBtnTextActive]}>
+                    {type.label}
                   </Text>
                 </TouchableOpacity>
               ))}
 
-              <Text style={[styles.reportLabel, { marginTop: 16 }]}>Description (optional)</Text>
+              <Text style={[styles.reportLabel, { marginTop: 16 }]}>Description <Text style={{ color: '#dc2626' }}>*</Text></Text>
               <TextInput
                 style={styles.reportTextInput}
                 multiline
@@ -1256,19 +1270,31 @@ export default function BuyerMyOrdersScreen() {
                 placeholderTextColor="#9ca3af"
               />
 
-              <Text style={[styles.reportLabel, { marginTop: 16 }]}>Photo (optional)</Text>
-              <TouchableOpacity style={styles.photoPickerBtn} onPress={handlePickReportPhoto} activeOpacity={0.8}>
-                {reportPhoto ? (
-                  <Image source={{ uri: reportPhoto }} style={styles.reportPhotoPreview} resizeMode="cover" />
-                ) : (
-                  <Text style={styles.photoPickerText}>📷 Upload Photo</Text>
+              <Text style={[styles.reportLabel, { marginTop: 16 }]}>
+                Photos ({reportPhotos.length}/{MAX_REFUND_PHOTOS})
+              </Text>
+              <View style={styles.reportPhotoGrid}>
+                {reportPhotos.map((uri) => (
+                  <TouchableOpacity
+                    key={uri}
+                    onPress={() => setReportPhotos(prev => prev.filter(photo => photo !== uri))}
+                    activeOpacity={0.8}
+                  >
+                    <Image source={{ uri }} style={styles.reportPhotoThumb} resizeMode="cover" />
+                    <Text style={styles.reportPhotoRemove}>✕</Text>
+                  </TouchableOpacity>
+                ))}
+                {reportPhotos.length < MAX_REFUND_PHOTOS && (
+                  <TouchableOpacity style={[styles.photoPickerBtn, styles.reportPhotoThumb]} onPress={handlePickReportPhoto} activeOpacity={0.8}>
+                    <Text style={styles.photoPickerText}>📷</Text>
+                  </TouchableOpacity>
                 )}
-              </TouchableOpacity>
+              </View>
 
               {reportSubmitStatus === 'success' && (
                 <View style={styles.reportSuccessBanner}>
                   <Text style={styles.reportSuccessText}>
-                    Report submitted! Admin will review shortly.
+                    Refund requested! The farmer will review it shortly.
                   </Text>
                 </View>
               )}
@@ -1291,7 +1317,7 @@ export default function BuyerMyOrdersScreen() {
                 {isSubmittingReport ? (
                   <ActivityIndicator size="small" color="#fff" />
                 ) : (
-                  <Text style={styles.submitReportBtnText}>Submit Report</Text>
+                  <Text style={styles.submitReportBtnText}>Request Refund</Text>
                 )}
               </TouchableOpacity>
             </ScrollView>
@@ -1697,6 +1723,14 @@ const styles = StyleSheet.create({
     color: '#374151',
     lineHeight: 18,
   },
+  slotRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  slotText: {
+    flex: 1,
+  },
   orderIdSection: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -2053,9 +2087,70 @@ const styles = StyleSheet.create({
     color: '#6b7280',
     fontWeight: '500',
   },
-  reportPhotoPreview: {
-    width: '100%',
-    height: 160,
+  reportPhotoGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  reportPhotoThumb: {
+    width: 72,
+    height: 72,
+    minHeight: 72,
+    borderRadius: 8,
+  },
+  reportPhotoRemove: {
+    position: 'absolute',
+    top: 2,
+    right: 6,
+    color: '#ffffff',
+    fontWeight: '700',
+    textShadowColor: 'rgba(0,0,0,0.6)',
+    textShadowRadius: 2,
+  },
+  refundTypeRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  refundTypeBtn: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  refundItemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  refundItemName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+  },
+  refundItemControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  refundStepBtn: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#dc2626',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  refundStepText: {
+    fontSize: 16,
+    color: '#dc2626',
+    fontWeight: '700',
+  },
+  refundItemQuantity: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+    minWidth: 20,
+    textAlign: 'center',
   },
   submitReportBtn: {
     marginTop: 20,
@@ -1,29 +1,11 @@
-// ─── services/orders.ts addition ─────────────────────────────────────────────
-// Add this function to your existing services/orders.ts
-
-/*
-export const submitProductRating = async (
-  orderId: string,
-  rating: number,        // 1–5
-  comment: string
-): Promise<void> => {
-  const { error } = await supabase
-    .from('orders')
-    .update({ ratings: rating })
-    .eq('id', orderId);
-
-  if (error) throw error;
-};
-*/
-
-// ─── Updated purchase-history screen ─────────────────────────────────────────
-
 import { router } from "expo-router";
+import * as ImagePicker from "expo-image-picker";
 import React, { useEffect, useState } from "react";
 import {
   ActivityIndicator,
   Alert,
   Dimensions,
+  Image,
   Modal,
   RefreshControl,
   ScrollView,
@@ -36,7 +18,12 @@ import {
 import FilterSidebar from "../../components/FilterSidebar";
 import HeaderComponent from "../../components/HeaderComponent";
 import { getUserWithProfile } from "../../services/auth";
-import { getBuyerOrders, submitProductRating } from "../../services/orders";
+import { getBuyerOrders } from "../../services/orders";
+import {
+  getReviewsForOrders,
+  MAX_REVIEW_PHOTOS,
+  submitProductReview,
+} from "../../services/reviews";
 import { Database } from "../../types/database";
 import {
   ORDER_STATUS_CONFIG,
@@ -47,12 +34,12 @@ import { applyFilters } from "../../utils/filterConfigs";
 
 type Profile = Database["public"]["Tables"]["profiles"]["Row"];
 
-// ratings column is an integer (0 = not yet rated, 1–5 = star rating)
-// We store the comment locally since the DB only has the numeric rating
+// Mirrors the buyer's product_reviews row for each order
 interface RatingState {
   [orderId: string]: {
-    rating: number; // mirrors orders.ratings
-    comment: string; // local only (no DB column for comment)
+    rating: number;
+    comment: string;
+    photos: string[];
     submitted: boolean;
   };
 }
@@ -109,8 +96,13 @@ interface RatingModalProps {
   visible: boolean;
   order: OrderWithDetails | null;
   onClose: () => void;
-  onSubmit: (orderId: string, rating: number, comment: string) => Promise<void>;
-  existingRating?: { rating: number; comment: string; submitted: boolean };
+  onSubmit: (
+    orderId: string,
+    rating: number,
+    comment: string,
+    photos: string[],
+  ) => Promise<void>;
+  existingRating?: RatingState[string];
 }
 
 function RatingModal({
@@ -124,12 +116,14 @@ function RatingModal({
     existingRating?.rating || 0,
   );
   const [comment, setComment] = useState(existingRating?.comment || "");
+  const [photos, setPhotos] = useState<string[]>(existingRating?.photos || []);
   const [submitting, setSubmitting] = useState(false);
 
   useEffect(() => {
     if (visible) {
       setSelectedRating(existingRating?.rating || 0);
       setComment(existingRating?.comment || "");
+      setPhotos(existingRating?.photos || []);
     }
   }, [visible, existingRating]);
 
@@ -144,15 +138,47 @@ function RatingModal({
     }
     setSubmitting(true);
     try {
-      await onSubmit(order.id, selectedRating, comment);
+      await onSubmit(order.id, selectedRating, comment, photos);
       onClose();
-    } catch {
-      Alert.alert("Error", "Failed to submit rating. Please try again.");
+    } catch (error: any) {
+      Alert.alert(
+        "Error",
+        error?.message || "Failed to submit review. Please try again.",
+      );
     } finally {
       setSubmitting(false);
     }
   };
 
+  const handleAddPhoto = async () => {
+    try {
+      const { status } =
+        await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (status !== "granted") {
+        Alert.alert(
+          "Permission Required",
+          "Media library permission is required.",
+        );
+        return;
+      }
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ["images"],
+        allowsEditing: true,
+        quality: 0.7,
+      });
+      if (!result.canceled && result.assets?.length > 0) {
+        setPhotos((prev) =>
+          [...prev, result.assets[0].uri].slice(0, MAX_REVIEW_PHOTOS),
+        );
+      }
+    } catch {
+      Alert.alert("Error", "Failed to pick image. Please try again.");
+    }
+  };
+
+  const removePhoto = (uri: string) =>
+    setPhotos((prev) => prev.filter((p) => p !== uri));
+
   const toggleTag = (tag: string) => {
     setComment((prev) => {
       const tags = prev
@@ -296,6 +322,35 @@ function RatingModal({
               />
               <Text style={ms.charCount}>{comment.length}/500</Text>
             </View>
+
+            {/* Photos */}
+            <View style={ms.photosSection}>
+              <Text style={ms.sectionLabel}>
+                ADD PHOTOS ({photos.length}/{MAX_REVIEW_PHOTOS})
+              </Text>
+              <View style={ms.photosWrap}>
+                {photos.map((uri) => (
+                  <View key={uri} style={ms.photoThumb}>
+                    <Image source={{ uri }} style={ms.photoImage} />
+                    <TouchableOpacity
+                      style={ms.photoRemove}
+                      onPress={() => removePhoto(uri)}
+                    >
+                      <Text style={ms.photoRemoveText}>✕</Text>
+                    </TouchableOpacity>
+                  </View>
+                ))}
+                {photos.length < MAX_REVIEW_PHOTOS && (
+                  <TouchableOpacity
+                    style={ms.photoAdd}
+                    onPress={handleAddPhoto}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={ms.photoAddIcon}>＋</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
           </ScrollView>
 
           {/* Footer */}
@@ -396,13 +451,20 @@ export default function BuyerPurchaseHistoryScreen() {
     const ordersData = await getBuyerOrders(buyerId);
     setOrders(ordersData);
 
-    // Hydrate ratings from orders.ratings (integer column, 0 = unrated)
+    // Hydrate ratings from the buyer's reviews
+    const reviews = await getReviewsForOrders(
+      ordersData
+        .filter((order) => order.status === "delivered")
+        .map((order) => order.id),
+    );
     const initial: RatingState = {};
-    ordersData.forEach((order) => {
-      const r = order.ratings as number;
-      if (r && r > 0) {
-        initial[order.id] = { rating: r, comment: "", submitted: true };
-      }
+    Object.values(reviews).forEach((review) => {
+      initial[review.order_id] = {
+        rating: review.rating,
+        comment: review.comment || "",
+        photos: review.photo_urls,
+        submitted: true,
+      };
     });
     setRatings(initial);
   };
@@ -441,16 +503,36 @@ export default function BuyerPurchaseHistoryScreen() {
     setRatingModalVisible(true);
   };
 
-  // Calls submitProductRating which does: UPDATE orders SET ratings = $rating WHERE id = $orderId
   const handleRatingSubmit = async (
     orderId: string,
     rating: number,
     comment: string,
+    photos: string[],
   ) => {
-    await submitProductRating(orderId, rating, comment);
+    const order = orders.find((o) => o.id === orderId);
+    if (!order || !profile) return;
+
+    const review = await submitProductReview(
+      profile.id,
+      {
+        orderId,
+        productId: order.product_id,
+        productName: order.product?.name || "your product",
+        rating,
+        comment,
+        photos,
+      },
+      `${profile.first_name || ""} ${profile.last_name || ""}`.trim() ||
+        undefined,
+    );
     setRatings((prev) => ({
       ...prev,
-      [orderId]: { rating, comment, submitted: true },
+      [orderId]: {
+        rating,
+        comment,
+        photos: review.photo_urls || [],
+        submitted: true,
+      },
     }));
     // Also update the local orders array so renderStars reflects immediately
     setOrders((prev) =>
@@ -1044,6 +1126,57 @@ const ms = StyleSheet.create({
     textAlign: "right",
     marginTop: 4,
   },
+  photosSection: {
+    paddingHorizontal: 20,
+    paddingTop: 10,
+    paddingBottom: 8,
+  },
+  photosWrap: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  photoThumb: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    overflow: "hidden",
+  },
+  photoImage: {
+    width: "100%",
+    height: "100%",
+  },
+  photoRemove: {
+    position: "absolute",
+    top: 2,
+    right: 2,
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    backgroundColor: "rgba(0,0,0,0.6)",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  photoRemoveText: {
+    color: "#fff",
+    fontSize: 10,
+    fontWeight: "700",
+  },
+  photoAdd: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderStyle: "dashed",
+    borderColor: "#10b981",
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "#f0fdf4",
+  },
+  photoAddIcon: {
+    fontSize: 22,
+    color: "#10b981",
+  },
   footer: {
     flexDirection: "row",
     gap: 10,
@@ -0,0 +1,412 @@
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Dimensions,
+  FlatList,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/FontAwesome5';
+import FilterSidebar from '../../components/FilterSidebar';
+import HeaderComponent from '../../components/HeaderComponent';
+import ProductCard from '../../components/ProductCard';
+import { getUserWithProfile } from '../../services/auth';
+import { getProductThumbnails, ProductThumbnail } from '../../services/productMedia';
+import { getProductVariantSummaries, ProductVariantSummary } from '../../services/products';
+import {
+  ProductSearchResult,
+  ProductSearchSort,
+  searchProducts,
+} from '../../services/search';
+import { Database } from '../../types/database';
+import { showError } from '../../utils/alert';
+import { getProductSearchFilters } from '../../utils/filterConfigs';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+
+const { width } = Dimensions.get('window');
+const isDesktop = width >= 1024;
+
+// Wait for the buyer to stop typing before hitting the server
+const SEARCH_DEBOUNCE_MS = 350;
+
+const getNumColumns = () => {
+  if (width < 768) return 2;
+  if (width < 1024) return 3;
+  if (width < 1440) return 4;
+  return 5;
+};
+
+const DEFAULT_FILTERS = {
+  category: 'all',
+  priceRange: 'all',
+  availability: true,
+  sortBy: 'relevance',
+};
+
+// Price ranges don't depend on the facet counts, so look them up once
+const PRICE_RANGE_OPTIONS =
+  getProductSearchFilters({}, false).find(section => section.key === 'priceRange')?.options || [];
+
+export default function BuyerSearchScreen() {
+  const params = useLocalSearchParams<{ q?: string }>();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [searchQuery, setSearchQuery] = useState(params.q || '');
+  const [debouncedQuery, setDebouncedQuery] = useState(params.q || '');
+  const [filterState, setFilterState] = useState(DEFAULT_FILTERS);
+  const [showSidebar, setShowSidebar] = useState(false);
+
+  const [results, setResults] = useState<ProductSearchResult[]>([]);
+  const [variantSummaries, setVariantSummaries] = useState<Record<string, ProductVariantSummary>>({});
+  const [thumbnails, setThumbnails] = useState<Record<string, ProductThumbnail>>({});
+  const [total, setTotal] = useState(0);
+  const [categoryCounts, setCategoryCounts] = useState<Record<string, number>>({});
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  // Ignore responses from searches that were superseded while in flight
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    loadProfile();
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(searchQuery), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const loadProfile = async () => {
+    try {
+      const userData = await getUserWithProfile();
+      if (userData?.profile) {
+        setProfile(userData.profile);
+      }
+    } catch (error) {
+      console.error('❌ Error loading profile:', error);
+    }
+  };
+
+  const buyerBarangay = profile?.barangay || null;
+  const filterSections = getProductSearchFilters(categoryCounts, !!buyerBarangay);
+
+  const runSearch = useCallback(async (pageToLoad: number) => {
+    const requestId = ++requestIdRef.current;
+    const priceOption = PRICE_RANGE_OPTIONS.find(option => option.key === filterState.priceRange);
+
+    if (pageToLoad === 0) {
+      setLoading(true);
+    } else {
+      setLoadingMore(true);
+    }
+
+    try {
+      const response = await searchProducts({
+        query: debouncedQuery,
+        category: filterState.category,
+        minPrice: filterState.priceRange !== 'all' ? priceOption?.min : null,
+        maxPrice: filterState.priceRange !== 'all' && filterState.priceRange !== 'premium' ? priceOption?.max : null,
+        inStockOnly: filterState.availability,
+        sortBy: filterState.sortBy as ProductSearchSort,
+        buyerBarangay,
+        page: pageToLoad,
+      });
+
+      if (requestId !== requestIdRef.current) return;
+
+      setResults(prev => (pageToLoad === 0 ? response.results : [...prev, ...response.results]));
+      setTotal(response.total);
+      setHasMore(response.hasMore);
+      setPage(pageToLoad);
+      // An empty category page carries no facets; keep the last known counts
+      if (response.results.length > 0 || filterState.category === 'all') {
+        setCategoryCounts(response.categoryCounts);
+      }
+
+      const productIds = response.results.map(result => result.id);
+      const [summaries, pageThumbnails] = await Promise.all([
+        getProductVariantSummaries(productIds),
+        getProductThumbnails(productIds),
+      ]);
+      if (requestId !== requestIdRef.current) return;
+      setVariantSummaries(prev => ({ ...prev, ...summaries }));
+      setThumbnails(prev => ({ ...prev, ...pageThumbnails }));
+    } catch (error: any) {
+      if (requestId !== requestIdRef.current) return;
+      showError(error?.message || 'Search failed. Please try again.');
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  }, [debouncedQuery, filterState, buyerBarangay]);
+
+  useEffect(() => {
+    runSearch(0);
+  }, [runSearch]);
+
+  const loadMore = () => {
+    if (loading || loadingMore || !hasMore) return;
+    runSearch(page + 1);
+  };
+
+  const handleFilterChange = (key: string, value: any) => {
+    setFilterState(prev => ({ ...prev, [key]: value }));
+  };
+
+  const clearSearch = () => {
+    setSearchQuery('');
+    setDebouncedQuery('');
+    setFilterState(DEFAULT_FILTERS);
+  };
+
+  const renderResult = ({ item }: { item: ProductSearchResult }) => {
+    const farmerName = item.farm_name
+      || `${item.farmer_first_name || ''} ${item.farmer_last_name || ''}`.trim()
+      || undefined;
+
+    return (
+      <ProductCard
+        id={item.id}
+        name={item.name}
+        price={item.price}
+        unit={item.unit}
+        imageUrl={item.image_url || undefined}
+        thumbnailUrl={thumbnails[item.id]?.thumbnail_url}
+        blurhash={thumbnails[item.id]?.image_blurhash}
+        farmer={item.barangay && farmerName ? `${farmerName} · ${item.barangay}` : farmerName}
+        rating={item.rating || 0}
+        sold={item.order_count}
+        optionCount={variantSummaries[item.id]?.optionCount}
+        bulkPrice={variantSummaries[item.id]?.bulkPrice}
+        onPress={() => router.push(`/products/${item.id}` as any)}
+        style={[styles.resultCard, { width: `${100 / getNumColumns() - 2}%` }]}
+      />
+    );
+  };
+
+  const renderListHeader = () => (
+    <View style={styles.resultsHeader}>
+      <Text style={styles.resultsTitle}>
+        {debouncedQuery.trim() ? `Results for "${debouncedQuery.trim()}"` : 'All Products'}
+      </Text>
+      <Text style={styles.resultsCount}>
+        {total} {total === 1 ? 'product' : 'products'} found
+      </Text>
+    </View>
+  );
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyState}>
+      <Icon name="search" size={40} color="#9ca3af" />
+      <Text style={styles.emptyTitle}>No products found</Text>
+      <Text style={styles.emptyDescription}>
+        Try another spelling, a Filipino or English name, or fewer filters.
+      </Text>
+      <TouchableOpacity style={styles.clearButton} onPress={clearSearch} activeOpacity={0.8}>
+        <Text style={styles.clearButtonText}>Clear Search</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderFooter = () => {
+    if (loadingMore) {
+      return (
+        <View style={styles.footer}>
+          <ActivityIndicator size="small" color="#10b981" />
+          <Text style={styles.footerText}>Loading more products...</Text>
+        </View>
+      );
+    }
+
+    if (hasMore) {
+      return (
+        <TouchableOpacity style={styles.loadMoreButton} onPress={loadMore} activeOpacity={0.8}>
+          <Text style={styles.loadMoreButtonText}>Load More</Text>
+        </TouchableOpacity>
+      );
+    }
+
+    return null;
+  };
+
+  const renderResults = () => {
+    if (loading) {
+      return (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#10b981" />
+          <Text style={styles.loadingText}>Searching products...</Text>
+        </View>
+      );
+    }
+
+    return (
+      <FlatList
+        data={results}
+        renderItem={renderResult}
+        keyExtractor={(item) => item.id}
+        numColumns={getNumColumns()}
+        key={getNumColumns()}
+        columnWrapperStyle={styles.gridRow}
+        contentContainerStyle={styles.listContent}
+        ListHeaderComponent={renderListHeader}
+        ListEmptyComponent={renderEmptyState}
+        ListFooterComponent={renderFooter}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        showsVerticalScrollIndicator={false}
+      />
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <HeaderComponent
+        profile={profile}
+        showSearch={true}
+        searchQuery={searchQuery}
+        onSearchChange={setSearchQuery}
+        searchPlaceholder="Search products, farms or barangays..."
+        showFilterButton={!isDesktop}
+        onFilterPress={() => setShowSidebar(!showSidebar)}
+        showMessages={true}
+        showNotifications={true}
+      />
+
+      {isDesktop ? (
+        <View style={styles.desktopLayout}>
+          <FilterSidebar
+            sections={filterSections}
+            filterState={filterState}
+            onFilterChange={handleFilterChange}
+            title="Search Filters"
+          />
+          <View style={styles.mainContent}>{renderResults()}</View>
+        </View>
+      ) : (
+        <View style={styles.mainContent}>
+          <FilterSidebar
+            sections={filterSections}
+            filterState={filterState}
+            onFilterChange={handleFilterChange}
+            title="Search Filters"
+            showMobile={showSidebar}
+            onCloseMobile={() => setShowSidebar(false)}
+          />
+          {renderResults()}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  desktopLayout: {
+    flex: 1,
+    flexDirection: 'row',
+  },
+  mainContent: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  gridRow: {
+    justifyContent: 'flex-start',
+    gap: 8,
+  },
+  resultCard: {
+    marginBottom: 12,
+  },
+  resultsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  resultsTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#0f172a',
+    marginRight: 12,
+  },
+  resultsCount: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: '#64748b',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 24,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#0f172a',
+    marginTop: 16,
+  },
+  emptyDescription: {
+    fontSize: 14,
+    color: '#64748b',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  clearButton: {
+    marginTop: 20,
+    backgroundColor: '#10b981',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  clearButtonText: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 16,
+    gap: 8,
+  },
+  footerText: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  loadMoreButton: {
+    alignSelf: 'center',
+    marginVertical: 16,
+    paddingHorizontal: 24,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#10b981',
+  },
+  loadMoreButtonText: {
+    color: '#10b981',
+    fontWeight: '600',
+  },
+});
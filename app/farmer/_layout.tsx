@@ -9,8 +9,11 @@ export default function FarmerLayout() {
         <Stack.Screen name="my-products" options={{ headerShown: false, title: 'My Products' }} />
         <Stack.Screen name="products" options={{ headerShown: false, title: 'Products' }} />
         <Stack.Screen name="orders" options={{ headerShown: false, title: 'Orders' }} />
+        <Stack.Screen name="deliveries" options={{ headerShown: false, title: 'Deliveries' }} />
+        <Stack.Screen name="delivery-route" options={{ headerShown: false, title: 'Delivery Route' }} />
         <Stack.Screen name="inventory" options={{ headerShown: false, title: 'Inventory' }} />
         <Stack.Screen name="sales-history" options={{ headerShown: false, title: 'Sales History' }} />
+        <Stack.Screen name="payouts" options={{ headerShown: false, title: 'Payouts' }} />
         <Stack.Screen name="profile" options={{ headerShown: false, title: 'Profile' }} />
       </Stack>
     </ResponsiveLayout>
@@ -0,0 +1,613 @@
+import { router } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import Icon from 'react-native-vector-icons/FontAwesome5';
+import DeliverySlotFormModal from '../../components/DeliverySlotFormModal';
+import HeaderComponent from '../../components/HeaderComponent';
+import { useCustomAlert } from '../../components/CustomAlert';
+import { getUserWithProfile } from '../../services/auth';
+import {
+  formatSlotDate,
+  formatSlotWindow,
+  getDeliveryManifest,
+  getFarmerDeliverySlots,
+  parseDateKey,
+  setDeliverySlotActive,
+  toDateKey,
+  WEEKDAYS
+} from '../../services/deliverySlots';
+import { Database } from '../../types/database';
+import { DeliveryManifestGroup, DeliverySlot } from '../../types/orders';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+
+const colors = {
+  primary: '#059669',
+  background: '#f8f9fa',
+  white: '#ffffff',
+  danger: '#ef4444',
+  warning: '#d97706',
+  border: '#e5e7eb',
+  text: '#111827',
+  textSecondary: '#6b7280',
+};
+
+// Days shown in the manifest date strip, starting today
+const MANIFEST_DAYS = 14;
+
+const getManifestDates = () => Array.from({ length: MANIFEST_DAYS }, (_, index) => {
+  const date = new Date();
+  date.setDate(date.getDate() + index);
+  return toDateKey(date);
+});
+
+const formatPrice = (amount: number) => `₱${Number(amount || 0).toLocaleString('en-PH', { minimumFractionDigits: 2 })}`;
+
+export default function FarmerDeliveriesScreen() {
+  const { showAlert, AlertComponent } = useCustomAlert();
+
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [activeTab, setActiveTab] = useState<'manifest' | 'slots'>('manifest');
+  const [dates] = useState(getManifestDates);
+  const [selectedDate, setSelectedDate] = useState(dates[0]);
+  const [manifest, setManifest] = useState<DeliveryManifestGroup[]>([]);
+  const [slots, setSlots] = useState<DeliverySlot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [manifestLoading, setManifestLoading] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [editingSlot, setEditingSlot] = useState<DeliverySlot | null>(null);
+  const [showSlotForm, setShowSlotForm] = useState(false);
+
+  const loadManifest = useCallback(async (farmerId: string, date: string) => {
+    try {
+      setManifestLoading(true);
+      setManifest(await getDeliveryManifest(farmerId, date));
+    } catch (error) {
+      console.error('Error loading delivery manifest:', error);
+      showAlert('Error', 'Failed to load the delivery manifest', [{ text: 'OK', style: 'default' }]);
+    } finally {
+      setManifestLoading(false);
+    }
+  }, [showAlert]);
+
+  const loadSlots = useCallback(async (farmerId: string) => {
+    try {
+      setSlots(await getFarmerDeliverySlots(farmerId, true));
+    } catch (error) {
+      console.error('Error loading delivery slots:', error);
+      showAlert('Error', 'Failed to load your delivery slots', [{ text: 'OK', style: 'default' }]);
+    }
+  }, [showAlert]);
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        const userData = await getUserWithProfile();
+        if (!userData?.profile) {
+          router.replace('/auth/login');
+          return;
+        }
+
+        setProfile(userData.profile);
+        await loadSlots(userData.profile.id);
+      } catch (error) {
+        console.error('Error loading deliveries:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [loadSlots]);
+
+  useEffect(() => {
+    if (profile) loadManifest(profile.id, selectedDate);
+  }, [profile, selectedDate, loadManifest]);
+
+  const onRefresh = async () => {
+    if (!profile) return;
+    setRefreshing(true);
+    await Promise.all([loadSlots(profile.id), loadManifest(profile.id, selectedDate)]);
+    setRefreshing(false);
+  };
+
+  const openSlotForm = (slot: DeliverySlot | null) => {
+    setEditingSlot(slot);
+    setShowSlotForm(true);
+  };
+
+  const handleSlotSaved = async () => {
+    setShowSlotForm(false);
+    setEditingSlot(null);
+    if (profile) {
+      await Promise.all([loadSlots(profile.id), loadManifest(profile.id, selectedDate)]);
+    }
+  };
+
+  const toggleSlotActive = async (slot: DeliverySlot) => {
+    try {
+      await setDeliverySlotActive(slot.id, !slot.is_active);
+      if (profile) {
+        await Promise.all([loadSlots(profile.id), loadManifest(profile.id, selectedDate)]);
+      }
+    } catch (error: any) {
+      showAlert('Error', error.message || 'Failed to update the slot', [{ text: 'OK', style: 'default' }]);
+    }
+  };
+
+  const renderDateStrip = () => (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.dateStrip}>
+      {dates.map((date) => {
+        const selected = date === selectedDate;
+        const day = parseDateKey(date);
+        return (
+          <TouchableOpacity
+            key={date}
+            style={[styles.dateChip, selected && styles.dateChipActive]}
+            onPress={() => setSelectedDate(date)}
+          >
+            <Text style={[styles.dateChipDay, selected && styles.dateChipTextActive]}>
+              {day.toLocaleDateString('en-PH', { weekday: 'short' })}
+            </Text>
+            <Text style={[styles.dateChipDate, selected && styles.dateChipTextActive]}>
+              {day.toLocaleDateString('en-PH', { month: 'short', day: 'numeric' })}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+
+  const renderManifestGroup = (group: DeliveryManifestGroup) => {
+    const isPickup = group.fulfillment_method === 'pickup';
+    const capacity = group.slot?.capacity;
+
+    return (
+      <View key={group.key} style={styles.card}>
+        <View style={styles.groupHeader}>
+          <Icon name={isPickup ? 'store' : 'truck'} size={16} color={colors.primary} style={styles.groupIcon} />
+          <View style={styles.flex}>
+            <Text style={styles.groupTitle}>{group.label}</Text>
+            <Text style={styles.groupSubtitle}>
+              {formatSlotWindow(group.window_start, group.window_end)}
+              {isPickup && group.location ? ` · ${group.location}` : ''}
+            </Text>
+          </View>
+          <Text style={styles.groupCount}>
+            {group.orders.length}{capacity ? ` / ${capacity}` : ''} {group.orders.length === 1 ? 'order' : 'orders'}
+          </Text>
+        </View>
+
+        {group.orders.length === 0 ? (
+          <Text style={styles.mutedText}>Nothing booked yet.</Text>
+        ) : (
+          group.orders.map((order) => {
+            const buyerName = `${order.buyer_profile?.first_name || ''} ${order.buyer_profile?.last_name || ''}`.trim()
+              || 'Unknown Buyer';
+            return (
+              <TouchableOpacity
+                key={order.id}
+                style={styles.manifestOrder}
+                onPress={() => router.push(`/farmer/order/${order.id}` as any)}
+                activeOpacity={0.8}
+              >
+                <View style={styles.manifestOrderHeader}>
+                  <Text style={styles.buyerName}>{buyerName}</Text>
+                  <Text style={styles.orderStatus}>{order.status.toUpperCase()}</Text>
+                </View>
+                {order.buyer_profile?.phone && (
+                  <Text style={styles.mutedText}>{order.buyer_profile.phone}</Text>
+                )}
+                {!isPickup && order.delivery_address && (
+                  <Text style={styles.mutedText}>{order.delivery_address}</Text>
+                )}
+                {order.order_items.map((item, index) => (
+                  <Text key={item.id || index} style={styles.itemText}>
+                    {item.quantity} {item.product.unit} · {item.product.name}
+                    {item.variant_name ? ` (${item.variant_name})` : ''}
+                  </Text>
+                ))}
+                <Text style={styles.orderTotal}>
+                  Order #{order.id.slice(-8)} · {formatPrice(order.total_price)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })
+        )}
+      </View>
+    );
+  };
+
+  const renderManifest = () => (
+    <>
+      {renderDateStrip()}
+      {manifestLoading ? (
+        <ActivityIndicator size="small" color={colors.primary} style={styles.sectionLoading} />
+      ) : manifest.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Icon name="calendar-check" size={40} color={colors.textSecondary} />
+          <Text style={styles.emptyTitle}>No deliveries on {formatSlotDate(selectedDate)}</Text>
+          <Text style={styles.mutedText}>
+            {slots.some(slot => slot.is_active)
+              ? 'None of your slots run on this day.'
+              : 'Add a delivery window or pickup point so buyers can book one at checkout.'}
+          </Text>
+        </View>
+      ) : (
+        <>
+          {manifest.some(group => group.fulfillment_method === 'delivery' && group.orders.length > 0) && (
+            <TouchableOpacity
+              style={styles.addButton}
+              onPress={() => router.push(`/farmer/delivery-route?date=${selectedDate}` as any)}
+              activeOpacity={0.8}
+            >
+              <Icon name="route" size={12} color={colors.white} style={styles.buttonIcon} />
+              <Text style={styles.addButtonText}>Plan Delivery Route</Text>
+            </TouchableOpacity>
+          )}
+          {manifest.map(renderManifestGroup)}
+        </>
+      )}
+    </>
+  );
+
+  const renderSlots = () => (
+    <>
+      <TouchableOpacity style={styles.addButton} onPress={() => openSlotForm(null)} activeOpacity={0.8}>
+        <Icon name="plus" size={12} color={colors.white} style={styles.buttonIcon} />
+        <Text style={styles.addButtonText}>Add Slot</Text>
+      </TouchableOpacity>
+
+      {slots.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Icon name="store" size={40} color={colors.textSecondary} />
+          <Text style={styles.emptyTitle}>No delivery slots yet</Text>
+          <Text style={styles.mutedText}>
+            For example a pickup at the barangay hall every Saturday from 7 to 10 AM.
+          </Text>
+        </View>
+      ) : (
+        slots.map((slot) => (
+          <View key={slot.id} style={[styles.card, !slot.is_active && styles.retiredCard]}>
+            <View style={styles.groupHeader}>
+              <Icon
+                name={slot.kind === 'pickup' ? 'store' : 'truck'}
+                size={16}
+                color={slot.is_active ? colors.primary : colors.textSecondary}
+                style={styles.groupIcon}
+              />
+              <View style={styles.flex}>
+                <Text style={styles.groupTitle}>{slot.label}</Text>
+                <Text style={styles.groupSubtitle}>
+                  Every {WEEKDAYS[slot.day_of_week]}, {formatSlotWindow(slot.start_time, slot.end_time)}
+                </Text>
+                {slot.kind === 'pickup' && <Text style={styles.groupSubtitle}>Pickup at {slot.location}</Text>}
+                <Text style={styles.groupSubtitle}>
+                  Up to {slot.capacity} {slot.capacity === 1 ? 'order' : 'orders'} per date
+                  {slot.is_active ? '' : ' · Retired'}
+                </Text>
+              </View>
+            </View>
+            <View style={styles.slotActions}>
+              <TouchableOpacity style={styles.slotButton} onPress={() => openSlotForm(slot)}>
+                <Text style={styles.slotButtonText}>Edit</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.slotButton} onPress={() => toggleSlotActive(slot)}>
+                <Text style={[styles.slotButtonText, slot.is_active && styles.retireText]}>
+                  {slot.is_active ? 'Retire' : 'Reactivate'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ))
+      )}
+    </>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={colors.primary} />
+        <Text style={styles.mutedText}>Loading deliveries...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <HeaderComponent
+        profile={profile}
+        userType="farmer"
+        currentRoute="/farmer/deliveries"
+        showMessages={true}
+        showNotifications={true}
+      />
+
+      <View style={styles.tabs}>
+        {(['manifest', 'slots'] as const).map((tab) => (
+          <TouchableOpacity
+            key={tab}
+            style={[styles.tab, activeTab === tab && styles.tabActive]}
+            onPress={() => setActiveTab(tab)}
+          >
+            <Text style={[styles.tabText, activeTab === tab && styles.tabTextActive]}>
+              {tab === 'manifest' ? 'Manifest' : 'Slots & Pickup Points'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentInner}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor={colors.primary}
+            colors={[colors.primary]}
+          />
+        }
+      >
+        {activeTab === 'manifest' ? renderManifest() : renderSlots()}
+      </ScrollView>
+
+      {profile && (
+        <DeliverySlotFormModal
+          visible={showSlotForm}
+          farmerId={profile.id}
+          slot={editingSlot}
+          onClose={() => setShowSlotForm(false)}
+          onSaved={handleSlotSaved}
+        />
+      )}
+
+      {AlertComponent}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: colors.background,
+  },
+
+  tabs: {
+    flexDirection: 'row',
+    backgroundColor: colors.white,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+    paddingHorizontal: 16,
+  },
+
+  tab: {
+    paddingVertical: 12,
+    marginRight: 20,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+
+  tabActive: {
+    borderBottomColor: colors.primary,
+  },
+
+  tabText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+
+  tabTextActive: {
+    color: colors.primary,
+  },
+
+  content: {
+    flex: 1,
+  },
+
+  contentInner: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+
+  dateStrip: {
+    gap: 8,
+    paddingBottom: 16,
+  },
+
+  dateChip: {
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    backgroundColor: colors.white,
+    minWidth: 64,
+  },
+
+  dateChipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+
+  dateChipDay: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+
+  dateChipDate: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.text,
+  },
+
+  dateChipTextActive: {
+    color: colors.white,
+  },
+
+  sectionLoading: {
+    marginTop: 24,
+  },
+
+  card: {
+    backgroundColor: colors.white,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 16,
+    marginBottom: 12,
+  },
+
+  retiredCard: {
+    opacity: 0.6,
+  },
+
+  groupHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 8,
+  },
+
+  groupIcon: {
+    width: 24,
+    marginTop: 2,
+  },
+
+  flex: {
+    flex: 1,
+  },
+
+  groupTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.text,
+  },
+
+  groupSubtitle: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+
+  groupCount: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.primary,
+    marginLeft: 8,
+  },
+
+  manifestOrder: {
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    paddingTop: 10,
+    marginTop: 10,
+    gap: 2,
+  },
+
+  manifestOrderHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+
+  buyerName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+
+  orderStatus: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: colors.warning,
+  },
+
+  itemText: {
+    fontSize: 13,
+    color: colors.text,
+  },
+
+  orderTotal: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+
+  mutedText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    textAlign: 'left',
+  },
+
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 40,
+    gap: 8,
+  },
+
+  emptyTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.text,
+  },
+
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    marginBottom: 16,
+  },
+
+  buttonIcon: {
+    marginRight: 6,
+  },
+
+  addButtonText: {
+    color: colors.white,
+    fontWeight: '600',
+    fontSize: 14,
+  },
+
+  slotActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 16,
+  },
+
+  slotButton: {
+    paddingVertical: 4,
+  },
+
+  slotButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+
+  retireText: {
+    color: colors.danger,
+  },
+});
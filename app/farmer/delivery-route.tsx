@@ -0,0 +1,677 @@
+import * as Location from 'expo-location';
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Linking,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import Icon from 'react-native-vector-icons/FontAwesome5';
+import { useCustomAlert } from '../../components/CustomAlert';
+import HeaderComponent from '../../components/HeaderComponent';
+import OrderQRScanner from '../../components/OrderQRScanner';
+import OrderVerificationModal from '../../components/OrderVerificationModal';
+import SyncStatus from '../../components/SyncStatus';
+import { getUserWithProfile } from '../../services/auth';
+import { formatSlotDate, formatSlotWindow, toDateKey } from '../../services/deliverySlots';
+import { locationService } from '../../services/locationService';
+import { loadWithOfflineCache } from '../../services/offlineCache';
+import { offlineSync } from '../../services/offlineSync';
+import { getDeliveryOrders } from '../../services/orders';
+import { getRouteMapsUrl, PlannedRoute, planRoute, RoutePoint } from '../../services/routePlanner';
+import { Database } from '../../types/database';
+import { DeliveryManifestOrder, OrderStatus } from '../../types/orders';
+import { escapeHtml, exportFile, toHtmlTable, toPrintableHtml } from '../../utils/fileExport';
+import { PurchaseQRVerification } from '../../utils/purchaseCode';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+
+const colors = {
+  primary: '#059669',
+  primaryLight: '#ecfdf5',
+  background: '#f8f9fa',
+  white: '#ffffff',
+  danger: '#ef4444',
+  info: '#3b82f6',
+  border: '#e5e7eb',
+  text: '#111827',
+  textSecondary: '#6b7280',
+};
+
+// Orders that are going out on a run
+const ROUTABLE_STATUSES: OrderStatus[] = ['confirmed', 'processing', 'ready', 'shipped'];
+
+// Tarlac City poblacion, used when neither the phone's position nor the farm's barangay is known
+const DEFAULT_START: RoutePoint = { lat: 15.4803, lon: 120.5929 };
+
+const buyerName = (order: DeliveryManifestOrder) =>
+  `${order.buyer_profile?.first_name || ''} ${order.buyer_profile?.last_name || ''}`.trim() || 'Unknown Buyer';
+
+const describeItems = (order: DeliveryManifestOrder) =>
+  order.order_items.map(item => `${item.quantity} ${item.product.unit} ${item.product.name}`).join(', ');
+
+const formatDuration = (minutes: number) =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)} h ${minutes % 60} min` : `${minutes} min`;
+
+export default function FarmerDeliveryRouteScreen() {
+  const { showAlert, AlertComponent } = useCustomAlert();
+  const params = useLocalSearchParams<{ date?: string }>();
+  const date = params.date || toDateKey(new Date());
+
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [orders, setOrders] = useState<DeliveryManifestOrder[]>([]);
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const [offlineSince, setOfflineSince] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [planning, setPlanning] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [route, setRoute] = useState<PlannedRoute<DeliveryManifestOrder> | null>(null);
+  const [delivered, setDelivered] = useState<Record<string, boolean>>({});
+  const [scanOrderId, setScanOrderId] = useState<string | null>(null);
+  const [verification, setVerification] = useState<PurchaseQRVerification | null>(null);
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        const userData = await getUserWithProfile();
+        if (!userData?.profile) {
+          router.replace('/auth/login');
+          return;
+        }
+        setProfile(userData.profile);
+
+        const { data, fromCache, savedAt } = await loadWithOfflineCache(
+          `delivery_orders_${date}`,
+          userData.profile.id,
+          () => getDeliveryOrders(userData.profile!.id, date)
+        );
+        const routable = data.filter(order =>
+          order.fulfillment_method !== 'pickup' && ROUTABLE_STATUSES.includes(order.status)
+        );
+
+        setOfflineSince(fromCache ? savedAt : null);
+        setOrders(routable);
+        setSelected(Object.fromEntries(routable.map(order => [order.id, !!order.delivery_address])));
+      } catch (error) {
+        console.error('Error loading delivery orders:', error);
+        showAlert('Error', 'Failed to load the orders for this day', [{ text: 'OK', style: 'default' }]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [date, showAlert]);
+
+  // The phone's position, else the farm's barangay
+  const getStartPoint = async (): Promise<RoutePoint> => {
+    try {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status === 'granted') {
+        const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+        return { lat: position.coords.latitude, lon: position.coords.longitude };
+      }
+    } catch (error) {
+      console.warn('⚠️ Could not get current position for route start:', error);
+    }
+
+    const farm = profile?.barangay ? await locationService.geocodeAddress(profile.barangay) : null;
+    return farm || DEFAULT_START;
+  };
+
+  const handlePlanRoute = async () => {
+    const chosen = orders.filter(order => selected[order.id] && order.delivery_address);
+    if (chosen.length === 0) {
+      showAlert('No Stops', 'Choose at least one order with a delivery address.', [{ text: 'OK', style: 'default' }]);
+      return;
+    }
+
+    try {
+      setPlanning(true);
+      setProgress('Finding your position...');
+      const start = await getStartPoint();
+
+      const planned = await planRoute(
+        start,
+        chosen.map(order => ({ id: order.id, address: order.delivery_address, data: order })),
+        (done, total) => setProgress(`Locating addresses ${done}/${total}...`)
+      );
+      setRoute(planned);
+    } catch (error: any) {
+      console.error('Error planning route:', error);
+      showAlert('Error', error.message || 'Failed to plan the route', [{ text: 'OK', style: 'default' }]);
+    } finally {
+      setPlanning(false);
+      setProgress(null);
+    }
+  };
+
+  const markDelivered = async (order: DeliveryManifestOrder) => {
+    if (!profile) return;
+
+    // Queued like status changes in Orders, so a run without signal still records deliveries
+    const result = await offlineSync.enqueue({
+      kind: 'order_status',
+      orderId: order.id,
+      status: 'delivered',
+      baseUpdatedAt: order.updated_at,
+      notify: {
+        buyerId: order.buyer_id,
+        farmerId: order.farmer_id,
+        details: {
+          totalAmount: order.total_price,
+          itemCount: order.order_items.length,
+          farmerName: `${profile.first_name} ${profile.last_name}`,
+          buyerName: buyerName(order)
+        }
+      }
+    });
+
+    if (result === 'failed' || result === 'conflict') {
+      const problem = [...offlineSync.getState().failed, ...offlineSync.getState().conflicts].find(mutation =>
+        mutation.kind === 'order_status' && mutation.orderId === order.id
+      );
+      showAlert(
+        result === 'conflict' ? 'Order Changed' : 'Error',
+        problem?.message || 'The order could not be marked as delivered. Review it in Sync Status.',
+        [{ text: 'OK', style: 'default' }]
+      );
+      return;
+    }
+
+    setDelivered(prev => ({ ...prev, [order.id]: true }));
+  };
+
+  const handleScanned = (scanned: PurchaseQRVerification) => {
+    const expectedOrderId = scanOrderId;
+    setScanOrderId(null);
+
+    if (scanned.payload?.orderId !== expectedOrderId) {
+      showAlert('Different Order', 'This QR code belongs to another order. Check that you are at the right stop.', [
+        { text: 'OK', style: 'default' }
+      ]);
+      return;
+    }
+
+    setVerification(scanned);
+  };
+
+  const stopRows = () => [
+    ...(route?.stops || []).map((stop, index) => ({ number: String(index + 1), order: stop.data, legKm: stop.legKm })),
+    ...(route?.unlocated || []).map(stop => ({ number: '?', order: stop.data, legKm: null as number | null }))
+  ];
+
+  const routeTitle = `Delivery run for ${formatSlotDate(date)}`;
+
+  const handleShare = async () => {
+    if (!route) return;
+    const lines = stopRows().map(({ number, order }) =>
+      `${number}. ${buyerName(order)}${order.buyer_profile?.phone ? ` (${order.buyer_profile.phone})` : ''}\n   ${order.delivery_address}\n   ${describeItems(order)}`
+    );
+    const mapsUrl = getRouteMapsUrl(route.start, route.stops.map(stop => stop.point));
+
+    await Share.share({
+      title: routeTitle,
+      message: [
+        routeTitle,
+        `${route.totalKm.toFixed(1)} km, about ${formatDuration(route.totalMinutes)}`,
+        '',
+        ...lines,
+        ...(mapsUrl ? ['', mapsUrl] : [])
+      ].join('\n')
+    });
+  };
+
+  const handlePrint = async () => {
+    if (!route) return;
+    const table = toHtmlTable({
+      columns: ['#', 'Buyer', 'Phone', 'Address', 'Items', 'Total', 'Delivered'],
+      rows: stopRows().map(({ number, order }) => [
+        number,
+        buyerName(order),
+        order.buyer_profile?.phone || '',
+        order.delivery_address,
+        describeItems(order),
+        `₱${Number(order.total_price).toLocaleString()}`,
+        ''
+      ])
+    });
+    const body = `<h1>${escapeHtml(routeTitle)}</h1>
+<p class="muted">${route.stops.length + route.unlocated.length} stops · ${route.totalKm.toFixed(1)} km · about ${formatDuration(route.totalMinutes)}</p>
+${table}`;
+
+    try {
+      await exportFile(`delivery-run-${date}.html`, toPrintableHtml(routeTitle, body), 'text/html');
+    } catch (error: any) {
+      showAlert('Error', error.message || 'Failed to export the stop list', [{ text: 'OK', style: 'default' }]);
+    }
+  };
+
+  const openInMaps = () => {
+    if (!route) return;
+    const url = getRouteMapsUrl(route.start, route.stops.map(stop => stop.point));
+    if (url) Linking.openURL(url);
+  };
+
+  const renderOrderChoice = (order: DeliveryManifestOrder) => {
+    const checked = !!selected[order.id];
+    const hasAddress = !!order.delivery_address;
+    return (
+      <TouchableOpacity
+        key={order.id}
+        style={[styles.choiceRow, !hasAddress && styles.disabledRow]}
+        onPress={() => setSelected(prev => ({ ...prev, [order.id]: !checked }))}
+        disabled={!hasAddress}
+        activeOpacity={0.8}
+      >
+        <Icon name={checked ? 'check-square' : 'square'} size={18} color={checked ? colors.primary : colors.textSecondary} />
+        <View style={styles.flex}>
+          <Text style={styles.stopTitle}>{buyerName(order)}</Text>
+          <Text style={styles.mutedText}>{order.delivery_address || 'No delivery address'}</Text>
+          {order.delivery_window_start && (
+            <Text style={styles.mutedText}>{formatSlotWindow(order.delivery_window_start, order.delivery_window_end)}</Text>
+          )}
+        </View>
+        <Text style={styles.statusText}>{order.status.toUpperCase()}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderStop = ({ number, order, legKm }: ReturnType<typeof stopRows>[number]) => {
+    const isDelivered = delivered[order.id];
+    return (
+      <View key={order.id} style={[styles.card, isDelivered && styles.deliveredCard]}>
+        <View style={styles.stopHeader}>
+          <View style={[styles.stopNumber, isDelivered && styles.stopNumberDone]}>
+            {isDelivered
+              ? <Icon name="check" size={12} color={colors.white} />
+              : <Text style={styles.stopNumberText}>{number}</Text>}
+          </View>
+          <View style={styles.flex}>
+            <Text style={styles.stopTitle}>{buyerName(order)}</Text>
+            <Text style={styles.mutedText}>{order.delivery_address}</Text>
+            {order.buyer_profile?.phone && <Text style={styles.mutedText}>{order.buyer_profile.phone}</Text>}
+          </View>
+          <Text style={styles.legText}>{legKm === null ? 'Not on map' : `${legKm.toFixed(1)} km`}</Text>
+        </View>
+
+        <Text style={styles.itemsText}>{describeItems(order)}</Text>
+
+        {!isDelivered && (
+          <View style={styles.stopActions}>
+            <TouchableOpacity style={[styles.stopButton, styles.deliveredButton]} onPress={() => markDelivered(order)}>
+              <Icon name="check" size={12} color={colors.white} style={styles.buttonIcon} />
+              <Text style={styles.stopButtonText}>Delivered</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.stopButton, styles.verifyButton]} onPress={() => setScanOrderId(order.id)}>
+              <Icon name="qrcode" size={12} color={colors.white} style={styles.buttonIcon} />
+              <Text style={styles.stopButtonText}>Verify QR</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={colors.primary} />
+        <Text style={styles.mutedText}>Loading orders...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <HeaderComponent
+        profile={profile}
+        userType="farmer"
+        currentRoute="/farmer/deliveries"
+        showMessages={true}
+        showNotifications={true}
+      />
+      <SyncStatus offlineSince={offlineSince} />
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backLink}>
+          <Icon name="arrow-left" size={12} color={colors.primary} style={styles.buttonIcon} />
+          <Text style={styles.backLinkText}>Deliveries</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>{routeTitle}</Text>
+
+        {orders.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Icon name="route" size={40} color={colors.textSecondary} />
+            <Text style={styles.emptyTitle}>No deliveries to plan</Text>
+            <Text style={styles.mutedText}>Confirmed delivery orders booked for this day will appear here.</Text>
+          </View>
+        ) : !route ? (
+          <>
+            <Text style={styles.sectionTitle}>Choose the stops</Text>
+            <View style={styles.card}>{orders.map(renderOrderChoice)}</View>
+
+            <TouchableOpacity style={styles.primaryButton} onPress={handlePlanRoute} disabled={planning}>
+              {planning ? (
+                <>
+                  <ActivityIndicator size="small" color={colors.white} style={styles.buttonIcon} />
+                  <Text style={styles.primaryButtonText}>{progress || 'Planning...'}</Text>
+                </>
+              ) : (
+                <>
+                  <Icon name="route" size={14} color={colors.white} style={styles.buttonIcon} />
+                  <Text style={styles.primaryButtonText}>Plan Route</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <View style={styles.summary}>
+              <View style={styles.summaryItem}>
+                <Text style={styles.summaryValue}>{route.stops.length + route.unlocated.length}</Text>
+                <Text style={styles.summaryLabel}>Stops</Text>
+              </View>
+              <View style={styles.summaryItem}>
+                <Text style={styles.summaryValue}>{route.totalKm.toFixed(1)} km</Text>
+                <Text style={styles.summaryLabel}>Distance</Text>
+              </View>
+              <View style={styles.summaryItem}>
+                <Text style={styles.summaryValue}>{formatDuration(route.totalMinutes)}</Text>
+                <Text style={styles.summaryLabel}>Estimated</Text>
+              </View>
+            </View>
+            <Text style={styles.mutedText}>
+              Distances are estimates from map positions; addresses found only by barangay are placed at its centre.
+            </Text>
+
+            <View style={styles.routeActions}>
+              <TouchableOpacity style={styles.secondaryButton} onPress={openInMaps}>
+                <Icon name="map" size={12} color={colors.primary} style={styles.buttonIcon} />
+                <Text style={styles.secondaryButtonText}>Open in Maps</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.secondaryButton} onPress={handleShare}>
+                <Icon name="share-alt" size={12} color={colors.primary} style={styles.buttonIcon} />
+                <Text style={styles.secondaryButtonText}>Share</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.secondaryButton} onPress={handlePrint}>
+                <Icon name="print" size={12} color={colors.primary} style={styles.buttonIcon} />
+                <Text style={styles.secondaryButtonText}>Print</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.secondaryButton} onPress={() => setRoute(null)}>
+                <Icon name="edit" size={12} color={colors.primary} style={styles.buttonIcon} />
+                <Text style={styles.secondaryButtonText}>Change Stops</Text>
+              </TouchableOpacity>
+            </View>
+
+            {stopRows().map(renderStop)}
+          </>
+        )}
+      </ScrollView>
+
+      <OrderQRScanner
+        visible={!!scanOrderId}
+        onClose={() => setScanOrderId(null)}
+        onOrderScanned={handleScanned}
+      />
+
+      <OrderVerificationModal
+        visible={!!verification}
+        verification={verification}
+        onClose={() => setVerification(null)}
+        onOrderCompleted={() => {
+          const orderId = verification?.payload?.orderId;
+          if (orderId) setDelivered(prev => ({ ...prev, [orderId]: true }));
+        }}
+      />
+
+      {AlertComponent}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: colors.background,
+  },
+
+  content: {
+    flex: 1,
+  },
+
+  contentInner: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+
+  backLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+
+  backLinkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.text,
+    marginBottom: 16,
+  },
+
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginBottom: 8,
+  },
+
+  card: {
+    backgroundColor: colors.white,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 16,
+    marginBottom: 12,
+  },
+
+  deliveredCard: {
+    opacity: 0.6,
+  },
+
+  choiceRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    paddingVertical: 8,
+  },
+
+  disabledRow: {
+    opacity: 0.5,
+  },
+
+  flex: {
+    flex: 1,
+  },
+
+  stopHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+  },
+
+  stopNumber: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: colors.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  stopNumberDone: {
+    backgroundColor: colors.textSecondary,
+  },
+
+  stopNumberText: {
+    color: colors.white,
+    fontWeight: '700',
+    fontSize: 13,
+  },
+
+  stopTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+
+  legText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+
+  itemsText: {
+    fontSize: 13,
+    color: colors.text,
+    marginTop: 8,
+  },
+
+  statusText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: colors.primary,
+  },
+
+  mutedText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+
+  stopActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+
+  stopButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 8,
+    paddingVertical: 10,
+  },
+
+  deliveredButton: {
+    backgroundColor: colors.primary,
+  },
+
+  verifyButton: {
+    backgroundColor: colors.info,
+  },
+
+  stopButtonText: {
+    color: colors.white,
+    fontWeight: '600',
+    fontSize: 13,
+  },
+
+  buttonIcon: {
+    marginRight: 6,
+  },
+
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.primary,
+    borderRadius: 10,
+    paddingVertical: 14,
+    marginTop: 4,
+  },
+
+  primaryButtonText: {
+    color: colors.white,
+    fontWeight: '700',
+    fontSize: 15,
+  },
+
+  summary: {
+    flexDirection: 'row',
+    backgroundColor: colors.primaryLight,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+  },
+
+  summaryItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+
+  summaryValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.primary,
+  },
+
+  summaryLabel: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+
+  routeActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginVertical: 16,
+  },
+
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: colors.primary,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+
+  secondaryButtonText: {
+    color: colors.primary,
+    fontWeight: '600',
+    fontSize: 13,
+  },
+
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 40,
+    gap: 8,
+  },
+
+  emptyTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.text,
+  },
+});
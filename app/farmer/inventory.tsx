@@ -16,8 +16,11 @@ import {
   View
 } from 'react-native';
 import HeaderComponent from '../../components/HeaderComponent';
+import SyncStatus from '../../components/SyncStatus';
 import { supabase } from '../../lib/supabase';
 import { getUserWithProfile } from '../../services/auth';
+import { loadWithOfflineCache } from '../../services/offlineCache';
+import { offlineSync } from '../../services/offlineSync';
 import { Database } from '../../types/database';
 
 const { width } = Dimensions.get('window');
@@ -78,9 +81,24 @@ export default function Farm2GoInventoryScreen() {
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
   const [newStock, setNewStock] = useState('');
   const [profile, setProfile] = useState<Profile | null>(null);
+  // When the list is the saved offline copy, when it was saved
+  const [offlineSince, setOfflineSince] = useState<string | null>(null);
 
   useEffect(() => {
     loadData();
+
+    // Reload once queued edits have gone through, to pick up the server's copy
+    let wasSyncing = false;
+    const unsubscribe = offlineSync.onSyncStateChange((state) => {
+      if (wasSyncing && !state.syncing) {
+        getUserWithProfile().then((userData) => {
+          if (userData?.user) loadProducts(userData.user.id).catch(() => {});
+        });
+      }
+      wasSyncing = state.syncing;
+    });
+
+    return unsubscribe;
   }, []);
 
   useEffect(() => {
@@ -107,23 +125,34 @@ export default function Farm2GoInventoryScreen() {
 
   const loadProducts = async (farmerId: string) => {
     try {
-      const { data, error } = await supabase
-        .from('products')
-        .select('*')
-        .eq('farmer_id', farmerId)
-        .order('created_at', { ascending: false });
+      const { data, fromCache, savedAt } = await loadWithOfflineCache('farmer_products', farmerId, async () => {
+        const { data, error } = await supabase
+          .from('products')
+          .select('*')
+          .eq('farmer_id', farmerId)
+          .order('created_at', { ascending: false });
 
-      if (error) throw error;
+        if (error) throw error;
+        return (data || []) as DatabaseProduct[];
+      });
 
-      if (!data) {
-        setProducts([]);
-        return;
-      }
+      setOfflineSince(fromCache ? savedAt : null);
+
+      const productsWithThreshold: Product[] = data.map((product): Product => {
+        // Show stock edits that haven't reached the server yet
+        const queuedStock = offlineSync
+          .getQueuedFor(product.id)
+          .filter(mutation => mutation.kind === 'product_stock')
+          .pop();
 
-      const productsWithThreshold: Product[] = data.map((product): Product => ({
-        ...product as DatabaseProduct,
-        low_stock_threshold: 10,
-      }));
+        return {
+          ...product,
+          quantity_available: queuedStock?.kind === 'product_stock'
+            ? queuedStock.quantity
+            : product.quantity_available,
+          low_stock_threshold: 10,
+        };
+      });
 
       setProducts(productsWithThreshold);
     } catch (error) {
@@ -178,12 +207,21 @@ export default function Farm2GoInventoryScreen() {
     }
 
     try {
-      const { error } = await (supabase as any)
-        .from('products')
-        .update({ quantity_available: stockValue })
-        .eq('id', selectedProduct.id);
+      // Queued so it survives having no signal; sent straight away when online
+      const result = await offlineSync.enqueue({
+        kind: 'product_stock',
+        productId: selectedProduct.id,
+        productName: selectedProduct.name,
+        quantity: stockValue,
+        baseUpdatedAt: selectedProduct.updated_at,
+      });
 
-      if (error) throw error;
+      if (result === 'failed') {
+        const failure = offlineSync.getState().failed.find(mutation =>
+          mutation.kind === 'product_stock' && mutation.productId === selectedProduct.id
+        );
+        throw new Error(failure?.message || 'Failed to update stock');
+      }
 
       setProducts(prevProducts =>
         prevProducts.map((product) => {
@@ -197,10 +235,17 @@ export default function Farm2GoInventoryScreen() {
       setShowStockModal(false);
       setSelectedProduct(null);
       setNewStock('');
-      Alert.alert('Success', 'Stock updated successfully');
+
+      if (result === 'synced') {
+        Alert.alert('Success', 'Stock updated successfully');
+      } else if (result === 'conflict') {
+        Alert.alert('Changed Elsewhere', 'This product was updated since you loaded it. Review the change in Sync Status.');
+      } else {
+        Alert.alert('Saved Offline', 'Stock saved on this device. It will sync when you are back online.');
+      }
     } catch (error) {
       console.error('Error updating stock:', error);
-      Alert.alert('Error', 'Failed to update stock');
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update stock');
     }
   };
 
@@ -464,6 +509,9 @@ export default function Farm2GoInventoryScreen() {
         showMessages={true}
         showNotifications={true}
       />
+      <View style={styles.syncStatusBar}>
+        <SyncStatus offlineSince={offlineSince} />
+      </View>
       <ScrollView
         style={styles.scrollContainer}
         refreshControl={
@@ -567,6 +615,14 @@ const styles = StyleSheet.create({
   scrollContainer: {
     flex: 1,
   },
+
+  syncStatusBar: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
   
   loadingContainer: {
     flex: 1,
@@ -18,6 +18,7 @@ import { supabase } from '../../lib/supabase';
 import { getUserWithProfile } from '../../services/auth';
 import { Database } from '../../types/database';
 import ConfirmationModal from '../../components/ConfirmationModal';
+import FarmerHarvests from '../../components/FarmerHarvests';
 import FilterSidebar from '../../components/FilterSidebar';
 import HeaderComponent from '../../components/HeaderComponent';
 import { applyFilters } from '../../utils/filterConfigs';
@@ -545,6 +546,17 @@ export default function Farm2GoFarmerProducts() {
     );
   };
 
+  // Harvests can be scheduled for any listing that was not rejected
+  const renderHarvests = () => profile && (
+    <FarmerHarvests
+      farmerId={profile.id}
+      products={products
+        .filter(product => product.status !== 'rejected')
+        .map(({ id, name, unit, price }) => ({ id, name, unit, price }))}
+      onStockChanged={loadData}
+    />
+  );
+
   const renderEmptyState = () => (
     <View style={styles.emptyState}>
       <View style={styles.emptyIconContainer}>
@@ -618,6 +630,9 @@ export default function Farm2GoFarmerProducts() {
             }
             showsVerticalScrollIndicator={false}
           >
+            {/* Upcoming Harvests */}
+            {renderHarvests()}
+
             {/* Products Header */}
             <View style={styles.productsHeader}>
               <Text style={styles.productsTitle}>
@@ -666,6 +681,7 @@ export default function Farm2GoFarmerProducts() {
             keyExtractor={(item) => item.id}
             key={numColumns} // Force re-render when columns change
             numColumns={numColumns}
+            ListHeaderComponent={renderHarvests()}
             ListEmptyComponent={renderEmptyState}
             refreshControl={
               <RefreshControl
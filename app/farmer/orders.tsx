@@ -13,16 +13,20 @@ import {
 } from 'react-native';
 import Icon from 'react-native-vector-icons/FontAwesome5';
 import ConfirmationModal from '../../components/ConfirmationModal';
+import DeliverySlotModal from '../../components/DeliverySlotModal';
 import MapDirectionsModal from '../../components/MapDirectionsModal';
 import FilterSidebar from '../../components/FilterSidebar';
 import HeaderComponent from '../../components/HeaderComponent';
+import SyncStatus from '../../components/SyncStatus';
 import { useCustomAlert } from '../../components/CustomAlert';
 import { supabase } from '../../lib/supabase';
 import { getUserWithProfile } from '../../services/auth';
-import { notifyOrderStatusChange } from '../../services/notifications';
+import { canRescheduleOrder, formatDeliverySchedule } from '../../services/deliverySlots';
+import { loadWithOfflineCache } from '../../services/offlineCache';
+import { offlineSync } from '../../services/offlineSync';
 import { subscribeToUserOrders } from '../../services/orders';
 import { Database } from '../../types/database';
-import { Order } from '../../types/orders';
+import { DeliverySchedule, FulfillmentMethod, Order } from '../../types/orders';
 import { applyFilters } from '../../utils/filterConfigs';
 
 const { width } = Dimensions.get('window');
@@ -45,6 +49,13 @@ interface DatabaseOrder {
   delivery_address: string;
   notes: string | null;
   created_at: string;
+  updated_at: string;
+  fulfillment_method: FulfillmentMethod | null;
+  delivery_slot_id: string | null;
+  delivery_date: string | null;
+  delivery_window_start: string | null;
+  delivery_window_end: string | null;
+  pickup_location: string | null;
   products: {
     name: string;
     unit: string;
@@ -62,11 +73,19 @@ interface Order {
   buyer_id: string;
   farmer_id?: string;
   total_amount: number;
-  status: 'pending' | 'confirmed' | 'processing' | 'ready' | 'delivered' | 'cancelled';
+  status: 'pending' | 'confirmed' | 'processing' | 'ready' | 'delivered' | 'issue_reported' | 'cancelled';
   created_at: string;
+  // Base for conflict detection when a status change is queued offline
+  updated_at: string;
   delivery_date: string | null;
   delivery_address: string | null;
   notes: string | null;
+  // Booked delivery slot or pickup point
+  fulfillment_method?: FulfillmentMethod | null;
+  delivery_slot_id?: string | null;
+  delivery_window_start?: string | null;
+  delivery_window_end?: string | null;
+  pickup_location?: string | null;
   buyer_profile?: {
     first_name: string | null;
     last_name: string | null;
@@ -133,6 +152,7 @@ export default function FarmerOrdersScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [profile, setProfile] = useState<Profile | null>(null);
+  const [offlineSince, setOfflineSince] = useState<string | null>(null);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [showActionModal, setShowActionModal] = useState(false);
   const [showSidebar, setShowSidebar] = useState(false);
@@ -156,6 +176,7 @@ export default function FarmerOrdersScreen() {
   const [selectedStatus, setSelectedStatus] = useState('all');
   const [showMapModal, setShowMapModal] = useState(false);
   const [mapOrder, setMapOrder] = useState<Order | null>(null);
+  const [slotOrder, setSlotOrder] = useState<Order | null>(null);
 
   // Filter state
   const [filterState, setFilterState] = useState({
@@ -192,7 +213,16 @@ export default function FarmerOrdersScreen() {
                 setOrders(prevOrders =>
                   prevOrders.map(order =>
                     order.id === updatedOrder.id
-                      ? { ...order, status: updatedOrder.status }
+                      ? {
+                        ...order,
+                        status: updatedOrder.status,
+                        delivery_date: updatedOrder.delivery_date ?? order.delivery_date,
+                        fulfillment_method: updatedOrder.fulfillment_method ?? order.fulfillment_method,
+                        delivery_slot_id: updatedOrder.delivery_slot_id ?? order.delivery_slot_id,
+                        delivery_window_start: updatedOrder.delivery_window_start ?? order.delivery_window_start,
+                        delivery_window_end: updatedOrder.delivery_window_end ?? order.delivery_window_end,
+                        pickup_location: updatedOrder.pickup_location ?? order.pickup_location
+                      }
                       : order
                   )
                 );
@@ -251,68 +281,88 @@ export default function FarmerOrdersScreen() {
 
   const loadOrders = async (farmerId: string) => {
     try {
-      // Get orders directly for this farmer with product and buyer information
-      const { data: ordersData, error: ordersError } = await supabase
-        .from('orders')
-        .select(`
-          id,
-          buyer_id,
-          farmer_id,
-          product_id,
-          quantity,
-          total_price,
-          status,
-          delivery_address,
-          notes,
-          created_at,
-          products (
-            name,
-            unit,
-            price
-          ),
-          profiles!orders_buyer_id_fkey (
-            first_name,
-            last_name,
-            phone
-          )
-        `)
-        .eq('farmer_id', farmerId);
-
-      if (ordersError) throw ordersError;
-
-      if (!ordersData || ordersData.length === 0) {
-        setOrders([]);
-        return;
-      }
+      const { data: ordersWithItems, fromCache, savedAt } = await loadWithOfflineCache('farmer_orders', farmerId, async (): Promise<Order[]> => {
+        // Get orders directly for this farmer with product and buyer information
+        const { data: ordersData, error: ordersError } = await supabase
+          .from('orders')
+          .select(`
+            id,
+            buyer_id,
+            farmer_id,
+            product_id,
+            quantity,
+            total_price,
+            status,
+            delivery_address,
+            notes,
+            created_at,
+            updated_at,
+            fulfillment_method,
+            delivery_slot_id,
+            delivery_date,
+            delivery_window_start,
+            delivery_window_end,
+            pickup_location,
+            products (
+              name,
+              unit,
+              price
+            ),
+            profiles!orders_buyer_id_fkey (
+              first_name,
+              last_name,
+              phone
+            )
+          `)
+          .eq('farmer_id', farmerId);
+
+        if (ordersError) throw ordersError;
+
+        // Transform orders into the expected format
+        return ((ordersData || []) as DatabaseOrder[]).map(order => ({
+          id: order.id,
+          buyer_id: order.buyer_id,
+          farmer_id: order.farmer_id, // Add the missing farmer_id field
+          total_amount: order.total_price,
+          status: order.status as Order['status'],
+          created_at: order.created_at,
+          updated_at: order.updated_at,
+          delivery_date: order.delivery_date,
+          fulfillment_method: order.fulfillment_method,
+          delivery_slot_id: order.delivery_slot_id,
+          delivery_window_start: order.delivery_window_start,
+          delivery_window_end: order.delivery_window_end,
+          pickup_location: order.pickup_location,
+          delivery_address: order.delivery_address,
+          notes: order.notes,
+          buyer_profile: order.profiles ? {
+            first_name: order.profiles.first_name,
+            last_name: order.profiles.last_name,
+            phone: order.profiles.phone,
+          } : undefined,
+          order_items: [{
+            order_id: order.id,
+            quantity: order.quantity,
+            unit_price: order.products?.price || 0,
+            product: {
+              name: order.products?.name || '',
+              unit: order.products?.unit || '',
+            },
+          }],
+        }));
+      });
 
-      // Transform orders into the expected format
-      const ordersWithItems: Order[] = (ordersData as DatabaseOrder[]).map(order => ({
-        id: order.id,
-        buyer_id: order.buyer_id,
-        farmer_id: order.farmer_id, // Add the missing farmer_id field
-        total_amount: order.total_price,
-        status: order.status as Order['status'],
-        created_at: order.created_at,
-        delivery_date: null, // Not in current schema
-        delivery_address: order.delivery_address,
-        notes: order.notes,
-        buyer_profile: order.profiles ? {
-          first_name: order.profiles.first_name,
-          last_name: order.profiles.last_name,
-          phone: order.profiles.phone,
-        } : undefined,
-        order_items: [{
-          order_id: order.id,
-          quantity: order.quantity,
-          unit_price: order.products?.price || 0,
-          product: {
-            name: order.products?.name || '',
-            unit: order.products?.unit || '',
-          },
-        }],
+      setOfflineSince(fromCache ? savedAt : null);
+      // Show status changes that haven't reached the server yet
+      setOrders(ordersWithItems.map(order => {
+        const queuedStatus = offlineSync
+          .getQueuedFor(order.id)
+          .filter(mutation => mutation.kind === 'order_status')
+          .pop();
+        return queuedStatus?.kind === 'order_status'
+          ? { ...order, status: queuedStatus.status as Order['status'] }
+          : order;
       }));
-
-      setOrders(ordersWithItems);
     } catch (error) {
       console.error('Error loading orders:', error);
       throw error;
@@ -321,69 +371,80 @@ export default function FarmerOrdersScreen() {
 
   const loadMyOrders = async (userId: string) => {
     try {
-      // Get orders placed by this farmer (as a buyer) with farmer and product information
-      const { data: myOrdersData, error: myOrdersError } = await supabase
-        .from('orders')
-        .select(`
-          id,
-          buyer_id,
-          farmer_id,
-          product_id,
-          quantity,
-          total_price,
-          status,
-          delivery_address,
-          notes,
-          created_at,
-          products (
-            name,
-            unit,
-            price
-          ),
-          profiles!orders_farmer_id_fkey (
-            first_name,
-            last_name,
-            phone,
-            farm_name
-          )
-        `)
-        .eq('buyer_id', userId);
-
-      if (myOrdersError) throw myOrdersError;
-
-      if (!myOrdersData || myOrdersData.length === 0) {
-        setMyOrders([]);
-        return;
-      }
-
-      // Transform orders into the expected format
-      const myOrdersWithItems: Order[] = (myOrdersData as DatabaseOrder[]).map(order => ({
-        id: order.id,
-        buyer_id: order.buyer_id,
-        farmer_id: order.farmer_id,
-        total_amount: order.total_price,
-        status: order.status as Order['status'],
-        created_at: order.created_at,
-        delivery_date: null,
-        delivery_address: order.delivery_address,
-        notes: order.notes,
-        farmer_profile: order.profiles ? {
-          first_name: order.profiles.first_name,
-          last_name: order.profiles.last_name,
-          phone: order.profiles.phone,
-          farm_name: order.profiles.farm_name,
-        } : undefined,
-        order_items: [{
-          order_id: order.id,
-          quantity: order.quantity,
-          unit_price: order.products?.price || 0,
-          product: {
-            name: order.products?.name || '',
-            unit: order.products?.unit || '',
-          },
-        }],
-      }));
+      const { data: myOrdersWithItems, fromCache, savedAt } = await loadWithOfflineCache('farmer_my_orders', userId, async (): Promise<Order[]> => {
+        // Get orders placed by this farmer (as a buyer) with farmer and product information
+        const { data: myOrdersData, error: myOrdersError } = await supabase
+          .from('orders')
+          .select(`
+            id,
+            buyer_id,
+            farmer_id,
+            product_id,
+            quantity,
+            total_price,
+            status,
+            delivery_address,
+            notes,
+            created_at,
+            updated_at,
+            fulfillment_method,
+            delivery_slot_id,
+            delivery_date,
+            delivery_window_start,
+            delivery_window_end,
+            pickup_location,
+            products (
+              name,
+              unit,
+              price
+            ),
+            profiles!orders_farmer_id_fkey (
+              first_name,
+              last_name,
+              phone,
+              farm_name
+            )
+          `)
+          .eq('buyer_id', userId);
+
+        if (myOrdersError) throw myOrdersError;
+
+        // Transform orders into the expected format
+        return ((myOrdersData || []) as DatabaseOrder[]).map(order => ({
+          id: order.id,
+          buyer_id: order.buyer_id,
+          farmer_id: order.farmer_id,
+          total_amount: order.total_price,
+          status: order.status as Order['status'],
+          created_at: order.created_at,
+          updated_at: order.updated_at,
+          delivery_date: order.delivery_date,
+          fulfillment_method: order.fulfillment_method,
+          delivery_slot_id: order.delivery_slot_id,
+          delivery_window_start: order.delivery_window_start,
+          delivery_window_end: order.delivery_window_end,
+          pickup_location: order.pickup_location,
+          delivery_address: order.delivery_address,
+          notes: order.notes,
+          farmer_profile: order.profiles ? {
+            first_name: order.profiles.first_name,
+            last_name: order.profiles.last_name,
+            phone: order.profiles.phone,
+            farm_name: order.profiles.farm_name,
+          } : undefined,
+          order_items: [{
+            order_id: order.id,
+            quantity: order.quantity,
+            unit_price: order.products?.price || 0,
+            product: {
+              name: order.products?.name || '',
+              unit: order.products?.unit || '',
+            },
+          }],
+        }));
+      });
 
+      if (fromCache) setOfflineSince(savedAt);
       setMyOrders(myOrdersWithItems);
     } catch (error) {
       console.error('Error loading my orders:', error);
@@ -509,49 +570,44 @@ export default function FarmerOrdersScreen() {
         ]);
         return;
       }
-
-      const { error } = await supabase
-        .from('orders')
-        .update({ status: newStatus })
-        .eq('id', orderId);
-
-      if (error) {
-        console.error('Supabase error:', error);
-        throw error;
+      if (!profile?.id) {
+        showAlert('Error', 'Your profile is not loaded yet', [
+          { text: 'OK', style: 'default' }
+        ]);
+        return;
       }
 
-      // Send notifications about order status change
-      try {
-        console.log('🔍 Order data for notification:', {
-          orderId,
+      // Queued so it survives having no signal; validated against the order state machine
+      // when it reaches the server, which also notifies the buyer
+      const result = await offlineSync.enqueue({
+        kind: 'order_status',
+        orderId,
+        status: newStatus,
+        baseUpdatedAt: currentOrder.updated_at,
+        notify: {
           buyerId: currentOrder.buyer_id,
-          farmerId: currentOrder.farmer_id,
-          hasOrder: !!currentOrder
-        });
-
-        // Only send notification if we have a valid profile ID
-        if (profile?.id) {
-          await notifyOrderStatusChange(
-            orderId,
-            newStatus,
-            currentOrder.buyer_id,
-            currentOrder.farmer_id,
-            {
-              totalAmount: currentOrder.total_amount,
-              itemCount: currentOrder.order_items?.length || 0,
-              farmerName: `${profile?.first_name} ${profile?.last_name}`,
-              buyerName: currentOrder.buyer_profile ? `${currentOrder.buyer_profile.first_name} ${currentOrder.buyer_profile.last_name}` : undefined
-            },
-            profile.id
-          );
-        } else {
-          console.warn('⚠️ Skipping notification: profile.id is not available');
-        }
+          farmerId: currentOrder.farmer_id || profile.id,
+          details: {
+            totalAmount: currentOrder.total_amount,
+            itemCount: currentOrder.order_items?.length || 0,
+            farmerName: `${profile.first_name} ${profile.last_name}`,
+            buyerName: currentOrder.buyer_profile ? `${currentOrder.buyer_profile.first_name} ${currentOrder.buyer_profile.last_name}` : undefined
+          },
+        },
+      });
 
-        console.log('✅ Order status change notification sent');
-      } catch (notifError) {
-        console.error('⚠️ Failed to send order notification:', notifError);
-        // Don't fail the status update if notifications fail
+      if (result === 'failed') {
+        const failure = offlineSync.getState().failed.find(mutation =>
+          mutation.kind === 'order_status' && mutation.orderId === orderId
+        );
+        throw new Error(failure?.message || 'Failed to update order status');
+      }
+
+      if (result === 'conflict') {
+        showAlert('Order Changed', 'This order was updated since you loaded it. Review the change in Sync Status.', [
+          { text: 'OK', style: 'default' }
+        ]);
+        return;
       }
 
       // Update local state
@@ -561,9 +617,15 @@ export default function FarmerOrdersScreen() {
         )
       );
 
-      showAlert('Success', 'Order status updated successfully', [
-        { text: 'OK', style: 'default' }
-      ]);
+      showAlert(
+        result === 'synced' ? 'Success' : 'Saved Offline',
+        result === 'synced'
+          ? 'Order status updated successfully'
+          : 'The status change is saved on this device and will sync when you are back online.',
+        [
+          { text: 'OK', style: 'default' }
+        ]
+      );
     } catch (error) {
       console.error('Error updating order status:', error);
       const errorMessage = error instanceof Error ? error.message : 'Failed to update order status';
@@ -594,6 +656,23 @@ export default function FarmerOrdersScreen() {
     setShowMapModal(true);
   };
 
+  // Copy a new booking onto the order in whichever list it is in
+  const handleSlotBooked = (booked: DeliverySchedule & { id: string; delivery_slot_id?: string | null }) => {
+    const applyBooking = (order: Order) => order.id === booked.id ? {
+      ...order,
+      delivery_date: booked.delivery_date ?? null,
+      fulfillment_method: booked.fulfillment_method,
+      delivery_slot_id: booked.delivery_slot_id,
+      delivery_window_start: booked.delivery_window_start,
+      delivery_window_end: booked.delivery_window_end,
+      pickup_location: booked.pickup_location
+    } : order;
+
+    setOrders(prev => prev.map(applyBooking));
+    setMyOrders(prev => prev.map(applyBooking));
+    setSlotOrder(null);
+  };
+
   const handleCloseMapModal = () => {
     setShowMapModal(false);
     setMapOrder(null);
@@ -898,6 +977,42 @@ export default function FarmerOrdersScreen() {
                 </View>
               </TouchableOpacity>
             )}
+
+            {order.status === 'issue_reported' && (
+              <TouchableOpacity
+                style={[styles.actionButton, styles.cancelButton]}
+                onPress={() => router.push(`/order-detail/${order.id}` as any)}
+                activeOpacity={0.8}
+              >
+                <View style={styles.actionButtonContent}>
+                  <Icon name="undo" size={14} color="#ffffff" style={{ marginRight: 6 }} />
+                  <Text style={styles.actionButtonText}>Review Refund Request</Text>
+                </View>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        {/* Delivery Slot */}
+        {(order.delivery_date || canRescheduleOrder(order.status)) && (
+          <View style={styles.additionalInfo}>
+            <View style={styles.infoRow}>
+              <Icon name={order.fulfillment_method === 'pickup' ? 'store' : 'truck'} size={16} color="#64748b" style={styles.infoIcon} />
+              <View style={styles.infoContent}>
+                <Text style={styles.infoLabel}>Delivery Slot</Text>
+                <Text style={styles.infoText}>{formatDeliverySchedule(order)}</Text>
+              </View>
+            </View>
+            {canRescheduleOrder(order.status) && (
+              <TouchableOpacity
+                style={styles.slotButton}
+                onPress={() => setSlotOrder(order)}
+                activeOpacity={0.8}
+              >
+                <Icon name="calendar-alt" size={14} color="#059669" style={{ marginRight: 6 }} />
+                <Text style={styles.slotButtonText}>{order.delivery_date ? 'Change Slot' : 'Choose Slot'}</Text>
+              </TouchableOpacity>
+            )}
           </View>
         )}
 
@@ -1075,6 +1190,10 @@ export default function FarmerOrdersScreen() {
         onFilterPress={() => setShowSidebar(!showSidebar)}
       />
 
+      <View style={styles.syncStatusBar}>
+        <SyncStatus offlineSince={offlineSince} />
+      </View>
+
       {/* Main Tab Navigation */}
       <View style={styles.mainTabBar}>
         <TouchableOpacity
@@ -1187,6 +1306,22 @@ export default function FarmerOrdersScreen() {
         />
       )}
 
+      {profile && slotOrder?.farmer_id && (
+        <DeliverySlotModal
+          visible={!!slotOrder}
+          order={{ ...slotOrder, farmer_id: slotOrder.farmer_id }}
+          changedBy={profile.id}
+          buyerName={activeTab === 'received'
+            ? `${slotOrder.buyer_profile?.first_name || ''} ${slotOrder.buyer_profile?.last_name || ''}`.trim() || undefined
+            : `${profile.first_name || ''} ${profile.last_name || ''}`.trim() || undefined}
+          farmerName={activeTab === 'received'
+            ? profile.farm_name || undefined
+            : slotOrder.farmer_profile?.farm_name || undefined}
+          onClose={() => setSlotOrder(null)}
+          onBooked={handleSlotBooked}
+        />
+      )}
+
       {/* Mobile Sidebar Modal */}
       {!isDesktop && (
         <FilterSidebar
@@ -1234,6 +1369,14 @@ const styles = StyleSheet.create({
     fontWeight: '500',
   },
 
+  syncStatusBar: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e5e5',
+  },
+
   // Main Tab Bar (Order type selection)
   mainTabBar: {
     flexDirection: 'row',
@@ -1887,4 +2030,22 @@ const styles = StyleSheet.create({
     color: '#ffffff',
     fontWeight: '600',
   },
+
+  slotButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: '#059669',
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    marginTop: 4,
+  },
+
+  slotButtonText: {
+    fontSize: 14,
+    color: '#059669',
+    fontWeight: '600',
+  },
 });
\ No newline at end of file
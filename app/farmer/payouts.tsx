@@ -0,0 +1,559 @@
+import { router } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import Icon from 'react-native-vector-icons/FontAwesome5';
+import HeaderComponent from '../../components/HeaderComponent';
+import { useCustomAlert } from '../../components/CustomAlert';
+import { getUserWithProfile } from '../../services/auth';
+import {
+  exportSettlementStatement,
+  formatPeso,
+  getApplicableFeeRules,
+  getFarmerBalance,
+  getFarmerPayouts,
+  getFeeRules,
+  getSettlementStatement,
+  getStatementRange,
+  LEDGER_ENTRY_ORDER
+} from '../../services/payouts';
+import { Database } from '../../types/database';
+import {
+  FarmerPayout,
+  LEDGER_ENTRY_CONFIG,
+  PAYOUT_METHOD_CONFIG,
+  PayoutFeeRule,
+  SettlementStatement,
+  StatementPeriod
+} from '../../types/orders';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+
+const colors = {
+  primary: '#059669',
+  background: '#f8f9fa',
+  white: '#ffffff',
+  danger: '#ef4444',
+  border: '#e5e7eb',
+  text: '#111827',
+  textSecondary: '#6b7280',
+};
+
+const formatDateTime = (date: string) =>
+  new Date(date).toLocaleString('en-PH', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+export default function FarmerPayoutsScreen() {
+  const { showAlert, AlertComponent } = useCustomAlert();
+
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [balance, setBalance] = useState(0);
+  const [payouts, setPayouts] = useState<FarmerPayout[]>([]);
+  const [feeRules, setFeeRules] = useState<PayoutFeeRule[]>([]);
+  const [period, setPeriod] = useState<StatementPeriod>('week');
+  const [offset, setOffset] = useState(0);
+  const [statement, setStatement] = useState<SettlementStatement | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [statementLoading, setStatementLoading] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [exporting, setExporting] = useState<'csv' | 'pdf' | null>(null);
+
+  const loadSummary = useCallback(async (farmer: Profile) => {
+    try {
+      const [currentBalance, recentPayouts, rules] = await Promise.all([
+        getFarmerBalance(farmer.id),
+        getFarmerPayouts(farmer.id),
+        getFeeRules()
+      ]);
+      setBalance(currentBalance);
+      setPayouts(recentPayouts);
+      setFeeRules(getApplicableFeeRules(rules, farmer));
+    } catch (error) {
+      console.error('Error loading payouts:', error);
+      showAlert('Error', 'Failed to load your balance', [{ text: 'OK', style: 'default' }]);
+    }
+  }, [showAlert]);
+
+  const loadStatement = useCallback(async (farmerId: string, statementPeriod: StatementPeriod, statementOffset: number) => {
+    try {
+      setStatementLoading(true);
+      setStatement(await getSettlementStatement(farmerId, getStatementRange(statementPeriod, statementOffset)));
+    } catch (error) {
+      console.error('Error loading statement:', error);
+      showAlert('Error', 'Failed to load the statement', [{ text: 'OK', style: 'default' }]);
+    } finally {
+      setStatementLoading(false);
+    }
+  }, [showAlert]);
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        const userData = await getUserWithProfile();
+        if (!userData?.profile) {
+          router.replace('/auth/login');
+          return;
+        }
+
+        setProfile(userData.profile);
+        await loadSummary(userData.profile);
+      } catch (error) {
+        console.error('Error loading payouts:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [loadSummary]);
+
+  useEffect(() => {
+    if (profile) loadStatement(profile.id, period, offset);
+  }, [profile, period, offset, loadStatement]);
+
+  const onRefresh = async () => {
+    if (!profile) return;
+    setRefreshing(true);
+    await Promise.all([loadSummary(profile), loadStatement(profile.id, period, offset)]);
+    setRefreshing(false);
+  };
+
+  const changePeriod = (next: StatementPeriod) => {
+    setPeriod(next);
+    setOffset(0);
+  };
+
+  const downloadStatement = async (format: 'csv' | 'pdf') => {
+    if (!statement || !profile) return;
+
+    const farmerName = profile.farm_name
+      || `${profile.first_name || ''} ${profile.last_name || ''}`.trim()
+      || 'Farmer';
+
+    setExporting(format);
+    try {
+      await exportSettlementStatement(statement, format, farmerName);
+    } catch (error) {
+      console.error('Error exporting statement:', error);
+      showAlert('Error', 'Failed to download the statement', [{ text: 'OK', style: 'default' }]);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const renderBalance = () => (
+    <View style={styles.card}>
+      <Text style={styles.cardLabel}>{balance < 0 ? 'You owe in fees' : 'Owed to you'}</Text>
+      <Text style={[styles.balanceAmount, balance < 0 && styles.negative]}>{formatPeso(Math.abs(balance))}</Text>
+      <Text style={styles.mutedText}>
+        Online payments less fees and refunds, minus what has been paid out. Cash you collected yourself is already yours.
+      </Text>
+      {feeRules.length > 0 && (
+        <Text style={styles.feeText}>
+          Fees on each sale: {feeRules.map(rule => `${rule.name} ${rule.percent}%`).join(', ')}
+        </Text>
+      )}
+    </View>
+  );
+
+  const renderStatement = () => (
+    <View style={styles.card}>
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionTitle}>Settlement Statement</Text>
+        <View style={styles.periodToggle}>
+          {(['week', 'month'] as const).map((option) => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.periodButton, period === option && styles.periodButtonActive]}
+              onPress={() => changePeriod(option)}
+            >
+              <Text style={[styles.periodButtonText, period === option && styles.periodButtonTextActive]}>
+                {option === 'week' ? 'Weekly' : 'Monthly'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.rangeRow}>
+        <TouchableOpacity style={styles.rangeArrow} onPress={() => setOffset(offset - 1)}>
+          <Icon name="chevron-left" size={14} color={colors.primary} />
+        </TouchableOpacity>
+        <Text style={styles.rangeLabel}>{getStatementRange(period, offset).label}</Text>
+        <TouchableOpacity
+          style={styles.rangeArrow}
+          onPress={() => setOffset(offset + 1)}
+          disabled={offset >= 0}
+        >
+          <Icon name="chevron-right" size={14} color={offset >= 0 ? colors.border : colors.primary} />
+        </TouchableOpacity>
+      </View>
+
+      {statementLoading || !statement ? (
+        <ActivityIndicator size="small" color={colors.primary} style={styles.sectionLoading} />
+      ) : (
+        <>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Opening balance</Text>
+            <Text style={styles.summaryValue}>{formatPeso(statement.opening_balance)}</Text>
+          </View>
+          {LEDGER_ENTRY_ORDER.filter(type => statement.totals[type] !== 0).map((type) => (
+            <View key={type} style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>{LEDGER_ENTRY_CONFIG[type].label}</Text>
+              <Text style={styles.summaryValue}>{formatPeso(statement.totals[type])}</Text>
+            </View>
+          ))}
+          <View style={[styles.summaryRow, styles.closingRow]}>
+            <Text style={styles.closingLabel}>Closing balance</Text>
+            <Text style={styles.closingLabel}>{formatPeso(statement.closing_balance)}</Text>
+          </View>
+
+          {statement.entries.length === 0 ? (
+            <Text style={[styles.mutedText, styles.emptyLines]}>Nothing happened in this period.</Text>
+          ) : (
+            statement.entries.map((entry) => {
+              const config = LEDGER_ENTRY_CONFIG[entry.entry_type];
+              return (
+                <View key={entry.id} style={styles.entryRow}>
+                  <View style={styles.flex}>
+                    <View style={[styles.entryBadge, { backgroundColor: config.bgColor }]}>
+                      <Text style={[styles.entryBadgeText, { color: config.color }]}>{config.label}</Text>
+                    </View>
+                    <Text style={styles.entryDescription}>{entry.description}</Text>
+                    <Text style={styles.mutedText}>{formatDateTime(entry.occurred_at)}</Text>
+                  </View>
+                  <View style={styles.entryAmounts}>
+                    <Text style={[styles.entryAmount, entry.amount < 0 && styles.negative]}>
+                      {entry.amount > 0 ? '+' : ''}{formatPeso(entry.amount)}
+                    </Text>
+                    <Text style={styles.mutedText}>{formatPeso(entry.running_balance)}</Text>
+                  </View>
+                </View>
+              );
+            })
+          )}
+
+          <View style={styles.exportRow}>
+            {(['csv', 'pdf'] as const).map((format) => (
+              <TouchableOpacity
+                key={format}
+                style={styles.exportButton}
+                onPress={() => downloadStatement(format)}
+                disabled={exporting !== null}
+              >
+                {exporting === format ? (
+                  <ActivityIndicator size="small" color={colors.primary} />
+                ) : (
+                  <>
+                    <Icon name={format === 'csv' ? 'file-csv' : 'file-pdf'} size={12} color={colors.primary} style={styles.buttonIcon} />
+                    <Text style={styles.exportButtonText}>{format.toUpperCase()}</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            ))}
+          </View>
+        </>
+      )}
+    </View>
+  );
+
+  const renderPayouts = () => (
+    <View style={styles.card}>
+      <Text style={styles.sectionTitle}>Recent Payouts</Text>
+      {payouts.length === 0 ? (
+        <Text style={[styles.mutedText, styles.emptyLines]}>No payouts yet.</Text>
+      ) : (
+        payouts.map((payout) => (
+          <View key={payout.id} style={styles.entryRow}>
+            <Icon name={PAYOUT_METHOD_CONFIG[payout.method].icon} size={16} color={colors.primary} style={styles.payoutIcon} />
+            <View style={styles.flex}>
+              <Text style={styles.entryDescription}>{PAYOUT_METHOD_CONFIG[payout.method].label}</Text>
+              <Text style={styles.mutedText}>
+                {formatDateTime(payout.paid_at)}{payout.reference ? ` · Ref. ${payout.reference}` : ''}
+              </Text>
+            </View>
+            <Text style={styles.entryAmount}>{formatPeso(payout.amount)}</Text>
+          </View>
+        ))
+      )}
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={colors.primary} />
+        <Text style={styles.mutedText}>Loading payouts...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <HeaderComponent
+        profile={profile}
+        userType="farmer"
+        currentRoute="/farmer/payouts"
+        showMessages={true}
+        showNotifications={true}
+      />
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentInner}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor={colors.primary}
+            colors={[colors.primary]}
+          />
+        }
+      >
+        {renderBalance()}
+        {renderStatement()}
+        {renderPayouts()}
+      </ScrollView>
+
+      {AlertComponent}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: colors.background,
+  },
+
+  content: {
+    flex: 1,
+  },
+
+  contentInner: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+
+  card: {
+    backgroundColor: colors.white,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 16,
+    marginBottom: 12,
+  },
+
+  cardLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+
+  balanceAmount: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: colors.primary,
+    marginVertical: 4,
+  },
+
+  negative: {
+    color: colors.danger,
+  },
+
+  feeText: {
+    fontSize: 13,
+    color: colors.text,
+    marginTop: 8,
+  },
+
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.text,
+  },
+
+  periodToggle: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+
+  periodButton: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+
+  periodButtonActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+
+  periodButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+
+  periodButtonTextActive: {
+    color: colors.white,
+  },
+
+  rangeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+
+  rangeArrow: {
+    padding: 8,
+  },
+
+  rangeLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+
+  sectionLoading: {
+    marginVertical: 24,
+  },
+
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+
+  summaryLabel: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+
+  summaryValue: {
+    fontSize: 14,
+    color: colors.text,
+  },
+
+  closingRow: {
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    marginTop: 4,
+    paddingTop: 8,
+    marginBottom: 8,
+  },
+
+  closingLabel: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: colors.text,
+  },
+
+  emptyLines: {
+    marginTop: 8,
+  },
+
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    paddingVertical: 10,
+  },
+
+  flex: {
+    flex: 1,
+  },
+
+  entryBadge: {
+    alignSelf: 'flex-start',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginBottom: 4,
+  },
+
+  entryBadgeText: {
+    fontSize: 11,
+    fontWeight: '700',
+  },
+
+  entryDescription: {
+    fontSize: 14,
+    color: colors.text,
+  },
+
+  entryAmounts: {
+    alignItems: 'flex-end',
+    marginLeft: 8,
+  },
+
+  entryAmount: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.text,
+  },
+
+  payoutIcon: {
+    width: 28,
+    marginTop: 2,
+  },
+
+  mutedText: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+
+  exportRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 12,
+  },
+
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: colors.primary,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    minWidth: 64,
+    justifyContent: 'center',
+  },
+
+  buttonIcon: {
+    marginRight: 6,
+  },
+
+  exportButtonText: {
+    color: colors.primary,
+    fontWeight: '600',
+    fontSize: 13,
+  },
+});
@@ -10,19 +10,34 @@ import {
   KeyboardAvoidingView,
   Platform,
   Dimensions,
-  Image,
   ActivityIndicator,
 } from 'react-native';
 import { router } from 'expo-router';
-import * as ImagePicker from 'expo-image-picker';
-import * as FileSystem from 'expo-file-system/legacy';
-import { decode } from 'base64-arraybuffer';
 import ConfirmationModal from '../../../components/ConfirmationModal';
 import HeaderComponent from '../../../components/HeaderComponent';
+import MarketPriceHint from '../../../components/MarketPriceHint';
+import ProductImagesEditor from '../../../components/ProductImagesEditor';
+import ProductVariantsEditor, {
+  PriceTierDraft,
+  summarizeVariantDrafts,
+  toPriceTiers,
+  toVariantInputs,
+  validateVariantDrafts,
+  VariantDraft,
+} from '../../../components/ProductVariantsEditor';
 import VerificationGuard from '../../../components/VerificationGuard';
 import { supabase } from '../../../lib/supabase';
 import { getUserWithProfile } from '../../../services/auth';
 import { notifyProductCreated } from '../../../services/notifications';
+import { generateOfflineId, isNetworkError, NewProductData, offlineSync } from '../../../services/offlineSync';
+import {
+  discardUploadedImages,
+  ProductImageDraft,
+  saveProductImages,
+  uploadImageDrafts,
+} from '../../../services/productMedia';
+import { saveProductVariants } from '../../../services/products';
+import { realtimeManager } from '../../../services/realtimeManager';
 import { Database } from '../../../types/database';
 
 type Profile = Database['public']['Tables']['profiles']['Row'];
@@ -59,24 +74,18 @@ export default function AddProductScreen() {
     quantity_available: '',
     category: 'Vegetables',
   });
+  const [variants, setVariants] = useState<VariantDraft[]>([]);
+  const [priceTiers, setPriceTiers] = useState<PriceTierDraft[]>([]);
   const [errors, setErrors] = useState<{[key: string]: string}>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [focusedInput, setFocusedInput] = useState<string | null>(null);
-  const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [images, setImages] = useState<ProductImageDraft[]>([]);
+  const [uploadProgress, setUploadProgress] = useState<Record<string, number>>({});
 
   useEffect(() => {
     loadProfile();
   }, []);
 
-  // Cleanup blob URLs on unmount (web only)
-  useEffect(() => {
-    return () => {
-      if (Platform.OS === 'web' && selectedImage && selectedImage.startsWith('blob:')) {
-        URL.revokeObjectURL(selectedImage);
-      }
-    };
-  }, [selectedImage]);
-
   const loadProfile = async () => {
     try {
       const userData = await getUserWithProfile();
@@ -87,7 +96,6 @@ export default function AddProductScreen() {
       console.error('Error loading profile:', error);
     }
   };
-  const [uploadingImage, setUploadingImage] = useState(false);
   const [confirmModal, setConfirmModal] = useState<{
     visible: boolean;
     title: string;
@@ -127,271 +135,24 @@ export default function AddProductScreen() {
       newErrors.description = 'Description is required';
     }
 
-    if (!formData.price || isNaN(parseFloat(formData.price)) || parseFloat(formData.price) <= 0) {
-      newErrors.price = 'Valid price is required';
-    }
-
-    if (!formData.quantity_available || isNaN(parseInt(formData.quantity_available)) || parseInt(formData.quantity_available) <= 0) {
-      newErrors.quantity_available = 'Valid quantity is required';
-    }
-
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
-  };
-
-  const pickImage = async () => {
-    try {
-      const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
-      if (status !== 'granted') {
-        Alert.alert('Permission needed', 'Sorry, we need camera roll permissions to add product images.');
-        return;
+    // With options, price and stock are set per option
+    if (variants.length === 0) {
+      if (!formData.price || isNaN(parseFloat(formData.price)) || parseFloat(formData.price) <= 0) {
+        newErrors.price = 'Valid price is required';
       }
 
-      const result = await ImagePicker.launchImageLibraryAsync({
-        mediaTypes: ['images'],
-        allowsEditing: true,
-        aspect: [1, 1],
-        quality: 0.8,
-      });
-
-      if (!result.canceled && result.assets[0]) {
-        setSelectedImage(result.assets[0].uri);
+      if (!formData.quantity_available || isNaN(parseInt(formData.quantity_available)) || parseInt(formData.quantity_available) <= 0) {
+        newErrors.quantity_available = 'Valid quantity is required';
       }
-    } catch (error) {
-      console.error('Error picking image:', error);
-      Alert.alert('Error', 'Failed to select image');
     }
-  };
-
-  const takePhoto = async () => {
-    try {
-      const { status } = await ImagePicker.requestCameraPermissionsAsync();
-      if (status !== 'granted') {
-        Alert.alert('Permission needed', 'Sorry, we need camera permissions to take product photos.');
-        return;
-      }
 
-      const result = await ImagePicker.launchCameraAsync({
-        allowsEditing: true,
-        aspect: [1, 1],
-        quality: 0.8,
-      });
-
-      if (!result.canceled && result.assets[0]) {
-        setSelectedImage(result.assets[0].uri);
-      }
-    } catch (error) {
-      console.error('Error taking photo:', error);
-      Alert.alert('Error', 'Failed to take photo');
+    const variantError = validateVariantDrafts(variants, priceTiers, parseFloat(formData.price));
+    if (variantError) {
+      newErrors.variants = variantError;
     }
-  };
-
-  const uploadImageWeb = async (file: File): Promise<string | null> => {
-    try {
-      setUploadingImage(true);
-      console.log('📤 Starting web upload for product image');
-
-      // Get session for authentication
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) {
-        throw new Error('Session expired. Please log in again.');
-      }
-
-      // Create a unique filename
-      const fileExt = file.name.split('.').pop();
-      const filename = `product_${Date.now()}_${Math.random().toString(36).substring(7)}.${fileExt}`;
-
-      // Read file as ArrayBuffer
-      const arrayBuffer = await file.arrayBuffer();
-      console.log('✅ Web file size:', (arrayBuffer.byteLength / (1024 * 1024)).toFixed(2) + 'MB');
-
-      // Upload using fetch API with ArrayBuffer
-      const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL || '';
-      const uploadUrl = `${supabaseUrl}/storage/v1/object/product-images/${filename}`;
-
-      const response = await fetch(uploadUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${session.access_token}`,
-          'Content-Type': file.type,
-          'x-upsert': 'false',
-        },
-        body: arrayBuffer,
-      });
-
-      console.log('📡 Upload response:', response.status);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('❌ Upload failed:', errorText);
-        throw new Error(`Upload failed: ${response.status}`);
-      }
-
-      console.log('✅ Product image uploaded successfully');
-
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('product-images')
-        .getPublicUrl(filename);
-
-      return publicUrl;
-    } catch (error) {
-      console.error('Error uploading image:', error);
-      Alert.alert('Error', 'Failed to upload image');
-      return null;
-    } finally {
-      setUploadingImage(false);
-    }
-  };
-
-  const uploadImage = async (imageUri: string): Promise<string | null> => {
-    try {
-      setUploadingImage(true);
-      console.log('📤 Starting upload for product image');
-      console.log('Platform:', Platform.OS);
-      console.log('URI:', imageUri.substring(0, 50) + '...');
-
-      // Get session for authentication
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) {
-        throw new Error('Session expired. Please log in again.');
-      }
-
-      // Create a unique filename
-      const filename = `product_${Date.now()}_${Math.random().toString(36).substring(7)}.jpg`;
-      const contentType = 'image/jpeg';
-      let arrayBuffer: ArrayBuffer;
-
-      // Handle file reading differently for web vs mobile
-      if (Platform.OS === 'web') {
-        console.log('📖 Reading file for web...');
-        const response = await fetch(imageUri);
-        const blob = await response.blob();
-        arrayBuffer = await blob.arrayBuffer();
-        console.log('✅ Web file size:', (arrayBuffer.byteLength / (1024 * 1024)).toFixed(2) + 'MB');
-      } else {
-        console.log('📖 Reading file for mobile...');
-        try {
-          // On mobile, use FileSystem
-          const fileInfo = await FileSystem.getInfoAsync(imageUri);
-          console.log('📁 File info:', fileInfo);
-
-          if (fileInfo.exists && 'size' in fileInfo) {
-            console.log('📁 Mobile file size:', (fileInfo.size / (1024 * 1024)).toFixed(2) + 'MB');
-          }
-
-          console.log('📖 Reading file as base64...');
-          const base64 = await FileSystem.readAsStringAsync(imageUri, {
-            encoding: FileSystem.EncodingType.Base64,
-          });
-          console.log('✅ Base64 length:', base64.length);
-
-          console.log('🔄 Decoding base64 to ArrayBuffer...');
-          arrayBuffer = decode(base64);
-          console.log('✅ ArrayBuffer created, size:', arrayBuffer.byteLength);
-        } catch (fileError) {
-          console.error('❌ File reading error:', fileError);
-          throw new Error(`Failed to read image file: ${fileError instanceof Error ? fileError.message : 'Unknown error'}`);
-        }
-      }
-
-      console.log('✅ ArrayBuffer size:', arrayBuffer.byteLength, 'bytes');
-      console.log('📤 Uploading to Supabase Storage...');
-
-      // Upload using fetch API with ArrayBuffer - direct upload method
-      const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL || '';
-      const uploadUrl = `${supabaseUrl}/storage/v1/object/product-images/${filename}`;
-
-      console.log('📡 Upload URL:', uploadUrl);
-
-      const response = await fetch(uploadUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${session.access_token}`,
-          'Content-Type': contentType,
-          'x-upsert': 'false',
-        },
-        body: arrayBuffer,
-      });
-
-      console.log('📡 Upload response status:', response.status);
-      console.log('📡 Upload response ok:', response.ok);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('❌ Upload failed with status:', response.status);
-        console.error('❌ Upload error details:', errorText);
-        Alert.alert('Upload Error', `Failed to upload image: ${response.status}. ${errorText}`);
-        throw new Error(`Upload failed: ${response.status} - ${errorText}`);
-      }
-
-      console.log('✅ Product image uploaded successfully');
-
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('product-images')
-        .getPublicUrl(filename);
-
-      return publicUrl;
-    } catch (error) {
-      console.error('❌ Error uploading image:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      console.error('❌ Error details:', errorMessage);
-      Alert.alert('Upload Failed', `Failed to upload image: ${errorMessage}`);
-      return null;
-    } finally {
-      setUploadingImage(false);
-    }
-  };
-
-  const pickWebImage = async () => {
-    // Only available on web platform
-    if (Platform.OS !== 'web') return;
-
-    // Create a file input element for web
-    const input = document.createElement('input');
-    input.type = 'file';
-    input.accept = 'image/*';
-    input.onchange = async (event) => {
-      const file = (event.target as HTMLInputElement).files?.[0];
-      if (file) {
-        // Check file size (limit to 10MB)
-        if (file.size > 10 * 1024 * 1024) {
-          Alert.alert('File Too Large', 'Please select an image smaller than 10MB.');
-          return;
-        }
-
-        // Check file type
-        if (!file.type.startsWith('image/')) {
-          Alert.alert('Invalid File', 'Please select an image file.');
-          return;
-        }
-
-        // Upload the file directly
-        const publicUrl = await uploadImageWeb(file);
-
-        if (publicUrl) {
-          setSelectedImage(publicUrl);
-        }
-      }
-    };
-    input.click();
-  };
 
-  const showImageOptions = () => {
-    if (Platform.OS === 'web') {
-      pickWebImage();
-    } else {
-      Alert.alert(
-        'Add Product Image',
-        'Choose how you want to add a product image',
-        [
-          { text: 'Camera', onPress: takePhoto },
-          { text: 'Photo Library', onPress: pickImage },
-          { text: 'Cancel', style: 'cancel' },
-        ]
-      );
-    }
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
   };
 
   const handleSubmit = async () => {
@@ -401,12 +162,17 @@ export default function AddProductScreen() {
 
     // Show confirmation modal
     const productName = formData.name.trim() || 'this product';
-    const price = parseFloat(formData.price) || 0;
+    const pricing = variants.length > 0
+      ? summarizeVariantDrafts(variants)
+      : { price: parseFloat(formData.price) || 0, unit: formData.unit };
+    const priceLabel = variants.length > 0
+      ? `${variants.length} options from ₱${pricing.price}/${pricing.unit}`
+      : `₱${pricing.price}/${pricing.unit}`;
 
     setConfirmModal({
       visible: true,
       title: 'Add Product?',
-      message: `Are you sure you want to add "${productName}" for ₱${price}/${formData.unit}? It will be submitted for admin review before appearing in the marketplace.`,
+      message: `Are you sure you want to add "${productName}" for ${priceLabel}? It will be submitted for admin review before appearing in the marketplace.`,
       isDestructive: false,
       confirmText: 'Add Product',
       onConfirm: () => {
@@ -416,6 +182,32 @@ export default function AddProductScreen() {
     });
   };
 
+  // No signal: keep the listing on the device and let offlineSync upload the photos and submit it later
+  const queueOfflineProduct = async (product: NewProductData, queuedImages: ProductImageDraft[]) => {
+    const result = await offlineSync.enqueue({
+      kind: 'product_create',
+      product,
+      images: queuedImages,
+      variants: toVariantInputs(variants),
+      priceTiers: toPriceTiers(priceTiers),
+    });
+    if (result === 'failed') {
+      throw new Error('Failed to save product offline');
+    }
+
+    setSuccessModal({
+      visible: true,
+      title: result === 'synced' ? 'Success!' : 'Saved Offline',
+      message: result === 'synced'
+        ? 'Product added successfully! You will be notified once it is reviewed.'
+        : 'Product saved on this device. It will be submitted for review when you are back online.',
+      onConfirm: () => {
+        setSuccessModal(prev => ({ ...prev, visible: false }));
+        router.back();
+      }
+    });
+  };
+
   const processSubmit = async () => {
     setIsSubmitting(true);
 
@@ -425,40 +217,64 @@ export default function AddProductScreen() {
         throw new Error('User not authenticated');
       }
 
-      let imageUrl = null;
-      if (selectedImage) {
-        // Check if image is already a URL (web) or needs upload (mobile)
-        if (selectedImage.startsWith('http://') || selectedImage.startsWith('https://')) {
-          // Already uploaded (web)
-          imageUrl = selectedImage;
-        } else {
-          // Need to upload (mobile)
-          imageUrl = await uploadImage(selectedImage);
-          if (!imageUrl) {
-            throw new Error('Failed to upload image');
-          }
-        }
-      }
+      const pricing = variants.length > 0
+        ? summarizeVariantDrafts(variants)
+        : {
+          price: parseFloat(formData.price),
+          unit: formData.unit,
+          quantity_available: parseInt(formData.quantity_available),
+        };
 
-      const productData = {
+      const productData: NewProductData = {
+        id: generateOfflineId(),
         farmer_id: userData.user.id,
         name: formData.name.trim(),
         description: formData.description.trim(),
-        price: parseFloat(formData.price),
-        unit: formData.unit,
-        quantity_available: parseInt(formData.quantity_available),
+        price: pricing.price,
+        unit: pricing.unit,
+        quantity_available: pricing.quantity_available,
         category: formData.category,
         status: 'pending' as const,
-        image_url: imageUrl,
+        image_url: null,
       };
 
+      // Web can't keep a picked file around, so offline listings are mobile only
+      if (Platform.OS !== 'web' && realtimeManager.getConnectionState() === 'DISCONNECTED') {
+        await queueOfflineProduct(productData, images);
+        return;
+      }
+
+      const uploadedImages = await uploadImageDrafts(images, (key, fraction) =>
+        setUploadProgress(prev => ({ ...prev, [key]: fraction }))
+      );
+
       const { data: insertedProduct, error } = await (supabase as any)
         .from('products')
         .insert(productData)
         .select()
         .single();
 
-      if (error) throw error;
+      if (error) {
+        // Connection dropped mid-submit: the photos are already uploaded, queue the rest
+        if (Platform.OS !== 'web' && isNetworkError(error)) {
+          realtimeManager.markDisconnected();
+          await queueOfflineProduct(
+            productData,
+            images.map((draft, index) => ({ ...draft, uploaded: uploadedImages[index] }))
+          );
+          return;
+        }
+        await discardUploadedImages(uploadedImages);
+        throw error;
+      }
+
+      if (uploadedImages.length > 0) {
+        await saveProductImages(insertedProduct.id, uploadedImages);
+      }
+
+      if (variants.length > 0 || priceTiers.length > 0) {
+        await saveProductVariants(insertedProduct.id, toVariantInputs(variants), toPriceTiers(priceTiers));
+      }
 
       // Send notifications about product creation
       try {
@@ -498,6 +314,7 @@ export default function AddProductScreen() {
       Alert.alert('Error', 'Failed to add product. Please try again.');
     } finally {
       setIsSubmitting(false);
+      setUploadProgress({});
     }
   };
 
@@ -590,6 +407,11 @@ export default function AddProductScreen() {
     );
   }
 
+  // With options, the cheapest one is compared with the market
+  const marketPricing = variants.length > 0
+    ? summarizeVariantDrafts(variants)
+    : { price: parseFloat(formData.price) || 0, unit: formData.unit };
+
   return (
     <VerificationGuard
       userId={profile.id}
@@ -620,37 +442,13 @@ export default function AddProductScreen() {
 
           {/* Image Section */}
           <View style={styles.inputContainer}>
-            <Text style={styles.inputLabel}>Product Image</Text>
-            <TouchableOpacity
-              style={styles.imagePickerButton}
-              onPress={showImageOptions}
-              disabled={uploadingImage}
-            >
-              {selectedImage ? (
-                <View style={styles.imagePreviewContainer}>
-                  <Image source={{ uri: selectedImage }} style={styles.imagePreview} />
-                  <View style={styles.imageOverlay}>
-                    <Text style={styles.changeImageText}>Tap to change</Text>
-                  </View>
-                </View>
-              ) : (
-                <View style={styles.imagePlaceholder}>
-                  <Text style={styles.imagePlaceholderIcon}>📷</Text>
-                  <Text style={styles.imagePlaceholderText}>Add Product Photo</Text>
-                  <Text style={styles.imagePlaceholderSubtext}>
-                    {Platform.OS === 'web'
-                      ? 'Click to select image file from your computer'
-                      : 'Tap to select from gallery or take photo'}
-                  </Text>
-                </View>
-              )}
-              {uploadingImage && (
-                <View style={styles.uploadingOverlay}>
-                  <ActivityIndicator size="large" color="#10b981" />
-                  <Text style={styles.uploadingText}>Uploading...</Text>
-                </View>
-              )}
-            </TouchableOpacity>
+            <Text style={styles.inputLabel}>Product Photos</Text>
+            <ProductImagesEditor
+              images={images}
+              onChange={setImages}
+              progress={uploadProgress}
+              disabled={isSubmitting}
+            />
           </View>
 
           {renderInput('name', 'Product Name')}
@@ -659,50 +457,74 @@ export default function AddProductScreen() {
             numberOfLines: 4,
           })}
 
-          <View style={styles.row}>
-            <View style={[styles.inputContainer, { flex: 1, marginRight: 12 }]}>
-              <Text style={styles.inputLabel}>
-                Price
-                <Text style={styles.requiredStar}> *</Text>
-              </Text>
-              <View style={styles.priceInputContainer}>
-                <Text style={styles.currencySymbol}>₱</Text>
-                <TextInput
-                  style={[
-                    styles.input,
-                    styles.priceInput,
-                    focusedInput === 'price' && styles.inputFocused,
-                    errors.price && styles.inputError,
-                  ]}
-                  value={formData.price}
-                  onChangeText={(text) => {
-                    setFormData(prev => ({ ...prev, price: text }));
-                    if (errors.price) {
-                      setErrors(prev => ({ ...prev, price: '' }));
-                    }
-                  }}
-                  placeholder="0.00"
-                  placeholderTextColor="#9ca3af"
-                  onFocus={() => setFocusedInput('price')}
-                  onBlur={() => setFocusedInput(null)}
-                  keyboardType="decimal-pad"
-                />
+          {variants.length === 0 && (
+            <View style={styles.row}>
+              <View style={[styles.inputContainer, { flex: 1, marginRight: 12 }]}>
+                <Text style={styles.inputLabel}>
+                  Price
+                  <Text style={styles.requiredStar}> *</Text>
+                </Text>
+                <View style={styles.priceInputContainer}>
+                  <Text style={styles.currencySymbol}>₱</Text>
+                  <TextInput
+                    style={[
+                      styles.input,
+                      styles.priceInput,
+                      focusedInput === 'price' && styles.inputFocused,
+                      errors.price && styles.inputError,
+                    ]}
+                    value={formData.price}
+                    onChangeText={(text) => {
+                      setFormData(prev => ({ ...prev, price: text }));
+                      if (errors.price) {
+                        setErrors(prev => ({ ...prev, price: '' }));
+                      }
+                    }}
+                    placeholder="0.00"
+                    placeholderTextColor="#9ca3af"
+                    onFocus={() => setFocusedInput('price')}
+                    onBlur={() => setFocusedInput(null)}
+                    keyboardType="decimal-pad"
+                  />
+                </View>
+                {errors.price && (
+                  <Text style={styles.errorText}>{errors.price}</Text>
+                )}
               </View>
-              {errors.price && (
-                <Text style={styles.errorText}>{errors.price}</Text>
-              )}
-            </View>
 
-            <View style={[styles.inputContainer, { flex: 1, marginLeft: 12 }]}>
-              {renderInput('quantity_available', 'Quantity', {
-                keyboardType: 'numeric',
-              })}
+              <View style={[styles.inputContainer, { flex: 1, marginLeft: 12 }]}>
+                {renderInput('quantity_available', 'Quantity', {
+                  keyboardType: 'numeric',
+                })}
+              </View>
             </View>
-          </View>
-
-          {renderSelector('unit', 'Unit', UNITS)}
+          )}
+
+          {variants.length === 0 && renderSelector('unit', 'Unit', UNITS)}
+          <MarketPriceHint
+            crop={formData.name}
+            unit={marketPricing.unit}
+            price={marketPricing.price}
+            barangay={profile?.barangay}
+          />
           {renderSelector('category', 'Category', CATEGORIES)}
 
+          <ProductVariantsEditor
+            variants={variants}
+            priceTiers={priceTiers}
+            units={UNITS}
+            defaultUnit={formData.unit}
+            baseUnit={formData.unit}
+            onChange={(nextVariants, nextTiers) => {
+              setVariants(nextVariants);
+              setPriceTiers(nextTiers);
+              if (errors.variants) {
+                setErrors(prev => ({ ...prev, variants: '' }));
+              }
+            }}
+            error={errors.variants}
+          />
+
           <View style={styles.infoBox}>
             <Text style={styles.infoTitle}>📋 Review Process</Text>
             <Text style={styles.infoText}>
@@ -982,75 +804,4 @@ const styles = StyleSheet.create({
     color: '#ffffff',
     letterSpacing: 0.5,
   },
-  // Image Picker Styles
-  imagePickerButton: {
-    borderWidth: 2,
-    borderColor: '#e5e7eb',
-    borderRadius: 12,
-    borderStyle: 'dashed',
-    backgroundColor: '#ffffff',
-    overflow: 'hidden',
-  },
-  imagePlaceholder: {
-    alignItems: 'center',
-    justifyContent: 'center',
-    paddingVertical: 48,
-    paddingHorizontal: 24,
-  },
-  imagePlaceholderIcon: {
-    fontSize: 48,
-    marginBottom: 16,
-  },
-  imagePlaceholderText: {
-    fontSize: 18,
-    fontWeight: '600',
-    color: '#374151',
-    marginBottom: 8,
-  },
-  imagePlaceholderSubtext: {
-    fontSize: 14,
-    color: '#6b7280',
-    textAlign: 'center',
-    lineHeight: 20,
-  },
-  imagePreviewContainer: {
-    position: 'relative',
-    aspectRatio: 1,
-    width: '100%',
-  },
-  imagePreview: {
-    width: '100%',
-    height: '100%',
-    resizeMode: 'cover',
-  },
-  imageOverlay: {
-    position: 'absolute',
-    bottom: 0,
-    left: 0,
-    right: 0,
-    backgroundColor: 'rgba(0, 0, 0, 0.7)',
-    paddingVertical: 12,
-    alignItems: 'center',
-  },
-  changeImageText: {
-    color: '#ffffff',
-    fontSize: 14,
-    fontWeight: '600',
-  },
-  uploadingOverlay: {
-    position: 'absolute',
-    top: 0,
-    left: 0,
-    right: 0,
-    bottom: 0,
-    backgroundColor: 'rgba(255, 255, 255, 0.9)',
-    alignItems: 'center',
-    justifyContent: 'center',
-  },
-  uploadingText: {
-    marginTop: 12,
-    fontSize: 16,
-    fontWeight: '600',
-    color: '#10b981',
-  },
 });
\ No newline at end of file
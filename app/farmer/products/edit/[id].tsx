@@ -10,20 +10,36 @@ import {
   KeyboardAvoidingView,
   Platform,
   Dimensions,
-  Image,
   ActivityIndicator,
 } from 'react-native';
 import { router, useLocalSearchParams } from 'expo-router';
-import * as ImagePicker from 'expo-image-picker';
-import * as FileSystem from 'expo-file-system/legacy';
-import { decode } from 'base64-arraybuffer';
 import ConfirmationModal from '../../../../components/ConfirmationModal';
 import { useCustomAlert } from '../../../../components/CustomAlert';
 import HeaderComponent from '../../../../components/HeaderComponent';
+import MarketPriceHint from '../../../../components/MarketPriceHint';
+import ProductImagesEditor from '../../../../components/ProductImagesEditor';
+import ProductVariantsEditor, {
+  PriceTierDraft,
+  summarizeVariantDrafts,
+  toPriceTiers,
+  toVariantDrafts,
+  toVariantInputs,
+  validateVariantDrafts,
+  VariantDraft,
+} from '../../../../components/ProductVariantsEditor';
 import VerificationGuard from '../../../../components/VerificationGuard';
 import { supabase } from '../../../../lib/supabase';
 import { getUserWithProfile } from '../../../../services/auth';
 import { notifyAllAdmins } from '../../../../services/notifications';
+import {
+  discardUploadedImages,
+  getProductImages,
+  ProductImageDraft,
+  saveProductImages,
+  toImageDrafts,
+  uploadImageDrafts,
+} from '../../../../services/productMedia';
+import { getProductVariants, saveProductVariants } from '../../../../services/products';
 import { Database } from '../../../../types/database';
 
 type Profile = Database['public']['Tables']['profiles']['Row'];
@@ -78,13 +94,16 @@ export default function EditProductScreen() {
     quantity_available: '',
     category: 'Vegetables',
   });
+  const [variants, setVariants] = useState<VariantDraft[]>([]);
+  const [priceTiers, setPriceTiers] = useState<PriceTierDraft[]>([]);
+  // Saved options or bulk prices exist, so clearing the editor has to be saved too
+  const [hadPricing, setHadPricing] = useState(false);
   const [errors, setErrors] = useState<{[key: string]: string}>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [focusedInput, setFocusedInput] = useState<string | null>(null);
-  const [selectedImage, setSelectedImage] = useState<string | null>(null);
-  const [webImageFile, setWebImageFile] = useState<File | null>(null);
-  const [uploadingImage, setUploadingImage] = useState(false);
-  const [imageChanged, setImageChanged] = useState(false);
+  const [images, setImages] = useState<ProductImageDraft[]>([]);
+  const [imagesChanged, setImagesChanged] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<Record<string, number>>({});
   const [confirmModal, setConfirmModal] = useState<{
     visible: boolean;
     title: string;
@@ -150,7 +169,12 @@ export default function EditProductScreen() {
         quantity_available: data.quantity_available.toString(),
         category: data.category,
       });
-      setSelectedImage(data.image_url);
+      setImages(toImageDrafts(await getProductImages(id)));
+
+      const drafts = toVariantDrafts(await getProductVariants(id));
+      setVariants(drafts.variants);
+      setPriceTiers(drafts.priceTiers);
+      setHadPricing(drafts.variants.length > 0 || drafts.priceTiers.length > 0);
     } catch (err) {
       console.error('Product fetch error:', err);
       Alert.alert('Error', 'Failed to load product');
@@ -171,212 +195,24 @@ export default function EditProductScreen() {
       newErrors.description = 'Description is required';
     }
 
-    if (!formData.price || isNaN(parseFloat(formData.price)) || parseFloat(formData.price) <= 0) {
-      newErrors.price = 'Valid price is required';
-    }
-
-    if (!formData.quantity_available || isNaN(parseInt(formData.quantity_available)) || parseInt(formData.quantity_available) <= 0) {
-      newErrors.quantity_available = 'Valid quantity is required';
-    }
-
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
-  };
-
-  const pickImage = async () => {
-    try {
-      const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
-      if (status !== 'granted') {
-        Alert.alert('Permission needed', 'Sorry, we need camera roll permissions to add product images.');
-        return;
+    // With options, price and stock are set per option
+    if (variants.length === 0) {
+      if (!formData.price || isNaN(parseFloat(formData.price)) || parseFloat(formData.price) <= 0) {
+        newErrors.price = 'Valid price is required';
       }
 
-      const result = await ImagePicker.launchImageLibraryAsync({
-        mediaTypes: ['images'],
-        allowsEditing: true,
-        aspect: [1, 1],
-        quality: 0.8,
-      });
-
-      if (!result.canceled && result.assets[0]) {
-        setSelectedImage(result.assets[0].uri);
-        setImageChanged(true);
+      if (!formData.quantity_available || isNaN(parseInt(formData.quantity_available)) || parseInt(formData.quantity_available) <= 0) {
+        newErrors.quantity_available = 'Valid quantity is required';
       }
-    } catch (error) {
-      console.error('Error picking image:', error);
-      Alert.alert('Error', 'Failed to select image');
     }
-  };
-
-  const takePhoto = async () => {
-    try {
-      const { status } = await ImagePicker.requestCameraPermissionsAsync();
-      if (status !== 'granted') {
-        Alert.alert('Permission needed', 'Sorry, we need camera permissions to take product photos.');
-        return;
-      }
-
-      const result = await ImagePicker.launchCameraAsync({
-        allowsEditing: true,
-        aspect: [1, 1],
-        quality: 0.8,
-      });
-
-      if (!result.canceled && result.assets[0]) {
-        setSelectedImage(result.assets[0].uri);
-        setImageChanged(true);
-      }
-    } catch (error) {
-      console.error('Error taking photo:', error);
-      Alert.alert('Error', 'Failed to take photo');
-    }
-  };
-
-  const uploadImage = async (imageUri: string): Promise<string | null> => {
-    try {
-      setUploadingImage(true);
-      console.log('📤 Uploading product image...');
-
-      // Check authentication
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) {
-        showAlert('Error', 'You must be logged in to upload images', [
-          { text: 'OK', style: 'default' }
-        ]);
-        return null;
-      }
-
-      // Get file extension
-      const uriWithoutParams = imageUri.split('?')[0].split('#')[0];
-      const parts = uriWithoutParams.split('.');
-      const fileExt = parts.length > 1 ? parts[parts.length - 1].toLowerCase() : 'jpg';
-      const validExtensions = ['jpg', 'jpeg', 'png', 'gif', 'webp'];
-      const finalExt = validExtensions.includes(fileExt) ? fileExt : 'jpg';
-
-      const filename = `${Date.now()}_${Math.random().toString(36).substring(7)}.${finalExt}`;
-      const filePath = `products/${filename}`;
-
-      const mimeTypes: { [key: string]: string } = {
-        'jpg': 'image/jpeg',
-        'jpeg': 'image/jpeg',
-        'png': 'image/png',
-        'gif': 'image/gif',
-        'webp': 'image/webp',
-      };
-      const contentType = mimeTypes[finalExt] || 'image/jpeg';
-
-      let arrayBuffer: ArrayBuffer;
-
-      // Handle file reading differently for web vs mobile
-      if (Platform.OS === 'web') {
-        console.log('📖 Reading file for web...');
-        // Use stored web file if available
-        if (webImageFile) {
-          arrayBuffer = await webImageFile.arrayBuffer();
-        } else {
-          // Fallback to fetch the blob URL
-          const response = await fetch(imageUri);
-          const blob = await response.blob();
-          arrayBuffer = await blob.arrayBuffer();
-        }
-        console.log('✅ Web file size:', (arrayBuffer.byteLength / (1024 * 1024)).toFixed(2) + 'MB');
-      } else {
-        console.log('📖 Reading file for mobile...');
-        // On mobile, use FileSystem
-        const fileInfo = await FileSystem.getInfoAsync(imageUri);
-        if (fileInfo.exists && 'size' in fileInfo) {
-          console.log('📁 Mobile file size:', (fileInfo.size / (1024 * 1024)).toFixed(2) + 'MB');
-        }
-
-        const base64 = await FileSystem.readAsStringAsync(imageUri, {
-          encoding: FileSystem.EncodingType.Base64,
-        });
-        arrayBuffer = decode(base64);
-      }
-
-      console.log('✅ ArrayBuffer size:', arrayBuffer.byteLength, 'bytes');
-      console.log('📤 Uploading to Supabase Storage...');
-
-      // Upload using fetch API with ArrayBuffer
-      const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL || '';
-      const uploadUrl = `${supabaseUrl}/storage/v1/object/product-images/${filePath}`;
-
-      const uploadResponse = await fetch(uploadUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${session.access_token}`,
-          'Content-Type': contentType,
-          'x-upsert': 'false',
-        },
-        body: arrayBuffer,
-      });
-
-      console.log('📡 Upload response:', uploadResponse.status);
-
-      if (!uploadResponse.ok) {
-        const errorText = await uploadResponse.text();
-        console.error('❌ Upload failed:', errorText);
-        showAlert('Upload Error', `Failed to upload image (${uploadResponse.status})`, [
-          { text: 'OK', style: 'default' }
-        ]);
-        return null;
-      }
-
-      console.log('✅ Product image uploaded successfully');
-
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('product-images')
-        .getPublicUrl(filePath);
 
-      console.log('🔗 Public URL:', publicUrl);
-      return publicUrl;
-    } catch (error: any) {
-      console.error('Error uploading image:', error);
-      showAlert('Error', error.message || 'Failed to upload image', [
-        { text: 'OK', style: 'default' }
-      ]);
-      return null;
-    } finally {
-      setUploadingImage(false);
+    const variantError = validateVariantDrafts(variants, priceTiers, parseFloat(formData.price));
+    if (variantError) {
+      newErrors.variants = variantError;
     }
-  };
 
-  const showImageOptions = () => {
-    if (Platform.OS === 'web') {
-      const input = document.createElement('input');
-      input.type = 'file';
-      input.accept = 'image/*';
-      input.onchange = (event) => {
-        const file = (event.target as HTMLInputElement).files?.[0];
-        if (file) {
-          if (file.size > 5 * 1024 * 1024) {
-            Alert.alert('Error', 'Image size must be less than 5MB');
-            return;
-          }
-          if (!file.type.startsWith('image/')) {
-            Alert.alert('Error', 'Please select a valid image file');
-            return;
-          }
-          const imageUrl = URL.createObjectURL(file);
-          setSelectedImage(imageUrl);
-          setWebImageFile(file);
-          setImageChanged(true);
-        }
-      };
-      input.click();
-    } else {
-      Alert.alert(
-        'Change Product Image',
-        'Choose how you want to change the product image',
-        [
-          { text: 'Camera', onPress: takePhoto },
-          { text: 'Photo Library', onPress: pickImage },
-          { text: 'Remove Image', onPress: () => { setSelectedImage(null); setImageChanged(true); }, style: 'destructive' },
-          { text: 'Cancel', style: 'cancel' },
-        ]
-      );
-    }
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
   };
 
   const handleSubmit = async () => {
@@ -401,28 +237,29 @@ export default function EditProductScreen() {
     setIsSubmitting(true);
 
     try {
-      let imageUrl = product.image_url;
-
-      if (imageChanged) {
-        if (selectedImage) {
-          const newImageUrl = await uploadImage(selectedImage);
-          if (!newImageUrl) {
-            throw new Error('Failed to upload image');
-          }
-          imageUrl = newImageUrl;
-        } else {
-          imageUrl = null;
-        }
-      }
+      // Only photos added in this edit are uploaded; the gallery is saved after the product
+      const uploadedImages = imagesChanged
+        ? await uploadImageDrafts(images, (key, fraction) =>
+          setUploadProgress(prev => ({ ...prev, [key]: fraction }))
+        )
+        : null;
+      const newImages = (uploadedImages || []).filter((_, index) => !images[index].uploaded);
+
+      const pricing = variants.length > 0
+        ? summarizeVariantDrafts(variants)
+        : {
+          price: parseFloat(formData.price),
+          unit: formData.unit,
+          quantity_available: parseInt(formData.quantity_available),
+        };
 
       const updatedData = {
         name: formData.name.trim(),
         description: formData.description.trim(),
-        price: parseFloat(formData.price),
-        unit: formData.unit,
-        quantity_available: parseInt(formData.quantity_available),
+        price: pricing.price,
+        unit: pricing.unit,
+        quantity_available: pricing.quantity_available,
         category: formData.category,
-        image_url: imageUrl,
         status: product.status === 'rejected' ? 'pending' : product.status,
         updated_at: new Date().toISOString(),
       };
@@ -433,7 +270,18 @@ export default function EditProductScreen() {
         .eq('id', id)
         .eq('farmer_id', profile.id);
 
-      if (error) throw error;
+      if (error) {
+        await discardUploadedImages(newImages);
+        throw error;
+      }
+
+      if (uploadedImages) {
+        await saveProductImages(id, uploadedImages);
+      }
+
+      if (hadPricing || variants.length > 0 || priceTiers.length > 0) {
+        await saveProductVariants(id, toVariantInputs(variants), toPriceTiers(priceTiers));
+      }
 
       // Send notifications to admins about product update
       try {
@@ -469,6 +317,7 @@ export default function EditProductScreen() {
       ]);
     } finally {
       setIsSubmitting(false);
+      setUploadProgress({});
     }
   };
 
@@ -596,6 +445,11 @@ export default function EditProductScreen() {
     );
   }
 
+  // With options, the cheapest one is compared with the market
+  const marketPricing = variants.length > 0
+    ? summarizeVariantDrafts(variants)
+    : { price: parseFloat(formData.price) || 0, unit: formData.unit };
+
   return (
     <VerificationGuard userId={profile.id} userType="farmer" action="sell">
       <KeyboardAvoidingView style={styles.container} behavior={Platform.OS === 'ios' ? 'padding' : 'height'}>
@@ -620,75 +474,85 @@ export default function EditProductScreen() {
             )}
 
             <View style={styles.inputContainer}>
-              <Text style={styles.inputLabel}>Product Image</Text>
-              <TouchableOpacity style={styles.imagePickerButton} onPress={showImageOptions} disabled={uploadingImage}>
-                {selectedImage ? (
-                  <View style={styles.imagePreviewContainer}>
-                    <Image source={{ uri: selectedImage }} style={styles.imagePreview} />
-                    <View style={styles.imageOverlay}>
-                      <Text style={styles.changeImageText}>Tap to change</Text>
-                    </View>
-                  </View>
-                ) : (
-                  <View style={styles.imagePlaceholder}>
-                    <Text style={styles.imagePlaceholderIcon}>📷</Text>
-                    <Text style={styles.imagePlaceholderText}>Add Product Photo</Text>
-                    <Text style={styles.imagePlaceholderSubtext}>
-                      {Platform.OS === 'web' ? 'Click to select image file' : 'Tap to select from gallery or take photo'}
-                    </Text>
-                  </View>
-                )}
-                {uploadingImage && (
-                  <View style={styles.uploadingOverlay}>
-                    <ActivityIndicator size="large" color="#10b981" />
-                    <Text style={styles.uploadingText}>Uploading...</Text>
-                  </View>
-                )}
-              </TouchableOpacity>
+              <Text style={styles.inputLabel}>Product Photos</Text>
+              <ProductImagesEditor
+                images={images}
+                onChange={(next) => {
+                  setImages(next);
+                  setImagesChanged(true);
+                }}
+                progress={uploadProgress}
+                disabled={isSubmitting}
+              />
             </View>
 
             {renderInput('name', 'Product Name')}
             {renderInput('description', 'Description', { multiline: true, numberOfLines: 4 })}
 
-            <View style={styles.row}>
-              <View style={[styles.inputContainer, { flex: 1, marginRight: 12 }]}>
-                <Text style={styles.inputLabel}>
-                  Price<Text style={styles.requiredStar}> *</Text>
-                </Text>
-                <View style={styles.priceInputContainer}>
-                  <Text style={styles.currencySymbol}>₱</Text>
-                  <TextInput
-                    style={[
-                      styles.input,
-                      styles.priceInput,
-                      focusedInput === 'price' && styles.inputFocused,
-                      errors.price && styles.inputError,
-                    ]}
-                    value={formData.price}
-                    onChangeText={(text) => {
-                      setFormData(prev => ({ ...prev, price: text }));
-                      if (errors.price) {
-                        setErrors(prev => ({ ...prev, price: '' }));
-                      }
-                    }}
-                    placeholder="0.00"
-                    placeholderTextColor="#9ca3af"
-                    onFocus={() => setFocusedInput('price')}
-                    onBlur={() => setFocusedInput(null)}
-                    keyboardType="decimal-pad"
-                  />
+            {variants.length === 0 && (
+              <View style={styles.row}>
+                <View style={[styles.inputContainer, { flex: 1, marginRight: 12 }]}>
+                  <Text style={styles.inputLabel}>
+                    Price<Text style={styles.requiredStar}> *</Text>
+                  </Text>
+                  <View style={styles.priceInputContainer}>
+                    <Text style={styles.currencySymbol}>₱</Text>
+                    <TextInput
+                      style={[
+                        styles.input,
+                        styles.priceInput,
+                        focusedInput === 'price' && styles.inputFocused,
+                        errors.price && styles.inputError,
+                      ]}
+                      value={formData.price}
+                      onChangeText={(text) => {
+                        setFormData(prev => ({ ...prev, price: text }));
+                        if (errors.price) {
+                          setErrors(prev => ({ ...prev, price: '' }));
+                        }
+                      }}
+                      placeholder="0.00"
+                      placeholderTextColor="#9ca3af"
+                      onFocus={() => setFocusedInput('price')}
+                      onBlur={() => setFocusedInput(null)}
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+                  {errors.price && <Text style={styles.errorText}>{errors.price}</Text>}
                 </View>
-                {errors.price && <Text style={styles.errorText}>{errors.price}</Text>}
-              </View>
 
-              <View style={[styles.inputContainer, { flex: 1, marginLeft: 12 }]}>
-                {renderInput('quantity_available', 'Quantity', { keyboardType: 'numeric' })}
+                <View style={[styles.inputContainer, { flex: 1, marginLeft: 12 }]}>
+                  {renderInput('quantity_available', 'Quantity', { keyboardType: 'numeric' })}
+                </View>
               </View>
-            </View>
+            )}
 
-            {renderSelector('unit', 'Unit', UNITS)}
+            {variants.length === 0 && renderSelector('unit', 'Unit', UNITS)}
+            <MarketPriceHint
+              crop={formData.name}
+              unit={marketPricing.unit}
+              price={marketPricing.price}
+              barangay={profile?.barangay}
+              excludeProductId={id}
+            />
             {renderSelector('category', 'Category', CATEGORIES)}
 
+            <ProductVariantsEditor
+              variants={variants}
+              priceTiers={priceTiers}
+              units={UNITS}
+              defaultUnit={formData.unit}
+              baseUnit={formData.unit}
+              onChange={(nextVariants, nextTiers) => {
+                setVariants(nextVariants);
+                setPriceTiers(nextTiers);
+                if (errors.variants) {
+                  setErrors(prev => ({ ...prev, variants: '' }));
+                }
+              }}
+              error={errors.variants}
+            />
+
             <View style={styles.infoBox}>
               <Text style={styles.infoTitle}>📝 Update Notes</Text>
               <Text style={styles.infoText}>
@@ -766,15 +630,4 @@ const styles = StyleSheet.create({
   submitButton: { flex: 2, paddingVertical: 16, borderRadius: 12, alignItems: 'center', backgroundColor: '#10b981', shadowColor: '#10b981', shadowOffset: { width: 0, height: 4 }, shadowOpacity: 0.3, shadowRadius: 8, elevation: 4 },
   submitButtonDisabled: { backgroundColor: '#9ca3af', shadowOpacity: 0, elevation: 0 },
   submitButtonText: { fontSize: 16, fontWeight: '700', color: '#ffffff', letterSpacing: 0.5 },
-  imagePickerButton: { borderWidth: 2, borderColor: '#e5e7eb', borderRadius: 12, borderStyle: 'dashed', backgroundColor: '#ffffff', overflow: 'hidden' },
-  imagePlaceholder: { alignItems: 'center', justifyContent: 'center', paddingVertical: 48, paddingHorizontal: 24 },
-  imagePlaceholderIcon: { fontSize: 48, marginBottom: 16 },
-  imagePlaceholderText: { fontSize: 18, fontWeight: '600', color: '#374151', marginBottom: 8 },
-  imagePlaceholderSubtext: { fontSize: 14, color: '#6b7280', textAlign: 'center', lineHeight: 20 },
-  imagePreviewContainer: { position: 'relative', aspectRatio: 1, width: '100%' },
-  imagePreview: { width: '100%', height: '100%', resizeMode: 'cover' },
-  imageOverlay: { position: 'absolute', bottom: 0, left: 0, right: 0, backgroundColor: 'rgba(0, 0, 0, 0.7)', paddingVertical: 12, alignItems: 'center' },
-  changeImageText: { color: '#ffffff', fontSize: 14, fontWeight: '600' },
-  uploadingOverlay: { position: 'absolute', top: 0, left: 0, right: 0, bottom: 0, backgroundColor: 'rgba(255, 255, 255, 0.9)', alignItems: 'center', justifyContent: 'center' },
-  uploadingText: { marginTop: 12, fontSize: 16, fontWeight: '600', color: '#10b981' },
 });
\ No newline at end of file
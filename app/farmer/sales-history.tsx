@@ -562,6 +562,9 @@ export default function FarmerSalesHistoryScreen() {
               <Text style={styles.salesTitle}>
                 Sales History ({filteredSales.length} sales)
               </Text>
+              <TouchableOpacity style={styles.payoutsButton} onPress={() => router.push('/farmer/payouts' as any)}>
+                <Text style={styles.payoutsButtonText}>Payouts & Statements</Text>
+              </TouchableOpacity>
             </View>
 
             {/* Sales List */}
@@ -661,6 +664,13 @@ export default function FarmerSalesHistoryScreen() {
         }
         showsVerticalScrollIndicator={false}
       >
+        <TouchableOpacity
+          style={[styles.payoutsButton, styles.payoutsButtonMobile]}
+          onPress={() => router.push('/farmer/payouts' as any)}
+        >
+          <Text style={styles.payoutsButtonText}>Payouts & Statements</Text>
+        </TouchableOpacity>
+
         {filteredSales.length === 0 ? (
           renderEmptyState()
         ) : (
@@ -759,6 +769,26 @@ const styles = StyleSheet.create({
     color: '#0f172a',
   },
 
+  payoutsButton: {
+    borderWidth: 1,
+    borderColor: '#059669',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+
+  payoutsButtonMobile: {
+    alignSelf: 'flex-end',
+    marginTop: 12,
+    marginRight: 16,
+  },
+
+  payoutsButtonText: {
+    color: '#059669',
+    fontWeight: '600',
+    fontSize: 14,
+  },
+
   // Loading
   loadingContainer: {
     flex: 1,
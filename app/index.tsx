@@ -1,12 +1,16 @@
+import { Image as ExpoImage } from 'expo-image';
 import { router } from 'expo-router';
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { ActivityIndicator, Alert, Dimensions, FlatList, Image, RefreshControl, ScrollView, StyleSheet, Text, TouchableOpacity, View, Modal, Platform } from 'react-native';
 import * as ImagePicker from 'expo-image-picker';
 import Icon from 'react-native-vector-icons/FontAwesome5';
+import ComingSoonHarvests from '../components/ComingSoonHarvests';
 import FilterSidebar from '../components/FilterSidebar';
 import HeaderComponent from '../components/HeaderComponent';
 import { supabase } from '../lib/supabase';
 import { getUserWithProfile } from '../services/auth';
+import { GeocodedPoint } from '../services/locationService';
+import { ensureProfileLocation, formatDistance } from '../services/profileLocation';
 import { Database } from '../types/database';
 import { applyFilters, getMarketplaceFilters } from '../utils/filterConfigs';
 import { visualSearchService } from '../services/visualSearch';
@@ -45,12 +49,16 @@ interface Product {
   created_at: string;
   farmer_id: string;
   image_url?: string | null;
+  thumbnail_url?: string | null;
+  image_blurhash?: string | null;
   profiles?: {
     first_name: string | null;
     last_name: string | null;
     farm_name: string | null;
     barangay: string | null;
   };
+  // Whole kilometres from the buyer (rounded up), when both sides can be placed
+  distance_km?: number | null;
 }
 
 type Profile = Database['public']['Tables']['profiles']['Row'];
@@ -61,6 +69,7 @@ export default function MarketplaceScreen() {
   const [products, setProducts] = useState<Product[]>([]);
   const [filteredProducts, setFilteredProducts] = useState<Product[]>([]);
   const [profile, setProfile] = useState<Profile | null>(null);
+  const [buyerPoint, setBuyerPoint] = useState<GeocodedPoint | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
@@ -91,6 +100,7 @@ export default function MarketplaceScreen() {
     category: 'all',
     priceRange: 'all',
     availability: false,
+    distance: 'all',
     sortBy: 'newest'
   });
 
@@ -103,12 +113,49 @@ export default function MarketplaceScreen() {
     if (profile) {
       console.log('📍 Profile loaded, refreshing marketplace data');
       loadData();
+      ensureProfileLocation(profile).then(setBuyerPoint);
     }
   }, [profile]);
 
   useEffect(() => {
     filterProducts();
-  }, [products, searchQuery, filterState]);
+  }, [products, searchQuery, filterState, buyerPoint]);
+
+  // Products with their distance from the buyer's saved location; the distance filter and
+  // nearest-first sort are applied by get_marketplace_products across all products, not just the
+  // loaded pages
+  const fetchMarketplaceProducts = useCallback(async (options: { limit: number; offset?: number; search?: string }) => {
+    const { data, error } = await (supabase as any).rpc('get_marketplace_products', {
+      p_max_km: buyerPoint && filterState.distance !== 'all' ? Number(filterState.distance) : null,
+      p_sort: filterState.sortBy === 'nearest' ? 'nearest' : 'newest',
+      p_search: options.search ?? null,
+      p_limit: options.limit,
+      p_offset: options.offset ?? 0,
+    });
+
+    if (error) throw error;
+    return (data || []) as Product[];
+  }, [buyerPoint, filterState.distance, filterState.sortBy]);
+
+  // Start again from the first page when the buyer's location, distance limit or sort changes
+  const signedIn = !!profile;
+  useEffect(() => {
+    if (!signedIn) return;
+
+    let cancelled = false;
+    fetchMarketplaceProducts({ limit: 20 })
+      .then(productsData => {
+        if (cancelled) return;
+        setProducts(productsData);
+        setCurrentPage(0);
+        setHasMore(productsData.length === 20);
+      })
+      .catch(error => console.error('Error reloading products:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [signedIn, fetchMarketplaceProducts]);
 
   const fetchCategoryCounts = async () => {
     try {
@@ -179,25 +226,8 @@ export default function MarketplaceScreen() {
         await fetchCategoryCounts();
       }
 
-      // Load approved products with farmer info using pagination
-      const { data: productsData, error } = await supabase
-        .from('products')
-        .select(`
-          id, name, description, price, unit, quantity_available, category, image_url, farmer_id,
-          profiles:farmer_id (
-            first_name,
-            last_name,
-            farm_name,
-            barangay
-          )
-        `)
-        .eq('status', 'approved')
-        .gt('quantity_available', 0)
-        .order('created_at', { ascending: false })
-        .range(page * pageSize, (page + 1) * pageSize - 1)
-        .limit(pageSize);
-
-      if (error) throw error;
+      // Load approved products with farmer info and distance using pagination
+      const productsData = await fetchMarketplaceProducts({ limit: pageSize, offset: page * pageSize });
 
       // Update products list
       if (append) {
@@ -227,50 +257,25 @@ export default function MarketplaceScreen() {
     await loadData(nextPage, 20, true);
   };
 
+  const marketplaceCustomFilters = {
+    availability: (product: Product, value: boolean) => value ? product.quantity_available > 0 : true,
+  };
+
   const filterProducts = async () => {
     // If there's a search query, search from database
     if (searchQuery.trim()) {
       try {
         const query = searchQuery.toLowerCase();
 
-        // Search from database with all matching products
-        const { data: searchResults, error } = await supabase
-          .from('products')
-          .select(`
-            id, name, description, price, unit, quantity_available, category, image_url, farmer_id,
-            profiles:farmer_id (
-              first_name,
-              last_name,
-              farm_name,
-              barangay
-            )
-          `)
-          .eq('status', 'approved')
-          .gt('quantity_available', 0)
-          .or(`name.ilike.%${query}%,description.ilike.%${query}%,category.ilike.%${query}%`)
-          .order('created_at', { ascending: false })
-          .limit(100);
-
-        if (error) throw error;
-
-        let filtered: Product[] = searchResults || [];
-
-        // Also filter by farm name locally (since it's in joined table)
-        filtered = filtered.filter(product =>
-          product.name.toLowerCase().includes(query) ||
-          product.description.toLowerCase().includes(query) ||
-          product.category.toLowerCase().includes(query) ||
-          product.profiles?.farm_name?.toLowerCase().includes(query)
-        );
+        // Search from database with all matching products, farm names included
+        let filtered = await fetchMarketplaceProducts({ limit: 100, search: query });
 
         // Apply other filters
         filtered = applyFilters(filtered, filterState, {
           categoryKey: 'category',
           priceKey: 'price',
           dateKey: 'created_at',
-          customFilters: {
-            availability: (product, value) => value ? product.quantity_available > 0 : true,
-          }
+          customFilters: marketplaceCustomFilters
         });
 
         setFilteredProducts(filtered);
@@ -288,9 +293,7 @@ export default function MarketplaceScreen() {
           categoryKey: 'category',
           priceKey: 'price',
           dateKey: 'created_at',
-          customFilters: {
-            availability: (product, value) => value ? product.quantity_available > 0 : true,
-          }
+          customFilters: marketplaceCustomFilters
         });
 
         setFilteredProducts(filtered);
@@ -304,9 +307,7 @@ export default function MarketplaceScreen() {
         categoryKey: 'category',
         priceKey: 'price',
         dateKey: 'created_at',
-        customFilters: {
-          availability: (product, value) => value ? product.quantity_available > 0 : true,
-        }
+        customFilters: marketplaceCustomFilters
       });
 
       setFilteredProducts(filtered);
@@ -577,7 +578,13 @@ export default function MarketplaceScreen() {
       {/* Product Image */}
       <View style={styles.compactImageContainer}>
         {product.image_url ? (
-          <Image source={{ uri: product.image_url }} style={styles.compactProductImage} />
+          <ExpoImage
+            source={{ uri: product.thumbnail_url || product.image_url }}
+            placeholder={product.image_blurhash ? { blurhash: product.image_blurhash } : undefined}
+            contentFit="cover"
+            transition={150}
+            style={styles.compactProductImage}
+          />
         ) : (
           <View style={styles.compactPlaceholderImage}>
             <Text style={styles.compactPlaceholderIcon}>🥬</Text>
@@ -606,6 +613,9 @@ export default function MarketplaceScreen() {
             🏡 {product.profiles?.farm_name || 'Farm'}
           </Text>
           <Text style={styles.compactStockText}>{product.quantity_available} {product.unit} left</Text>
+          {product.distance_km != null && (
+            <Text style={styles.compactDistanceText}>📍 {formatDistance(product.distance_km)}</Text>
+          )}
         </View>
 
       </View>
@@ -622,7 +632,13 @@ export default function MarketplaceScreen() {
       {/* Product Image */}
       <View style={styles.gridImageContainer}>
         {product.image_url ? (
-          <Image source={{ uri: product.image_url }} style={styles.gridProductImage} />
+          <ExpoImage
+            source={{ uri: product.thumbnail_url || product.image_url }}
+            placeholder={product.image_blurhash ? { blurhash: product.image_blurhash } : undefined}
+            contentFit="cover"
+            transition={150}
+            style={styles.gridProductImage}
+          />
         ) : (
           <View style={styles.gridPlaceholderImage}>
             <Text style={styles.gridPlaceholderIcon}>🥬</Text>
@@ -655,6 +671,9 @@ export default function MarketplaceScreen() {
 
           <View style={styles.gridStockInfo}>
             <Text style={styles.gridStockText}>{product.quantity_available} {product.unit}</Text>
+            {product.distance_km != null && (
+              <Text style={styles.gridDistanceText}>📍 {formatDistance(product.distance_km)}</Text>
+            )}
           </View>
         </View>
 
@@ -663,7 +682,7 @@ export default function MarketplaceScreen() {
   );
 
   // Get filter configuration with database category counts
-  const filterSections = getMarketplaceFilters(products, categoryCounts);
+  const filterSections = getMarketplaceFilters(products, categoryCounts, !!buyerPoint);
 
   const renderEmptyState = () => (
     <View style={styles.emptyContainer}>
@@ -691,6 +710,7 @@ export default function MarketplaceScreen() {
               category: 'all',
               priceRange: 'all',
               availability: false,
+              distance: 'all',
               sortBy: 'newest'
             });
           }}
@@ -779,6 +799,9 @@ export default function MarketplaceScreen() {
             }}
             scrollEventThrottle={400}
           >
+            {/* Upcoming harvests open for pre-order */}
+            {!searchQuery.trim() && <ComingSoonHarvests profile={profile} />}
+
             {/* Products Header */}
             <View style={styles.productsHeader}>
               <Text style={styles.productsTitle}>
@@ -844,6 +867,9 @@ export default function MarketplaceScreen() {
 
           {/* Products Section */}
           <View style={styles.productsSection}>
+            {/* Upcoming harvests open for pre-order */}
+            {!searchQuery.trim() && <ComingSoonHarvests profile={profile} />}
+
             <View style={styles.sectionHeader}>
               <Text style={styles.sectionTitle}>
                 {filterState.category === 'all' ? 'Fresh Products' : filterState.category.charAt(0).toUpperCase() + filterState.category.slice(1)}
@@ -1402,7 +1428,6 @@ const styles = StyleSheet.create({
   gridProductImage: {
     width: '100%',
     height: '100%',
-    resizeMode: 'cover',
   },
   gridPlaceholderImage: {
     width: '100%',
@@ -1473,6 +1498,12 @@ const styles = StyleSheet.create({
     color: '#6b7280',
     fontWeight: '500',
   },
+  gridDistanceText: {
+    fontSize: width < 768 ? 10 : 8,
+    color: '#059669',
+    fontWeight: '600',
+    marginTop: 2,
+  },
 
   // Desktop Layout with Sidebar
   desktopLayout: {
@@ -1551,7 +1582,6 @@ const styles = StyleSheet.create({
   compactProductImage: {
     width: '100%',
     height: '100%',
-    resizeMode: 'cover',
   },
 
   compactPlaceholderImage: {
@@ -1634,6 +1664,13 @@ const styles = StyleSheet.create({
     color: '#9ca3af',
   },
 
+  compactDistanceText: {
+    fontSize: 11,
+    color: '#059669',
+    fontWeight: '600',
+    marginTop: 2,
+  },
+
   // Visual Search Styles
   visualSearchFab: {
     position: 'absolute',
@@ -18,6 +18,9 @@ import {
 } from "react-native";
 import Icon from "react-native-vector-icons/FontAwesome5";
 import HeaderComponent from "../../components/HeaderComponent";
+import MockPaymentModal from "../../components/MockPaymentModal";
+import OrderStatusTimeline from "../../components/OrderStatusTimeline";
+import RefundRequestCard from "../../components/RefundRequestCard";
 import { useConfirmationModal } from "../../contexts/ConfirmationModalContext";
 import { supabase } from "../../lib/supabase";
 import { getUserWithProfile } from "../../services/auth";
@@ -25,6 +28,18 @@ import {
   notifyAllAdmins,
   notifyOrderStatusChange,
 } from "../../services/notifications";
+import { updateOrderStatus } from "../../services/orders";
+import { isEwalletMethod, openCheckout, startPayment } from "../../services/payments";
+import { getOrderRefundRequests } from "../../services/refunds";
+import {
+  canTransitionOrderStatus,
+  getAllowedOrderTransitions,
+  getOrderActorRole,
+  OrderStatus,
+  PAYMENT_METHOD_CONFIG,
+  RefundRequest,
+  Transaction,
+} from "../../types/orders";
 
 const { width: screenWidth } = Dimensions.get("window");
 
@@ -50,7 +65,7 @@ interface OrderDetail {
   product_id: string;
   quantity: number;
   total_price: number;
-  status: string;
+  status: OrderStatus;
   delivery_address: string;
   notes: string | null;
   created_at: string;
@@ -75,6 +90,7 @@ interface OrderDetail {
     farm_name: string | null;
     barangay: string | null;
   } | null;
+  transactions: Transaction[] | null;
 }
 
 export default function OrderDetailScreen() {
@@ -88,6 +104,9 @@ export default function OrderDetailScreen() {
     uri: string;
     fileExt: string;
   } | null>(null);
+  const [paying, setPaying] = useState(false);
+  const [refundRequests, setRefundRequests] = useState<RefundRequest[]>([]);
+  const [mockPaymentReference, setMockPaymentReference] = useState<string | null>(null);
   const { showConfirmation } = useConfirmationModal();
 
   useEffect(() => {
@@ -124,6 +143,21 @@ export default function OrderDetailScreen() {
               phone,
               farm_name,
               barangay
+            ),
+            transactions (
+              id,
+              order_id,
+              amount,
+              status,
+              payment_method,
+              provider_reference,
+              checkout_url,
+              amount_paid,
+              failure_reason,
+              paid_at,
+              transaction_type,
+              created_at,
+              updated_at
             )
           `,
           )
@@ -137,6 +171,12 @@ export default function OrderDetailScreen() {
       }
       if (error) throw error;
       setOrder(data as OrderDetail);
+
+      try {
+        setRefundRequests(await getOrderRefundRequests(id));
+      } catch {
+        setRefundRequests([]);
+      }
     } catch (error: any) {
       console.error("Error loading order:", error);
       Alert.alert("Error", "Failed to load order details");
@@ -147,7 +187,7 @@ export default function OrderDetailScreen() {
 
   const loadOrderDetail = loadData;
 
-  const handleStatusUpdate = async (newStatus: string) => {
+  const handleStatusUpdate = async (newStatus: OrderStatus) => {
     const callerIsAdmin = userType === "admin" || userType === "super-admin";
     // Admin can mark as delivered without proof; farmers/others must upload first
     const requiresProof =
@@ -243,16 +283,15 @@ export default function OrderDetailScreen() {
         }
       }
 
-      const updateData: any = { status: newStatus };
-      if (proofUrl && newStatus === "delivered") {
-        updateData.proof_of_payment = proofUrl;
+      if (proofUrl && newStatus === "delivered" && proofUrl !== order?.proof_of_payment) {
+        const { error } = await (supabase as any)
+          .from("orders")
+          .update({ proof_of_payment: proofUrl })
+          .eq("id", id);
+        if (error) throw error;
       }
 
-      const { error } = await supabase
-        .from("orders")
-        .update(updateData)
-        .eq("id", id);
-      if (error) throw error;
+      await updateOrderStatus(id, newStatus);
 
       if (order) {
         try {
@@ -290,9 +329,9 @@ export default function OrderDetailScreen() {
       Alert.alert("Success", `Order ${newStatus} successfully`);
       setSelectedProofImage(null);
       await loadOrderDetail();
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error updating order:", error);
-      Alert.alert("Error", "Failed to update order status");
+      Alert.alert("Error", error?.message || "Failed to update order status");
     } finally {
       setUploadingProof(false);
     }
@@ -374,6 +413,25 @@ export default function OrderDetailScreen() {
     return cleaned || null;
   };
 
+  // Pay (or retry) an e-wallet payment for this order
+  const handlePayNow = async (transaction: Transaction) => {
+    try {
+      setPaying(true);
+      const payment = await startPayment([transaction]);
+      if (payment.next === "redirect" && payment.checkoutUrl) {
+        await openCheckout(payment.checkoutUrl);
+        await loadOrderDetail();
+      } else if (payment.next === "mock" && payment.reference) {
+        setMockPaymentReference(payment.reference);
+      }
+    } catch (error: any) {
+      console.error("Error starting payment:", error);
+      Alert.alert("Error", error?.message || "Failed to start the payment");
+    } finally {
+      setPaying(false);
+    }
+  };
+
   const handleIssueResolution = async (decision: 'approve' | 'reject') => {
     const title = decision === 'approve' ? 'Approve Refund' : 'Reject Complaint';
     const message = decision === 'approve'
@@ -385,12 +443,8 @@ export default function OrderDetailScreen() {
     try {
       setUploadingProof(true);
       const newStatus = decision === 'approve' ? 'cancelled' : 'delivered';
-      const { error } = await supabase.from('orders').update({ status: newStatus, updated_at: new Date().toISOString() }).eq('id', id);
-      if (error) throw error;
-
-      if (decision === 'approve') {
-        await supabase.from('transactions').update({ status: 'refunded' }).eq('order_id', id);
-      }
+      // Approving cancels the order and refunds the payment (handled by the status change)
+      await updateOrderStatus(id, newStatus, decision === 'approve' ? 'Issue report approved — refunded' : 'Issue report rejected');
 
       const { user } = await getUserWithProfile();
       await notifyOrderStatusChange(
@@ -421,18 +475,8 @@ export default function OrderDetailScreen() {
 
     try {
       setUploadingProof(true);
-      const { error } = await supabase.from('orders').update({ status: 'cancelled', updated_at: new Date().toISOString() }).eq('id', id);
-      if (error) throw error;
-
-      // Restore stock
-      const { data: orderRow } = await supabase.from('orders').select('product_id, quantity').eq('id', id).single();
-      if (orderRow) {
-        const { data: product } = await supabase.from('products').select('quantity_available').eq('id', (orderRow as any).product_id).single();
-        if (product) {
-          await supabase.from('products').update({ quantity_available: (product as any).quantity_available + (orderRow as any).quantity }).eq('id', (orderRow as any).product_id);
-        }
-      }
-      await supabase.from('transactions').update({ status: 'failed' }).eq('order_id', id);
+      // Stock is restored and the payment marked failed as part of the status change
+      await updateOrderStatus(id, 'cancelled', 'Cancelled by admin');
 
       const { user } = await getUserWithProfile();
       await notifyOrderStatusChange(
@@ -530,11 +574,30 @@ export default function OrderDetailScreen() {
 
   const isAdmin = userType === "admin" || userType === "super-admin";
 
+  const actorRole = getOrderActorRole(userType, userProfile?.id, order);
+  const canMoveTo = (status: OrderStatus) =>
+    actorRole !== null && canTransitionOrderStatus(order.status, status, actorRole);
+
   const canUpdateStatus =
-    isAdmin || (userType === "farmer" && order.status === "pending");
+    actorRole !== null && getAllowedOrderTransitions(order.status, actorRole).length > 0;
 
   const issueData = parseIssueFromNotes(order.notes);
 
+  // Latest payment attempt for this order, and the refunds made against it
+  const transactions = [...(order.transactions || [])].sort(
+    (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime(),
+  );
+  const transaction = transactions.find((t) => t.transaction_type !== "refund");
+  const refunds = transactions.filter((t) => t.transaction_type === "refund");
+  const hasOpenRefundRequest = refundRequests.some((r) => r.status === "pending");
+  const paymentMethod = transaction?.payment_method;
+  const canPayNow =
+    !!transaction &&
+    userProfile?.id === order.buyer_id &&
+    isEwalletMethod(paymentMethod) &&
+    (transaction.status === "pending" || transaction.status === "failed") &&
+    order.status !== "cancelled";
+
   return (
     <SafeAreaView style={styles.container}>
       <HeaderComponent
@@ -631,6 +694,89 @@ export default function OrderDetailScreen() {
           </View>
         </View>
 
+        {/* Payment */}
+        {transaction && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Payment</Text>
+            <View style={styles.infoRow}>
+              <Icon
+                name={paymentMethod ? PAYMENT_METHOD_CONFIG[paymentMethod].icon : "wallet"}
+                size={16}
+                color={colors.textSecondary}
+              />
+              <Text style={styles.infoLabel}>Method:</Text>
+              <Text style={styles.infoValue}>
+                {paymentMethod ? PAYMENT_METHOD_CONFIG[paymentMethod].label : "N/A"}
+              </Text>
+            </View>
+            <View style={styles.infoRow}>
+              <Icon name="info-circle" size={16} color={colors.textSecondary} />
+              <Text style={styles.infoLabel}>Status:</Text>
+              <Text
+                style={[
+                  styles.infoValue,
+                  styles.paymentStatus,
+                  transaction.status === "completed" && { color: colors.success },
+                  transaction.status === "failed" && { color: colors.danger },
+                ]}
+              >
+                {transaction.status}
+              </Text>
+            </View>
+            {transaction.provider_reference && (
+              <View style={styles.infoRow}>
+                <Icon name="hashtag" size={16} color={colors.textSecondary} />
+                <Text style={styles.infoLabel}>Reference:</Text>
+                <Text style={styles.infoValue}>{transaction.provider_reference}</Text>
+              </View>
+            )}
+            {transaction.amount_paid != null && (
+              <View style={styles.infoRow}>
+                <Icon name="coins" size={16} color={colors.textSecondary} />
+                <Text style={styles.infoLabel}>Paid:</Text>
+                <Text style={styles.infoValue}>
+                  {formatCurrency(Number(transaction.amount_paid))}
+                  {transaction.paid_at ? ` · ${formatDate(transaction.paid_at)}` : ""}
+                </Text>
+              </View>
+            )}
+            {transaction.failure_reason && (
+              <View style={styles.infoRow}>
+                <Icon name="exclamation-triangle" size={16} color={colors.danger} />
+                <Text style={styles.infoLabel}>Reason:</Text>
+                <Text style={[styles.infoValue, { color: colors.danger }]}>
+                  {transaction.failure_reason}
+                </Text>
+              </View>
+            )}
+            {refunds.map((refund) => (
+              <View key={refund.id} style={styles.infoRow}>
+                <Icon name="undo" size={16} color={colors.textSecondary} />
+                <Text style={styles.infoLabel}>Refunded:</Text>
+                <Text style={styles.infoValue}>
+                  {formatCurrency(Number(refund.amount))} · {formatDate(refund.created_at)}
+                </Text>
+              </View>
+            ))}
+            {canPayNow && (
+              <TouchableOpacity
+                style={[styles.actionButton, { backgroundColor: colors.primary, marginTop: 4 }]}
+                onPress={() => handlePayNow(transaction)}
+                disabled={paying}
+              >
+                {paying ? (
+                  <ActivityIndicator size="small" color={colors.white} />
+                ) : (
+                  <Icon name="wallet" size={16} color={colors.white} />
+                )}
+                <Text style={styles.actionButtonText}>
+                  {transaction.status === "failed" ? "Retry Payment" : "Pay Now"}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
         {/* Buyer Information */}
         <View style={styles.card}>
           <Text style={styles.cardTitle}>Buyer Information</Text>
@@ -713,7 +859,7 @@ export default function OrderDetailScreen() {
         )}
 
         {/* Issue Reported — show whenever issue data exists in notes, regardless of current status */}
-        {(order.status === 'issue_reported' || issueData) && (
+        {((order.status === 'issue_reported' && refundRequests.length === 0) || issueData) && (
           <View style={[styles.card, { borderWidth: 1, borderColor: '#fca5a5' }]}>
             <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 12 }}>
               <Text style={{ fontSize: 20 }}>⚠️</Text>
@@ -752,6 +898,20 @@ export default function OrderDetailScreen() {
           </View>
         )}
 
+        {/* Refund Requests */}
+        <RefundRequestCard
+          requests={refundRequests}
+          parties={{
+            buyerId: order.buyer_id,
+            farmerId: order.farmer_id,
+            buyerName: `${order.buyer_profile?.first_name || ''} ${order.buyer_profile?.last_name || ''}`.trim(),
+            farmerName: order.farmer_profile?.farm_name || `${order.farmer_profile?.first_name || ''} ${order.farmer_profile?.last_name || ''}`.trim(),
+          }}
+          viewerId={userProfile?.id || null}
+          canDecide={isAdmin || userProfile?.id === order.farmer_id}
+          onDecided={loadOrderDetail}
+        />
+
         {/* Proof of Payment */}
         {(order.proof_of_payment || selectedProofImage || isAdmin || userType === 'farmer') && (
           <View style={styles.card}>
@@ -819,17 +979,20 @@ export default function OrderDetailScreen() {
             <Text style={styles.infoLabel}>Placed on:</Text>
             <Text style={styles.infoValue}>{formatDate(order.created_at)}</Text>
           </View>
+          <OrderStatusTimeline orderId={order.id} refreshKey={order.status} />
         </View>
 
         {/* Action Buttons — status-progression actions (not for delivered/cancelled) */}
         {canUpdateStatus &&
           order.status !== "delivered" &&
-          order.status !== "cancelled" && (
+          order.status !== "cancelled" &&
+          // Refund requests are decided on their own card
+          (order.status !== "issue_reported" || (isAdmin && !hasOpenRefundRequest)) && (
             <View style={styles.actionsCard}>
               <Text style={styles.cardTitle}>Quick Actions</Text>
               <View style={styles.actionsContainer}>
-                {/* Issue resolution — admin only */}
-                {order.status === "issue_reported" && isAdmin && (
+                {/* Issue resolution for reports made before refund requests — admin only */}
+                {order.status === "issue_reported" && isAdmin && !hasOpenRefundRequest && (
                   <>
                     <TouchableOpacity
                       style={[styles.actionButton, { backgroundColor: colors.danger }]}
@@ -850,7 +1013,7 @@ export default function OrderDetailScreen() {
                   </>
                 )}
 
-                {order.status === "cancellation_requested" && (
+                {order.status === "cancellation_requested" && canMoveTo("cancelled") && (
                   <>
                     <TouchableOpacity
                       style={[styles.actionButton, { backgroundColor: colors.danger }]}
@@ -869,7 +1032,7 @@ export default function OrderDetailScreen() {
                   </>
                 )}
 
-                {order.status === "pending" && (
+                {order.status === "pending" && canMoveTo("confirmed") && (
                   <TouchableOpacity
                     style={[styles.actionButton, { backgroundColor: colors.success }]}
                     onPress={() => handleStatusUpdate("confirmed")}
@@ -878,7 +1041,7 @@ export default function OrderDetailScreen() {
                     <Text style={styles.actionButtonText}>Confirm Order</Text>
                   </TouchableOpacity>
                 )}
-                {order.status === "confirmed" && (
+                {(order.status === "confirmed" || order.status === "processing") && canMoveTo("ready") && (
                   <TouchableOpacity
                     style={[styles.actionButton, { backgroundColor: colors.primary }]}
                     onPress={() => handleStatusUpdate("ready")}
@@ -887,7 +1050,7 @@ export default function OrderDetailScreen() {
                     <Text style={styles.actionButtonText}>Mark as Ready</Text>
                   </TouchableOpacity>
                 )}
-                {order.status === "ready" && (
+                {(order.status === "ready" || order.status === "shipped") && canMoveTo("delivered") && (
                   <TouchableOpacity
                     style={[styles.actionButton, { backgroundColor: colors.success }]}
                     onPress={() => handleStatusUpdate("delivered")}
@@ -898,7 +1061,7 @@ export default function OrderDetailScreen() {
                 )}
 
                 {/* Non-admin cancel — pending only */}
-                {!isAdmin && order.status === "pending" && (
+                {!isAdmin && order.status === "pending" && canMoveTo("cancelled") && (
                   <TouchableOpacity
                     style={[styles.actionButton, { backgroundColor: colors.danger }]}
                     onPress={() => handleStatusUpdate("cancelled")}
@@ -911,9 +1074,9 @@ export default function OrderDetailScreen() {
             </View>
           )}
 
-        {/* Admin Cancel Order — shown on any non-cancelled, non-review status including delivered */}
+        {/* Admin Cancel Order — any status the state machine lets an admin cancel from, outside the review flows */}
         {isAdmin &&
-          order.status !== "cancelled" &&
+          canMoveTo("cancelled") &&
           order.status !== "issue_reported" &&
           order.status !== "cancellation_requested" && (
           <View style={[styles.actionsCard, { marginBottom: 24 }]}>
@@ -929,6 +1092,17 @@ export default function OrderDetailScreen() {
           </View>
         )}
       </ScrollView>
+
+      <MockPaymentModal
+        visible={!!mockPaymentReference}
+        reference={mockPaymentReference}
+        amount={Number(transaction?.amount || 0)}
+        onFinished={async () => {
+          setMockPaymentReference(null);
+          await loadOrderDetail();
+        }}
+        onCancel={() => setMockPaymentReference(null)}
+      />
     </SafeAreaView>
   );
 }
@@ -1043,6 +1217,7 @@ const styles = StyleSheet.create({
     width: 100,
   },
   infoValue: { fontSize: 14, color: colors.text, flex: 1 },
+  paymentStatus: { fontWeight: "600", textTransform: "capitalize" },
   totalRow: {
     marginTop: 8,
     paddingTop: 16,
@@ -20,8 +20,14 @@ import {
   notifyLowStock,
   notifyOrderCreated,
 } from "../../services/notifications";
+import { createMultiItemOrders } from "../../services/orders";
+import {
+  getProductVariants,
+  getTierUnitPrice,
+  ProductPriceTier,
+  ProductVariant,
+} from "../../services/products";
 import { showError } from "../../utils/alert";
-import { generateUniquePurchaseCode } from "../../utils/purchaseCode";
 
 interface Product {
   id: string;
@@ -48,18 +54,22 @@ interface Profile {
 }
 
 export default function OrderProductScreen() {
-  const { id, quantity } = useLocalSearchParams<{
+  const { id, quantity, variant: variantId } = useLocalSearchParams<{
     id: string;
     quantity: string;
+    variant?: string;
   }>();
   const { user } = useAuth();
   const [product, setProduct] = useState<Product | null>(null);
+  const [variant, setVariant] = useState<ProductVariant | null>(null);
+  const [priceTiers, setPriceTiers] = useState<ProductPriceTier[]>([]);
   const [userProfile, setUserProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
   const [ordering, setOrdering] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [purchaseCode, setPurchaseCode] = useState<string>("");
+  const [placedOrderId, setPlacedOrderId] = useState<string | null>(null);
   const [confirmModal, setConfirmModal] = useState<{
     visible: boolean;
     title: string;
@@ -137,6 +147,18 @@ export default function OrderProductScreen() {
         return;
       }
 
+      // The option chosen on the product page, and the bulk prices that apply to it
+      const pricing = await getProductVariants(id);
+      const chosenVariant = pricing.variants.find((v) => v.id === variantId) || null;
+
+      if (pricing.variants.length > 0 && !chosenVariant) {
+        setError("This option is no longer available. Please choose another one.");
+        return;
+      }
+
+      setVariant(chosenVariant);
+      setPriceTiers(chosenVariant ? chosenVariant.price_tiers : pricing.priceTiers);
+
       // Then fetch the farmer profile
       const { data: profileData, error: profileError } = await supabase
         .from("profiles")
@@ -162,10 +184,23 @@ export default function OrderProductScreen() {
     }
   };
 
+  const unit = variant ? variant.unit : product?.unit || "";
+  const availableStock = variant
+    ? variant.quantity_available
+    : product?.quantity_available || 0;
+  const unitPrice = getTierUnitPrice(
+    variant ? variant.price : product?.price || 0,
+    priceTiers,
+    parseInt(quantity) || 0,
+  );
+  const productName = product
+    ? `${product.name}${variant ? ` (${variant.name})` : ""}`
+    : "";
+
   const calculateTotal = () => {
     if (!product) return 0;
     const orderQuantity = parseInt(quantity) || 0;
-    return product.price * orderQuantity;
+    return unitPrice * orderQuantity;
   };
 
   const handleOrder = async () => {
@@ -193,7 +228,7 @@ export default function OrderProductScreen() {
       return;
     }
 
-    if (orderQuantity > product.quantity_available) {
+    if (orderQuantity > availableStock) {
       console.log("❌ Quantity exceeds stock");
       showError("Requested quantity exceeds available stock");
       return;
@@ -205,7 +240,7 @@ export default function OrderProductScreen() {
     setConfirmModal({
       visible: true,
       title: "Confirm Order?",
-      message: `Are you sure you want to place this order for ${orderQuantity} ${product.unit} of ${product.name} at ₱${totalAmount.toLocaleString()}?`,
+      message: `Are you sure you want to place this order for ${orderQuantity} ${unit} of ${productName} at ₱${totalAmount.toLocaleString()}?`,
       isDestructive: false,
       confirmText: "Yes, Place Order",
       onConfirm: () => {
@@ -223,40 +258,26 @@ export default function OrderProductScreen() {
     try {
       setOrdering(true);
 
-      // Generate unique purchase code
-      const uniquePurchaseCode = generateUniquePurchaseCode();
-
-      // Create order record with purchase code
-      const { data: newOrder, error: orderError } = await (supabase as any)
-        .from("orders")
-        .insert({
-          buyer_id: user.id,
-          farmer_id: product.farmer_id,
-          product_id: product.id,
-          quantity: orderQuantity,
-          total_price: calculateTotal(),
-          delivery_address:
-            product.profiles?.barangay || "Delivery location not available",
-          notes: orderData.notes,
-          status: "pending",
-          purchase_code: uniquePurchaseCode,
-        })
-        .select()
-        .single();
-
-      if (orderError) {
-        console.error("Error creating order:", orderError);
-        console.error("Error details:", JSON.stringify(orderError, null, 2));
-        showError(
-          `Failed to create order: ${orderError.message || "Please try again."}`,
-        );
-        return;
-      }
+      // Stock, tier price and the purchase code are all handled by the database
+      const [result] = await createMultiItemOrders(user.id, {
+        items: [
+          {
+            product_id: product.id,
+            variant_id: variant?.id || null,
+            quantity: orderQuantity,
+          },
+        ],
+        delivery_address:
+          product.profiles?.barangay || "Delivery location not available",
+        notes: orderData.notes || undefined,
+        payment_method: "cod",
+      });
+      const newOrder = result.order;
 
       // Send notifications about order creation
       try {
         await notifyOrderCreated(newOrder.id, user.id, product.farmer_id, {
-          totalAmount: calculateTotal(),
+          totalAmount: newOrder.total_price,
           itemCount: 1, // Single product order
           buyerName: userProfile
             ? `${userProfile.first_name} ${userProfile.last_name}`
@@ -264,7 +285,7 @@ export default function OrderProductScreen() {
           farmerName: product.profiles
             ? `${product.profiles.first_name} ${product.profiles.last_name}`
             : undefined,
-          productName: product.name,
+          productName,
           farmerBarangay: product.profiles?.barangay || undefined,
         });
 
@@ -274,63 +295,38 @@ export default function OrderProductScreen() {
         // Don't fail the order creation if notifications fail
       }
 
-      // Update product quantity
-      console.log(
-        `📦 Attempting to decrease stock for product ${product.id}: ${product.quantity_available} (ordered: ${orderQuantity})`,
-      );
-
-      const newQuantity = Math.max(
-        0,
-        product.quantity_available - orderQuantity,
-      );
-
-      const { error: updateError } = await (supabase as any)
-        .from("products")
-        .update({ quantity_available: newQuantity })
-        .eq("id", product.id);
-
-      if (updateError) {
-        console.error("❌ Error updating product quantity:", updateError);
-        console.error("❌ This means RLS is blocking the update. You need to:");
-        console.error(
-          "1. Run fix_products_stock_update_policy.sql in Supabase",
-        );
-        console.error("2. Or temporarily disable RLS on products table");
-      } else {
-        console.log("✅ Product stock decreased successfully");
-        console.log(`✅ New stock: ${newQuantity}`);
-
-        // Check for low stock and notify farmer
-        const lowStockThreshold = 5;
-        if (newQuantity <= lowStockThreshold && newQuantity > 0) {
-          try {
-            await notifyLowStock(
-              product.farmer_id,
-              product.name,
-              newQuantity,
-              lowStockThreshold,
-            );
-            console.log("✅ Low stock notification sent");
-          } catch (stockNotifError) {
-            console.error(
-              "⚠️ Failed to send low stock notification:",
-              stockNotifError,
-            );
-          }
+      // Check for low stock and notify farmer
+      const newQuantity = Math.max(0, availableStock - orderQuantity);
+      const lowStockThreshold = 5;
+      if (newQuantity <= lowStockThreshold && newQuantity > 0) {
+        try {
+          await notifyLowStock(
+            product.farmer_id,
+            productName,
+            newQuantity,
+            lowStockThreshold,
+          );
+          console.log("✅ Low stock notification sent");
+        } catch (stockNotifError) {
+          console.error(
+            "⚠️ Failed to send low stock notification:",
+            stockNotifError,
+          );
         }
       }
 
       // Set purchase code and show success modal immediately
       console.log("✅ Order placed successfully!");
-      console.log("🎫 Purchase code:", uniquePurchaseCode);
-      setPurchaseCode(uniquePurchaseCode);
+      console.log("🎫 Purchase code:", newOrder.purchase_code);
+      setPurchaseCode(newOrder.purchase_code || "");
+      setPlacedOrderId(newOrder.id);
       setShowSuccessModal(true);
       console.log(
         "📱 PurchaseSuccessModal should now be visible with purchase code and QR code!",
       );
-    } catch (err) {
+    } catch (err: any) {
       console.error("Order error:", err);
-      showError("An error occurred while placing the order");
+      showError(err?.message || "An error occurred while placing the order");
     } finally {
       setOrdering(false);
     }
@@ -409,12 +405,12 @@ export default function OrderProductScreen() {
           {/* Product Summary */}
           <View style={styles.productSummary}>
             <Text style={styles.sectionTitle}>Product Summary</Text>
-            <Text style={styles.productName}>{product.name}</Text>
+            <Text style={styles.productName}>{productName}</Text>
             <Text style={styles.productPrice}>
-              ₱{product.price.toLocaleString()} per {product.unit}
+              ₱{(variant ? variant.price : product.price).toLocaleString()} per {unit}
             </Text>
             <Text style={styles.availableStock}>
-              Available: {product.quantity_available} {product.unit}(s)
+              Available: {availableStock} {unit}(s)
             </Text>
 
             {product.profiles && (
@@ -429,10 +425,10 @@ export default function OrderProductScreen() {
             <Text style={styles.sectionTitle}>Order Details</Text>
 
             <View style={styles.inputGroup}>
-              <Text style={styles.label}>Quantity ({product.unit})</Text>
+              <Text style={styles.label}>Quantity ({unit})</Text>
               <View style={styles.quantityDisplay}>
                 <Text style={styles.quantityValue}>
-                  {quantity || "0"} {product.unit}(s)
+                  {quantity || "0"} {unit}(s)
                 </Text>
               </View>
             </View>
@@ -471,13 +467,13 @@ export default function OrderProductScreen() {
               <View style={styles.totalRow}>
                 <Text style={styles.totalLabel}>Quantity:</Text>
                 <Text style={styles.totalValue}>
-                  {quantity || 0} {product.unit}(s)
+                  {quantity || 0} {unit}(s)
                 </Text>
               </View>
               <View style={styles.totalRow}>
                 <Text style={styles.totalLabel}>Price per unit:</Text>
                 <Text style={styles.totalValue}>
-                  ₱{product.price.toLocaleString()}
+                  ₱{unitPrice.toLocaleString()}
                 </Text>
               </View>
               <View style={[styles.totalRow, styles.grandTotalRow]}>
@@ -505,6 +501,7 @@ export default function OrderProductScreen() {
           <PurchaseSuccessModal
             visible={showSuccessModal}
             onClose={() => setShowSuccessModal(false)}
+            orderId={placedOrderId}
             purchaseCode={purchaseCode}
             orderDetails={{
               farmName:
@@ -513,9 +510,9 @@ export default function OrderProductScreen() {
                 "Unknown Farm",
               totalAmount: calculateTotal(),
               purchaseDate: new Date().toISOString(),
-              productName: product.name,
+              productName,
               quantity: parseInt(quantity) || 0,
-              unit: product.unit,
+              unit,
             }}
             onViewOrders={() => {
               setShowSuccessModal(false);
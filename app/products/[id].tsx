@@ -4,7 +4,6 @@ import {
   ActivityIndicator,
   Alert,
   Dimensions,
-  Image,
   Platform,
   ScrollView,
   StatusBar,
@@ -19,8 +18,19 @@ import { messageService } from "../../services/messageService";
 import ChatModal from "../../components/ChatModal";
 import { supabase } from "../../lib/supabase";
 import { getUserWithProfile } from "../../services/auth";
-import { showError } from "../../utils/alert";
+import { showError, showSuccess } from "../../utils/alert";
 import ConfirmationModal from "../../components/ConfirmationModal";
+import ProductReviews from "../../components/ProductReviews";
+import MarketPriceChart from "../../components/MarketPriceChart";
+import ProductImageGallery from "../../components/ProductImageGallery";
+import { getProductRatingStats, RatingStats } from "../../services/reviews";
+import {
+  getProductVariants,
+  getTierUnitPrice,
+  ProductPricing,
+} from "../../services/products";
+import { getProductImages, ProductImage } from "../../services/productMedia";
+import { useCart } from "../../contexts/CartContext";
 const { width } = Dimensions.get("window");
 
 interface Product {
@@ -36,10 +46,12 @@ interface Product {
   created_at: string;
   updated_at: string;
   image_url?: string;
+  image_blurhash?: string | null;
   farmer_profile?: {
     first_name: string | null;
     last_name: string | null;
     farm_name: string | null;
+    barangay: string | null;
   };
 }
 
@@ -51,12 +63,6 @@ interface Profile {
   farm_name?: string | null;
 }
 
-interface RatingStats {
-  average: number; // e.g. 4.2
-  count: number; // number of rated orders
-  distribution: number[]; // [1★count, 2★count, 3★count, 4★count, 5★count]
-}
-
 const colors = {
   primary: "#059669",
   secondary: "#10b981",
@@ -149,6 +155,7 @@ function RatingSummary({ stats }: { stats: RatingStats | null }) {
 
 export default function ProductDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
+  const { addItem, itemCount } = useCart();
   const [product, setProduct] = useState<Product | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
@@ -158,6 +165,9 @@ export default function ProductDetailScreen() {
   const [showContactWidget, setShowContactWidget] = useState(false);
   const [ratingStats, setRatingStats] = useState<RatingStats | null>(null);
   const [ratingsLoading, setRatingsLoading] = useState(false);
+  const [pricing, setPricing] = useState<ProductPricing>({ variants: [], priceTiers: [] });
+  const [selectedVariantId, setSelectedVariantId] = useState<string | null>(null);
+  const [images, setImages] = useState<ProductImage[]>([]);
 const [showDeleteModal, setShowDeleteModal] = useState(false);
   useEffect(() => {
     if (id) loadData();
@@ -178,7 +188,8 @@ const [showDeleteModal, setShowDeleteModal] = useState(false);
             farmer_profile:farmer_id (
               first_name,
               last_name,
-              farm_name
+              farm_name,
+              barangay
             )
           `,
           )
@@ -203,6 +214,8 @@ const [showDeleteModal, setShowDeleteModal] = useState(false);
         setProduct(productResult.data);
         // Load ratings separately after product is set
         loadRatingStats(id);
+        loadPricing(id);
+        loadImages(id);
       }
     } catch (err) {
       console.error("Load error:", err);
@@ -212,33 +225,11 @@ const [showDeleteModal, setShowDeleteModal] = useState(false);
     }
   };
 
-  // Fetch all delivered orders for this product that have a rating > 0
+  // Star breakdown of the product's published reviews
   const loadRatingStats = async (productId: string) => {
     try {
       setRatingsLoading(true);
-      const { data, error } = await supabase
-        .from("orders")
-        .select("ratings")
-        .eq("product_id", productId)
-        .eq("status", "delivered")
-        .gt("ratings", 0); // only rated orders
-
-      if (error || !data || data.length === 0) {
-        setRatingStats(null);
-        return;
-      }
-
-      const ratings = data.map((o: any) => o.ratings as number);
-      const count = ratings.length;
-      const average = ratings.reduce((sum, r) => sum + r, 0) / count;
-
-      // distribution[0] = count of 1★, distribution[4] = count of 5★
-      const distribution = [0, 0, 0, 0, 0];
-      ratings.forEach((r) => {
-        if (r >= 1 && r <= 5) distribution[r - 1]++;
-      });
-
-      setRatingStats({ average, count, distribution });
+      setRatingStats(await getProductRatingStats(productId));
     } catch (err) {
       console.error("Rating stats error:", err);
       setRatingStats(null);
@@ -247,6 +238,45 @@ const [showDeleteModal, setShowDeleteModal] = useState(false);
     }
   };
 
+  // Gallery photos; the product's image_url is shown until they load
+  const loadImages = async (productId: string) => {
+    try {
+      setImages(await getProductImages(productId));
+    } catch (err) {
+      console.error("Product images error:", err);
+      setImages([]);
+    }
+  };
+
+  // Options and bulk prices; the product's own price and stock apply when there are none
+  const loadPricing = async (productId: string) => {
+    try {
+      const result = await getProductVariants(productId);
+      setPricing(result);
+      const firstInStock = result.variants.find((variant) => variant.quantity_available > 0);
+      setSelectedVariantId((firstInStock || result.variants[0])?.id || null);
+    } catch (err) {
+      console.error("Product options error:", err);
+      setPricing({ variants: [], priceTiers: [] });
+      setSelectedVariantId(null);
+    }
+  };
+
+  const selectedVariant =
+    pricing.variants.find((variant) => variant.id === selectedVariantId) || null;
+  const activePrice = selectedVariant ? selectedVariant.price : product?.price || 0;
+  const activeUnit = selectedVariant ? selectedVariant.unit : product?.unit || "";
+  const activeStock = selectedVariant
+    ? selectedVariant.quantity_available
+    : product?.quantity_available || 0;
+  const activeTiers = selectedVariant ? selectedVariant.price_tiers : pricing.priceTiers;
+  const unitPrice = getTierUnitPrice(activePrice, activeTiers, orderQuantity);
+
+  const handleSelectVariant = (variantId: string) => {
+    setSelectedVariantId(variantId);
+    setOrderQuantity(1);
+  };
+
   const handleEdit = () => {
     if (!product || !profile) return;
     const editRoute =
@@ -330,14 +360,44 @@ const [showDeleteModal, setShowDeleteModal] = useState(false);
       showError("Please log in to place an order.", "Login Required");
       return;
     }
-    if (orderQuantity > product.quantity_available) {
+    if (orderQuantity > activeStock) {
       showError(
         "Order quantity cannot exceed available stock",
         "Invalid Quantity",
       );
       return;
     }
-    router.push(`/order/${product.id}?quantity=${orderQuantity}` as any);
+    const variantParam = selectedVariant ? `&variant=${selectedVariant.id}` : "";
+    router.push(`/order/${product.id}?quantity=${orderQuantity}${variantParam}` as any);
+  };
+
+  const handleAddToCart = () => {
+    if (!product || !profile) return;
+    if (orderQuantity > activeStock) {
+      showError(
+        "Order quantity cannot exceed available stock",
+        "Invalid Quantity",
+      );
+      return;
+    }
+    addItem({
+      product_id: product.id,
+      farmer_id: product.farmer_id,
+      name: product.name,
+      price: activePrice,
+      unit: activeUnit,
+      image_url: product.image_url || null,
+      farm_name: product.farmer_profile?.farm_name || null,
+      variant_id: selectedVariant?.id || null,
+      variant_name: selectedVariant?.name || null,
+      price_tiers: activeTiers,
+      quantity_available: activeStock,
+      quantity: orderQuantity,
+    });
+    showSuccess(
+      `${orderQuantity} ${activeUnit} of ${product.name}${selectedVariant ? ` (${selectedVariant.name})` : ""} added to your cart.`,
+      "Added to Cart",
+    );
   };
 
   const handleContactOpen = () => {
@@ -461,18 +521,11 @@ const [showDeleteModal, setShowDeleteModal] = useState(false);
           {/* Left Column */}
           <View style={styles.leftColumn}>
             <View style={styles.imageContainer}>
-              {product.image_url ? (
-                <Image
-                  source={{ uri: product.image_url }}
-                  style={styles.productImage}
-                  resizeMode="cover"
-                />
-              ) : (
-                <View style={styles.noImageContainer}>
-                  <Icon name="image" size={48} color={colors.textSecondary} />
-                  <Text style={styles.noImageText}>No Image Available</Text>
-                </View>
-              )}
+              <ProductImageGallery
+                images={images}
+                fallbackUrl={product.image_url}
+                fallbackBlurhash={product.image_blurhash}
+              />
             </View>
           </View>
 
@@ -488,10 +541,60 @@ const [showDeleteModal, setShowDeleteModal] = useState(false);
             )}
 
             <View style={styles.priceContainer}>
-              <Text style={styles.price}>{formatPrice(product.price)}</Text>
-              <Text style={styles.priceUnit}>/ {product.unit}</Text>
+              <Text style={styles.price}>{formatPrice(activePrice)}</Text>
+              <Text style={styles.priceUnit}>/ {activeUnit}</Text>
             </View>
 
+            {pricing.variants.length > 0 && (
+              <View style={styles.variantSection}>
+                <Text style={styles.detailLabel}>OPTIONS:</Text>
+                <View style={styles.variantChips}>
+                  {pricing.variants.map((variant) => (
+                    <TouchableOpacity
+                      key={variant.id}
+                      style={[
+                        styles.variantChip,
+                        variant.id === selectedVariantId && styles.variantChipSelected,
+                        variant.quantity_available === 0 && styles.variantChipSoldOut,
+                      ]}
+                      onPress={() => handleSelectVariant(variant.id)}
+                    >
+                      <Text
+                        style={[
+                          styles.variantChipText,
+                          variant.id === selectedVariantId && styles.variantChipTextSelected,
+                        ]}
+                      >
+                        {variant.name}
+                        {variant.grade ? ` · ${variant.grade}` : ""}
+                      </Text>
+                      <Text
+                        style={[
+                          styles.variantChipPrice,
+                          variant.id === selectedVariantId && styles.variantChipTextSelected,
+                        ]}
+                      >
+                        {variant.quantity_available === 0
+                          ? "Sold out"
+                          : `${formatPrice(variant.price)} / ${variant.unit}`}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            )}
+
+            {activeTiers.length > 0 && (
+              <View style={styles.tierSection}>
+                <Text style={styles.detailLabel}>BULK PRICES:</Text>
+                {activeTiers.map((tier) => (
+                  <Text key={tier.min_quantity} style={styles.tierText}>
+                    {tier.min_quantity}+ {activeUnit}: {formatPrice(tier.unit_price)} each
+                  </Text>
+                ))}
+              </View>
+            )}
+
             {/* ── Dynamic Rating Section ── */}
             <View style={styles.ratingContainer}>
               {ratingsLoading ? (
@@ -526,7 +629,7 @@ const [showDeleteModal, setShowDeleteModal] = useState(false);
               <View style={styles.detailRow}>
                 <Text style={styles.detailLabel}>AVAILABLE:</Text>
                 <Text style={styles.detailValue}>
-                  {product.quantity_available} {product.unit}
+                  {activeStock} {activeUnit}
                 </Text>
               </View>
               <View style={styles.detailRow}>
@@ -683,7 +786,7 @@ const [showDeleteModal, setShowDeleteModal] = useState(false);
                           setOrderQuantity(
                             Math.max(
                               1,
-                              Math.min(product.quantity_available, num),
+                              Math.min(activeStock, num),
                             ),
                           );
                         }}
@@ -694,7 +797,7 @@ const [showDeleteModal, setShowDeleteModal] = useState(false);
                         onPress={() =>
                           setOrderQuantity(
                             Math.min(
-                              product.quantity_available,
+                              activeStock,
                               orderQuantity + 1,
                             ),
                           )
@@ -705,7 +808,8 @@ const [showDeleteModal, setShowDeleteModal] = useState(false);
                     </View>
                   </View>
                   <Text style={styles.totalPrice}>
-                    Total: {formatPrice(product.price * orderQuantity)}
+                    Total: {formatPrice(unitPrice * orderQuantity)}
+                    {unitPrice < activePrice ? ` (${formatPrice(unitPrice)} each)` : ""}
                   </Text>
                   <View style={styles.actionButtonsRow}>
                     <TouchableOpacity
@@ -722,7 +826,7 @@ const [showDeleteModal, setShowDeleteModal] = useState(false);
                       style={styles.orderButton}
                       onPress={handleOrder}
                       disabled={
-                        processing || orderQuantity > product.quantity_available
+                        processing || orderQuantity > activeStock
                       }
                     >
                       {processing ? (
@@ -737,8 +841,45 @@ const [showDeleteModal, setShowDeleteModal] = useState(false);
                       <Text style={styles.orderButtonText}>Place Order</Text>
                     </TouchableOpacity>
                   </View>
+                  <View style={[styles.actionButtonsRow, styles.cartButtonsRow]}>
+                    <TouchableOpacity
+                      style={styles.contactSellerButton}
+                      onPress={handleAddToCart}
+                      disabled={
+                        processing || orderQuantity > activeStock
+                      }
+                    >
+                      <Icon name="cart-plus" size={16} color={colors.primary} />
+                      <Text style={styles.contactSellerButtonText}>
+                        Add to Cart
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.contactSellerButton}
+                      onPress={() => router.push("/buyer/cart" as any)}
+                    >
+                      <Icon name="shopping-basket" size={16} color={colors.primary} />
+                      <Text style={styles.contactSellerButtonText}>
+                        View Cart{itemCount > 0 ? ` (${itemCount})` : ""}
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
                 </View>
               )}
+
+            <MarketPriceChart
+              crop={product.name}
+              unit={product.unit}
+              price={product.price}
+              barangay={product.farmer_profile?.barangay}
+            />
+
+            <ProductReviews
+              productId={product.id}
+              productName={product.name}
+              viewer={isLoggedIn ? profile : null}
+              onReviewsChanged={() => loadRatingStats(product.id)}
+            />
           </View>
         </View>
       </ScrollView>
@@ -969,14 +1110,6 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     alignItems: "center",
   },
-  productImage: { width: "100%", height: "100%" },
-  noImageContainer: { flex: 1, justifyContent: "center", alignItems: "center" },
-  noImageText: {
-    marginTop: 8,
-    fontSize: 14,
-    color: colors.textSecondary,
-    fontWeight: "500",
-  },
   rightColumn: { flex: width > 768 ? 1 : undefined, padding: 24 },
   productCode: {
     fontSize: 12,
@@ -1006,6 +1139,26 @@ const styles = StyleSheet.create({
   price: { fontSize: 28, fontWeight: "bold", color: colors.primary },
   priceUnit: { fontSize: 16, color: colors.textSecondary, marginLeft: 4 },
   ratingContainer: { marginBottom: 16 },
+  variantSection: { marginBottom: 16, gap: 8 },
+  variantChips: { flexDirection: "row", flexWrap: "wrap", gap: 8 },
+  variantChip: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    backgroundColor: colors.white,
+  },
+  variantChipSelected: {
+    borderColor: colors.primary,
+    backgroundColor: colors.primary,
+  },
+  variantChipSoldOut: { opacity: 0.5 },
+  variantChipText: { fontSize: 14, fontWeight: "600", color: colors.text },
+  variantChipPrice: { fontSize: 12, color: colors.textSecondary, marginTop: 2 },
+  variantChipTextSelected: { color: colors.white },
+  tierSection: { marginBottom: 16, gap: 4 },
+  tierText: { fontSize: 14, color: colors.text },
   statusBadge: {
     alignSelf: "flex-start",
     paddingHorizontal: 12,
@@ -1136,6 +1289,7 @@ const styles = StyleSheet.create({
     marginBottom: 16,
   },
   actionButtonsRow: { flexDirection: "row", gap: 12 },
+  cartButtonsRow: { marginTop: 12 },
   contactSellerButton: {
     flex: 1,
     flexDirection: "row",
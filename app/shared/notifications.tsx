@@ -0,0 +1,828 @@
+import { router } from 'expo-router';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import Icon from 'react-native-vector-icons/FontAwesome5';
+import HeaderComponent from '../../components/HeaderComponent';
+import { useCustomAlert } from '../../components/CustomAlert';
+import { NotificationData } from '../../hooks/useNotifications';
+import { getUserWithProfile } from '../../services/auth';
+import {
+  archiveNotifications,
+  deleteNotifications,
+  getNotificationPage,
+  getNotificationRoute,
+  getUnreadCountsByFilter,
+  groupNotificationsByThread,
+  InboxFilter,
+  InboxView,
+  markAllNotificationsAsRead,
+  markNotificationsAsRead,
+  NotificationThread,
+  onNotificationsChanged,
+  subscribeToNotificationChanges,
+  unarchiveNotifications
+} from '../../services/notificationInbox';
+import { Database } from '../../types/database';
+import {
+  getNotificationCategory,
+  NOTIFICATION_CATEGORY_CONFIG,
+  NotificationCategory,
+  NotificationType
+} from '../../types/notifications';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+
+const colors = {
+  primary: '#059669',
+  primaryLight: '#ecfdf5',
+  background: '#f8f9fa',
+  white: '#ffffff',
+  danger: '#ef4444',
+  border: '#e5e7eb',
+  text: '#111827',
+  textSecondary: '#6b7280',
+};
+
+// Changes this screen makes itself are already on screen
+const INBOX_SOURCE = 'inbox';
+
+const PAGE_SIZE = 20;
+
+const FILTERS: InboxFilter[] = ['all', ...(Object.keys(NOTIFICATION_CATEGORY_CONFIG) as NotificationCategory[])];
+
+const EMPTY_COUNTS: Record<InboxFilter, number> = { all: 0, orders: 0, products: 0, verification: 0, system: 0 };
+
+const formatTimestamp = (iso: string) => {
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+  if (minutes < 7 * 24 * 60) return `${Math.floor(minutes / (24 * 60))}d ago`;
+  return new Date(iso).toLocaleDateString('en-PH', { month: 'short', day: 'numeric' });
+};
+
+const getNotificationIcon = (notification: NotificationData) =>
+  NOTIFICATION_CATEGORY_CONFIG[getNotificationCategory(notification.type as NotificationType)].icon;
+
+export default function NotificationsInboxScreen() {
+  const { showAlert, AlertComponent } = useCustomAlert();
+
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [filter, setFilter] = useState<InboxFilter>('all');
+  const [view, setView] = useState<InboxView>('inbox');
+  const [notifications, setNotifications] = useState<NotificationData[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [unreadCounts, setUnreadCounts] = useState<Record<InboxFilter, number>>(EMPTY_COUNTS);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [expandedThreads, setExpandedThreads] = useState<Set<string>>(new Set());
+  const [working, setWorking] = useState(false);
+
+  // Realtime callbacks outlive renders; read the latest list length through a ref
+  const loadedCount = useRef(0);
+  loadedCount.current = notifications.length;
+
+  const threads = groupNotificationsByThread(notifications);
+
+  // Reload what is already on screen, so a change elsewhere doesn't lose the pages loaded so far
+  const loadFirstPage = useCallback(async (userId: string, keepLoaded = false) => {
+    try {
+      const [page, counts] = await Promise.all([
+        getNotificationPage(userId, {
+          filter,
+          view,
+          limit: keepLoaded ? Math.max(PAGE_SIZE, loadedCount.current) : PAGE_SIZE
+        }),
+        getUnreadCountsByFilter(userId)
+      ]);
+      setNotifications(page.notifications);
+      setNextCursor(page.nextCursor);
+      setUnreadCounts(counts);
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+      showAlert('Error', 'Failed to load notifications', [{ text: 'OK', style: 'default' }]);
+    }
+  }, [filter, view, showAlert]);
+
+  useEffect(() => {
+    const loadProfile = async () => {
+      try {
+        const userData = await getUserWithProfile();
+        if (!userData?.profile) {
+          router.replace('/auth/login' as any);
+          return;
+        }
+        setProfile(userData.profile);
+      } catch (error) {
+        console.error('Error loading profile:', error);
+        setLoading(false);
+      }
+    };
+
+    loadProfile();
+  }, []);
+
+  useEffect(() => {
+    if (!profile) return;
+
+    setLoading(true);
+    setSelecting(false);
+    setSelectedIds(new Set());
+    loadFirstPage(profile.id).finally(() => setLoading(false));
+  }, [profile, loadFirstPage]);
+
+  useEffect(() => {
+    if (!profile) return;
+
+    const reload = () => loadFirstPage(profile.id, true);
+    const stopListening = onNotificationsChanged(source => {
+      if (source !== INBOX_SOURCE) reload();
+    });
+    const unsubscribe = subscribeToNotificationChanges(profile.id, reload);
+
+    return () => {
+      stopListening();
+      unsubscribe();
+    };
+  }, [profile, loadFirstPage]);
+
+  const onRefresh = async () => {
+    if (!profile) return;
+    setRefreshing(true);
+    await loadFirstPage(profile.id);
+    setRefreshing(false);
+  };
+
+  const loadMore = async () => {
+    if (!profile || !nextCursor || loadingMore) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await getNotificationPage(profile.id, { filter, view, cursor: nextCursor, limit: PAGE_SIZE });
+      setNotifications(prev => {
+        const seen = new Set(prev.map(notification => notification.id));
+        return [...prev, ...page.notifications.filter(notification => !seen.has(notification.id))];
+      });
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading more notifications:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Apply a change locally, then bring the counts back in line with the server
+  const runAction = async (action: () => Promise<void>, failureMessage: string) => {
+    if (!profile) return;
+
+    setWorking(true);
+    try {
+      await action();
+      setSelecting(false);
+      setSelectedIds(new Set());
+      setUnreadCounts(await getUnreadCountsByFilter(profile.id));
+    } catch (error) {
+      console.error(failureMessage, error);
+      showAlert('Error', failureMessage, [{ text: 'OK', style: 'default' }]);
+      await loadFirstPage(profile.id, true);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const markLocallyRead = (ids: string[]) => {
+    const readAt = new Date().toISOString();
+    setNotifications(prev =>
+      prev.map(notification =>
+        ids.includes(notification.id) && !notification.is_read
+          ? { ...notification, is_read: true, read_at: readAt }
+          : notification
+      )
+    );
+  };
+
+  const removeLocally = (ids: string[]) => {
+    setNotifications(prev => prev.filter(notification => !ids.includes(notification.id)));
+  };
+
+  const handleMarkAllRead = () => {
+    if (!profile) return;
+    runAction(async () => {
+      await markAllNotificationsAsRead(profile.id, filter, INBOX_SOURCE);
+      markLocallyRead(notifications.map(notification => notification.id));
+    }, 'Failed to mark notifications as read');
+  };
+
+  const handleMarkSelectedRead = () => {
+    const ids = Array.from(selectedIds);
+    runAction(async () => {
+      await markNotificationsAsRead(ids, INBOX_SOURCE);
+      markLocallyRead(ids);
+    }, 'Failed to mark notifications as read');
+  };
+
+  const handleArchiveSelected = () => {
+    const ids = Array.from(selectedIds);
+    runAction(async () => {
+      if (view === 'archived') {
+        await unarchiveNotifications(ids, INBOX_SOURCE);
+      } else {
+        await archiveNotifications(ids, INBOX_SOURCE);
+      }
+      removeLocally(ids);
+    }, view === 'archived' ? 'Failed to restore notifications' : 'Failed to archive notifications');
+  };
+
+  const handleDeleteSelected = () => {
+    const ids = Array.from(selectedIds);
+    showAlert(
+      'Delete Notifications',
+      `Delete ${ids.length} notification${ids.length === 1 ? '' : 's'}? This can't be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () =>
+            runAction(async () => {
+              await deleteNotifications(ids, INBOX_SOURCE);
+              removeLocally(ids);
+            }, 'Failed to delete notifications')
+        }
+      ]
+    );
+  };
+
+  const toggleThreadSelected = (thread: NotificationThread) => {
+    const ids = thread.notifications.map(notification => notification.id);
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      const allSelected = ids.every(id => next.has(id));
+      ids.forEach(id => (allSelected ? next.delete(id) : next.add(id)));
+      return next;
+    });
+  };
+
+  const toggleThreadExpanded = (key: string) => {
+    setExpandedThreads(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const openNotification = async (notification: NotificationData) => {
+    if (!notification.is_read) {
+      markLocallyRead([notification.id]);
+      setUnreadCounts(prev => {
+        const category = getNotificationCategory(notification.type as NotificationType);
+        return {
+          ...prev,
+          all: Math.max(0, prev.all - 1),
+          [category]: Math.max(0, prev[category] - 1)
+        };
+      });
+      markNotificationsAsRead([notification.id], INBOX_SOURCE).catch(error =>
+        console.error('Error marking notification as read:', error)
+      );
+    }
+
+    const route = getNotificationRoute(notification, profile?.user_type);
+    if (route) {
+      router.push(route as any);
+    }
+  };
+
+  const renderNotificationRow = (notification: NotificationData, isLatest: boolean, thread: NotificationThread) => (
+    <TouchableOpacity
+      key={notification.id}
+      style={[styles.row, !isLatest && styles.olderRow]}
+      onPress={() => (selecting ? toggleThreadSelected(thread) : openNotification(notification))}
+      onLongPress={() => {
+        setSelecting(true);
+        toggleThreadSelected(thread);
+      }}
+      activeOpacity={0.8}
+    >
+      {isLatest && (
+        <View style={[styles.iconCircle, !notification.is_read && styles.iconCircleUnread]}>
+          <Icon
+            name={getNotificationIcon(notification)}
+            size={16}
+            color={notification.is_read ? colors.textSecondary : colors.primary}
+          />
+        </View>
+      )}
+      <View style={styles.flex}>
+        <Text style={[styles.title, !notification.is_read && styles.titleUnread]} numberOfLines={isLatest ? 2 : 1}>
+          {notification.title}
+        </Text>
+        <Text style={styles.message} numberOfLines={isLatest ? 3 : 2}>
+          {notification.message}
+        </Text>
+        <Text style={styles.meta}>
+          {formatTimestamp(notification.created_at)}
+          {notification.sender?.first_name
+            ? ` · ${notification.sender.first_name} ${notification.sender.last_name || ''}`.trimEnd()
+            : ''}
+        </Text>
+      </View>
+      {!notification.is_read && <View style={styles.unreadDot} />}
+    </TouchableOpacity>
+  );
+
+  const renderThread = ({ item: thread }: { item: NotificationThread }) => {
+    const [latest, ...older] = thread.notifications;
+    const expanded = expandedThreads.has(thread.key);
+    const selected = thread.notifications.every(notification => selectedIds.has(notification.id));
+
+    return (
+      <View style={[styles.card, selected && selecting && styles.cardSelected]}>
+        <View style={styles.cardBody}>
+          {selecting && (
+            <TouchableOpacity style={styles.checkbox} onPress={() => toggleThreadSelected(thread)}>
+              <Icon name={selected ? 'check-square' : 'square'} size={18} color={colors.primary} />
+            </TouchableOpacity>
+          )}
+          <View style={styles.flex}>
+            {renderNotificationRow(latest, true, thread)}
+            {expanded && older.map(notification => renderNotificationRow(notification, false, thread))}
+          </View>
+        </View>
+
+        {older.length > 0 && (
+          <TouchableOpacity style={styles.threadToggle} onPress={() => toggleThreadExpanded(thread.key)}>
+            <Text style={styles.threadToggleText}>
+              {expanded
+                ? 'Hide earlier updates'
+                : `${older.length} earlier update${older.length === 1 ? '' : 's'}`}
+              {!expanded && thread.unreadCount > (latest.is_read ? 0 : 1) ? ' · unread' : ''}
+            </Text>
+            <Icon name={expanded ? 'chevron-up' : 'chevron-down'} size={10} color={colors.primary} />
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyState}>
+      <Icon name={view === 'archived' ? 'archive' : 'bell-slash'} size={40} color={colors.textSecondary} />
+      <Text style={styles.emptyTitle}>
+        {view === 'archived' ? 'Nothing archived' : "You're all caught up"}
+      </Text>
+      <Text style={styles.mutedText}>
+        {view === 'archived'
+          ? 'Notifications you archive are kept here.'
+          : 'New notifications will appear here.'}
+      </Text>
+    </View>
+  );
+
+  if (loading && !profile) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={colors.primary} />
+        <Text style={styles.mutedText}>Loading notifications...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <HeaderComponent
+        profile={profile}
+        userType={profile?.user_type as any}
+        currentRoute="/shared/notifications"
+        showMessages={true}
+        showNotifications={true}
+      />
+
+      <View style={styles.tabs}>
+        {FILTERS.map(tab => (
+          <TouchableOpacity
+            key={tab}
+            style={[styles.tab, filter === tab && styles.tabActive]}
+            onPress={() => setFilter(tab)}
+          >
+            <Text style={[styles.tabText, filter === tab && styles.tabTextActive]}>
+              {tab === 'all' ? 'All' : NOTIFICATION_CATEGORY_CONFIG[tab].label}
+            </Text>
+            {view === 'inbox' && unreadCounts[tab] > 0 && (
+              <View style={styles.countBadge}>
+                <Text style={styles.countBadgeText}>{unreadCounts[tab] > 99 ? '99+' : unreadCounts[tab]}</Text>
+              </View>
+            )}
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.toolbar}>
+        <View style={styles.viewToggle}>
+          {(['inbox', 'archived'] as const).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.viewOption, view === option && styles.viewOptionActive]}
+              onPress={() => setView(option)}
+            >
+              <Text style={[styles.viewOptionText, view === option && styles.viewOptionTextActive]}>
+                {option === 'inbox' ? 'Inbox' : 'Archived'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.toolbarActions}>
+          {view === 'inbox' && !selecting && unreadCounts[filter] > 0 && (
+            <TouchableOpacity onPress={handleMarkAllRead} disabled={working}>
+              <Text style={styles.actionText}>Mark all read</Text>
+            </TouchableOpacity>
+          )}
+          {threads.length > 0 && (
+            <TouchableOpacity
+              onPress={() => {
+                setSelecting(!selecting);
+                setSelectedIds(new Set());
+              }}
+            >
+              <Text style={styles.actionText}>{selecting ? 'Cancel' : 'Select'}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={threads}
+          renderItem={renderThread}
+          keyExtractor={thread => thread.key}
+          contentContainerStyle={threads.length === 0 ? styles.emptyContent : styles.listContent}
+          ListEmptyComponent={renderEmptyState}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            loadingMore ? <ActivityIndicator style={styles.footerSpinner} color={colors.primary} /> : null
+          }
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={onRefresh}
+              tintColor={colors.primary}
+              colors={[colors.primary]}
+            />
+          }
+        />
+      )}
+
+      {selecting && (
+        <View style={styles.bulkBar}>
+          <Text style={styles.bulkCount}>{selectedIds.size} selected</Text>
+          <View style={styles.bulkActions}>
+            {view === 'inbox' && (
+              <TouchableOpacity
+                style={styles.bulkButton}
+                onPress={handleMarkSelectedRead}
+                disabled={selectedIds.size === 0 || working}
+              >
+                <Icon name="envelope-open" size={14} color={colors.primary} />
+                <Text style={styles.bulkButtonText}>Read</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={styles.bulkButton}
+              onPress={handleArchiveSelected}
+              disabled={selectedIds.size === 0 || working}
+            >
+              <Icon name={view === 'archived' ? 'inbox' : 'archive'} size={14} color={colors.primary} />
+              <Text style={styles.bulkButtonText}>{view === 'archived' ? 'Restore' : 'Archive'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.bulkButton}
+              onPress={handleDeleteSelected}
+              disabled={selectedIds.size === 0 || working}
+            >
+              <Icon name="trash" size={14} color={colors.danger} />
+              <Text style={[styles.bulkButtonText, styles.dangerText]}>Delete</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {AlertComponent}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: colors.background,
+  },
+
+  flex: {
+    flex: 1,
+  },
+
+  tabs: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    backgroundColor: colors.white,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+    paddingHorizontal: 16,
+  },
+
+  tab: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginRight: 20,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+
+  tabActive: {
+    borderBottomColor: colors.primary,
+  },
+
+  tabText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+
+  tabTextActive: {
+    color: colors.primary,
+  },
+
+  countBadge: {
+    marginLeft: 6,
+    minWidth: 18,
+    paddingHorizontal: 5,
+    paddingVertical: 1,
+    borderRadius: 9,
+    backgroundColor: colors.danger,
+    alignItems: 'center',
+  },
+
+  countBadgeText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: colors.white,
+  },
+
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+
+  viewToggle: {
+    flexDirection: 'row',
+    backgroundColor: colors.border,
+    borderRadius: 8,
+    padding: 2,
+  },
+
+  viewOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+
+  viewOptionActive: {
+    backgroundColor: colors.white,
+  },
+
+  viewOptionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+
+  viewOptionTextActive: {
+    color: colors.text,
+  },
+
+  toolbarActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+
+  listContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 100,
+  },
+
+  emptyContent: {
+    flexGrow: 1,
+  },
+
+  card: {
+    backgroundColor: colors.white,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    marginBottom: 10,
+    overflow: 'hidden',
+  },
+
+  cardSelected: {
+    borderColor: colors.primary,
+    backgroundColor: colors.primaryLight,
+  },
+
+  cardBody: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+
+  checkbox: {
+    paddingLeft: 14,
+    paddingTop: 18,
+  },
+
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: 14,
+  },
+
+  olderRow: {
+    paddingLeft: 64,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+
+  iconCircle: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.background,
+    marginRight: 14,
+  },
+
+  iconCircleUnread: {
+    backgroundColor: colors.primaryLight,
+  },
+
+  title: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: colors.text,
+  },
+
+  titleUnread: {
+    fontWeight: '700',
+  },
+
+  message: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginTop: 2,
+    lineHeight: 20,
+  },
+
+  meta: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 6,
+  },
+
+  unreadDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: colors.primary,
+    marginLeft: 8,
+    marginTop: 6,
+  },
+
+  threadToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    paddingLeft: 64,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+
+  threadToggleText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 40,
+    gap: 8,
+  },
+
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text,
+    marginTop: 8,
+  },
+
+  mutedText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+
+  footerSpinner: {
+    marginVertical: 16,
+  },
+
+  bulkBar: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: colors.white,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+
+  bulkCount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+
+  bulkActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+
+  bulkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+
+  bulkButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+
+  dangerText: {
+    color: colors.danger,
+  },
+});
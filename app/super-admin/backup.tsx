@@ -8,9 +8,24 @@ import {
   ActivityIndicator,
   RefreshControl,
   Alert,
+  Linking,
+  Modal,
 } from 'react-native';
 import HeaderComponent from '../../components/HeaderComponent';
 import { getUserWithProfile } from '../../services/auth';
+import {
+  Backup,
+  BACKUP_TABLES,
+  BackupTable,
+  createManualBackup as createBackupArchive,
+  deleteBackup as deleteBackupArchive,
+  formatBackupSize,
+  getBackupDownloadUrl,
+  getBackups,
+  previewRestore,
+  restoreBackup as restoreBackupTables,
+  RestoreTableDiff,
+} from '../../services/backups';
 import { Database } from '../../types/database';
 
 type Profile = Database['public']['Tables']['profiles']['Row'];
@@ -22,14 +37,38 @@ interface BackupInfo {
   date: string;
   type: 'manual' | 'automatic';
   status: 'completed' | 'in_progress' | 'failed';
+  backup: Backup;
 }
 
+const formatBackupDate = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const toBackupInfo = (backup: Backup): BackupInfo => ({
+  id: backup.id,
+  name: backup.name,
+  size: formatBackupSize(backup.size_bytes),
+  date: formatBackupDate(backup.created_at),
+  type: backup.type,
+  status: backup.status,
+  backup,
+});
+
 export default function SuperAdminBackup() {
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [backups, setBackups] = useState<BackupInfo[]>([]);
   const [isCreatingBackup, setIsCreatingBackup] = useState(false);
+  const [restoreTarget, setRestoreTarget] = useState<BackupInfo | null>(null);
+  const [restoreTables, setRestoreTables] = useState<BackupTable[]>([]);
+  const [restorePreview, setRestorePreview] = useState<RestoreTableDiff[] | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
 
   useEffect(() => {
     loadProfile();
@@ -50,41 +89,13 @@ export default function SuperAdminBackup() {
   };
 
   const loadBackups = async () => {
-    // TODO: Implement actual backup data fetching
-    setBackups([
-      {
-        id: '1',
-        name: 'Daily Backup - 2024-01-15',
-        size: '256 MB',
-        date: '2024-01-15 02:00 AM',
-        type: 'automatic',
-        status: 'completed',
-      },
-      {
-        id: '2',
-        name: 'Manual Backup - 2024-01-14',
-        size: '254 MB',
-        date: '2024-01-14 11:30 AM',
-        type: 'manual',
-        status: 'completed',
-      },
-      {
-        id: '3',
-        name: 'Daily Backup - 2024-01-14',
-        size: '252 MB',
-        date: '2024-01-14 02:00 AM',
-        type: 'automatic',
-        status: 'completed',
-      },
-      {
-        id: '4',
-        name: 'Daily Backup - 2024-01-13',
-        size: '248 MB',
-        date: '2024-01-13 02:00 AM',
-        type: 'automatic',
-        status: 'failed',
-      },
-    ]);
+    try {
+      const data = await getBackups();
+      setBackups(data.map(toBackupInfo));
+    } catch (error) {
+      console.error('Error loading backups:', error);
+      Alert.alert('Error', 'Failed to load backups');
+    }
   };
 
   const onRefresh = async () => {
@@ -96,17 +107,26 @@ export default function SuperAdminBackup() {
 
   const createManualBackup = async () => {
     setIsCreatingBackup(true);
-    // TODO: Implement actual backup creation
-    setTimeout(() => {
-      setIsCreatingBackup(false);
+    try {
+      await createBackupArchive();
       Alert.alert('Success', 'Backup created successfully');
+    } catch (error: any) {
+      console.error('Error creating backup:', error);
+      Alert.alert('Backup Failed', error?.message || 'Failed to create backup');
+    } finally {
+      setIsCreatingBackup(false);
       loadBackups();
-    }, 3000);
+    }
   };
 
-  const downloadBackup = (backup: BackupInfo) => {
-    // TODO: Implement backup download
-    Alert.alert('Download', `Downloading ${backup.name}`);
+  const downloadBackup = async (backup: BackupInfo) => {
+    try {
+      const url = await getBackupDownloadUrl(backup.backup);
+      await Linking.openURL(url);
+    } catch (error: any) {
+      console.error('Error downloading backup:', error);
+      Alert.alert('Download Failed', error?.message || 'Failed to download backup');
+    }
   };
 
   const deleteBackup = (backup: BackupInfo) => {
@@ -118,9 +138,12 @@ export default function SuperAdminBackup() {
         {
           text: 'Delete',
           style: 'destructive',
-          onPress: () => {
-            // TODO: Implement backup deletion
-            console.log('Deleting backup:', backup.id);
+          onPress: async () => {
+            try {
+              await deleteBackupArchive(backup.backup);
+            } catch (error: any) {
+              Alert.alert('Delete Failed', error?.message || 'Failed to delete backup');
+            }
             loadBackups();
           },
         },
@@ -129,23 +152,70 @@ export default function SuperAdminBackup() {
   };
 
   const restoreBackup = (backup: BackupInfo) => {
+    setRestoreTarget(backup);
+    setRestoreTables([]);
+    setRestorePreview(null);
+  };
+
+  const closeRestore = () => {
+    if (isRestoring) return;
+    setRestoreTarget(null);
+    setRestorePreview(null);
+  };
+
+  const toggleRestoreTable = (table: BackupTable) => {
+    setRestorePreview(null);
+    setRestoreTables((prev) =>
+      prev.includes(table) ? prev.filter((t) => t !== table) : [...prev, table]
+    );
+  };
+
+  // Always show a dry-run diff before anything is overwritten
+  const runRestorePreview = async () => {
+    if (!restoreTarget || restoreTables.length === 0) return;
+    setIsRestoring(true);
+    try {
+      const result = await previewRestore(restoreTarget.id, restoreTables);
+      setRestorePreview(result.diffs);
+    } catch (error: any) {
+      Alert.alert('Preview Failed', error?.message || 'Failed to preview restore');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const confirmRestore = () => {
+    if (!restoreTarget || !restorePreview) return;
     Alert.alert(
       'Restore Backup',
-      `Are you sure you want to restore from ${backup.name}? This will overwrite current data.`,
+      `Are you sure you want to restore ${restoreTables.join(', ')} from ${restoreTarget.name}? This will overwrite current data.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Restore',
           style: 'destructive',
-          onPress: () => {
-            // TODO: Implement backup restoration
-            Alert.alert('Restore', 'Backup restoration started');
+          onPress: async () => {
+            setIsRestoring(true);
+            try {
+              await restoreBackupTables(restoreTarget.id, restoreTables);
+              Alert.alert('Restore Complete', 'The selected tables were restored');
+              setRestoreTarget(null);
+              setRestorePreview(null);
+              loadBackups();
+            } catch (error: any) {
+              Alert.alert('Restore Failed', error?.message || 'Failed to restore backup');
+            } finally {
+              setIsRestoring(false);
+            }
           },
         },
       ]
     );
   };
 
+  const totalBackupBytes = backups.reduce((sum, b) => sum + (b.backup.size_bytes || 0), 0);
+  const lastAutoBackup = backups.find((b) => b.type === 'automatic' && b.status === 'completed');
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'completed':
@@ -225,15 +295,15 @@ export default function SuperAdminBackup() {
               )}
             </TouchableOpacity>
 
-            <TouchableOpacity style={[styles.actionButton, styles.secondaryButton]}>
-              <Text style={styles.secondaryButtonText}>Configure Auto Backup</Text>
-            </TouchableOpacity>
           </View>
         </View>
 
         {/* Backup List */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Recent Backups</Text>
+          {backups.length === 0 && (
+            <Text style={styles.emptyText}>No backups yet</Text>
+          )}
           {backups.map((backup) => (
             <View key={backup.id} style={styles.backupItem}>
               <View style={styles.backupInfo}>
@@ -257,6 +327,9 @@ export default function SuperAdminBackup() {
                   <Text style={styles.backupDate}>{backup.date}</Text>
                   <Text style={styles.backupSize}>{backup.size}</Text>
                 </View>
+                {backup.status === 'failed' && backup.backup.error_message && (
+                  <Text style={styles.backupError}>{backup.backup.error_message}</Text>
+                )}
               </View>
 
               {backup.status === 'completed' && (
@@ -291,25 +364,97 @@ export default function SuperAdminBackup() {
           <View style={styles.infoCard}>
             <View style={styles.infoRow}>
               <Text style={styles.infoLabel}>Total Backup Size:</Text>
-              <Text style={styles.infoValue}>1.2 GB</Text>
+              <Text style={styles.infoValue}>{formatBackupSize(totalBackupBytes)}</Text>
             </View>
             <View style={styles.infoRow}>
-              <Text style={styles.infoLabel}>Available Storage:</Text>
-              <Text style={styles.infoValue}>8.8 GB</Text>
+              <Text style={styles.infoLabel}>Stored Backups:</Text>
+              <Text style={styles.infoValue}>{backups.length}</Text>
             </View>
             <View style={styles.infoRow}>
               <Text style={styles.infoLabel}>Last Auto Backup:</Text>
-              <Text style={styles.infoValue}>Today, 2:00 AM</Text>
+              <Text style={styles.infoValue}>{lastAutoBackup ? lastAutoBackup.date : 'None yet'}</Text>
             </View>
             <View style={styles.infoRow}>
-              <Text style={styles.infoLabel}>Next Auto Backup:</Text>
-              <Text style={styles.infoValue}>Tomorrow, 2:00 AM</Text>
+              <Text style={styles.infoLabel}>Auto Backup Schedule:</Text>
+              <Text style={styles.infoValue}>Daily, 2:00 AM</Text>
             </View>
           </View>
         </View>
 
         <View style={styles.bottomSpacing} />
       </ScrollView>
+
+      {/* Restore: pick tables, preview the diff, then confirm */}
+      <Modal
+        visible={!!restoreTarget}
+        transparent
+        animationType="fade"
+        onRequestClose={closeRestore}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>Restore {restoreTarget?.name}</Text>
+            <Text style={styles.modalSubtitle}>
+              Select the tables to restore. Tables that reference them come back with them.
+            </Text>
+
+            {BACKUP_TABLES.map((table) => {
+              const selected = restoreTables.includes(table);
+              const count = restoreTarget?.backup.table_counts?.[table];
+              return (
+                <TouchableOpacity
+                  key={table}
+                  style={styles.tableRow}
+                  onPress={() => toggleRestoreTable(table)}
+                  disabled={isRestoring}
+                >
+                  <Text style={styles.tableCheckbox}>{selected ? '☑️' : '⬜'}</Text>
+                  <Text style={styles.tableName}>{table}</Text>
+                  {count !== undefined && <Text style={styles.tableCount}>{count} rows</Text>}
+                </TouchableOpacity>
+              );
+            })}
+
+            {restorePreview && (
+              <View style={styles.previewCard}>
+                <Text style={styles.previewTitle}>Dry-run preview</Text>
+                {restorePreview.map((diff) => (
+                  <Text key={diff.table} style={styles.previewRow}>
+                    {diff.table}: +{diff.inserted} new · ~{diff.updated} changed · -{diff.deleted} removed · {diff.unchanged} unchanged
+                  </Text>
+                ))}
+              </View>
+            )}
+
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.secondaryButton]}
+                onPress={closeRestore}
+                disabled={isRestoring}
+              >
+                <Text style={styles.secondaryButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.actionButton,
+                  restorePreview ? styles.dangerButton : styles.primaryButton,
+                  restoreTables.length === 0 && styles.disabledButton,
+                ]}
+                onPress={restorePreview ? confirmRestore : runRestorePreview}
+                disabled={isRestoring || restoreTables.length === 0}
+              >
+                {isRestoring ? (
+                  <ActivityIndicator size="small" color="#ffffff" />
+                ) : (
+                  <Text style={styles.primaryButtonText}>
+                    {restorePreview ? 'Restore' : 'Preview Changes'}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -485,4 +630,87 @@ const styles = StyleSheet.create({
   bottomSpacing: {
     height: 40,
   },
+  emptyText: {
+    fontSize: 14,
+    color: '#6b7280',
+    paddingHorizontal: 20,
+  },
+  backupError: {
+    fontSize: 12,
+    color: '#ef4444',
+    marginTop: 4,
+  },
+  dangerButton: {
+    backgroundColor: '#ef4444',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 20,
+    width: '100%',
+    maxWidth: 480,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  modalSubtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 12,
+  },
+  tableRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    gap: 8,
+  },
+  tableCheckbox: {
+    fontSize: 16,
+  },
+  tableName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#111827',
+  },
+  tableCount: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  previewCard: {
+    backgroundColor: '#f9fafb',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  previewTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 6,
+  },
+  previewRow: {
+    fontSize: 12,
+    color: '#374151',
+    paddingVertical: 2,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
 });
\ No newline at end of file
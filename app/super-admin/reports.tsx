@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -11,30 +11,68 @@ import {
 } from 'react-native';
 import HeaderComponent from '../../components/HeaderComponent';
 import { getUserWithProfile } from '../../services/auth';
+import {
+  exportReport as exportReportFile,
+  formatChange,
+  formatMetricValue,
+  getPresetRange,
+  getSystemReport,
+  ReportMetric,
+  ReportMetricKey,
+  ReportType,
+  SystemReport,
+} from '../../services/reports';
 import { Database } from '../../types/database';
+import { showError, showSuccess } from '../../utils/alert';
 
 type Profile = Database['public']['Tables']['profiles']['Row'];
+type RangePreset = '7d' | '30d' | 'month' | 'lastMonth';
 
 const { width } = Dimensions.get('window');
 
-interface ReportData {
-  title: string;
-  value: string;
-  change: string;
-  changeType: 'positive' | 'negative' | 'neutral';
-  icon: string;
-}
+const RANGE_PRESETS: { key: RangePreset; label: string }[] = [
+  { key: '7d', label: 'Last 7 days' },
+  { key: '30d', label: 'Last 30 days' },
+  { key: 'month', label: 'This month' },
+  { key: 'lastMonth', label: 'Last month' },
+];
+
+const METRIC_ICONS: Record<ReportMetricKey, string> = {
+  newUsers: '👥',
+  activeFarmers: '🚜',
+  orders: '📦',
+  revenue: '💰',
+  productsListed: '🥬',
+  errors: '⚠️',
+};
+
+const EXPORT_CARDS: { type: ReportType; icon: string; title: string; description: string }[] = [
+  { type: 'users', icon: '📊', title: 'User Analytics', description: 'Detailed user registration and activity data' },
+  { type: 'sales', icon: '💹', title: 'Sales Report', description: 'Revenue and transaction analytics' },
+  { type: 'system', icon: '⚙️', title: 'System Health', description: 'Performance and error monitoring' },
+  { type: 'products', icon: '📈', title: 'Product Analytics', description: 'Listing and engagement metrics' },
+];
+
+const getChangeType = (metric: ReportMetric): 'positive' | 'negative' | 'neutral' => {
+  if (metric.changePercent === 0) return 'neutral';
+  const increased = metric.changePercent === null || metric.changePercent > 0;
+  return increased === metric.higherIsBetter ? 'positive' : 'negative';
+};
+
+const formatRangeLabel = (report: SystemReport) => {
+  const options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', year: 'numeric' };
+  const lastDay = new Date(report.range.end.getTime() - 1);
+  return `${report.range.start.toLocaleDateString('en-PH', options)} – ${lastDay.toLocaleDateString('en-PH', options)}`;
+};
 
 export default function SuperAdminReports() {
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [reports, setReports] = useState<ReportData[]>([]);
-
-  useEffect(() => {
-    loadProfile();
-    loadReports();
-  }, []);
+  const [preset, setPreset] = useState<RangePreset>('30d');
+  const [report, setReport] = useState<SystemReport | null>(null);
+  const [reportLoading, setReportLoading] = useState(false);
+  const [exporting, setExporting] = useState<string | null>(null);
 
   const loadProfile = async () => {
     try {
@@ -49,53 +87,25 @@ export default function SuperAdminReports() {
     }
   };
 
-  const loadReports = async () => {
-    // TODO: Implement actual data fetching
-    setReports([
-      {
-        title: 'Total Users',
-        value: '1,234',
-        change: '+12.5%',
-        changeType: 'positive',
-        icon: '👥',
-      },
-      {
-        title: 'Active Farmers',
-        value: '456',
-        change: '+8.2%',
-        changeType: 'positive',
-        icon: '🚜',
-      },
-      {
-        title: 'Total Orders',
-        value: '2,890',
-        change: '+15.3%',
-        changeType: 'positive',
-        icon: '📦',
-      },
-      {
-        title: 'Revenue',
-        value: '₱45,670',
-        change: '+22.1%',
-        changeType: 'positive',
-        icon: '💰',
-      },
-      {
-        title: 'Products Listed',
-        value: '789',
-        change: '+5.7%',
-        changeType: 'positive',
-        icon: '🥬',
-      },
-      {
-        title: 'System Errors',
-        value: '12',
-        change: '-45.2%',
-        changeType: 'positive',
-        icon: '⚠️',
-      },
-    ]);
-  };
+  const loadReports = useCallback(async () => {
+    setReportLoading(true);
+    try {
+      setReport(await getSystemReport(getPresetRange(preset)));
+    } catch (error) {
+      console.error('Error loading reports:', error);
+      showError('Failed to load system reports');
+    } finally {
+      setReportLoading(false);
+    }
+  }, [preset]);
+
+  useEffect(() => {
+    loadProfile();
+  }, []);
+
+  useEffect(() => {
+    loadReports();
+  }, [loadReports]);
 
   const onRefresh = async () => {
     setRefreshing(true);
@@ -104,9 +114,20 @@ export default function SuperAdminReports() {
     setRefreshing(false);
   };
 
-  const exportReport = (type: string) => {
-    // TODO: Implement report export functionality
-    console.log(`Exporting ${type} report`);
+  const exportReport = async (type: ReportType, format: 'csv' | 'pdf') => {
+    if (!report) return;
+
+    const key = `${type}-${format}`;
+    setExporting(key);
+    try {
+      await exportReportFile(type, report, format);
+      showSuccess(format === 'csv' ? 'CSV report exported' : 'Printable report opened');
+    } catch (error) {
+      console.error(`Error exporting ${type} report:`, error);
+      showError('Failed to export report');
+    } finally {
+      setExporting(null);
+    }
   };
 
   if (loading) {
@@ -146,82 +167,96 @@ export default function SuperAdminReports() {
           <Text style={styles.subtitle}>Analytics and performance metrics</Text>
         </View>
 
+        {/* Date Range */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Date Range</Text>
+          <View style={styles.rangeRow}>
+            {RANGE_PRESETS.map(option => (
+              <TouchableOpacity
+                key={option.key}
+                style={[styles.rangeChip, preset === option.key && styles.rangeChipActive]}
+                onPress={() => setPreset(option.key)}
+                disabled={reportLoading}
+              >
+                <Text style={[styles.rangeChipText, preset === option.key && styles.rangeChipTextActive]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {report && (
+            <Text style={styles.rangeLabel}>
+              {formatRangeLabel(report)} · compared with the previous period
+            </Text>
+          )}
+        </View>
+
         {/* Key Metrics */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Key Metrics</Text>
-          <View style={styles.metricsGrid}>
-            {reports.map((report, index) => (
-              <View key={index} style={styles.metricCard}>
-                <View style={styles.metricHeader}>
-                  <Text style={styles.metricIcon}>{report.icon}</Text>
-                  <View style={[
-                    styles.changeIndicator,
-                    report.changeType === 'positive' ? styles.positiveChange :
-                    report.changeType === 'negative' ? styles.negativeChange : styles.neutralChange
-                  ]}>
-                    <Text style={[
-                      styles.changeText,
-                      report.changeType === 'positive' ? styles.positiveText :
-                      report.changeType === 'negative' ? styles.negativeText : styles.neutralText
-                    ]}>
-                      {report.change}
+          {reportLoading && !report ? (
+            <ActivityIndicator color="#059669" style={styles.metricsLoading} />
+          ) : (
+            <View style={styles.metricsGrid}>
+              {report?.metrics.map(metric => {
+                const changeType = getChangeType(metric);
+                return (
+                  <View key={metric.key} style={styles.metricCard}>
+                    <View style={styles.metricHeader}>
+                      <Text style={styles.metricIcon}>{METRIC_ICONS[metric.key]}</Text>
+                      <View style={[
+                        styles.changeIndicator,
+                        changeType === 'positive' ? styles.positiveChange :
+                        changeType === 'negative' ? styles.negativeChange : styles.neutralChange
+                      ]}>
+                        <Text style={[
+                          styles.changeText,
+                          changeType === 'positive' ? styles.positiveText :
+                          changeType === 'negative' ? styles.negativeText : styles.neutralText
+                        ]}>
+                          {formatChange(metric.changePercent)}
+                        </Text>
+                      </View>
+                    </View>
+                    <Text style={styles.metricValue}>{formatMetricValue(metric, metric.current)}</Text>
+                    <Text style={styles.metricTitle}>{metric.title}</Text>
+                    <Text style={styles.metricPrevious}>
+                      Previous: {formatMetricValue(metric, metric.previous)}
                     </Text>
                   </View>
-                </View>
-                <Text style={styles.metricValue}>{report.value}</Text>
-                <Text style={styles.metricTitle}>{report.title}</Text>
-              </View>
-            ))}
-          </View>
+                );
+              })}
+            </View>
+          )}
         </View>
 
         {/* Quick Actions */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Export Reports</Text>
           <View style={styles.actionsGrid}>
-            <TouchableOpacity
-              style={styles.actionCard}
-              onPress={() => exportReport('users')}
-            >
-              <Text style={styles.actionIcon}>📊</Text>
-              <Text style={styles.actionTitle}>User Analytics</Text>
-              <Text style={styles.actionDescription}>
-                Detailed user registration and activity data
-              </Text>
-            </TouchableOpacity>
-
-            <TouchableOpacity
-              style={styles.actionCard}
-              onPress={() => exportReport('sales')}
-            >
-              <Text style={styles.actionIcon}>💹</Text>
-              <Text style={styles.actionTitle}>Sales Report</Text>
-              <Text style={styles.actionDescription}>
-                Revenue and transaction analytics
-              </Text>
-            </TouchableOpacity>
-
-            <TouchableOpacity
-              style={styles.actionCard}
-              onPress={() => exportReport('system')}
-            >
-              <Text style={styles.actionIcon}>⚙️</Text>
-              <Text style={styles.actionTitle}>System Health</Text>
-              <Text style={styles.actionDescription}>
-                Performance and error monitoring
-              </Text>
-            </TouchableOpacity>
-
-            <TouchableOpacity
-              style={styles.actionCard}
-              onPress={() => exportReport('products')}
-            >
-              <Text style={styles.actionIcon}>📈</Text>
-              <Text style={styles.actionTitle}>Product Analytics</Text>
-              <Text style={styles.actionDescription}>
-                Listing and engagement metrics
-              </Text>
-            </TouchableOpacity>
+            {EXPORT_CARDS.map(card => (
+              <View key={card.type} style={styles.actionCard}>
+                <Text style={styles.actionIcon}>{card.icon}</Text>
+                <Text style={styles.actionTitle}>{card.title}</Text>
+                <Text style={styles.actionDescription}>{card.description}</Text>
+                <View style={styles.exportButtons}>
+                  {(['csv', 'pdf'] as const).map(format => (
+                    <TouchableOpacity
+                      key={format}
+                      style={styles.exportButton}
+                      onPress={() => exportReport(card.type, format)}
+                      disabled={!report || exporting !== null}
+                    >
+                      {exporting === `${card.type}-${format}` ? (
+                        <ActivityIndicator size="small" color="#059669" />
+                      ) : (
+                        <Text style={styles.exportButtonText}>{format.toUpperCase()}</Text>
+                      )}
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            ))}
           </View>
         </View>
 
@@ -344,6 +379,46 @@ const styles = StyleSheet.create({
     color: '#6b7280',
     fontWeight: '500',
   },
+  metricPrevious: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginTop: 4,
+  },
+  metricsLoading: {
+    paddingVertical: 24,
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingHorizontal: 20,
+    gap: 8,
+  },
+  rangeChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#f9fafb',
+  },
+  rangeChipActive: {
+    backgroundColor: '#059669',
+    borderColor: '#059669',
+  },
+  rangeChipText: {
+    fontSize: 14,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  rangeChipTextActive: {
+    color: '#ffffff',
+  },
+  rangeLabel: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 12,
+    paddingHorizontal: 20,
+  },
   actionsGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -376,6 +451,25 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     lineHeight: 16,
   },
+  exportButtons: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  exportButton: {
+    minWidth: 56,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#059669',
+    alignItems: 'center',
+  },
+  exportButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#059669',
+  },
   bottomSpacing: {
     height: 40,
   },
@@ -0,0 +1,404 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import HeaderComponent from '../../components/HeaderComponent';
+import { getUserWithProfile } from '../../services/auth';
+import {
+  getSmsConversation,
+  normalizePhilippineMobile,
+  simulateInboundSms,
+  SMS_COMMAND_EXAMPLES,
+  SmsConversationEntry,
+} from '../../services/sms';
+import { Database } from '../../types/database';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+
+// Replies are sent by the SMS queue a moment after the command runs
+const REPLY_POLL_ATTEMPTS = 5;
+const REPLY_POLL_INTERVAL_MS = 2000;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const getInboundStatusColor = (status?: string) => {
+  switch (status) {
+    case 'applied':
+      return '#059669';
+    case 'rejected':
+      return '#ef4444';
+    case 'ignored':
+      return '#f59e0b';
+    default:
+      return '#6b7280';
+  }
+};
+
+export default function SuperAdminSmsSimulator() {
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [phone, setPhone] = useState('');
+  const [message, setMessage] = useState('');
+  const [sending, setSending] = useState(false);
+  const [conversation, setConversation] = useState<SmsConversationEntry[]>([]);
+
+  const normalizedPhone = normalizePhilippineMobile(phone);
+
+  useEffect(() => {
+    loadProfile();
+  }, []);
+
+  const loadProfile = async () => {
+    try {
+      const userData = await getUserWithProfile();
+      if (userData?.profile) {
+        setProfile(userData.profile);
+      }
+    } catch (error) {
+      console.error('Error loading profile:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadConversation = async (): Promise<SmsConversationEntry[]> => {
+    if (!normalizedPhone) {
+      setConversation([]);
+      return [];
+    }
+    try {
+      const entries = await getSmsConversation(normalizedPhone);
+      setConversation(entries);
+      return entries;
+    } catch (error) {
+      console.error('Error loading SMS conversation:', error);
+      Alert.alert('Error', 'Failed to load messages');
+      return [];
+    }
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadConversation();
+    setRefreshing(false);
+  };
+
+  const sendMessage = async () => {
+    if (!normalizedPhone || !message.trim()) return;
+
+    setSending(true);
+    try {
+      const before = conversation.filter(entry => entry.direction === 'outbound').length;
+      const result = await simulateInboundSms(normalizedPhone, message.trim());
+      setMessage('');
+
+      if (result.status === 'ignored') {
+        await loadConversation();
+        Alert.alert('No Reply', result.error || 'The message was ignored');
+        return;
+      }
+
+      // Wait for the reply to come through the SMS queue
+      for (let attempt = 0; attempt < REPLY_POLL_ATTEMPTS; attempt++) {
+        const entries = await loadConversation();
+        if (entries.filter(entry => entry.direction === 'outbound').length > before) break;
+        await wait(REPLY_POLL_INTERVAL_MS);
+      }
+    } catch (error: any) {
+      console.error('Error simulating SMS:', error);
+      Alert.alert('Send Failed', error?.message || 'Failed to send the message');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <HeaderComponent profile={profile} />
+        <View style={styles.loadingContent}>
+          <ActivityIndicator size="large" color="#059669" />
+          <Text style={styles.loadingText}>Loading SMS simulator...</Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <HeaderComponent
+        profile={profile}
+        userType="super-admin"
+        currentRoute="/super-admin/sms-simulator"
+        showSearch={false}
+        showMessages={true}
+        showNotifications={true}
+      />
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor="#059669"
+            colors={['#059669']}
+          />
+        }
+      >
+        <View style={styles.header}>
+          <Text style={styles.title}>SMS Simulator</Text>
+          <Text style={styles.subtitle}>
+            Text the system as a farmer. Commands really change orders and stock; replies come from the stub gateway.
+          </Text>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Send as</Text>
+          <View style={styles.form}>
+            <TextInput
+              style={styles.input}
+              value={phone}
+              onChangeText={setPhone}
+              onBlur={loadConversation}
+              placeholder="Farmer's mobile number, e.g. 09171234567"
+              placeholderTextColor="#9ca3af"
+              keyboardType="phone-pad"
+            />
+            {phone.length > 0 && !normalizedPhone && (
+              <Text style={styles.errorText}>Enter a Philippine mobile number</Text>
+            )}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Messages</Text>
+
+          {conversation.length === 0 ? (
+            <Text style={styles.emptyText}>
+              {normalizedPhone ? 'No messages with this number yet' : 'Enter a number to see its messages'}
+            </Text>
+          ) : (
+            <View style={styles.conversation}>
+              {conversation.map(entry => (
+                <View
+                  key={`${entry.direction}-${entry.id}`}
+                  style={[styles.bubble, entry.direction === 'inbound' ? styles.inboundBubble : styles.outboundBubble]}
+                >
+                  <Text style={[styles.bubbleText, entry.direction === 'inbound' && styles.inboundBubbleText]}>
+                    {entry.text}
+                  </Text>
+                  <Text style={[styles.bubbleMeta, entry.direction === 'inbound' && styles.inboundBubbleMeta]}>
+                    {formatTime(entry.at)}
+                    {entry.inbound && (
+                      <Text style={{ color: getInboundStatusColor(entry.inbound.status) }}>
+                        {`  •  ${entry.inbound.status}${entry.inbound.error ? `: ${entry.inbound.error}` : ''}`}
+                      </Text>
+                    )}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Reply</Text>
+          <View style={styles.form}>
+            <View style={styles.chips}>
+              {SMS_COMMAND_EXAMPLES.map(example => (
+                <TouchableOpacity key={example} style={styles.chip} onPress={() => setMessage(example)}>
+                  <Text style={styles.chipText}>{example}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TextInput
+              style={[styles.input, styles.messageInput]}
+              value={message}
+              onChangeText={setMessage}
+              placeholder="Type a command"
+              placeholderTextColor="#9ca3af"
+              autoCapitalize="characters"
+              multiline
+            />
+            <TouchableOpacity
+              style={[styles.sendButton, (!normalizedPhone || !message.trim() || sending) && styles.sendButtonDisabled]}
+              onPress={sendMessage}
+              disabled={!normalizedPhone || !message.trim() || sending}
+            >
+              {sending ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Text style={styles.sendButtonText}>Send SMS</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  loadingContainer: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  loadingContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  content: {
+    flex: 1,
+  },
+  header: {
+    padding: 20,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  section: {
+    backgroundColor: '#ffffff',
+    marginTop: 12,
+    paddingVertical: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 16,
+    paddingHorizontal: 20,
+  },
+  form: {
+    paddingHorizontal: 20,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#111827',
+    backgroundColor: '#ffffff',
+  },
+  messageInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  errorText: {
+    marginTop: 6,
+    fontSize: 13,
+    color: '#ef4444',
+  },
+  emptyText: {
+    paddingHorizontal: 20,
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  conversation: {
+    paddingHorizontal: 20,
+    gap: 8,
+  },
+  bubble: {
+    maxWidth: '85%',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  inboundBubble: {
+    alignSelf: 'flex-end',
+    backgroundColor: '#059669',
+  },
+  outboundBubble: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#f3f4f6',
+  },
+  bubbleText: {
+    fontSize: 15,
+    color: '#111827',
+  },
+  inboundBubbleText: {
+    color: '#ffffff',
+  },
+  bubbleMeta: {
+    marginTop: 4,
+    fontSize: 11,
+    color: '#6b7280',
+  },
+  inboundBubbleMeta: {
+    color: '#d1fae5',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    backgroundColor: '#f9fafb',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#374151',
+  },
+  sendButton: {
+    marginTop: 12,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    backgroundColor: '#059669',
+  },
+  sendButtonDisabled: {
+    opacity: 0.5,
+  },
+  sendButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -3,8 +3,6 @@ import {
   ActivityIndicator,
   Alert,
   Dimensions,
-  Image,
-  Platform,
   ScrollView,
   StyleSheet,
   Text,
@@ -12,10 +10,23 @@ import {
   TouchableOpacity,
   View,
 } from 'react-native';
-import * as ImagePicker from 'expo-image-picker';
-import * as FileSystem from 'expo-file-system/legacy';
-import { decode } from 'base64-arraybuffer';
 import { supabase } from '../lib/supabase';
+import {
+  discardUploadedImages,
+  ProductImageDraft,
+  saveProductImages,
+  uploadImageDrafts,
+} from '../services/productMedia';
+import { saveProductVariants } from '../services/products';
+import ProductImagesEditor from './ProductImagesEditor';
+import ProductVariantsEditor, {
+  PriceTierDraft,
+  summarizeVariantDrafts,
+  toPriceTiers,
+  toVariantInputs,
+  validateVariantDrafts,
+  VariantDraft,
+} from './ProductVariantsEditor';
 
 const { width } = Dimensions.get('window');
 
@@ -53,221 +64,13 @@ export default function AddProductForm({ farmerId, onSuccess, onCancel }: AddPro
     unit: 'kg',
     quantity: '',
     category: 'Vegetables',
-    image: null as string | null,
   });
 
+  const [variants, setVariants] = useState<VariantDraft[]>([]);
+  const [priceTiers, setPriceTiers] = useState<PriceTierDraft[]>([]);
+  const [images, setImages] = useState<ProductImageDraft[]>([]);
+  const [uploadProgress, setUploadProgress] = useState<Record<string, number>>({});
   const [submitting, setSubmitting] = useState(false);
-  const [uploadingImage, setUploadingImage] = useState(false);
-
-  const pickImage = async () => {
-    try {
-      // On web, use native file input
-      if (Platform.OS === 'web') {
-        const input = document.createElement('input');
-        input.type = 'file';
-        input.accept = 'image/*';
-
-        input.onchange = async (e: any) => {
-          const file = e.target.files?.[0];
-          if (file) {
-            // Validate file size (max 10MB)
-            if (file.size > 10 * 1024 * 1024) {
-              Alert.alert('File Too Large', 'Please select an image smaller than 10MB.');
-              return;
-            }
-
-            // Validate it's an image
-            if (!file.type.startsWith('image/')) {
-              Alert.alert('Invalid File', 'Please select an image file.');
-              return;
-            }
-
-            // Upload the file directly (not the blob URL)
-            const publicUrl = await uploadImageToSupabaseWeb(file);
-
-            if (publicUrl) {
-              setFormData(prev => ({ ...prev, image: publicUrl }));
-            }
-          }
-        };
-
-        input.click();
-        return;
-      }
-
-      // Mobile: use ImagePicker
-      const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
-
-      if (status !== 'granted') {
-        Alert.alert('Permission Required', 'Please grant camera roll permissions to add images.');
-        return;
-      }
-
-      const result = await ImagePicker.launchImageLibraryAsync({
-        mediaTypes: ImagePicker.MediaTypeOptions.Images,
-        allowsEditing: true,
-        aspect: [1, 1],
-        quality: 0.8,
-      });
-
-      if (!result.canceled && result.assets[0]) {
-        const imageUri = result.assets[0].uri;
-        const publicUrl = await uploadImageToSupabase(imageUri);
-
-        if (publicUrl) {
-          setFormData(prev => ({ ...prev, image: publicUrl }));
-        }
-      }
-    } catch (error) {
-      console.error('Error picking image:', error);
-      Alert.alert('Error', 'Failed to select image');
-    }
-  };
-
-  const uploadImageToSupabaseWeb = async (file: File): Promise<string | null> => {
-    try {
-      setUploadingImage(true);
-
-      // Validate file size (10MB limit)
-      if (file.size > 10 * 1024 * 1024) {
-        Alert.alert('File Too Large', 'Image size must be less than 10MB');
-        return null;
-      }
-
-      // Get session token
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) {
-        Alert.alert('Authentication Error', 'Please log in to upload images');
-        return null;
-      }
-
-      // Create a unique filename
-      const fileExt = file.name.split('.').pop();
-      const filename = `product_${Date.now()}_${Math.random().toString(36).substring(7)}.${fileExt}`;
-
-      console.log('📤 Uploading product image:', filename);
-
-      // Upload file directly
-      const { data, error } = await supabase.storage
-        .from('product-images')
-        .upload(filename, file, {
-          contentType: file.type,
-          upsert: false
-        });
-
-      if (error) {
-        console.error('❌ Supabase upload error:', error);
-        throw error;
-      }
-
-      console.log('✅ Image uploaded successfully:', data.path);
-
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('product-images')
-        .getPublicUrl(data.path);
-
-      return publicUrl;
-    } catch (error: any) {
-      console.error('❌ Error uploading image:', error);
-      const errorMessage = error?.message || 'Failed to upload image';
-      Alert.alert('Upload Error', errorMessage);
-      return null;
-    } finally {
-      setUploadingImage(false);
-    }
-  };
-
-  const uploadImageToSupabase = async (imageUri: string): Promise<string | null> => {
-    try {
-      setUploadingImage(true);
-
-      let arrayBuffer: ArrayBuffer;
-      let fileSize = 0;
-
-      // Get session token
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) {
-        Alert.alert('Authentication Error', 'Please log in to upload images');
-        return null;
-      }
-
-      // Create a unique filename
-      const filename = `product_${Date.now()}_${Math.random().toString(36).substring(7)}.jpg`;
-
-      // Handle file reading differently for web vs mobile
-      if (Platform.OS === 'web') {
-        console.log('📖 Reading file for web...');
-        // On web, fetch the blob directly
-        const response = await fetch(imageUri);
-        const blob = await response.blob();
-        fileSize = blob.size;
-        arrayBuffer = await blob.arrayBuffer();
-      } else {
-        console.log('📖 Reading file for mobile...');
-        // On mobile, use FileSystem
-        const fileInfo = await FileSystem.getInfoAsync(imageUri);
-        if (fileInfo.exists && 'size' in fileInfo) {
-          fileSize = fileInfo.size;
-        }
-
-        // React Native: read file as base64
-        const base64 = await FileSystem.readAsStringAsync(imageUri, {
-          encoding: FileSystem.EncodingType.Base64,
-        });
-
-        // Convert base64 to ArrayBuffer (React Native compatible)
-        arrayBuffer = decode(base64);
-      }
-
-      // Validate file size (10MB limit)
-      if (fileSize > 10 * 1024 * 1024) {
-        Alert.alert('File Too Large', 'Image size must be less than 10MB');
-        return null;
-      }
-
-      console.log('📤 Uploading product image:', filename, 'Size:', fileSize, 'bytes');
-
-      // Upload using fetch API (React Native compatible)
-      const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL || '';
-      const uploadUrl = `${supabaseUrl}/storage/v1/object/product-images/${filename}`;
-
-      console.log('📡 Uploading to:', uploadUrl);
-
-      const response = await fetch(uploadUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${session.access_token}`,
-          'Content-Type': 'image/jpeg',
-          'x-upsert': 'false',
-        },
-        body: arrayBuffer,
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('❌ Upload failed:', response.status, errorText);
-        throw new Error(`Upload failed: ${response.statusText}`);
-      }
-
-      const uploadResult = await response.json();
-      console.log('✅ Image uploaded successfully:', uploadResult);
-
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('product-images')
-        .getPublicUrl(filename);
-
-      return publicUrl;
-    } catch (error: any) {
-      console.error('❌ Error uploading image:', error);
-      const errorMessage = error?.message || 'Failed to upload image';
-      Alert.alert('Upload Error', errorMessage);
-      return null;
-    } finally {
-      setUploadingImage(false);
-    }
-  };
 
   const handleSubmit = async () => {
     // Validation
@@ -276,36 +79,64 @@ export default function AddProductForm({ farmerId, onSuccess, onCancel }: AddPro
       return;
     }
 
-    if (!formData.price || isNaN(Number(formData.price)) || Number(formData.price) <= 0) {
-      Alert.alert('Validation Error', 'Please enter a valid price');
-      return;
+    if (variants.length === 0) {
+      if (!formData.price || isNaN(Number(formData.price)) || Number(formData.price) <= 0) {
+        Alert.alert('Validation Error', 'Please enter a valid price');
+        return;
+      }
+
+      if (!formData.quantity || isNaN(Number(formData.quantity)) || Number(formData.quantity) < 0) {
+        Alert.alert('Validation Error', 'Please enter a valid quantity');
+        return;
+      }
     }
 
-    if (!formData.quantity || isNaN(Number(formData.quantity)) || Number(formData.quantity) < 0) {
-      Alert.alert('Validation Error', 'Please enter a valid quantity');
+    const variantError = validateVariantDrafts(variants, priceTiers, Number(formData.price));
+    if (variantError) {
+      Alert.alert('Validation Error', variantError);
       return;
     }
 
     try {
       setSubmitting(true);
 
+      const pricing = variants.length > 0
+        ? summarizeVariantDrafts(variants)
+        : { price: Number(formData.price), unit: formData.unit, quantity_available: Number(formData.quantity) };
+
       const productData = {
         farmer_id: farmerId,
         name: formData.name.trim(),
         description: formData.description.trim() || null,
-        price: Number(formData.price),
-        unit: formData.unit,
-        quantity_available: Number(formData.quantity),
+        price: pricing.price,
+        unit: pricing.unit,
+        quantity_available: pricing.quantity_available,
         category: formData.category,
-        image_url: formData.image,
         status: 'pending' as const,
       };
 
-      const { error } = await supabase
+      const uploadedImages = await uploadImageDrafts(images, (key, fraction) =>
+        setUploadProgress(prev => ({ ...prev, [key]: fraction }))
+      );
+
+      const { data: insertedProduct, error } = await (supabase as any)
         .from('products')
-        .insert([productData]);
+        .insert([productData])
+        .select('id')
+        .single();
 
-      if (error) throw error;
+      if (error) {
+        await discardUploadedImages(uploadedImages);
+        throw error;
+      }
+
+      if (uploadedImages.length > 0) {
+        await saveProductImages(insertedProduct.id, uploadedImages);
+      }
+
+      if (variants.length > 0 || priceTiers.length > 0) {
+        await saveProductVariants(insertedProduct.id, toVariantInputs(variants), toPriceTiers(priceTiers));
+      }
 
       Alert.alert(
         'Success!',
@@ -317,6 +148,7 @@ export default function AddProductForm({ farmerId, onSuccess, onCancel }: AddPro
       Alert.alert('Error', 'Failed to add product. Please try again.');
     } finally {
       setSubmitting(false);
+      setUploadProgress({});
     }
   };
 
@@ -333,26 +165,13 @@ export default function AddProductForm({ farmerId, onSuccess, onCancel }: AddPro
 
         {/* Image Upload */}
         <View style={styles.imageSection}>
-          <Text style={styles.sectionTitle}>Product Image</Text>
-          <TouchableOpacity
-            style={styles.imageUpload}
-            onPress={pickImage}
-            disabled={uploadingImage}
-          >
-            {uploadingImage ? (
-              <View style={styles.imageLoading}>
-                <ActivityIndicator size="large" color="#10B981" />
-                <Text style={styles.loadingText}>Uploading...</Text>
-              </View>
-            ) : formData.image ? (
-              <Image source={{ uri: formData.image }} style={styles.uploadedImage} />
-            ) : (
-              <View style={styles.imagePlaceholder}>
-                <Text style={styles.imageIcon}>📷</Text>
-                <Text style={styles.imageText}>Tap to add image</Text>
-              </View>
-            )}
-          </TouchableOpacity>
+          <Text style={styles.sectionTitle}>Product Photos</Text>
+          <ProductImagesEditor
+            images={images}
+            onChange={setImages}
+            progress={uploadProgress}
+            disabled={submitting}
+          />
         </View>
 
         {/* Product Name */}
@@ -381,56 +200,60 @@ export default function AddProductForm({ farmerId, onSuccess, onCancel }: AddPro
           />
         </View>
 
-        {/* Price and Unit */}
-        <View style={styles.row}>
-          <View style={[styles.inputGroup, styles.halfWidth]}>
-            <Text style={styles.label}>Price *</Text>
-            <TextInput
-              style={styles.textInput}
-              value={formData.price}
-              onChangeText={(text) => setFormData(prev => ({ ...prev, price: text }))}
-              placeholder="0.00"
-              placeholderTextColor="#9CA3AF"
-              keyboardType="numeric"
-            />
-          </View>
-
-          <View style={[styles.inputGroup, styles.halfWidth]}>
-            <Text style={styles.label}>Unit</Text>
-            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.unitSelector}>
-              {UNITS.map((unit) => (
-                <TouchableOpacity
-                  key={unit}
-                  style={[
-                    styles.unitButton,
-                    formData.unit === unit && styles.unitButtonActive
-                  ]}
-                  onPress={() => setFormData(prev => ({ ...prev, unit }))}
-                >
-                  <Text style={[
-                    styles.unitButtonText,
-                    formData.unit === unit && styles.unitButtonTextActive
-                  ]}>
-                    {unit}
-                  </Text>
-                </TouchableOpacity>
-              ))}
-            </ScrollView>
-          </View>
-        </View>
+        {variants.length === 0 && (
+          <>
+            {/* Price and Unit */}
+            <View style={styles.row}>
+              <View style={[styles.inputGroup, styles.halfWidth]}>
+                <Text style={styles.label}>Price *</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={formData.price}
+                  onChangeText={(text) => setFormData(prev => ({ ...prev, price: text }))}
+                  placeholder="0.00"
+                  placeholderTextColor="#9CA3AF"
+                  keyboardType="numeric"
+                />
+              </View>
 
-        {/* Quantity */}
-        <View style={styles.inputGroup}>
-          <Text style={styles.label}>Available Quantity *</Text>
-          <TextInput
-            style={styles.textInput}
-            value={formData.quantity}
-            onChangeText={(text) => setFormData(prev => ({ ...prev, quantity: text }))}
-            placeholder="Enter quantity"
-            placeholderTextColor="#9CA3AF"
-            keyboardType="numeric"
-          />
-        </View>
+              <View style={[styles.inputGroup, styles.halfWidth]}>
+                <Text style={styles.label}>Unit</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.unitSelector}>
+                  {UNITS.map((unit) => (
+                    <TouchableOpacity
+                      key={unit}
+                      style={[
+                        styles.unitButton,
+                        formData.unit === unit && styles.unitButtonActive
+                      ]}
+                      onPress={() => setFormData(prev => ({ ...prev, unit }))}
+                    >
+                      <Text style={[
+                        styles.unitButtonText,
+                        formData.unit === unit && styles.unitButtonTextActive
+                      ]}>
+                        {unit}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+              </View>
+            </View>
+
+            {/* Quantity */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Available Quantity *</Text>
+              <TextInput
+                style={styles.textInput}
+                value={formData.quantity}
+                onChangeText={(text) => setFormData(prev => ({ ...prev, quantity: text }))}
+                placeholder="Enter quantity"
+                placeholderTextColor="#9CA3AF"
+                keyboardType="numeric"
+              />
+            </View>
+          </>
+        )}
 
         {/* Category */}
         <View style={styles.inputGroup}>
@@ -456,6 +279,18 @@ export default function AddProductForm({ farmerId, onSuccess, onCancel }: AddPro
           </ScrollView>
         </View>
 
+        <ProductVariantsEditor
+          variants={variants}
+          priceTiers={priceTiers}
+          units={UNITS}
+          defaultUnit={formData.unit}
+          baseUnit={formData.unit}
+          onChange={(nextVariants, nextTiers) => {
+            setVariants(nextVariants);
+            setPriceTiers(nextTiers);
+          }}
+        />
+
         {/* Submit Buttons */}
         <View style={styles.buttonContainer}>
           <TouchableOpacity
@@ -524,39 +359,6 @@ const styles = StyleSheet.create({
   imageSection: {
     marginBottom: 24,
   },
-  imageUpload: {
-    height: 200,
-    backgroundColor: '#fff',
-    borderRadius: 12,
-    borderWidth: 2,
-    borderColor: '#E5E7EB',
-    borderStyle: 'dashed',
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  imageLoading: {
-    alignItems: 'center',
-  },
-  loadingText: {
-    marginTop: 8,
-    color: '#6B7280',
-  },
-  uploadedImage: {
-    width: '100%',
-    height: '100%',
-    borderRadius: 10,
-  },
-  imagePlaceholder: {
-    alignItems: 'center',
-  },
-  imageIcon: {
-    fontSize: 48,
-    marginBottom: 8,
-  },
-  imageText: {
-    color: '#6B7280',
-    fontSize: 16,
-  },
   inputGroup: {
     marginBottom: 20,
   },
@@ -9,7 +9,8 @@ import {
 } from 'react-native';
 import { Theme } from '../constants/theme';
 import { useConfirmationModal } from '../contexts/ConfirmationModalContext';
-import { supabase } from '../lib/supabase';
+import { updateOrderStatus as changeOrderStatus } from '../services/orders';
+import { canTransitionOrderStatus, OrderStatus } from '../types/orders';
 
 interface AdminOrderCardProps {
   id: string;
@@ -104,19 +105,11 @@ export default function AdminOrderCard({
     );
   };
 
-  const updateOrderStatus = async (newStatus: string) => {
+  const updateOrderStatus = async (newStatus: 'confirmed' | 'cancelled') => {
     try {
       setProcessing(true);
 
-      const { error } = await supabase
-        .from('orders')
-        .update({
-          status: newStatus,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', id);
-
-      if (error) throw error;
+      await changeOrderStatus(id, newStatus);
 
       const actionText = newStatus === 'confirmed' ? 'confirmed' : 'cancelled';
       const buyerName = buyerProfile ?
@@ -130,15 +123,16 @@ export default function AdminOrderCard({
       );
     } catch (error) {
       console.error('Error updating order:', error);
-      Alert.alert('Error', 'Failed to update order status');
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update order status');
     } finally {
       setProcessing(false);
     }
   };
 
   const canTakeAction = () => {
-    const actionableStatuses = ['pending', 'processing'];
-    return actionableStatuses.includes(status.toLowerCase());
+    const current = status.toLowerCase() as OrderStatus;
+    return canTransitionOrderStatus(current, 'confirmed', 'admin') &&
+      canTransitionOrderStatus(current, 'cancelled', 'admin');
   };
 
   const buyerName = buyerProfile ?
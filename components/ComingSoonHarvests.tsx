@@ -0,0 +1,462 @@
+import { router } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Image,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import Icon from 'react-native-vector-icons/FontAwesome5';
+import { getHarvestName, getHarvestRemaining, getHarvestUnit, getUpcomingHarvests } from '../services/harvests';
+import { placePreorder } from '../services/orders';
+import { Database } from '../types/database';
+import { Harvest } from '../types/orders';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+
+const colors = {
+  primary: '#10b981',
+  danger: '#ef4444',
+  white: '#ffffff',
+  gray100: '#f3f4f6',
+  gray300: '#d1d5db',
+  gray500: '#6b7280',
+  gray700: '#374151',
+  gray900: '#111827',
+  soon: '#0891b2',
+  soonLight: '#cffafe',
+};
+
+interface ComingSoonHarvestsProps {
+  profile: Profile | null;
+}
+
+const formatPrice = (price: number) =>
+  new Intl.NumberFormat('en-PH', { style: 'currency', currency: 'PHP' }).format(price);
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-PH', { month: 'short', day: 'numeric' });
+
+// "Coming Soon" strip in the marketplace: upcoming harvests buyers can pre-order
+export default function ComingSoonHarvests({ profile }: ComingSoonHarvestsProps) {
+  const [harvests, setHarvests] = useState<Harvest[]>([]);
+  const [selected, setSelected] = useState<Harvest | null>(null);
+  const [quantity, setQuantity] = useState('1');
+  const [address, setAddress] = useState('');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [placing, setPlacing] = useState(false);
+  const [placed, setPlaced] = useState(false);
+
+  const profileId = profile?.id;
+
+  const loadHarvests = useCallback(async () => {
+    try {
+      const upcoming = await getUpcomingHarvests();
+      // Farmers don't need to see their own harvests here
+      setHarvests(upcoming.filter(harvest => harvest.farmer_id !== profileId && getHarvestRemaining(harvest) > 0));
+    } catch (err) {
+      console.error('Error loading upcoming harvests:', err);
+    }
+  }, [profileId]);
+
+  useEffect(() => {
+    loadHarvests();
+  }, [loadHarvests]);
+
+  const openPreorder = (harvest: Harvest) => {
+    if (!profile) {
+      router.push('/auth/login');
+      return;
+    }
+    setSelected(harvest);
+    setQuantity('1');
+    setAddress(profile.barangay || '');
+    setNotes('');
+    setError(null);
+    setPlaced(false);
+  };
+
+  const handlePreorder = async () => {
+    if (!selected || !profile) return;
+    const requested = parseInt(quantity, 10);
+    const remaining = getHarvestRemaining(selected);
+
+    if (!requested || requested <= 0) return setError('Enter how much you want to pre-order');
+    if (requested > remaining) return setError(`Only ${remaining} ${getHarvestUnit(selected)} left to pre-order`);
+    if (!address.trim()) return setError('Enter a delivery address');
+
+    try {
+      setPlacing(true);
+      setError(null);
+      await placePreorder(selected, {
+        quantity: requested,
+        delivery_address: address.trim(),
+        notes: notes.trim() || undefined,
+        buyer_name: `${profile.first_name || ''} ${profile.last_name || ''}`.trim() || undefined
+      });
+      setPlaced(true);
+      loadHarvests();
+    } catch (err: any) {
+      setError(err.message || 'Failed to place pre-order');
+    } finally {
+      setPlacing(false);
+    }
+  };
+
+  if (harvests.length === 0) {
+    return null;
+  }
+
+  const requestedQuantity = parseInt(quantity, 10) || 0;
+  const total = selected ? requestedQuantity * selected.price : 0;
+  const deposit = selected ? Math.round(total * selected.deposit_percent) / 100 : 0;
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.header}>
+        <Icon name="seedling" size={16} color={colors.soon} />
+        <Text style={styles.title}>Coming Soon</Text>
+        <Text style={styles.subtitle}>Pre-order from upcoming harvests</Text>
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.list}>
+        {harvests.map((harvest) => (
+          <TouchableOpacity
+            key={harvest.id}
+            style={styles.card}
+            onPress={() => openPreorder(harvest)}
+            activeOpacity={0.8}
+          >
+            {harvest.product?.image_url ? (
+              <Image source={{ uri: harvest.product.image_url }} style={styles.image} />
+            ) : (
+              <View style={[styles.image, styles.imagePlaceholder]}>
+                <Icon name="leaf" size={24} color={colors.primary} />
+              </View>
+            )}
+            <View style={styles.badge}>
+              <Text style={styles.badgeText}>{formatDate(harvest.expected_date)}</Text>
+            </View>
+            <View style={styles.cardBody}>
+              <Text style={styles.cardName} numberOfLines={1}>{getHarvestName(harvest)}</Text>
+              <Text style={styles.cardFarm} numberOfLines={1}>
+                {harvest.farmer?.farm_name || `${harvest.farmer?.first_name || ''} ${harvest.farmer?.last_name || ''}`.trim()}
+              </Text>
+              <Text style={styles.cardPrice}>
+                {formatPrice(harvest.price)}/{getHarvestUnit(harvest)}
+              </Text>
+              <Text style={styles.cardMeta}>
+                {getHarvestRemaining(harvest)} {getHarvestUnit(harvest)} left
+                {harvest.deposit_percent > 0 ? ` · ${harvest.deposit_percent}% deposit` : ''}
+              </Text>
+            </View>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      <Modal visible={!!selected} transparent animationType="fade" onRequestClose={() => setSelected(null)}>
+        <View style={styles.overlay}>
+          {selected && (
+            <View style={styles.modal}>
+              <Text style={styles.modalTitle}>Pre-order {getHarvestName(selected)}</Text>
+              <Text style={styles.modalText}>
+                Expected around {formatDate(selected.expected_date)} · {formatPrice(selected.price)}/{getHarvestUnit(selected)}
+              </Text>
+
+              {placed ? (
+                <>
+                  <View style={styles.placedBox}>
+                    <Icon name="check-circle" size={20} color={colors.primary} />
+                    <Text style={styles.placedText}>
+                      Pre-order placed. It becomes a regular order when the harvest is in; pre-orders are
+                      filled in the order they were placed.
+                      {deposit > 0 ? ` Please arrange the ${formatPrice(deposit)} deposit with the farmer.` : ''}
+                    </Text>
+                  </View>
+                  <View style={styles.modalFooter}>
+                    <View />
+                    <TouchableOpacity style={styles.confirmButton} onPress={() => setSelected(null)}>
+                      <Text style={styles.confirmText}>Done</Text>
+                    </TouchableOpacity>
+                  </View>
+                </>
+              ) : (
+                <>
+                  <Text style={styles.inputLabel}>
+                    Quantity ({getHarvestRemaining(selected)} {getHarvestUnit(selected)} left)
+                  </Text>
+                  <TextInput
+                    style={styles.input}
+                    value={quantity}
+                    onChangeText={setQuantity}
+                    keyboardType="numeric"
+                  />
+
+                  <Text style={styles.inputLabel}>Delivery address</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={address}
+                    onChangeText={setAddress}
+                    placeholder="Barangay, street, landmark"
+                    placeholderTextColor={colors.gray500}
+                  />
+
+                  <Text style={styles.inputLabel}>Notes (optional)</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={notes}
+                    onChangeText={setNotes}
+                    placeholderTextColor={colors.gray500}
+                  />
+
+                  <View style={styles.summary}>
+                    <Text style={styles.summaryText}>Estimated total: {formatPrice(total)}</Text>
+                    {deposit > 0 && (
+                      <Text style={styles.summaryText}>
+                        Deposit ({selected.deposit_percent}%): {formatPrice(deposit)}
+                      </Text>
+                    )}
+                    <Text style={styles.summaryHint}>
+                      If the harvest comes in short, your pre-order may be partially filled or cancelled.
+                    </Text>
+                  </View>
+
+                  {error && <Text style={styles.errorText}>{error}</Text>}
+
+                  <View style={styles.modalFooter}>
+                    <TouchableOpacity onPress={() => setSelected(null)} disabled={placing}>
+                      <Text style={styles.cancelText}>Cancel</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.confirmButton} onPress={handlePreorder} disabled={placing}>
+                      {placing ? (
+                        <ActivityIndicator size="small" color={colors.white} />
+                      ) : (
+                        <Text style={styles.confirmText}>Place Pre-order</Text>
+                      )}
+                    </TouchableOpacity>
+                  </View>
+                </>
+              )}
+            </View>
+          )}
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 20,
+  },
+
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+    flexWrap: 'wrap',
+  },
+
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.gray900,
+  },
+
+  subtitle: {
+    fontSize: 13,
+    color: colors.gray500,
+  },
+
+  list: {
+    gap: 12,
+    paddingRight: 4,
+  },
+
+  card: {
+    width: 180,
+    backgroundColor: colors.white,
+    borderRadius: 12,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: colors.soonLight,
+  },
+
+  image: {
+    width: '100%',
+    height: 100,
+  },
+
+  imagePlaceholder: {
+    backgroundColor: colors.gray100,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  badge: {
+    position: 'absolute',
+    top: 8,
+    left: 8,
+    backgroundColor: colors.soon,
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+  },
+
+  badgeText: {
+    color: colors.white,
+    fontSize: 11,
+    fontWeight: '700',
+  },
+
+  cardBody: {
+    padding: 10,
+  },
+
+  cardName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.gray900,
+  },
+
+  cardFarm: {
+    fontSize: 12,
+    color: colors.gray500,
+    marginTop: 2,
+  },
+
+  cardPrice: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.primary,
+    marginTop: 6,
+  },
+
+  cardMeta: {
+    fontSize: 11,
+    color: colors.gray500,
+    marginTop: 2,
+  },
+
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+
+  modal: {
+    backgroundColor: colors.white,
+    borderRadius: 16,
+    padding: 20,
+    width: '100%',
+    maxWidth: 420,
+  },
+
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.gray900,
+  },
+
+  modalText: {
+    fontSize: 13,
+    color: colors.gray500,
+    marginTop: 4,
+  },
+
+  inputLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.gray700,
+    marginTop: 14,
+    marginBottom: 6,
+  },
+
+  input: {
+    borderWidth: 1,
+    borderColor: colors.gray300,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: colors.gray900,
+  },
+
+  summary: {
+    backgroundColor: colors.gray100,
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 14,
+    gap: 4,
+  },
+
+  summaryText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.gray900,
+  },
+
+  summaryHint: {
+    fontSize: 12,
+    color: colors.gray500,
+  },
+
+  placedBox: {
+    flexDirection: 'row',
+    gap: 10,
+    backgroundColor: colors.gray100,
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 14,
+  },
+
+  placedText: {
+    flex: 1,
+    fontSize: 13,
+    color: colors.gray700,
+    lineHeight: 19,
+  },
+
+  errorText: {
+    color: colors.danger,
+    fontSize: 13,
+    marginTop: 12,
+  },
+
+  modalFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+
+  cancelText: {
+    fontSize: 14,
+    color: colors.gray500,
+    fontWeight: '500',
+  },
+
+  confirmButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    minWidth: 140,
+    alignItems: 'center',
+  },
+
+  confirmText: {
+    color: colors.white,
+    fontWeight: '600',
+    fontSize: 14,
+  },
+});
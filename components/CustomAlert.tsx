@@ -1,4 +1,4 @@
-import React, { useEffect } from 'react';
+import React, { useCallback, useEffect } from 'react';
 import {
   Modal,
   View,
@@ -137,7 +137,8 @@ export const useCustomAlert = () => {
     buttons: [],
   });
 
-  const showAlert = (title: string, message: string, buttons: AlertButton[]) => {
+  // Stable across renders so screens can call it from their own callbacks and effects
+  const showAlert = useCallback((title: string, message: string, buttons: AlertButton[]) => {
     if (Platform.OS === 'web') {
       setAlertConfig({
         visible: true,
@@ -156,7 +157,7 @@ export const useCustomAlert = () => {
         }))
       );
     }
-  };
+  }, []);
 
   const hideAlert = () => {
     setAlertConfig(prev => ({ ...prev, visible: false }));
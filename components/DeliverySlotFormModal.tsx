@@ -0,0 +1,334 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { saveDeliverySlot, WEEKDAYS } from '../services/deliverySlots';
+import { DeliverySlot, FulfillmentMethod } from '../types/orders';
+
+const colors = {
+  primary: '#059669',
+  danger: '#ef4444',
+  white: '#ffffff',
+  gray300: '#d1d5db',
+  gray500: '#6b7280',
+  gray700: '#374151',
+  gray900: '#111827',
+};
+
+interface DeliverySlotFormModalProps {
+  visible: boolean;
+  farmerId: string;
+  // The slot being edited; a new one is added when null
+  slot: DeliverySlot | null;
+  onClose: () => void;
+  onSaved: (slot: DeliverySlot) => void;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const KINDS: { key: FulfillmentMethod; label: string }[] = [
+  { key: 'pickup', label: 'Pickup point' },
+  { key: 'delivery', label: 'Delivery window' },
+];
+
+// Farmer form for a weekly delivery window or pickup point
+export default function DeliverySlotFormModal({ visible, farmerId, slot, onClose, onSaved }: DeliverySlotFormModalProps) {
+  const [kind, setKind] = useState<FulfillmentMethod>('pickup');
+  const [label, setLabel] = useState('');
+  const [location, setLocation] = useState('');
+  const [dayOfWeek, setDayOfWeek] = useState(6);
+  const [startTime, setStartTime] = useState('07:00');
+  const [endTime, setEndTime] = useState('10:00');
+  const [capacity, setCapacity] = useState('10');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setKind(slot?.kind || 'pickup');
+    setLabel(slot?.label || '');
+    setLocation(slot?.location || '');
+    setDayOfWeek(slot?.day_of_week ?? 6);
+    setStartTime(slot?.start_time.slice(0, 5) || '07:00');
+    setEndTime(slot?.end_time.slice(0, 5) || '10:00');
+    setCapacity(String(slot?.capacity ?? 10));
+    setError(null);
+  }, [visible, slot]);
+
+  const handleSubmit = async () => {
+    const slotCapacity = parseInt(capacity, 10);
+
+    if (!label.trim()) return setError('Give the slot a name buyers will recognise');
+    if (kind === 'pickup' && !location.trim()) return setError('Enter where buyers pick up their orders');
+    if (!TIME_PATTERN.test(startTime) || !TIME_PATTERN.test(endTime)) {
+      return setError('Enter times as HH:MM, e.g. 07:00 or 16:30');
+    }
+    if (endTime <= startTime) return setError('The window must end after it starts');
+    if (!slotCapacity || slotCapacity <= 0) return setError('Enter how many orders the slot can take');
+
+    try {
+      setSaving(true);
+      setError(null);
+      const saved = await saveDeliverySlot(farmerId, {
+        kind,
+        label,
+        location,
+        dayOfWeek,
+        startTime,
+        endTime,
+        capacity: slotCapacity
+      }, slot?.id);
+      onSaved(saved);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save delivery slot');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <Text style={styles.title}>{slot ? 'Edit Slot' : 'Add a Delivery Slot'}</Text>
+          <Text style={styles.subtitle}>Runs every week. Buyers choose a date when they check out.</Text>
+
+          <ScrollView style={styles.form} keyboardShouldPersistTaps="handled">
+            <Text style={styles.label}>Type</Text>
+            <View style={styles.chips}>
+              {KINDS.map((option) => (
+                <TouchableOpacity
+                  key={option.key}
+                  style={[styles.chip, kind === option.key && styles.chipActive]}
+                  onPress={() => setKind(option.key)}
+                >
+                  <Text style={[styles.chipText, kind === option.key && styles.chipTextActive]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.label}>Name</Text>
+            <TextInput
+              style={styles.input}
+              value={label}
+              onChangeText={setLabel}
+              placeholder={kind === 'pickup' ? 'Saturday market pickup' : 'Weekday morning delivery'}
+              placeholderTextColor={colors.gray500}
+            />
+
+            {kind === 'pickup' && (
+              <>
+                <Text style={styles.label}>Pickup point</Text>
+                <TextInput
+                  style={styles.input}
+                  value={location}
+                  onChangeText={setLocation}
+                  placeholder="Barangay hall"
+                  placeholderTextColor={colors.gray500}
+                />
+              </>
+            )}
+
+            <Text style={styles.label}>Day</Text>
+            <View style={styles.chips}>
+              {WEEKDAYS.map((day, index) => (
+                <TouchableOpacity
+                  key={day}
+                  style={[styles.chip, dayOfWeek === index && styles.chipActive]}
+                  onPress={() => setDayOfWeek(index)}
+                >
+                  <Text style={[styles.chipText, dayOfWeek === index && styles.chipTextActive]}>
+                    {day.slice(0, 3)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.row}>
+              <View style={styles.rowField}>
+                <Text style={styles.label}>From</Text>
+                <TextInput
+                  style={styles.input}
+                  value={startTime}
+                  onChangeText={setStartTime}
+                  placeholder="07:00"
+                  placeholderTextColor={colors.gray500}
+                />
+              </View>
+              <View style={styles.rowField}>
+                <Text style={styles.label}>Until</Text>
+                <TextInput
+                  style={styles.input}
+                  value={endTime}
+                  onChangeText={setEndTime}
+                  placeholder="10:00"
+                  placeholderTextColor={colors.gray500}
+                />
+              </View>
+            </View>
+
+            <Text style={styles.label}>Orders per date</Text>
+            <TextInput
+              style={styles.input}
+              value={capacity}
+              onChangeText={setCapacity}
+              keyboardType="numeric"
+              placeholder="10"
+              placeholderTextColor={colors.gray500}
+            />
+          </ScrollView>
+
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          <View style={styles.footer}>
+            <TouchableOpacity onPress={onClose} disabled={saving}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.submitButton} onPress={handleSubmit} disabled={saving}>
+              {saving ? (
+                <ActivityIndicator size="small" color={colors.white} />
+              ) : (
+                <Text style={styles.submitText}>Save Slot</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+
+  modal: {
+    backgroundColor: colors.white,
+    borderRadius: 16,
+    padding: 20,
+    width: '100%',
+    maxWidth: 480,
+    maxHeight: '90%',
+  },
+
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.gray900,
+  },
+
+  subtitle: {
+    fontSize: 13,
+    color: colors.gray500,
+    marginTop: 4,
+  },
+
+  form: {
+    marginTop: 8,
+  },
+
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.gray700,
+    marginTop: 14,
+    marginBottom: 6,
+  },
+
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+
+  chip: {
+    borderWidth: 1,
+    borderColor: colors.gray300,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+
+  chipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+
+  chipText: {
+    fontSize: 13,
+    color: colors.gray700,
+  },
+
+  chipTextActive: {
+    color: colors.white,
+    fontWeight: '600',
+  },
+
+  input: {
+    borderWidth: 1,
+    borderColor: colors.gray300,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: colors.gray900,
+    backgroundColor: colors.white,
+  },
+
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+
+  rowField: {
+    flex: 1,
+  },
+
+  errorText: {
+    color: colors.danger,
+    fontSize: 13,
+    marginTop: 12,
+  },
+
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+
+  cancelText: {
+    fontSize: 14,
+    color: colors.gray500,
+    fontWeight: '500',
+  },
+
+  submitButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingHorizontal: 18,
+    paddingVertical: 10,
+    minWidth: 120,
+    alignItems: 'center',
+  },
+
+  submitText: {
+    color: colors.white,
+    fontWeight: '600',
+    fontSize: 14,
+  },
+});
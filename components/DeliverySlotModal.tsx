@@ -0,0 +1,194 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { bookDeliverySlot, formatDeliverySchedule } from '../services/deliverySlots';
+import { Order } from '../types/orders';
+import DeliverySlotPicker, { DeliverySlotChoice } from './DeliverySlotPicker';
+
+const colors = {
+  primary: '#059669',
+  danger: '#ef4444',
+  white: '#ffffff',
+  gray500: '#6b7280',
+  gray900: '#111827',
+};
+
+export type SchedulableOrder = Pick<
+  Order,
+  | 'id' | 'buyer_id' | 'farmer_id' | 'delivery_slot_id' | 'delivery_date' | 'fulfillment_method'
+  | 'delivery_window_start' | 'delivery_window_end' | 'pickup_location'
+>;
+
+interface DeliverySlotModalProps {
+  visible: boolean;
+  order: SchedulableOrder | null;
+  // The buyer or farmer making the change
+  changedBy: string;
+  buyerName?: string;
+  farmerName?: string;
+  onClose: () => void;
+  onBooked: (order: Order) => void;
+}
+
+// Book or move an order's delivery slot from the order lists
+export default function DeliverySlotModal({
+  visible,
+  order,
+  changedBy,
+  buyerName,
+  farmerName,
+  onClose,
+  onBooked
+}: DeliverySlotModalProps) {
+  const current = useMemo(
+    () => order?.delivery_slot_id && order.delivery_date
+      ? { slotId: order.delivery_slot_id, date: order.delivery_date }
+      : null,
+    [order?.delivery_slot_id, order?.delivery_date]
+  );
+  const [choice, setChoice] = useState<DeliverySlotChoice | null>(current);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setChoice(current);
+    setError(null);
+  }, [visible, order?.id, current]);
+
+  if (!order) return null;
+
+  const unchanged = !choice || (choice.slotId === current?.slotId && choice.date === current?.date);
+
+  const handleSave = async () => {
+    if (!choice) return setError('Choose a delivery slot or pickup point');
+
+    try {
+      setSaving(true);
+      setError(null);
+      const updated = await bookDeliverySlot(order, choice.slotId, choice.date, changedBy, { buyerName, farmerName });
+      onBooked(updated);
+    } catch (err: any) {
+      setError(err.message || 'Failed to change the delivery slot');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <Text style={styles.title}>{current ? 'Change Delivery Slot' : 'Choose a Delivery Slot'}</Text>
+          <Text style={styles.subtitle}>
+            Order #{order.id.slice(-8)} · Currently: {formatDeliverySchedule(order)}
+          </Text>
+
+          <ScrollView style={styles.list} keyboardShouldPersistTaps="handled">
+            <DeliverySlotPicker farmerId={order.farmer_id} value={choice} onChange={setChoice} current={current} />
+          </ScrollView>
+
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          <View style={styles.footer}>
+            <TouchableOpacity onPress={onClose} disabled={saving}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.submitButton, unchanged && styles.submitDisabled]}
+              onPress={handleSave}
+              disabled={saving || unchanged}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color={colors.white} />
+              ) : (
+                <Text style={styles.submitText}>Save Slot</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+
+  modal: {
+    backgroundColor: colors.white,
+    borderRadius: 16,
+    padding: 20,
+    width: '100%',
+    maxWidth: 480,
+    maxHeight: '90%',
+  },
+
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.gray900,
+  },
+
+  subtitle: {
+    fontSize: 13,
+    color: colors.gray500,
+    marginTop: 4,
+    marginBottom: 12,
+  },
+
+  list: {
+    flexGrow: 0,
+  },
+
+  errorText: {
+    color: colors.danger,
+    fontSize: 13,
+    marginTop: 12,
+  },
+
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+
+  cancelText: {
+    fontSize: 14,
+    color: colors.gray500,
+    fontWeight: '500',
+  },
+
+  submitButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingHorizontal: 18,
+    paddingVertical: 10,
+    minWidth: 120,
+    alignItems: 'center',
+  },
+
+  submitDisabled: {
+    opacity: 0.5,
+  },
+
+  submitText: {
+    color: colors.white,
+    fontWeight: '600',
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import Icon from 'react-native-vector-icons/FontAwesome5';
+import { formatSlotDate, formatSlotWindow, getSlotOpenings } from '../services/deliverySlots';
+import { DeliverySlotOpening } from '../types/orders';
+
+const colors = {
+  primary: '#059669',
+  primaryLight: '#ecfdf5',
+  white: '#ffffff',
+  danger: '#ef4444',
+  gray200: '#e5e7eb',
+  gray400: '#9ca3af',
+  gray500: '#6b7280',
+  gray700: '#374151',
+  gray900: '#111827',
+};
+
+export interface DeliverySlotChoice {
+  slotId: string;
+  date: string;
+}
+
+interface DeliverySlotPickerProps {
+  farmerId: string;
+  value: DeliverySlotChoice | null;
+  onChange: (choice: DeliverySlotChoice | null) => void;
+  // The order's current booking, selectable even when the slot is otherwise full
+  current?: DeliverySlotChoice | null;
+}
+
+const isSame = (a: DeliverySlotChoice | null | undefined, b: DeliverySlotChoice | null | undefined) =>
+  !!a && !!b && a.slotId === b.slotId && a.date === b.date;
+
+// The delivery windows and pickup points a farmer runs in the next two weeks
+export default function DeliverySlotPicker({ farmerId, value, onChange, current }: DeliverySlotPickerProps) {
+  const [openings, setOpenings] = useState<DeliverySlotOpening[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    getSlotOpenings(farmerId)
+      .then((result) => {
+        if (!cancelled) setOpenings(result);
+      })
+      .catch((err) => {
+        console.error('Delivery slot picker error:', err);
+        if (!cancelled) setError(err.message || 'Failed to load delivery slots');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [farmerId]);
+
+  if (loading) {
+    return <ActivityIndicator size="small" color={colors.primary} style={styles.loading} />;
+  }
+
+  if (error) {
+    return <Text style={styles.errorText}>{error}</Text>;
+  }
+
+  if (openings.length === 0) {
+    return (
+      <Text style={styles.emptyText}>
+        This farmer has no delivery slots or pickup points set up. They will arrange delivery with you.
+      </Text>
+    );
+  }
+
+  return (
+    <View style={styles.list}>
+      {openings.map((opening) => {
+        const choice = { slotId: opening.slot.id, date: opening.date };
+        const selected = isSame(value, choice);
+        const full = opening.remaining <= 0 && !isSame(current, choice);
+        const isPickup = opening.slot.kind === 'pickup';
+
+        return (
+          <TouchableOpacity
+            key={`${opening.slot.id}-${opening.date}`}
+            style={[styles.option, selected && styles.optionSelected, full && styles.optionFull]}
+            onPress={() => onChange(selected ? null : choice)}
+            disabled={full}
+            activeOpacity={0.8}
+          >
+            <Icon
+              name={isPickup ? 'store' : 'truck'}
+              size={14}
+              color={selected ? colors.primary : colors.gray500}
+              style={styles.optionIcon}
+            />
+            <View style={styles.optionBody}>
+              <Text style={[styles.optionTitle, full && styles.mutedText]}>
+                {formatSlotDate(opening.date)} · {formatSlotWindow(opening.slot.start_time, opening.slot.end_time)}
+              </Text>
+              <Text style={styles.optionSubtitle}>
+                {isPickup ? `Pickup at ${opening.slot.location}` : opening.slot.label}
+              </Text>
+            </View>
+            <Text style={[styles.remaining, full && styles.fullText]}>
+              {full ? 'Full' : `${opening.remaining} left`}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  loading: {
+    marginVertical: 12,
+  },
+
+  list: {
+    gap: 8,
+  },
+
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: colors.gray200,
+    borderRadius: 10,
+    padding: 12,
+    backgroundColor: colors.white,
+  },
+
+  optionSelected: {
+    borderColor: colors.primary,
+    backgroundColor: colors.primaryLight,
+  },
+
+  optionFull: {
+    opacity: 0.6,
+  },
+
+  optionIcon: {
+    width: 20,
+    marginRight: 10,
+  },
+
+  optionBody: {
+    flex: 1,
+  },
+
+  optionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.gray900,
+  },
+
+  optionSubtitle: {
+    fontSize: 12,
+    color: colors.gray500,
+    marginTop: 2,
+  },
+
+  remaining: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.primary,
+    marginLeft: 8,
+  },
+
+  fullText: {
+    color: colors.danger,
+  },
+
+  mutedText: {
+    color: colors.gray400,
+  },
+
+  emptyText: {
+    fontSize: 13,
+    color: colors.gray500,
+  },
+
+  errorText: {
+    fontSize: 13,
+    color: colors.danger,
+  },
+});
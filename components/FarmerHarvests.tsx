@@ -0,0 +1,606 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import Icon from 'react-native-vector-icons/FontAwesome5';
+import {
+  cancelHarvest,
+  getFarmerHarvests,
+  getHarvestName,
+  getHarvestPreorders,
+  getHarvestUnit,
+  updatePreorderDeposit
+} from '../services/harvests';
+import { completeHarvest } from '../services/orders';
+import { Harvest, Preorder, PREORDER_STATUS_CONFIG } from '../types/orders';
+import ConfirmationModal from './ConfirmationModal';
+import HarvestScheduleModal, { HarvestProductOption } from './HarvestScheduleModal';
+
+const colors = {
+  primary: '#059669',
+  danger: '#ef4444',
+  white: '#ffffff',
+  gray100: '#f9fafb',
+  gray200: '#e5e7eb',
+  gray300: '#d1d5db',
+  gray500: '#6b7280',
+  gray700: '#374151',
+  text: '#0f172a',
+  border: '#d1fae5',
+};
+
+interface FarmerHarvestsProps {
+  farmerId: string;
+  products: HarvestProductOption[];
+  // Called after a harvest is completed, since leftover yield changes stock
+  onStockChanged?: () => void;
+}
+
+const formatPrice = (price: number) =>
+  new Intl.NumberFormat('en-PH', { style: 'currency', currency: 'PHP' }).format(price);
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-PH', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const DEPOSIT_LABELS: Record<Preorder['deposit_status'], string> = {
+  none: 'No deposit',
+  pending: 'Deposit not yet received',
+  paid: 'Deposit received',
+  applied: 'Deposit applied to order',
+  refund_due: 'Deposit to return',
+  refunded: 'Deposit returned',
+};
+
+// "Upcoming Harvests" on the farmer's products screen: schedule harvests, follow
+// pre-orders and mark harvests as done so the pre-orders become orders
+export default function FarmerHarvests({ farmerId, products, onStockChanged }: FarmerHarvestsProps) {
+  const [harvests, setHarvests] = useState<Harvest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [preorders, setPreorders] = useState<Preorder[]>([]);
+  const [loadingPreorders, setLoadingPreorders] = useState(false);
+  const [completing, setCompleting] = useState<Harvest | null>(null);
+  const [actualQuantity, setActualQuantity] = useState('');
+  const [cancelling, setCancelling] = useState<Harvest | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const loadHarvests = useCallback(async () => {
+    try {
+      setHarvests(await getFarmerHarvests(farmerId));
+    } catch (error) {
+      console.error('Error loading harvests:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [farmerId]);
+
+  useEffect(() => {
+    loadHarvests();
+  }, [loadHarvests]);
+
+  const loadPreorders = async (harvestId: string) => {
+    try {
+      setLoadingPreorders(true);
+      setPreorders(await getHarvestPreorders(harvestId));
+    } catch (error) {
+      console.error('Error loading pre-orders:', error);
+      setPreorders([]);
+    } finally {
+      setLoadingPreorders(false);
+    }
+  };
+
+  const togglePreorders = (harvest: Harvest) => {
+    if (expandedId === harvest.id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(harvest.id);
+    loadPreorders(harvest.id);
+  };
+
+  const handleDeposit = async (preorder: Preorder, status: 'paid' | 'refunded') => {
+    try {
+      await updatePreorderDeposit(preorder.id, status);
+      await loadPreorders(preorder.harvest_id);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to update deposit');
+    }
+  };
+
+  const handleComplete = async () => {
+    if (!completing) return;
+    const quantity = parseInt(actualQuantity, 10);
+    if (isNaN(quantity) || quantity < 0) {
+      Alert.alert('Invalid Quantity', 'Enter how much you actually harvested.');
+      return;
+    }
+
+    try {
+      setBusy(true);
+      const { restockedQuantity, outcomes } = await completeHarvest(completing, quantity);
+      const unit = getHarvestUnit(completing);
+      const filled = outcomes.filter(outcome => outcome.outcome === 'converted').length;
+      const partial = outcomes.filter(outcome => outcome.outcome === 'partially_filled').length;
+      const cancelled = outcomes.filter(outcome => outcome.outcome === 'cancelled').length;
+
+      setCompleting(null);
+      setExpandedId(null);
+      await loadHarvests();
+      onStockChanged?.();
+
+      Alert.alert(
+        'Harvest Recorded',
+        `${filled} pre-order(s) became orders` +
+          (partial > 0 ? `, ${partial} partially filled` : '') +
+          (cancelled > 0 ? `, ${cancelled} cancelled` : '') +
+          `.${restockedQuantity > 0 ? ` ${restockedQuantity} ${unit} added to your stock.` : ''}`
+      );
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to record harvest');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!cancelling) return;
+    try {
+      setBusy(true);
+      await cancelHarvest(cancelling);
+      setCancelling(null);
+      await loadHarvests();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to cancel harvest');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renderPreorder = (preorder: Preorder, harvest: Harvest) => {
+    const statusConfig = PREORDER_STATUS_CONFIG[preorder.status];
+    const buyerName = `${preorder.buyer?.first_name || ''} ${preorder.buyer?.last_name || ''}`.trim() || 'Buyer';
+
+    return (
+      <View key={preorder.id} style={styles.preorderRow}>
+        <View style={styles.preorderInfo}>
+          <Text style={styles.preorderBuyer}>{buyerName}</Text>
+          <Text style={styles.preorderMeta}>
+            {preorder.quantity} {getHarvestUnit(harvest)} · {formatPrice(preorder.quantity * preorder.unit_price)}
+            {preorder.fulfilled_quantity > 0 && preorder.status === 'partially_filled'
+              ? ` · ${preorder.fulfilled_quantity} filled`
+              : ''}
+          </Text>
+          {preorder.deposit_amount > 0 && (
+            <Text style={styles.preorderMeta}>
+              {formatPrice(preorder.deposit_amount)} · {DEPOSIT_LABELS[preorder.deposit_status]}
+            </Text>
+          )}
+        </View>
+        <View style={styles.preorderActions}>
+          <View style={[styles.badge, { backgroundColor: statusConfig.bgColor }]}>
+            <Text style={[styles.badgeText, { color: statusConfig.color }]}>{statusConfig.label}</Text>
+          </View>
+          {preorder.deposit_status === 'pending' && preorder.status === 'pending' && (
+            <TouchableOpacity onPress={() => handleDeposit(preorder, 'paid')}>
+              <Text style={styles.linkText}>Mark deposit received</Text>
+            </TouchableOpacity>
+          )}
+          {preorder.deposit_status === 'refund_due' && (
+            <TouchableOpacity onPress={() => handleDeposit(preorder, 'refunded')}>
+              <Text style={styles.linkText}>Mark deposit returned</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  const renderHarvest = (harvest: Harvest) => {
+    const unit = getHarvestUnit(harvest);
+    const isOpen = harvest.status === 'open';
+
+    return (
+      <View key={harvest.id} style={[styles.card, !isOpen && styles.cardClosed]}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.cardTitle} numberOfLines={1}>{getHarvestName(harvest)}</Text>
+          <Text style={styles.cardDate}>
+            {isOpen ? formatDate(harvest.expected_date) : harvest.status === 'harvested' ? 'Harvested' : 'Cancelled'}
+          </Text>
+        </View>
+        <Text style={styles.cardMeta}>
+          {isOpen
+            ? `${harvest.reserved_quantity || 0} of ${harvest.projected_quantity} ${unit} pre-ordered`
+            : harvest.status === 'harvested'
+              ? `${harvest.actual_quantity} of ${harvest.projected_quantity} ${unit} expected`
+              : `${harvest.projected_quantity} ${unit} expected`}
+          {' · '}{formatPrice(harvest.price)}/{unit}
+          {harvest.deposit_percent > 0 ? ` · ${harvest.deposit_percent}% deposit` : ''}
+        </Text>
+
+        <View style={styles.cardActions}>
+          <TouchableOpacity style={styles.actionButton} onPress={() => togglePreorders(harvest)}>
+            <Icon name={expandedId === harvest.id ? 'chevron-up' : 'list'} size={12} color={colors.primary} />
+            <Text style={styles.actionText}>Pre-orders</Text>
+          </TouchableOpacity>
+          {isOpen && (
+            <>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.primaryAction]}
+                onPress={() => {
+                  setActualQuantity(String(harvest.projected_quantity));
+                  setCompleting(harvest);
+                }}
+              >
+                <Icon name="check" size={12} color={colors.white} />
+                <Text style={[styles.actionText, styles.primaryActionText]}>Mark Harvested</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.actionButton} onPress={() => setCancelling(harvest)}>
+                <Icon name="times" size={12} color={colors.danger} />
+                <Text style={[styles.actionText, styles.dangerText]}>Cancel</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+
+        {expandedId === harvest.id && (
+          <View style={styles.preorderList}>
+            {loadingPreorders ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : preorders.length === 0 ? (
+              <Text style={styles.emptyText}>No pre-orders yet</Text>
+            ) : (
+              preorders.map(preorder => renderPreorder(preorder, harvest))
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.sectionHeader}>
+        <View>
+          <Text style={styles.sectionTitle}>Upcoming Harvests</Text>
+          <Text style={styles.sectionSubtitle}>Let buyers pre-order what you have not harvested yet</Text>
+        </View>
+        <TouchableOpacity
+          style={styles.scheduleButton}
+          onPress={() => setShowSchedule(true)}
+          disabled={products.length === 0}
+        >
+          <Icon name="seedling" size={12} color={colors.white} />
+          <Text style={styles.scheduleText}>Schedule</Text>
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <ActivityIndicator size="small" color={colors.primary} />
+      ) : harvests.length === 0 ? (
+        <Text style={styles.emptyText}>
+          {products.length === 0
+            ? 'Add a product first, then schedule its next harvest.'
+            : 'No harvests scheduled.'}
+        </Text>
+      ) : (
+        harvests.map(renderHarvest)
+      )}
+
+      <HarvestScheduleModal
+        visible={showSchedule}
+        products={products}
+        onClose={() => setShowSchedule(false)}
+        onScheduled={() => {
+          setShowSchedule(false);
+          loadHarvests();
+        }}
+      />
+
+      <Modal visible={!!completing} transparent animationType="fade" onRequestClose={() => setCompleting(null)}>
+        <View style={styles.overlay}>
+          <View style={styles.modal}>
+            <Text style={styles.modalTitle}>Mark as Harvested</Text>
+            <Text style={styles.modalText}>
+              Pre-orders are filled in the order they were placed. If the harvest came in short, the last
+              ones are partially filled or cancelled. Anything left over is added to your stock.
+            </Text>
+            <Text style={styles.inputLabel}>
+              Actual quantity ({completing ? getHarvestUnit(completing) : ''})
+            </Text>
+            <TextInput
+              style={styles.input}
+              value={actualQuantity}
+              onChangeText={setActualQuantity}
+              keyboardType="numeric"
+            />
+            <View style={styles.modalFooter}>
+              <TouchableOpacity onPress={() => setCompleting(null)} disabled={busy}>
+                <Text style={styles.cancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.confirmButton} onPress={handleComplete} disabled={busy}>
+                {busy ? (
+                  <ActivityIndicator size="small" color={colors.white} />
+                ) : (
+                  <Text style={styles.confirmText}>Convert Pre-orders</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <ConfirmationModal
+        visible={!!cancelling}
+        title="Cancel Harvest?"
+        message="All pending pre-orders will be cancelled and the buyers notified. Deposits you received are marked to be returned."
+        confirmText={busy ? 'Cancelling...' : 'Yes, Cancel'}
+        isDestructive={true}
+        onConfirm={handleCancel}
+        onCancel={() => setCancelling(null)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    backgroundColor: colors.white,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 16,
+    marginBottom: 16,
+  },
+
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text,
+  },
+
+  sectionSubtitle: {
+    fontSize: 12,
+    color: colors.gray500,
+    marginTop: 2,
+  },
+
+  scheduleButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+
+  scheduleText: {
+    color: colors.white,
+    fontWeight: '600',
+    fontSize: 13,
+  },
+
+  emptyText: {
+    fontSize: 13,
+    color: colors.gray500,
+    paddingVertical: 8,
+  },
+
+  card: {
+    borderWidth: 1,
+    borderColor: colors.gray200,
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 10,
+  },
+
+  cardClosed: {
+    backgroundColor: colors.gray100,
+  },
+
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+
+  cardTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+
+  cardDate: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+
+  cardMeta: {
+    fontSize: 12,
+    color: colors.gray500,
+    marginTop: 4,
+  },
+
+  cardActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 10,
+  },
+
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    borderWidth: 1,
+    borderColor: colors.gray300,
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+
+  primaryAction: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+
+  actionText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.gray700,
+  },
+
+  primaryActionText: {
+    color: colors.white,
+  },
+
+  dangerText: {
+    color: colors.danger,
+  },
+
+  preorderList: {
+    marginTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: colors.gray200,
+    paddingTop: 8,
+  },
+
+  preorderRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+    gap: 8,
+  },
+
+  preorderInfo: {
+    flex: 1,
+  },
+
+  preorderBuyer: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text,
+  },
+
+  preorderMeta: {
+    fontSize: 12,
+    color: colors.gray500,
+    marginTop: 2,
+  },
+
+  preorderActions: {
+    alignItems: 'flex-end',
+    gap: 4,
+  },
+
+  badge: {
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+
+  badgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+
+  linkText: {
+    fontSize: 12,
+    color: colors.primary,
+    fontWeight: '600',
+  },
+
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+
+  modal: {
+    backgroundColor: colors.white,
+    borderRadius: 16,
+    padding: 20,
+    width: '100%',
+    maxWidth: 420,
+  },
+
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text,
+    marginBottom: 8,
+  },
+
+  modalText: {
+    fontSize: 13,
+    color: colors.gray500,
+    lineHeight: 19,
+  },
+
+  inputLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.gray700,
+    marginTop: 14,
+    marginBottom: 6,
+  },
+
+  input: {
+    borderWidth: 1,
+    borderColor: colors.gray300,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: colors.text,
+  },
+
+  modalFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+
+  cancelText: {
+    fontSize: 14,
+    color: colors.gray500,
+    fontWeight: '500',
+  },
+
+  confirmButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    minWidth: 150,
+    alignItems: 'center',
+  },
+
+  confirmText: {
+    color: colors.white,
+    fontWeight: '600',
+    fontSize: 14,
+  },
+});
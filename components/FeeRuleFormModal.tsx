@@ -0,0 +1,322 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { saveFeeRule } from '../services/payouts';
+import { FarmerBalance, PayoutFeeRule } from '../types/orders';
+
+const colors = {
+  primary: '#059669',
+  danger: '#ef4444',
+  white: '#ffffff',
+  gray300: '#d1d5db',
+  gray500: '#6b7280',
+  gray700: '#374151',
+  gray900: '#111827',
+};
+
+type FeeRuleScope = 'all' | 'barangay' | 'farmer';
+
+interface FeeRuleFormModalProps {
+  visible: boolean;
+  adminId: string;
+  // Only super-admins may set fees for every farmer
+  isSuperAdmin: boolean;
+  // Suggested for barangay rules
+  defaultBarangay: string | null;
+  // Farmers a rule can be set for
+  farmers: FarmerBalance[];
+  // The rule being edited; a new one is added when null
+  rule: PayoutFeeRule | null;
+  onClose: () => void;
+  onSaved: (rule: PayoutFeeRule) => void;
+}
+
+const ruleScope = (rule: PayoutFeeRule | null): FeeRuleScope => {
+  if (rule?.farmer_id) return 'farmer';
+  if (rule?.barangay) return 'barangay';
+  return rule ? 'all' : 'barangay';
+};
+
+// Admin form for a platform or cooperative fee taken from each sale
+export default function FeeRuleFormModal({
+  visible,
+  adminId,
+  isSuperAdmin,
+  defaultBarangay,
+  farmers,
+  rule,
+  onClose,
+  onSaved
+}: FeeRuleFormModalProps) {
+  const [name, setName] = useState('');
+  const [percent, setPercent] = useState('');
+  const [scope, setScope] = useState<FeeRuleScope>('barangay');
+  const [barangay, setBarangay] = useState('');
+  const [farmerId, setFarmerId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setName(rule?.name || '');
+    setPercent(rule ? String(rule.percent) : '');
+    setScope(ruleScope(rule));
+    setBarangay(rule?.barangay || defaultBarangay || '');
+    setFarmerId(rule?.farmer_id || null);
+    setError(null);
+  }, [visible, rule, defaultBarangay]);
+
+  const scopes: { key: FeeRuleScope; label: string }[] = [
+    ...(isSuperAdmin ? [{ key: 'all' as const, label: 'All farmers' }] : []),
+    { key: 'barangay', label: 'One barangay' },
+    { key: 'farmer', label: 'One farmer' },
+  ];
+
+  const handleSubmit = async () => {
+    const feePercent = parseFloat(percent);
+
+    if (!name.trim()) return setError('Name the fee, e.g. Platform fee or Cooperative share');
+    if (isNaN(feePercent) || feePercent < 0 || feePercent > 100) return setError('Enter a percentage from 0 to 100');
+    if (scope === 'barangay' && !barangay.trim()) return setError('Enter the barangay the fee applies to');
+    if (scope === 'farmer' && !farmerId) return setError('Choose the farmer the fee applies to');
+
+    try {
+      setSaving(true);
+      setError(null);
+      const saved = await saveFeeRule({
+        name,
+        percent: feePercent,
+        barangay: scope === 'barangay' ? barangay : null,
+        farmerId: scope === 'farmer' ? farmerId : null
+      }, adminId, rule?.id);
+      onSaved(saved);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save fee');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <Text style={styles.title}>{rule ? 'Edit Fee' : 'Add a Fee'}</Text>
+          <Text style={styles.subtitle}>Taken from each sale paid from now on. Earlier sales keep their fees.</Text>
+
+          <ScrollView style={styles.form} keyboardShouldPersistTaps="handled">
+            <Text style={styles.label}>Name</Text>
+            <TextInput
+              style={styles.input}
+              value={name}
+              onChangeText={setName}
+              placeholder="Cooperative share"
+              placeholderTextColor={colors.gray500}
+            />
+
+            <Text style={styles.label}>Percent of each sale</Text>
+            <TextInput
+              style={styles.input}
+              value={percent}
+              onChangeText={setPercent}
+              keyboardType="decimal-pad"
+              placeholder="5"
+              placeholderTextColor={colors.gray500}
+            />
+
+            <Text style={styles.label}>Applies to</Text>
+            <View style={styles.chips}>
+              {scopes.map((option) => (
+                <TouchableOpacity
+                  key={option.key}
+                  style={[styles.chip, scope === option.key && styles.chipActive]}
+                  onPress={() => setScope(option.key)}
+                >
+                  <Text style={[styles.chipText, scope === option.key && styles.chipTextActive]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {scope === 'barangay' && (
+              <>
+                <Text style={styles.label}>Barangay</Text>
+                <TextInput
+                  style={styles.input}
+                  value={barangay}
+                  onChangeText={setBarangay}
+                  placeholder="Barangay"
+                  placeholderTextColor={colors.gray500}
+                />
+              </>
+            )}
+
+            {scope === 'farmer' && (
+              <>
+                <Text style={styles.label}>Farmer</Text>
+                {farmers.length === 0 ? (
+                  <Text style={styles.subtitle}>No farmers with sales yet.</Text>
+                ) : (
+                  <View style={styles.chips}>
+                    {farmers.map((farmer) => (
+                      <TouchableOpacity
+                        key={farmer.farmer_id}
+                        style={[styles.chip, farmerId === farmer.farmer_id && styles.chipActive]}
+                        onPress={() => setFarmerId(farmer.farmer_id)}
+                      >
+                        <Text style={[styles.chipText, farmerId === farmer.farmer_id && styles.chipTextActive]}>
+                          {farmer.farm_name || `${farmer.first_name || ''} ${farmer.last_name || ''}`.trim()}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                )}
+              </>
+            )}
+          </ScrollView>
+
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          <View style={styles.footer}>
+            <TouchableOpacity onPress={onClose} disabled={saving}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.submitButton} onPress={handleSubmit} disabled={saving}>
+              {saving ? (
+                <ActivityIndicator size="small" color={colors.white} />
+              ) : (
+                <Text style={styles.submitText}>Save Fee</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+
+  modal: {
+    backgroundColor: colors.white,
+    borderRadius: 16,
+    padding: 20,
+    width: '100%',
+    maxWidth: 480,
+    maxHeight: '90%',
+  },
+
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.gray900,
+  },
+
+  subtitle: {
+    fontSize: 13,
+    color: colors.gray500,
+    marginTop: 4,
+  },
+
+  form: {
+    marginTop: 8,
+  },
+
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.gray700,
+    marginTop: 14,
+    marginBottom: 6,
+  },
+
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+
+  chip: {
+    borderWidth: 1,
+    borderColor: colors.gray300,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+
+  chipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+
+  chipText: {
+    fontSize: 13,
+    color: colors.gray700,
+  },
+
+  chipTextActive: {
+    color: colors.white,
+    fontWeight: '600',
+  },
+
+  input: {
+    borderWidth: 1,
+    borderColor: colors.gray300,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: colors.gray900,
+    backgroundColor: colors.white,
+  },
+
+  errorText: {
+    color: colors.danger,
+    fontSize: 13,
+    marginTop: 12,
+  },
+
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+
+  cancelText: {
+    fontSize: 14,
+    color: colors.gray500,
+    fontWeight: '500',
+  },
+
+  submitButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingHorizontal: 18,
+    paddingVertical: 10,
+    minWidth: 120,
+    alignItems: 'center',
+  },
+
+  submitText: {
+    color: colors.white,
+    fontWeight: '600',
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,374 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { scheduleHarvest } from '../services/harvests';
+import { getProductVariants, ProductVariant } from '../services/products';
+
+const colors = {
+  primary: '#059669',
+  danger: '#ef4444',
+  white: '#ffffff',
+  gray300: '#d1d5db',
+  gray500: '#6b7280',
+  gray700: '#374151',
+  gray900: '#111827',
+};
+
+export interface HarvestProductOption {
+  id: string;
+  name: string;
+  unit: string;
+  price: number;
+}
+
+interface HarvestScheduleModalProps {
+  visible: boolean;
+  // The farmer's listings a harvest can be scheduled for
+  products: HarvestProductOption[];
+  onClose: () => void;
+  onScheduled: () => void;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+// Farmer form to publish an expected harvest buyers can pre-order from
+export default function HarvestScheduleModal({ visible, products, onClose, onScheduled }: HarvestScheduleModalProps) {
+  const [productId, setProductId] = useState<string | null>(null);
+  const [variants, setVariants] = useState<ProductVariant[]>([]);
+  const [variantId, setVariantId] = useState<string | null>(null);
+  const [expectedDate, setExpectedDate] = useState('');
+  const [projectedQuantity, setProjectedQuantity] = useState('');
+  const [price, setPrice] = useState('');
+  const [depositPercent, setDepositPercent] = useState('0');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    const nextWeek = new Date();
+    nextWeek.setDate(nextWeek.getDate() + 7);
+    setProductId(null);
+    setVariants([]);
+    setVariantId(null);
+    setExpectedDate(toDateInput(nextWeek));
+    setProjectedQuantity('');
+    setPrice('');
+    setDepositPercent('0');
+    setNotes('');
+    setError(null);
+  }, [visible]);
+
+  const selectProduct = async (product: HarvestProductOption) => {
+    setProductId(product.id);
+    setVariantId(null);
+    setPrice(String(product.price));
+    try {
+      const { variants: productVariants } = await getProductVariants(product.id);
+      setVariants(productVariants);
+    } catch {
+      setVariants([]);
+    }
+  };
+
+  const selectVariant = (variant: ProductVariant) => {
+    setVariantId(variant.id);
+    setPrice(String(variant.price));
+  };
+
+  const handleSubmit = async () => {
+    const quantity = parseInt(projectedQuantity, 10);
+    const unitPrice = parseFloat(price);
+    const deposit = parseInt(depositPercent || '0', 10);
+
+    if (!productId) return setError('Choose the product you are harvesting');
+    if (variants.length > 0 && !variantId) return setError('Choose which option you are harvesting');
+    if (!DATE_PATTERN.test(expectedDate) || isNaN(new Date(expectedDate).getTime())) {
+      return setError('Enter the expected date as YYYY-MM-DD');
+    }
+    if (expectedDate < toDateInput(new Date())) return setError('The expected date cannot be in the past');
+    if (!quantity || quantity <= 0) return setError('Enter the quantity you expect to harvest');
+    if (!unitPrice || unitPrice <= 0) return setError('Enter the pre-order price');
+    if (isNaN(deposit) || deposit < 0 || deposit > 100) return setError('Deposit must be between 0 and 100%');
+
+    try {
+      setSaving(true);
+      setError(null);
+      await scheduleHarvest({
+        productId,
+        variantId,
+        expectedDate,
+        projectedQuantity: quantity,
+        price: unitPrice,
+        depositPercent: deposit,
+        notes: notes.trim() || undefined
+      });
+      onScheduled();
+    } catch (err: any) {
+      setError(err.message || 'Failed to schedule harvest');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const unit = variants.find(variant => variant.id === variantId)?.unit
+    || products.find(product => product.id === productId)?.unit
+    || 'unit';
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <Text style={styles.title}>Schedule a Harvest</Text>
+          <Text style={styles.subtitle}>Buyers can pre-order from it until you mark it as harvested.</Text>
+
+          <ScrollView style={styles.form} keyboardShouldPersistTaps="handled">
+            <Text style={styles.label}>Product</Text>
+            <View style={styles.chips}>
+              {products.map((product) => (
+                <TouchableOpacity
+                  key={product.id}
+                  style={[styles.chip, productId === product.id && styles.chipActive]}
+                  onPress={() => selectProduct(product)}
+                >
+                  <Text style={[styles.chipText, productId === product.id && styles.chipTextActive]}>
+                    {product.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {variants.length > 0 && (
+              <>
+                <Text style={styles.label}>Option</Text>
+                <View style={styles.chips}>
+                  {variants.map((variant) => (
+                    <TouchableOpacity
+                      key={variant.id}
+                      style={[styles.chip, variantId === variant.id && styles.chipActive]}
+                      onPress={() => selectVariant(variant)}
+                    >
+                      <Text style={[styles.chipText, variantId === variant.id && styles.chipTextActive]}>
+                        {variant.name}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </>
+            )}
+
+            <Text style={styles.label}>Expected harvest date</Text>
+            <TextInput
+              style={styles.input}
+              value={expectedDate}
+              onChangeText={setExpectedDate}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor={colors.gray500}
+            />
+
+            <View style={styles.row}>
+              <View style={styles.rowField}>
+                <Text style={styles.label}>Expected quantity ({unit})</Text>
+                <TextInput
+                  style={styles.input}
+                  value={projectedQuantity}
+                  onChangeText={setProjectedQuantity}
+                  keyboardType="numeric"
+                  placeholder="0"
+                  placeholderTextColor={colors.gray500}
+                />
+              </View>
+              <View style={styles.rowField}>
+                <Text style={styles.label}>Price per {unit} (₱)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={price}
+                  onChangeText={setPrice}
+                  keyboardType="decimal-pad"
+                  placeholder="0.00"
+                  placeholderTextColor={colors.gray500}
+                />
+              </View>
+            </View>
+
+            <Text style={styles.label}>Deposit (% of the pre-order, 0 for none)</Text>
+            <TextInput
+              style={styles.input}
+              value={depositPercent}
+              onChangeText={setDepositPercent}
+              keyboardType="numeric"
+              placeholder="0"
+              placeholderTextColor={colors.gray500}
+            />
+
+            <Text style={styles.label}>Notes (optional)</Text>
+            <TextInput
+              style={[styles.input, styles.notesInput]}
+              value={notes}
+              onChangeText={setNotes}
+              multiline
+              placeholder="Variety, how you will deliver, etc."
+              placeholderTextColor={colors.gray500}
+            />
+          </ScrollView>
+
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          <View style={styles.footer}>
+            <TouchableOpacity onPress={onClose} disabled={saving}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.submitButton} onPress={handleSubmit} disabled={saving}>
+              {saving ? (
+                <ActivityIndicator size="small" color={colors.white} />
+              ) : (
+                <Text style={styles.submitText}>Publish Harvest</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+
+  modal: {
+    backgroundColor: colors.white,
+    borderRadius: 16,
+    padding: 20,
+    width: '100%',
+    maxWidth: 480,
+    maxHeight: '90%',
+  },
+
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.gray900,
+  },
+
+  subtitle: {
+    fontSize: 13,
+    color: colors.gray500,
+    marginTop: 4,
+  },
+
+  form: {
+    marginTop: 8,
+  },
+
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.gray700,
+    marginTop: 14,
+    marginBottom: 6,
+  },
+
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+
+  chip: {
+    borderWidth: 1,
+    borderColor: colors.gray300,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+
+  chipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+
+  chipText: {
+    fontSize: 13,
+    color: colors.gray700,
+  },
+
+  chipTextActive: {
+    color: colors.white,
+    fontWeight: '600',
+  },
+
+  input: {
+    borderWidth: 1,
+    borderColor: colors.gray300,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: colors.gray900,
+    backgroundColor: colors.white,
+  },
+
+  notesInput: {
+    minHeight: 70,
+    textAlignVertical: 'top',
+  },
+
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+
+  rowField: {
+    flex: 1,
+  },
+
+  errorText: {
+    color: colors.danger,
+    fontSize: 13,
+    marginTop: 12,
+  },
+
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+
+  cancelText: {
+    fontSize: 14,
+    color: colors.gray500,
+    fontWeight: '500',
+  },
+
+  submitButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingHorizontal: 18,
+    paddingVertical: 10,
+    minWidth: 130,
+    alignItems: 'center',
+  },
+
+  submitText: {
+    color: colors.white,
+    fontWeight: '600',
+    fontSize: 14,
+  },
+});
@@ -69,6 +69,13 @@ const NAV_ITEMS: NavItem[] = [
     route: '/farmer/orders',
     userTypes: ['farmer'],
   },
+  {
+    id: 'farmer-deliveries',
+    title: 'Deliveries',
+    icon: 'truck',
+    route: '/farmer/deliveries',
+    userTypes: ['farmer'],
+  },
   {
     id: 'farmer-inventory',
     title: 'Inventory',
@@ -83,6 +90,13 @@ const NAV_ITEMS: NavItem[] = [
     route: '/farmer/sales-history',
     userTypes: ['farmer'],
   },
+  {
+    id: 'farmer-payouts',
+    title: 'Payouts',
+    icon: 'wallet',
+    route: '/farmer/payouts',
+    userTypes: ['farmer'],
+  },
 
   // Buyer items
   {
@@ -129,6 +143,13 @@ const NAV_ITEMS: NavItem[] = [
     route: '/admin/verifications',
     userTypes: ['admin'],
   },
+  {
+    id: 'admin-payouts',
+    title: 'Payouts',
+    icon: 'hand-holding-usd',
+    route: '/admin/payouts',
+    userTypes: ['admin', 'super-admin'],
+  },
   // Super Admin items
   {
     id: 'super-admin-users',
@@ -137,6 +158,13 @@ const NAV_ITEMS: NavItem[] = [
     route: '/super-admin/users',
     userTypes: ['super-admin'],
   },
+  {
+    id: 'super-admin-sms-simulator',
+    title: 'SMS Simulator',
+    icon: 'sms',
+    route: '/super-admin/sms-simulator',
+    userTypes: ['super-admin'],
+  },
 ];
 
 interface HeaderComponentProps {
@@ -267,6 +295,7 @@ export default function HeaderComponent({
     notifications: realtimeNotifications,
     unreadCount,
     markAsRead,
+    markAllAsRead,
     refreshNotifications
   } = useNotifications(profile?.id || null);
 
@@ -869,12 +898,8 @@ export default function HeaderComponent({
                   }
                 }}
                 onMarkAllAsRead={() => {
-                  // Mark all as read
-                  convertedNotifications.forEach(notif => {
-                    if (!notif.read) {
-                      markAsRead(notif.id);
-                    }
-                  });
+                  // Mark all as read, including ones older than the dropdown shows
+                  markAllAsRead();
                   // Call original handler if provided
                   if (onMarkAllNotificationsAsRead) {
                     onMarkAllNotificationsAsRead();
@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import {
+  describePriceDifference,
+  formatTrend,
+  getMarketReference,
+  getPriceDifference,
+  MarketReference,
+} from '../services/marketPrices';
+import LineChart from './charts/LineChart';
+
+const colors = {
+  primary: '#059669',
+  up: '#dc2626',
+  down: '#059669',
+  text: '#0f172a',
+  textSecondary: '#6b7280',
+  border: '#e5e7eb',
+  surface: '#f9fafb',
+};
+
+interface MarketPriceChartProps {
+  crop: string;
+  unit: string;
+  price: number;
+  barangay?: string | null;
+}
+
+const formatDay = (date: string) =>
+  new Date(date).toLocaleDateString('en-PH', { month: 'short', day: 'numeric' });
+
+// Market median for the crop over the last 30 days, for buyers comparing a listing's price
+export default function MarketPriceChart({ crop, unit, price, barangay }: MarketPriceChartProps) {
+  const [reference, setReference] = useState<MarketReference | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getMarketReference({ crop, unit, barangay })
+      .then((result) => {
+        if (!cancelled) setReference(result);
+      })
+      .catch((error) => {
+        console.error('Market price chart error:', error);
+        if (!cancelled) setReference(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [crop, unit, barangay]);
+
+  // A single listing (this one) is not a market
+  if (!reference || reference.median === null || reference.sample_size < 2) return null;
+
+  const points = reference.series
+    .filter((point) => point.median !== null)
+    .map((point) => ({ label: formatDay(point.date), value: point.median as number }));
+  const difference = getPriceDifference(price, reference);
+  const scope = barangay ? 'barangay' : 'market';
+
+  const renderTrend = (label: string, trend: number | null) => {
+    const formatted = formatTrend(trend);
+    if (!formatted) return null;
+    return (
+      <View style={styles.stat}>
+        <Text style={styles.statLabel}>{label}</Text>
+        <Text style={[styles.statValue, { color: trend && trend > 0 ? colors.up : colors.down }]}>
+          {formatted}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Market Price</Text>
+      <Text style={styles.subtitle}>
+        {crop} per {unit} {barangay ? `in ${barangay}` : 'on the marketplace'}, {reference.sample_size} listings
+      </Text>
+
+      <View style={styles.statsRow}>
+        <View style={styles.stat}>
+          <Text style={styles.statLabel}>Median</Text>
+          <Text style={styles.statValue}>₱{reference.median.toFixed(2)}</Text>
+        </View>
+        <View style={styles.stat}>
+          <Text style={styles.statLabel}>Range</Text>
+          <Text style={styles.statValue}>
+            ₱{reference.min?.toFixed(2)} – ₱{reference.max?.toFixed(2)}
+          </Text>
+        </View>
+        {renderTrend('7 days', reference.trend_7d)}
+        {renderTrend('30 days', reference.trend_30d)}
+      </View>
+
+      {difference !== null && (
+        <Text style={styles.comparison}>
+          This listing is {describePriceDifference(difference, scope)}.
+        </Text>
+      )}
+
+      {points.length > 1 && (
+        <LineChart data={points} height={180} color={colors.primary} showDots={false} />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 24,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.text,
+  },
+
+  subtitle: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+    marginBottom: 12,
+  },
+
+  statsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 16,
+    marginBottom: 8,
+  },
+
+  stat: {
+    minWidth: 70,
+  },
+
+  statLabel: {
+    fontSize: 11,
+    color: colors.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+
+  statValue: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.text,
+    marginTop: 2,
+  },
+
+  comparison: {
+    fontSize: 13,
+    color: colors.text,
+    marginBottom: 12,
+  },
+});
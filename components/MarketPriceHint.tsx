@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import Icon from 'react-native-vector-icons/FontAwesome5';
+import {
+  describePriceDifference,
+  formatTrend,
+  getMarketReference,
+  getPriceDifference,
+  MarketReference,
+} from '../services/marketPrices';
+
+const colors = {
+  background: '#f0fdf4',
+  border: '#bbf7d0',
+  primary: '#059669',
+  warning: '#d97706',
+  text: '#374151',
+  textSecondary: '#6b7280',
+};
+
+interface MarketPriceHintProps {
+  crop: string;
+  unit: string;
+  price: number;
+  barangay?: string | null;
+  // The listing being edited, left out of the comparison
+  excludeProductId?: string | null;
+}
+
+// Difference above which a price is called out as far from the market
+const FAR_FROM_MEDIAN_PERCENT = 25;
+
+// Shown under the price in the product forms: how the farmer's price compares with other
+// listings of the same crop in their barangay
+export default function MarketPriceHint({ crop, unit, price, barangay, excludeProductId }: MarketPriceHintProps) {
+  const [reference, setReference] = useState<MarketReference | null>(null);
+
+  useEffect(() => {
+    if (!crop.trim() || !unit) {
+      setReference(null);
+      return;
+    }
+
+    let cancelled = false;
+    // Wait for the farmer to stop typing the name
+    const timer = setTimeout(async () => {
+      try {
+        const result = await getMarketReference({ crop, unit, barangay, excludeProductId });
+        if (!cancelled) setReference(result);
+      } catch (error) {
+        console.error('Market price hint error:', error);
+        if (!cancelled) setReference(null);
+      }
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [crop, unit, barangay, excludeProductId]);
+
+  if (!reference) return null;
+
+  const scope = barangay ? 'barangay' : 'market';
+  const place = barangay ? `in ${barangay}` : 'on the marketplace';
+
+  if (reference.sample_size === 0 || reference.median === null) {
+    return (
+      <View style={styles.container}>
+        <Icon name="chart-line" size={12} color={colors.textSecondary} />
+        <Text style={styles.mutedText}>
+          No other {crop.trim()} listings sold per {unit} {place} yet.
+        </Text>
+      </View>
+    );
+  }
+
+  const difference = getPriceDifference(price, reference);
+  const farFromMedian = difference !== null && Math.abs(difference) >= FAR_FROM_MEDIAN_PERCENT;
+  const trend7d = formatTrend(reference.trend_7d);
+  const trend30d = formatTrend(reference.trend_30d);
+
+  return (
+    <View style={styles.container}>
+      <Icon name="chart-line" size={12} color={farFromMedian ? colors.warning : colors.primary} />
+      <View style={styles.body}>
+        <Text style={[styles.text, farFromMedian && styles.warningText]}>
+          {difference !== null
+            ? `Your price is ${describePriceDifference(difference, scope)} (₱${reference.median.toFixed(2)}/${unit}).`
+            : `The ${scope} median is ₱${reference.median.toFixed(2)}/${unit}.`}
+        </Text>
+        <Text style={styles.mutedText}>
+          ₱{reference.min?.toFixed(2)} – ₱{reference.max?.toFixed(2)} across {reference.sample_size}{' '}
+          {reference.sample_size === 1 ? 'listing' : 'listings'} {place}
+          {trend7d ? ` · 7 days: ${trend7d}` : ''}
+          {trend30d ? ` · 30 days: ${trend30d}` : ''}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    backgroundColor: colors.background,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 20,
+  },
+
+  body: {
+    flex: 1,
+    gap: 4,
+  },
+
+  text: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text,
+  },
+
+  warningText: {
+    color: colors.warning,
+  },
+
+  mutedText: {
+    flex: 1,
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+});
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/FontAwesome5';
+import { completeMockPayment, MockPaymentOutcome } from '../services/payments';
+import { showError } from '../utils/alert';
+
+interface MockPaymentModalProps {
+  visible: boolean;
+  reference: string | null;
+  amount: number;
+  // Called after the simulated gateway has reported the outcome
+  onFinished: (outcome: MockPaymentOutcome) => void;
+  onCancel: () => void;
+}
+
+// Stand-in for the e-wallet checkout page when testing with the mock provider
+const MockPaymentModal: React.FC<MockPaymentModalProps> = ({
+  visible,
+  reference,
+  amount,
+  onFinished,
+  onCancel,
+}) => {
+  const [submitting, setSubmitting] = useState<MockPaymentOutcome | null>(null);
+
+  const handleOutcome = async (outcome: MockPaymentOutcome) => {
+    if (!reference) return;
+
+    try {
+      setSubmitting(outcome);
+      await completeMockPayment(reference, outcome, amount);
+      onFinished(outcome);
+    } catch (error: any) {
+      showError(error?.message || 'Failed to complete the test payment');
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <View style={styles.badge}>
+            <Icon name="flask" size={12} color="#7c3aed" />
+            <Text style={styles.badgeText}>Test payment</Text>
+          </View>
+
+          <Text style={styles.title}>Mock E-Wallet Checkout</Text>
+          <Text style={styles.amount}>₱{amount.toLocaleString()}</Text>
+          {reference && <Text style={styles.reference}>Ref: {reference}</Text>}
+          <Text style={styles.message}>
+            No money is charged. Choose how the payment should end to try the order flow.
+          </Text>
+
+          <TouchableOpacity
+            style={[styles.button, styles.payButton]}
+            onPress={() => handleOutcome('completed')}
+            disabled={!!submitting}
+          >
+            {submitting === 'completed' ? (
+              <ActivityIndicator size="small" color="#ffffff" />
+            ) : (
+              <Text style={styles.buttonText}>Pay ₱{amount.toLocaleString()}</Text>
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.button, styles.failButton]}
+            onPress={() => handleOutcome('failed')}
+            disabled={!!submitting}
+          >
+            {submitting === 'failed' ? (
+              <ActivityIndicator size="small" color="#ffffff" />
+            ) : (
+              <Text style={styles.buttonText}>Simulate Failure</Text>
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity onPress={onCancel} disabled={!!submitting}>
+            <Text style={styles.cancelText}>Pay later</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modal: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 380,
+    alignItems: 'center',
+  },
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#ede9fe',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginBottom: 12,
+  },
+  badgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#7c3aed',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  amount: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#10b981',
+    marginVertical: 8,
+  },
+  reference: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginBottom: 8,
+  },
+  message: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  button: {
+    width: '100%',
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  payButton: {
+    backgroundColor: '#10b981',
+  },
+  failButton: {
+    backgroundColor: '#ef4444',
+  },
+  buttonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cancelText: {
+    marginTop: 6,
+    fontSize: 14,
+    color: '#6b7280',
+    fontWeight: '500',
+  },
+});
+
+export default MockPaymentModal;
@@ -398,6 +398,12 @@ export default function NotificationComponent({
     </TouchableOpacity>
   );
 
+  const openInbox = () => {
+    setDropdownVisible(false);
+    setModalVisible(false);
+    router.push('/shared/notifications' as any);
+  };
+
   const renderEmptyState = () => (
     <View style={[styles.emptyContainer, isDesktop && styles.dropdownEmptyContainer]}>
       <Icon name="bell-slash" size={isDesktop ? 40 : 48} color={colors.gray400} />
@@ -486,6 +492,10 @@ export default function NotificationComponent({
           </View>
         )}
       </ScrollView>
+
+      <TouchableOpacity style={styles.seeAllButton} onPress={openInbox}>
+        <Text style={styles.seeAllText}>See all notifications</Text>
+      </TouchableOpacity>
     </View>
   );
 
@@ -572,6 +582,10 @@ export default function NotificationComponent({
               />
             )}
 
+            <TouchableOpacity style={styles.seeAllButton} onPress={openInbox}>
+              <Text style={styles.seeAllText}>See all notifications</Text>
+            </TouchableOpacity>
+
             {notifications.length > 0 && (
               <View style={styles.modalFooter}>
                 <TouchableOpacity
@@ -1014,4 +1028,17 @@ const styles = StyleSheet.create({
     color: colors.danger,
     fontWeight: '600',
   },
+
+  seeAllButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderTopWidth: 1,
+    borderTopColor: colors.gray200,
+  },
+
+  seeAllText: {
+    fontSize: 15,
+    color: colors.primary,
+    fontWeight: '600',
+  },
 });
\ No newline at end of file
@@ -0,0 +1,487 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import {
+  getDeviceTimezone,
+  getNotificationPreferences,
+  isChannelEnabled,
+  saveNotificationPreferences
+} from '../services/notificationPreferences';
+import {
+  NOTIFICATION_CHANNEL_CONFIG,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_GROUP_LABELS,
+  NOTIFICATION_TYPE_CONFIG,
+  NotificationAudience,
+  NotificationChannel,
+  NotificationGroup,
+  NotificationPreferences,
+  NotificationType,
+  SMS_LANGUAGE_CONFIG,
+  SmsLanguage
+} from '../types/notifications';
+
+const colors = {
+  primary: '#16a34a',
+  primaryLight: '#f0fdf4',
+  danger: '#ef4444',
+  white: '#ffffff',
+  border: '#f3f4f6',
+  gray300: '#d1d5db',
+  gray500: '#6b7280',
+  gray700: '#374151',
+  gray900: '#111827',
+};
+
+interface NotificationPreferencesSectionProps {
+  userId: string;
+  userType: NotificationAudience;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const DIGEST_HOURS = [7, 12, 18, 21];
+
+const formatHour = (hour: number) => `${hour % 12 || 12}:00 ${hour >= 12 ? 'PM' : 'AM'}`;
+
+// Types a user of this kind can receive, grouped for display. Digests are configured separately.
+const getTypeGroups = (userType: NotificationAudience) => {
+  const groups: Partial<Record<NotificationGroup, NotificationType[]>> = {};
+  (Object.keys(NOTIFICATION_TYPE_CONFIG) as NotificationType[])
+    .filter(type => type !== 'notification_digest' && NOTIFICATION_TYPE_CONFIG[type].audience.includes(userType))
+    .forEach(type => {
+      const group = NOTIFICATION_TYPE_CONFIG[type].group;
+      groups[group] = [...(groups[group] || []), type];
+    });
+  return (Object.keys(NOTIFICATION_GROUP_LABELS) as NotificationGroup[])
+    .filter(group => groups[group])
+    .map(group => ({ group, types: groups[group]! }));
+};
+
+// Per-type channels, quiet hours and the daily digest, shown on the settings screen
+export default function NotificationPreferencesSection({ userId, userType }: NotificationPreferencesSectionProps) {
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setPreferences(await getNotificationPreferences(userId));
+      } catch (err) {
+        console.error('Error loading notification preferences:', err);
+        setError('Failed to load your notification settings');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [userId]);
+
+  const update = (changes: Partial<NotificationPreferences>) => {
+    if (!preferences) return;
+    setPreferences({ ...preferences, ...changes });
+    setDirty(true);
+    setSavedMessage(null);
+  };
+
+  const toggleChannel = (type: NotificationType, channel: NotificationChannel) => {
+    if (!preferences) return;
+    const current = isChannelEnabled(preferences, type, channel);
+    update({
+      channel_settings: {
+        ...preferences.channel_settings,
+        [type]: { ...preferences.channel_settings[type], [channel]: !current }
+      }
+    });
+  };
+
+  const handleSave = async () => {
+    if (!preferences) return;
+
+    if (preferences.quiet_hours_enabled &&
+      (!TIME_PATTERN.test(preferences.quiet_hours_start) || !TIME_PATTERN.test(preferences.quiet_hours_end))) {
+      return setError('Enter quiet hours as HH:MM, e.g. 21:00 and 07:00');
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      setPreferences(await saveNotificationPreferences({ ...preferences, timezone: getDeviceTimezone() }));
+      setDirty(false);
+      setSavedMessage('Notification settings saved');
+    } catch (err: any) {
+      setError(err.message || 'Failed to save notification settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.sectionTitleContainer}>
+        <View style={styles.sectionIconContainer}>
+          <Ionicons name="notifications-outline" size={22} color={colors.primary} />
+        </View>
+        <Text style={styles.sectionTitle}>Notifications</Text>
+      </View>
+
+      {loading || !preferences ? (
+        loading ? <ActivityIndicator size="small" color={colors.primary} /> : <Text style={styles.errorText}>{error}</Text>
+      ) : (
+        <>
+          <View style={styles.channelHeader}>
+            <View style={styles.typeColumn} />
+            {NOTIFICATION_CHANNELS.map(channel => (
+              <Text key={channel} style={styles.channelLabel}>{NOTIFICATION_CHANNEL_CONFIG[channel].shortLabel}</Text>
+            ))}
+          </View>
+
+          {getTypeGroups(userType).map(({ group, types }) => (
+            <View key={group}>
+              <Text style={styles.groupLabel}>{NOTIFICATION_GROUP_LABELS[group]}</Text>
+              {types.map(type => (
+                <View key={type} style={styles.typeRow}>
+                  <Text style={[styles.typeColumn, styles.typeLabel]}>{NOTIFICATION_TYPE_CONFIG[type].label}</Text>
+                  {NOTIFICATION_CHANNELS.map(channel => {
+                    const enabled = isChannelEnabled(preferences, type, channel);
+                    return (
+                      <TouchableOpacity
+                        key={channel}
+                        style={styles.channelCell}
+                        onPress={() => toggleChannel(type, channel)}
+                        accessibilityLabel={`${NOTIFICATION_TYPE_CONFIG[type].label} by ${NOTIFICATION_CHANNEL_CONFIG[channel].label}`}
+                      >
+                        <Ionicons
+                          name={enabled ? 'checkbox' : 'square-outline'}
+                          size={22}
+                          color={enabled ? colors.primary : colors.gray300}
+                        />
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              ))}
+            </View>
+          ))}
+
+          <View style={styles.preferenceItem}>
+            <View style={styles.preferenceInfo}>
+              <Text style={styles.preferenceTitle}>Quiet hours</Text>
+              <Text style={styles.preferenceDescription}>
+                No push or SMS during these hours. Notifications still appear in the app.
+              </Text>
+            </View>
+            <Switch
+              value={preferences.quiet_hours_enabled}
+              onValueChange={(value) => update({ quiet_hours_enabled: value })}
+              trackColor={{ false: colors.gray300, true: colors.primary }}
+            />
+          </View>
+
+          {preferences.quiet_hours_enabled && (
+            <View style={styles.row}>
+              <View style={styles.rowField}>
+                <Text style={styles.label}>From</Text>
+                <TextInput
+                  style={styles.input}
+                  value={preferences.quiet_hours_start}
+                  onChangeText={(value) => update({ quiet_hours_start: value })}
+                  placeholder="21:00"
+                  placeholderTextColor={colors.gray500}
+                />
+              </View>
+              <View style={styles.rowField}>
+                <Text style={styles.label}>Until</Text>
+                <TextInput
+                  style={styles.input}
+                  value={preferences.quiet_hours_end}
+                  onChangeText={(value) => update({ quiet_hours_end: value })}
+                  placeholder="07:00"
+                  placeholderTextColor={colors.gray500}
+                />
+              </View>
+            </View>
+          )}
+
+          <View style={styles.preferenceItem}>
+            <View style={styles.preferenceInfo}>
+              <Text style={styles.preferenceTitle}>Daily summary</Text>
+              <Text style={styles.preferenceDescription}>
+                Get reviews, product changes and announcements in one notification a day instead of one by one.
+              </Text>
+            </View>
+            <Switch
+              value={preferences.digest_enabled}
+              onValueChange={(value) => update({ digest_enabled: value })}
+              trackColor={{ false: colors.gray300, true: colors.primary }}
+            />
+          </View>
+
+          {preferences.digest_enabled && (
+            <View style={styles.chips}>
+              {DIGEST_HOURS.map(hour => (
+                <TouchableOpacity
+                  key={hour}
+                  style={[styles.chip, preferences.digest_hour === hour && styles.chipActive]}
+                  onPress={() => update({ digest_hour: hour })}
+                >
+                  <Text style={[styles.chipText, preferences.digest_hour === hour && styles.chipTextActive]}>
+                    {formatHour(hour)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          <View style={styles.preferenceItem}>
+            <View style={styles.preferenceInfo}>
+              <Text style={styles.preferenceTitle}>SMS language</Text>
+              <Text style={styles.preferenceDescription}>
+                Text messages are sent to the mobile number on your profile.
+              </Text>
+            </View>
+          </View>
+
+          <View style={styles.chips}>
+            {(Object.keys(SMS_LANGUAGE_CONFIG) as SmsLanguage[]).map(language => (
+              <TouchableOpacity
+                key={language}
+                style={[styles.chip, preferences.sms_language === language && styles.chipActive]}
+                onPress={() => update({ sms_language: language })}
+              >
+                <Text style={[styles.chipText, preferences.sms_language === language && styles.chipTextActive]}>
+                  {SMS_LANGUAGE_CONFIG[language].label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {error && <Text style={styles.errorText}>{error}</Text>}
+          {savedMessage && <Text style={styles.savedText}>{savedMessage}</Text>}
+
+          {dirty && (
+            <TouchableOpacity
+              style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+              onPress={handleSave}
+              disabled={saving}
+              activeOpacity={0.8}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color={colors.white} />
+              ) : (
+                <Text style={styles.saveButtonText}>Save Notification Settings</Text>
+              )}
+            </TouchableOpacity>
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    backgroundColor: colors.white,
+    marginHorizontal: 16,
+    marginBottom: 16,
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+
+  sectionTitleContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+
+  sectionIconContainer: {
+    width: 32,
+    height: 32,
+    borderRadius: 8,
+    backgroundColor: colors.primaryLight,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.gray900,
+  },
+
+  channelHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingBottom: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+
+  channelLabel: {
+    width: 48,
+    textAlign: 'center',
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.gray500,
+  },
+
+  groupLabel: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: colors.primary,
+    marginTop: 16,
+    marginBottom: 4,
+  },
+
+  typeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+
+  typeColumn: {
+    flex: 1,
+  },
+
+  typeLabel: {
+    fontSize: 14,
+    color: colors.gray900,
+  },
+
+  channelCell: {
+    width: 48,
+    alignItems: 'center',
+  },
+
+  preferenceItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 16,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    marginTop: 16,
+  },
+
+  preferenceInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+
+  preferenceTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.gray900,
+    marginBottom: 4,
+  },
+
+  preferenceDescription: {
+    fontSize: 14,
+    color: colors.gray500,
+  },
+
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+
+  rowField: {
+    flex: 1,
+  },
+
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.gray700,
+    marginBottom: 8,
+  },
+
+  input: {
+    borderWidth: 2,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    backgroundColor: colors.white,
+    color: colors.gray900,
+  },
+
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+
+  chip: {
+    borderWidth: 1,
+    borderColor: colors.gray300,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+
+  chipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+
+  chipText: {
+    fontSize: 13,
+    color: colors.gray700,
+  },
+
+  chipTextActive: {
+    color: colors.white,
+    fontWeight: '600',
+  },
+
+  errorText: {
+    color: colors.danger,
+    fontSize: 13,
+    marginTop: 12,
+  },
+
+  savedText: {
+    color: colors.primary,
+    fontSize: 13,
+    marginTop: 12,
+  },
+
+  saveButton: {
+    backgroundColor: colors.primary,
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 16,
+  },
+
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+
+  saveButtonText: {
+    color: colors.white,
+    fontSize: 16,
+    fontWeight: '700',
+  },
+});
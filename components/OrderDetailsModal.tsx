@@ -9,6 +9,7 @@ import {
     TouchableOpacity,
     View,
 } from 'react-native';
+import OrderStatusTimeline from './OrderStatusTimeline';
 
 const { width, height } = Dimensions.get('window');
 
@@ -34,6 +35,7 @@ interface OrderDetailsModalProps {
         unit: string;
         image_url?: string | null;
       };
+      variant_name?: string | null;
       quantity: number;
       unit_price: number;
     }>;
@@ -195,6 +197,9 @@ export default function OrderDetailsModal({
                     </View>
                     <View style={styles.productInfo}>
                       <Text style={styles.productName}>{item.product.name}</Text>
+                      {item.variant_name && (
+                        <Text style={styles.productDetails}>Option: {item.variant_name}</Text>
+                      )}
                       <Text style={styles.productDetails}>
                         Quantity: {item.quantity} {item.product.unit}
                       </Text>
@@ -292,6 +297,14 @@ export default function OrderDetailsModal({
                 })}
               </View>
             </View>
+
+            {/* Status History */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Status History</Text>
+              <View style={styles.trackingCard}>
+                <OrderStatusTimeline orderId={order.id} refreshKey={order.status} />
+              </View>
+            </View>
           </ScrollView>
         </View>
       </View>
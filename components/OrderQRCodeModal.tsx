@@ -9,8 +9,7 @@ import {
     TouchableOpacity,
     View,
 } from 'react-native';
-import QRCode from 'react-native-qrcode-svg';
-import { generateQRCodeData } from '../utils/purchaseCode';
+import PurchaseQRCode from './PurchaseQRCode';
 
 const { width, height } = Dimensions.get('window');
 
@@ -44,21 +43,8 @@ export default function OrderQRCodeModal({
   onClose,
   order,
 }: OrderQRCodeModalProps) {
-  // Debug the order data
-  console.log('🔍 OrderQRCodeModal - Order data:', {
-    orderId: order.id,
-    purchaseCodeFromDB: order.purchase_code,
-    orderKeys: Object.keys(order)
-  });
-
-  // Generate purchase code if not exists (for backward compatibility)
-  const purchaseCode = order.purchase_code || `FG-${new Date(order.created_at).getFullYear()}-${order.id.slice(-6).toUpperCase()}`;
-
-  console.log('📝 Final purchase code used:', {
-    fromDatabase: order.purchase_code,
-    generated: `FG-${new Date(order.created_at).getFullYear()}-${order.id.slice(-6).toUpperCase()}`,
-    final: purchaseCode
-  });
+  // Issued by the database when the order is created
+  const purchaseCode = order.purchase_code || '—';
 
   const farmName = order.farmer_profile?.farm_name ||
     `${order.farmer_profile?.first_name || ''} ${order.farmer_profile?.last_name || ''}`.trim() ||
@@ -66,13 +52,6 @@ export default function OrderQRCodeModal({
 
   const productName = order.order_items?.[0]?.product?.name || 'Farm Products';
 
-  const qrCodeData = generateQRCodeData(purchaseCode, {
-    farmName,
-    totalAmount: order.total_price,
-    purchaseDate: order.created_at,
-    productName,
-  });
-
   const handleShare = async () => {
     try {
       await Share.share({
@@ -137,12 +116,7 @@ export default function OrderQRCodeModal({
             <View style={styles.qrSection}>
               <Text style={styles.qrLabel}>Verification QR Code</Text>
               <View style={styles.qrContainer}>
-                <QRCode
-                  value={qrCodeData}
-                  size={200}
-                  color="#000000"
-                  backgroundColor="#ffffff"
-                />
+                <PurchaseQRCode orderId={order.id} size={200} />
               </View>
               <Text style={styles.qrDescription}>
                 Scan this code to verify order authenticity
@@ -9,13 +9,16 @@ import {
     TouchableOpacity,
     View
 } from 'react-native';
+import { recordPurchaseScan } from '../services/purchaseCodes';
+import { PurchaseQRVerification, verifyPurchaseQR } from '../utils/purchaseCode';
 
 const { width, height } = Dimensions.get('window');
 
 interface OrderQRScannerProps {
   visible: boolean;
   onClose: () => void;
-  onOrderScanned: (orderData: any) => void;
+  // Only called for authentic codes (status 'valid' or 'expired')
+  onOrderScanned: (verification: PurchaseQRVerification) => void;
 }
 
 export default function OrderQRScanner({ visible, onClose, onOrderScanned }: OrderQRScannerProps) {
@@ -34,50 +37,48 @@ export default function OrderQRScanner({ visible, onClose, onOrderScanned }: Ord
     }
   }, [visible]);
 
+  const rejectScan = (title: string, message: string) => {
+    Alert.alert(title, message, [
+      { text: 'Scan Again', onPress: () => setScanned(false) },
+      { text: 'Close', onPress: onClose }
+    ]);
+  };
+
   const handleBarCodeScanned = ({ type, data }: { type: string; data: string }) => {
     if (scanned) return; // Prevent multiple scans
 
     setScanned(true);
 
-    try {
-      // Parse the QR code data - expecting JSON format with order information
-      const qrData = JSON.parse(data);
+    // Signature and expiry are checked on the device, so this works without signal
+    const verification = verifyPurchaseQR(data);
+    console.log('Farm2Go QR scanned:', verification.status, verification.payload?.code);
 
-      // Validate that this is a Farm2Go purchase QR code
-      if (qrData.type === 'FARM2GO_PURCHASE' && qrData.code) {
-        console.log('Farm2Go QR scanned:', qrData);
+    switch (verification.status) {
+      case 'valid':
+      case 'expired':
+        // Expired codes are still authentic; the verification screen decides what to do with them
+        onOrderScanned(verification);
+        break;
 
-        // Transform the QR data to match what OrderVerificationModal expects
-        const orderData = {
-          purchaseCode: qrData.code,
-          farmName: qrData.farm,
-          totalAmount: qrData.amount,
-          purchaseDate: qrData.date,
-          productName: qrData.product,
-          verified: qrData.verified
-        };
+      case 'invalid_signature':
+      case 'unsigned':
+        recordPurchaseScan({
+          orderId: null,
+          purchaseCode: null,
+          result: verification.status,
+          verifiedOffline: true,
+        }).catch((error) => console.error('Error logging scan:', error));
 
-        onOrderScanned(orderData);
-      } else {
-        Alert.alert(
-          'Invalid QR Code',
-          'This QR code is not a valid Farm2Go purchase code.',
-          [
-            { text: 'Scan Again', onPress: () => setScanned(false) },
-            { text: 'Close', onPress: onClose }
-          ]
+        rejectScan(
+          'Not an Authentic Code',
+          verification.status === 'unsigned'
+            ? 'This is an old, unsigned Farm2Go code. Ask the buyer to open the order in their app to show a current QR code.'
+            : 'This QR code was not issued by Farm2Go or has been altered. Do not release the order.'
         );
-      }
-    } catch (error) {
-      console.error('Error parsing QR code:', error);
-      Alert.alert(
-        'Invalid QR Code',
-        'Unable to read QR code. Please try again.',
-        [
-          { text: 'Scan Again', onPress: () => setScanned(false) },
-          { text: 'Close', onPress: onClose }
-        ]
-      );
+        break;
+
+      default:
+        rejectScan('Invalid QR Code', 'This QR code is not a valid Farm2Go purchase code.');
     }
   };
 
@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { getOrderStatusHistory } from '../services/orders';
+import { ORDER_STATUS_CONFIG, OrderStatus, OrderStatusHistoryEntry } from '../types/orders';
+
+interface OrderStatusTimelineProps {
+  orderId: string;
+  // Change this (e.g. the order's current status) to reload the history
+  refreshKey?: string;
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  buyer: 'Buyer',
+  farmer: 'Farmer',
+  admin: 'Admin',
+  system: 'System',
+};
+
+const getStatusConfig = (status: OrderStatus) =>
+  ORDER_STATUS_CONFIG[status] || { label: status, color: '#6b7280', bgColor: '#f3f4f6' };
+
+const formatTimestamp = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+  });
+
+const describeActor = (entry: OrderStatusHistoryEntry) => {
+  const role = ROLE_LABELS[entry.changed_by_role] || entry.changed_by_role;
+  const name = entry.actor
+    ? `${entry.actor.first_name || ''} ${entry.actor.last_name || ''}`.trim()
+    : '';
+  return name ? `${name} (${role})` : role;
+};
+
+const OrderStatusTimeline: React.FC<OrderStatusTimelineProps> = ({ orderId, refreshKey }) => {
+  const [history, setHistory] = useState<OrderStatusHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        const entries = await getOrderStatusHistory(orderId);
+        if (!cancelled) {
+          setHistory(entries);
+          setError(false);
+        }
+      } catch {
+        if (!cancelled) setError(true);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [orderId, refreshKey]);
+
+  if (loading) {
+    return <ActivityIndicator size="small" color="#059669" style={styles.loading} />;
+  }
+
+  if (error) {
+    return <Text style={styles.emptyText}>Could not load the order history.</Text>;
+  }
+
+  if (history.length === 0) {
+    return <Text style={styles.emptyText}>No status changes recorded yet.</Text>;
+  }
+
+  return (
+    <View>
+      {history.map((entry, index) => {
+        const config = getStatusConfig(entry.to_status);
+        const isLast = index === history.length - 1;
+        return (
+          <View key={entry.id} style={styles.entry}>
+            <View style={styles.rail}>
+              <View style={[styles.dot, { backgroundColor: config.color }]} />
+              {!isLast && <View style={styles.line} />}
+            </View>
+            <View style={styles.entryContent}>
+              <Text style={[styles.statusLabel, { color: config.color }]}>
+                {entry.from_status ? config.label : 'Order Placed'}
+              </Text>
+              <Text style={styles.meta}>
+                {formatTimestamp(entry.created_at)} · {describeActor(entry)}
+              </Text>
+              {entry.reason ? <Text style={styles.reason}>{entry.reason}</Text> : null}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  loading: {
+    paddingVertical: 12,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: '#64748b',
+  },
+  entry: {
+    flexDirection: 'row',
+  },
+  rail: {
+    width: 20,
+    alignItems: 'center',
+  },
+  dot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginTop: 3,
+  },
+  line: {
+    flex: 1,
+    width: 2,
+    backgroundColor: '#e2e8f0',
+    marginVertical: 2,
+  },
+  entryContent: {
+    flex: 1,
+    paddingLeft: 10,
+    paddingBottom: 16,
+  },
+  statusLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  meta: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  reason: {
+    fontSize: 13,
+    color: '#0f172a',
+    marginTop: 4,
+    fontStyle: 'italic',
+  },
+});
+
+export default OrderStatusTimeline;
@@ -12,19 +12,16 @@ import {
     View,
 } from 'react-native';
 import { supabase } from '../lib/supabase';
+import { updateOrderStatus } from '../services/orders';
+import { PurchaseScanResult, recordPurchaseScan } from '../services/purchaseCodes';
+import { PurchaseQRVerification } from '../utils/purchaseCode';
 
 const { width } = Dimensions.get('window');
 
 interface OrderVerificationModalProps {
   visible: boolean;
-  orderData: {
-    purchaseCode?: string;
-    farmName?: string;
-    totalAmount?: number;
-    purchaseDate?: string;
-    productName?: string;
-    verified?: boolean;
-  } | null;
+  // Result of the on-device check in OrderQRScanner; status is 'valid' or 'expired'
+  verification: PurchaseQRVerification | null;
   onClose: () => void;
   onOrderCompleted: () => void;
 }
@@ -59,48 +56,41 @@ interface OrderDetails {
 
 export default function OrderVerificationModal({
   visible,
-  orderData,
+  verification,
   onClose,
   onOrderCompleted,
 }: OrderVerificationModalProps) {
   const [order, setOrder] = useState<OrderDetails | null>(null);
   const [loading, setLoading] = useState(true);
   const [completing, setCompleting] = useState(false);
+  // Outcome of the scan once the order was looked up (or couldn't be)
+  const [result, setResult] = useState<PurchaseScanResult | null>(null);
+  const [offline, setOffline] = useState(false);
+
+  const payload = verification?.payload || null;
 
   useEffect(() => {
-    if (visible && orderData?.purchaseCode) {
+    if (visible && payload) {
       loadOrderFromPurchaseCode();
     }
-  }, [visible, orderData]);
+  }, [visible, verification]);
 
   const loadOrderFromPurchaseCode = async () => {
-    if (!orderData) {
+    if (!verification || !payload) {
       setLoading(false);
       return;
     }
 
+    let scanResult: PurchaseScanResult = verification.status === 'expired' ? 'expired' : 'valid';
+    let verifiedOffline = false;
+
     try {
       setLoading(true);
+      setOrder(null);
+      setOffline(false);
 
-      console.log('🔍 Loading order for purchase code:', orderData.purchaseCode);
-
-      // First try a simple query to test RLS (without .single() to see all results)
-      const { data: allOrders, error: allError } = await supabase
-        .from('orders')
-        .select('id, purchase_code, status')
-        .limit(5);
-
-      console.log('🧪 Test query (all orders - first 5):', { allOrders, allError });
-
-      // Test specific purchase code query
-      const { data: testData, error: testError } = await supabase
-        .from('orders')
-        .select('id, purchase_code, status')
-        .eq('purchase_code', orderData.purchaseCode);
-
-      console.log('🧪 Test query (specific purchase code):', { testData, testError, count: testData?.length });
+      console.log('🔍 Loading order for purchase code:', payload.code);
 
-      // Try to find the order by purchase code
       const { data, error } = await supabase
         .from('orders')
         .select(`
@@ -109,58 +99,37 @@ export default function OrderVerificationModal({
           farmer_profile:profiles!farmer_id(first_name, last_name, farm_name),
           product:products(name, price, unit, image_url)
         `)
-        .eq('purchase_code', orderData.purchaseCode)
-        .single();
-
-      console.log('📋 Order query result:', {
-        data,
-        error: error ? {
-          message: error.message,
-          details: error.details,
-          hint: error.hint,
-          code: error.code
-        } : null
-      });
-
-      if (error || !data) {
-        console.log('⚠️ Order not found in database, creating mock order');
-        // If order not found in database, create a mock order from QR data
-        const mockOrder = {
-          id: orderData.purchaseCode || 'unknown',
-          buyer_id: 'unknown',
-          farmer_id: 'unknown',
-          total_price: orderData.totalAmount || 0,
-          status: 'verified_by_qr',
-          created_at: orderData.purchaseDate || new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          purchase_code: orderData.purchaseCode,
-          buyer_profile: null,
-          farmer_profile: {
-            first_name: null,
-            last_name: null,
-            farm_name: orderData.farmName || 'Unknown Farm'
-          },
-          product: {
-            name: orderData.productName || 'Farm Products',
-            price: 0,
-            unit: 'item',
-            image_url: null
-          },
-          quantity: 1
-        };
-        setOrder(mockOrder as OrderDetails);
+        .eq('id', payload.orderId)
+        .maybeSingle();
+
+      if (error) {
+        // No connection: the signature check is all we have
+        console.warn('⚠️ Could not look up order, showing offline verification:', error.message);
+        verifiedOffline = true;
+        setOffline(true);
+      } else if (!data) {
+        scanResult = 'not_found';
+      } else if ((data as any).purchase_code !== payload.code) {
+        scanResult = 'mismatch';
       } else {
-        console.log('✅ Order found in database:', data);
-        setOrder(data);
+        console.log('✅ Order found in database:', (data as any).id);
+        setOrder(data as OrderDetails);
       }
     } catch (error) {
-      console.error('Error loading order details:', error);
-      Alert.alert('Error', 'Failed to load order details. Please try again.', [
-        { text: 'OK', onPress: onClose }
-      ]);
+      console.warn('⚠️ Order lookup failed, showing offline verification:', error);
+      verifiedOffline = true;
+      setOffline(true);
     } finally {
+      setResult(scanResult);
       setLoading(false);
     }
+
+    recordPurchaseScan({
+      orderId: scanResult === 'not_found' ? null : payload.orderId,
+      purchaseCode: payload.code,
+      result: scanResult,
+      verifiedOffline,
+    }).catch((error) => console.error('Error logging scan:', error));
   };
 
   const formatPrice = (price: number) => {
@@ -231,35 +200,9 @@ export default function OrderVerificationModal({
         currentStatus: order.status
       });
 
-      // If we have a purchase code, try to update by purchase code
-      if (order.purchase_code) {
-        console.log('📝 Updating order with purchase code:', order.purchase_code);
-
-        const { data, error } = await supabase
-          .from('orders')
-          .update({
-            status: 'delivered',
-            updated_at: new Date().toISOString()
-          })
-          .eq('purchase_code', order.purchase_code)
-          .select();
-
-        console.log('📋 Database update result:', { data, error });
-
-        if (error) {
-          console.error('❌ Failed to update order in database:', error);
-          Alert.alert('Database Error', `Failed to update order: ${error.message}`);
-          return;
-        }
-
-        if (!data || data.length === 0) {
-          console.warn('⚠️ No rows updated - purchase code may not exist in database');
-          Alert.alert('Order Not Found', 'This purchase code was not found in the database. The order may have been scanned from a QR code but not exist in our system.');
-          return;
-        }
+      await updateOrderStatus(order.id, 'delivered', 'Verified by purchase QR scan');
 
-        console.log('✅ Order updated successfully:', data);
-      }
+      console.log('✅ Order updated successfully:', order.id);
 
       Alert.alert(
         'Order Completed!',
@@ -274,9 +217,9 @@ export default function OrderVerificationModal({
           }
         ]
       );
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error completing order:', error);
-      Alert.alert('Error', 'Failed to complete order. Please try again.');
+      Alert.alert('Error', `Failed to complete order: ${error?.message || 'Please try again.'}`);
     } finally {
       setCompleting(false);
     }
@@ -393,23 +336,75 @@ export default function OrderVerificationModal({
             <View style={styles.qrInfo}>
               <Text style={styles.sectionTitle}>QR Code Verification</Text>
               <View style={styles.qrDetails}>
-                <Text style={styles.qrDetailText}>✅ Purchase code verified</Text>
-                <Text style={styles.qrDetailText}>✅ Farm2Go QR code authenticated</Text>
-                <Text style={styles.qrDetailText}>✅ Purchase details validated</Text>
-                {orderData?.verified && (
-                  <Text style={styles.qrDetailText}>✅ QR code integrity confirmed</Text>
+                <Text style={styles.qrDetailText}>✅ Signed by Farm2Go, not altered</Text>
+                <Text style={styles.qrDetailText}>✅ Purchase code matches this order</Text>
+                {result === 'expired' ? (
+                  <Text style={[styles.qrDetailText, styles.qrWarningText]}>
+                    ⚠️ Expired {payload ? formatDate(new Date(payload.exp * 1000).toISOString()) : ''}
+                  </Text>
+                ) : (
+                  <Text style={styles.qrDetailText}>✅ Not expired</Text>
                 )}
               </View>
             </View>
           </ScrollView>
+        ) : offline && payload ? (
+          <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+            <View style={styles.offlineBanner}>
+              <Text style={styles.offlineTitle}>
+                {result === 'expired' ? '⚠️ Authentic but expired' : '✅ Authentic Farm2Go code'}
+              </Text>
+              <Text style={styles.offlineText}>
+                Verified offline. The order status could not be checked; complete the order once you are back online.
+              </Text>
+            </View>
+
+            <View style={styles.orderDetails}>
+              <Text style={styles.sectionTitle}>Purchase Details</Text>
+
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Purchase Code:</Text>
+                <Text style={styles.detailValue}>{payload.code}</Text>
+              </View>
+
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Farm:</Text>
+                <Text style={styles.detailValue}>🌾 {payload.farm}</Text>
+              </View>
+
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Product:</Text>
+                <Text style={styles.detailValue}>{payload.product}</Text>
+              </View>
+
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Total Amount:</Text>
+                <Text style={styles.totalAmount}>{formatPrice(payload.amount)}</Text>
+              </View>
+
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Purchased:</Text>
+                <Text style={styles.detailValue}>{formatDate(payload.purchasedAt)}</Text>
+              </View>
+
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Valid Until:</Text>
+                <Text style={styles.detailValue}>{formatDate(new Date(payload.exp * 1000).toISOString())}</Text>
+              </View>
+            </View>
+          </ScrollView>
         ) : (
           <View style={styles.errorContainer}>
-            <Text style={styles.errorText}>Order not found</Text>
+            <Text style={styles.errorText}>
+              {result === 'mismatch'
+                ? 'This QR code does not match the order it points to. Do not release the order.'
+                : 'Order not found'}
+            </Text>
           </View>
         )}
 
         {/* Bottom Actions */}
-        {order && order.status !== 'completed' && order.status !== 'delivered' && !loading && (
+        {order && result === 'valid' && order.status !== 'completed' && order.status !== 'delivered' && !loading && (
           <View style={styles.bottomActions}>
             <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
               <Text style={styles.cancelButtonText}>Cancel</Text>
@@ -436,6 +431,12 @@ export default function OrderVerificationModal({
             <Text style={styles.completedText}>✅ This order has already been completed</Text>
           </View>
         )}
+
+        {order && result === 'expired' && order.status !== 'completed' && order.status !== 'delivered' && (
+          <View style={styles.expiredBanner}>
+            <Text style={styles.expiredText}>Ask the buyer to refresh the QR code in their app before completing</Text>
+          </View>
+        )}
       </View>
     </Modal>
   );
@@ -648,6 +649,25 @@ const styles = StyleSheet.create({
     color: '#10B981',
     fontWeight: '500',
   },
+  qrWarningText: {
+    color: '#D97706',
+  },
+  offlineBanner: {
+    backgroundColor: '#ECFDF5',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  offlineTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#065F46',
+    marginBottom: 4,
+  },
+  offlineText: {
+    fontSize: 14,
+    color: '#047857',
+  },
   bottomActions: {
     flexDirection: 'row',
     paddingHorizontal: 20,
@@ -696,10 +716,23 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#065F46',
   },
+  expiredBanner: {
+    backgroundColor: '#FEF3C7',
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+    alignItems: 'center',
+  },
+  expiredText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#92400E',
+    textAlign: 'center',
+  },
   errorContainer: {
     flex: 1,
     justifyContent: 'center',
     alignItems: 'center',
+    padding: 20,
   },
   errorText: {
     fontSize: 18,
@@ -1,5 +1,6 @@
+import { Image } from 'expo-image';
 import React from 'react';
-import { Image, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { Theme } from '../constants/theme';
 
 interface ProductCardProps {
@@ -8,10 +9,16 @@ interface ProductCardProps {
   price: number;
   unit: string;
   imageUrl?: string;
+  // Small copy of the first photo; cards load this instead of the full image when there is one
+  thumbnailUrl?: string | null;
+  blurhash?: string | null;
   farmer?: string;
   rating?: number;
   sold?: number;
   discount?: number;
+  // Number of options (grades, pack sizes); price is then the cheapest option
+  optionCount?: number;
+  bulkPrice?: { unitPrice: number; minQuantity: number } | null;
   onPress?: () => void;
   style?: any;
 }
@@ -22,10 +29,14 @@ export default function ProductCard({
   price,
   unit,
   imageUrl,
+  thumbnailUrl,
+  blurhash,
   farmer,
   rating = 0,
   sold = 0,
   discount,
+  optionCount = 0,
+  bulkPrice,
   onPress,
   style,
 }: ProductCardProps) {
@@ -47,8 +58,14 @@ export default function ProductCard({
     >
       {/* Product Image */}
       <View style={styles.imageContainer}>
-        {imageUrl ? (
-          <Image source={{ uri: imageUrl }} style={styles.image} />
+        {thumbnailUrl || imageUrl ? (
+          <Image
+            source={{ uri: thumbnailUrl || imageUrl }}
+            placeholder={blurhash ? { blurhash } : undefined}
+            contentFit="cover"
+            transition={150}
+            style={styles.image}
+          />
         ) : (
           <View style={styles.placeholderImage}>
             <Text style={styles.placeholderText}>🥬</Text>
@@ -73,7 +90,7 @@ export default function ProductCard({
         {/* Price Section */}
         <View style={styles.priceSection}>
           <Text style={styles.currentPrice}>
-            {formatPrice(discountedPrice)}
+            {optionCount > 1 ? 'From ' : ''}{formatPrice(discountedPrice)}
           </Text>
           {discount && (
             <Text style={styles.originalPrice}>
@@ -81,6 +98,14 @@ export default function ProductCard({
             </Text>
           )}
           <Text style={styles.unit}>per {unit}</Text>
+          {optionCount > 1 && (
+            <Text style={styles.options}>{optionCount} options</Text>
+          )}
+          {bulkPrice && (
+            <Text style={styles.bulkPrice}>
+              {formatPrice(bulkPrice.unitPrice)} each for {bulkPrice.minQuantity}+
+            </Text>
+          )}
         </View>
 
         {/* Farmer & Stats */}
@@ -128,7 +153,6 @@ const styles = StyleSheet.create({
   image: {
     width: '100%',
     height: '100%',
-    resizeMode: 'cover',
   },
 
   placeholderImage: {
@@ -196,6 +220,19 @@ const styles = StyleSheet.create({
     marginTop: 2,
   },
 
+  options: {
+    ...Theme.typography.caption,
+    color: Theme.colors.text.secondary,
+    marginTop: 2,
+  },
+
+  bulkPrice: {
+    ...Theme.typography.caption,
+    color: Theme.colors.primary,
+    fontWeight: '500',
+    marginTop: 2,
+  },
+
   metaSection: {
     gap: Theme.spacing.xs,
   },
@@ -0,0 +1,152 @@
+import { Image } from 'expo-image';
+import React, { useState } from 'react';
+import { LayoutChangeEvent, NativeScrollEvent, NativeSyntheticEvent, ScrollView, StyleSheet, Text, View } from 'react-native';
+import Icon from 'react-native-vector-icons/FontAwesome5';
+import { ProductImage } from '../services/productMedia';
+
+const colors = {
+  white: '#ffffff',
+  dotInactive: 'rgba(255, 255, 255, 0.5)',
+  counterBackground: 'rgba(0, 0, 0, 0.5)',
+  textSecondary: '#6b7280',
+};
+
+interface ProductImageGalleryProps {
+  images: ProductImage[];
+  // Used before the gallery has loaded, or for products that predate galleries
+  fallbackUrl?: string | null;
+  fallbackBlurhash?: string | null;
+}
+
+// Swipeable product photos with page dots. Each page shows the blurhash, then the
+// thumbnail, then the full-size image as they arrive.
+export default function ProductImageGallery({ images, fallbackUrl, fallbackBlurhash }: ProductImageGalleryProps) {
+  const [pageWidth, setPageWidth] = useState(0);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const pages: Pick<ProductImage, 'url' | 'thumbnail_url' | 'blurhash'>[] =
+    images.length > 0
+      ? images
+      : fallbackUrl
+        ? [{ url: fallbackUrl, thumbnail_url: null, blurhash: fallbackBlurhash || null }]
+        : [];
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setPageWidth(event.nativeEvent.layout.width);
+  };
+
+  const handleScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    if (pageWidth === 0) return;
+    const index = Math.round(event.nativeEvent.contentOffset.x / pageWidth);
+    if (index !== activeIndex) setActiveIndex(index);
+  };
+
+  if (pages.length === 0) {
+    return (
+      <View style={styles.empty}>
+        <Icon name="image" size={48} color={colors.textSecondary} />
+        <Text style={styles.emptyText}>No Image Available</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container} onLayout={handleLayout}>
+      <ScrollView
+        horizontal
+        pagingEnabled
+        showsHorizontalScrollIndicator={false}
+        onScroll={handleScroll}
+        scrollEventThrottle={16}
+      >
+        {pages.map((page, index) => (
+          <Image
+            key={`${page.url}_${index}`}
+            source={{ uri: page.url }}
+            placeholder={page.thumbnail_url ? { uri: page.thumbnail_url } : page.blurhash ? { blurhash: page.blurhash } : undefined}
+            contentFit="cover"
+            transition={200}
+            style={[styles.page, { width: pageWidth || '100%' }]}
+          />
+        ))}
+      </ScrollView>
+
+      {pages.length > 1 && (
+        <>
+          <View style={styles.counter}>
+            <Text style={styles.counterText}>{activeIndex + 1}/{pages.length}</Text>
+          </View>
+          <View style={styles.dots}>
+            {pages.map((page, index) => (
+              <View
+                key={`${page.url}_dot_${index}`}
+                style={[styles.dot, index === activeIndex && styles.dotActive]}
+              />
+            ))}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    height: '100%',
+  },
+
+  page: {
+    height: '100%',
+  },
+
+  empty: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  emptyText: {
+    marginTop: 8,
+    fontSize: 14,
+    color: colors.textSecondary,
+    fontWeight: '500',
+  },
+
+  counter: {
+    position: 'absolute',
+    top: 12,
+    right: 12,
+    backgroundColor: colors.counterBackground,
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+
+  counterText: {
+    color: colors.white,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+
+  dots: {
+    position: 'absolute',
+    bottom: 12,
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 6,
+  },
+
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: colors.dotInactive,
+  },
+
+  dotActive: {
+    backgroundColor: colors.white,
+  },
+});
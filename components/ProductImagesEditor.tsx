@@ -0,0 +1,273 @@
+import * as ImagePicker from 'expo-image-picker';
+import React from 'react';
+import { Alert, Image, Platform, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import Icon from 'react-native-vector-icons/FontAwesome5';
+import { createImageDraft, MAX_PRODUCT_IMAGES, ProductImageDraft } from '../services/productMedia';
+
+const colors = {
+  primary: '#10b981',
+  white: '#ffffff',
+  gray100: '#f3f4f6',
+  gray300: '#d1d5db',
+  gray500: '#6b7280',
+  gray700: '#374151',
+  overlay: 'rgba(0, 0, 0, 0.55)',
+};
+
+interface ProductImagesEditorProps {
+  images: ProductImageDraft[];
+  onChange: (images: ProductImageDraft[]) => void;
+  // Upload progress (0-1) by draft key while the form is saving
+  progress?: Record<string, number>;
+  disabled?: boolean;
+}
+
+// 10MB before compression; larger files are almost always a mistake on a phone connection
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+// Ordered product photos for the product forms. The first photo is the cover. Photos are only
+// picked here; they are compressed and uploaded when the form is saved (services/productMedia.ts).
+export default function ProductImagesEditor({ images, onChange, progress, disabled }: ProductImagesEditorProps) {
+  const remaining = MAX_PRODUCT_IMAGES - images.length;
+
+  const addUris = (uris: string[]) => {
+    if (uris.length === 0) return;
+    if (uris.length > remaining) {
+      Alert.alert('Too Many Photos', `A product can have up to ${MAX_PRODUCT_IMAGES} photos.`);
+    }
+    onChange([...images, ...uris.slice(0, remaining).map(createImageDraft)]);
+  };
+
+  const pickFromLibrary = async () => {
+    try {
+      const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert('Permission needed', 'Sorry, we need camera roll permissions to add product images.');
+        return;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ['images'],
+        allowsMultipleSelection: true,
+        selectionLimit: remaining,
+        quality: 1,
+      });
+
+      if (!result.canceled) {
+        addUris(result.assets.map(asset => asset.uri));
+      }
+    } catch (error) {
+      console.error('Error picking image:', error);
+      Alert.alert('Error', 'Failed to select image');
+    }
+  };
+
+  const takePhoto = async () => {
+    try {
+      const { status } = await ImagePicker.requestCameraPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert('Permission needed', 'Sorry, we need camera permissions to take product photos.');
+        return;
+      }
+
+      const result = await ImagePicker.launchCameraAsync({ quality: 1 });
+
+      if (!result.canceled && result.assets[0]) {
+        addUris([result.assets[0].uri]);
+      }
+    } catch (error) {
+      console.error('Error taking photo:', error);
+      Alert.alert('Error', 'Failed to take photo');
+    }
+  };
+
+  const pickWebFiles = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'image/*';
+    input.multiple = true;
+    input.onchange = (event) => {
+      const files = Array.from((event.target as HTMLInputElement).files || []);
+      const valid = files.filter(file => file.type.startsWith('image/') && file.size <= MAX_FILE_SIZE);
+      if (valid.length < files.length) {
+        Alert.alert('Some Files Skipped', 'Only image files smaller than 10MB can be added.');
+      }
+      addUris(valid.map(file => URL.createObjectURL(file)));
+    };
+    input.click();
+  };
+
+  const showImageOptions = () => {
+    if (remaining <= 0) {
+      Alert.alert('Too Many Photos', `A product can have up to ${MAX_PRODUCT_IMAGES} photos.`);
+      return;
+    }
+
+    if (Platform.OS === 'web') {
+      pickWebFiles();
+    } else {
+      Alert.alert(
+        'Add Product Photos',
+        'Choose how you want to add photos',
+        [
+          { text: 'Camera', onPress: takePhoto },
+          { text: 'Photo Library', onPress: pickFromLibrary },
+          { text: 'Cancel', style: 'cancel' },
+        ]
+      );
+    }
+  };
+
+  const removeImage = (key: string) => {
+    const removed = images.find(image => image.key === key);
+    if (Platform.OS === 'web' && removed && !removed.uploaded && removed.uri.startsWith('blob:')) {
+      URL.revokeObjectURL(removed.uri);
+    }
+    onChange(images.filter(image => image.key !== key));
+  };
+
+  const moveEarlier = (index: number) => {
+    if (index === 0) return;
+    const next = [...images];
+    [next[index - 1], next[index]] = [next[index], next[index - 1]];
+    onChange(next);
+  };
+
+  return (
+    <View>
+      <View style={styles.grid}>
+        {images.map((image, index) => {
+          const fraction = progress?.[image.key];
+          return (
+            <View key={image.key} style={styles.tile}>
+              <Image source={{ uri: image.uri }} style={styles.tileImage} />
+              {index === 0 && (
+                <View style={styles.coverBadge}>
+                  <Text style={styles.coverText}>Cover</Text>
+                </View>
+              )}
+              {!disabled && (
+                <View style={styles.tileActions}>
+                  {index > 0 && (
+                    <TouchableOpacity style={styles.tileButton} onPress={() => moveEarlier(index)}>
+                      <Icon name="arrow-left" size={10} color={colors.white} />
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity style={styles.tileButton} onPress={() => removeImage(image.key)}>
+                    <Icon name="times" size={10} color={colors.white} />
+                  </TouchableOpacity>
+                </View>
+              )}
+              {fraction !== undefined && fraction < 1 && (
+                <View style={styles.progressTrack}>
+                  <View style={[styles.progressFill, { width: `${Math.round(fraction * 100)}%` }]} />
+                </View>
+              )}
+            </View>
+          );
+        })}
+
+        {remaining > 0 && !disabled && (
+          <TouchableOpacity style={[styles.tile, styles.addTile]} onPress={showImageOptions}>
+            <Icon name="camera" size={20} color={colors.gray500} />
+            <Text style={styles.addText}>{images.length === 0 ? 'Add Photos' : 'Add More'}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      <Text style={styles.hint}>
+        {images.length === 0
+          ? `Up to ${MAX_PRODUCT_IMAGES} photos. The first one is shown in the marketplace.`
+          : `${images.length} of ${MAX_PRODUCT_IMAGES} photos. Use the arrow to move a photo forward.`}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+
+  tile: {
+    width: 96,
+    height: 96,
+    borderRadius: 10,
+    overflow: 'hidden',
+    backgroundColor: colors.gray100,
+  },
+
+  tileImage: {
+    width: '100%',
+    height: '100%',
+  },
+
+  coverBadge: {
+    position: 'absolute',
+    left: 4,
+    bottom: 4,
+    backgroundColor: colors.primary,
+    borderRadius: 6,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+  },
+
+  coverText: {
+    color: colors.white,
+    fontSize: 10,
+    fontWeight: '700',
+  },
+
+  tileActions: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    flexDirection: 'row',
+    gap: 4,
+  },
+
+  tileButton: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    backgroundColor: colors.overlay,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  progressTrack: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    height: 4,
+    backgroundColor: colors.overlay,
+  },
+
+  progressFill: {
+    height: '100%',
+    backgroundColor: colors.primary,
+  },
+
+  addTile: {
+    borderWidth: 2,
+    borderColor: colors.gray300,
+    borderStyle: 'dashed',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 6,
+  },
+
+  addText: {
+    fontSize: 12,
+    color: colors.gray700,
+    fontWeight: '500',
+  },
+
+  hint: {
+    fontSize: 12,
+    color: colors.gray500,
+    marginTop: 8,
+  },
+});
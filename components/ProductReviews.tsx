@@ -0,0 +1,495 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Image,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/FontAwesome5';
+import {
+  getProductReviews,
+  moderateReview,
+  ProductReview,
+  replyToReview,
+  setReviewHelpful,
+} from '../services/reviews';
+import { showError, showSuccess } from '../utils/alert';
+
+interface ProductReviewsProps {
+  productId: string;
+  productName: string;
+  // Signed-in viewer; null for guests
+  viewer: {
+    id: string;
+    user_type: string;
+    first_name: string | null;
+    last_name: string | null;
+    farm_name?: string | null;
+  } | null;
+  // Called after a change that affects the rating summary (e.g. hiding a review)
+  onReviewsChanged?: () => void;
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-PH', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+// "Juan D." — reviewers are shown with a last initial only
+const reviewerName = (review: ProductReview) => {
+  const first = review.buyer?.first_name || 'Buyer';
+  const lastInitial = review.buyer?.last_name ? ` ${review.buyer.last_name.charAt(0)}.` : '';
+  return `${first}${lastInitial}`;
+};
+
+const ProductReviews: React.FC<ProductReviewsProps> = ({
+  productId,
+  productName,
+  viewer,
+  onReviewsChanged,
+}) => {
+  const [reviews, setReviews] = useState<ProductReview[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [busyReviewId, setBusyReviewId] = useState<string | null>(null);
+
+  const isAdmin = viewer?.user_type === 'admin' || viewer?.user_type === 'super-admin';
+
+  const viewerId = viewer?.id;
+
+  const loadPage = useCallback(async (pageToLoad: number) => {
+    try {
+      if (pageToLoad === 0) setLoading(true);
+      else setLoadingMore(true);
+
+      const result = await getProductReviews(productId, pageToLoad, viewerId);
+      setReviews(prev => (pageToLoad === 0 ? result.reviews : [...prev, ...result.reviews]));
+      setTotal(result.total);
+      setHasMore(result.hasMore);
+      setPage(pageToLoad);
+    } catch {
+      showError('Failed to load reviews.');
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  }, [productId, viewerId]);
+
+  useEffect(() => {
+    loadPage(0);
+  }, [loadPage]);
+
+  const updateReview = (reviewId: string, changes: Partial<ProductReview>) =>
+    setReviews(prev => prev.map(r => (r.id === reviewId ? { ...r, ...changes } : r)));
+
+  const handleHelpful = async (review: ProductReview) => {
+    if (!viewer) {
+      showError('Please log in to vote on reviews.');
+      return;
+    }
+    const helpful = !review.voted_helpful;
+    updateReview(review.id, {
+      voted_helpful: helpful,
+      helpful_count: review.helpful_count + (helpful ? 1 : -1),
+    });
+    try {
+      await setReviewHelpful(review.id, viewer.id, helpful);
+    } catch {
+      updateReview(review.id, { voted_helpful: review.voted_helpful, helpful_count: review.helpful_count });
+      showError('Could not save your vote. Please try again.');
+    }
+  };
+
+  const startReply = (review: ProductReview) => {
+    setReplyingTo(review.id);
+    setReplyText(review.farmer_reply || '');
+  };
+
+  const handleSubmitReply = async (review: ProductReview) => {
+    if (!viewer) return;
+    try {
+      setBusyReviewId(review.id);
+      const farmerName = viewer.farm_name || `${viewer.first_name || ''} ${viewer.last_name || ''}`.trim();
+      await replyToReview(review, replyText, productName, farmerName || undefined);
+      updateReview(review.id, {
+        farmer_reply: replyText.trim() || null,
+        farmer_replied_at: replyText.trim() ? new Date().toISOString() : null,
+      });
+      setReplyingTo(null);
+      showSuccess(replyText.trim() ? 'Reply posted.' : 'Reply removed.');
+    } catch (error: any) {
+      showError(error?.message || 'Failed to save reply.');
+    } finally {
+      setBusyReviewId(null);
+    }
+  };
+
+  const handleToggleHidden = async (review: ProductReview) => {
+    const status = review.status === 'hidden' ? 'published' : 'hidden';
+    try {
+      setBusyReviewId(review.id);
+      await moderateReview(review.id, { status });
+      updateReview(review.id, { status });
+      onReviewsChanged?.();
+    } catch (error: any) {
+      showError(error?.message || 'Failed to update review.');
+    } finally {
+      setBusyReviewId(null);
+    }
+  };
+
+  const handleToggleFlag = async (review: ProductReview) => {
+    const isFlagged = !review.is_flagged;
+    try {
+      setBusyReviewId(review.id);
+      await moderateReview(review.id, { isFlagged, flagReason: isFlagged ? 'Flagged for review by admin' : null });
+      updateReview(review.id, { is_flagged: isFlagged });
+    } catch (error: any) {
+      showError(error?.message || 'Failed to update review.');
+    } finally {
+      setBusyReviewId(null);
+    }
+  };
+
+  const renderStars = (rating: number) => (
+    <View style={styles.starsRow}>
+      {[1, 2, 3, 4, 5].map(star => (
+        <Icon key={star} name="star" size={11} color={star <= rating ? '#f59e0b' : '#d1d5db'} solid />
+      ))}
+    </View>
+  );
+
+  const renderReview = (review: ProductReview) => {
+    const isFarmer = viewer?.id === review.farmer_id;
+    const isOwnReview = viewer?.id === review.buyer_id;
+    const busy = busyReviewId === review.id;
+
+    return (
+      <View key={review.id} style={[styles.review, review.status === 'hidden' && styles.reviewHidden]}>
+        <View style={styles.reviewHeader}>
+          <View style={styles.avatar}>
+            <Text style={styles.avatarText}>{reviewerName(review).charAt(0).toUpperCase()}</Text>
+          </View>
+          <View style={styles.reviewMeta}>
+            <Text style={styles.reviewerName}>{reviewerName(review)}</Text>
+            <View style={styles.ratingRow}>
+              {renderStars(review.rating)}
+              <Text style={styles.reviewDate}>{formatDate(review.created_at)}</Text>
+            </View>
+          </View>
+          {review.status === 'hidden' && (
+            <View style={styles.badge}>
+              <Text style={styles.badgeText}>Hidden</Text>
+            </View>
+          )}
+          {review.is_flagged && (
+            <View style={[styles.badge, styles.flagBadge]}>
+              <Text style={[styles.badgeText, styles.flagBadgeText]}>Flagged</Text>
+            </View>
+          )}
+        </View>
+
+        {review.comment ? <Text style={styles.comment}>{review.comment}</Text> : null}
+
+        {review.photo_urls.length > 0 && (
+          <View style={styles.photosRow}>
+            {review.photo_urls.map(url => (
+              <Image key={url} source={{ uri: url }} style={styles.photo} />
+            ))}
+          </View>
+        )}
+
+        {review.farmer_reply && replyingTo !== review.id && (
+          <View style={styles.reply}>
+            <Text style={styles.replyLabel}>
+              Farmer&apos;s reply{review.farmer_replied_at ? ` · ${formatDate(review.farmer_replied_at)}` : ''}
+            </Text>
+            <Text style={styles.replyText}>{review.farmer_reply}</Text>
+          </View>
+        )}
+
+        {replyingTo === review.id && (
+          <View style={styles.replyForm}>
+            <TextInput
+              style={styles.replyInput}
+              value={replyText}
+              onChangeText={setReplyText}
+              placeholder="Write a public reply..."
+              placeholderTextColor="#9ca3af"
+              multiline
+              maxLength={1000}
+              textAlignVertical="top"
+            />
+            <View style={styles.actionsRow}>
+              <TouchableOpacity style={styles.actionButton} onPress={() => setReplyingTo(null)} disabled={busy}>
+                <Text style={styles.actionText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.primaryAction]}
+                onPress={() => handleSubmitReply(review)}
+                disabled={busy}
+              >
+                {busy ? (
+                  <ActivityIndicator size="small" color="#ffffff" />
+                ) : (
+                  <Text style={[styles.actionText, styles.primaryActionText]}>Post Reply</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        <View style={styles.actionsRow}>
+          {!isOwnReview && (
+            <TouchableOpacity style={styles.actionButton} onPress={() => handleHelpful(review)}>
+              <Icon name="thumbs-up" size={12} color={review.voted_helpful ? '#059669' : '#6b7280'} solid={review.voted_helpful} />
+              <Text style={[styles.actionText, review.voted_helpful && styles.actionTextActive]}>
+                Helpful{review.helpful_count > 0 ? ` (${review.helpful_count})` : ''}
+              </Text>
+            </TouchableOpacity>
+          )}
+          {isFarmer && replyingTo !== review.id && (
+            <TouchableOpacity style={styles.actionButton} onPress={() => startReply(review)}>
+              <Icon name="reply" size={12} color="#6b7280" />
+              <Text style={styles.actionText}>{review.farmer_reply ? 'Edit Reply' : 'Reply'}</Text>
+            </TouchableOpacity>
+          )}
+          {isAdmin && (
+            <>
+              <TouchableOpacity style={styles.actionButton} onPress={() => handleToggleHidden(review)} disabled={busy}>
+                <Icon name={review.status === 'hidden' ? 'eye' : 'eye-slash'} size={12} color="#6b7280" />
+                <Text style={styles.actionText}>{review.status === 'hidden' ? 'Unhide' : 'Hide'}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.actionButton} onPress={() => handleToggleFlag(review)} disabled={busy}>
+                <Icon name="flag" size={12} color={review.is_flagged ? '#ef4444' : '#6b7280'} solid={review.is_flagged} />
+                <Text style={styles.actionText}>{review.is_flagged ? 'Unflag' : 'Flag'}</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>CUSTOMER REVIEWS{total > 0 ? ` (${total})` : ''}</Text>
+
+      {loading ? (
+        <ActivityIndicator size="small" color="#059669" style={styles.loading} />
+      ) : reviews.length === 0 ? (
+        <Text style={styles.emptyText}>No reviews yet. Buyers can review after their order is delivered.</Text>
+      ) : (
+        <>
+          {reviews.map(renderReview)}
+          {hasMore && (
+            <TouchableOpacity
+              style={styles.moreButton}
+              onPress={() => loadPage(page + 1)}
+              disabled={loadingMore}
+            >
+              {loadingMore ? (
+                <ActivityIndicator size="small" color="#059669" />
+              ) : (
+                <Text style={styles.moreButtonText}>Show More Reviews</Text>
+              )}
+            </TouchableOpacity>
+          )}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 24,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#111827',
+    letterSpacing: 0.5,
+    marginBottom: 12,
+  },
+  loading: {
+    paddingVertical: 16,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: '#6b7280',
+    fontStyle: 'italic',
+  },
+  review: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    paddingVertical: 12,
+  },
+  reviewHidden: {
+    opacity: 0.6,
+  },
+  reviewHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  avatar: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#d1fae5',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  avatarText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#059669',
+  },
+  reviewMeta: {
+    flex: 1,
+  },
+  reviewerName: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  ratingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 2,
+  },
+  starsRow: {
+    flexDirection: 'row',
+    gap: 2,
+  },
+  reviewDate: {
+    fontSize: 11,
+    color: '#9ca3af',
+  },
+  badge: {
+    backgroundColor: '#f3f4f6',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  badgeText: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  flagBadge: {
+    backgroundColor: '#fee2e2',
+  },
+  flagBadgeText: {
+    color: '#ef4444',
+  },
+  comment: {
+    fontSize: 14,
+    color: '#374151',
+    lineHeight: 20,
+    marginTop: 8,
+  },
+  photosRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 8,
+  },
+  photo: {
+    width: 72,
+    height: 72,
+    borderRadius: 6,
+    backgroundColor: '#f3f4f6',
+  },
+  reply: {
+    backgroundColor: '#f9fafb',
+    borderLeftWidth: 3,
+    borderLeftColor: '#059669',
+    padding: 10,
+    marginTop: 10,
+    borderRadius: 4,
+  },
+  replyLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#059669',
+    marginBottom: 4,
+  },
+  replyText: {
+    fontSize: 13,
+    color: '#374151',
+    lineHeight: 18,
+  },
+  replyForm: {
+    marginTop: 10,
+  },
+  replyInput: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    padding: 10,
+    minHeight: 70,
+    fontSize: 13,
+    color: '#111827',
+    backgroundColor: '#ffffff',
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  actionText: {
+    fontSize: 12,
+    color: '#6b7280',
+    fontWeight: '500',
+  },
+  actionTextActive: {
+    color: '#059669',
+  },
+  primaryAction: {
+    backgroundColor: '#059669',
+    borderColor: '#059669',
+  },
+  primaryActionText: {
+    color: '#ffffff',
+  },
+  moreButton: {
+    alignSelf: 'center',
+    marginTop: 12,
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#059669',
+  },
+  moreButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#059669',
+  },
+});
+
+export default ProductReviews;
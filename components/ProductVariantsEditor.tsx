@@ -0,0 +1,481 @@
+import React from 'react';
+import { ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { ProductPriceTier, ProductPricing, ProductVariantInput } from '../services/products';
+
+const colors = {
+  primary: '#10b981',
+  danger: '#ef4444',
+  white: '#ffffff',
+  gray50: '#f9fafb',
+  gray200: '#e5e7eb',
+  gray300: '#d1d5db',
+  gray500: '#6b7280',
+  gray700: '#374151',
+  gray900: '#111827',
+};
+
+// Form state keeps what was typed; numbers are parsed on save
+export interface PriceTierDraft {
+  min_quantity: string;
+  unit_price: string;
+}
+
+export interface VariantDraft {
+  key: string;
+  id?: string;
+  name: string;
+  grade: string;
+  unit: string;
+  price: string;
+  quantity_available: string;
+  sku: string;
+  price_tiers: PriceTierDraft[];
+}
+
+interface ProductVariantsEditorProps {
+  variants: VariantDraft[];
+  // Bulk prices for the product itself, only used while it has no options
+  priceTiers: PriceTierDraft[];
+  units: string[];
+  defaultUnit: string;
+  baseUnit: string;
+  onChange: (variants: VariantDraft[], priceTiers: PriceTierDraft[]) => void;
+  error?: string | null;
+}
+
+let draftCounter = 0;
+const newDraftKey = () => `draft_${Date.now()}_${draftCounter++}`;
+
+export const toVariantDrafts = (pricing: ProductPricing): { variants: VariantDraft[]; priceTiers: PriceTierDraft[] } => {
+  const toTierDrafts = (tiers: ProductPriceTier[]) =>
+    tiers.map(tier => ({ min_quantity: String(tier.min_quantity), unit_price: String(tier.unit_price) }));
+
+  return {
+    variants: pricing.variants.map(variant => ({
+      key: variant.id,
+      id: variant.id,
+      name: variant.name,
+      grade: variant.grade || '',
+      unit: variant.unit,
+      price: String(variant.price),
+      quantity_available: String(variant.quantity_available),
+      sku: variant.sku || '',
+      price_tiers: toTierDrafts(variant.price_tiers),
+    })),
+    priceTiers: toTierDrafts(pricing.priceTiers),
+  };
+};
+
+const validateTiers = (tiers: PriceTierDraft[], basePrice: number, label: string): string | null => {
+  const seen = new Set<number>();
+
+  for (const tier of tiers) {
+    const minQuantity = parseInt(tier.min_quantity);
+    const unitPrice = parseFloat(tier.unit_price);
+
+    if (isNaN(minQuantity) || minQuantity < 2) {
+      return `${label}: bulk prices need a minimum quantity of 2 or more`;
+    }
+    if (isNaN(unitPrice) || unitPrice <= 0) {
+      return `${label}: enter a valid bulk price`;
+    }
+    if (!isNaN(basePrice) && unitPrice >= basePrice) {
+      return `${label}: a bulk price should be lower than the regular price`;
+    }
+    if (seen.has(minQuantity)) {
+      return `${label}: two bulk prices start at ${minQuantity}`;
+    }
+    seen.add(minQuantity);
+  }
+
+  return null;
+};
+
+// First problem found, or null when the options can be saved
+export const validateVariantDrafts = (
+  variants: VariantDraft[],
+  priceTiers: PriceTierDraft[],
+  basePrice: number
+): string | null => {
+  if (variants.length === 0) {
+    return validateTiers(priceTiers, basePrice, 'Bulk pricing');
+  }
+
+  const names = new Set<string>();
+  const skus = new Set<string>();
+
+  for (const variant of variants) {
+    const label = variant.name.trim() || 'Option';
+
+    if (!variant.name.trim()) {
+      return 'Every option needs a name';
+    }
+    if (names.has(variant.name.trim().toLowerCase())) {
+      return `There are two options named "${variant.name.trim()}"`;
+    }
+    names.add(variant.name.trim().toLowerCase());
+
+    const price = parseFloat(variant.price);
+    if (isNaN(price) || price <= 0) {
+      return `${label}: enter a valid price`;
+    }
+
+    const quantity = parseInt(variant.quantity_available);
+    if (isNaN(quantity) || quantity < 0) {
+      return `${label}: enter a valid stock quantity`;
+    }
+
+    const sku = variant.sku.trim().toLowerCase();
+    if (sku) {
+      if (skus.has(sku)) {
+        return `SKU "${variant.sku.trim()}" is used twice`;
+      }
+      skus.add(sku);
+    }
+
+    const tierError = validateTiers(variant.price_tiers, price, label);
+    if (tierError) return tierError;
+  }
+
+  if (variants.every(variant => parseInt(variant.quantity_available) === 0)) {
+    return 'At least one option needs stock';
+  }
+
+  return null;
+};
+
+export const toPriceTiers = (tiers: PriceTierDraft[]): ProductPriceTier[] =>
+  tiers
+    .map(tier => ({ min_quantity: parseInt(tier.min_quantity), unit_price: parseFloat(tier.unit_price) }))
+    .sort((a, b) => a.min_quantity - b.min_quantity);
+
+export const toVariantInputs = (variants: VariantDraft[]): ProductVariantInput[] =>
+  variants.map(variant => ({
+    id: variant.id,
+    name: variant.name.trim(),
+    grade: variant.grade.trim() || null,
+    unit: variant.unit,
+    price: parseFloat(variant.price),
+    quantity_available: parseInt(variant.quantity_available),
+    sku: variant.sku.trim() || null,
+    price_tiers: toPriceTiers(variant.price_tiers),
+  }));
+
+// What the product row shows for a product with options: cheapest price and its unit, total stock.
+// The database keeps these in step too; this is for saving the product row itself.
+export const summarizeVariantDrafts = (variants: VariantDraft[]) => {
+  const cheapest = [...variants].sort((a, b) => parseFloat(a.price) - parseFloat(b.price))[0];
+
+  return {
+    price: parseFloat(cheapest.price),
+    unit: cheapest.unit,
+    quantity_available: variants.reduce((sum, variant) => sum + (parseInt(variant.quantity_available) || 0), 0),
+  };
+};
+
+// Options (grade, pack size) with their own price, unit, stock and SKU, plus bulk prices
+export default function ProductVariantsEditor({
+  variants,
+  priceTiers,
+  units,
+  defaultUnit,
+  baseUnit,
+  onChange,
+  error,
+}: ProductVariantsEditorProps) {
+  const updateVariant = (key: string, changes: Partial<VariantDraft>) => {
+    onChange(variants.map(variant => (variant.key === key ? { ...variant, ...changes } : variant)), priceTiers);
+  };
+
+  const addVariant = () => {
+    onChange(
+      [
+        ...variants,
+        {
+          key: newDraftKey(),
+          name: '',
+          grade: '',
+          unit: defaultUnit,
+          price: '',
+          quantity_available: '',
+          sku: '',
+          price_tiers: [],
+        },
+      ],
+      priceTiers
+    );
+  };
+
+  const removeVariant = (key: string) => {
+    onChange(variants.filter(variant => variant.key !== key), priceTiers);
+  };
+
+  const renderTiers = (tiers: PriceTierDraft[], unit: string, setTiers: (tiers: PriceTierDraft[]) => void) => (
+    <View style={styles.tiers}>
+      {tiers.map((tier, index) => (
+        <View key={index} style={styles.tierRow}>
+          <Text style={styles.tierLabel}>From</Text>
+          <TextInput
+            style={[styles.input, styles.tierInput]}
+            value={tier.min_quantity}
+            onChangeText={(text) => setTiers(tiers.map((t, i) => (i === index ? { ...t, min_quantity: text } : t)))}
+            placeholder="20"
+            placeholderTextColor="#9ca3af"
+            keyboardType="numeric"
+          />
+          <Text style={styles.tierLabel}>{unit}, ₱</Text>
+          <TextInput
+            style={[styles.input, styles.tierInput]}
+            value={tier.unit_price}
+            onChangeText={(text) => setTiers(tiers.map((t, i) => (i === index ? { ...t, unit_price: text } : t)))}
+            placeholder="0.00"
+            placeholderTextColor="#9ca3af"
+            keyboardType="decimal-pad"
+          />
+          <Text style={styles.tierLabel}>each</Text>
+          <TouchableOpacity onPress={() => setTiers(tiers.filter((_, i) => i !== index))}>
+            <Text style={styles.removeText}>✕</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+      <TouchableOpacity onPress={() => setTiers([...tiers, { min_quantity: '', unit_price: '' }])}>
+        <Text style={styles.linkText}>+ Add bulk price</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Options & Bulk Pricing</Text>
+      <Text style={styles.subtitle}>
+        Sell this product in more than one way, e.g. Grade A and Grade B, or per kg and per sack.
+        Each option has its own price, unit and stock.
+      </Text>
+
+      {variants.length === 0 &&
+        renderTiers(priceTiers, baseUnit, (tiers) => onChange(variants, tiers))}
+
+      {variants.map((variant, index) => (
+        <View key={variant.key} style={styles.variantCard}>
+          <View style={styles.variantHeader}>
+            <Text style={styles.variantTitle}>Option {index + 1}</Text>
+            <TouchableOpacity onPress={() => removeVariant(variant.key)}>
+              <Text style={styles.removeText}>Remove</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.row}>
+            <TextInput
+              style={[styles.input, styles.flex]}
+              value={variant.name}
+              onChangeText={(text) => updateVariant(variant.key, { name: text })}
+              placeholder="Name, e.g. Sack (50 kg)"
+              placeholderTextColor="#9ca3af"
+            />
+            <TextInput
+              style={[styles.input, styles.flex]}
+              value={variant.grade}
+              onChangeText={(text) => updateVariant(variant.key, { grade: text })}
+              placeholder="Grade (optional)"
+              placeholderTextColor="#9ca3af"
+            />
+          </View>
+
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.units}>
+            {units.map((unit) => (
+              <TouchableOpacity
+                key={unit}
+                style={[styles.unitOption, variant.unit === unit && styles.unitOptionSelected]}
+                onPress={() => updateVariant(variant.key, { unit })}
+              >
+                <Text style={[styles.unitText, variant.unit === unit && styles.unitTextSelected]}>{unit}</Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          <View style={styles.row}>
+            <TextInput
+              style={[styles.input, styles.flex]}
+              value={variant.price}
+              onChangeText={(text) => updateVariant(variant.key, { price: text })}
+              placeholder={`₱ per ${variant.unit}`}
+              placeholderTextColor="#9ca3af"
+              keyboardType="decimal-pad"
+            />
+            <TextInput
+              style={[styles.input, styles.flex]}
+              value={variant.quantity_available}
+              onChangeText={(text) => updateVariant(variant.key, { quantity_available: text })}
+              placeholder="Stock"
+              placeholderTextColor="#9ca3af"
+              keyboardType="numeric"
+            />
+            <TextInput
+              style={[styles.input, styles.flex]}
+              value={variant.sku}
+              onChangeText={(text) => updateVariant(variant.key, { sku: text })}
+              placeholder="SKU (optional)"
+              placeholderTextColor="#9ca3af"
+              autoCapitalize="characters"
+            />
+          </View>
+
+          {renderTiers(variant.price_tiers, variant.unit, (tiers) => updateVariant(variant.key, { price_tiers: tiers }))}
+        </View>
+      ))}
+
+      <TouchableOpacity style={styles.addButton} onPress={addVariant}>
+        <Text style={styles.addButtonText}>+ Add option</Text>
+      </TouchableOpacity>
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 24,
+  },
+
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.gray900,
+    marginBottom: 4,
+  },
+
+  subtitle: {
+    fontSize: 13,
+    color: colors.gray500,
+    lineHeight: 18,
+    marginBottom: 12,
+  },
+
+  variantCard: {
+    backgroundColor: colors.gray50,
+    borderWidth: 1,
+    borderColor: colors.gray200,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+
+  variantHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+
+  variantTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.gray700,
+  },
+
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+
+  flex: {
+    flex: 1,
+  },
+
+  input: {
+    backgroundColor: colors.white,
+    borderWidth: 1,
+    borderColor: colors.gray300,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: colors.gray900,
+  },
+
+  units: {
+    gap: 6,
+    marginBottom: 8,
+  },
+
+  unitOption: {
+    borderWidth: 1,
+    borderColor: colors.gray300,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: colors.white,
+  },
+
+  unitOptionSelected: {
+    borderColor: colors.primary,
+    backgroundColor: colors.primary,
+  },
+
+  unitText: {
+    fontSize: 13,
+    color: colors.gray700,
+  },
+
+  unitTextSelected: {
+    color: colors.white,
+    fontWeight: '600',
+  },
+
+  tiers: {
+    gap: 6,
+    marginBottom: 4,
+  },
+
+  tierRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+
+  tierLabel: {
+    fontSize: 13,
+    color: colors.gray500,
+  },
+
+  tierInput: {
+    width: 72,
+  },
+
+  linkText: {
+    fontSize: 13,
+    color: colors.primary,
+    fontWeight: '600',
+    paddingVertical: 4,
+  },
+
+  removeText: {
+    fontSize: 13,
+    color: colors.danger,
+    fontWeight: '600',
+  },
+
+  addButton: {
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: colors.primary,
+    borderRadius: 10,
+    paddingVertical: 10,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+
+  addButtonText: {
+    color: colors.primary,
+    fontWeight: '600',
+    fontSize: 14,
+  },
+
+  errorText: {
+    color: colors.danger,
+    fontSize: 13,
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,95 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
+import { getPurchaseQRToken } from '../services/purchaseCodes';
+import { readPurchaseQRPayload } from '../utils/purchaseCode';
+
+interface PurchaseQRCodeProps {
+  orderId: string | null;
+  size: number;
+}
+
+// Signed purchase QR code for an order, as issued by the purchase-qr Edge Function
+export default function PurchaseQRCode({ orderId, size }: PurchaseQRCodeProps) {
+  const [token, setToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadToken = useCallback(async () => {
+    if (!orderId) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      setToken(await getPurchaseQRToken(orderId));
+    } catch (loadError: any) {
+      setError(loadError?.message || 'Could not load the QR code');
+    } finally {
+      setLoading(false);
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    setToken(null);
+    loadToken();
+  }, [loadToken]);
+
+  const expiresAt = token ? readPurchaseQRPayload(token)?.exp : null;
+
+  if (loading || (!token && !error)) {
+    return (
+      <View style={[styles.placeholder, { width: size, height: size }]}>
+        <ActivityIndicator size="small" color="#10b981" />
+      </View>
+    );
+  }
+
+  if (error || !token) {
+    return (
+      <View style={[styles.placeholder, { width: size, height: size }]}>
+        <Text style={styles.errorText}>{error}</Text>
+        <TouchableOpacity onPress={loadToken}>
+          <Text style={styles.retryText}>Try again</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <QRCode value={token} size={size} color="#000000" backgroundColor="#ffffff" />
+      {expiresAt && (
+        <Text style={styles.expiryText}>
+          Valid until {new Date(expiresAt * 1000).toLocaleDateString()}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  placeholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 12,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#dc2626',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  retryText: {
+    fontSize: 14,
+    color: '#10b981',
+    fontWeight: '600',
+  },
+  expiryText: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 8,
+  },
+});
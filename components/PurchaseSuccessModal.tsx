@@ -9,14 +9,14 @@ import {
     TouchableOpacity,
     View,
 } from 'react-native';
-import QRCode from 'react-native-qrcode-svg';
-import { generateQRCodeData } from '../utils/purchaseCode';
+import PurchaseQRCode from './PurchaseQRCode';
 
 const { width, height } = Dimensions.get('window');
 
 interface PurchaseSuccessModalProps {
   visible: boolean;
   onClose: () => void;
+  orderId: string | null;
   purchaseCode: string;
   orderDetails: {
     farmName?: string;
@@ -33,13 +33,12 @@ interface PurchaseSuccessModalProps {
 export default function PurchaseSuccessModal({
   visible,
   onClose,
+  orderId,
   purchaseCode,
   orderDetails,
   onViewOrders,
   onBackToMarketplace,
 }: PurchaseSuccessModalProps) {
-  const qrCodeData = generateQRCodeData(purchaseCode, orderDetails);
-
   const handleShare = async () => {
     try {
       await Share.share({
@@ -90,13 +89,7 @@ export default function PurchaseSuccessModal({
             <View style={styles.qrSection}>
               <Text style={styles.qrLabel}>Verification QR Code</Text>
               <View style={styles.qrContainer}>
-                <QRCode
-                  value={qrCodeData}
-                  size={180}
-                  color="#000000"
-                  backgroundColor="#ffffff"
-                  logo={undefined}
-                />
+                <PurchaseQRCode orderId={orderId} size={180} />
               </View>
               <Text style={styles.qrDescription}>
                 Show this QR code to verify your purchase
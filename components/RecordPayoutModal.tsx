@@ -0,0 +1,277 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { formatPeso, recordPayout } from '../services/payouts';
+import { FarmerBalance, FarmerPayout, PAYOUT_METHOD_CONFIG, PayoutMethod } from '../types/orders';
+
+const colors = {
+  primary: '#059669',
+  danger: '#ef4444',
+  white: '#ffffff',
+  gray300: '#d1d5db',
+  gray500: '#6b7280',
+  gray700: '#374151',
+  gray900: '#111827',
+};
+
+interface RecordPayoutModalProps {
+  visible: boolean;
+  adminId: string;
+  farmer: FarmerBalance | null;
+  onClose: () => void;
+  onRecorded: (payout: FarmerPayout) => void;
+}
+
+const METHODS = Object.keys(PAYOUT_METHOD_CONFIG) as PayoutMethod[];
+
+// Admin form for money handed or sent to a farmer
+export default function RecordPayoutModal({ visible, adminId, farmer, onClose, onRecorded }: RecordPayoutModalProps) {
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<PayoutMethod>('cash');
+  const [reference, setReference] = useState('');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setAmount(farmer && farmer.balance > 0 ? farmer.balance.toFixed(2) : '');
+    setMethod('cash');
+    setReference('');
+    setNotes('');
+    setError(null);
+  }, [visible, farmer]);
+
+  const handleSubmit = async () => {
+    if (!farmer) return;
+    const payoutAmount = Math.round(parseFloat(amount) * 100) / 100;
+
+    if (!payoutAmount || payoutAmount <= 0) return setError('Enter the amount paid');
+    if (payoutAmount > farmer.balance) return setError(`The farmer is only owed ${formatPeso(farmer.balance)}`);
+    if (method !== 'cash' && !reference.trim()) return setError('Enter the transfer reference number');
+
+    try {
+      setSaving(true);
+      setError(null);
+      const payout = await recordPayout({
+        farmerId: farmer.farmer_id,
+        amount: payoutAmount,
+        method,
+        reference,
+        notes
+      }, adminId);
+      onRecorded(payout);
+    } catch (err: any) {
+      setError(err.message || 'Failed to record payout');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const farmerName = farmer
+    ? farmer.farm_name || `${farmer.first_name || ''} ${farmer.last_name || ''}`.trim() || 'Farmer'
+    : '';
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <Text style={styles.title}>Record Payout</Text>
+          <Text style={styles.subtitle}>
+            {farmerName} is owed {formatPeso(farmer?.balance || 0)}. They are notified once it is recorded.
+          </Text>
+
+          <ScrollView style={styles.form} keyboardShouldPersistTaps="handled">
+            <Text style={styles.label}>Amount (₱)</Text>
+            <TextInput
+              style={styles.input}
+              value={amount}
+              onChangeText={setAmount}
+              keyboardType="decimal-pad"
+              placeholder="0.00"
+              placeholderTextColor={colors.gray500}
+            />
+
+            <Text style={styles.label}>Paid by</Text>
+            <View style={styles.chips}>
+              {METHODS.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, method === option && styles.chipActive]}
+                  onPress={() => setMethod(option)}
+                >
+                  <Text style={[styles.chipText, method === option && styles.chipTextActive]}>
+                    {PAYOUT_METHOD_CONFIG[option].label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.label}>{method === 'cash' ? 'Received by (optional)' : 'Reference number'}</Text>
+            <TextInput
+              style={styles.input}
+              value={reference}
+              onChangeText={setReference}
+              placeholder={method === 'cash' ? 'Name of whoever took the cash' : 'e.g. GCash or bank reference'}
+              placeholderTextColor={colors.gray500}
+            />
+
+            <Text style={styles.label}>Notes (optional)</Text>
+            <TextInput
+              style={[styles.input, styles.notesInput]}
+              value={notes}
+              onChangeText={setNotes}
+              multiline
+              placeholderTextColor={colors.gray500}
+            />
+          </ScrollView>
+
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          <View style={styles.footer}>
+            <TouchableOpacity onPress={onClose} disabled={saving}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.submitButton} onPress={handleSubmit} disabled={saving}>
+              {saving ? (
+                <ActivityIndicator size="small" color={colors.white} />
+              ) : (
+                <Text style={styles.submitText}>Record Payout</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+
+  modal: {
+    backgroundColor: colors.white,
+    borderRadius: 16,
+    padding: 20,
+    width: '100%',
+    maxWidth: 480,
+    maxHeight: '90%',
+  },
+
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.gray900,
+  },
+
+  subtitle: {
+    fontSize: 13,
+    color: colors.gray500,
+    marginTop: 4,
+  },
+
+  form: {
+    marginTop: 8,
+  },
+
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.gray700,
+    marginTop: 14,
+    marginBottom: 6,
+  },
+
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+
+  chip: {
+    borderWidth: 1,
+    borderColor: colors.gray300,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+
+  chipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+
+  chipText: {
+    fontSize: 13,
+    color: colors.gray700,
+  },
+
+  chipTextActive: {
+    color: colors.white,
+    fontWeight: '600',
+  },
+
+  input: {
+    borderWidth: 1,
+    borderColor: colors.gray300,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: colors.gray900,
+    backgroundColor: colors.white,
+  },
+
+  notesInput: {
+    minHeight: 64,
+    textAlignVertical: 'top',
+  },
+
+  errorText: {
+    color: colors.danger,
+    fontSize: 13,
+    marginTop: 12,
+  },
+
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+
+  cancelText: {
+    fontSize: 14,
+    color: colors.gray500,
+    fontWeight: '500',
+  },
+
+  submitButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingHorizontal: 18,
+    paddingVertical: 10,
+    minWidth: 120,
+    alignItems: 'center',
+  },
+
+  submitText: {
+    color: colors.white,
+    fontWeight: '600',
+    fontSize: 14,
+  },
+});
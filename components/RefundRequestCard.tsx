@@ -0,0 +1,354 @@
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Image,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/FontAwesome5';
+import { decideRefundRequest, RefundParties } from '../services/refunds';
+import { REFUND_ISSUE_TYPES, REFUND_STATUS_CONFIG, RefundRequest } from '../types/orders';
+import { showError, showSuccess } from '../utils/alert';
+
+interface RefundRequestCardProps {
+  requests: RefundRequest[];
+  parties: RefundParties;
+  // Signed-in user; the order's farmer or an admin may decide open requests
+  viewerId: string | null;
+  canDecide: boolean;
+  // Called after a request was approved or denied
+  onDecided: () => void;
+}
+
+const formatCurrency = (amount: number) => `₱${Number(amount).toFixed(2)}`;
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-PH', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+const issueLabel = (issueType: string | null) =>
+  REFUND_ISSUE_TYPES.find((type) => type.key === issueType)?.label || null;
+
+const RefundRequestCard: React.FC<RefundRequestCardProps> = ({
+  requests,
+  parties,
+  viewerId,
+  canDecide,
+  onDecided,
+}) => {
+  // product_id -> units returned, for the open request
+  const [returned, setReturned] = useState<Record<string, number>>({});
+  const [note, setNote] = useState('');
+  const [deciding, setDeciding] = useState<'approve' | 'deny' | null>(null);
+
+  if (requests.length === 0) return null;
+
+  const handleDecision = async (request: RefundRequest, approve: boolean) => {
+    if (!viewerId) return;
+    if (!approve && !note.trim()) {
+      showError('Please add a note explaining why the refund is denied.');
+      return;
+    }
+
+    try {
+      setDeciding(approve ? 'approve' : 'deny');
+      await decideRefundRequest(
+        request,
+        approve,
+        {
+          note,
+          returned: Object.entries(returned).map(([productId, quantity]) => ({ productId, quantity })),
+        },
+        parties,
+        viewerId
+      );
+      setReturned({});
+      setNote('');
+      showSuccess(approve ? 'Refund approved.' : 'Refund denied.');
+      onDecided();
+    } catch (error: any) {
+      showError(error?.message || 'Failed to update the refund request.');
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  const changeReturned = (productId: string, max: number, delta: number) => {
+    setReturned((prev) => ({
+      ...prev,
+      [productId]: Math.min(max, Math.max(0, (prev[productId] || 0) + delta)),
+    }));
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>Refund Requests</Text>
+
+      {requests.map((request) => {
+        const status = REFUND_STATUS_CONFIG[request.status];
+        const isOpen = request.status === 'pending' && canDecide;
+        const issue = issueLabel(request.issue_type);
+
+        return (
+          <View key={request.id} style={styles.request}>
+            <View style={styles.requestHeader}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.requestType}>
+                  {request.refund_type === 'full' ? 'Full refund' : 'Partial refund'} · {formatCurrency(request.amount)}
+                </Text>
+                <Text style={styles.requestDate}>
+                  Requested {formatDate(request.created_at)}
+                  {issue ? ` · ${issue}` : ''}
+                </Text>
+              </View>
+              <View style={[styles.statusBadge, { backgroundColor: status.bgColor }]}>
+                <Text style={[styles.statusText, { color: status.color }]}>{status.label}</Text>
+              </View>
+            </View>
+
+            <Text style={styles.reason}>{request.reason}</Text>
+
+            {request.photo_urls.length > 0 && (
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.photos}>
+                {request.photo_urls.map((url) => (
+                  <Image key={url} source={{ uri: url }} style={styles.photo} />
+                ))}
+              </ScrollView>
+            )}
+
+            {(request.items || []).map((item) => (
+              <View key={item.id} style={styles.itemRow}>
+                <Text style={styles.itemText}>
+                  {item.quantity} {item.product?.unit || ''} × {item.product?.name || 'Item'}
+                </Text>
+                {isOpen ? (
+                  <View style={styles.returnedControls}>
+                    <Text style={styles.returnedLabel}>Returned</Text>
+                    <TouchableOpacity
+                      style={styles.stepButton}
+                      onPress={() => changeReturned(item.product_id, item.quantity, -1)}
+                    >
+                      <Icon name="minus" size={10} color="#059669" />
+                    </TouchableOpacity>
+                    <Text style={styles.returnedValue}>{returned[item.product_id] || 0}</Text>
+                    <TouchableOpacity
+                      style={styles.stepButton}
+                      onPress={() => changeReturned(item.product_id, item.quantity, 1)}
+                    >
+                      <Icon name="plus" size={10} color="#059669" />
+                    </TouchableOpacity>
+                  </View>
+                ) : (
+                  request.status === 'approved' && (
+                    <Text style={styles.returnedLabel}>{item.returned_quantity} returned</Text>
+                  )
+                )}
+              </View>
+            ))}
+
+            {request.decision_note && (
+              <Text style={styles.decisionNote}>
+                {request.status === 'denied' ? 'Reason: ' : 'Note: '}
+                {request.decision_note}
+              </Text>
+            )}
+
+            {isOpen && (
+              <View style={styles.decision}>
+                <Text style={styles.hint}>
+                  Only units marked as returned go back into stock.
+                </Text>
+                <TextInput
+                  style={styles.noteInput}
+                  value={note}
+                  onChangeText={setNote}
+                  placeholder="Note to the buyer (required when denying)"
+                  placeholderTextColor="#9ca3af"
+                  multiline
+                />
+                <View style={styles.buttons}>
+                  <TouchableOpacity
+                    style={[styles.button, styles.denyButton]}
+                    onPress={() => handleDecision(request, false)}
+                    disabled={!!deciding}
+                  >
+                    {deciding === 'deny' ? (
+                      <ActivityIndicator size="small" color="#ffffff" />
+                    ) : (
+                      <Text style={styles.buttonText}>Deny</Text>
+                    )}
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.button, styles.approveButton]}
+                    onPress={() => handleDecision(request, true)}
+                    disabled={!!deciding}
+                  >
+                    {deciding === 'approve' ? (
+                      <ActivityIndicator size="small" color="#ffffff" />
+                    ) : (
+                      <Text style={styles.buttonText}>Approve {formatCurrency(request.amount)}</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              </View>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#fca5a5',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#0f172a',
+    marginBottom: 12,
+  },
+  request: {
+    borderTopWidth: 1,
+    borderTopColor: '#e2e8f0',
+    paddingTop: 12,
+    marginTop: 4,
+  },
+  requestHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    marginBottom: 8,
+  },
+  requestType: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#0f172a',
+  },
+  requestDate: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  statusBadge: {
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  reason: {
+    fontSize: 14,
+    color: '#334155',
+    marginBottom: 8,
+  },
+  photos: {
+    marginBottom: 8,
+  },
+  photo: {
+    width: 80,
+    height: 80,
+    borderRadius: 8,
+    marginRight: 8,
+    backgroundColor: '#f1f5f9',
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  itemText: {
+    fontSize: 14,
+    color: '#0f172a',
+    flex: 1,
+  },
+  returnedControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  returnedLabel: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  stepButton: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#10b981',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  returnedValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0f172a',
+    minWidth: 20,
+    textAlign: 'center',
+  },
+  decisionNote: {
+    fontSize: 13,
+    color: '#64748b',
+    fontStyle: 'italic',
+    marginTop: 6,
+  },
+  decision: {
+    marginTop: 8,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#64748b',
+    marginBottom: 8,
+  },
+  noteInput: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 14,
+    color: '#111827',
+    minHeight: 60,
+    textAlignVertical: 'top',
+    marginBottom: 12,
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  denyButton: {
+    backgroundColor: '#ef4444',
+  },
+  approveButton: {
+    backgroundColor: '#059669',
+  },
+  buttonText: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
+
+export default RefundRequestCard;
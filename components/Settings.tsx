@@ -23,6 +23,7 @@ import { getUserWithProfile, logoutUser } from "../services/auth";
 import { Database } from "../types/database";
 import { useCustomAlert } from "./CustomAlert";
 import HeaderComponent from "./HeaderComponent";
+import NotificationPreferencesSection from "./NotificationPreferencesSection";
 
 type Profile = Database["public"]["Tables"]["profiles"]["Row"];
 
@@ -105,8 +106,6 @@ export default function Settings({
   const [saving, setSaving] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
-  const [notifications, setNotifications] = useState(true);
-  const [marketingEmails, setMarketingEmails] = useState(false);
   const [formData, setFormData] = useState<Record<string, string>>({});
   const [uploadingImage, setUploadingImage] = useState(false);
   const [avatarUrl, setAvatarUrl] = useState<string | null>(null);
@@ -747,6 +746,13 @@ export default function Settings({
             </View>
           </View>
 
+          {profile && (
+            <NotificationPreferencesSection
+              userId={profile.id}
+              userType={userType}
+            />
+          )}
+
           {/* Account Actions */}
           <View style={styles.section}>
             <View style={styles.sectionTitleContainer}>
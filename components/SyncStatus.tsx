@@ -0,0 +1,298 @@
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Modal, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import Icon from 'react-native-vector-icons/FontAwesome5';
+import { offlineSync, OfflineMutation, SyncState } from '../services/offlineSync';
+import { realtimeManager } from '../services/realtimeManager';
+import RealtimeStatus from './RealtimeStatus';
+
+const colors = {
+  success: '#10b981',
+  warning: '#f59e0b',
+  danger: '#ef4444',
+  white: '#ffffff',
+  gray100: '#f3f4f6',
+  gray500: '#6b7280',
+  gray600: '#4b5563',
+  gray900: '#111827',
+};
+
+interface SyncStatusProps {
+  // Shown next to the indicator when the screen is showing saved data
+  offlineSince?: string | null;
+}
+
+const describeMutation = (mutation: OfflineMutation) => {
+  switch (mutation.kind) {
+    case 'product_stock':
+      return `Set ${mutation.productName} stock to ${mutation.quantity}`;
+    case 'order_status':
+      return `Mark order #${mutation.orderId.slice(-8).toUpperCase()} as ${mutation.status}`;
+    case 'product_create':
+      return `New listing: ${mutation.product.name}`;
+  }
+};
+
+// Connection and offline-sync status: queued edits, syncing, and conflicts to resolve
+export default function SyncStatus({ offlineSince }: SyncStatusProps) {
+  const [syncState, setSyncState] = useState<SyncState>(offlineSync.getState());
+  const [showDetails, setShowDetails] = useState(false);
+  const [resolving, setResolving] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = offlineSync.onSyncStateChange(setSyncState);
+    return unsubscribe;
+  }, []);
+
+  const needsAttention = [...syncState.conflicts, ...syncState.failed];
+
+  const getSummary = () => {
+    if (syncState.syncing) return 'Syncing changes...';
+    if (needsAttention.length > 0) {
+      return `${needsAttention.length} change${needsAttention.length === 1 ? '' : 's'} need${needsAttention.length === 1 ? 's' : ''} review`;
+    }
+    if (syncState.pending > 0) {
+      return `${syncState.pending} change${syncState.pending === 1 ? '' : 's'} waiting to sync`;
+    }
+    if (offlineSince) {
+      return `Offline copy from ${new Date(offlineSince).toLocaleString()}`;
+    }
+    return null;
+  };
+
+  const handleResolve = async (mutation: OfflineMutation, resolution: 'retry' | 'discard') => {
+    try {
+      setResolving(mutation.id);
+      await offlineSync.resolve(mutation.id, resolution);
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  const handleSyncNow = async () => {
+    await realtimeManager.reconnect();
+    await offlineSync.sync();
+  };
+
+  const summary = getSummary();
+
+  return (
+    <>
+      <TouchableOpacity style={styles.container} onPress={() => setShowDetails(true)}>
+        <RealtimeStatus showLabel={!summary} />
+        {summary && (
+          <View style={styles.summary}>
+            {syncState.syncing ? (
+              <ActivityIndicator size="small" color={colors.warning} />
+            ) : (
+              <Icon
+                name={needsAttention.length > 0 ? 'exclamation-triangle' : 'cloud-upload-alt'}
+                size={12}
+                color={needsAttention.length > 0 ? colors.danger : colors.warning}
+              />
+            )}
+            <Text style={styles.summaryText}>{summary}</Text>
+          </View>
+        )}
+      </TouchableOpacity>
+
+      <Modal visible={showDetails} transparent animationType="fade" onRequestClose={() => setShowDetails(false)}>
+        <View style={styles.overlay}>
+          <View style={styles.modal}>
+            <Text style={styles.title}>Sync Status</Text>
+            <Text style={styles.subtitle}>
+              {syncState.pending > 0
+                ? `${syncState.pending} change${syncState.pending === 1 ? '' : 's'} will be sent when you are back online.`
+                : 'All changes made on this device have been sent.'}
+            </Text>
+            {syncState.lastSyncedAt && (
+              <Text style={styles.subtitle}>Last sync: {new Date(syncState.lastSyncedAt).toLocaleString()}</Text>
+            )}
+
+            <ScrollView style={styles.list}>
+              {needsAttention.map((mutation) => (
+                <View key={mutation.id} style={styles.item}>
+                  <Text style={styles.itemTitle}>{describeMutation(mutation)}</Text>
+                  <Text style={[styles.itemMessage, mutation.state === 'failed' && styles.itemFailed]}>
+                    {mutation.message}
+                  </Text>
+                  <View style={styles.itemActions}>
+                    <TouchableOpacity
+                      style={[styles.actionButton, styles.discardButton]}
+                      onPress={() => handleResolve(mutation, 'discard')}
+                      disabled={!!resolving}
+                    >
+                      <Text style={styles.discardText}>Discard mine</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.actionButton, styles.retryButton]}
+                      onPress={() => handleResolve(mutation, 'retry')}
+                      disabled={!!resolving}
+                    >
+                      {resolving === mutation.id ? (
+                        <ActivityIndicator size="small" color={colors.white} />
+                      ) : (
+                        <Text style={styles.retryText}>
+                          {mutation.state === 'conflict' ? 'Keep mine' : 'Try again'}
+                        </Text>
+                      )}
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ))}
+            </ScrollView>
+
+            <View style={styles.footer}>
+              <TouchableOpacity onPress={() => setShowDetails(false)}>
+                <Text style={styles.closeText}>Close</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.syncButton}
+                onPress={handleSyncNow}
+                disabled={syncState.syncing}
+              >
+                <Text style={styles.syncButtonText}>Sync now</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+
+  summaryText: {
+    fontSize: 12,
+    color: colors.gray600,
+    fontWeight: '500',
+  },
+
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+
+  modal: {
+    backgroundColor: colors.white,
+    borderRadius: 16,
+    padding: 20,
+    width: '100%',
+    maxWidth: 420,
+    maxHeight: '80%',
+  },
+
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.gray900,
+    marginBottom: 8,
+  },
+
+  subtitle: {
+    fontSize: 13,
+    color: colors.gray500,
+    marginBottom: 4,
+  },
+
+  list: {
+    marginTop: 12,
+  },
+
+  item: {
+    backgroundColor: colors.gray100,
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 10,
+  },
+
+  itemTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.gray900,
+  },
+
+  itemMessage: {
+    fontSize: 13,
+    color: colors.warning,
+    marginTop: 4,
+  },
+
+  itemFailed: {
+    color: colors.danger,
+  },
+
+  itemActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 10,
+  },
+
+  actionButton: {
+    flex: 1,
+    borderRadius: 8,
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+
+  discardButton: {
+    borderWidth: 1,
+    borderColor: colors.danger,
+  },
+
+  discardText: {
+    color: colors.danger,
+    fontWeight: '600',
+    fontSize: 13,
+  },
+
+  retryButton: {
+    backgroundColor: colors.success,
+  },
+
+  retryText: {
+    color: colors.white,
+    fontWeight: '600',
+    fontSize: 13,
+  },
+
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+
+  closeText: {
+    fontSize: 14,
+    color: colors.gray500,
+    fontWeight: '500',
+  },
+
+  syncButton: {
+    backgroundColor: colors.success,
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+
+  syncButtonText: {
+    color: colors.white,
+    fontWeight: '600',
+    fontSize: 14,
+  },
+});
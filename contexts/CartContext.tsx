@@ -0,0 +1,147 @@
+import React, { createContext, ReactNode, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { useAuth } from './AuthContext';
+import {
+  cartLineKey,
+  cartLinePrice,
+  clearLocalCart,
+  loadLocalCart,
+  pushRemoteCart,
+  saveLocalCart,
+  syncCart,
+} from '../services/cart';
+import { CartItem } from '../types/orders';
+
+interface CartContextType {
+  items: CartItem[];
+  itemCount: number;
+  subtotal: number;
+  loading: boolean;
+  addItem: (item: Omit<CartItem, 'added_at'>) => void;
+  // Lines are addressed by cartLineKey(), i.e. product and option
+  updateQuantity: (lineKey: string, quantity: number) => void;
+  removeItem: (lineKey: string) => void;
+  removeItems: (lineKeys: string[]) => void;
+  clearCart: () => void;
+  refresh: () => Promise<void>;
+}
+
+const CartContext = createContext<CartContextType | undefined>(undefined);
+
+export const useCart = () => {
+  const context = useContext(CartContext);
+  if (!context) {
+    throw new Error('useCart must be used within CartProvider');
+  }
+  return context;
+};
+
+interface CartProviderProps {
+  children: ReactNode;
+}
+
+export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [items, setItems] = useState<CartItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const hydratedRef = useRef(false);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    hydratedRef.current = false;
+    const cart = userId ? await syncCart(userId) : await loadLocalCart(null);
+    setItems(cart);
+    hydratedRef.current = true;
+    setLoading(false);
+  }, [userId]);
+
+  // Reload whenever the signed-in user changes
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Persist every change locally, and to the server when signed in
+  useEffect(() => {
+    if (!hydratedRef.current) return;
+
+    saveLocalCart(userId, items);
+    if (userId) {
+      pushRemoteCart(userId, items).catch(error => {
+        console.warn('⚠️ Failed to sync cart to server, will retry on next load:', error);
+      });
+    }
+  }, [items, userId]);
+
+  const addItem = useCallback((item: Omit<CartItem, 'added_at'>) => {
+    setItems(prev => {
+      const key = cartLineKey(item);
+      const existing = prev.find(line => cartLineKey(line) === key);
+      if (existing) {
+        return prev.map(line =>
+          cartLineKey(line) === key
+            ? {
+                ...line,
+                ...item,
+                quantity: Math.min(item.quantity_available, line.quantity + item.quantity),
+              }
+            : line
+        );
+      }
+      return [
+        ...prev,
+        {
+          ...item,
+          quantity: Math.min(item.quantity_available, item.quantity),
+          added_at: new Date().toISOString(),
+        },
+      ];
+    });
+  }, []);
+
+  const updateQuantity = useCallback((lineKey: string, quantity: number) => {
+    setItems(prev =>
+      quantity <= 0
+        ? prev.filter(line => cartLineKey(line) !== lineKey)
+        : prev.map(line =>
+            cartLineKey(line) === lineKey
+              ? { ...line, quantity: Math.min(line.quantity_available, quantity) }
+              : line
+          )
+    );
+  }, []);
+
+  const removeItem = useCallback((lineKey: string) => {
+    setItems(prev => prev.filter(line => cartLineKey(line) !== lineKey));
+  }, []);
+
+  const removeItems = useCallback((lineKeys: string[]) => {
+    setItems(prev => prev.filter(line => !lineKeys.includes(cartLineKey(line))));
+  }, []);
+
+  const clearCart = useCallback(() => {
+    setItems([]);
+    clearLocalCart(userId);
+  }, [userId]);
+
+  const itemCount = items.reduce((sum, line) => sum + line.quantity, 0);
+  const subtotal = items.reduce((sum, line) => sum + cartLinePrice(line) * line.quantity, 0);
+
+  return (
+    <CartContext.Provider
+      value={{
+        items,
+        itemCount,
+        subtotal,
+        loading,
+        addItem,
+        updateQuantity,
+        removeItem,
+        removeItems,
+        clearCart,
+        refresh,
+      }}
+    >
+      {children}
+    </CartContext.Provider>
+  );
+};
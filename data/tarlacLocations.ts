@@ -429,6 +429,70 @@ export const tarlacBarangays: BarangayData[] = [
   }
 ];
 
+// Approximate centre of each barangay, for rough distances when an address cannot be found on
+// the map. Barangays missing here can still be picked but have no coordinates.
+export const barangayCentres: Record<string, { lat: number; lon: number }> = {
+  Aguso: { lat: 15.4803, lon: 120.5979 },
+  "Alvindia Primero": { lat: 15.4703, lon: 120.5879 },
+  "Alvindia Segundo": { lat: 15.4703, lon: 120.5879 },
+  Amucao: { lat: 15.4903, lon: 120.6079 },
+  Armenia: { lat: 15.4603, lon: 120.5779 },
+  Asturias: { lat: 15.4803, lon: 120.5879 },
+  Atioc: { lat: 15.4703, lon: 120.5979 },
+  Balanti: { lat: 15.4603, lon: 120.5879 },
+  Balete: { lat: 15.4803, lon: 120.5779 },
+  Bantog: { lat: 15.4903, lon: 120.5879 },
+  "Batang-batang": { lat: 15.4703, lon: 120.5779 },
+  Binauganan: { lat: 15.4803, lon: 120.6079 },
+  Bora: { lat: 15.4603, lon: 120.6079 },
+  Burot: { lat: 15.4903, lon: 120.5779 },
+  Carangian: { lat: 15.4703, lon: 120.6079 },
+  Care: { lat: 15.4803, lon: 120.5979 },
+  Central: { lat: 15.4803, lon: 120.5929 },
+  Culipaat: { lat: 15.4603, lon: 120.5779 },
+  "Cut-cut I": { lat: 15.4703, lon: 120.5879 },
+  "Cut-cut II": { lat: 15.4703, lon: 120.5879 },
+  "Dela Paz": { lat: 15.4803, lon: 120.5879 },
+  Dolores: { lat: 15.4903, lon: 120.5979 },
+  Laoang: { lat: 15.4603, lon: 120.5879 },
+  Ligtasan: { lat: 15.4803, lon: 120.6079 },
+  Lourdes: { lat: 15.4703, lon: 120.5929 },
+  Mabini: { lat: 15.4803, lon: 120.5929 },
+  Maligaya: { lat: 15.4903, lon: 120.5879 },
+  Mapalacsiao: { lat: 15.4603, lon: 120.6079 },
+  Mapatag: { lat: 15.4703, lon: 120.5779 },
+  Paraiso: { lat: 15.4803, lon: 120.5829 },
+  Poblacion: { lat: 15.4803, lon: 120.5929 },
+  Salapungan: { lat: 15.4903, lon: 120.6079 },
+  "San Carlos": { lat: 15.4603, lon: 120.5929 },
+  "San Francisco": { lat: 15.4703, lon: 120.5829 },
+  "San Isidro": { lat: 15.4803, lon: 120.5779 },
+  "San Jose": { lat: 15.4903, lon: 120.5929 },
+  "San Luis": { lat: 15.4603, lon: 120.5829 },
+  "San Manuel": { lat: 15.4703, lon: 120.6079 },
+  "San Miguel": { lat: 15.4803, lon: 120.6029 },
+  "San Nicolas": { lat: 15.4903, lon: 120.5829 },
+  "San Pablo": { lat: 15.4603, lon: 120.5979 },
+  "San Pascual": { lat: 15.4703, lon: 120.5979 },
+  "San Rafael": { lat: 15.4803, lon: 120.5879 },
+  "San Roque": { lat: 15.4903, lon: 120.6029 },
+  "San Sebastian": { lat: 15.4603, lon: 120.6029 },
+  "San Vicente": { lat: 15.4703, lon: 120.5829 },
+  "Santa Cruz": { lat: 15.4803, lon: 120.6129 },
+  "Santa Maria": { lat: 15.4903, lon: 120.6179 },
+  "Santo Cristo": { lat: 15.4603, lon: 120.5729 },
+  "Santo Domingo": { lat: 15.4703, lon: 120.6129 },
+  "Santo Niño": { lat: 15.4803, lon: 120.5729 },
+  "Sepung Calzada": { lat: 15.4903, lon: 120.5729 },
+  Sinait: { lat: 15.4603, lon: 120.6179 },
+  Suizo: { lat: 15.4703, lon: 120.6179 },
+  Tariji: { lat: 15.4803, lon: 120.6179 },
+  Tibag: { lat: 15.4903, lon: 120.6129 },
+  Trinidad: { lat: 15.4603, lon: 120.6129 },
+  Ungot: { lat: 15.4703, lon: 120.5729 },
+  "Villa Bacolor": { lat: 15.4803, lon: 120.6229 }
+};
+
 // Helper function to search barangays
 export const searchBarangays = (query: string): BarangayData[] => {
   if (!query || query.length < 1) return [];
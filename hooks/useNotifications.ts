@@ -1,11 +1,16 @@
-import { useEffect, useState, useRef } from 'react';
-import { Alert, AppState } from 'react-native';
+import { useCallback, useEffect, useState, useRef } from 'react';
+import { Alert } from 'react-native';
 import {
   getUserNotifications,
   markNotificationAsRead,
   getUnreadNotificationCount
 } from '../services/notifications';
-import { hybridNotificationService } from '../services/hybridNotifications';
+import { notificationClient, NotificationConnectionStatus } from '../services/notificationClient';
+import {
+  emitNotificationsChanged,
+  markAllNotificationsAsRead,
+  onNotificationsChanged
+} from '../services/notificationInbox';
 
 export interface NotificationData {
   id: string;
@@ -18,6 +23,8 @@ export interface NotificationData {
   action_data: any;
   is_read: boolean;
   read_at: string | null;
+  // Set when moved out of the inbox; archived notifications are always read
+  archived_at?: string | null;
   created_at: string;
   sender?: {
     first_name: string | null;
@@ -31,29 +38,28 @@ export interface UseNotificationsResult {
   loading: boolean;
   error: string | null;
   markAsRead: (notificationId: string) => Promise<void>;
+  markAllAsRead: () => Promise<void>;
   refreshNotifications: () => Promise<void>;
   playNotificationSound: () => void;
-  connectionStatus: {
-    supabase: string;
-    websocket: string;
-    polling: boolean;
-  };
+  connectionStatus: NotificationConnectionStatus;
   forceReconnect: () => void;
 }
 
+// Every mounted header gets each new notification; only the first plays the sound and alerts
+let lastAnnouncedNotificationId: string | null = null;
+
 export const useNotifications = (userId: string | null): UseNotificationsResult => {
   const [notifications, setNotifications] = useState<NotificationData[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [connectionStatus, setConnectionStatus] = useState({
-    supabase: 'CLOSED',
-    websocket: 'CLOSED',
-    polling: false
-  });
+  const [connectionStatus, setConnectionStatus] = useState<NotificationConnectionStatus>(
+    notificationClient.getStatus()
+  );
 
   // Track if app is ready to show alerts (avoid Activity attachment issues)
   const isAppReady = useRef(false);
+  const syncTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   useEffect(() => {
     // Wait 2 seconds after mount before allowing alerts
@@ -65,7 +71,7 @@ export const useNotifications = (userId: string | null): UseNotificationsResult
   }, []);
 
   // Load notifications
-  const loadNotifications = async () => {
+  const loadNotifications = useCallback(async () => {
     if (!userId) return;
 
     try {
@@ -77,6 +83,7 @@ export const useNotifications = (userId: string | null): UseNotificationsResult
         getUnreadNotificationCount(userId)
       ]);
 
+      notificationClient.markSeen(notificationsData);
       setNotifications(notificationsData);
       setUnreadCount(count);
     } catch (err) {
@@ -85,12 +92,35 @@ export const useNotifications = (userId: string | null): UseNotificationsResult
     } finally {
       setLoading(false);
     }
-  };
+  }, [userId]);
+
+  // Refetch quietly when notifications change elsewhere (another screen, tab or device);
+  // bursts of changes, e.g. a bulk archive, collapse into one fetch
+  const syncNotifications = useCallback(() => {
+    if (!userId) return;
+    if (syncTimer.current) clearTimeout(syncTimer.current);
+
+    syncTimer.current = setTimeout(async () => {
+      syncTimer.current = null;
+      try {
+        const [notificationsData, count] = await Promise.all([
+          getUserNotifications(userId, 50),
+          getUnreadNotificationCount(userId)
+        ]);
+        notificationClient.markSeen(notificationsData);
+        setNotifications(notificationsData);
+        setUnreadCount(count);
+      } catch (err) {
+        console.error('Error syncing notifications:', err);
+      }
+    }, 500);
+  }, [userId]);
 
   // Mark notification as read
-  const markAsRead = async (notificationId: string) => {
+  const markAsRead = useCallback(async (notificationId: string) => {
     try {
       await markNotificationAsRead(notificationId);
+      emitNotificationsChanged();
 
       // Update local state
       setNotifications(prev =>
@@ -110,31 +140,47 @@ export const useNotifications = (userId: string | null): UseNotificationsResult
         Alert.alert('Error', 'Failed to mark notification as read');
       }
     }
+  }, []);
+
+  const markAllAsRead = async () => {
+    if (!userId) return;
+
+    try {
+      await markAllNotificationsAsRead(userId);
+    } catch (err) {
+      console.error('Error marking all notifications as read:', err);
+      if (isAppReady.current) {
+        Alert.alert('Error', 'Failed to mark notifications as read');
+      }
+    }
   };
 
   // Play notification sound (mock implementation)
-  const playNotificationSound = () => {
+  const playNotificationSound = useCallback(() => {
     // In a real implementation, you would play a sound here
     console.log('🔔 Notification sound played');
-  };
+  }, []);
 
-  // Set up hybrid real-time notification service
+  // Receive notifications and keep the list and unread badge in step with the inbox and other devices
   useEffect(() => {
     if (!userId) return;
 
-    console.log('🚀 Setting up hybrid notification service for user:', userId);
-
     const handleNewNotification = (newNotification: NotificationData) => {
-      console.log('🔔 New hybrid notification received:', newNotification);
+      console.log('🔔 New notification received:', newNotification.id);
 
-      // Add notification to list (hybrid service handles duplicates)
-      setNotifications(prev => [newNotification, ...prev]);
+      // The client delivers each notification once, but a sync may already have fetched it
+      setNotifications(prev =>
+        prev.some(notif => notif.id === newNotification.id) ? prev : [newNotification, ...prev]
+      );
 
       // Increment unread count if notification is unread
       if (!newNotification.is_read) {
         setUnreadCount(prev => prev + 1);
       }
 
+      if (lastAnnouncedNotificationId === newNotification.id) return;
+      lastAnnouncedNotificationId = newNotification.id;
+
       // Play notification sound
       playNotificationSound();
 
@@ -160,32 +206,34 @@ export const useNotifications = (userId: string | null): UseNotificationsResult
       }
     };
 
-    // Subscribe to hybrid notification service
-    hybridNotificationService.subscribe(userId, handleNewNotification);
-
-    // Monitor connection status
-    const statusMonitor = setInterval(() => {
-      const status = hybridNotificationService.getStatus();
-      setConnectionStatus(status);
-    }, 5000); // Check every 5 seconds
+    const unsubscribe = notificationClient.subscribe(userId, {
+      onNotification: handleNewNotification,
+      onChange: syncNotifications
+    });
+    const stopWatchingStatus = notificationClient.onStatusChange(setConnectionStatus);
+    const stopListening = onNotificationsChanged(syncNotifications);
+    setConnectionStatus(notificationClient.getStatus());
 
     return () => {
-      console.log('🛑 Cleaning up hybrid notification service');
-      hybridNotificationService.unsubscribe();
-      clearInterval(statusMonitor);
+      unsubscribe();
+      stopWatchingStatus();
+      stopListening();
+      if (syncTimer.current) {
+        clearTimeout(syncTimer.current);
+        syncTimer.current = null;
+      }
     };
-  }, [userId]);
+  }, [userId, syncNotifications, markAsRead, playNotificationSound]);
 
   // Force reconnection function
   const forceReconnect = () => {
-    console.log('🔄 Force reconnecting notifications');
-    hybridNotificationService.forceReconnect();
+    notificationClient.reconnect();
   };
 
   // Load initial notifications
   useEffect(() => {
     loadNotifications();
-  }, [userId]);
+  }, [loadNotifications]);
 
   return {
     notifications,
@@ -193,6 +241,7 @@ export const useNotifications = (userId: string | null): UseNotificationsResult
     loading,
     error,
     markAsRead,
+    markAllAsRead,
     refreshNotifications: loadNotifications,
     playNotificationSound,
     connectionStatus,
@@ -1,6 +1,7 @@
 import { Linking, Platform } from 'react-native';
 import { signInWithGoogleOAuth, supabase } from '../lib/supabase';
 import { Database } from '../types/database';
+import { geocodeProfileAddress, toLocationColumns } from './profileLocation';
 import { sessionManager } from './sessionManager';
 
 // Check if we're in demo mode
@@ -109,6 +110,10 @@ export const registerUser = async (data: RegisterData) => {
     }
 
     console.log('✅ Auth user created successfully:', authData.user.id);
+
+    // Falls back to the barangay centre without a connection, so this never blocks signup
+    const location = await geocodeProfileAddress(data.barangay, data.address);
+
     console.log('📝 Creating user profile...');
 
     const profileData = {
@@ -123,6 +128,7 @@ export const registerUser = async (data: RegisterData) => {
       user_type: data.userType as 'farmer' | 'buyer',
       farm_name: data.farmName || null,
       farm_size: data.farmSize || null,
+      ...toLocationColumns(location),
     } as Database['public']['Tables']['profiles']['Insert'];
 
     console.log('📝 Profile data:', {
@@ -0,0 +1,153 @@
+import { supabase } from '../lib/supabase';
+
+// Tables a super-admin can pick to restore. Archives hold every table that references these too,
+// and restoring a table also restores those (see supabase/functions/database-backup).
+export const BACKUP_TABLES = [
+  'profiles',
+  'products',
+  'orders',
+  'transactions',
+  'messages',
+  'notifications',
+  'verification_submissions',
+] as const;
+
+export type BackupTable = typeof BACKUP_TABLES[number];
+export type BackupType = 'manual' | 'automatic';
+export type BackupStatus = 'in_progress' | 'completed' | 'failed';
+
+export interface Backup {
+  id: string;
+  name: string;
+  type: BackupType;
+  status: BackupStatus;
+  storage_path: string;
+  format_version: number;
+  size_bytes: number | null;
+  table_counts: Record<string, number> | null;
+  error_message: string | null;
+  created_by: string | null;
+  created_at: string;
+  completed_at: string | null;
+  last_restored_at: string | null;
+}
+
+export interface RestoreTableDiff {
+  // A picked table or one restored along with it
+  table: string;
+  inserted: number;
+  updated: number;
+  deleted: number;
+  unchanged: number;
+}
+
+export interface RestoreResult {
+  dryRun: boolean;
+  diffs: RestoreTableDiff[];
+}
+
+const BACKUP_BUCKET = 'backups';
+const DOWNLOAD_URL_TTL_SECONDS = 60 * 10;
+
+// Call the database-backup edge function and unwrap its { success, error } envelope
+const invokeBackupFunction = async <T>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke('database-backup', { body });
+
+  if (error) {
+    throw new Error(error.message || 'Backup service unavailable');
+  }
+  if (!data?.success) {
+    throw new Error(data?.error || 'Backup request failed');
+  }
+
+  return data as T;
+};
+
+// List backups, newest first
+export const getBackups = async (): Promise<Backup[]> => {
+  const { data, error } = await (supabase as any)
+    .from('backups')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('❌ Error fetching backups:', error);
+    throw error;
+  }
+
+  return (data || []) as Backup[];
+};
+
+// Snapshot every backed-up table into a new archive
+export const createManualBackup = async (): Promise<Backup> => {
+  console.log('💾 Creating manual backup...');
+  const result = await invokeBackupFunction<{ backup: Backup }>({ action: 'create' });
+  console.log('✅ Backup created:', result.backup.id);
+  return result.backup;
+};
+
+// Short-lived signed URL for downloading an archive
+export const getBackupDownloadUrl = async (backup: Backup): Promise<string> => {
+  const { data, error } = await supabase.storage
+    .from(BACKUP_BUCKET)
+    .createSignedUrl(backup.storage_path, DOWNLOAD_URL_TTL_SECONDS, {
+      download: `${backup.name.replace(/[^a-z0-9-]+/gi, '_')}.ndjson`,
+    });
+
+  if (error || !data?.signedUrl) {
+    throw new Error(error?.message || 'Failed to create download link');
+  }
+
+  return data.signedUrl;
+};
+
+// Remove both the archive and its index row
+export const deleteBackup = async (backup: Backup): Promise<void> => {
+  const { error: storageError } = await supabase.storage
+    .from(BACKUP_BUCKET)
+    .remove([backup.storage_path]);
+
+  if (storageError) {
+    console.error('❌ Error deleting backup archive:', storageError);
+    throw storageError;
+  }
+
+  const { error } = await (supabase as any)
+    .from('backups')
+    .delete()
+    .eq('id', backup.id);
+
+  if (error) {
+    console.error('❌ Error deleting backup record:', error);
+    throw error;
+  }
+};
+
+// Compare the archive with current data without changing anything
+export const previewRestore = async (backupId: string, tables: BackupTable[]): Promise<RestoreResult> => {
+  return await invokeBackupFunction<RestoreResult>({
+    action: 'restore',
+    backupId,
+    tables,
+    dryRun: true,
+  });
+};
+
+// Overwrite the selected tables with the archive contents
+export const restoreBackup = async (backupId: string, tables: BackupTable[]): Promise<RestoreResult> => {
+  console.log('♻️ Restoring backup', backupId, 'tables:', tables);
+  return await invokeBackupFunction<RestoreResult>({
+    action: 'restore',
+    backupId,
+    tables,
+    dryRun: false,
+  });
+};
+
+export const formatBackupSize = (bytes: number | null): string => {
+  if (bytes === null || bytes === undefined) return '—';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
@@ -0,0 +1,218 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from '../lib/supabase';
+import { CartItem } from '../types/orders';
+import { getTierUnitPrice } from './products';
+
+// Carts are stored per user so switching accounts on a shared device never mixes them
+const CART_STORAGE_PREFIX = 'farm2go_cart_';
+const GUEST_CART_KEY = `${CART_STORAGE_PREFIX}guest`;
+
+const storageKey = (userId: string | null) =>
+  userId ? `${CART_STORAGE_PREFIX}${userId}` : GUEST_CART_KEY;
+
+// One line per product and option; matches the generated cart_items.line_key
+export const cartLineKey = (item: Pick<CartItem, 'product_id' | 'variant_id'>) =>
+  `${item.product_id}:${item.variant_id || ''}`;
+
+// Unit price of a line once bulk pricing for its quantity is applied
+export const cartLinePrice = (item: CartItem) =>
+  getTierUnitPrice(item.price, item.price_tiers, item.quantity);
+
+// Load the locally persisted cart
+export const loadLocalCart = async (userId: string | null): Promise<CartItem[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(storageKey(userId));
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('❌ Failed to load cart from storage:', error);
+    return [];
+  }
+};
+
+// Persist the cart locally
+export const saveLocalCart = async (userId: string | null, items: CartItem[]): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(storageKey(userId), JSON.stringify(items));
+  } catch (error) {
+    console.error('❌ Failed to save cart to storage:', error);
+  }
+};
+
+export const clearLocalCart = async (userId: string | null): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(storageKey(userId));
+  } catch (error) {
+    console.error('❌ Failed to clear cart storage:', error);
+  }
+};
+
+// Fetch the server copy of a user's cart with current product details
+export const fetchRemoteCart = async (userId: string): Promise<CartItem[]> => {
+  const { data, error } = await (supabase as any)
+    .from('cart_items')
+    .select(`
+      product_id,
+      variant_id,
+      quantity,
+      created_at,
+      product:product_id (
+        id,
+        farmer_id,
+        name,
+        price,
+        unit,
+        image_url,
+        quantity_available,
+        status,
+        farmer_profile:farmer_id (
+          farm_name
+        ),
+        price_tiers:product_price_tiers (
+          min_quantity,
+          unit_price
+        )
+      ),
+      variant:variant_id (
+        name,
+        price,
+        unit,
+        quantity_available,
+        is_active,
+        price_tiers:product_price_tiers (
+          min_quantity,
+          unit_price
+        )
+      )
+    `)
+    .eq('user_id', userId);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || [])
+    .filter((row: any) => row.product && row.product.status === 'approved')
+    // Drop lines for options the farmer has since retired
+    .filter((row: any) => !row.variant_id || row.variant?.is_active)
+    .map((row: any) => ({
+      product_id: row.product_id,
+      farmer_id: row.product.farmer_id,
+      name: row.product.name,
+      price: row.variant ? row.variant.price : row.product.price,
+      unit: row.variant ? row.variant.unit : row.product.unit,
+      image_url: row.product.image_url,
+      farm_name: row.product.farmer_profile?.farm_name || null,
+      variant_id: row.variant_id || null,
+      variant_name: row.variant?.name || null,
+      price_tiers: (row.variant ? row.variant.price_tiers : row.product.price_tiers) || [],
+      quantity_available: row.variant ? row.variant.quantity_available : row.product.quantity_available,
+      quantity: row.quantity,
+      added_at: row.created_at,
+    }));
+};
+
+// Replace the server copy of a user's cart with the given items
+export const pushRemoteCart = async (userId: string, items: CartItem[]): Promise<void> => {
+  const lineKeys = items.map(cartLineKey);
+
+  // Remove lines that are no longer in the cart
+  let deleteQuery = (supabase as any).from('cart_items').delete().eq('user_id', userId);
+  if (lineKeys.length > 0) {
+    deleteQuery = deleteQuery.not('line_key', 'in', `(${lineKeys.map(key => `"${key}"`).join(',')})`);
+  }
+  const { error: deleteError } = await deleteQuery;
+  if (deleteError) {
+    throw deleteError;
+  }
+
+  if (items.length === 0) return;
+
+  const { error: upsertError } = await (supabase as any)
+    .from('cart_items')
+    .upsert(
+      items.map(item => ({
+        user_id: userId,
+        product_id: item.product_id,
+        variant_id: item.variant_id || null,
+        quantity: item.quantity,
+        updated_at: new Date().toISOString(),
+      })),
+      { onConflict: 'user_id,line_key' }
+    );
+
+  if (upsertError) {
+    throw upsertError;
+  }
+};
+
+// Merge two carts, keeping the larger quantity for a line present in both
+export const mergeCarts = (local: CartItem[], remote: CartItem[]): CartItem[] => {
+  const merged = new Map<string, CartItem>();
+
+  for (const item of remote) {
+    merged.set(cartLineKey(item), item);
+  }
+
+  for (const item of local) {
+    const existing = merged.get(cartLineKey(item));
+    if (!existing) {
+      merged.set(cartLineKey(item), item);
+    } else {
+      // Prefer the fresher product details from the server
+      merged.set(cartLineKey(item), {
+        ...existing,
+        quantity: Math.max(existing.quantity, item.quantity),
+      });
+    }
+  }
+
+  // Never hold more than is currently in stock
+  return Array.from(merged.values())
+    .map(item => ({ ...item, quantity: Math.min(item.quantity, item.quantity_available) }))
+    .filter(item => item.quantity > 0);
+};
+
+// Sync the local cart with the server copy and return the merged result.
+// A guest cart is folded into the user's cart on first sign-in.
+export const syncCart = async (userId: string): Promise<CartItem[]> => {
+  const [local, guest] = await Promise.all([loadLocalCart(userId), loadLocalCart(null)]);
+
+  try {
+    const remote = await fetchRemoteCart(userId);
+    const merged = mergeCarts([...local, ...guest], remote);
+
+    await pushRemoteCart(userId, merged);
+    await saveLocalCart(userId, merged);
+    if (guest.length > 0) {
+      await clearLocalCart(null);
+    }
+
+    console.log('🛒 Cart synced:', merged.length, 'line(s)');
+    return merged;
+  } catch (error) {
+    // Offline or table missing: keep working from the local copy
+    console.warn('⚠️ Cart sync failed, using local cart:', error);
+    return mergeCarts([...local, ...guest], []);
+  }
+};
+
+// Group cart lines by farmer; each group becomes one order at checkout
+export const groupCartByFarmer = (items: CartItem[]) => {
+  const groups = new Map<string, { farmerId: string; farmName: string | null; items: CartItem[]; subtotal: number }>();
+
+  for (const item of items) {
+    const group = groups.get(item.farmer_id) || {
+      farmerId: item.farmer_id,
+      farmName: item.farm_name || null,
+      items: [],
+      subtotal: 0,
+    };
+    group.items.push(item);
+    group.subtotal += cartLinePrice(item) * item.quantity;
+    groups.set(item.farmer_id, group);
+  }
+
+  return Array.from(groups.values());
+};
@@ -0,0 +1,256 @@
+import { supabase } from '../lib/supabase';
+import {
+  DeliveryManifestGroup,
+  DeliverySchedule,
+  DeliverySlot,
+  DeliverySlotOpening,
+  FulfillmentMethod,
+  Order
+} from '../types/orders';
+import { notifyDeliverySlotChanged } from './notifications';
+import { getDeliveryOrders } from './orders';
+
+// Delivery windows and pickup points. See supabase/migrations/20261019061156_create_delivery_slots.sql.
+
+export interface DeliverySlotData {
+  kind: FulfillmentMethod;
+  label: string;
+  location?: string | null;
+  dayOfWeek: number;
+  // 'HH:MM'
+  startTime: string;
+  endTime: string;
+  capacity: number;
+}
+
+// Indexed by day_of_week
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// 'YYYY-MM-DD' in local time, the form delivery dates are stored in
+export const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Parsed as local midnight; new Date('YYYY-MM-DD') would be UTC and can land on the day before
+export const parseDateKey = (date: string): Date => new Date(`${date}T00:00:00`);
+
+// 'Sat, Oct 24'
+export const formatSlotDate = (date: string): string =>
+  parseDateKey(date).toLocaleDateString('en-PH', { weekday: 'short', month: 'short', day: 'numeric' });
+
+// '07:00:00' -> '7:00 AM'
+export const formatSlotTime = (time: string): string => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const suffix = hours >= 12 ? 'PM' : 'AM';
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${suffix}`;
+};
+
+export const formatSlotWindow = (start: string | null | undefined, end: string | null | undefined): string => {
+  if (!start || !end) return '';
+  return `${formatSlotTime(start)} – ${formatSlotTime(end)}`;
+};
+
+// 'Pickup at Barangay Hall · Sat, Oct 24, 7:00 AM – 10:00 AM'
+export const formatDeliverySchedule = (schedule: DeliverySchedule | null | undefined): string => {
+  if (!schedule?.delivery_date) return 'Not scheduled';
+
+  const method = schedule.fulfillment_method === 'pickup'
+    ? `Pickup${schedule.pickup_location ? ` at ${schedule.pickup_location}` : ''}`
+    : 'Delivery';
+  const window = formatSlotWindow(schedule.delivery_window_start, schedule.delivery_window_end);
+
+  return `${method} · ${formatSlotDate(schedule.delivery_date)}${window ? `, ${window}` : ''}`;
+};
+
+// Only these can still be moved; book_delivery_slot() enforces the same
+export const canRescheduleOrder = (status: string): boolean =>
+  ['pending', 'confirmed', 'processing', 'ready'].includes(status);
+
+export const getFarmerDeliverySlots = async (
+  farmerId: string,
+  includeInactive: boolean = false
+): Promise<DeliverySlot[]> => {
+  let query = (supabase as any)
+    .from('delivery_slots')
+    .select('*')
+    .eq('farmer_id', farmerId)
+    .order('day_of_week', { ascending: true })
+    .order('start_time', { ascending: true });
+
+  if (!includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('❌ Error loading delivery slots:', error);
+    throw error;
+  }
+
+  return (data || []) as DeliverySlot[];
+};
+
+// Add a slot, or update one when slotId is given
+export const saveDeliverySlot = async (
+  farmerId: string,
+  data: DeliverySlotData,
+  slotId?: string
+): Promise<DeliverySlot> => {
+  console.log('🗓️ Saving delivery slot:', slotId || 'new', data.label);
+
+  const row = {
+    farmer_id: farmerId,
+    kind: data.kind,
+    label: data.label.trim(),
+    location: data.kind === 'pickup' ? data.location?.trim() || null : null,
+    day_of_week: data.dayOfWeek,
+    start_time: data.startTime,
+    end_time: data.endTime,
+    capacity: data.capacity
+  };
+
+  const { data: slot, error } = slotId
+    ? await (supabase as any).from('delivery_slots').update(row).eq('id', slotId).select().single()
+    : await (supabase as any).from('delivery_slots').insert(row).select().single();
+
+  if (error) {
+    console.error('❌ Error saving delivery slot:', error);
+    throw new Error(error.message || 'Failed to save delivery slot');
+  }
+
+  return slot as DeliverySlot;
+};
+
+// Retired slots stop taking bookings; orders already booked into them keep their schedule
+export const setDeliverySlotActive = async (slotId: string, isActive: boolean): Promise<void> => {
+  const { error } = await (supabase as any)
+    .from('delivery_slots')
+    .update({ is_active: isActive })
+    .eq('id', slotId);
+
+  if (error) {
+    console.error('❌ Error updating delivery slot:', error);
+    throw new Error(error.message || 'Failed to update delivery slot');
+  }
+};
+
+// Dates in the next few days on which a farmer's slots run, soonest first, with free places
+export const getSlotOpenings = async (farmerId: string, days: number = 14): Promise<DeliverySlotOpening[]> => {
+  const [slots, availability] = await Promise.all([
+    getFarmerDeliverySlots(farmerId),
+    (supabase as any).rpc('delivery_slot_availability', {
+      p_farmer_id: farmerId,
+      p_days: days
+    })
+  ]);
+
+  if (availability.error) {
+    console.error('❌ Slot availability RPC error:', availability.error);
+    throw new Error(availability.error.message || 'Failed to load delivery slots');
+  }
+
+  const slotsById: Record<string, DeliverySlot> = {};
+  slots.forEach(slot => {
+    slotsById[slot.id] = slot;
+  });
+
+  return ((availability.data || []) as { slot_id: string; slot_date: string; booked: number; remaining: number }[])
+    .filter(row => slotsById[row.slot_id])
+    .map(row => ({
+      slot: slotsById[row.slot_id],
+      date: row.slot_date,
+      booked: row.booked,
+      remaining: row.remaining
+    }));
+};
+
+// Book an order into a slot on a date, or move it there. Both sides are told when an
+// existing schedule changes.
+export const bookDeliverySlot = async (
+  order: Pick<Order, 'id' | 'buyer_id' | 'farmer_id'>,
+  slotId: string,
+  date: string,
+  changedBy: string,
+  names: { buyerName?: string; farmerName?: string } = {}
+): Promise<Order> => {
+  console.log('🗓️ Booking delivery slot for order:', order.id, 'on', date);
+
+  const { data, error } = await (supabase as any).rpc('book_delivery_slot', {
+    p_order_id: order.id,
+    p_slot_id: slotId,
+    p_date: date
+  });
+
+  if (error) {
+    console.error('❌ Book delivery slot RPC error:', error);
+    throw new Error(error.message || 'Failed to book delivery slot');
+  }
+
+  const result = data as { order: Order; previous: DeliverySchedule | null };
+
+  if (result.previous) {
+    await notifyDeliverySlotChanged(order.id, order.buyer_id, order.farmer_id, {
+      current: formatDeliverySchedule(result.order),
+      previous: formatDeliverySchedule(result.previous),
+      ...names
+    }, changedBy);
+  }
+
+  return result.order;
+};
+
+// A farmer's orders for one date grouped by slot, in window order. Slots that run on that
+// date are listed even when nothing is booked yet.
+export const getDeliveryManifest = async (farmerId: string, date: string): Promise<DeliveryManifestGroup[]> => {
+  const [slots, orders] = await Promise.all([
+    getFarmerDeliverySlots(farmerId, true),
+    getDeliveryOrders(farmerId, date)
+  ]);
+
+  const weekday = parseDateKey(date).getDay();
+  const groups: Record<string, DeliveryManifestGroup> = {};
+
+  slots
+    .filter(slot => slot.is_active && slot.day_of_week === weekday)
+    .forEach(slot => {
+      groups[slot.id] = {
+        key: slot.id,
+        slot,
+        fulfillment_method: slot.kind,
+        label: slot.label,
+        location: slot.location,
+        window_start: slot.start_time,
+        window_end: slot.end_time,
+        orders: []
+      };
+    });
+
+  orders.forEach(order => {
+    const method = order.fulfillment_method || 'delivery';
+    const key = order.delivery_slot_id
+      || `${method}-${order.delivery_window_start}-${order.delivery_window_end}-${order.pickup_location || ''}`;
+
+    if (!groups[key]) {
+      const slot = slots.find(candidate => candidate.id === order.delivery_slot_id) || null;
+      groups[key] = {
+        key,
+        slot,
+        fulfillment_method: method,
+        label: slot?.label || (method === 'pickup' ? 'Pickup' : 'Delivery'),
+        location: order.pickup_location || null,
+        window_start: order.delivery_window_start || null,
+        window_end: order.delivery_window_end || null,
+        orders: []
+      };
+    }
+
+    groups[key].orders.push(order);
+  });
+
+  return Object.values(groups).sort((a, b) =>
+    (a.window_start || '').localeCompare(b.window_start || '') || a.label.localeCompare(b.label)
+  );
+};
@@ -1,6 +1,7 @@
 import { supabase } from '../lib/supabase';
 import * as FileSystem from 'expo-file-system/legacy';
 import { decode } from 'base64-arraybuffer';
+import { Platform } from 'react-native';
 
 export interface UploadedFile {
   url: string;
@@ -13,6 +14,23 @@ export interface UploadedFile {
 class FileUploadService {
   private bucketName = 'chat-attachments';
 
+  /**
+   * Read a local file (or a blob:/data: URL on web) into memory for uploading
+   */
+  async readFile(fileUri: string): Promise<ArrayBuffer> {
+    if (Platform.OS === 'web') {
+      // Picked files are blob: URLs on web; expo-file-system is unavailable there
+      const blob = await (await fetch(fileUri)).blob();
+      return blob.arrayBuffer();
+    }
+
+    // Read file as base64 and convert it to an ArrayBuffer
+    const base64 = await FileSystem.readAsStringAsync(fileUri, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+    return decode(base64);
+  }
+
   /**
    * Upload a file to Supabase Storage
    */
@@ -20,7 +38,8 @@ class FileUploadService {
     fileUri: string,
     fileName: string,
     mimeType: string,
-    userId: string
+    userId: string,
+    bucketName: string = this.bucketName
   ): Promise<UploadedFile> {
     try {
       console.log('📤 Starting file upload:', { fileName, mimeType });
@@ -33,22 +52,13 @@ class FileUploadService {
       const sanitizedFileName = fileName.replace(/[^a-zA-Z0-9.-]/g, '_');
       const filePath = `${userId}/${timestamp}_${sanitizedFileName}`;
 
-      // Read file as base64
-      const base64 = await FileSystem.readAsStringAsync(fileUri, {
-        encoding: FileSystem.EncodingType.Base64,
-      });
-
-      // Get file size
-      const fileInfo = await FileSystem.getInfoAsync(fileUri);
-      const fileSize = (fileInfo as any).size || 0;
+      const arrayBuffer = await this.readFile(fileUri);
+      const fileSize = arrayBuffer.byteLength;
 
       console.log('📊 File info:', { size: fileSize, path: filePath });
 
-      // Convert base64 to ArrayBuffer
-      const arrayBuffer = decode(base64);
-
       // Upload to Supabase Storage using REST API (better compatibility with Expo Go)
-      console.log('📡 Uploading to bucket:', this.bucketName);
+      console.log('📡 Uploading to bucket:', bucketName);
       console.log('📡 File path:', filePath);
       console.log('📡 Content type:', mimeType);
 
@@ -60,7 +70,7 @@ class FileUploadService {
 
       // Use fetch API for better Expo Go compatibility
       const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL || 'https://demo.supabase.co';
-      const uploadUrl = `${supabaseUrl}/storage/v1/object/${this.bucketName}/${filePath}`;
+      const uploadUrl = `${supabaseUrl}/storage/v1/object/${bucketName}/${filePath}`;
 
       console.log('📡 Upload URL:', uploadUrl);
 
@@ -85,7 +95,7 @@ class FileUploadService {
 
       // Get public URL
       const { data: urlData } = supabase.storage
-        .from(this.bucketName)
+        .from(bucketName)
         .getPublicUrl(filePath);
 
       return {
@@ -104,10 +114,10 @@ class FileUploadService {
   /**
    * Delete a file from Supabase Storage
    */
-  async deleteFile(filePath: string): Promise<boolean> {
+  async deleteFile(filePath: string, bucketName: string = this.bucketName): Promise<boolean> {
     try {
       const { error } = await supabase.storage
-        .from(this.bucketName)
+        .from(bucketName)
         .remove([filePath]);
 
       if (error) {
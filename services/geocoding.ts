@@ -0,0 +1,557 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { barangayCentres, tarlacBarangays } from '../data/tarlacLocations';
+
+// Geocoding providers behind LocationService. Each provider answers the same questions; the
+// service asks them in order and uses the first that answers (see locationService.ts).
+//   NominatimProvider          OpenStreetMap search, needs a connection
+//   GazetteerProvider          data/tarlacLocations.ts with fuzzy matching, works offline
+//   StubGeocodingProvider      fixed answers for tests and demos
+
+export interface LocationResult {
+  display_name: string;
+  place_id: string;
+  lat: string;
+  lon: string;
+  type: string;
+  importance: number;
+}
+
+export interface BarangayResult {
+  name: string;
+  fullName: string;
+  lat: string;
+  lon: string;
+  placeId: string;
+}
+
+export interface StreetResult {
+  name: string;
+  fullName: string;
+  lat: string;
+  lon: string;
+  placeId: string;
+}
+
+// 'barangay' points are the barangay's centre, only good for rough distances
+export interface GeocodedPoint {
+  lat: number;
+  lon: number;
+  source: 'gps' | 'search' | 'barangay';
+}
+
+export interface GeocodingProvider {
+  readonly name: string;
+  // Whether answers come from a server and are worth keeping in the persistent cache
+  readonly remote: boolean;
+  searchBarangays(query: string): Promise<BarangayResult[]>;
+  listBarangays(): Promise<BarangayResult[]>;
+  searchStreets(barangay: string, query: string): Promise<StreetResult[]>;
+  listStreets(barangay: string): Promise<StreetResult[]>;
+  searchPlaces(query: string): Promise<LocationResult[]>;
+  geocode(address: string): Promise<GeocodedPoint | null>;
+}
+
+// ---------------------------------------------------------------------------
+// Nominatim
+// ---------------------------------------------------------------------------
+
+const isInTarlac = (displayName: string) => displayName.toLowerCase().includes('tarlac');
+
+const isBarangayType = (item: LocationResult) =>
+  item.display_name.toLowerCase().includes('barangay') ||
+  ['administrative', 'village', 'hamlet', 'suburb', 'neighbourhood', 'locality', 'quarter'].includes(item.type) ||
+  !item.type; // sometimes type is undefined
+
+const isStreetType = (item: LocationResult) => {
+  const displayName = item.display_name.toLowerCase();
+  return ['residential', 'highway', 'road', 'street', 'way', 'path', 'footway'].includes(item.type) ||
+    ['street', 'road', 'avenue', 'boulevard', 'drive', 'lane'].some(word => displayName.includes(word)) ||
+    !item.type;
+};
+
+const extractBarangayName = (displayName: string): string => {
+  const name = displayName.split(',')[0].trim();
+  return name.toLowerCase().startsWith('barangay ') ? name.substring(9) : name;
+};
+
+const extractStreetName = (displayName: string): string =>
+  displayName.split(',')[0].trim().replace(/^(Street|Road|Avenue|Highway)\s+/i, '');
+
+const uniqueByName = <T extends { name: string }>(results: T[]): T[] =>
+  results
+    .filter((result, index, self) =>
+      index === self.findIndex(other => other.name.toLowerCase() === result.name.toLowerCase()))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+export class NominatimProvider implements GeocodingProvider {
+  readonly name = 'nominatim';
+  readonly remote = true;
+
+  // Nominatim's usage policy allows one request per second
+  private lastRequestTime = 0;
+  private minRequestInterval = 1000;
+
+  constructor(
+    private baseUrl = 'https://nominatim.openstreetmap.org/search',
+    // Give up on a slow server so the offline gazetteer can answer instead
+    private timeoutMs = 8000
+  ) {}
+
+  private async request(query: string, limit: number): Promise<LocationResult[]> {
+    const wait = this.minRequestInterval - (Date.now() - this.lastRequestTime);
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+
+    const url = `${this.baseUrl}?` + new URLSearchParams({
+      q: query,
+      format: 'json',
+      addressdetails: '1',
+      limit: String(limit),
+      countrycodes: 'ph',
+      'accept-language': 'en'
+    }).toString();
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      console.log('Making API request to:', url);
+      const response = await fetch(url, {
+        headers: {
+          'User-Agent': 'Farm2Go-App/1.0 (Mobile App for Agricultural Marketplace)',
+          'Accept': 'application/json'
+        },
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      return Array.isArray(data) ? data : [];
+    } finally {
+      clearTimeout(timer);
+      this.lastRequestTime = Date.now();
+    }
+  }
+
+  // First query that returns anything
+  private async requestFirst(queries: string[], limit: number): Promise<LocationResult[]> {
+    for (const query of queries) {
+      const data = await this.request(query, limit);
+      if (data.length > 0) return data;
+    }
+    return [];
+  }
+
+  // Every query's results together
+  private async requestAll(queries: string[], limit: number): Promise<LocationResult[]> {
+    const all: LocationResult[] = [];
+    for (const query of queries) {
+      all.push(...await this.request(query, limit));
+    }
+    return all;
+  }
+
+  private toBarangays(data: LocationResult[]): BarangayResult[] {
+    return data
+      .filter(item => isInTarlac(item.display_name) && isBarangayType(item))
+      .map(item => ({
+        name: extractBarangayName(item.display_name),
+        fullName: item.display_name,
+        lat: item.lat,
+        lon: item.lon,
+        placeId: item.place_id
+      }));
+  }
+
+  private toStreets(data: LocationResult[]): StreetResult[] {
+    return data
+      .filter(item => isInTarlac(item.display_name) && isStreetType(item))
+      .map(item => ({
+        name: extractStreetName(item.display_name),
+        fullName: item.display_name,
+        lat: item.lat,
+        lon: item.lon,
+        placeId: item.place_id
+      }));
+  }
+
+  async searchBarangays(query: string): Promise<BarangayResult[]> {
+    const data = await this.requestFirst([
+      `Barangay ${query}, Tarlac City, Tarlac, Philippines`,
+      `${query}, Tarlac City, Philippines`,
+      `${query} Tarlac City`
+    ], 8);
+    return this.toBarangays(data).slice(0, 8);
+  }
+
+  async listBarangays(): Promise<BarangayResult[]> {
+    const data = await this.requestAll([
+      'Barangay, Tarlac City, Tarlac, Philippines',
+      'administrative Tarlac City Philippines'
+    ], 50);
+    return uniqueByName(this.toBarangays(data));
+  }
+
+  async searchStreets(barangay: string, query: string): Promise<StreetResult[]> {
+    const data = await this.requestFirst([
+      `${query}, ${barangay}, Tarlac City, Philippines`,
+      `${query} Street, ${barangay}, Tarlac City`,
+      `${query}, Tarlac City, Philippines`
+    ], 8);
+    return this.toStreets(data).slice(0, 8);
+  }
+
+  async listStreets(barangay: string): Promise<StreetResult[]> {
+    const data = await this.requestAll([
+      `Street, ${barangay}, Tarlac City, Philippines`,
+      `Road, ${barangay}, Tarlac City, Philippines`,
+      `${barangay}, Tarlac City street`
+    ], 30);
+    return uniqueByName(this.toStreets(data));
+  }
+
+  async searchPlaces(query: string): Promise<LocationResult[]> {
+    const data = await this.request(`${query}, Tarlac City, Tarlac, Philippines`, 10);
+    return data.filter(item => isInTarlac(item.display_name));
+  }
+
+  async geocode(address: string): Promise<GeocodedPoint | null> {
+    const best = (await this.searchPlaces(address))[0];
+    const lat = parseFloat(best?.lat);
+    const lon = parseFloat(best?.lon);
+    return best && !isNaN(lat) && !isNaN(lon) ? { lat, lon, source: 'search' } : null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Offline gazetteer
+// ---------------------------------------------------------------------------
+
+interface GazetteerEntry {
+  name: string;
+  key: string;
+  streets: string[];
+  centre: { lat: number; lon: number } | null;
+}
+
+// Lower case, no accents, no "Barangay"/"Brgy." prefix, words separated by single spaces
+export const normalizePlaceName = (text: string): string =>
+  text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\b(barangay|brgy|bgy)\b\.?/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// 1 for the same text, falling towards 0 as more letters differ
+const similarity = (a: string, b: string): number =>
+  a.length === 0 && b.length === 0 ? 1 : 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+
+// How well a typed query matches a name, 0 to 1. Prefixes count as strong matches so the
+// list narrows while typing; small typos ("San Miguell", "Amukao") still match.
+const matchScore = (query: string, name: string): number => {
+  if (!query) return 0;
+  if (name === query) return 1;
+  if (name.startsWith(query)) return 0.95;
+  if (name.includes(query)) return 0.9;
+  return Math.max(similarity(query, name), similarity(query, name.slice(0, query.length)) - 0.1);
+};
+
+const MIN_SEARCH_SCORE = 0.7;
+// Stricter when picking a barangay out of a whole address
+const MIN_ADDRESS_SCORE = 0.85;
+
+const GAZETTEER: GazetteerEntry[] = (() => {
+  const entries = new Map<string, GazetteerEntry>();
+  const add = (name: string, streets: string[]) => {
+    const key = normalizePlaceName(name);
+    const existing = entries.get(key);
+    const centre = barangayCentres[name] || existing?.centre || null;
+    entries.set(key, { name: existing?.name || name, key, streets: existing?.streets.length ? existing.streets : streets, centre });
+  };
+
+  tarlacBarangays.forEach(barangay => add(barangay.name, barangay.streets));
+  Object.keys(barangayCentres).forEach(name => add(name, []));
+
+  return Array.from(entries.values()).sort((a, b) => a.name.localeCompare(b.name));
+})();
+
+const toBarangayResult = (entry: GazetteerEntry): BarangayResult => ({
+  name: entry.name,
+  fullName: `Barangay ${entry.name}, Tarlac City, Tarlac`,
+  lat: entry.centre ? String(entry.centre.lat) : '',
+  lon: entry.centre ? String(entry.centre.lon) : '',
+  placeId: `gazetteer-${entry.key.replace(/ /g, '-')}`
+});
+
+const toStreetResult = (entry: GazetteerEntry, street: string): StreetResult => ({
+  name: street,
+  fullName: `${street}, Barangay ${entry.name}, Tarlac City, Tarlac`,
+  lat: entry.centre ? String(entry.centre.lat) : '',
+  lon: entry.centre ? String(entry.centre.lon) : '',
+  placeId: `gazetteer-${entry.key.replace(/ /g, '-')}-${normalizePlaceName(street).replace(/ /g, '-')}`
+});
+
+const rankEntries = (query: string): { entry: GazetteerEntry; score: number }[] => {
+  const normalized = normalizePlaceName(query);
+  return GAZETTEER
+    .map(entry => ({ entry, score: matchScore(normalized, entry.key) }))
+    .filter(match => match.score >= MIN_SEARCH_SCORE)
+    .sort((a, b) => b.score - a.score || a.entry.name.localeCompare(b.entry.name));
+};
+
+const findEntry = (barangay: string): GazetteerEntry | null => rankEntries(barangay)[0]?.entry || null;
+
+// The barangay named somewhere in a free-text address. Compares each run of words in the
+// address with each barangay name, so "Purok 2, Brgy. Sn Miguel, Tarlac" finds San Miguel.
+export const findBarangayInAddress = (address: string): GazetteerEntry | null => {
+  const words = normalizePlaceName(address).split(' ').filter(Boolean);
+  let best: { entry: GazetteerEntry; score: number } | null = null;
+
+  for (const entry of GAZETTEER) {
+    const size = entry.key.split(' ').length;
+    for (let start = 0; start + size <= words.length; start++) {
+      const score = similarity(words.slice(start, start + size).join(' '), entry.key);
+      const better = !best || score > best.score || (score === best.score && entry.key.length > best.entry.key.length);
+      if (score >= MIN_ADDRESS_SCORE && better) {
+        best = { entry, score };
+      }
+    }
+  }
+
+  return best?.entry || null;
+};
+
+// Centre of the barangay named in the text; synchronous and offline
+export const lookupBarangayCentre = (text: string): GeocodedPoint | null => {
+  const entry = findBarangayInAddress(text);
+  return entry?.centre ? { ...entry.centre, source: 'barangay' } : null;
+};
+
+export class GazetteerProvider implements GeocodingProvider {
+  readonly name = 'gazetteer';
+  readonly remote = false;
+
+  async searchBarangays(query: string): Promise<BarangayResult[]> {
+    return rankEntries(query).slice(0, 8).map(match => toBarangayResult(match.entry));
+  }
+
+  async listBarangays(): Promise<BarangayResult[]> {
+    return GAZETTEER.map(toBarangayResult);
+  }
+
+  async searchStreets(barangay: string, query: string): Promise<StreetResult[]> {
+    const entry = findEntry(barangay);
+    if (!entry) return [];
+    const normalized = normalizePlaceName(query);
+    return entry.streets
+      .map(street => ({ street, score: matchScore(normalized, normalizePlaceName(street)) }))
+      .filter(match => match.score >= MIN_SEARCH_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 8)
+      .map(match => toStreetResult(entry, match.street));
+  }
+
+  async listStreets(barangay: string): Promise<StreetResult[]> {
+    const entry = findEntry(barangay);
+    return entry ? entry.streets.map(street => toStreetResult(entry, street)) : [];
+  }
+
+  async searchPlaces(query: string): Promise<LocationResult[]> {
+    return rankEntries(query)
+      .filter(match => match.entry.centre)
+      .slice(0, 10)
+      .map(match => {
+        const result = toBarangayResult(match.entry);
+        return {
+          display_name: result.fullName,
+          place_id: result.placeId,
+          lat: result.lat,
+          lon: result.lon,
+          type: 'administrative',
+          importance: match.score
+        };
+      });
+  }
+
+  async geocode(address: string): Promise<GeocodedPoint | null> {
+    return lookupBarangayCentre(address);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Stub
+// ---------------------------------------------------------------------------
+
+export interface GeocodingStubData {
+  barangays?: BarangayResult[];
+  // Keyed by barangay name
+  streets?: Record<string, StreetResult[]>;
+  // Keyed by address, compared after normalizePlaceName
+  points?: Record<string, GeocodedPoint>;
+  // Throw from every call, to exercise the fallbacks
+  failing?: boolean;
+}
+
+// Canned answers, e.g. locationService.setProviders([new StubGeocodingProvider({ ... })])
+export class StubGeocodingProvider implements GeocodingProvider {
+  readonly name = 'stub';
+  readonly remote = false;
+
+  constructor(private data: GeocodingStubData = {}) {}
+
+  private check() {
+    if (this.data.failing) throw new Error('Stub geocoder is set to fail');
+  }
+
+  async searchBarangays(query: string): Promise<BarangayResult[]> {
+    this.check();
+    const normalized = normalizePlaceName(query);
+    return (this.data.barangays || []).filter(barangay => normalizePlaceName(barangay.name).includes(normalized));
+  }
+
+  async listBarangays(): Promise<BarangayResult[]> {
+    this.check();
+    return this.data.barangays || [];
+  }
+
+  async searchStreets(barangay: string, query: string): Promise<StreetResult[]> {
+    const normalized = normalizePlaceName(query);
+    return (await this.listStreets(barangay)).filter(street => normalizePlaceName(street.name).includes(normalized));
+  }
+
+  async listStreets(barangay: string): Promise<StreetResult[]> {
+    this.check();
+    return this.data.streets?.[barangay] || [];
+  }
+
+  async searchPlaces(query: string): Promise<LocationResult[]> {
+    const point = await this.geocode(query);
+    return point
+      ? [{ display_name: query, place_id: `stub-${normalizePlaceName(query)}`, lat: String(point.lat), lon: String(point.lon), type: 'stub', importance: 1 }]
+      : [];
+  }
+
+  async geocode(address: string): Promise<GeocodedPoint | null> {
+    this.check();
+    const normalized = normalizePlaceName(address);
+    const match = Object.entries(this.data.points || {}).find(([key]) => normalizePlaceName(key) === normalized);
+    return match ? match[1] : null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Persistent cache
+// ---------------------------------------------------------------------------
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+// Least-recently-used cache kept in AsyncStorage, so answers survive restarts and can be used
+// without a connection until they expire. The whole cache is one small JSON value.
+export class PersistentLRUCache<T> {
+  private entries: Map<string, CacheEntry<T>> | null = null;
+  private loading: Promise<Map<string, CacheEntry<T>>> | null = null;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private storageKey: string,
+    private maxEntries: number,
+    private ttlMs: number
+  ) {}
+
+  private async load(): Promise<Map<string, CacheEntry<T>>> {
+    if (this.entries) return this.entries;
+    if (!this.loading) {
+      this.loading = (async () => {
+        let stored: [string, CacheEntry<T>][] = [];
+        try {
+          const raw = await AsyncStorage.getItem(this.storageKey);
+          stored = raw ? JSON.parse(raw) : [];
+        } catch (error) {
+          console.error('❌ Failed to read geocoding cache:', error);
+        }
+        const now = Date.now();
+        this.entries = new Map(stored.filter(([, entry]) => entry.expiresAt > now));
+        return this.entries;
+      })();
+    }
+    return this.loading;
+  }
+
+  // Writes are batched; a burst of lookups saves once
+  private scheduleSave() {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(async () => {
+      this.saveTimer = null;
+      if (!this.entries) return;
+      try {
+        await AsyncStorage.setItem(this.storageKey, JSON.stringify(Array.from(this.entries.entries())));
+      } catch (error) {
+        console.error('❌ Failed to save geocoding cache:', error);
+      }
+    }, 500);
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    const entries = await this.load();
+    const entry = entries.get(key);
+    if (!entry) return undefined;
+
+    entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      this.scheduleSave();
+      return undefined;
+    }
+
+    // Map keeps insertion order, so re-inserting marks the entry most recently used
+    entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    const entries = await this.load();
+    entries.delete(key);
+    entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+
+    while (entries.size > this.maxEntries) {
+      const oldest = entries.keys().next().value;
+      if (oldest === undefined) break;
+      entries.delete(oldest);
+    }
+    this.scheduleSave();
+  }
+
+  async clear(): Promise<void> {
+    this.entries = new Map();
+    this.loading = null;
+    try {
+      await AsyncStorage.removeItem(this.storageKey);
+    } catch (error) {
+      console.error('❌ Failed to clear geocoding cache:', error);
+    }
+  }
+}
@@ -0,0 +1,202 @@
+import { supabase } from '../lib/supabase';
+import { Harvest, Preorder, PreorderDepositStatus } from '../types/orders';
+import { notifyPreorderOutcome } from './notifications';
+
+export interface ScheduleHarvestData {
+  productId: string;
+  // Required when the product is sold in several options
+  variantId?: string | null;
+  expectedDate: string;
+  projectedQuantity: number;
+  price: number;
+  depositPercent: number;
+  notes?: string;
+}
+
+const HARVEST_SELECT = `
+  *,
+  product:product_id (
+    name,
+    unit,
+    category,
+    image_url
+  ),
+  variant:variant_id (
+    name,
+    unit
+  ),
+  farmer:farmer_id (
+    first_name,
+    last_name,
+    farm_name,
+    barangay
+  )
+`;
+
+// Unit the harvest is sold in: the option's when it has one
+export const getHarvestUnit = (harvest: Harvest): string =>
+  harvest.variant?.unit || harvest.product?.unit || 'unit';
+
+export const getHarvestName = (harvest: Harvest): string => {
+  const name = harvest.product?.name || 'Product';
+  return harvest.variant?.name ? `${name} (${harvest.variant.name})` : name;
+};
+
+export const getHarvestRemaining = (harvest: Harvest): number =>
+  Math.max(harvest.projected_quantity - (harvest.reserved_quantity || 0), 0);
+
+// Pre-orders are private to buyer and farmer, so the taken quantity comes from an RPC
+const withReservedQuantities = async (harvests: Harvest[]): Promise<Harvest[]> => {
+  if (harvests.length === 0) return harvests;
+
+  const { data, error } = await (supabase as any).rpc('harvest_reserved_quantities', {
+    p_harvest_ids: harvests.map(harvest => harvest.id)
+  });
+
+  if (error) {
+    console.error('❌ Error loading pre-ordered quantities:', error);
+    throw error;
+  }
+
+  const reserved: Record<string, number> = {};
+  (data || []).forEach((row: { harvest_id: string; reserved_quantity: number }) => {
+    reserved[row.harvest_id] = row.reserved_quantity;
+  });
+
+  return harvests.map(harvest => ({ ...harvest, reserved_quantity: reserved[harvest.id] || 0 }));
+};
+
+export const scheduleHarvest = async (data: ScheduleHarvestData): Promise<Harvest> => {
+  console.log('🌱 Scheduling harvest for product:', data.productId, 'on', data.expectedDate);
+
+  const { data: harvest, error } = await (supabase as any).rpc('schedule_harvest', {
+    p_product_id: data.productId,
+    p_expected_date: data.expectedDate,
+    p_projected_quantity: data.projectedQuantity,
+    p_price: data.price,
+    p_deposit_percent: data.depositPercent,
+    p_variant_id: data.variantId || null,
+    p_notes: data.notes || null
+  });
+
+  if (error) {
+    console.error('❌ Schedule harvest RPC error:', error);
+    throw new Error(error.message || 'Failed to schedule harvest');
+  }
+
+  return harvest as Harvest;
+};
+
+// A farmer's open harvests, soonest first, followed by the most recent finished ones
+export const getFarmerHarvests = async (farmerId: string): Promise<Harvest[]> => {
+  const { data, error } = await (supabase as any)
+    .from('harvests')
+    .select(HARVEST_SELECT)
+    .eq('farmer_id', farmerId)
+    .order('expected_date', { ascending: false })
+    .limit(50);
+
+  if (error) {
+    console.error('❌ Error loading farmer harvests:', error);
+    throw error;
+  }
+
+  const harvests = (data || []) as Harvest[];
+  const open = harvests.filter(harvest => harvest.status === 'open').reverse();
+  const closed = harvests
+    .filter(harvest => harvest.status !== 'open')
+    .sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime())
+    .slice(0, 5);
+
+  return withReservedQuantities([...open, ...closed]);
+};
+
+// Open harvests in the marketplace, soonest first
+export const getUpcomingHarvests = async (limit: number = 20): Promise<Harvest[]> => {
+  const { data, error } = await (supabase as any)
+    .from('harvests')
+    .select(HARVEST_SELECT)
+    .eq('status', 'open')
+    .order('expected_date', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error('❌ Error loading upcoming harvests:', error);
+    throw error;
+  }
+
+  return withReservedQuantities((data || []) as Harvest[]);
+};
+
+// Pre-orders on a harvest in the order they will be filled
+export const getHarvestPreorders = async (harvestId: string): Promise<Preorder[]> => {
+  const { data, error } = await (supabase as any)
+    .from('preorders')
+    .select(`
+      *,
+      buyer:buyer_id (
+        first_name,
+        last_name,
+        phone
+      )
+    `)
+    .eq('harvest_id', harvestId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('❌ Error loading harvest pre-orders:', error);
+    throw error;
+  }
+
+  return (data || []) as Preorder[];
+};
+
+// Farmer confirms a deposit they received ('paid') or returned ('refunded')
+export const updatePreorderDeposit = async (
+  preorderId: string,
+  depositStatus: Extract<PreorderDepositStatus, 'paid' | 'refunded'>
+): Promise<Preorder> => {
+  const { data, error } = await (supabase as any).rpc('update_preorder_deposit', {
+    p_preorder_id: preorderId,
+    p_deposit_status: depositStatus
+  });
+
+  if (error) {
+    console.error('❌ Update deposit RPC error:', error);
+    throw new Error(error.message || 'Failed to update deposit');
+  }
+
+  return data as Preorder;
+};
+
+// Call off a harvest; its open pre-orders are cancelled and the buyers told
+export const cancelHarvest = async (harvest: Harvest, reason?: string): Promise<Preorder[]> => {
+  console.log('🚫 Cancelling harvest:', harvest.id);
+
+  const { data, error } = await (supabase as any).rpc('cancel_harvest', {
+    p_harvest_id: harvest.id,
+    p_reason: reason || null
+  });
+
+  if (error) {
+    console.error('❌ Cancel harvest RPC error:', error);
+    throw new Error(error.message || 'Failed to cancel harvest');
+  }
+
+  const cancelled = (data || []) as Preorder[];
+
+  await Promise.all(cancelled.map(preorder =>
+    notifyPreorderOutcome(preorder.buyer_id, harvest.farmer_id, {
+      preorderId: preorder.id,
+      outcome: 'cancelled',
+      productName: getHarvestName(harvest),
+      quantity: preorder.quantity,
+      fulfilledQuantity: 0,
+      unit: getHarvestUnit(harvest),
+      refundDue: preorder.deposit_status === 'refund_due',
+      reason: preorder.cancel_reason
+    })
+  ));
+
+  return cancelled;
+};
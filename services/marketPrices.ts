@@ -0,0 +1,82 @@
+import { supabase } from '../lib/supabase';
+
+// Market reference prices built from product_price_history.
+// See supabase/migrations/20261019060403_create_price_history.sql.
+
+export interface MarketPricePoint {
+  date: string;
+  median: number | null;
+}
+
+export interface MarketReference {
+  crop: string;
+  unit: string;
+  barangay: string | null;
+  // Approved listings the stats are based on
+  sample_size: number;
+  median: number | null;
+  min: number | null;
+  max: number | null;
+  // Percent change of the median
+  trend_7d: number | null;
+  trend_30d: number | null;
+  series: MarketPricePoint[];
+}
+
+export interface MarketReferenceQuery {
+  crop: string;
+  unit: string;
+  // All barangays when left out
+  barangay?: string | null;
+  // Leave a farmer's own listing out when comparing its price
+  excludeProductId?: string | null;
+}
+
+export const getMarketReference = async ({
+  crop,
+  unit,
+  barangay,
+  excludeProductId,
+}: MarketReferenceQuery): Promise<MarketReference> => {
+  const { data, error } = await (supabase as any).rpc('get_market_reference_prices', {
+    p_crop: crop,
+    p_unit: unit,
+    p_barangay: barangay || null,
+    p_exclude_product: excludeProductId || null,
+  });
+
+  if (error) {
+    console.error('❌ Market reference RPC error:', error);
+    throw new Error(error.message || 'Failed to load market prices');
+  }
+
+  const reference = data as MarketReference;
+  return {
+    ...reference,
+    median: reference.median === null ? null : Number(reference.median),
+    min: reference.min === null ? null : Number(reference.min),
+    max: reference.max === null ? null : Number(reference.max),
+    series: (reference.series || []).map((point) => ({
+      date: point.date,
+      median: point.median === null ? null : Number(point.median),
+    })),
+  };
+};
+
+// How far a price is from the median, in percent; null when there is nothing to compare with
+export const getPriceDifference = (price: number, reference: MarketReference | null): number | null => {
+  if (!reference?.median || !price || price <= 0) return null;
+  return Math.round(((price - reference.median) / reference.median) * 100);
+};
+
+// "15% above the barangay median"
+export const describePriceDifference = (difference: number, scope: 'barangay' | 'market'): string => {
+  if (difference === 0) return `the same as the ${scope} median`;
+  return `${Math.abs(difference)}% ${difference > 0 ? 'above' : 'below'} the ${scope} median`;
+};
+
+export const formatTrend = (trend: number | null): string | null => {
+  if (trend === null) return null;
+  if (trend === 0) return 'steady';
+  return `${trend > 0 ? '+' : ''}${trend}%`;
+};
@@ -1,4 +1,5 @@
 import { supabase } from '../lib/supabase';
+import { loadWithOfflineCache } from './offlineCache';
 import { realtimeManager } from './realtimeManager';
 
 export interface Message {
@@ -365,65 +366,78 @@ class MessageService {
       const user = await this.getCurrentUser();
       if (!user?.id) return [];
 
-      // Get conversation ID
-      const conversationId = await this.getOrCreateConversationId(user.id, otherUserId);
-      if (!conversationId) {
-        console.error('Failed to get conversation ID');
-        return [];
+      // Only the latest page is kept for reading offline
+      if (offset > 0) {
+        return await this.fetchConversationMessages(user.id, otherUserId, limit, offset);
       }
 
-      // Get messages for this conversation
-      const { data: messages, error } = await supabase
-        .from('messages')
-        .select('*')
-        .eq('conversation_id', conversationId)
-        .eq('is_deleted_by_sender', false)
-        .eq('is_deleted_by_receiver', false)
-        .order('created_at', { ascending: false })
-        .range(offset, offset + limit - 1);
-
-      if (error) {
-        console.error('Error fetching conversation messages:', error);
-        return [];
-      }
+      const { data } = await loadWithOfflineCache(`messages_${otherUserId}`, user.id, () =>
+        this.fetchConversationMessages(user.id, otherUserId, limit, offset)
+      );
+      return data;
+    } catch (error) {
+      console.error('Error in getConversationMessages:', error);
+      return [];
+    }
+  }
 
-      if (!messages || messages.length === 0) return [];
+  private async fetchConversationMessages(
+    userId: string,
+    otherUserId: string,
+    limit: number,
+    offset: number
+  ): Promise<Message[]> {
+    // Get conversation ID
+    const conversationId = await this.getOrCreateConversationId(userId, otherUserId);
+    if (!conversationId) {
+      throw new Error('Failed to get conversation ID');
+    }
 
-      // Get unique user IDs from messages
-      const userIds = Array.from(new Set([
-        ...messages.map(m => m.sender_id),
-        ...messages.map(m => m.receiver_id)
-      ]));
+    // Get messages for this conversation
+    const { data: messages, error } = await supabase
+      .from('messages')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .eq('is_deleted_by_sender', false)
+      .eq('is_deleted_by_receiver', false)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
 
-      // Get profile data for all users
-      const { data: profiles, error: profileError } = await supabase
-        .from('profiles')
-        .select('id, first_name, last_name, user_type')
-        .in('id', userIds);
+    if (error) throw error;
 
-      if (profileError) {
-        console.error('Error fetching profiles:', profileError);
-        return messages.map(msg => ({ ...msg, sender_profile: null, receiver_profile: null }));
-      }
+    if (!messages || messages.length === 0) return [];
 
-      // Create a profile lookup map
-      const profileMap = new Map();
-      profiles?.forEach(profile => {
-        profileMap.set(profile.id, profile);
-      });
+    // Get unique user IDs from messages
+    const userIds = Array.from(new Set([
+      ...messages.map(m => m.sender_id),
+      ...messages.map(m => m.receiver_id)
+    ]));
 
-      // Combine messages with profile data
-      const messagesWithProfiles = messages.map(message => ({
-        ...message,
-        sender_profile: profileMap.get(message.sender_id) || null,
-        receiver_profile: profileMap.get(message.receiver_id) || null,
-      }));
+    // Get profile data for all users
+    const { data: profiles, error: profileError } = await supabase
+      .from('profiles')
+      .select('id, first_name, last_name, user_type')
+      .in('id', userIds);
 
-      return messagesWithProfiles.reverse(); // Reverse to show oldest first
-    } catch (error) {
-      console.error('Error in getConversationMessages:', error);
-      return [];
+    if (profileError) {
+      console.error('Error fetching profiles:', profileError);
+      return messages.map(msg => ({ ...msg, sender_profile: null, receiver_profile: null }));
     }
+
+    // Create a profile lookup map
+    const profileMap = new Map();
+    profiles?.forEach(profile => {
+      profileMap.set(profile.id, profile);
+    });
+
+    // Combine messages with profile data
+    const messagesWithProfiles = messages.map(message => ({
+      ...message,
+      sender_profile: profileMap.get(message.sender_id) || null,
+      receiver_profile: profileMap.get(message.receiver_id) || null,
+    }));
+
+    return messagesWithProfiles.reverse(); // Reverse to show oldest first
   }
 
   // Get all conversations for current user
@@ -432,96 +446,96 @@ class MessageService {
       const user = await this.getCurrentUser();
       if (!user?.id) return [];
 
-      // Get all messages for current user
-      const { data: messages, error } = await supabase
-        .from('messages')
-        .select('sender_id, receiver_id, content, created_at, is_read')
-        .or(`sender_id.eq.${user.id},receiver_id.eq.${user.id}`)
-        .eq('is_deleted_by_sender', false)
-        .eq('is_deleted_by_receiver', false)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        console.error('Error fetching conversations:', error);
-        return [];
-      }
+      const { data } = await loadWithOfflineCache('conversations', user.id, () =>
+        this.fetchUserConversations(user.id)
+      );
+      return data;
+    } catch (error) {
+      console.error('Error in getUserConversations:', error);
+      return [];
+    }
+  }
 
-      if (!messages || messages.length === 0) return [];
+  private async fetchUserConversations(userId: string): Promise<Conversation[]> {
+    // Get all messages for current user
+    const { data: messages, error } = await supabase
+      .from('messages')
+      .select('sender_id, receiver_id, content, created_at, is_read')
+      .or(`sender_id.eq.${userId},receiver_id.eq.${userId}`)
+      .eq('is_deleted_by_sender', false)
+      .eq('is_deleted_by_receiver', false)
+      .order('created_at', { ascending: false });
 
-      // Get unique other user IDs
-      const otherUserIds = Array.from(new Set(
-        messages.map(message =>
-          message.sender_id === user.id ? message.receiver_id : message.sender_id
-        )
-      ));
+    if (error) throw error;
 
-      // Get profile data for all other users
-      const { data: profiles, error: profileError } = await supabase
-        .from('profiles')
-        .select('id, first_name, last_name, user_type')
-        .in('id', otherUserIds);
+    if (!messages || messages.length === 0) return [];
 
-      if (profileError) {
-        console.error('Error fetching profiles:', profileError);
-        return [];
-      }
-
-      // Create profile lookup map
-      const profileMap = new Map();
-      profiles?.forEach(profile => {
-        profileMap.set(profile.id, profile);
-      });
+    // Get unique other user IDs
+    const otherUserIds = Array.from(new Set(
+      messages.map(message =>
+        message.sender_id === userId ? message.receiver_id : message.sender_id
+      )
+    ));
 
-      // Group messages by conversation and get latest message for each
-      const conversationMap = new Map<string, any>();
-
-      messages.forEach((message: any) => {
-        const otherUserId = message.sender_id === user.id
-          ? message.receiver_id
-          : message.sender_id;
-
-        const otherUserProfile = profileMap.get(otherUserId);
-        const conversationId = [user.id, otherUserId].sort().join('-');
-
-        if (!conversationMap.has(conversationId) ||
-            new Date(message.created_at) > new Date(conversationMap.get(conversationId).last_message_at)) {
-
-          conversationMap.set(conversationId, {
-            conversation_id: conversationId,
-            other_user_id: otherUserId,
-            other_user_name: `${otherUserProfile?.first_name || ''} ${otherUserProfile?.last_name || ''}`.trim() || 'Unknown User',
-            other_user_type: otherUserProfile?.user_type || 'buyer',
-            last_message: message.content,
-            last_message_at: message.created_at,
-            last_message_sender_id: message.sender_id,
-            unread_count: 0, // Will be calculated separately
-          });
-        }
-      });
+    // Get profile data for all other users
+    const { data: profiles, error: profileError } = await supabase
+      .from('profiles')
+      .select('id, first_name, last_name, user_type')
+      .in('id', otherUserIds);
 
-      const conversations = Array.from(conversationMap.values());
+    if (profileError) throw profileError;
 
-      // Calculate unread counts for each conversation
-      for (const conversation of conversations) {
-        const { count } = await supabase
-          .from('messages')
-          .select('*', { count: 'exact', head: true })
-          .eq('sender_id', conversation.other_user_id)
-          .eq('receiver_id', user.id)
-          .eq('is_read', false)
-          .eq('is_deleted_by_receiver', false);
+    // Create profile lookup map
+    const profileMap = new Map();
+    profiles?.forEach(profile => {
+      profileMap.set(profile.id, profile);
+    });
 
-        conversation.unread_count = count || 0;
+    // Group messages by conversation and get latest message for each
+    const conversationMap = new Map<string, any>();
+
+    messages.forEach((message: any) => {
+      const otherUserId = message.sender_id === userId
+        ? message.receiver_id
+        : message.sender_id;
+
+      const otherUserProfile = profileMap.get(otherUserId);
+      const conversationId = [userId, otherUserId].sort().join('-');
+
+      if (!conversationMap.has(conversationId) ||
+          new Date(message.created_at) > new Date(conversationMap.get(conversationId).last_message_at)) {
+
+        conversationMap.set(conversationId, {
+          conversation_id: conversationId,
+          other_user_id: otherUserId,
+          other_user_name: `${otherUserProfile?.first_name || ''} ${otherUserProfile?.last_name || ''}`.trim() || 'Unknown User',
+          other_user_type: otherUserProfile?.user_type || 'buyer',
+          last_message: message.content,
+          last_message_at: message.created_at,
+          last_message_sender_id: message.sender_id,
+          unread_count: 0, // Will be calculated separately
+        });
       }
+    });
 
-      return conversations.sort((a, b) =>
-        new Date(b.last_message_at).getTime() - new Date(a.last_message_at).getTime()
-      );
+    const conversations = Array.from(conversationMap.values());
 
-    } catch (error) {
-      console.error('Error in getUserConversations:', error);
-      return [];
+    // Calculate unread counts for each conversation
+    for (const conversation of conversations) {
+      const { count } = await supabase
+        .from('messages')
+        .select('*', { count: 'exact', head: true })
+        .eq('sender_id', conversation.other_user_id)
+        .eq('receiver_id', userId)
+        .eq('is_read', false)
+        .eq('is_deleted_by_receiver', false);
+
+      conversation.unread_count = count || 0;
     }
+
+    return conversations.sort((a, b) =>
+      new Date(b.last_message_at).getTime() - new Date(a.last_message_at).getTime()
+    );
   }
 
   // Mark message as read
@@ -0,0 +1,381 @@
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { AppState } from 'react-native';
+import { supabase } from '../lib/supabase';
+import { NotificationData } from '../hooks/useNotifications';
+import { ConnectionState, realtimeManager } from './realtimeManager';
+
+// The one way notifications reach the app while it is open. Every screen that listens shares a
+// single realtime channel per user; dropped connections are retried with exponential backoff
+// (paused while realtimeManager reports the network down), and after every reconnect anything
+// created while disconnected is fetched, so each listener sees each notification exactly once.
+
+export type NotificationConnectionStatus = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'offline';
+
+export interface NotificationListener {
+  // A notification the listener hasn't been given before
+  onNotification?: (notification: NotificationData) => void;
+  // Something may have changed that new notifications alone don't show: a read or archive
+  // elsewhere, or a reconnect after which the list should be refetched
+  onChange?: () => void;
+}
+
+// Must match the channel broadcastNotification() in services/notifications.ts sends to
+const channelName = (userId: string) => `notifications_${userId}`;
+
+const INITIAL_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60000;
+// Missed notifications are fetched this many at a time
+const RECOVERY_LIMIT = 50;
+const MAX_REMEMBERED_IDS = 500;
+
+class NotificationClient {
+  private userId: string | null = null;
+  private listeners = new Set<NotificationListener>();
+  private statusListeners = new Set<(status: NotificationConnectionStatus) => void>();
+  private status: NotificationConnectionStatus = 'idle';
+  private channel: RealtimeChannel | null = null;
+  // Bumped on every (re)connect so callbacks from a channel we've dropped are ignored
+  private generation = 0;
+  private retryAttempts = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private hasConnected = false;
+  private deliveredIds = new Set<string>();
+  private lastSeenAt: string | null = null;
+  private recovering: Promise<void> | null = null;
+  private stopWatchingNetwork: (() => void) | null = null;
+  private appStateSubscription: { remove: () => void } | null = null;
+
+  // Listen for a user's notifications; the connection opens with the first listener and closes
+  // with the last. Listening for a different user replaces the previous user's listeners.
+  subscribe(userId: string, listener: NotificationListener) {
+    if (this.userId !== userId) {
+      this.stop();
+      this.userId = userId;
+    }
+
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) {
+      this.start();
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0 && this.userId === userId) {
+        this.stop();
+      }
+    };
+  }
+
+  // Record notifications already on screen (e.g. from the initial fetch) so they aren't
+  // delivered again, and so gap recovery starts from the newest of them
+  markSeen(notifications: NotificationData[]) {
+    notifications.forEach(notification => this.remember(notification));
+  }
+
+  getStatus(): NotificationConnectionStatus {
+    return this.status;
+  }
+
+  onStatusChange(callback: (status: NotificationConnectionStatus) => void) {
+    this.statusListeners.add(callback);
+    return () => {
+      this.statusListeners.delete(callback);
+    };
+  }
+
+  // Reconnect now instead of waiting out the backoff
+  reconnect() {
+    if (!this.userId || this.listeners.size === 0) return;
+
+    console.log('🔄 Reconnecting notifications');
+    this.retryAttempts = 0;
+    this.connect();
+  }
+
+  private start() {
+    console.log('🔔 Starting notifications for user:', this.userId);
+
+    this.stopWatchingNetwork = realtimeManager.onConnectionStateChange(this.handleNetworkChange);
+    this.appStateSubscription = AppState.addEventListener('change', state => {
+      if (state !== 'active') return;
+      // Sockets are often dropped silently in the background
+      if (this.status === 'connected') {
+        this.recoverMissed(true);
+      } else {
+        this.reconnect();
+      }
+    });
+
+    if (realtimeManager.getConnectionState() === 'DISCONNECTED') {
+      this.setStatus('offline');
+    } else {
+      this.connect();
+    }
+  }
+
+  private stop() {
+    if (this.userId) {
+      console.log('🔕 Stopping notifications for user:', this.userId);
+    }
+
+    this.teardownChannel();
+    this.clearRetry();
+    this.stopWatchingNetwork?.();
+    this.stopWatchingNetwork = null;
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+
+    this.userId = null;
+    this.listeners.clear();
+    this.deliveredIds.clear();
+    this.lastSeenAt = null;
+    this.hasConnected = false;
+    this.retryAttempts = 0;
+    this.setStatus('idle');
+  }
+
+  private handleNetworkChange = (state: ConnectionState) => {
+    if (!this.userId) return;
+
+    if (state === 'DISCONNECTED') {
+      // Retrying while offline only burns battery; wait for the network to come back
+      this.clearRetry();
+      this.teardownChannel();
+      this.setStatus('offline');
+    } else if (state === 'CONNECTED' && this.status !== 'connected' && this.status !== 'connecting') {
+      this.retryAttempts = 0;
+      this.connect();
+    }
+  };
+
+  private connect() {
+    const userId = this.userId;
+    if (!userId) return;
+
+    this.clearRetry();
+    this.teardownChannel();
+
+    const generation = ++this.generation;
+    this.setStatus(this.hasConnected ? 'reconnecting' : 'connecting');
+
+    this.channel = supabase
+      .channel(channelName(userId))
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'notifications',
+          filter: `recipient_id=eq.${userId}`
+        },
+        (payload) => {
+          if (generation === this.generation) this.deliver(payload.new as NotificationData);
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'notifications',
+          filter: `recipient_id=eq.${userId}`
+        },
+        () => {
+          if (generation === this.generation) this.notifyChanged();
+        }
+      )
+      // Sent by createNotification straight after the insert; usually beats postgres_changes
+      .on('broadcast', { event: 'notification' }, (payload) => {
+        if (generation === this.generation && payload.payload) {
+          this.deliver(payload.payload as NotificationData);
+        }
+      });
+
+    this.channel.subscribe((status, err) => {
+      if (generation !== this.generation) return;
+
+      if (status === 'SUBSCRIBED') {
+        console.log('✅ Notifications connected');
+        const isReconnect = this.hasConnected;
+        this.hasConnected = true;
+        this.retryAttempts = 0;
+        this.setStatus('connected');
+        // The socket rejoins by itself after brief drops, which also lands here
+        this.recoverMissed(isReconnect);
+        return;
+      }
+
+      if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+        console.warn(`⚠️ Notifications channel ${status}`, err || '');
+        this.scheduleRetry();
+      }
+    });
+  }
+
+  private scheduleRetry() {
+    this.clearRetry();
+    this.teardownChannel();
+
+    if (realtimeManager.getConnectionState() === 'DISCONNECTED') {
+      this.setStatus('offline');
+      return;
+    }
+
+    const delay = Math.min(INITIAL_RETRY_DELAY_MS * Math.pow(2, this.retryAttempts), MAX_RETRY_DELAY_MS);
+    this.retryAttempts++;
+    this.setStatus('reconnecting');
+    console.log(`🔄 Retrying notifications in ${delay}ms (attempt ${this.retryAttempts})`);
+
+    // Realtime can be blocked while plain requests still work; keep delivering in the meantime
+    this.recoverMissed(false);
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private clearRetry() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private teardownChannel() {
+    if (this.channel) {
+      // Bump first so the CLOSED this causes isn't taken for a dropped connection
+      this.generation++;
+      supabase.removeChannel(this.channel);
+      this.channel = null;
+    }
+  }
+
+  // Deliver anything created since the newest notification we've seen. With no baseline yet
+  // (nothing loaded, nothing received) the newest existing notification becomes the baseline.
+  private recoverMissed(refetchLists: boolean) {
+    if (this.recovering) return;
+
+    const userId = this.userId;
+    if (!userId) return;
+
+    this.recovering = (async () => {
+      try {
+        if (!this.lastSeenAt) {
+          const { data, error } = await (supabase as any)
+            .from('notifications')
+            .select('id, created_at')
+            .eq('recipient_id', userId)
+            .order('created_at', { ascending: false })
+            .limit(1);
+
+          if (error) throw error;
+          if (this.userId !== userId) return;
+          if (data && data[0]) this.remember(data[0]);
+          return;
+        }
+
+        // gte, not gt: notifications created in the same instant as the last one are
+        // filtered out by id. Long gaps come back a page at a time, oldest first; later pages
+        // start after the previous page's last row.
+        let recovered = 0;
+        let cursor: NotificationData | null = null;
+        let pageSize = RECOVERY_LIMIT;
+
+        while (pageSize === RECOVERY_LIMIT) {
+          let query = (supabase as any)
+            .from('notifications')
+            .select(`
+              *,
+              sender:profiles!notifications_sender_id_fkey(first_name, last_name)
+            `)
+            .eq('recipient_id', userId);
+
+          query = cursor
+            ? query.or(`created_at.gt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.gt.${cursor.id})`)
+            : query.gte('created_at', this.lastSeenAt);
+
+          const { data, error } = await query
+            .order('created_at', { ascending: true })
+            .order('id', { ascending: true })
+            .limit(RECOVERY_LIMIT);
+
+          if (error) throw error;
+          if (this.userId !== userId) return;
+
+          const rows = (data || []) as NotificationData[];
+          const missed = rows.filter(n => !this.deliveredIds.has(n.id));
+          missed.forEach(notification => this.deliver(notification));
+          recovered += missed.length;
+
+          cursor = rows[rows.length - 1] ?? cursor;
+          pageSize = rows.length;
+        }
+
+        if (recovered > 0) {
+          console.log(`📥 Recovered ${recovered} missed notifications`);
+        }
+
+        // Reads and archives made elsewhere while we were away aren't replayed
+        if (refetchLists) this.notifyChanged();
+      } catch (error) {
+        console.error('❌ Failed to recover missed notifications:', error);
+      } finally {
+        this.recovering = null;
+      }
+    })();
+  }
+
+  private remember(notification: Pick<NotificationData, 'id' | 'created_at'>) {
+    this.deliveredIds.add(notification.id);
+    if (this.deliveredIds.size > MAX_REMEMBERED_IDS) {
+      // Sets iterate in insertion order, so this drops the oldest
+      const oldest = this.deliveredIds.values().next().value;
+      if (oldest) this.deliveredIds.delete(oldest);
+    }
+
+    if (!this.lastSeenAt || new Date(notification.created_at) > new Date(this.lastSeenAt)) {
+      this.lastSeenAt = notification.created_at;
+    }
+  }
+
+  private deliver(notification: NotificationData) {
+    if (!notification?.id || this.deliveredIds.has(notification.id)) return;
+    if (notification.recipient_id && notification.recipient_id !== this.userId) return;
+
+    this.remember(notification);
+    Array.from(this.listeners).forEach(listener => {
+      try {
+        listener.onNotification?.(notification);
+      } catch (error) {
+        console.error('❌ Notification listener failed:', error);
+      }
+    });
+  }
+
+  private notifyChanged() {
+    Array.from(this.listeners).forEach(listener => {
+      try {
+        listener.onChange?.();
+      } catch (error) {
+        console.error('❌ Notification change listener failed:', error);
+      }
+    });
+  }
+
+  private setStatus(status: NotificationConnectionStatus) {
+    if (this.status === status) return;
+
+    this.status = status;
+    this.statusListeners.forEach(listener => {
+      try {
+        listener(status);
+      } catch (error) {
+        console.error('Error in notification status listener:', error);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const notificationClient = new NotificationClient();
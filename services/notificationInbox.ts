@@ -0,0 +1,290 @@
+import { supabase } from '../lib/supabase';
+import { NotificationData } from '../hooks/useNotifications';
+import {
+  NOTIFICATION_CATEGORY_TYPES,
+  NotificationCategory
+} from '../types/notifications';
+import { notificationClient } from './notificationClient';
+
+// The notification inbox: paging, threads, bulk actions and keeping every view of the unread
+// count in step. See supabase/migrations/20261019064614_create_notification_inbox.sql.
+
+export type InboxFilter = 'all' | NotificationCategory;
+export type InboxView = 'inbox' | 'archived';
+
+export interface NotificationPage {
+  notifications: NotificationData[];
+  // Pass back to get the next page; null on the last page
+  nextCursor: string | null;
+}
+
+export type NotificationThreadKind = 'order' | 'preorder' | 'product' | 'single';
+
+// Notifications about the same order or product, newest first
+export interface NotificationThread {
+  key: string;
+  kind: NotificationThreadKind;
+  notifications: NotificationData[];
+  unreadCount: number;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+
+const NOTIFICATION_SELECT = `
+  *,
+  sender:profiles!notifications_sender_id_fkey(first_name, last_name)
+`;
+
+// Screens and the header badge each load notifications; whoever changes them tells the others.
+// `source` lets a listener skip changes it made itself.
+type NotificationsChangedListener = (source?: string) => void;
+const changeListeners = new Set<NotificationsChangedListener>();
+
+export const onNotificationsChanged = (listener: NotificationsChangedListener) => {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+};
+
+export const emitNotificationsChanged = (source?: string) => {
+  changeListeners.forEach(listener => {
+    try {
+      listener(source);
+    } catch (error) {
+      console.error('❌ Notifications listener failed:', error);
+    }
+  });
+};
+
+// New notifications, and reads, archives and deletes made on other devices
+// (deleteNotifications marks rows read before deleting them, since deletes can't be filtered)
+export const subscribeToNotificationChanges = (userId: string, onChange: () => void) =>
+  notificationClient.subscribe(userId, {
+    onNotification: () => onChange(),
+    onChange
+  });
+
+// Cursors are the last row's created_at and id; ids break ties between rows created together
+const encodeCursor = (notification: NotificationData) => `${notification.created_at}|${notification.id}`;
+
+const decodeCursor = (cursor: string) => {
+  const separator = cursor.lastIndexOf('|');
+  return { createdAt: cursor.slice(0, separator), id: cursor.slice(separator + 1) };
+};
+
+export const getNotificationPage = async (
+  userId: string,
+  options: {
+    filter?: InboxFilter;
+    view?: InboxView;
+    cursor?: string | null;
+    limit?: number;
+  } = {}
+): Promise<NotificationPage> => {
+  const { filter = 'all', view = 'inbox', cursor = null, limit = DEFAULT_PAGE_SIZE } = options;
+
+  let query = supabase
+    .from('notifications')
+    .select(NOTIFICATION_SELECT)
+    .eq('recipient_id', userId);
+
+  query = view === 'archived' ? query.not('archived_at', 'is', null) : query.is('archived_at', null);
+
+  if (filter !== 'all') {
+    query = query.in('type', NOTIFICATION_CATEGORY_TYPES[filter]);
+  }
+
+  if (cursor) {
+    const { createdAt, id } = decodeCursor(cursor);
+    query = query.or(`created_at.lt."${createdAt}",and(created_at.eq."${createdAt}",id.lt.${id})`);
+  }
+
+  // One extra row tells us whether there is another page
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
+
+  if (error) {
+    console.error('❌ Error fetching notifications page:', error);
+    throw error;
+  }
+
+  const rows = (data || []) as NotificationData[];
+  const notifications = rows.slice(0, limit);
+
+  return {
+    notifications,
+    nextCursor: rows.length > limit ? encodeCursor(notifications[notifications.length - 1]) : null
+  };
+};
+
+// Unread notifications in the inbox, per filter tab
+export const getUnreadCountsByFilter = async (userId: string): Promise<Record<InboxFilter, number>> => {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('type')
+    .eq('recipient_id', userId)
+    .eq('is_read', false)
+    .is('archived_at', null);
+
+  if (error) {
+    console.error('❌ Error fetching unread counts:', error);
+    throw error;
+  }
+
+  const counts: Record<InboxFilter, number> = { all: 0, orders: 0, products: 0, verification: 0, system: 0 };
+  (data || []).forEach((row: { type: string }) => {
+    counts.all++;
+    (Object.keys(NOTIFICATION_CATEGORY_TYPES) as NotificationCategory[]).forEach(category => {
+      if ((NOTIFICATION_CATEGORY_TYPES[category] as string[]).includes(row.type)) counts[category]++;
+    });
+  });
+
+  return counts;
+};
+
+export const getNotificationThreadKey = (
+  notification: NotificationData
+): { key: string; kind: NotificationThreadKind } => {
+  const data = notification.action_data || {};
+  if (data.orderId) return { key: `order:${data.orderId}`, kind: 'order' };
+  if (data.preorderId) return { key: `preorder:${data.preorderId}`, kind: 'preorder' };
+  if (data.productId) return { key: `product:${data.productId}`, kind: 'product' };
+  return { key: `single:${notification.id}`, kind: 'single' };
+};
+
+// Group a newest-first list into threads, ordered by each thread's newest notification
+export const groupNotificationsByThread = (notifications: NotificationData[]): NotificationThread[] => {
+  const threads = new Map<string, NotificationThread>();
+
+  notifications.forEach(notification => {
+    const { key, kind } = getNotificationThreadKey(notification);
+    let thread = threads.get(key);
+    if (!thread) {
+      thread = { key, kind, notifications: [], unreadCount: 0 };
+      threads.set(key, thread);
+    }
+    thread.notifications.push(notification);
+    if (!notification.is_read) thread.unreadCount++;
+  });
+
+  return Array.from(threads.values());
+};
+
+// Where tapping a notification goes: its actionUrl, or a route worked out from its data
+export const getNotificationRoute = (
+  notification: NotificationData,
+  userType?: string | null
+): string | null => {
+  if (notification.action_url) return notification.action_url;
+
+  const data = notification.action_data || {};
+  if (data.orderId) {
+    return userType === 'admin' || userType === 'super-admin'
+      ? `/admin/orders/${data.orderId}`
+      : `/order-detail/${data.orderId}`;
+  }
+  if (data.productId) return `/products/${data.productId}`;
+  if (notification.type.startsWith('verification_')) return '/verification/status';
+
+  return null;
+};
+
+// Either specific notifications, or everything unread in a user's inbox (optionally one tab's types)
+type ReadTarget = { ids: string[] } | { userId: string; filter: InboxFilter };
+
+const markRead = async (target: ReadTarget) => {
+  // The notifications table isn't in types/database.ts, so the payload can't be checked
+  const readUpdate = { is_read: true, read_at: new Date().toISOString() };
+  let query = supabase
+    .from('notifications')
+    .update(readUpdate as never)
+    .eq('is_read', false);
+
+  if ('ids' in target) {
+    query = query.in('id', target.ids);
+  } else {
+    query = query.eq('recipient_id', target.userId).is('archived_at', null);
+    if (target.filter !== 'all') {
+      query = query.in('type', NOTIFICATION_CATEGORY_TYPES[target.filter]);
+    }
+  }
+
+  const { error } = await query;
+
+  if (error) {
+    console.error('❌ Error marking notifications as read:', error);
+    throw error;
+  }
+};
+
+export const markNotificationsAsRead = async (notificationIds: string[], source?: string) => {
+  if (notificationIds.length === 0) return;
+
+  await markRead({ ids: notificationIds });
+  emitNotificationsChanged(source);
+};
+
+// Everything unread in the inbox, or just one filter tab
+export const markAllNotificationsAsRead = async (userId: string, filter: InboxFilter = 'all', source?: string) => {
+  console.log('✅ Marking all notifications as read:', filter);
+  await markRead({ userId, filter });
+  emitNotificationsChanged(source);
+};
+
+export const archiveNotifications = async (notificationIds: string[], source?: string) => {
+  if (notificationIds.length === 0) return;
+
+  // Read first: archived notifications never count towards the unread badge
+  await markRead({ ids: notificationIds });
+
+  const { error } = await supabase
+    .from('notifications')
+    .update({ archived_at: new Date().toISOString() } as never)
+    .in('id', notificationIds);
+
+  if (error) {
+    console.error('❌ Error archiving notifications:', error);
+    throw error;
+  }
+
+  emitNotificationsChanged(source);
+};
+
+export const unarchiveNotifications = async (notificationIds: string[], source?: string) => {
+  if (notificationIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('notifications')
+    .update({ archived_at: null } as never)
+    .in('id', notificationIds);
+
+  if (error) {
+    console.error('❌ Error restoring notifications:', error);
+    throw error;
+  }
+
+  emitNotificationsChanged(source);
+};
+
+export const deleteNotifications = async (notificationIds: string[], source?: string) => {
+  if (notificationIds.length === 0) return;
+
+  // Realtime can't filter deletes by recipient, so let other devices hear about it as a read
+  await markRead({ ids: notificationIds });
+
+  const { error } = await supabase
+    .from('notifications')
+    .delete()
+    .in('id', notificationIds);
+
+  if (error) {
+    console.error('❌ Error deleting notifications:', error);
+    throw error;
+  }
+
+  console.log(`🗑️ Deleted ${notificationIds.length} notifications`);
+  emitNotificationsChanged(source);
+};
@@ -0,0 +1,199 @@
+import { supabase } from '../lib/supabase';
+import {
+  DEFAULT_PRIORITY_CHANNELS,
+  DEFAULT_TYPE_CHANNELS,
+  INTERRUPTING_CHANNELS,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_TYPE_CONFIG,
+  NotificationChannel,
+  NotificationDeliveryPlan,
+  NotificationPreferences,
+  NotificationType
+} from '../types/notifications';
+
+// Per-user notification preferences. See supabase/migrations/20261019063154_create_notification_preferences.sql.
+
+const DEFAULT_TIMEZONE = 'Asia/Manila';
+
+// Recipients' preferences are looked up on every send; keep them briefly
+const CACHE_TTL_MS = 60 * 1000;
+const preferencesCache = new Map<string, { preferences: NotificationPreferences; loadedAt: number }>();
+
+// The device's time zone, falling back to the Philippines
+export const getDeviceTimezone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIMEZONE;
+  } catch {
+    return DEFAULT_TIMEZONE;
+  }
+};
+
+export const getDefaultNotificationPreferences = (userId: string): NotificationPreferences => ({
+  user_id: userId,
+  channel_settings: {},
+  quiet_hours_enabled: false,
+  quiet_hours_start: '21:00',
+  quiet_hours_end: '07:00',
+  timezone: DEFAULT_TIMEZONE,
+  digest_enabled: false,
+  digest_hour: 18,
+  sms_language: 'en'
+});
+
+const normalizePreferences = (row: any): NotificationPreferences => ({
+  ...getDefaultNotificationPreferences(row.user_id),
+  ...row,
+  channel_settings: row.channel_settings || {},
+  quiet_hours_start: String(row.quiet_hours_start || '21:00').slice(0, 5),
+  quiet_hours_end: String(row.quiet_hours_end || '07:00').slice(0, 5),
+  digest_hour: Number(row.digest_hour ?? 18)
+});
+
+// Preferences for several users at once; users who never changed anything get the defaults
+export const getNotificationPreferencesFor = async (
+  userIds: string[]
+): Promise<Record<string, NotificationPreferences>> => {
+  const now = Date.now();
+  const result: Record<string, NotificationPreferences> = {};
+  const missing: string[] = [];
+
+  Array.from(new Set(userIds)).forEach(userId => {
+    const cached = preferencesCache.get(userId);
+    if (cached && now - cached.loadedAt < CACHE_TTL_MS) {
+      result[userId] = cached.preferences;
+    } else {
+      missing.push(userId);
+    }
+  });
+
+  if (missing.length === 0) return result;
+
+  const { data, error } = await (supabase as any).rpc('get_notification_preferences', {
+    p_user_ids: missing
+  });
+
+  if (error) {
+    console.error('❌ Notification preferences RPC error:', error);
+    throw new Error(error.message || 'Failed to load notification preferences');
+  }
+
+  const rows: Record<string, NotificationPreferences> = {};
+  (data || []).forEach((row: any) => {
+    rows[row.user_id] = normalizePreferences(row);
+  });
+
+  missing.forEach(userId => {
+    const preferences = rows[userId] || getDefaultNotificationPreferences(userId);
+    preferencesCache.set(userId, { preferences, loadedAt: now });
+    result[userId] = preferences;
+  });
+
+  return result;
+};
+
+export const getNotificationPreferences = async (userId: string): Promise<NotificationPreferences> =>
+  (await getNotificationPreferencesFor([userId]))[userId];
+
+export const saveNotificationPreferences = async (
+  preferences: NotificationPreferences
+): Promise<NotificationPreferences> => {
+  console.log('🔔 Saving notification preferences:', preferences.user_id);
+
+  const { data, error } = await (supabase as any)
+    .from('notification_preferences')
+    .upsert({
+      user_id: preferences.user_id,
+      channel_settings: preferences.channel_settings,
+      quiet_hours_enabled: preferences.quiet_hours_enabled,
+      quiet_hours_start: preferences.quiet_hours_start,
+      quiet_hours_end: preferences.quiet_hours_end,
+      timezone: preferences.timezone,
+      digest_enabled: preferences.digest_enabled,
+      digest_hour: preferences.digest_hour,
+      sms_language: preferences.sms_language,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'user_id' })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('❌ Error saving notification preferences:', error);
+    throw new Error(error.message || 'Failed to save notification preferences');
+  }
+
+  const saved = normalizePreferences(data);
+  preferencesCache.set(saved.user_id, { preferences: saved, loadedAt: Date.now() });
+  return saved;
+};
+
+export const isChannelEnabled = (
+  preferences: NotificationPreferences,
+  type: NotificationType,
+  channel: NotificationChannel
+): boolean => {
+  const override = preferences.channel_settings[type]?.[channel];
+  if (override !== undefined) return override;
+  const typeDefault = DEFAULT_TYPE_CHANNELS[type]?.[channel];
+  if (typeDefault !== undefined) return typeDefault;
+  return DEFAULT_PRIORITY_CHANNELS[NOTIFICATION_TYPE_CONFIG[type]?.priority || 'normal'][channel];
+};
+
+// Minutes past midnight in the given time zone
+const minutesInTimezone = (date: Date, timezone: string): number => {
+  try {
+    const parts = new Intl.DateTimeFormat('en-GB', {
+      timeZone: timezone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(date);
+    const hour = Number(parts.find(part => part.type === 'hour')?.value);
+    const minute = Number(parts.find(part => part.type === 'minute')?.value);
+    if (!isNaN(hour) && !isNaN(minute)) return hour * 60 + minute;
+  } catch {
+    // Unknown time zone or no Intl time zone support; use the device clock
+  }
+  return date.getHours() * 60 + date.getMinutes();
+};
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+// Quiet hours may run past midnight, e.g. 21:00 to 07:00
+export const isInQuietHours = (preferences: NotificationPreferences, now: Date = new Date()): boolean => {
+  if (!preferences.quiet_hours_enabled) return false;
+
+  const start = toMinutes(preferences.quiet_hours_start);
+  const end = toMinutes(preferences.quiet_hours_end);
+  if (start === end) return false;
+
+  const current = minutesInTimezone(now, preferences.timezone);
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+};
+
+// Decide where one notification goes for one recipient
+export const planNotificationDelivery = (
+  preferences: NotificationPreferences,
+  type: NotificationType,
+  now: Date = new Date()
+): NotificationDeliveryPlan => {
+  const enabled = NOTIFICATION_CHANNELS.filter(channel => isChannelEnabled(preferences, type, channel));
+
+  if (preferences.digest_enabled && NOTIFICATION_TYPE_CONFIG[type]?.priority === 'low' && enabled.length > 0) {
+    return { channels: [], silenced: [], digest: true };
+  }
+
+  if (isInQuietHours(preferences, now)) {
+    return {
+      channels: enabled.filter(channel => !INTERRUPTING_CHANNELS.includes(channel)),
+      silenced: enabled.filter(channel => INTERRUPTING_CHANNELS.includes(channel)),
+      digest: false
+    };
+  }
+
+  return { channels: enabled, silenced: [], digest: false };
+};
@@ -1,28 +1,35 @@
 import { supabase } from '../lib/supabase';
-
-type NotificationType =
-  | 'user_approved' | 'user_rejected' | 'user_deleted'
-  | 'product_approved' | 'product_rejected' | 'product_deleted'
-  | 'product_created' | 'product_updated' | 'product_low_stock'
-  | 'verification_approved' | 'verification_rejected'
-  | 'order_created' | 'order_confirmed' | 'order_processing' | 'order_ready'
-  | 'order_completed' | 'order_cancelled' | 'order_status_changed'
-  | 'order_cancellation_requested'
-  | 'payment_received' | 'payment_pending'
-  | 'admin_action' | 'system_message';
-
-interface CreateNotificationParams {
-  recipientId: string;
-  type: NotificationType;
-  title: string;
-  message: string;
-  actionUrl?: string;
-  actionData?: Record<string, any>;
-  senderId?: string;
+import {
+  NOTIFICATION_CHANNELS,
+  NotificationChannel,
+  NotificationParams,
+  NotificationPreferences,
+  NotificationType
+} from '../types/notifications';
+import {
+  getDefaultNotificationPreferences,
+  getNotificationPreferencesFor,
+  planNotificationDelivery
+} from './notificationPreferences';
+import { sendPushNotification } from './simplePush';
+
+type CreateNotificationParams = NotificationParams;
+
+// Sends a batch of notifications on one channel and returns what was sent
+type ChannelSender = (notifications: NotificationParams[]) => Promise<any[]>;
+
+export interface DispatchResult {
+  // Rows written to the notifications table, in the order given
+  inApp: any[];
+  sent: Record<NotificationChannel, number>;
+  // Push or SMS messages held back by quiet hours
+  silenced: number;
+  // Held for the daily digest
+  digested: number;
 }
 
-// Create notification in database
-export const createNotification = async (params: CreateNotificationParams) => {
+// Write an in-app notification to the database
+const insertInAppNotification = async (params: CreateNotificationParams) => {
   try {
     console.log('📧 Creating notification:', params);
 
@@ -77,7 +84,7 @@ export const createNotification = async (params: CreateNotificationParams) => {
       action_url: params.actionUrl || null,
       action_data: params.actionData || null,
       sender_id: params.senderId || null,
-      created_at: new Date().toISOString(),
+      // created_at is left to the database clock, which gap recovery in notificationClient relies on
       read_at: null,
       is_read: false,
     };
@@ -163,6 +170,179 @@ export const createNotification = async (params: CreateNotificationParams) => {
   }
 };
 
+// Several in-app notifications in one insert, e.g. for every admin
+const insertInAppNotifications = async (notifications: NotificationParams[]): Promise<any[]> => {
+  if (notifications.length === 1) {
+    const row = await insertInAppNotification(notifications[0]);
+    return row ? [row] : [];
+  }
+
+  const { data, error } = await supabase
+    .from('notifications')
+    .insert(notifications.map(params => ({
+      recipient_id: params.recipientId,
+      type: params.type,
+      title: params.title,
+      message: params.message,
+      action_url: params.actionUrl || null,
+      action_data: params.actionData || null,
+      sender_id: params.senderId || null,
+      read_at: null,
+      is_read: false,
+    })))
+    .select();
+
+  if (error) {
+    console.error('❌ Error creating notifications:', error);
+    return [];
+  }
+
+  console.log(`✅ Created ${data?.length || 0} notifications`);
+  return data || [];
+};
+
+const sendPushNotifications = async (notifications: NotificationParams[]): Promise<any[]> => {
+  await Promise.all(notifications.map(params =>
+    sendPushNotification(params.recipientId, params.title, params.message, {
+      ...params.actionData,
+      type: params.type,
+      actionUrl: params.actionUrl
+    })
+  ));
+  return notifications;
+};
+
+// Hold low-priority notices for the recipient's daily digest (see send_notification_digests())
+const queueDigestItems = async (notifications: NotificationParams[]): Promise<void> => {
+  const { error } = await (supabase as any)
+    .from('notification_digest_items')
+    .insert(notifications.map(params => ({
+      recipient_id: params.recipientId,
+      sender_id: params.senderId || null,
+      type: params.type,
+      title: params.title,
+      message: params.message,
+      action_url: params.actionUrl || null,
+      action_data: params.actionData || null
+    })));
+
+  if (error) throw error;
+};
+
+// Queue SMS for the process-sms-queue edge function, which looks up the recipient's number and
+// language and renders the template for the type (see supabase/migrations/20261019063707_create_sms_queue.sql)
+const queueSmsNotifications = async (notifications: NotificationParams[]): Promise<any[]> => {
+  // The database keeps only templated types the sender may text (see 20261019063707_create_sms_queue.sql)
+  const { data: queued, error } = await (supabase as any).rpc('queue_sms_notifications', {
+    p_messages: notifications.map(params => ({
+      recipient_id: params.recipientId,
+      notification_type: params.type,
+      template_data: params.actionData || {}
+    }))
+  });
+
+  if (error) throw error;
+
+  console.log(`📱 Queued ${queued} of ${notifications.length} SMS`);
+  return notifications;
+};
+
+// Email has no sender until one is registered
+const channelSenders: Partial<Record<NotificationChannel, ChannelSender>> = {
+  in_app: insertInAppNotifications,
+  push: sendPushNotifications,
+  sms: queueSmsNotifications
+};
+
+export const registerChannelSender = (channel: NotificationChannel, sender: ChannelSender) => {
+  channelSenders[channel] = sender;
+};
+
+const isValidNotification = (params: NotificationParams): boolean => {
+  if (!params.recipientId || !params.type || !params.title || !params.message) {
+    console.error('❌ Cannot send notification: recipientId, type, title and message are required:', params);
+    return false;
+  }
+  return true;
+};
+
+// Every notification goes through here. Each recipient's preferences decide which channels
+// it goes out on, whether quiet hours hold back push and SMS, and whether it waits for the digest.
+export const dispatchNotifications = async (notifications: NotificationParams[]): Promise<DispatchResult> => {
+  const result: DispatchResult = {
+    inApp: [],
+    sent: { in_app: 0, push: 0, sms: 0, email: 0 },
+    silenced: 0,
+    digested: 0
+  };
+
+  const valid = notifications.filter(isValidNotification);
+  if (valid.length === 0) return result;
+
+  let preferences: Record<string, NotificationPreferences> = {};
+  try {
+    preferences = await getNotificationPreferencesFor(valid.map(params => params.recipientId));
+  } catch (error) {
+    console.warn('⚠️ Could not load notification preferences, using defaults:', error);
+  }
+
+  const byChannel: Record<NotificationChannel, NotificationParams[]> = { in_app: [], push: [], sms: [], email: [] };
+  const forDigest: NotificationParams[] = [];
+
+  valid.forEach(params => {
+    const plan = planNotificationDelivery(
+      preferences[params.recipientId] || getDefaultNotificationPreferences(params.recipientId),
+      params.type
+    );
+    if (plan.digest) {
+      forDigest.push(params);
+      return;
+    }
+    plan.channels.forEach(channel => byChannel[channel].push(params));
+    result.silenced += plan.silenced.length;
+  });
+
+  if (forDigest.length > 0) {
+    try {
+      await queueDigestItems(forDigest);
+      result.digested = forDigest.length;
+    } catch (error) {
+      // Better early than lost
+      console.warn('⚠️ Could not queue digest items, sending them in-app now:', error);
+      byChannel.in_app.push(...forDigest);
+    }
+  }
+
+  for (const channel of NOTIFICATION_CHANNELS) {
+    const batch = byChannel[channel];
+    if (batch.length === 0) continue;
+
+    const sender = channelSenders[channel];
+    if (!sender) {
+      console.log(`ℹ️ No ${channel} sender configured, skipping ${batch.length} notification(s)`);
+      continue;
+    }
+
+    try {
+      const sent = await sender(batch);
+      result.sent[channel] = sent.length;
+      if (channel === 'in_app') result.inApp = sent;
+    } catch (error) {
+      console.error(`❌ Failed to send ${channel} notifications:`, error);
+    }
+  }
+
+  console.log('📬 Dispatched notifications:', { ...result.sent, silenced: result.silenced, digested: result.digested });
+  return result;
+};
+
+// Send one notification. Returns the in-app notification, or null if none was written
+// (invalid, or the recipient turned in-app off for this type or has it waiting for their digest).
+export const createNotification = async (params: CreateNotificationParams) => {
+  const result = await dispatchNotifications([params]);
+  return result.inApp[0] || null;
+};
+
 // Notify user about admin actions
 export const notifyUserAction = async (
   userId: string,
@@ -280,31 +460,21 @@ export const notifyAllAdmins = async (
       return;
     }
 
-    // Create notifications for all admins except the sender
-    const notifications = adminProfiles
+    // Notify all admins except the sender
+    const notifications: NotificationParams[] = adminProfiles
       .filter(profile => profile.id !== senderId)
       .map(profile => ({
-        recipient_id: profile.id,
-        type: 'admin_action' as NotificationType,
+        recipientId: profile.id,
+        type: 'admin_action',
         title,
         message,
-        sender_id: senderId,
-        action_data: actionData || null,
-        created_at: new Date().toISOString(),
-        read_at: null,
-        is_read: false,
+        senderId,
+        actionData
       }));
 
     if (notifications.length > 0) {
-      const { error: insertError } = await supabase
-        .from('notifications')
-        .insert(notifications);
-
-      if (insertError) {
-        console.error('❌ Error creating admin notifications:', insertError);
-      } else {
-        console.log(`✅ Created ${notifications.length} admin notifications`);
-      }
+      await dispatchNotifications(notifications);
+      console.log(`✅ Sent ${notifications.length} admin notifications`);
     }
   } catch (error) {
     console.error('❌ Failed to notify admins:', error);
@@ -339,35 +509,25 @@ export const notifyBarangayAdmins = async (
       return;
     }
 
-    // Create notifications for barangay admins except the sender
-    const notifications = barangayAdminProfiles
+    // Notify barangay admins except the sender
+    const notifications: NotificationParams[] = barangayAdminProfiles
       .filter(profile => profile.id !== senderId)
       .map(profile => ({
-        recipient_id: profile.id,
-        type: 'admin_action' as NotificationType,
+        recipientId: profile.id,
+        type: 'admin_action',
         title: `🏘️ ${title}`,
         message: `[${farmerBarangay}] ${message}`,
-        sender_id: senderId,
-        action_data: {
+        senderId,
+        actionData: {
           ...actionData,
           barangay: farmerBarangay,
           notification_type: 'barangay_specific'
-        },
-        created_at: new Date().toISOString(),
-        read_at: null,
-        is_read: false,
+        }
       }));
 
     if (notifications.length > 0) {
-      const { error: insertError } = await supabase
-        .from('notifications')
-        .insert(notifications);
-
-      if (insertError) {
-        console.error('❌ Error creating barangay admin notifications:', insertError);
-      } else {
-        console.log(`✅ Created ${notifications.length} barangay admin notifications for ${farmerBarangay}`);
-      }
+      await dispatchNotifications(notifications);
+      console.log(`✅ Sent ${notifications.length} barangay admin notifications for ${farmerBarangay}`);
     }
   } catch (error) {
     console.error('❌ Failed to notify barangay admins:', error);
@@ -400,95 +560,25 @@ export const notifyFarmersAboutAction = async (
       return;
     }
 
-    // Create notifications for all farmers
-    const notifications = farmerProfiles.map(profile => ({
-      recipient_id: profile.id,
-      type: 'system_message' as NotificationType,
+    // Notify all farmers
+    const notifications: NotificationParams[] = farmerProfiles.map(profile => ({
+      recipientId: profile.id,
+      type: 'system_message',
       title,
       message,
-      sender_id: senderId,
-      action_data: actionData || null,
-      created_at: new Date().toISOString(),
-      read_at: null,
-      is_read: false,
+      senderId,
+      actionData
     }));
 
-    const { error: insertError } = await supabase
-      .from('notifications')
-      .insert(notifications);
-
-    if (insertError) {
-      console.error('❌ Error creating farmer notifications:', insertError);
-    } else {
-      console.log(`✅ Created ${notifications.length} farmer notifications`);
-    }
+    await dispatchNotifications(notifications);
+    console.log(`✅ Sent ${notifications.length} farmer notifications`);
   } catch (error) {
     console.error('❌ Failed to notify farmers:', error);
   }
 };
 
-// Get notifications for a user with real-time subscription (Enhanced)
-export const subscribeToNotifications = (
-  userId: string,
-  onNotification: (notification: any) => void
-) => {
-  console.log('🔔 Setting up enhanced real-time notification subscription for user:', userId);
-
-  // Use consistent channel naming with broadcast
-  const channelName = `notifications_${userId}`;
-
-  const subscription = supabase
-    .channel(channelName, {
-      config: {
-        broadcast: { self: false },
-        presence: { key: userId },
-        private: false
-      }
-    })
-    .on(
-      'postgres_changes',
-      {
-        event: 'INSERT',
-        schema: 'public',
-        table: 'notifications',
-        filter: `recipient_id=eq.${userId}`
-      },
-      (payload) => {
-        console.log('🔔 New notification received via postgres_changes:', payload.new);
-        onNotification(payload.new);
-      }
-    )
-    .on(
-      'postgres_changes',
-      {
-        event: 'UPDATE',
-        schema: 'public',
-        table: 'notifications',
-        filter: `recipient_id=eq.${userId}`
-      },
-      (payload) => {
-        console.log('🔔 Notification updated via postgres_changes:', payload.new);
-        // Don't trigger callback for updates (like marking as read)
-      }
-    )
-    .on('presence', { event: 'sync' }, () => {
-      console.log('👥 Presence synced for notifications');
-    })
-    .on('broadcast', { event: 'notification' }, (payload) => {
-      console.log('🔔 Notification received via broadcast:', payload);
-      onNotification(payload.payload);
-    })
-    .subscribe((status, err) => {
-      console.log('📡 Notification subscription status:', status);
-      if (err) {
-        console.error('❌ Notification subscription error:', err);
-      }
-    });
-
-  return subscription;
-};
-
-// Enhanced broadcast function for immediate notifications
+// Enhanced broadcast function for immediate notifications; the recipient's notificationClient
+// listens on this channel and drops the copy that follows through postgres_changes
 export const broadcastNotification = async (
   recipientId: string,
   notification: any
@@ -653,6 +743,7 @@ export const notifyOrderCreated = async (
       actionData: {
         orderId,
         buyerId,
+        buyerName: orderDetails.buyerName,
         totalAmount: orderDetails.totalAmount,
         itemCount: orderDetails.itemCount,
         action: 'new_order_received'
@@ -693,6 +784,8 @@ export const notifyOrderStatusChange = async (
     itemCount?: number;
     farmerName?: string;
     buyerName?: string;
+    refundAmount?: number;
+    note?: string;
   },
   updatedBy: string
 ) => {
@@ -713,6 +806,9 @@ export const notifyOrderStatusChange = async (
       return;
     }
 
+    const refundAmountText = orderDetails.refundAmount ? ` of ₱${orderDetails.refundAmount.toLocaleString()}` : '';
+    const noteText = orderDetails.note ? ` Note: ${orderDetails.note}` : '';
+
     const statusMessages = {
       'confirmed': {
         buyer: '✅ Order Confirmed',
@@ -755,16 +851,37 @@ export const notifyOrderStatusChange = async (
         farmer: '🚫 Cancellation Requested',
         buyerMsg: `Your cancellation request has been sent to ${orderDetails.farmerName || 'the farmer'} for review.`,
         farmerMsg: `${orderDetails.buyerName || 'A buyer'} has requested to cancel their order. Please review and respond.`
+      },
+      'refund_requested': {
+        buyer: '⏳ Refund Requested',
+        farmer: '💸 Refund Requested',
+        buyerMsg: `Your refund request${refundAmountText} has been sent to ${orderDetails.farmerName || 'the farmer'} for review.`,
+        farmerMsg: `${orderDetails.buyerName || 'A buyer'} reported a problem and requested a refund${refundAmountText}. Please review and respond.`
+      },
+      'refund_approved': {
+        buyer: '💸 Refund Approved',
+        farmer: '💸 Refund Approved',
+        buyerMsg: `Your refund${refundAmountText} has been approved.${noteText}`,
+        farmerMsg: `A refund${refundAmountText} for ${orderDetails.buyerName || 'the buyer'} has been approved.${noteText}`
+      },
+      'refund_denied': {
+        buyer: '🚫 Refund Denied',
+        farmer: '🚫 Refund Denied',
+        buyerMsg: `Your refund request was not approved.${noteText}`,
+        farmerMsg: `The refund request from ${orderDetails.buyerName || 'the buyer'} was denied.${noteText}`
       }
     };
 
     const messages = statusMessages[newStatus as keyof typeof statusMessages];
     if (!messages) return;
 
+    // Cancellations have their own type so they can go out by SMS
+    const type: NotificationType = newStatus === 'cancelled' ? 'order_cancelled' : 'order_status_changed';
+
     // Notify buyer
     const buyerNotification = await createNotification({
       recipientId: buyerId,
-      type: 'order_status_changed',
+      type,
       title: messages.buyer,
       message: messages.buyerMsg,
       actionUrl: `/buyer/my-orders`,
@@ -784,7 +901,7 @@ export const notifyOrderStatusChange = async (
     if (updatedBy !== farmerId) {
       const farmerNotification = await createNotification({
         recipientId: farmerId,
-        type: 'order_status_changed',
+        type,
         title: messages.farmer,
         message: messages.farmerMsg,
         actionUrl: `/farmer/orders`,
@@ -805,6 +922,251 @@ export const notifyOrderStatusChange = async (
   }
 };
 
+// Notify a farmer that one of their products was reviewed
+export const notifyReviewReceived = async (
+  farmerId: string,
+  buyerId: string,
+  review: {
+    reviewId: string;
+    productId: string;
+    productName: string;
+    rating: number;
+    buyerName?: string;
+  }
+) => {
+  try {
+    console.log('⭐ Notifying farmer about new review:', review.reviewId);
+
+    await createNotification({
+      recipientId: farmerId,
+      type: 'review_received',
+      title: `⭐ New ${review.rating}-Star Review`,
+      message: `${review.buyerName || 'A buyer'} reviewed your product "${review.productName}".`,
+      actionUrl: `/products/${review.productId}`,
+      senderId: buyerId,
+      actionData: {
+        reviewId: review.reviewId,
+        productId: review.productId,
+        rating: review.rating,
+        action: 'review_received'
+      }
+    });
+  } catch (error) {
+    console.error('❌ Failed to notify about review:', error);
+  }
+};
+
+// Notify a buyer that the farmer replied to their review
+export const notifyReviewReply = async (
+  buyerId: string,
+  farmerId: string,
+  review: {
+    reviewId: string;
+    productId: string;
+    productName: string;
+    farmerName?: string;
+  }
+) => {
+  try {
+    console.log('💬 Notifying buyer about review reply:', review.reviewId);
+
+    await createNotification({
+      recipientId: buyerId,
+      type: 'review_reply',
+      title: '💬 The Farmer Replied to Your Review',
+      message: `${review.farmerName || 'The farmer'} replied to your review of "${review.productName}".`,
+      actionUrl: `/products/${review.productId}`,
+      senderId: farmerId,
+      actionData: {
+        reviewId: review.reviewId,
+        productId: review.productId,
+        action: 'review_reply'
+      }
+    });
+  } catch (error) {
+    console.error('❌ Failed to notify about review reply:', error);
+  }
+};
+
+// Notify a farmer that a buyer pre-ordered from an upcoming harvest
+export const notifyPreorderPlaced = async (
+  farmerId: string,
+  buyerId: string,
+  preorder: {
+    preorderId: string;
+    harvestId: string;
+    productName: string;
+    quantity: number;
+    unit: string;
+    depositAmount: number;
+    buyerName?: string;
+  }
+) => {
+  try {
+    console.log('🌱 Notifying farmer about pre-order:', preorder.preorderId);
+
+    const depositText = preorder.depositAmount > 0
+      ? ` A deposit of ₱${preorder.depositAmount.toLocaleString()} is expected.`
+      : '';
+
+    await createNotification({
+      recipientId: farmerId,
+      type: 'preorder_placed',
+      title: '🌱 New Pre-order',
+      message: `${preorder.buyerName || 'A buyer'} pre-ordered ${preorder.quantity} ${preorder.unit} of "${preorder.productName}" from your upcoming harvest.${depositText}`,
+      actionUrl: `/farmer/my-products`,
+      senderId: buyerId,
+      actionData: {
+        preorderId: preorder.preorderId,
+        harvestId: preorder.harvestId,
+        action: 'preorder_placed'
+      }
+    });
+  } catch (error) {
+    console.error('❌ Failed to notify about pre-order:', error);
+  }
+};
+
+// Notify a buyer how their pre-order turned out once the harvest is in (or called off)
+export const notifyPreorderOutcome = async (
+  buyerId: string,
+  farmerId: string,
+  preorder: {
+    preorderId: string;
+    outcome: 'converted' | 'partially_filled' | 'cancelled';
+    productName: string;
+    quantity: number;
+    fulfilledQuantity: number;
+    unit: string;
+    orderId?: string | null;
+    refundDue?: boolean;
+    reason?: string | null;
+  }
+) => {
+  try {
+    console.log('🌾 Notifying buyer about pre-order outcome:', preorder.preorderId, preorder.outcome);
+
+    const refundText = preorder.refundDue ? ' The farmer will return your unused deposit.' : '';
+    const content = {
+      converted: {
+        type: 'preorder_fulfilled' as const,
+        title: '🌾 Your Pre-order Is Ready',
+        message: `The harvest is in! Your pre-order of ${preorder.quantity} ${preorder.unit} of "${preorder.productName}" is now a confirmed order.${refundText}`
+      },
+      partially_filled: {
+        type: 'preorder_fulfilled' as const,
+        title: '🌾 Pre-order Partially Filled',
+        message: `The harvest came in short, so ${preorder.fulfilledQuantity} of the ${preorder.quantity} ${preorder.unit} of "${preorder.productName}" you pre-ordered became a confirmed order.${refundText}`
+      },
+      cancelled: {
+        type: 'preorder_cancelled' as const,
+        title: '❌ Pre-order Cancelled',
+        message: `Your pre-order of ${preorder.quantity} ${preorder.unit} of "${preorder.productName}" was cancelled${preorder.reason ? `: ${preorder.reason}` : '.'}${refundText}`
+      }
+    }[preorder.outcome];
+
+    await createNotification({
+      recipientId: buyerId,
+      type: content.type,
+      title: content.title,
+      message: content.message,
+      actionUrl: `/buyer/my-orders`,
+      senderId: farmerId,
+      actionData: {
+        preorderId: preorder.preorderId,
+        orderId: preorder.orderId,
+        outcome: preorder.outcome,
+        action: content.type
+      }
+    });
+  } catch (error) {
+    console.error('❌ Failed to notify about pre-order outcome:', error);
+  }
+};
+
+// Notify both sides of an order that its delivery slot or pickup point was changed
+export const notifyDeliverySlotChanged = async (
+  orderId: string,
+  buyerId: string,
+  farmerId: string,
+  schedule: {
+    current: string;
+    previous: string;
+    buyerName?: string;
+    farmerName?: string;
+  },
+  changedBy: string
+) => {
+  try {
+    console.log('🗓️ Notifying about delivery slot change:', orderId);
+
+    const changedByText = changedBy === farmerId
+      ? (schedule.farmerName || 'The farmer')
+      : (schedule.buyerName || 'The buyer');
+    const message = `${changedByText} moved order #${orderId.slice(-8)} from ${schedule.previous} to ${schedule.current}.`;
+    const actionData = {
+      orderId,
+      action: 'delivery_slot_changed'
+    };
+
+    await createNotification({
+      recipientId: buyerId,
+      type: 'delivery_slot_changed',
+      title: '🗓️ Delivery Schedule Changed',
+      message,
+      actionUrl: `/buyer/my-orders`,
+      senderId: changedBy,
+      actionData
+    });
+
+    await createNotification({
+      recipientId: farmerId,
+      type: 'delivery_slot_changed',
+      title: '🗓️ Delivery Schedule Changed',
+      message,
+      actionUrl: `/farmer/orders`,
+      senderId: changedBy,
+      actionData
+    });
+  } catch (error) {
+    console.error('❌ Failed to notify about delivery slot change:', error);
+  }
+};
+
+// Tell a farmer an admin has paid them out
+export const notifyPayoutRecorded = async (
+  farmerId: string,
+  payout: {
+    id: string;
+    amount: number;
+    methodLabel: string;
+    reference?: string | null;
+  },
+  recordedBy: string
+) => {
+  try {
+    console.log('💸 Notifying about payout:', payout.id);
+
+    const referenceText = payout.reference ? ` (ref. ${payout.reference})` : '';
+
+    await createNotification({
+      recipientId: farmerId,
+      type: 'payout_recorded',
+      title: '💸 Payout Sent',
+      message: `You were paid ₱${payout.amount.toFixed(2)} by ${payout.methodLabel.toLowerCase()}${referenceText}.`,
+      actionUrl: `/farmer/payouts`,
+      senderId: recordedBy,
+      actionData: {
+        payoutId: payout.id,
+        amount: payout.amount,
+        action: 'payout_recorded'
+      }
+    });
+  } catch (error) {
+    console.error('❌ Failed to notify about payout:', error);
+  }
+};
+
 // Notify about low stock
 export const notifyLowStock = async (
   farmerId: string,
@@ -847,6 +1209,7 @@ export const getUserNotifications = async (
         sender:profiles!notifications_sender_id_fkey(first_name, last_name)
       `)
       .eq('recipient_id', userId)
+      .is('archived_at', null)
       .order('created_at', { ascending: false })
       .range(offset, offset + limit - 1);
 
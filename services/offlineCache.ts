@@ -0,0 +1,61 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Last good copy of data a screen loaded, kept per user so a farmer can keep working without signal
+const CACHE_STORAGE_PREFIX = 'farm2go_offline_';
+
+export type OfflineCacheKey =
+  | 'farmer_products' | 'farmer_orders' | 'farmer_my_orders' | 'conversations'
+  | `messages_${string}` | `delivery_orders_${string}`;
+
+export interface CachedResult<T> {
+  data: T;
+  // True when the network request failed and this is the saved copy
+  fromCache: boolean;
+  savedAt: string | null;
+}
+
+interface CacheEntry<T> {
+  savedAt: string;
+  data: T;
+}
+
+const storageKey = (key: OfflineCacheKey, userId: string) => `${CACHE_STORAGE_PREFIX}${key}_${userId}`;
+
+export const readOfflineCache = async <T>(key: OfflineCacheKey, userId: string): Promise<CacheEntry<T> | null> => {
+  try {
+    const raw = await AsyncStorage.getItem(storageKey(key, userId));
+    return raw ? (JSON.parse(raw) as CacheEntry<T>) : null;
+  } catch (error) {
+    console.error('❌ Failed to read offline cache:', key, error);
+    return null;
+  }
+};
+
+export const writeOfflineCache = async <T>(key: OfflineCacheKey, userId: string, data: T): Promise<void> => {
+  try {
+    const entry: CacheEntry<T> = { savedAt: new Date().toISOString(), data };
+    await AsyncStorage.setItem(storageKey(key, userId), JSON.stringify(entry));
+  } catch (error) {
+    console.error('❌ Failed to write offline cache:', key, error);
+  }
+};
+
+// Run fetcher and save what it returns; when it fails, fall back to the saved copy.
+// Rethrows the original error when there is nothing saved.
+export const loadWithOfflineCache = async <T>(
+  key: OfflineCacheKey,
+  userId: string,
+  fetcher: () => Promise<T>
+): Promise<CachedResult<T>> => {
+  try {
+    const data = await fetcher();
+    await writeOfflineCache(key, userId, data);
+    return { data, fromCache: false, savedAt: null };
+  } catch (error) {
+    const cached = await readOfflineCache<T>(key, userId);
+    if (!cached) throw error;
+
+    console.warn('📦 Using offline copy of', key, 'saved', cached.savedAt);
+    return { data: cached.data, fromCache: true, savedAt: cached.savedAt };
+  }
+};
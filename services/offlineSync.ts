@@ -0,0 +1,430 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import { Platform } from 'react-native';
+import { supabase } from '../lib/supabase';
+import { OrderStatus } from '../types/orders';
+import { notifyOrderStatusChange, notifyProductCreated } from './notifications';
+import { updateOrderStatus } from './orders';
+import { createImageDraft, ProductImageDraft, saveProductImages, uploadProductImage } from './productMedia';
+import { ProductPriceTier, ProductVariantInput, saveProductVariants } from './products';
+import { realtimeManager } from './realtimeManager';
+
+const QUEUE_STORAGE_KEY = 'farm2go_offline_queue';
+const OFFLINE_UPLOADS_DIR = 'offline-uploads/';
+
+export type OfflineMutationState = 'pending' | 'conflict' | 'failed';
+
+interface OfflineMutationBase {
+  id: string;
+  userId: string;
+  createdAt: string;
+  state: OfflineMutationState;
+  // Why the mutation is held back (conflict or failure), shown to the farmer
+  message?: string;
+  // Server's updated_at when the conflict was found; replaying with it overwrites the server copy
+  serverUpdatedAt?: string;
+}
+
+export interface ProductStockMutation extends OfflineMutationBase {
+  kind: 'product_stock';
+  productId: string;
+  productName: string;
+  quantity: number;
+  baseUpdatedAt: string;
+}
+
+export interface OrderStatusMutation extends OfflineMutationBase {
+  kind: 'order_status';
+  orderId: string;
+  status: OrderStatus;
+  baseUpdatedAt: string;
+  notify: {
+    buyerId: string;
+    farmerId: string;
+    details: Parameters<typeof notifyOrderStatusChange>[4];
+  };
+}
+
+export interface NewProductData {
+  // Generated on the device so a replayed insert can't create the listing twice
+  id: string;
+  farmer_id: string;
+  name: string;
+  description: string;
+  price: number;
+  unit: string;
+  quantity_available: number;
+  category: string;
+  status: 'pending';
+  image_url: string | null;
+}
+
+export interface ProductCreateMutation extends OfflineMutationBase {
+  kind: 'product_create';
+  product: NewProductData;
+  // Ordered gallery; each local photo gets its uploaded copy recorded once it is in storage
+  images: ProductImageDraft[];
+  variants?: ProductVariantInput[];
+  priceTiers?: ProductPriceTier[];
+}
+
+export type OfflineMutation = ProductStockMutation | OrderStatusMutation | ProductCreateMutation;
+
+type NewMutation =
+  | Omit<ProductStockMutation, keyof OfflineMutationBase>
+  | Omit<OrderStatusMutation, keyof OfflineMutationBase>
+  | Omit<ProductCreateMutation, keyof OfflineMutationBase>;
+
+export interface SyncState {
+  pending: number;
+  conflicts: OfflineMutation[];
+  failed: OfflineMutation[];
+  syncing: boolean;
+  lastSyncedAt: string | null;
+}
+
+// What happened to a mutation right after it was queued
+export type EnqueueResult = 'synced' | OfflineMutationState;
+
+// Not cryptographic; only needs to be unique per device
+export const generateOfflineId = () =>
+  'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+    const random = (Math.random() * 16) | 0;
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+  });
+
+// Failed requests that are worth retrying later rather than reporting
+export const isNetworkError = (error: any) =>
+  /network|fetch|timed? ?out|offline|connection|abort/i.test(String(error?.message || error || ''));
+
+const sameTimestamp = (a: string | null | undefined, b: string | null | undefined) =>
+  !!a && !!b && new Date(a).getTime() === new Date(b).getTime();
+
+class OfflineSyncManager {
+  private queue: OfflineMutation[] = [];
+  private loaded: Promise<void>;
+  private syncing = false;
+  private lastSyncedAt: string | null = null;
+  private listeners: ((state: SyncState) => void)[] = [];
+
+  constructor() {
+    this.loaded = this.loadQueue();
+
+    // Replay queued edits whenever the connection comes back
+    realtimeManager.onConnectionStateChange((state) => {
+      if (state === 'CONNECTED') {
+        this.sync();
+      }
+    });
+  }
+
+  private async loadQueue() {
+    try {
+      const raw = await AsyncStorage.getItem(QUEUE_STORAGE_KEY);
+      const parsed = raw ? JSON.parse(raw) : [];
+      this.queue = (Array.isArray(parsed) ? parsed : []).map(this.upgradeMutation);
+      this.notifyListeners();
+    } catch (error) {
+      console.error('❌ Failed to load offline queue:', error);
+    }
+  }
+
+  private async saveQueue() {
+    try {
+      await AsyncStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(this.queue));
+    } catch (error) {
+      console.error('❌ Failed to save offline queue:', error);
+    }
+    this.notifyListeners();
+  }
+
+  private async currentUserId(): Promise<string | null> {
+    // Stored session, so this works offline
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.user?.id || null;
+  }
+
+  // Listings queued before galleries carried a single imageUri
+  private upgradeMutation(mutation: any): OfflineMutation {
+    if (mutation.kind === 'product_create' && !Array.isArray(mutation.images)) {
+      const { imageUri, ...rest } = mutation;
+      return { ...rest, images: imageUri ? [createImageDraft(imageUri)] : [] };
+    }
+    return mutation;
+  }
+
+  private updateMutation(id: string, changes: Partial<OfflineMutation>) {
+    this.queue = this.queue.map((mutation) =>
+      mutation.id === id ? ({ ...mutation, ...changes } as OfflineMutation) : mutation
+    );
+  }
+
+  // Photos picked from the camera or library live in a cache folder the OS may clear
+  private async keepLocalFile(uri: string): Promise<string> {
+    if (Platform.OS === 'web' || !FileSystem.documentDirectory) return uri;
+
+    const directory = `${FileSystem.documentDirectory}${OFFLINE_UPLOADS_DIR}`;
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true }).catch(() => {});
+    const target = `${directory}${Date.now()}_${uri.split('/').pop()}`;
+    await FileSystem.copyAsync({ from: uri, to: target });
+    return target;
+  }
+
+  // Returns 'applied', or 'conflict' after recording why on the mutation
+  private async apply(mutation: OfflineMutation): Promise<'applied' | 'conflict'> {
+    switch (mutation.kind) {
+      case 'product_stock': {
+        const base = mutation.serverUpdatedAt || mutation.baseUpdatedAt;
+        const { data, error } = await (supabase as any)
+          .from('products')
+          .update({ quantity_available: mutation.quantity })
+          .eq('id', mutation.productId)
+          .eq('updated_at', base)
+          .select('id');
+
+        if (error) throw error;
+        if (data?.length) return 'applied';
+
+        const { data: current, error: currentError } = await (supabase as any)
+          .from('products')
+          .select('quantity_available, updated_at')
+          .eq('id', mutation.productId)
+          .maybeSingle();
+
+        if (currentError) throw currentError;
+        if (!current) throw new Error(`${mutation.productName} no longer exists`);
+
+        this.updateMutation(mutation.id, {
+          message: `${mutation.productName} was changed elsewhere; stock is now ${current.quantity_available}`,
+          serverUpdatedAt: current.updated_at,
+        });
+        return 'conflict';
+      }
+
+      case 'order_status': {
+        const { data: current, error: currentError } = await (supabase as any)
+          .from('orders')
+          .select('status, updated_at')
+          .eq('id', mutation.orderId)
+          .maybeSingle();
+
+        if (currentError) throw currentError;
+        if (!current) throw new Error('Order no longer exists');
+        if (current.status === mutation.status) return 'applied';
+
+        if (!sameTimestamp(current.updated_at, mutation.serverUpdatedAt || mutation.baseUpdatedAt)) {
+          this.updateMutation(mutation.id, {
+            message: `Order #${mutation.orderId.slice(-8).toUpperCase()} is now ${current.status}`,
+            serverUpdatedAt: current.updated_at,
+          });
+          return 'conflict';
+        }
+
+        // Still validated against the order state machine
+        await updateOrderStatus(mutation.orderId, mutation.status, 'Synced from offline change');
+
+        try {
+          await notifyOrderStatusChange(
+            mutation.orderId,
+            mutation.status,
+            mutation.notify.buyerId,
+            mutation.notify.farmerId,
+            mutation.notify.details,
+            mutation.userId
+          );
+        } catch (notifError) {
+          console.error('⚠️ Failed to send order notification:', notifError);
+        }
+        return 'applied';
+      }
+
+      case 'product_create': {
+        const product = mutation.product;
+        let images = mutation.images;
+
+        for (const draft of images) {
+          if (draft.uploaded) continue;
+          const uploaded = await uploadProductImage(draft.uri);
+          images = images.map((item) => (item.key === draft.key ? { ...item, uploaded } : item));
+          // Don't upload again if a later step fails
+          this.updateMutation(mutation.id, { images });
+          await this.saveQueue();
+        }
+
+        const { error } = await (supabase as any).from('products').insert(product);
+        // Unique violation: an earlier attempt got through but its response was lost
+        if (error && error.code !== '23505') throw error;
+
+        if (images.length > 0) {
+          await saveProductImages(product.id, images.map((draft) => draft.uploaded!));
+        }
+
+        // Replaces whatever an earlier attempt saved, so replaying is safe
+        if (mutation.variants?.length || mutation.priceTiers?.length) {
+          await saveProductVariants(product.id, mutation.variants || [], mutation.priceTiers || []);
+        }
+
+        try {
+          const { data: adminProfiles } = await supabase
+            .from('profiles')
+            .select('id')
+            .in('user_type', ['admin', 'super-admin']);
+
+          await notifyProductCreated(
+            product.id,
+            product.name,
+            mutation.userId,
+            (adminProfiles || []).map((admin: any) => admin.id)
+          );
+        } catch (notifError) {
+          console.error('⚠️ Failed to send product notifications:', notifError);
+        }
+        return 'applied';
+      }
+    }
+  }
+
+  private notifyListeners() {
+    const state = this.getState();
+    this.listeners.forEach((listener) => {
+      try {
+        listener(state);
+      } catch (error) {
+        console.error('Error in sync state listener:', error);
+      }
+    });
+  }
+
+  // Public methods
+  getState(): SyncState {
+    return {
+      pending: this.queue.filter((mutation) => mutation.state === 'pending').length,
+      conflicts: this.queue.filter((mutation) => mutation.state === 'conflict'),
+      failed: this.queue.filter((mutation) => mutation.state === 'failed'),
+      syncing: this.syncing,
+      lastSyncedAt: this.lastSyncedAt,
+    };
+  }
+
+  onSyncStateChange(callback: (state: SyncState) => void) {
+    this.listeners.push(callback);
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners = this.listeners.filter((listener) => listener !== callback);
+    };
+  }
+
+  // Queue an edit and try to send it straight away
+  async enqueue(mutation: NewMutation): Promise<EnqueueResult> {
+    await this.loaded;
+
+    const userId = await this.currentUserId();
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    const queued = {
+      ...mutation,
+      id: generateOfflineId(),
+      userId,
+      createdAt: new Date().toISOString(),
+      state: 'pending',
+    } as OfflineMutation;
+
+    if (queued.kind === 'product_create') {
+      queued.images = await Promise.all(
+        queued.images.map(async (draft) =>
+          draft.uploaded ? draft : { ...draft, uri: await this.keepLocalFile(draft.uri) }
+        )
+      );
+    }
+
+    this.queue.push(queued);
+    await this.saveQueue();
+    console.log('📥 Queued offline change:', queued.kind, queued.id);
+
+    await this.sync();
+    return this.queue.find((item) => item.id === queued.id)?.state || 'synced';
+  }
+
+  // Send pending edits in the order they were made. Stops at the first network failure.
+  async sync(): Promise<void> {
+    await this.loaded;
+    if (this.syncing) return;
+
+    const userId = await this.currentUserId();
+    const pending = this.queue.filter(
+      (mutation) => mutation.state === 'pending' && mutation.userId === userId
+    );
+    if (pending.length === 0) return;
+
+    this.syncing = true;
+    this.notifyListeners();
+    console.log('🔄 Syncing', pending.length, 'offline changes');
+
+    try {
+      for (const mutation of pending) {
+        try {
+          const outcome = await this.apply(mutation);
+          if (outcome === 'applied') {
+            this.queue = this.queue.filter((item) => item.id !== mutation.id);
+          } else {
+            this.updateMutation(mutation.id, { state: 'conflict' });
+          }
+        } catch (error: any) {
+          if (isNetworkError(error)) {
+            console.warn('📴 Still offline, keeping', mutation.kind, mutation.id);
+            realtimeManager.markDisconnected();
+            break;
+          }
+          console.error('❌ Offline change rejected:', mutation.kind, error);
+          this.updateMutation(mutation.id, {
+            state: 'failed',
+            message: error?.message || 'The server rejected this change',
+          });
+        }
+        await this.saveQueue();
+      }
+
+      this.lastSyncedAt = new Date().toISOString();
+    } finally {
+      this.syncing = false;
+      this.notifyListeners();
+    }
+  }
+
+  // Conflict or failure: 'retry' replays the edit over the server's copy, 'discard' drops it
+  async resolve(id: string, resolution: 'retry' | 'discard'): Promise<void> {
+    await this.loaded;
+
+    if (resolution === 'discard') {
+      this.queue = this.queue.filter((mutation) => mutation.id !== id);
+      await this.saveQueue();
+      return;
+    }
+
+    this.updateMutation(id, { state: 'pending', message: undefined });
+    await this.saveQueue();
+    await this.sync();
+  }
+
+  // Queued changes for a record, so screens can show the edited value until it syncs
+  getQueuedFor(recordId: string): OfflineMutation[] {
+    return this.queue.filter((mutation) =>
+      (mutation.kind === 'product_stock' && mutation.productId === recordId) ||
+      (mutation.kind === 'order_status' && mutation.orderId === recordId)
+    );
+  }
+
+  getQueuedProducts(userId: string): NewProductData[] {
+    return this.queue
+      .filter((mutation): mutation is ProductCreateMutation =>
+        mutation.kind === 'product_create' && mutation.userId === userId
+      )
+      .map((mutation) => mutation.product);
+  }
+}
+
+// Export singleton instance
+export const offlineSync = new OfflineSyncManager();
@@ -1,21 +1,31 @@
 import { supabase } from '../lib/supabase';
 import {
-  canAdvanceOrderStatus,
+  CreateMultiItemOrderData,
   CreateOrderData,
+  DeliveryManifestOrder,
+  Harvest,
   Order,
+  OrderItem,
   OrderStatus,
+  OrderStatusHistoryEntry,
   OrderWithDetails,
+  PaymentMethod,
+  Preorder,
+  PreorderOutcome,
   Transaction,
   TransactionStatus
 } from '../types/orders';
+import { getHarvestName, getHarvestUnit } from './harvests';
+import { notifyPreorderOutcome, notifyPreorderPlaced } from './notifications';
 
 // Helper to fetch transactions for a list of order IDs (avoids missing FK join issue)
 const fetchTransactionsForOrders = async (orderIds: string[]): Promise<Record<string, Transaction>> => {
   if (orderIds.length === 0) return {};
   const { data } = await supabase
     .from('transactions')
-    .select('id, order_id, amount, status, payment_method, created_at, updated_at')
-    .in('order_id', orderIds);
+    .select('id, order_id, amount, status, payment_method, provider_reference, checkout_url, amount_paid, failure_reason, paid_at, transaction_type, created_at, updated_at')
+    .in('order_id', orderIds)
+    .eq('transaction_type', 'payment');
   const map: Record<string, Transaction> = {};
   for (const t of data || []) {
     map[(t as any).order_id] = t as Transaction;
@@ -23,6 +33,55 @@ const fetchTransactionsForOrders = async (orderIds: string[]): Promise<Record<st
   return map;
 };
 
+// Line items embedded in order selects
+const ORDER_ITEMS_SELECT = `
+        order_items (
+          id,
+          product_id,
+          variant_id,
+          variant_name,
+          unit,
+          quantity,
+          unit_price,
+          product:product_id (
+            name,
+            unit,
+            image_url
+          )
+        )`;
+
+// Map embedded order_items, falling back to a single synthetic line for legacy orders
+const mapOrderItems = (order: any): OrderItem[] => {
+  if (Array.isArray(order.order_items) && order.order_items.length > 0) {
+    return order.order_items.map((item: any) => ({
+      id: item.id,
+      order_id: order.id,
+      product_id: item.product_id,
+      variant_id: item.variant_id || null,
+      variant_name: item.variant_name || null,
+      quantity: item.quantity,
+      unit_price: item.unit_price,
+      product: {
+        name: item.product?.name || '',
+        unit: item.unit || item.product?.unit || '',
+        image_url: item.product?.image_url || null,
+      },
+    }));
+  }
+
+  return order.products ? [{
+    order_id: order.id,
+    product_id: order.product_id,
+    quantity: order.quantity,
+    unit_price: order.products.price || 0,
+    product: {
+      name: order.products.name || '',
+      unit: order.products.unit || '',
+      image_url: order.products.image_url || null,
+    },
+  }] : [];
+};
+
 // Order management functions
 export const createOrder = async (buyerId: string, orderData: CreateOrderData): Promise<{ order: Order; transaction: Transaction }> => {
   try {
@@ -56,7 +115,7 @@ export const createOrder = async (buyerId: string, orderData: CreateOrderData):
         p_total_price: totalPrice,
         p_delivery_address: orderData.delivery_address,
         p_notes: orderData.notes || null,
-        p_payment_method: 'pending' // Default payment method
+        p_payment_method: 'manual_proof' // Single-product orders are paid with an uploaded proof
       });
 
       // If RPC succeeded and has data, return it
@@ -79,6 +138,43 @@ export const createOrder = async (buyerId: string, orderData: CreateOrderData):
   }
 };
 
+// Create one order per farmer from a multi-product cart.
+// Unlike createOrder there is no manual fallback: stock for every line has to be
+// decremented in the same database transaction, which only the RPC can guarantee.
+export const createMultiItemOrders = async (
+  buyerId: string,
+  orderData: CreateMultiItemOrderData
+): Promise<{ order: Order; transaction: Transaction; items: OrderItem[] }[]> => {
+  try {
+    console.log('🛒 Creating multi-item orders for buyer:', buyerId, 'lines:', orderData.items.length);
+
+    const items = orderData.items.filter(item => item.quantity > 0);
+    if (items.length === 0) {
+      throw new Error('Your cart is empty');
+    }
+
+    const { data, error } = await (supabase as any).rpc('create_multi_item_orders', {
+      p_buyer_id: buyerId,
+      p_items: items,
+      p_delivery_address: orderData.delivery_address,
+      p_notes: orderData.notes || null,
+      p_payment_method: orderData.payment_method,
+      p_delivery_slots: orderData.delivery_slots || {}
+    });
+
+    if (error) {
+      console.error('❌ Multi-item order RPC error:', error);
+      throw new Error(error.message || 'Failed to place order');
+    }
+
+    console.log('✅ Created', (data || []).length, 'order(s) from cart');
+    return (data || []) as { order: Order; transaction: Transaction; items: OrderItem[] }[];
+  } catch (error) {
+    console.error('Create multi-item order error:', error);
+    throw error;
+  }
+};
+
 // Fallback manual order creation
 const createOrderManually = async (
   buyerId: string,
@@ -97,8 +193,7 @@ const createOrderManually = async (
       total_price: totalPrice,
       status: 'pending',
       delivery_address: orderData.delivery_address,
-      notes: orderData.notes,
-      purchase_code: `PO-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+      notes: orderData.notes
     })
     .select()
     .single();
@@ -114,7 +209,7 @@ const createOrderManually = async (
       order_id: order.id,
       amount: totalPrice,
       status: 'pending',
-      payment_method: 'pending'
+      payment_method: 'manual_proof'
     })
     .select()
     .single();
@@ -183,7 +278,7 @@ export const getBuyerOrders = async (buyerId: string): Promise<OrderWithDetails[
           last_name,
           farm_name,
           barangay
-        )
+        ),${ORDER_ITEMS_SELECT}
       `)
       .eq('buyer_id', buyerId)
       .order('created_at', { ascending: false });
@@ -208,17 +303,7 @@ export const getBuyerOrders = async (buyerId: string): Promise<OrderWithDetails[
       product: order.products,
       farmer_profile: order.profiles,
       transaction: transactionMap[order.id] ?? null,
-      // Create order_items array for the modal to consume
-      order_items: order.products ? [{
-        order_id: order.id,
-        quantity: order.quantity,
-        unit_price: order.products.price || 0,
-        product: {
-          name: order.products.name || '',
-          unit: order.products.unit || '',
-          image_url: order.products.image_url || null,
-        },
-      }] : []
+      order_items: mapOrderItems(order)
     }));
 
     console.log('✅ Mapped orders:', mappedOrders);
@@ -253,7 +338,7 @@ export const getFarmerOrders = async (farmerId: string): Promise<OrderWithDetail
           first_name,
           last_name,
           barangay
-        )
+        ),${ORDER_ITEMS_SELECT}
       `)
       .eq('farmer_id', farmerId)
       .order('created_at', { ascending: false });
@@ -270,17 +355,7 @@ export const getFarmerOrders = async (farmerId: string): Promise<OrderWithDetail
       product: order.products,
       farmer_profile: order.profiles,
       transaction: transactionMap[order.id] ?? null,
-      // Create order_items array for the modal to consume
-      order_items: order.products ? [{
-        order_id: order.id,
-        quantity: order.quantity,
-        unit_price: order.products.price || 0,
-        product: {
-          name: order.products.name || '',
-          unit: order.products.unit || '',
-          image_url: order.products.image_url || null,
-        },
-      }] : []
+      order_items: mapOrderItems(order)
     })) as OrderWithDetails[];
   } catch (error) {
     console.error('Error fetching farmer orders:', error);
@@ -288,41 +363,31 @@ export const getFarmerOrders = async (farmerId: string): Promise<OrderWithDetail
   }
 };
 
-// Update order status
-export const updateOrderStatus = async (orderId: string, newStatus: OrderStatus): Promise<Order> => {
+// Update order status through the order state machine.
+// The database rejects transitions the caller's role may not make and records
+// the change (with the optional reason) in order_status_history.
+export const updateOrderStatus = async (
+  orderId: string,
+  newStatus: OrderStatus,
+  reason?: string
+): Promise<Order> => {
   try {
-    // Get current order and transaction status
-    const { data: orderData, error: fetchError } = await supabase
-      .from('orders')
-      .select('*')
-      .eq('id', orderId)
-      .single();
-
-    if (fetchError || !orderData) {
-      throw new Error('Order not found');
-    }
-
-    const { data: txData } = await supabase
-      .from('transactions')
-      .select('status')
-      .eq('order_id', orderId)
-      .maybeSingle();
+    console.log('🔄 Updating order status:', orderId, '→', newStatus);
 
-    const transactionStatus = (txData as any)?.status as TransactionStatus | undefined;
+    const { error: rpcError } = await (supabase as any).rpc('update_order_status_safe', {
+      p_order_id: orderId,
+      p_new_status: newStatus,
+      p_reason: reason || null
+    });
 
-    // Validate status advancement
-    if (!canAdvanceOrderStatus((orderData as any).status as OrderStatus, transactionStatus)) {
-      throw new Error('Cannot advance order status: payment not completed');
+    if (rpcError) {
+      throw new Error(rpcError.message || 'Failed to update order status');
     }
 
     const { data, error } = await supabase
       .from('orders')
-      .update({
-        status: newStatus,
-        updated_at: new Date().toISOString()
-      })
+      .select('*')
       .eq('id', orderId)
-      .select()
       .single();
 
     if (error) {
@@ -336,11 +401,42 @@ export const updateOrderStatus = async (orderId: string, newStatus: OrderStatus)
   }
 };
 
-// Update transaction status
+// Status changes for an order, oldest first
+export const getOrderStatusHistory = async (orderId: string): Promise<OrderStatusHistoryEntry[]> => {
+  try {
+    const { data, error } = await (supabase as any)
+      .from('order_status_history')
+      .select(`
+        *,
+        actor:changed_by (
+          first_name,
+          last_name,
+          user_type
+        )
+      `)
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []) as OrderStatusHistoryEntry[];
+  } catch (error) {
+    console.error('Error fetching order status history:', error);
+    throw error;
+  }
+};
+
+// Update transaction status.
+// Provider-driven outcomes (e-wallet webhooks, the mock provider) go through apply_payment_event
+// in services/payments.ts; this is for manual changes by admins (the only ones allowed to update
+// transactions directly).
 export const updateTransactionStatus = async (
   transactionId: string,
   newStatus: TransactionStatus,
-  paymentMethod?: string
+  paymentMethod?: PaymentMethod,
+  details: { providerReference?: string; amountPaid?: number; failureReason?: string } = {}
 ): Promise<Transaction> => {
   try {
     const updateData: any = {
@@ -351,8 +447,21 @@ export const updateTransactionStatus = async (
     if (paymentMethod) {
       updateData.payment_method = paymentMethod;
     }
+    if (details.providerReference !== undefined) {
+      updateData.provider_reference = details.providerReference;
+    }
+    if (newStatus === 'completed') {
+      updateData.paid_at = new Date().toISOString();
+      updateData.failure_reason = null;
+      if (details.amountPaid !== undefined) {
+        updateData.amount_paid = details.amountPaid;
+      }
+    }
+    if (newStatus === 'failed') {
+      updateData.failure_reason = details.failureReason || 'Payment failed';
+    }
 
-    const { data, error } = await supabase
+    const { data, error } = await (supabase as any)
       .from('transactions')
       .update(updateData)
       .eq('id', transactionId)
@@ -363,19 +472,7 @@ export const updateTransactionStatus = async (
       throw error;
     }
 
-    // If payment is completed, check if we should advance order status
-    if (newStatus === 'completed') {
-      const { data: orderData } = await supabase
-        .from('orders')
-        .select('id, status')
-        .eq('id', (data as any).order_id)
-        .single();
-
-      if (orderData && (orderData as any).status === 'pending') {
-        await updateOrderStatus((orderData as any).id, 'confirmed');
-      }
-    }
-
+    // Completed payments also confirm pending orders (auto_confirm_order_on_payment trigger)
     return data as Transaction;
   } catch (error) {
     console.error('Error updating transaction status:', error);
@@ -413,7 +510,7 @@ export const getOrderById = async (orderId: string): Promise<OrderWithDetails |
           first_name,
           last_name,
           barangay
-        )
+        ),${ORDER_ITEMS_SELECT}
       `)
       .eq('id', orderId)
       .single();
@@ -430,17 +527,7 @@ export const getOrderById = async (orderId: string): Promise<OrderWithDetails |
       product: order.products,
       farmer_profile: order.farmer_profile,
       transaction: txMap[orderId] ?? null,
-      // Create order_items array for the modal to consume
-      order_items: order.products ? [{
-        order_id: order.id,
-        quantity: order.quantity,
-        unit_price: order.products.price || 0,
-        product: {
-          name: order.products.name || '',
-          unit: order.products.unit || '',
-          image_url: order.products.image_url || null,
-        },
-      }] : []
+      order_items: mapOrderItems(order)
     } as OrderWithDetails;
   } catch (error) {
     console.error('Error fetching order:', error);
@@ -448,6 +535,41 @@ export const getOrderById = async (orderId: string): Promise<OrderWithDetails |
   }
 };
 
+// A farmer's orders booked for delivery or pickup on a date, for the delivery manifest
+export const getDeliveryOrders = async (farmerId: string, date: string): Promise<DeliveryManifestOrder[]> => {
+  const { data, error } = await (supabase as any)
+    .from('orders')
+    .select(`
+      *,
+      products:product_id (
+        name,
+        price,
+        unit,
+        image_url
+      ),
+      buyer_profile:buyer_id (
+        first_name,
+        last_name,
+        phone
+      ),${ORDER_ITEMS_SELECT}
+    `)
+    .eq('farmer_id', farmerId)
+    .eq('delivery_date', date)
+    .neq('status', 'cancelled')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('❌ Error loading delivery orders:', error);
+    throw error;
+  }
+
+  return (data || []).map((order: any) => ({
+    ...order,
+    buyer_profile: order.buyer_profile || null,
+    order_items: mapOrderItems(order)
+  })) as DeliveryManifestOrder[];
+};
+
 // Cancel order (can only cancel pending orders)
 export const cancelOrder = async (orderId: string, reason?: string): Promise<Order> => {
   try {
@@ -501,31 +623,187 @@ const cancelOrderManually = async (orderId: string, reason?: string): Promise<Or
     throw error;
   }
 
-  // Restore product quantity
-  const { data: currentProduct } = await supabase
-    .from('products')
-    .select('quantity_available')
-    .eq('id', (order as any).product_id)
-    .single();
+  // Restore product quantity for every line (legacy orders have no order_items rows)
+  const { data: lineItems } = await (supabase as any)
+    .from('order_items')
+    .select('product_id, quantity')
+    .eq('order_id', orderId);
 
-  if (currentProduct) {
-    await supabase
+  const linesToRestore: { product_id: string; quantity: number }[] =
+    lineItems && lineItems.length > 0
+      ? lineItems
+      : [{ product_id: (order as any).product_id, quantity: (order as any).quantity }];
+
+  for (const line of linesToRestore) {
+    const { data: currentProduct } = await supabase
       .from('products')
-      .update({
-        quantity_available: (currentProduct as any).quantity_available + (order as any).quantity
-      })
-      .eq('id', (order as any).product_id);
+      .select('quantity_available')
+      .eq('id', line.product_id)
+      .single();
+
+    if (currentProduct) {
+      await (supabase as any)
+        .from('products')
+        .update({
+          quantity_available: (currentProduct as any).quantity_available + line.quantity
+        })
+        .eq('id', line.product_id);
+    }
   }
 
-  // Update transaction status to failed
+  // Update the unpaid payment to failed
   await supabase
     .from('transactions')
     .update({ status: 'failed' })
-    .eq('order_id', orderId);
+    .eq('order_id', orderId)
+    .eq('transaction_type', 'payment')
+    .eq('status', 'pending');
 
   return data as Order;
 };
 
+// Pre-orders against upcoming harvests (see services/harvests.ts for scheduling)
+
+// Reserve part of an upcoming harvest. The deposit, if the harvest asks for one,
+// is paid to the farmer directly and confirmed by them.
+export const placePreorder = async (
+  harvest: Harvest,
+  preorderData: { quantity: number; delivery_address: string; notes?: string; buyer_name?: string }
+): Promise<Preorder> => {
+  try {
+    console.log('🌱 Placing pre-order on harvest:', harvest.id, 'quantity:', preorderData.quantity);
+
+    const { data, error } = await (supabase as any).rpc('place_preorder', {
+      p_harvest_id: harvest.id,
+      p_quantity: preorderData.quantity,
+      p_delivery_address: preorderData.delivery_address,
+      p_notes: preorderData.notes || null
+    });
+
+    if (error) {
+      console.error('❌ Place pre-order RPC error:', error);
+      throw new Error(error.message || 'Failed to place pre-order');
+    }
+
+    const preorder = data as Preorder;
+
+    await notifyPreorderPlaced(harvest.farmer_id, preorder.buyer_id, {
+      preorderId: preorder.id,
+      harvestId: harvest.id,
+      productName: getHarvestName(harvest),
+      quantity: preorder.quantity,
+      unit: getHarvestUnit(harvest),
+      depositAmount: preorder.deposit_amount,
+      buyerName: preorderData.buyer_name
+    });
+
+    return preorder;
+  } catch (error) {
+    console.error('Place pre-order error:', error);
+    throw error;
+  }
+};
+
+// Buyers can withdraw a pre-order until the harvest comes in
+export const cancelPreorder = async (preorderId: string, reason?: string): Promise<Preorder> => {
+  try {
+    const { data, error } = await (supabase as any).rpc('cancel_preorder', {
+      p_preorder_id: preorderId,
+      p_reason: reason || null
+    });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to cancel pre-order');
+    }
+
+    return data as Preorder;
+  } catch (error) {
+    console.error('Error cancelling pre-order:', error);
+    throw error;
+  }
+};
+
+// A buyer's pre-orders with their harvests, newest first
+export const getBuyerPreorders = async (buyerId: string): Promise<Preorder[]> => {
+  try {
+    const { data, error } = await (supabase as any)
+      .from('preorders')
+      .select(`
+        *,
+        harvest:harvest_id (
+          *,
+          product:product_id (
+            name,
+            unit,
+            category,
+            image_url
+          ),
+          variant:variant_id (
+            name,
+            unit
+          )
+        )
+      `)
+      .eq('buyer_id', buyerId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []) as Preorder[];
+  } catch (error) {
+    console.error('Error fetching buyer pre-orders:', error);
+    throw error;
+  }
+};
+
+// Record the actual yield of a harvest. Pending pre-orders are converted into confirmed
+// orders oldest first until the yield runs out; the rest are partially filled or cancelled.
+// Every buyer is notified of their outcome and the leftover yield goes into stock.
+export const completeHarvest = async (
+  harvest: Harvest,
+  actualQuantity: number
+): Promise<{ restockedQuantity: number; outcomes: PreorderOutcome[] }> => {
+  try {
+    console.log('🌾 Completing harvest:', harvest.id, 'actual yield:', actualQuantity);
+
+    const { data, error } = await (supabase as any).rpc('complete_harvest', {
+      p_harvest_id: harvest.id,
+      p_actual_quantity: actualQuantity
+    });
+
+    if (error) {
+      console.error('❌ Complete harvest RPC error:', error);
+      throw new Error(error.message || 'Failed to complete harvest');
+    }
+
+    const outcomes = (data?.preorders || []) as PreorderOutcome[];
+    const productName = getHarvestName(harvest);
+    const unit = getHarvestUnit(harvest);
+
+    await Promise.all(outcomes.map(({ outcome, preorder, order }) =>
+      notifyPreorderOutcome(preorder.buyer_id, harvest.farmer_id, {
+        preorderId: preorder.id,
+        outcome,
+        productName,
+        quantity: preorder.quantity,
+        fulfilledQuantity: preorder.fulfilled_quantity,
+        unit,
+        orderId: order?.id,
+        refundDue: preorder.deposit_status === 'refund_due',
+        reason: preorder.cancel_reason
+      })
+    ));
+
+    console.log('✅ Harvest completed:', outcomes.length, 'pre-order(s) processed');
+    return { restockedQuantity: data?.restocked_quantity || 0, outcomes };
+  } catch (error) {
+    console.error('Complete harvest error:', error);
+    throw error;
+  }
+};
+
 // Real-time subscriptions for orders
 
 // Subscribe to order updates for a specific user (buyer or farmer)
@@ -610,23 +888,5 @@ export const subscribeToOrder = (
     .subscribe((status) => {
       console.log(`📋 Order ${orderId} subscription status:`, status);
     });
-};// Submit product rating (updates orders.ratings integer column)
-// Submit product rating (updates orders.ratings integer column)
-export const submitProductRating = async (
-  orderId: string,
-  rating: number,   // 1–5
-  _comment: string  // no comment column in DB, kept for API compatibility
-): Promise<void> => {
-  const { error } = await supabase
-    .from('orders')
-    .update({ ratings: rating })
-    .eq('id', orderId);
-
-  if (error) {
-    console.error('❌ Error submitting rating:', error);
-    throw error;
-  }
-
-  console.log(`✅ Rating ${rating} submitted for order ${orderId}`);
 };
 
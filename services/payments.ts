@@ -0,0 +1,159 @@
+import * as Linking from 'expo-linking';
+import * as WebBrowser from 'expo-web-browser';
+import { supabase } from '../lib/supabase';
+import { PaymentMethod, Transaction } from '../types/orders';
+
+// Result of starting a payment with a provider
+export interface PaymentStart {
+  // 'pending' - nothing to do now (cash on delivery, manual transfer)
+  // 'redirect' - the buyer has to finish paying at checkoutUrl
+  // 'mock' - the app shows the simulated checkout (see completeMockPayment)
+  next: 'pending' | 'redirect' | 'mock';
+  reference?: string;
+  checkoutUrl?: string;
+}
+
+export interface PaymentProvider {
+  method: PaymentMethod;
+  // Whether the buyer can choose this provider at checkout
+  isAvailable: () => boolean;
+  // Start paying for one checkout; several per-farmer transactions share one payment
+  startPayment: (transactions: Transaction[]) => Promise<PaymentStart>;
+}
+
+export type MockPaymentOutcome = 'completed' | 'failed';
+
+const EWALLET_METHODS: PaymentMethod[] = ['gcash', 'maya', 'mock'];
+
+// Start an e-wallet checkout through the payment-checkout edge function
+const startGatewayCheckout = async (
+  method: PaymentMethod,
+  transactions: Transaction[]
+): Promise<PaymentStart> => {
+  const { data, error } = await supabase.functions.invoke('payment-checkout', {
+    body: {
+      provider: method,
+      transactionIds: transactions.map(t => t.id),
+      returnUrl: Linking.createURL('/buyer/my-orders'),
+    },
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Payment service unavailable');
+  }
+  if (!data?.success) {
+    throw new Error(data?.error || 'Could not start the payment');
+  }
+
+  return { next: 'redirect', reference: data.reference, checkoutUrl: data.checkoutUrl };
+};
+
+const cashOnDeliveryProvider: PaymentProvider = {
+  method: 'cod',
+  isAvailable: () => true,
+  startPayment: async () => ({ next: 'pending' }),
+};
+
+const manualProofProvider: PaymentProvider = {
+  method: 'manual_proof',
+  isAvailable: () => true,
+  startPayment: async () => ({ next: 'pending' }),
+};
+
+const gcashProvider: PaymentProvider = {
+  method: 'gcash',
+  isAvailable: () => process.env.EXPO_PUBLIC_EWALLET_PAYMENTS_ENABLED === 'true',
+  startPayment: (transactions) => startGatewayCheckout('gcash', transactions),
+};
+
+const mayaProvider: PaymentProvider = {
+  method: 'maya',
+  isAvailable: () => process.env.EXPO_PUBLIC_EWALLET_PAYMENTS_ENABLED === 'true',
+  startPayment: (transactions) => startGatewayCheckout('maya', transactions),
+};
+
+// Offline stand-in for the gateway: start_mock_payment issues the reference, and completeMockPayment
+// plays the part of the webhook through the same apply_payment_event function.
+// The database refuses mock payments unless app.settings.mock_payments_enabled is on
+// (see 20261019051906_create_payment_providers.sql); this flag only decides whether to offer them.
+const mockProvider: PaymentProvider = {
+  method: 'mock',
+  isAvailable: () => __DEV__ || process.env.EXPO_PUBLIC_MOCK_PAYMENTS_ENABLED === 'true',
+  startPayment: async (transactions) => {
+    const { data, error } = await (supabase as any).rpc('start_mock_payment', {
+      p_transaction_ids: transactions.map(t => t.id),
+    });
+
+    if (error) throw error;
+    return { next: 'mock', reference: data as string };
+  },
+};
+
+const PAYMENT_PROVIDERS: Record<PaymentMethod, PaymentProvider> = {
+  cod: cashOnDeliveryProvider,
+  manual_proof: manualProofProvider,
+  gcash: gcashProvider,
+  maya: mayaProvider,
+  mock: mockProvider,
+};
+
+export const getPaymentProvider = (method: PaymentMethod): PaymentProvider => PAYMENT_PROVIDERS[method];
+
+// Providers the buyer can pick at checkout, in display order
+export const getAvailablePaymentMethods = (): PaymentMethod[] =>
+  (Object.keys(PAYMENT_PROVIDERS) as PaymentMethod[]).filter(method => PAYMENT_PROVIDERS[method].isAvailable());
+
+// Pay-now providers; their transactions can be paid (or retried) from the order screen
+export const isEwalletMethod = (method?: PaymentMethod | null) =>
+  !!method && EWALLET_METHODS.includes(method);
+
+// Start paying for transactions that all use the same provider
+export const startPayment = async (transactions: Transaction[]): Promise<PaymentStart> => {
+  try {
+    const method = transactions[0]?.payment_method;
+    if (!method || transactions.some(t => t.payment_method !== method)) {
+      throw new Error('All transactions in a payment must use the same payment method');
+    }
+
+    const payable = transactions.filter(t => t.status === 'pending' || t.status === 'failed');
+    if (payable.length === 0) {
+      throw new Error('Nothing left to pay');
+    }
+
+    console.log('💳 Starting', method, 'payment for', payable.length, 'transaction(s)');
+    return await getPaymentProvider(method).startPayment(payable);
+  } catch (error) {
+    console.error('❌ Error starting payment:', error);
+    throw error;
+  }
+};
+
+// Open the gateway's checkout page; resolves when the buyer comes back to the app
+export const openCheckout = async (checkoutUrl: string): Promise<void> => {
+  await WebBrowser.openAuthSessionAsync(checkoutUrl, Linking.createURL('/buyer/my-orders'));
+};
+
+// Simulate the gateway webhook for a mock payment
+export const completeMockPayment = async (
+  reference: string,
+  outcome: MockPaymentOutcome,
+  amount?: number
+): Promise<string> => {
+  const { data, error } = await (supabase as any).rpc('apply_payment_event', {
+    p_provider: 'mock',
+    p_event_id: `${reference}-${outcome}-${Date.now()}`,
+    p_provider_reference: reference,
+    p_status: outcome,
+    p_amount: outcome === 'completed' ? amount ?? null : null,
+    p_failure_reason: outcome === 'failed' ? 'Declined by the test provider' : null,
+    p_payload: { simulated: true },
+  });
+
+  if (error) {
+    console.error('❌ Error applying mock payment:', error);
+    throw error;
+  }
+
+  console.log('🧪 Mock payment', outcome, '→', data);
+  return data as string;
+};
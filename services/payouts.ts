@@ -0,0 +1,361 @@
+import { supabase } from '../lib/supabase';
+import {
+  FarmerBalance,
+  FarmerLedgerEntry,
+  FarmerPayout,
+  LEDGER_ENTRY_CONFIG,
+  LedgerEntryType,
+  PAYOUT_METHOD_CONFIG,
+  PayoutFeeRule,
+  PayoutMethod,
+  SettlementStatement,
+  StatementPeriod
+} from '../types/orders';
+import {
+  exportFile,
+  ExportTable,
+  escapeHtml,
+  toCsv,
+  toHtmlTable,
+  toPrintableHtml,
+} from '../utils/fileExport';
+import { notifyPayoutRecorded } from './notifications';
+
+// Farmer balances, payouts and settlement statements.
+// See supabase/migrations/20261019062758_create_farmer_payouts.sql for how the ledger is posted.
+
+export interface RecordPayoutData {
+  farmerId: string;
+  amount: number;
+  method: PayoutMethod;
+  reference?: string | null;
+  notes?: string | null;
+  paidAt?: string | null;
+}
+
+export interface FeeRuleData {
+  name: string;
+  percent: number;
+  // At most one of these; neither makes the rule apply to every farmer
+  barangay?: string | null;
+  farmerId?: string | null;
+}
+
+export interface StatementRange {
+  period: StatementPeriod;
+  start: Date;
+  end: Date; // exclusive
+  label: string;
+}
+
+// Order the lines are summarised in on statements
+export const LEDGER_ENTRY_ORDER: LedgerEntryType[] = [
+  'sale',
+  'fee',
+  'direct_collection',
+  'refund',
+  'fee_reversal',
+  'payout'
+];
+
+export const formatPeso = (amount: number): string => {
+  const sign = amount < 0 ? '-' : '';
+  return `${sign}₱${Math.abs(amount).toLocaleString('en-PH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+};
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-PH', { month: 'short', day: 'numeric', year: 'numeric' });
+
+// 'YYYY-MM-DD' in local time, for file names
+const formatDateKey = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * A statement week (Monday to Sunday) or calendar month. offset 0 is the current one,
+ * -1 the one before, and so on.
+ */
+export function getStatementRange(period: StatementPeriod, offset: number = 0, now = new Date()): StatementRange {
+  if (period === 'month') {
+    const start = new Date(now.getFullYear(), now.getMonth() + offset, 1);
+    const end = new Date(start.getFullYear(), start.getMonth() + 1, 1);
+    return {
+      period,
+      start,
+      end,
+      label: start.toLocaleDateString('en-PH', { month: 'long', year: 'numeric' })
+    };
+  }
+
+  const daysSinceMonday = (now.getDay() + 6) % 7;
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate() - daysSinceMonday + offset * 7);
+  const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7);
+  const lastDay = new Date(end.getFullYear(), end.getMonth(), end.getDate() - 1);
+  return {
+    period,
+    start,
+    end,
+    label: `${formatDate(start)} – ${formatDate(lastDay)}`
+  };
+}
+
+// What the farmer is owed now, or was owed just before `before`
+export const getFarmerBalance = async (farmerId: string, before?: Date): Promise<number> => {
+  const { data, error } = await (supabase as any).rpc('farmer_ledger_balance', {
+    p_farmer_id: farmerId,
+    p_before: before ? before.toISOString() : null
+  });
+
+  if (error) {
+    console.error('❌ Farmer balance RPC error:', error);
+    throw new Error(error.message || 'Failed to load balance');
+  }
+
+  return Number(data) || 0;
+};
+
+// Ledger lines in a range, oldest first
+export const getLedgerEntries = async (
+  farmerId: string,
+  range?: { start: Date; end: Date }
+): Promise<FarmerLedgerEntry[]> => {
+  let query = (supabase as any)
+    .from('farmer_ledger_entries')
+    .select('*')
+    .eq('farmer_id', farmerId)
+    .order('occurred_at', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (range) {
+    query = query
+      .gte('occurred_at', range.start.toISOString())
+      .lt('occurred_at', range.end.toISOString());
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('❌ Error loading ledger entries:', error);
+    throw error;
+  }
+
+  return ((data || []) as FarmerLedgerEntry[]).map(entry => ({ ...entry, amount: Number(entry.amount) }));
+};
+
+export const getFarmerPayouts = async (farmerId: string, limit: number = 20): Promise<FarmerPayout[]> => {
+  const { data, error } = await (supabase as any)
+    .from('farmer_payouts')
+    .select('*')
+    .eq('farmer_id', farmerId)
+    .order('paid_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('❌ Error loading payouts:', error);
+    throw error;
+  }
+
+  return ((data || []) as FarmerPayout[]).map(payout => ({ ...payout, amount: Number(payout.amount) }));
+};
+
+// The opening balance, every line in the period with the balance after it, and the closing balance
+export const getSettlementStatement = async (
+  farmerId: string,
+  range: StatementRange
+): Promise<SettlementStatement> => {
+  console.log('🧾 Building settlement statement:', farmerId, range.label);
+
+  const [openingBalance, entries] = await Promise.all([
+    getFarmerBalance(farmerId, range.start),
+    getLedgerEntries(farmerId, range)
+  ]);
+
+  const totals = Object.fromEntries(LEDGER_ENTRY_ORDER.map(type => [type, 0])) as Record<LedgerEntryType, number>;
+  let balance = openingBalance;
+  const lines = entries.map(entry => {
+    totals[entry.entry_type] = roundMoney(totals[entry.entry_type] + entry.amount);
+    balance = roundMoney(balance + entry.amount);
+    return { ...entry, running_balance: balance };
+  });
+
+  return {
+    farmer_id: farmerId,
+    period: range.period,
+    start: range.start.toISOString(),
+    end: range.end.toISOString(),
+    label: range.label,
+    opening_balance: openingBalance,
+    closing_balance: balance,
+    totals,
+    entries: lines
+  };
+};
+
+const summaryTable = (statement: SettlementStatement): ExportTable => ({
+  columns: ['Item', 'Amount'],
+  rows: [
+    ['Opening balance', statement.opening_balance.toFixed(2)],
+    ...LEDGER_ENTRY_ORDER.map(type => [LEDGER_ENTRY_CONFIG[type].label, statement.totals[type].toFixed(2)]),
+    ['Closing balance', statement.closing_balance.toFixed(2)]
+  ]
+});
+
+const linesTable = (statement: SettlementStatement): ExportTable => ({
+  columns: ['Date', 'Type', 'Description', 'Order', 'Amount', 'Balance'],
+  rows: statement.entries.map(entry => [
+    new Date(entry.occurred_at).toLocaleString('en-PH'),
+    LEDGER_ENTRY_CONFIG[entry.entry_type].label,
+    entry.description,
+    entry.order_id ? `#${entry.order_id.slice(-8)}` : '',
+    entry.amount.toFixed(2),
+    entry.running_balance.toFixed(2)
+  ])
+});
+
+// Download a statement as CSV, or as printable HTML for PDF
+export async function exportSettlementStatement(
+  statement: SettlementStatement,
+  format: 'csv' | 'pdf',
+  farmerName: string
+): Promise<void> {
+  const title = `Settlement Statement – ${statement.label}`;
+  const baseName = `farm2go-statement-${statement.period}-${formatDateKey(new Date(statement.start))}`;
+
+  if (format === 'csv') {
+    const content = `${title}\r\n${farmerName}\r\n\r\n${toCsv(summaryTable(statement))}\r\n\r\n${toCsv(linesTable(statement))}\r\n`;
+    await exportFile(`${baseName}.csv`, content, 'text/csv');
+    return;
+  }
+
+  const body = `
+<h1>Farm2Go ${escapeHtml(title)}</h1>
+<div class="muted">${escapeHtml(farmerName)}</div>
+<h2>Summary</h2>
+${toHtmlTable(summaryTable(statement))}
+<h2>Lines (${statement.entries.length})</h2>
+${toHtmlTable(linesTable(statement))}
+<p class="muted">Positive amounts are owed to you; negative amounts reduce what you are owed. Generated ${escapeHtml(new Date().toLocaleString('en-PH'))}</p>`;
+
+  await exportFile(`${baseName}.html`, toPrintableHtml(`Farm2Go ${title}`, body), 'text/html');
+}
+
+// Farmers in the signed-in admin's barangays who have ledger activity, most owed first
+export const getFarmerBalances = async (): Promise<FarmerBalance[]> => {
+  const { data, error } = await (supabase as any).rpc('get_farmer_balances');
+
+  if (error) {
+    console.error('❌ Farmer balances RPC error:', error);
+    throw new Error(error.message || 'Failed to load farmer balances');
+  }
+
+  return ((data || []) as FarmerBalance[]).map(row => ({ ...row, balance: Number(row.balance) }));
+};
+
+// Record money paid to a farmer. Fails if it is more than they are owed.
+export const recordPayout = async (data: RecordPayoutData, adminId: string): Promise<FarmerPayout> => {
+  console.log('💸 Recording payout:', data.farmerId, data.amount, data.method);
+
+  const { data: result, error } = await (supabase as any).rpc('record_farmer_payout', {
+    p_farmer_id: data.farmerId,
+    p_amount: data.amount,
+    p_method: data.method,
+    p_reference: data.reference || null,
+    p_notes: data.notes || null,
+    p_paid_at: data.paidAt || null
+  });
+
+  if (error) {
+    console.error('❌ Record payout RPC error:', error);
+    throw new Error(error.message || 'Failed to record payout');
+  }
+
+  const payout = { ...result.payout, amount: Number(result.payout.amount) } as FarmerPayout;
+
+  await notifyPayoutRecorded(
+    data.farmerId,
+    {
+      id: payout.id,
+      amount: payout.amount,
+      methodLabel: PAYOUT_METHOD_CONFIG[payout.method].label,
+      reference: payout.reference
+    },
+    adminId
+  );
+
+  return payout;
+};
+
+export const getFeeRules = async (includeInactive: boolean = false): Promise<PayoutFeeRule[]> => {
+  let query = (supabase as any)
+    .from('payout_fee_rules')
+    .select('*')
+    .order('created_at', { ascending: true });
+
+  if (!includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('❌ Error loading fee rules:', error);
+    throw error;
+  }
+
+  return ((data || []) as PayoutFeeRule[]).map(rule => ({ ...rule, percent: Number(rule.percent) }));
+};
+
+// Active rules that apply to a farmer, i.e. what each of their sales pays
+export const getApplicableFeeRules = (
+  rules: PayoutFeeRule[],
+  farmer: { id: string; barangay?: string | null }
+): PayoutFeeRule[] =>
+  rules.filter(rule =>
+    rule.is_active &&
+    (!rule.farmer_id || rule.farmer_id === farmer.id) &&
+    (!rule.barangay || rule.barangay.toLowerCase() === farmer.barangay?.toLowerCase())
+  );
+
+// Add a rule, or update one when ruleId is given. Changes apply to sales from then on.
+export const saveFeeRule = async (
+  data: FeeRuleData,
+  adminId: string,
+  ruleId?: string
+): Promise<PayoutFeeRule> => {
+  console.log('💱 Saving fee rule:', ruleId || 'new', data.name);
+
+  const row = {
+    name: data.name.trim(),
+    percent: data.percent,
+    barangay: data.barangay?.trim() || null,
+    farmer_id: data.farmerId || null,
+    updated_at: new Date().toISOString()
+  };
+
+  const { data: rule, error } = ruleId
+    ? await (supabase as any).from('payout_fee_rules').update(row).eq('id', ruleId).select().single()
+    : await (supabase as any).from('payout_fee_rules').insert({ ...row, created_by: adminId }).select().single();
+
+  if (error) {
+    console.error('❌ Error saving fee rule:', error);
+    throw new Error(error.message || 'Failed to save fee rule');
+  }
+
+  return { ...rule, percent: Number(rule.percent) } as PayoutFeeRule;
+};
+
+// Sales already posted keep the fees they were charged
+export const setFeeRuleActive = async (ruleId: string, isActive: boolean): Promise<void> => {
+  const { error } = await (supabase as any)
+    .from('payout_fee_rules')
+    .update({ is_active: isActive, updated_at: new Date().toISOString() })
+    .eq('id', ruleId);
+
+  if (error) {
+    console.error('❌ Error updating fee rule:', error);
+    throw new Error(error.message || 'Failed to update fee rule');
+  }
+};
@@ -0,0 +1,334 @@
+import { encode } from 'blurhash';
+import { Image as ExpoImage } from 'expo-image';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { Platform } from 'react-native';
+import { supabase } from '../lib/supabase';
+import { fileUploadService } from './fileUploadService';
+
+// Shared media pipeline for product photos: every photo is resized and compressed on the
+// device, uploaded as a full-size image plus a thumbnail with a blurhash placeholder, and
+// saved as an ordered gallery. See supabase/migrations/20261019060142_create_product_images.sql.
+
+export const PRODUCT_IMAGES_BUCKET = 'product-images';
+export const MAX_PRODUCT_IMAGES = 10;
+
+const FULL_SIZE = 1600;
+const THUMBNAIL_SIZE = 400;
+const FULL_QUALITY = 0.8;
+const THUMBNAIL_QUALITY = 0.7;
+const UPLOAD_ATTEMPTS = 3;
+
+export interface ProductImage {
+  id?: string;
+  storage_path: string;
+  thumbnail_path: string | null;
+  url: string;
+  thumbnail_url: string | null;
+  blurhash: string | null;
+  width: number | null;
+  height: number | null;
+}
+
+export interface ProductThumbnail {
+  thumbnail_url: string | null;
+  image_blurhash: string | null;
+}
+
+// One image in a product form: either already in the gallery (uploaded) or picked
+// on this device and waiting to be uploaded on save (uri)
+export interface ProductImageDraft {
+  key: string;
+  uri: string;
+  uploaded?: ProductImage;
+}
+
+interface PreparedFile {
+  uri: string;
+  width: number;
+  height: number;
+}
+
+export const createImageDraft = (uri: string): ProductImageDraft => ({
+  key: `${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+  uri,
+});
+
+export const toImageDrafts = (images: ProductImage[]): ProductImageDraft[] =>
+  images.map(image => ({
+    key: image.id || image.storage_path,
+    uri: image.thumbnail_url || image.url,
+    uploaded: image,
+  }));
+
+// Scale so the longest side is at most maxSize, then save as JPEG
+const resizeImage = async (uri: string, maxSize: number, quality: number): Promise<PreparedFile> => {
+  const context = ImageManipulator.manipulate(uri);
+  const original = await context.renderAsync();
+
+  if (Math.max(original.width, original.height) > maxSize) {
+    context.resize(original.width >= original.height ? { width: maxSize } : { height: maxSize });
+  }
+
+  const rendered = await context.renderAsync();
+  const saved = await rendered.saveAsync({ compress: quality, format: SaveFormat.JPEG });
+  return { uri: saved.uri, width: saved.width, height: saved.height };
+};
+
+// expo-image encodes blurhashes natively; on web the thumbnail is drawn into a small canvas
+const generateBlurhash = async (thumbnailUri: string): Promise<string | null> => {
+  try {
+    if (Platform.OS !== 'web') {
+      return await ExpoImage.generateBlurhashAsync(thumbnailUri, [4, 3]);
+    }
+
+    const image = new window.Image();
+    image.crossOrigin = 'anonymous';
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('Failed to load thumbnail'));
+      image.src = thumbnailUri;
+    });
+
+    const width = 32;
+    const height = Math.max(1, Math.round((image.height / image.width) * width));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+
+    context.drawImage(image, 0, 0, width, height);
+    const pixels = context.getImageData(0, 0, width, height);
+    return encode(pixels.data, width, height, 4, 3);
+  } catch (error) {
+    console.warn('⚠️ Could not generate blurhash:', error);
+    return null;
+  }
+};
+
+// Upload with progress and a few retries; XMLHttpRequest is used because fetch reports no progress
+const uploadWithRetry = async (
+  path: string,
+  body: ArrayBuffer,
+  onProgress?: (fraction: number) => void
+): Promise<void> => {
+  const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL || '';
+  const uploadUrl = `${supabaseUrl}/storage/v1/object/${PRODUCT_IMAGES_BUCKET}/${path}`;
+  let lastError: unknown = null;
+
+  for (let attempt = 1; attempt <= UPLOAD_ATTEMPTS; attempt++) {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        throw new Error('Session expired. Please log in again.');
+      }
+
+      await new Promise<void>((resolve, reject) => {
+        const xhr = new XMLHttpRequest();
+        xhr.open('POST', uploadUrl);
+        xhr.setRequestHeader('Authorization', `Bearer ${session.access_token}`);
+        xhr.setRequestHeader('Content-Type', 'image/jpeg');
+        // A retry may follow an attempt that reached storage but lost its response
+        xhr.setRequestHeader('x-upsert', 'true');
+        xhr.upload.onprogress = (event) => {
+          if (event.lengthComputable) onProgress?.(event.loaded / event.total);
+        };
+        xhr.onload = () => {
+          if (xhr.status >= 200 && xhr.status < 300) resolve();
+          else reject(new Error(`Upload failed: ${xhr.status} ${xhr.responseText}`));
+        };
+        xhr.onerror = () => reject(new Error('Network error while uploading'));
+        xhr.send(body);
+      });
+
+      onProgress?.(1);
+      return;
+    } catch (error) {
+      lastError = error;
+      console.warn(`⚠️ Upload attempt ${attempt} of ${UPLOAD_ATTEMPTS} failed:`, error);
+      if (attempt < UPLOAD_ATTEMPTS) {
+        await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** (attempt - 1)));
+      }
+    }
+  }
+
+  throw lastError instanceof Error ? lastError : new Error('Upload failed');
+};
+
+const publicUrl = (path: string) =>
+  supabase.storage.from(PRODUCT_IMAGES_BUCKET).getPublicUrl(path).data.publicUrl;
+
+// Resize, compress and upload one photo with its thumbnail. Files go in the uploader's own
+// folder (the storage policy requires it), which for admins is not the farmer's.
+export const uploadProductImage = async (
+  uri: string,
+  onProgress?: (fraction: number) => void
+): Promise<ProductImage> => {
+  console.log('📤 Preparing product image:', uri.substring(0, 50));
+
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Session expired. Please log in again.');
+  }
+
+  const full = await resizeImage(uri, FULL_SIZE, FULL_QUALITY);
+  const thumbnail = await resizeImage(full.uri, THUMBNAIL_SIZE, THUMBNAIL_QUALITY);
+  const blurhash = await generateBlurhash(thumbnail.uri);
+  onProgress?.(0.1);
+
+  const [fullData, thumbnailData] = await Promise.all([
+    fileUploadService.readFile(full.uri),
+    fileUploadService.readFile(thumbnail.uri),
+  ]);
+
+  const baseName = `${session.user.id}/${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+  const storagePath = `${baseName}.jpg`;
+  const thumbnailPath = `${baseName}_thumb.jpg`;
+  const totalBytes = fullData.byteLength + thumbnailData.byteLength;
+
+  // Progress is weighted by size; the first 10% covers preparing the files
+  await uploadWithRetry(thumbnailPath, thumbnailData, (fraction) =>
+    onProgress?.(0.1 + 0.9 * (fraction * thumbnailData.byteLength) / totalBytes)
+  );
+  try {
+    await uploadWithRetry(storagePath, fullData, (fraction) =>
+      onProgress?.(0.1 + 0.9 * (thumbnailData.byteLength + fraction * fullData.byteLength) / totalBytes)
+    );
+  } catch (error) {
+    await supabase.storage.from(PRODUCT_IMAGES_BUCKET).remove([thumbnailPath]);
+    throw error;
+  }
+
+  console.log('✅ Product image uploaded:', storagePath, `${(totalBytes / 1024).toFixed(0)}KB`);
+
+  return {
+    storage_path: storagePath,
+    thumbnail_path: thumbnailPath,
+    url: publicUrl(storagePath),
+    thumbnail_url: publicUrl(thumbnailPath),
+    blurhash,
+    width: full.width,
+    height: full.height,
+  };
+};
+
+// Upload every draft that is not in storage yet, in order. Progress is reported per draft key.
+// If an upload fails, the files already uploaded by this call are removed again.
+export const uploadImageDrafts = async (
+  drafts: ProductImageDraft[],
+  onProgress?: (key: string, fraction: number) => void
+): Promise<ProductImage[]> => {
+  const images: ProductImage[] = [];
+  const newlyUploaded: ProductImage[] = [];
+
+  try {
+    for (const draft of drafts) {
+      if (draft.uploaded) {
+        images.push(draft.uploaded);
+        continue;
+      }
+
+      const image = await uploadProductImage(draft.uri, (fraction) => onProgress?.(draft.key, fraction));
+      images.push(image);
+      newlyUploaded.push(image);
+    }
+  } catch (error) {
+    await discardUploadedImages(newlyUploaded);
+    throw error;
+  }
+
+  return images;
+};
+
+// Remove files that were uploaded but never made it into a saved gallery
+export const discardUploadedImages = async (images: ProductImage[]): Promise<void> => {
+  const paths = images.flatMap(image => [image.storage_path, image.thumbnail_path].filter(Boolean) as string[]);
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage.from(PRODUCT_IMAGES_BUCKET).remove(paths);
+  if (error) {
+    console.error('❌ Failed to remove unused product images:', error);
+  }
+};
+
+export const getProductImages = async (productId: string): Promise<ProductImage[]> => {
+  const { data, error } = await (supabase as any)
+    .from('product_images')
+    .select('id, storage_path, thumbnail_path, url, thumbnail_url, blurhash, width, height')
+    .eq('product_id', productId)
+    .order('sort_order', { ascending: true });
+
+  if (error) {
+    console.error('❌ Error loading product images:', error);
+    throw error;
+  }
+
+  return (data || []) as ProductImage[];
+};
+
+// Replace a product's gallery, then delete the files of images that were removed
+export const saveProductImages = async (productId: string, images: ProductImage[]): Promise<void> => {
+  console.log('🖼️ Saving product gallery:', productId, images.length, 'image(s)');
+
+  const { error } = await (supabase as any).rpc('save_product_images', {
+    p_product_id: productId,
+    p_images: images.map(({ storage_path, thumbnail_path, url, thumbnail_url, blurhash, width, height }) => ({
+      storage_path, thumbnail_path, url, thumbnail_url, blurhash, width, height,
+    })),
+  });
+
+  if (error) {
+    console.error('❌ Save product images RPC error:', error);
+    throw new Error(error.message || 'Failed to save product images');
+  }
+
+  await cleanupOrphanedProductImages();
+};
+
+// Delete files of removed images (and deleted products) from storage. Anything that
+// fails stays queued in product_image_orphans and is retried on the next call.
+export const cleanupOrphanedProductImages = async (): Promise<void> => {
+  try {
+    // Only files no gallery uses; the list is checked again in the database before it is returned
+    const { data, error } = await (supabase as any).rpc('get_product_image_orphans', { p_limit: 100 });
+
+    if (error) throw error;
+
+    const paths: string[] = data || [];
+    if (paths.length === 0) return;
+
+    const { error: removeError } = await supabase.storage.from(PRODUCT_IMAGES_BUCKET).remove(paths);
+    if (removeError) throw removeError;
+
+    await (supabase as any).rpc('clear_product_image_orphans', { p_paths: paths });
+    console.log('🧹 Removed', paths.length, 'unused product image file(s)');
+  } catch (error) {
+    console.error('⚠️ Product image cleanup failed, will retry later:', error);
+  }
+};
+
+// Thumbnail and placeholder for each product, for lists whose rows don't carry them (search results)
+export const getProductThumbnails = async (
+  productIds: string[]
+): Promise<Record<string, ProductThumbnail>> => {
+  const thumbnails: Record<string, ProductThumbnail> = {};
+  if (productIds.length === 0) return thumbnails;
+
+  try {
+    const { data, error } = await (supabase as any)
+      .from('products')
+      .select('id, thumbnail_url, image_blurhash')
+      .in('id', productIds);
+
+    if (error) throw error;
+
+    (data || []).forEach((row: { id: string } & ProductThumbnail) => {
+      thumbnails[row.id] = { thumbnail_url: row.thumbnail_url, image_blurhash: row.image_blurhash };
+    });
+  } catch (error) {
+    // Cards fall back to the full image
+    console.error('⚠️ Error loading product thumbnails:', error);
+  }
+
+  return thumbnails;
+};
@@ -15,6 +15,51 @@ export interface Product {
   updated_at: string;
 }
 
+// A way a product is sold, e.g. "Grade A, per kg" or "Sack (50 kg)"
+export interface ProductVariant {
+  id: string;
+  product_id: string;
+  name: string;
+  grade: string | null;
+  unit: string;
+  price: number;
+  quantity_available: number;
+  sku: string | null;
+  sort_order: number;
+  is_active: boolean;
+  price_tiers: ProductPriceTier[];
+}
+
+// Lower unit price from min_quantity units upward, for a product or one of its variants
+export interface ProductPriceTier {
+  id?: string;
+  min_quantity: number;
+  unit_price: number;
+}
+
+export interface ProductVariantInput {
+  id?: string;
+  name: string;
+  grade?: string | null;
+  unit: string;
+  price: number;
+  quantity_available: number;
+  sku?: string | null;
+  price_tiers: ProductPriceTier[];
+}
+
+export interface ProductPricing {
+  variants: ProductVariant[];
+  // Tiers of the product itself, used when it has no variants
+  priceTiers: ProductPriceTier[];
+}
+
+export interface ProductVariantSummary {
+  optionCount: number;
+  // Cheapest unit price reachable with a bulk tier, if any
+  bulkPrice: { unitPrice: number; minQuantity: number } | null;
+}
+
 export interface ProductWithFarmer extends Product {
   farmer_profile: {
     id: string;
@@ -70,7 +115,7 @@ export const updateProductQuantity = async (
   }
 };
 
-// Update product details
+// Update product details. Price changes are kept in product_price_history by a trigger.
 export const updateProduct = async (
   productId: string,
   updates: Partial<Product>,
@@ -323,4 +368,127 @@ export const getProductById = async (productId: string): Promise<ProductWithFarm
     console.error('Error fetching product:', error);
     return null;
   }
-};
\ No newline at end of file
+};
+// Unit price for a line of `quantity`: the deepest tier reached, else the base price
+export const getTierUnitPrice = (
+  basePrice: number,
+  tiers: ProductPriceTier[] | null | undefined,
+  quantity: number
+): number => {
+  const tier = (tiers || [])
+    .filter(t => quantity >= t.min_quantity)
+    .sort((a, b) => b.min_quantity - a.min_quantity)[0];
+
+  return tier ? Number(tier.unit_price) : Number(basePrice);
+};
+
+// Get a product's active variants and price tiers
+export const getProductVariants = async (productId: string): Promise<ProductPricing> => {
+  try {
+    const [variantsResult, tiersResult] = await Promise.all([
+      (supabase as any)
+        .from('product_variants')
+        .select('*, price_tiers:product_price_tiers (id, min_quantity, unit_price)')
+        .eq('product_id', productId)
+        .eq('is_active', true)
+        .order('sort_order', { ascending: true }),
+      (supabase as any)
+        .from('product_price_tiers')
+        .select('id, min_quantity, unit_price')
+        .eq('product_id', productId)
+        .order('min_quantity', { ascending: true }),
+    ]);
+
+    if (variantsResult.error) throw variantsResult.error;
+    if (tiersResult.error) throw tiersResult.error;
+
+    const variants = ((variantsResult.data || []) as ProductVariant[]).map(variant => ({
+      ...variant,
+      price_tiers: [...(variant.price_tiers || [])].sort((a, b) => a.min_quantity - b.min_quantity),
+    }));
+
+    return { variants, priceTiers: (tiersResult.data || []) as ProductPriceTier[] };
+  } catch (error) {
+    console.error('Error fetching product variants:', error);
+    throw error;
+  }
+};
+
+// Replace a product's variants and price tiers. Variants left out are removed,
+// or retired when existing orders still reference them.
+export const saveProductVariants = async (
+  productId: string,
+  variants: ProductVariantInput[],
+  priceTiers: ProductPriceTier[] = []
+): Promise<void> => {
+  try {
+    const { error } = await (supabase as any).rpc('save_product_variants', {
+      p_product_id: productId,
+      p_variants: variants.map(variant => ({
+        ...variant,
+        price_tiers: variant.price_tiers.map(({ min_quantity, unit_price }) => ({ min_quantity, unit_price })),
+      })),
+      p_price_tiers: priceTiers.map(({ min_quantity, unit_price }) => ({ min_quantity, unit_price })),
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    console.log('✅ Product variants saved:', productId, variants.length);
+  } catch (error) {
+    console.error('Error saving product variants:', error);
+    throw error;
+  }
+};
+
+// Option counts and best bulk price for listing cards
+export const getProductVariantSummaries = async (
+  productIds: string[]
+): Promise<Record<string, ProductVariantSummary>> => {
+  const summaries: Record<string, ProductVariantSummary> = {};
+  if (productIds.length === 0) return summaries;
+
+  try {
+    const [variantsResult, tiersResult] = await Promise.all([
+      (supabase as any)
+        .from('product_variants')
+        .select('product_id, price_tiers:product_price_tiers (min_quantity, unit_price)')
+        .in('product_id', productIds)
+        .eq('is_active', true),
+      (supabase as any)
+        .from('product_price_tiers')
+        .select('product_id, min_quantity, unit_price')
+        .in('product_id', productIds),
+    ]);
+
+    if (variantsResult.error) throw variantsResult.error;
+    if (tiersResult.error) throw tiersResult.error;
+
+    const summaryFor = (productId: string) => {
+      if (!summaries[productId]) summaries[productId] = { optionCount: 0, bulkPrice: null };
+      return summaries[productId];
+    };
+
+    const addTier = (productId: string, tier: ProductPriceTier) => {
+      const summary = summaryFor(productId);
+      if (!summary.bulkPrice || Number(tier.unit_price) < summary.bulkPrice.unitPrice) {
+        summary.bulkPrice = { unitPrice: Number(tier.unit_price), minQuantity: tier.min_quantity };
+      }
+    };
+
+    for (const variant of (variantsResult.data || []) as { product_id: string; price_tiers: ProductPriceTier[] }[]) {
+      summaryFor(variant.product_id).optionCount += 1;
+      (variant.price_tiers || []).forEach(tier => addTier(variant.product_id, tier));
+    }
+
+    for (const tier of (tiersResult.data || []) as (ProductPriceTier & { product_id: string })[]) {
+      addTier(tier.product_id, tier);
+    }
+
+    return summaries;
+  } catch (error) {
+    console.error('Error fetching product variant summaries:', error);
+    return summaries;
+  }
+};
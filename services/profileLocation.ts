@@ -0,0 +1,90 @@
+import { supabase } from '../lib/supabase';
+import { Database } from '../types/database';
+import { GeocodedPoint, haversineKm, locationService } from './locationService';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+type ProfileLocationColumns = Pick<Database['public']['Tables']['profiles']['Update'],
+  'latitude' | 'longitude' | 'location_source' | 'location_updated_at'>;
+
+// Enough of a profile to place it on the map
+export type LocatableProfile = Partial<Pick<Profile, 'barangay' | 'full_address' | 'latitude' | 'longitude' | 'location_source'>>;
+
+// Coordinates for a barangay and optional street address. Falls back to the barangay's centre
+// when the address cannot be found or there is no connection.
+export const geocodeProfileAddress = async (
+  barangay: string | null | undefined,
+  fullAddress?: string | null
+): Promise<GeocodedPoint | null> => {
+  const text = [fullAddress?.trim(), barangay?.trim()].filter(Boolean).join(', ');
+  if (!text) return null;
+
+  try {
+    return await locationService.geocodeAddress(text);
+  } catch (error) {
+    console.warn('⚠️ Geocoding failed, using barangay centre:', error);
+    return barangay ? locationService.getBarangayCentroid(barangay) : null;
+  }
+};
+
+// Profile columns for a geocoded point, to spread into an insert or update
+export const toLocationColumns = (point: GeocodedPoint | null): ProfileLocationColumns =>
+  point
+    ? {
+        latitude: point.lat,
+        longitude: point.lon,
+        location_source: point.source,
+        location_updated_at: new Date().toISOString()
+      }
+    : {};
+
+export const updateProfileLocation = async (profileId: string, point: GeocodedPoint): Promise<void> => {
+  const { error } = await (supabase as any)
+    .from('profiles')
+    .update(toLocationColumns(point))
+    .eq('id', profileId);
+
+  if (error) {
+    console.error('❌ Failed to save profile location:', error);
+    throw error;
+  }
+};
+
+// Where a profile is: its saved coordinates, else the centre of its barangay. Never goes online.
+export const getProfilePoint = (profile: LocatableProfile | null | undefined): GeocodedPoint | null => {
+  if (!profile) return null;
+  if (profile.latitude != null && profile.longitude != null) {
+    return { lat: profile.latitude, lon: profile.longitude, source: profile.location_source || 'search' };
+  }
+  return profile.barangay ? locationService.getBarangayCentroid(profile.barangay) : null;
+};
+
+// Saved coordinates for a profile, geocoding and saving them first for profiles made before
+// addresses carried coordinates. Saving is best effort; the point is returned either way.
+export const ensureProfileLocation = async (profile: LocatableProfile & { id: string }): Promise<GeocodedPoint | null> => {
+  if (profile.latitude != null && profile.longitude != null) {
+    return getProfilePoint(profile);
+  }
+
+  const point = await geocodeProfileAddress(profile.barangay, profile.full_address);
+  if (!point) return null;
+
+  try {
+    await updateProfileLocation(profile.id, point);
+    console.log('📍 Saved location for profile', profile.id, `(${point.source})`);
+  } catch (error) {
+    console.warn('⚠️ Could not save profile location:', error);
+  }
+  return point;
+};
+
+// Kilometres from a point to a profile, or null when either cannot be placed
+export const distanceBetween = (
+  from: GeocodedPoint | null,
+  to: LocatableProfile | null | undefined
+): number | null => {
+  const point = getProfilePoint(to);
+  return from && point ? haversineKm(from, point) : null;
+};
+
+// The marketplace gets distances in whole kilometres, rounded up
+export const formatDistance = (km: number): string => `within ${km} km`;
@@ -0,0 +1,180 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Location from 'expo-location';
+import { supabase } from '../lib/supabase';
+import { PurchaseQRStatus, readPurchaseQRPayload } from '../utils/purchaseCode';
+
+const TOKEN_STORAGE_PREFIX = 'farm2go_purchase_qr_';
+const SCAN_QUEUE_KEY = 'farm2go_purchase_scan_queue';
+
+// Fetch a fresh token once the cached one has less than this left
+const TOKEN_REFRESH_MARGIN_MS = 24 * 60 * 60 * 1000;
+
+// Don't hold up a scan waiting for a GPS fix
+const LOCATION_TIMEOUT_MS = 5000;
+
+export type PurchaseScanResult =
+  | Exclude<PurchaseQRStatus, 'unreadable'>
+  | 'not_found'
+  | 'mismatch';
+
+export interface PurchaseScanRecord {
+  orderId: string | null;
+  purchaseCode: string | null;
+  scannedBy: string;
+  result: PurchaseScanResult;
+  // True when only the QR signature could be checked
+  verifiedOffline: boolean;
+  scannedAt: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  locationAccuracy?: number | null;
+}
+
+const tokenExpiresAt = (token: string) => (readPurchaseQRPayload(token)?.exp || 0) * 1000;
+
+// Signed QR token for an order. Cached on the device so the buyer can still show it without signal.
+export const getPurchaseQRToken = async (orderId: string): Promise<string> => {
+  const storageKey = `${TOKEN_STORAGE_PREFIX}${orderId}`;
+  const cached = await AsyncStorage.getItem(storageKey).catch(() => null);
+
+  if (cached && tokenExpiresAt(cached) - Date.now() > TOKEN_REFRESH_MARGIN_MS) {
+    return cached;
+  }
+
+  try {
+    const { data, error } = await supabase.functions.invoke('purchase-qr', {
+      body: { orderId },
+    });
+
+    if (error) {
+      throw new Error(error.message || 'Purchase QR service unavailable');
+    }
+    if (!data?.success) {
+      throw new Error(data?.error || 'Could not load the purchase QR code');
+    }
+
+    await AsyncStorage.setItem(storageKey, data.token).catch((storageError) =>
+      console.error('❌ Failed to cache purchase QR token:', storageError)
+    );
+    return data.token as string;
+  } catch (error) {
+    // Offline: an older token is still good until it expires
+    if (cached && tokenExpiresAt(cached) > Date.now()) {
+      console.warn('⚠️ Using cached purchase QR token for order:', orderId);
+      return cached;
+    }
+    console.error('❌ Error loading purchase QR token:', error);
+    throw error;
+  }
+};
+
+// Best-effort position of the scanner; null when permission is denied or no fix arrives in time
+export const getScanLocation = async (): Promise<Location.LocationObjectCoords | null> => {
+  try {
+    const { status } = await Location.requestForegroundPermissionsAsync();
+    if (status !== 'granted') return null;
+
+    const lastKnown = await Location.getLastKnownPositionAsync({ maxAge: 5 * 60 * 1000 });
+    if (lastKnown) return lastKnown.coords;
+
+    const current = await Promise.race([
+      Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced }),
+      new Promise<null>((resolve) => setTimeout(() => resolve(null), LOCATION_TIMEOUT_MS)),
+    ]);
+    return current?.coords || null;
+  } catch (error) {
+    console.warn('⚠️ Could not get scan location:', error);
+    return null;
+  }
+};
+
+const toRow = (scan: PurchaseScanRecord) => ({
+  order_id: scan.orderId,
+  purchase_code: scan.purchaseCode,
+  scanned_by: scan.scannedBy,
+  result: scan.result,
+  verified_offline: scan.verifiedOffline,
+  scanned_at: scan.scannedAt,
+  latitude: scan.latitude ?? null,
+  longitude: scan.longitude ?? null,
+  location_accuracy: scan.locationAccuracy ?? null,
+});
+
+const loadScanQueue = async (): Promise<PurchaseScanRecord[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(SCAN_QUEUE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('❌ Failed to load queued scans:', error);
+    return [];
+  }
+};
+
+// Upload scans recorded while offline. Only the signed-in user's scans can be uploaded;
+// those of anyone else who used this device wait for their next session.
+// Returns how many are still waiting.
+export const flushQueuedPurchaseScans = async (): Promise<number> => {
+  const queue = await loadScanQueue();
+  if (queue.length === 0) return 0;
+
+  const { data: { session } } = await supabase.auth.getSession();
+  const own = queue.filter(scan => scan.scannedBy === session?.user?.id);
+  if (own.length === 0) return queue.length;
+
+  const { error } = await (supabase as any)
+    .from('purchase_code_scans')
+    .insert(own.map(toRow));
+
+  if (error) {
+    console.warn('⚠️ Queued scans not uploaded yet:', error.message);
+    return queue.length;
+  }
+
+  const remaining = queue.filter(scan => scan.scannedBy !== session?.user?.id);
+  await AsyncStorage.setItem(SCAN_QUEUE_KEY, JSON.stringify(remaining));
+  console.log('✅ Uploaded', own.length, 'queued purchase scans');
+  return remaining.length;
+};
+
+// Log a scan by the signed-in user, with their position when available. When the upload fails
+// the scan is kept on the device and sent with the next one.
+export const recordPurchaseScan = async (
+  scan: Pick<PurchaseScanRecord, 'orderId' | 'purchaseCode' | 'result' | 'verifiedOffline'>
+): Promise<void> => {
+  const scannedAt = new Date().toISOString();
+  // Read from the stored session so this works offline
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user) {
+    console.warn('⚠️ Not logging purchase scan: no signed-in user');
+    return;
+  }
+
+  const coords = await getScanLocation();
+  const record: PurchaseScanRecord = {
+    ...scan,
+    scannedBy: session.user.id,
+    scannedAt,
+    latitude: coords?.latitude,
+    longitude: coords?.longitude,
+    locationAccuracy: coords?.accuracy,
+  };
+
+  const { error } = await (supabase as any)
+    .from('purchase_code_scans')
+    .insert(toRow(record));
+
+  if (!error) {
+    console.log('📝 Purchase scan logged:', scan.purchaseCode, scan.result);
+    await flushQueuedPurchaseScans();
+    return;
+  }
+
+  console.warn('⚠️ Could not log purchase scan, queuing it:', error.message);
+  try {
+    const queue = await loadScanQueue();
+    await AsyncStorage.setItem(SCAN_QUEUE_KEY, JSON.stringify([...queue, record]));
+  } catch (storageError) {
+    console.error('❌ Failed to queue purchase scan:', storageError);
+  }
+};
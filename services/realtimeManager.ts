@@ -42,17 +42,13 @@ class RealtimeManager {
     this.heartbeatInterval = setInterval(() => {
       if (this.connectionState === 'CONNECTED') {
         // Test connection with a simple query
-        supabase
-          .from('profiles')
-          .select('id')
-          .limit(1)
-          .then(() => {
-            // Connection is good
-          })
-          .catch((error) => {
-            console.error('Heartbeat failed:', error);
+        // Query errors are returned rather than thrown
+        this.probe().then((reachable) => {
+          if (!reachable) {
+            console.error('Heartbeat failed');
             this.setConnectionState('DISCONNECTED');
-          });
+          }
+        });
       }
     }, 30000);
   }
@@ -68,7 +64,8 @@ class RealtimeManager {
       try {
         const { data: { session } } = await supabase.auth.getSession();
         if (session) {
-          if (this.connectionState === 'DISCONNECTED') {
+          // The session is stored locally, so check the server is reachable again too
+          if (this.connectionState === 'DISCONNECTED' && await this.probe()) {
             this.setConnectionState('CONNECTED');
           }
         } else {
@@ -83,6 +80,19 @@ class RealtimeManager {
     }, 5000);
   }
 
+  // True when a trivial query reaches the server
+  private async probe(): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .select('id')
+        .limit(1);
+      return !error;
+    } catch {
+      return false;
+    }
+  }
+
   private setConnectionState(state: ConnectionState) {
     if (this.connectionState !== state) {
       console.log(`📡 Real-time connection state changed: ${this.connectionState} → ${state}`);
@@ -126,13 +136,13 @@ class RealtimeManager {
 
       if (session) {
         // Try a simple database query to test connection
-        await supabase
-          .from('profiles')
-          .select('id')
-          .limit(1);
-
-        this.setConnectionState('CONNECTED');
-        console.log('✅ Reconnection successful');
+        if (await this.probe()) {
+          this.setConnectionState('CONNECTED');
+          console.log('✅ Reconnection successful');
+        } else {
+          this.setConnectionState('DISCONNECTED');
+          console.log('❌ Server still unreachable');
+        }
       } else {
         this.setConnectionState('DISCONNECTED');
         console.log('❌ No session available for reconnection');
@@ -143,6 +153,11 @@ class RealtimeManager {
     }
   }
 
+  // A request failed for lack of a connection; the connection check flips back once the server answers
+  markDisconnected() {
+    this.setConnectionState('DISCONNECTED');
+  }
+
   // Check if real-time is available
   isRealtimeAvailable(): boolean {
     return this.connectionState === 'CONNECTED';
@@ -0,0 +1,190 @@
+import { supabase } from '../lib/supabase';
+import { RefundIssueType, RefundRequest, RefundType } from '../types/orders';
+import { fileUploadService } from './fileUploadService';
+import { notifyOrderStatusChange } from './notifications';
+
+export const MAX_REFUND_PHOTOS = 5;
+const REFUND_PHOTOS_BUCKET = 'refund-photos';
+
+export interface RequestRefundData {
+  orderId: string;
+  refundType: RefundType;
+  issueType: RefundIssueType | null;
+  reason: string;
+  // Local file URIs, uploaded before the request is sent
+  photos: string[];
+  // Lines being refunded; only used for partial refunds
+  items: { productId: string; quantity: number }[];
+}
+
+// Buyer and farmer of the order, for notifications
+export interface RefundParties {
+  buyerId: string;
+  farmerId: string;
+  buyerName?: string;
+  farmerName?: string;
+}
+
+const REFUND_SELECT = `
+  *,
+  items:refund_request_items (
+    *,
+    product:product_id (
+      name,
+      unit
+    )
+  )
+`;
+
+export const uploadRefundPhoto = async (uri: string, userId: string, index: number = 0): Promise<string> => {
+  const extension = uri.split('.').pop()?.toLowerCase();
+  const isPng = extension === 'png';
+  const uploaded = await fileUploadService.uploadFile(
+    uri,
+    `refund_${index}.${isPng ? 'png' : 'jpg'}`,
+    isPng ? 'image/png' : 'image/jpeg',
+    userId,
+    REFUND_PHOTOS_BUCKET
+  );
+  return uploaded.url;
+};
+
+// Refund requests for an order, newest first
+export const getOrderRefundRequests = async (orderId: string): Promise<RefundRequest[]> => {
+  const { data, error } = await (supabase as any)
+    .from('refund_requests')
+    .select(REFUND_SELECT)
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('❌ Error loading refund requests:', error);
+    throw error;
+  }
+
+  return (data || []) as RefundRequest[];
+};
+
+// The open request for an order, if any
+export const getPendingRefundRequest = async (orderId: string): Promise<RefundRequest | null> => {
+  const { data, error } = await (supabase as any)
+    .from('refund_requests')
+    .select(REFUND_SELECT)
+    .eq('order_id', orderId)
+    .eq('status', 'pending')
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ Error loading pending refund request:', error);
+    throw error;
+  }
+
+  return (data as RefundRequest) || null;
+};
+
+// Buyer asks for a full or partial refund of a delivered order.
+// The order moves to issue_reported until the farmer or an admin decides.
+export const requestRefund = async (
+  data: RequestRefundData,
+  parties: RefundParties
+): Promise<RefundRequest> => {
+  try {
+    console.log('💸 Requesting', data.refundType, 'refund for order:', data.orderId);
+
+    if (!data.reason.trim()) {
+      throw new Error('Please describe the problem.');
+    }
+    if (data.photos.length > MAX_REFUND_PHOTOS) {
+      throw new Error(`You can attach up to ${MAX_REFUND_PHOTOS} photos.`);
+    }
+
+    const items = data.items.filter(item => item.quantity > 0);
+    if (data.refundType === 'partial' && items.length === 0) {
+      throw new Error('Choose at least one item to refund.');
+    }
+
+    const photoUrls = await Promise.all(
+      data.photos.map((uri, index) => uploadRefundPhoto(uri, parties.buyerId, index))
+    );
+
+    const { data: request, error } = await (supabase as any).rpc('request_order_refund', {
+      p_order_id: data.orderId,
+      p_refund_type: data.refundType,
+      p_reason: data.reason.trim(),
+      p_issue_type: data.issueType,
+      p_photo_urls: photoUrls,
+      p_items: items.map(item => ({ product_id: item.productId, quantity: item.quantity })),
+    });
+
+    if (error) {
+      console.error('❌ Refund request RPC error:', error);
+      throw new Error(error.message || 'Failed to request refund');
+    }
+
+    await notifyOrderStatusChange(
+      data.orderId,
+      'refund_requested',
+      parties.buyerId,
+      parties.farmerId,
+      {
+        refundAmount: Number(request.amount),
+        buyerName: parties.buyerName,
+        farmerName: parties.farmerName,
+      },
+      parties.buyerId
+    );
+
+    console.log('✅ Refund requested:', request.id);
+    return request as RefundRequest;
+  } catch (error) {
+    console.error('❌ Error requesting refund:', error);
+    throw error;
+  }
+};
+
+// Farmer or admin approves or denies a request. returned lists the units that came back
+// and can be sold again; only those go back into stock.
+export const decideRefundRequest = async (
+  request: RefundRequest,
+  approve: boolean,
+  options: { note?: string; returned?: { productId: string; quantity: number }[] },
+  parties: RefundParties,
+  decidedBy: string
+): Promise<RefundRequest> => {
+  try {
+    console.log(approve ? '✅ Approving' : '🚫 Denying', 'refund request:', request.id);
+
+    const { data, error } = await (supabase as any).rpc('decide_refund_request', {
+      p_request_id: request.id,
+      p_approve: approve,
+      p_note: options.note?.trim() || null,
+      p_returned: (options.returned || [])
+        .filter(item => item.quantity > 0)
+        .map(item => ({ product_id: item.productId, quantity: item.quantity })),
+    });
+
+    if (error) {
+      console.error('❌ Refund decision RPC error:', error);
+      throw new Error(error.message || 'Failed to update refund request');
+    }
+
+    await notifyOrderStatusChange(
+      request.order_id,
+      approve ? 'refund_approved' : 'refund_denied',
+      parties.buyerId,
+      parties.farmerId,
+      {
+        refundAmount: Number(request.amount),
+        buyerName: parties.buyerName,
+        farmerName: parties.farmerName,
+        note: options.note?.trim() || undefined,
+      },
+      decidedBy
+    );
+
+    return data as RefundRequest;
+  } catch (error) {
+    console.error('❌ Error deciding refund request:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,341 @@
+import { supabase } from '../lib/supabase';
+import {
+  exportFile,
+  ExportTable,
+  escapeHtml,
+  toCsv,
+  toHtmlTable,
+  toPrintableHtml,
+} from '../utils/fileExport';
+
+export type ReportMetricKey =
+  | 'newUsers'
+  | 'activeFarmers'
+  | 'orders'
+  | 'revenue'
+  | 'productsListed'
+  | 'errors';
+
+export type ReportType = 'users' | 'sales' | 'system' | 'products';
+
+export interface ReportRange {
+  start: Date;
+  end: Date; // exclusive
+}
+
+export interface ReportMetric {
+  key: ReportMetricKey;
+  title: string;
+  current: number;
+  previous: number;
+  changePercent: number | null; // null when the previous period was zero
+  // Whether an increase is good news (errors going up is not)
+  higherIsBetter: boolean;
+}
+
+export interface SystemReport {
+  range: ReportRange;
+  previousRange: ReportRange;
+  metrics: ReportMetric[];
+}
+
+const METRIC_TITLES: Record<ReportMetricKey, string> = {
+  newUsers: 'New Users',
+  activeFarmers: 'Active Farmers',
+  orders: 'Total Orders',
+  revenue: 'Revenue',
+  productsListed: 'Products Listed',
+  errors: 'System Errors',
+};
+
+const REPORT_TITLES: Record<ReportType, string> = {
+  users: 'User Analytics',
+  sales: 'Sales Report',
+  system: 'System Health',
+  products: 'Product Analytics',
+};
+
+/**
+ * The period of the same length immediately before the given one
+ */
+export function getPreviousRange(range: ReportRange): ReportRange {
+  const length = range.end.getTime() - range.start.getTime();
+  return {
+    start: new Date(range.start.getTime() - length),
+    end: new Date(range.start),
+  };
+}
+
+/**
+ * Preset ranges offered on the reports screen
+ */
+export function getPresetRange(preset: '7d' | '30d' | 'month' | 'lastMonth', now = new Date()): ReportRange {
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const tomorrow = new Date(startOfToday.getTime() + 24 * 60 * 60 * 1000);
+
+  switch (preset) {
+    case '7d':
+      return { start: new Date(tomorrow.getTime() - 7 * 24 * 60 * 60 * 1000), end: tomorrow };
+    case '30d':
+      return { start: new Date(tomorrow.getTime() - 30 * 24 * 60 * 60 * 1000), end: tomorrow };
+    case 'month':
+      return { start: new Date(now.getFullYear(), now.getMonth(), 1), end: tomorrow };
+    case 'lastMonth':
+      return {
+        start: new Date(now.getFullYear(), now.getMonth() - 1, 1),
+        end: new Date(now.getFullYear(), now.getMonth(), 1),
+      };
+  }
+}
+
+const percentChange = (current: number, previous: number): number | null => {
+  if (previous === 0) return current === 0 ? 0 : null;
+  return ((current - previous) / previous) * 100;
+};
+
+async function countRows(table: string, range: ReportRange): Promise<number> {
+  const { count, error } = await (supabase as any)
+    .from(table)
+    .select('id', { count: 'exact', head: true })
+    .gte('created_at', range.start.toISOString())
+    .lt('created_at', range.end.toISOString());
+
+  if (error) throw error;
+  return count || 0;
+}
+
+// Orders, revenue and active farmers, added up by the database (see get_report_order_stats)
+async function getOrderStats(
+  range: ReportRange
+): Promise<{ orders: number; revenue: number; activeFarmers: number }> {
+  const { data, error } = await (supabase as any).rpc('get_report_order_stats', {
+    p_start: range.start.toISOString(),
+    p_end: range.end.toISOString(),
+  });
+
+  if (error) throw error;
+
+  return {
+    orders: Number(data?.orders) || 0,
+    revenue: Number(data?.revenue) || 0,
+    activeFarmers: Number(data?.active_farmers) || 0,
+  };
+}
+
+async function getPeriodValues(range: ReportRange): Promise<Record<ReportMetricKey, number>> {
+  const [newUsers, orderStats, productsListed, errors] = await Promise.all([
+    countRows('profiles', range),
+    getOrderStats(range),
+    countRows('products', range),
+    countRows('error_logs', range),
+  ]);
+
+  return {
+    newUsers,
+    activeFarmers: orderStats.activeFarmers,
+    orders: orderStats.orders,
+    revenue: orderStats.revenue,
+    productsListed,
+    errors,
+  };
+}
+
+/**
+ * Compute every report metric for a range, compared with the previous period
+ */
+export async function getSystemReport(range: ReportRange): Promise<SystemReport> {
+  console.log('📊 Building system report:', range.start.toISOString(), '→', range.end.toISOString());
+
+  const previousRange = getPreviousRange(range);
+  const [current, previous] = await Promise.all([
+    getPeriodValues(range),
+    getPeriodValues(previousRange),
+  ]);
+
+  const metrics = (Object.keys(METRIC_TITLES) as ReportMetricKey[]).map(key => ({
+    key,
+    title: METRIC_TITLES[key],
+    current: current[key],
+    previous: previous[key],
+    changePercent: percentChange(current[key], previous[key]),
+    higherIsBetter: key !== 'errors',
+  }));
+
+  return { range, previousRange, metrics };
+}
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+export const formatMetricValue = (metric: Pick<ReportMetric, 'key'>, value: number): string =>
+  metric.key === 'revenue'
+    ? `₱${value.toLocaleString('en-PH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+    : value.toLocaleString('en-PH');
+
+export const formatChange = (changePercent: number | null): string => {
+  if (changePercent === null) return 'new';
+  const sign = changePercent > 0 ? '+' : '';
+  return `${sign}${changePercent.toFixed(1)}%`;
+};
+
+// PostgREST caps each response (1000 rows by default), so detail rows are read a page at a time
+const DETAIL_PAGE_SIZE = 1000;
+
+async function fetchRowsInRange(table: string, columns: string, range: ReportRange): Promise<any[]> {
+  const rows: any[] = [];
+  let from = 0;
+
+  while (true) {
+    const { data, error } = await (supabase as any)
+      .from(table)
+      .select(columns)
+      .gte('created_at', range.start.toISOString())
+      .lt('created_at', range.end.toISOString())
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + DETAIL_PAGE_SIZE - 1);
+    if (error) throw error;
+
+    rows.push(...(data || []));
+    if (!data || data.length < DETAIL_PAGE_SIZE) break;
+    from += DETAIL_PAGE_SIZE;
+  }
+
+  return rows;
+}
+
+/**
+ * Row-level detail for a report type within the range
+ */
+export async function getReportDetail(type: ReportType, range: ReportRange): Promise<ExportTable> {
+  switch (type) {
+    case 'users': {
+      const data = await fetchRowsInRange(
+        'profiles',
+        'id, first_name, last_name, email, user_type, barangay, verification_status, created_at',
+        range
+      );
+      return {
+        columns: ['Joined', 'Name', 'Email', 'Type', 'Barangay', 'Verification'],
+        rows: data.map((p: any) => [
+          p.created_at,
+          `${p.first_name || ''} ${p.last_name || ''}`.trim(),
+          p.email,
+          p.user_type,
+          p.barangay,
+          p.verification_status,
+        ]),
+      };
+    }
+
+    case 'sales': {
+      const data = await fetchRowsInRange(
+        'orders',
+        `
+          id,
+          purchase_code,
+          status,
+          quantity,
+          total_price,
+          created_at,
+          products:product_id ( name ),
+          farmer:farmer_id ( farm_name, first_name, last_name, barangay )
+        `,
+        range
+      );
+      return {
+        columns: ['Date', 'Purchase Code', 'Product', 'Farmer', 'Barangay', 'Quantity', 'Status', 'Amount (PHP)'],
+        rows: data.map((o: any) => [
+          o.created_at,
+          o.purchase_code,
+          o.products?.name,
+          o.farmer?.farm_name || `${o.farmer?.first_name || ''} ${o.farmer?.last_name || ''}`.trim(),
+          o.farmer?.barangay,
+          o.quantity,
+          o.status,
+          (o.total_price || 0).toFixed(2),
+        ]),
+      };
+    }
+
+    case 'system': {
+      const data = await fetchRowsInRange(
+        'error_logs',
+        'created_at, platform, app_version, category, message',
+        range
+      );
+      return {
+        columns: ['Time', 'Platform', 'App Version', 'Category', 'Message'],
+        rows: data.map((e: any) => [
+          e.created_at,
+          e.platform,
+          e.app_version,
+          e.category,
+          e.message,
+        ]),
+      };
+    }
+
+    case 'products': {
+      const data = await fetchRowsInRange(
+        'products',
+        'name, category, price, unit, quantity_available, status, created_at, farmer:farmer_id ( farm_name, barangay )',
+        range
+      );
+      return {
+        columns: ['Listed', 'Product', 'Category', 'Farm', 'Barangay', 'Price (PHP)', 'Unit', 'Stock', 'Status'],
+        rows: data.map((p: any) => [
+          p.created_at,
+          p.name,
+          p.category,
+          p.farmer?.farm_name,
+          p.farmer?.barangay,
+          p.price,
+          p.unit,
+          p.quantity_available,
+          p.status,
+        ]),
+      };
+    }
+  }
+}
+
+const metricsTable = (report: SystemReport): ExportTable => ({
+  columns: ['Metric', 'This Period', 'Previous Period', 'Change'],
+  rows: report.metrics.map(metric => [
+    metric.title,
+    formatMetricValue(metric, metric.current),
+    formatMetricValue(metric, metric.previous),
+    formatChange(metric.changePercent),
+  ]),
+});
+
+/**
+ * Export a report as CSV or a printable HTML document (save as PDF from the print dialog)
+ */
+export async function exportReport(
+  type: ReportType,
+  report: SystemReport,
+  format: 'csv' | 'pdf'
+): Promise<void> {
+  const detail = await getReportDetail(type, report.range);
+  const periodLabel = `${formatDate(report.range.start)} to ${formatDate(new Date(report.range.end.getTime() - 1))}`;
+  const baseName = `farm2go-${type}-report-${formatDate(report.range.start)}`;
+
+  if (format === 'csv') {
+    const summary = toCsv(metricsTable(report));
+    const content = `${REPORT_TITLES[type]} (${periodLabel})\r\n\r\n${summary}\r\n\r\n${toCsv(detail)}\r\n`;
+    await exportFile(`${baseName}.csv`, content, 'text/csv');
+    return;
+  }
+
+  const body = `
+<h1>Farm2Go ${escapeHtml(REPORT_TITLES[type])}</h1>
+<div class="muted">${escapeHtml(periodLabel)} · compared with ${escapeHtml(formatDate(report.previousRange.start))} to ${escapeHtml(formatDate(new Date(report.previousRange.end.getTime() - 1)))}</div>
+<h2>Summary</h2>
+${toHtmlTable(metricsTable(report))}
+<h2>Details (${detail.rows.length})</h2>
+${toHtmlTable(detail)}
+<p class="muted">Generated ${escapeHtml(new Date().toLocaleString('en-PH'))}</p>`;
+
+  await exportFile(`${baseName}.html`, toPrintableHtml(`Farm2Go ${REPORT_TITLES[type]}`, body), 'text/html');
+}
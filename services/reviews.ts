@@ -0,0 +1,304 @@
+import { supabase } from '../lib/supabase';
+import { fileUploadService } from './fileUploadService';
+import { notifyReviewReceived, notifyReviewReply } from './notifications';
+
+export const REVIEWS_PAGE_SIZE = 5;
+export const MAX_REVIEW_PHOTOS = 5;
+const REVIEW_PHOTOS_BUCKET = 'review-photos';
+
+export type ReviewStatus = 'published' | 'hidden';
+
+export interface ProductReview {
+  id: string;
+  order_id: string;
+  product_id: string;
+  buyer_id: string;
+  farmer_id: string;
+  rating: number;
+  comment: string | null;
+  photo_urls: string[];
+  farmer_reply: string | null;
+  farmer_replied_at: string | null;
+  helpful_count: number;
+  status: ReviewStatus;
+  is_flagged: boolean;
+  flag_reason: string | null;
+  created_at: string;
+  updated_at: string;
+  buyer?: {
+    first_name: string | null;
+    last_name: string | null;
+  };
+  // Whether the signed-in user marked this review as helpful
+  voted_helpful?: boolean;
+}
+
+export interface RatingStats {
+  average: number;
+  count: number;
+  distribution: number[]; // [1★count, 2★count, 3★count, 4★count, 5★count]
+}
+
+export interface SubmitReviewData {
+  orderId: string;
+  productId: string;
+  productName: string;
+  rating: number; // 1–5
+  comment: string;
+  // Already uploaded URLs are kept; local file URIs are uploaded first
+  photos: string[];
+}
+
+const REVIEW_SELECT = `
+  *,
+  buyer:buyer_id (
+    first_name,
+    last_name
+  )
+`;
+
+const isRemoteUrl = (uri: string) => /^https?:\/\//.test(uri);
+
+// Star breakdown of a product's published reviews
+export const getProductRatingStats = async (productId: string): Promise<RatingStats | null> => {
+  const { data, error } = await (supabase as any)
+    .from('product_reviews')
+    .select('rating')
+    .eq('product_id', productId)
+    .eq('status', 'published');
+
+  if (error) {
+    console.error('❌ Error loading rating stats:', error);
+    throw error;
+  }
+
+  if (!data || data.length === 0) return null;
+
+  const ratings: number[] = data.map((row: any) => row.rating);
+  const distribution = [0, 0, 0, 0, 0];
+  ratings.forEach((r) => {
+    if (r >= 1 && r <= 5) distribution[r - 1]++;
+  });
+
+  return {
+    average: ratings.reduce((sum, r) => sum + r, 0) / ratings.length,
+    count: ratings.length,
+    distribution,
+  };
+};
+
+// One page of a product's reviews, most helpful first. Admins also receive hidden reviews.
+export const getProductReviews = async (
+  productId: string,
+  page: number = 0,
+  viewerId?: string | null,
+  pageSize: number = REVIEWS_PAGE_SIZE
+): Promise<{ reviews: ProductReview[]; total: number; hasMore: boolean }> => {
+  const from = page * pageSize;
+  const { data, error, count } = await (supabase as any)
+    .from('product_reviews')
+    .select(REVIEW_SELECT, { count: 'exact' })
+    .eq('product_id', productId)
+    .order('helpful_count', { ascending: false })
+    .order('created_at', { ascending: false })
+    .range(from, from + pageSize - 1);
+
+  if (error) {
+    console.error('❌ Error loading reviews:', error);
+    throw error;
+  }
+
+  let reviews: ProductReview[] = (data || []).map((row: any) => ({
+    ...row,
+    photo_urls: row.photo_urls || [],
+  }));
+
+  if (viewerId && reviews.length > 0) {
+    const { data: votes } = await (supabase as any)
+      .from('product_review_votes')
+      .select('review_id')
+      .eq('user_id', viewerId)
+      .in('review_id', reviews.map((r) => r.id));
+
+    const voted = new Set((votes || []).map((v: any) => v.review_id));
+    reviews = reviews.map((r) => ({ ...r, voted_helpful: voted.has(r.id) }));
+  }
+
+  const total = count || 0;
+  return { reviews, total, hasMore: from + reviews.length < total };
+};
+
+// The buyer's reviews for a set of orders, keyed by order id
+export const getReviewsForOrders = async (orderIds: string[]): Promise<Record<string, ProductReview>> => {
+  if (orderIds.length === 0) return {};
+
+  const { data, error } = await (supabase as any)
+    .from('product_reviews')
+    .select('*')
+    .in('order_id', orderIds);
+
+  if (error) {
+    console.error('❌ Error loading order reviews:', error);
+    throw error;
+  }
+
+  const map: Record<string, ProductReview> = {};
+  for (const row of data || []) {
+    map[row.order_id] = { ...row, photo_urls: row.photo_urls || [] };
+  }
+  return map;
+};
+
+// Upload a review photo to the reviewer's folder and return its public URL
+export const uploadReviewPhoto = async (uri: string, userId: string, index: number = 0): Promise<string> => {
+  const extension = uri.split('.').pop()?.toLowerCase();
+  const isPng = extension === 'png';
+  const uploaded = await fileUploadService.uploadFile(
+    uri,
+    `review_${index}.${isPng ? 'png' : 'jpg'}`,
+    isPng ? 'image/png' : 'image/jpeg',
+    userId,
+    REVIEW_PHOTOS_BUCKET
+  );
+  return uploaded.url;
+};
+
+// Create or update the buyer's review of a product from a delivered order
+export const submitProductReview = async (
+  buyerId: string,
+  data: SubmitReviewData,
+  buyerName?: string
+): Promise<ProductReview> => {
+  try {
+    console.log('⭐ Submitting review for order:', data.orderId);
+
+    if (data.photos.length > MAX_REVIEW_PHOTOS) {
+      throw new Error(`You can attach up to ${MAX_REVIEW_PHOTOS} photos.`);
+    }
+
+    const photoUrls = await Promise.all(
+      data.photos.map((uri, index) => (isRemoteUrl(uri) ? uri : uploadReviewPhoto(uri, buyerId, index)))
+    );
+
+    const fields = {
+      rating: data.rating,
+      comment: data.comment.trim() || null,
+      photo_urls: photoUrls,
+    };
+
+    const { data: existing } = await (supabase as any)
+      .from('product_reviews')
+      .select('id')
+      .eq('order_id', data.orderId)
+      .eq('product_id', data.productId)
+      .maybeSingle();
+
+    if (existing) {
+      const { data: updated, error } = await (supabase as any)
+        .from('product_reviews')
+        .update(fields)
+        .eq('id', existing.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      console.log('✅ Review updated:', updated.id);
+      return updated;
+    }
+
+    const { data: created, error } = await (supabase as any)
+      .from('product_reviews')
+      .insert({
+        ...fields,
+        order_id: data.orderId,
+        product_id: data.productId,
+        buyer_id: buyerId,
+        // farmer_id is filled in from the order by the validate_product_review trigger
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await notifyReviewReceived(created.farmer_id, buyerId, {
+      reviewId: created.id,
+      productId: data.productId,
+      productName: data.productName,
+      rating: data.rating,
+      buyerName,
+    });
+
+    console.log('✅ Review created:', created.id);
+    return created;
+  } catch (error) {
+    console.error('❌ Error submitting review:', error);
+    throw error;
+  }
+};
+
+// Farmer's public reply; an empty reply removes it
+export const replyToReview = async (
+  review: ProductReview,
+  reply: string,
+  productName: string,
+  farmerName?: string
+): Promise<void> => {
+  const trimmed = reply.trim();
+  const { error } = await (supabase as any)
+    .from('product_reviews')
+    .update({ farmer_reply: trimmed || null })
+    .eq('id', review.id);
+
+  if (error) {
+    console.error('❌ Error replying to review:', error);
+    throw error;
+  }
+
+  if (trimmed && !review.farmer_reply) {
+    await notifyReviewReply(review.buyer_id, review.farmer_id, {
+      reviewId: review.id,
+      productId: review.product_id,
+      productName,
+      farmerName,
+    });
+  }
+};
+
+export const setReviewHelpful = async (
+  reviewId: string,
+  userId: string,
+  helpful: boolean
+): Promise<void> => {
+  const query = (supabase as any).from('product_review_votes');
+  const { error } = helpful
+    ? await query.upsert({ review_id: reviewId, user_id: userId }, { onConflict: 'review_id,user_id' })
+    : await query.delete().eq('review_id', reviewId).eq('user_id', userId);
+
+  if (error) {
+    console.error('❌ Error updating helpful vote:', error);
+    throw error;
+  }
+};
+
+// Admin moderation: hide/unhide and flag/unflag
+export const moderateReview = async (
+  reviewId: string,
+  changes: { status?: ReviewStatus; isFlagged?: boolean; flagReason?: string | null }
+): Promise<void> => {
+  const update: Record<string, any> = {};
+  if (changes.status !== undefined) update.status = changes.status;
+  if (changes.isFlagged !== undefined) {
+    update.is_flagged = changes.isFlagged;
+    update.flag_reason = changes.isFlagged ? changes.flagReason || null : null;
+  }
+
+  const { error } = await (supabase as any)
+    .from('product_reviews')
+    .update(update)
+    .eq('id', reviewId);
+
+  if (error) {
+    console.error('❌ Error moderating review:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,207 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { GeocodedPoint, haversineKm, locationService } from './locationService';
+
+// Multi-stop delivery runs: geocode the day's orders, then order the stops with nearest
+// neighbour followed by 2-opt. Coordinates are kept on the device so a route can be
+// planned again without signal.
+
+const GEOCODE_STORAGE_KEY = 'farm2go_route_geocodes';
+
+// Straight-line distance times this is a fair guess at the road distance
+const ROAD_FACTOR = 1.3;
+// Average speed on barangay roads, tricycle or small truck
+const AVERAGE_SPEED_KMH = 25;
+// Handing over an order
+const MINUTES_PER_STOP = 5;
+
+export interface RoutePoint {
+  lat: number;
+  lon: number;
+}
+
+export interface RouteStopInput<T> {
+  id: string;
+  address: string;
+  data: T;
+}
+
+export interface RouteStop<T> extends RouteStopInput<T> {
+  point: GeocodedPoint;
+  // Road distance estimate from the previous stop (or the start)
+  legKm: number;
+}
+
+export interface PlannedRoute<T> {
+  start: RoutePoint;
+  stops: RouteStop<T>[];
+  // Addresses that could not be placed on the map, to be visited however the farmer sees fit
+  unlocated: RouteStopInput<T>[];
+  totalKm: number;
+  totalMinutes: number;
+}
+
+// Length of an open path from start through the points in the given order
+const pathKm = (start: RoutePoint, points: RoutePoint[], order: number[]): number =>
+  order.reduce((total, index, position) =>
+    total + haversineKm(position === 0 ? start : points[order[position - 1]], points[index]), 0);
+
+const nearestNeighbour = (start: RoutePoint, points: RoutePoint[]): number[] => {
+  const remaining = new Set(points.map((_, index) => index));
+  const order: number[] = [];
+  let current = start;
+
+  while (remaining.size > 0) {
+    let nearest = -1;
+    let nearestKm = Infinity;
+    remaining.forEach(index => {
+      const km = haversineKm(current, points[index]);
+      if (km < nearestKm) {
+        nearest = index;
+        nearestKm = km;
+      }
+    });
+    order.push(nearest);
+    remaining.delete(nearest);
+    current = points[nearest];
+  }
+
+  return order;
+};
+
+// Reverse segments of the path while that makes it shorter. The start is fixed and the
+// run ends wherever the last stop is, so only the edges into each segment and out of it change.
+const twoOpt = (start: RoutePoint, points: RoutePoint[], initial: number[]): number[] => {
+  const order = [...initial];
+  const at = (position: number) => (position < 0 ? start : points[order[position]]);
+  let improved = true;
+
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < order.length - 1; i++) {
+      for (let j = i + 1; j < order.length; j++) {
+        const before = haversineKm(at(i - 1), at(i))
+          + (j + 1 < order.length ? haversineKm(at(j), at(j + 1)) : 0);
+        const after = haversineKm(at(i - 1), at(j))
+          + (j + 1 < order.length ? haversineKm(at(i), at(j + 1)) : 0);
+
+        if (after + 1e-9 < before) {
+          order.splice(i, j - i + 1, ...order.slice(i, j + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return order;
+};
+
+// Visiting order for points from start; works entirely on the device
+export const optimizeStops = (start: RoutePoint, points: RoutePoint[]): number[] => {
+  if (points.length < 2) return points.map((_, index) => index);
+  const order = twoOpt(start, points, nearestNeighbour(start, points));
+  console.log('🗺️ Optimized', points.length, 'stops:', pathKm(start, points, order).toFixed(1), 'km straight-line');
+  return order;
+};
+
+const normalizeAddress = (address: string) => address.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const readGeocodes = async (): Promise<Record<string, GeocodedPoint>> => {
+  try {
+    const raw = await AsyncStorage.getItem(GEOCODE_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (error) {
+    console.error('❌ Failed to read saved coordinates:', error);
+    return {};
+  }
+};
+
+// Coordinates for each address, from the device when it was looked up before. Addresses that
+// cannot be found are left out.
+export const geocodeAddresses = async (
+  addresses: string[],
+  onProgress?: (done: number, total: number) => void
+): Promise<Record<string, GeocodedPoint>> => {
+  const saved = await readGeocodes();
+  const unique = Array.from(new Set(addresses.map(normalizeAddress))).filter(Boolean);
+  const result: Record<string, GeocodedPoint> = {};
+  let changed = false;
+
+  for (let index = 0; index < unique.length; index++) {
+    const address = unique[index];
+    // Barangay centres are retried in case a search now finds the actual place
+    let point: GeocodedPoint | null = saved[address] || null;
+    if (!point || point.source === 'barangay') {
+      const found = await locationService.geocodeAddress(address);
+      if (found && (!point || found.source === 'search')) {
+        point = found;
+        saved[address] = found;
+        changed = true;
+      }
+    }
+    if (point) result[address] = point;
+    onProgress?.(index + 1, unique.length);
+  }
+
+  if (changed) {
+    try {
+      await AsyncStorage.setItem(GEOCODE_STORAGE_KEY, JSON.stringify(saved));
+    } catch (error) {
+      console.error('❌ Failed to save coordinates:', error);
+    }
+  }
+
+  return result;
+};
+
+export const estimateMinutes = (km: number, stops: number): number =>
+  Math.round((km / AVERAGE_SPEED_KMH) * 60 + stops * MINUTES_PER_STOP);
+
+// Geocode the stops and put them in visiting order from start
+export const planRoute = async <T>(
+  start: RoutePoint,
+  inputs: RouteStopInput<T>[],
+  onProgress?: (done: number, total: number) => void
+): Promise<PlannedRoute<T>> => {
+  const geocodes = await geocodeAddresses(inputs.map(input => input.address), onProgress);
+
+  const located = inputs.filter(input => geocodes[normalizeAddress(input.address)]);
+  const unlocated = inputs.filter(input => !geocodes[normalizeAddress(input.address)]);
+  const points = located.map(input => geocodes[normalizeAddress(input.address)]);
+
+  const order = optimizeStops(start, points);
+  let previous: RoutePoint = start;
+  const stops = order.map(index => {
+    const point = points[index];
+    const legKm = haversineKm(previous, point) * ROAD_FACTOR;
+    previous = point;
+    return { ...located[index], point, legKm };
+  });
+
+  const totalKm = stops.reduce((total, stop) => total + stop.legKm, 0);
+
+  return {
+    start,
+    stops,
+    unlocated,
+    totalKm,
+    totalMinutes: estimateMinutes(totalKm, stops.length + unlocated.length)
+  };
+};
+
+// Google Maps directions through the stops in order. Maps links take up to 9 waypoints, so
+// longer runs are cut at the tenth stop.
+export const getRouteMapsUrl = (start: RoutePoint, stops: RoutePoint[]): string | null => {
+  if (stops.length === 0) return null;
+  const visited = stops.slice(0, 10);
+  const format = (point: RoutePoint) => `${point.lat},${point.lon}`;
+  const params = new URLSearchParams({
+    api: '1',
+    origin: format(start),
+    destination: format(visited[visited.length - 1]),
+    travelmode: 'driving'
+  });
+  if (visited.length > 1) {
+    params.set('waypoints', visited.slice(0, -1).map(format).join('|'));
+  }
+  return `https://www.google.com/maps/dir/?${params.toString()}`;
+};
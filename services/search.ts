@@ -0,0 +1,113 @@
+import { supabase } from '../lib/supabase';
+
+export const SEARCH_PAGE_SIZE = 20;
+
+export type ProductSearchSort =
+  | 'relevance'
+  | 'newest'
+  | 'price-low'
+  | 'price-high'
+  | 'name'
+  | 'popular'
+  | 'rating'
+  | 'nearest';
+
+export interface ProductSearchParams {
+  query: string;
+  category?: string;
+  minPrice?: number | null;
+  maxPrice?: number | null;
+  inStockOnly?: boolean;
+  sortBy?: ProductSearchSort;
+  // Buyer's barangay, used to rank nearby farms higher
+  buyerBarangay?: string | null;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface ProductSearchResult {
+  id: string;
+  name: string;
+  description: string | null;
+  price: number;
+  unit: string;
+  quantity_available: number;
+  category: string;
+  image_url: string | null;
+  farmer_id: string;
+  created_at: string;
+  farm_name: string | null;
+  farmer_first_name: string | null;
+  farmer_last_name: string | null;
+  barangay: string | null;
+  rating: number | null;
+  rating_count: number;
+  order_count: number;
+  relevance: number;
+}
+
+export interface ProductSearchResponse {
+  results: ProductSearchResult[];
+  total: number;
+  // Matches per category before the category filter is applied, keyed by lower-cased category
+  categoryCounts: Record<string, number>;
+  hasMore: boolean;
+}
+
+// Search approved products via the search_products RPC (synonyms, typo tolerance and ranking are server-side)
+export const searchProducts = async (params: ProductSearchParams): Promise<ProductSearchResponse> => {
+  const page = params.page ?? 0;
+  const pageSize = params.pageSize ?? SEARCH_PAGE_SIZE;
+
+  try {
+    console.log('🔍 Searching products:', params.query, 'page', page);
+
+    const { data, error } = await (supabase as any).rpc('search_products', {
+      p_query: params.query.trim() || null,
+      p_category: params.category && params.category !== 'all' ? params.category : null,
+      p_min_price: params.minPrice ?? null,
+      p_max_price: params.maxPrice ?? null,
+      p_in_stock: params.inStockOnly ?? true,
+      p_sort: params.sortBy || 'relevance',
+      p_buyer_barangay: params.buyerBarangay || null,
+      p_limit: pageSize,
+      p_offset: page * pageSize,
+    });
+
+    if (error) throw error;
+
+    const rows: any[] = data || [];
+    const total = rows.length > 0 ? Number(rows[0].total_count) : 0;
+
+    const results: ProductSearchResult[] = rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      price: Number(row.price),
+      unit: row.unit,
+      quantity_available: row.quantity_available,
+      category: row.category,
+      image_url: row.image_url,
+      farmer_id: row.farmer_id,
+      created_at: row.created_at,
+      farm_name: row.farm_name,
+      farmer_first_name: row.farmer_first_name,
+      farmer_last_name: row.farmer_last_name,
+      barangay: row.barangay,
+      rating: row.rating !== null ? Number(row.rating) : null,
+      rating_count: row.rating_count || 0,
+      order_count: row.order_count || 0,
+      relevance: row.relevance || 0,
+    }));
+
+    return {
+      results,
+      total,
+      categoryCounts: rows.length > 0 ? rows[0].category_counts || {} : {},
+      hasMore: (page + 1) * pageSize < total,
+    };
+  } catch (error) {
+    console.error('❌ Product search failed:', error);
+    throw error;
+  }
+};
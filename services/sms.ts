@@ -0,0 +1,118 @@
+import { supabase } from '../lib/supabase';
+
+// SMS simulator for super admins. Messages go through the sms-inbound edge function exactly as a
+// carrier's would, and replies are read back from the stub gateway's outbox, so the whole
+// reply-by-SMS loop can be tried without a carrier. See supabase/migrations/20261019064059_create_sms_commands.sql.
+
+export type InboundSmsStatus = 'received' | 'applied' | 'rejected' | 'ignored';
+
+export interface InboundSms {
+  id: string;
+  from_phone: string;
+  body: string;
+  sender_id: string | null;
+  command: string | null;
+  status: InboundSmsStatus;
+  error: string | null;
+  simulated: boolean;
+  received_at: string;
+  processed_at: string | null;
+}
+
+export interface StubOutboxMessage {
+  id: string;
+  queue_id: string | null;
+  phone: string;
+  message: string;
+  created_at: string;
+}
+
+// One line of a simulated conversation, oldest first
+export interface SmsConversationEntry {
+  id: string;
+  direction: 'inbound' | 'outbound';
+  text: string;
+  at: string;
+  inbound?: InboundSms;
+}
+
+export const SMS_COMMAND_EXAMPLES = [
+  'OK FG-2025-A3B7K9',
+  'NO FG-2025-A3B7K9 Out of stock',
+  'STOCK tomatoes 25',
+  'HELP'
+];
+
+// Same rules as supabase/functions/_shared/phone.ts
+export const normalizePhilippineMobile = (phone: string): string | null => {
+  const digits = phone.replace(/\D/g, '');
+  if (/^09\d{9}$/.test(digits)) return `+63${digits.substring(1)}`;
+  if (/^9\d{9}$/.test(digits)) return `+63${digits}`;
+  if (/^639\d{9}$/.test(digits)) return `+${digits}`;
+  return null;
+};
+
+// Send a text as if it came from `from`
+export const simulateInboundSms = async (from: string, message: string): Promise<Partial<InboundSms>> => {
+  console.log('📱 Simulating inbound SMS from:', from);
+
+  const { data, error } = await supabase.functions.invoke('sms-inbound', {
+    body: { simulate: true, from, message }
+  });
+
+  if (error) {
+    throw new Error(error.message || 'SMS service unavailable');
+  }
+  if (!data?.success) {
+    throw new Error(data?.error || 'Inbound SMS failed');
+  }
+
+  return data as Partial<InboundSms>;
+};
+
+export const getSmsConversation = async (phone: string, limit = 50): Promise<SmsConversationEntry[]> => {
+  const normalized = normalizePhilippineMobile(phone);
+  if (!normalized) return [];
+
+  const [inbound, outbound] = await Promise.all([
+    (supabase as any)
+      .from('sms_inbound_messages')
+      .select('*')
+      .eq('from_phone', normalized)
+      .order('received_at', { ascending: false })
+      .limit(limit),
+    (supabase as any)
+      .from('sms_stub_outbox')
+      .select('*')
+      .eq('phone', normalized)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+  ]);
+
+  if (inbound.error) {
+    console.error('❌ Error fetching inbound SMS:', inbound.error);
+    throw inbound.error;
+  }
+  if (outbound.error) {
+    console.error('❌ Error fetching SMS outbox:', outbound.error);
+    throw outbound.error;
+  }
+
+  const entries: SmsConversationEntry[] = [
+    ...((inbound.data || []) as InboundSms[]).map(row => ({
+      id: row.id,
+      direction: 'inbound' as const,
+      text: row.body,
+      at: row.received_at,
+      inbound: row
+    })),
+    ...((outbound.data || []) as StubOutboxMessage[]).map(row => ({
+      id: row.id,
+      direction: 'outbound' as const,
+      text: row.message,
+      at: row.created_at
+    }))
+  ];
+
+  return entries.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+};
@@ -0,0 +1,8 @@
+// Philippine mobile numbers in any common form (0917..., 917..., 63917..., +63 917 ...) to E.164
+export const normalizePhilippineMobile = (phone: string | null | undefined) => {
+  const digits = (phone ?? '').replace(/\D/g, '')
+  if (/^09\d{9}$/.test(digits)) return `+63${digits.substring(1)}`
+  if (/^9\d{9}$/.test(digits)) return `+63${digits}`
+  if (/^639\d{9}$/.test(digits)) return `+${digits}`
+  return null
+}
@@ -0,0 +1,442 @@
+// Edge Function to create, restore and prune database backups
+// Backups are NDJSON archives in the `backups` storage bucket:
+//   line 1:  {"format":"farm2go-backup","version":2,"created_at":...,"tables":{"profiles":120,...}}
+//   line 2+: {"table":"profiles","row":{...}}
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.95.0'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers':
+    'authorization, x-client-info, apikey, content-type, prefer, x-backup-secret',
+}
+
+const BACKUP_FORMAT = 'farm2go-backup'
+// Version 2 archives every table that references a backed-up row, not just the main seven
+const BACKUP_VERSION = 2
+const BACKUP_BUCKET = 'backups'
+const PAGE_SIZE = 1000
+
+interface BackupTableConfig {
+  name: string
+  // Primary key, when it isn't `id`
+  key?: string[]
+  // Backed-up tables this one points at
+  references?: string[]
+}
+
+// Parents before children; restore_backup_tables (20261019045556_create_backups.sql) deletes in
+// reverse and upserts in this order
+const BACKUP_TABLES: BackupTableConfig[] = [
+  { name: 'profiles' },
+  { name: 'admin_barangays', key: ['admin_id', 'barangay'], references: ['profiles'] },
+  { name: 'notification_preferences', key: ['user_id'], references: ['profiles'] },
+  { name: 'delivery_slots', references: ['profiles'] },
+  { name: 'products', references: ['profiles'] },
+  { name: 'product_variants', references: ['products'] },
+  { name: 'product_price_tiers', references: ['products', 'product_variants'] },
+  { name: 'product_images', references: ['products'] },
+  { name: 'product_price_history', references: ['products', 'profiles'] },
+  { name: 'harvests', references: ['products', 'product_variants', 'profiles'] },
+  { name: 'orders', references: ['profiles', 'products', 'delivery_slots'] },
+  { name: 'order_items', references: ['orders', 'products', 'product_variants'] },
+  { name: 'order_status_history', references: ['orders', 'profiles'] },
+  { name: 'purchase_code_scans', references: ['orders', 'profiles'] },
+  { name: 'transactions', references: ['orders', 'refund_requests'] },
+  // Matched to transactions by provider_reference rather than a foreign key
+  { name: 'payment_events', references: ['transactions'] },
+  { name: 'refund_requests', references: ['orders', 'profiles', 'transactions'] },
+  { name: 'refund_request_items', references: ['products', 'refund_requests'] },
+  { name: 'preorders', references: ['harvests', 'orders', 'profiles'] },
+  { name: 'product_reviews', references: ['orders', 'products', 'profiles'] },
+  { name: 'product_review_votes', key: ['review_id', 'user_id'], references: ['product_reviews', 'profiles'] },
+  { name: 'cart_items', references: ['products', 'product_variants', 'profiles'] },
+  { name: 'payout_fee_rules', references: ['profiles'] },
+  { name: 'farmer_payouts', references: ['profiles'] },
+  { name: 'farmer_ledger_entries', references: ['farmer_payouts', 'orders', 'payout_fee_rules', 'profiles', 'transactions'] },
+  { name: 'messages', references: ['profiles'] },
+  { name: 'notifications', references: ['profiles'] },
+  { name: 'notification_digest_items', references: ['profiles'] },
+  { name: 'sms_notification_queue', references: ['profiles'] },
+  { name: 'sms_stub_outbox', references: ['sms_notification_queue'] },
+  { name: 'sms_inbound_messages', references: ['profiles'] },
+  { name: 'product_image_orphans', key: ['storage_path'], references: ['profiles'] },
+  { name: 'error_logs', references: ['profiles'] },
+  { name: 'verification_submissions', references: ['profiles'] },
+]
+
+const tableKey = (table: string) => BACKUP_TABLES.find((t) => t.name === table)?.key ?? ['id']
+
+// The picked tables plus everything that references them, in backup order. Foreign keys aren't
+// checked during a restore, so a table never comes back without the rows pointing at it.
+const withReferencingTables = (tables: string[]) => {
+  const included = new Set(tables)
+  let grew = true
+  while (grew) {
+    grew = false
+    for (const table of BACKUP_TABLES) {
+      if (!included.has(table.name) && table.references?.some((parent) => included.has(parent))) {
+        included.add(table.name)
+        grew = true
+      }
+    }
+  }
+  return BACKUP_TABLES.map((table) => table.name).filter((name) => included.has(name))
+}
+
+// Keep this many automatic backups; manual backups are only removed by hand
+const AUTOMATIC_RETENTION = Number(Deno.env.get('BACKUP_RETENTION_COUNT') ?? '14')
+
+type BackupType = 'manual' | 'automatic'
+
+interface BackupHeader {
+  format: string
+  version: number
+  created_at: string
+  tables: Record<string, number>
+}
+
+interface TableDiff {
+  table: string
+  inserted: number
+  updated: number
+  deleted: number
+  unchanged: number
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+// Read a whole table in pages so large tables stay within response limits
+const fetchAllRows = async (supabase: SupabaseClient, table: string) => {
+  const rows: Record<string, unknown>[] = []
+  let from = 0
+
+  while (true) {
+    let query = supabase.from(table).select('*')
+    for (const column of tableKey(table)) {
+      query = query.order(column, { ascending: true })
+    }
+    const { data, error } = await query.range(from, from + PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to read ${table}: ${error.message}`)
+    }
+
+    rows.push(...(data ?? []))
+    if (!data || data.length < PAGE_SIZE) break
+    from += PAGE_SIZE
+  }
+
+  return rows
+}
+
+const createBackup = async (supabase: SupabaseClient, type: BackupType, createdBy: string | null) => {
+  const createdAt = new Date()
+  const stamp = createdAt.toISOString().replace(/[:.]/g, '-')
+  const storagePath = `${type}/${stamp}.ndjson`
+  const name = `${type === 'automatic' ? 'Daily' : 'Manual'} Backup - ${createdAt.toISOString().slice(0, 10)}`
+
+  const { data: record, error: recordError } = await supabase
+    .from('backups')
+    .insert({
+      name,
+      type,
+      status: 'in_progress',
+      storage_path: storagePath,
+      format_version: BACKUP_VERSION,
+      created_by: createdBy,
+    })
+    .select()
+    .single()
+
+  if (recordError || !record) {
+    throw new Error(`Failed to create backup record: ${recordError?.message}`)
+  }
+
+  try {
+    const lines: string[] = []
+    const counts: Record<string, number> = {}
+
+    for (const { name: table } of BACKUP_TABLES) {
+      const rows = await fetchAllRows(supabase, table)
+      counts[table] = rows.length
+      for (const row of rows) {
+        lines.push(JSON.stringify({ table, row }))
+      }
+    }
+
+    const header: BackupHeader = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      created_at: createdAt.toISOString(),
+      tables: counts,
+    }
+
+    const body = new TextEncoder().encode([JSON.stringify(header), ...lines].join('\n') + '\n')
+
+    const { error: uploadError } = await supabase.storage
+      .from(BACKUP_BUCKET)
+      .upload(storagePath, body, { contentType: 'application/x-ndjson', upsert: false })
+
+    if (uploadError) {
+      throw new Error(`Failed to upload archive: ${uploadError.message}`)
+    }
+
+    const { data: completed } = await supabase
+      .from('backups')
+      .update({
+        status: 'completed',
+        size_bytes: body.byteLength,
+        table_counts: counts,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', record.id)
+      .select()
+      .single()
+
+    return completed ?? record
+  } catch (error) {
+    await supabase
+      .from('backups')
+      .update({
+        status: 'failed',
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', record.id)
+    throw error
+  }
+}
+
+// Drop automatic backups beyond the retention limit, oldest first
+const pruneAutomaticBackups = async (supabase: SupabaseClient) => {
+  const { data: expired } = await supabase
+    .from('backups')
+    .select('id, storage_path')
+    .eq('type', 'automatic')
+    .order('created_at', { ascending: false })
+    .range(AUTOMATIC_RETENTION, AUTOMATIC_RETENTION + 100)
+
+  if (!expired || expired.length === 0) return 0
+
+  await supabase.storage.from(BACKUP_BUCKET).remove(expired.map((b) => b.storage_path))
+  await supabase.from('backups').delete().in('id', expired.map((b) => b.id))
+
+  return expired.length
+}
+
+const readArchive = async (supabase: SupabaseClient, storagePath: string) => {
+  const { data, error } = await supabase.storage.from(BACKUP_BUCKET).download(storagePath)
+  if (error || !data) {
+    throw new Error(`Failed to download archive: ${error?.message}`)
+  }
+
+  const lines = (await data.text()).split('\n').filter((line) => line.trim().length > 0)
+  const header = JSON.parse(lines[0]) as BackupHeader
+
+  if (header.format !== BACKUP_FORMAT) {
+    throw new Error('Not a Farm2Go backup archive')
+  }
+  if (header.version > BACKUP_VERSION) {
+    throw new Error(`Backup version ${header.version} is newer than this server supports`)
+  }
+
+  const rowsByTable: Record<string, Record<string, unknown>[]> = {}
+  for (const line of lines.slice(1)) {
+    const { table, row } = JSON.parse(line)
+    ;(rowsByTable[table] ??= []).push(row)
+  }
+
+  return { header, rowsByTable }
+}
+
+const sameRow = (a: Record<string, unknown>, b: Record<string, unknown>) =>
+  JSON.stringify(a, Object.keys(a).sort()) === JSON.stringify(b, Object.keys(b).sort())
+
+const diffTable = (
+  table: string,
+  backupRows: Record<string, unknown>[],
+  currentRows: Record<string, unknown>[]
+): TableDiff => {
+  const key = tableKey(table)
+  const rowKey = (row: Record<string, unknown>) => JSON.stringify(key.map((column) => row[column]))
+
+  const current = new Map(currentRows.map((row) => [rowKey(row), row]))
+  const inBackup = new Set<string>()
+  let inserted = 0
+  let updated = 0
+  let unchanged = 0
+
+  for (const row of backupRows) {
+    const id = rowKey(row)
+    inBackup.add(id)
+    const existing = current.get(id)
+    if (!existing) inserted++
+    else if (sameRow(existing, row)) unchanged++
+    else updated++
+  }
+
+  const deleted = currentRows.filter((row) => !inBackup.has(rowKey(row))).length
+
+  return { table, inserted, updated, deleted, unchanged }
+}
+
+const restoreBackup = async (
+  supabase: SupabaseClient,
+  backupId: string,
+  tables: string[],
+  dryRun: boolean
+) => {
+  const { data: backup, error } = await supabase
+    .from('backups')
+    .select('*')
+    .eq('id', backupId)
+    .single()
+
+  if (error || !backup) {
+    throw new Error('Backup not found')
+  }
+  if (backup.status !== 'completed') {
+    throw new Error('Only completed backups can be restored')
+  }
+
+  const picked = BACKUP_TABLES.filter((table) => tables.includes(table.name)).map((table) => table.name)
+  if (picked.length === 0) {
+    throw new Error('Select at least one table to restore')
+  }
+  const selected = withReferencingTables(picked)
+
+  const { header, rowsByTable } = await readArchive(supabase, backup.storage_path)
+
+  // Restoring without them would delete every row of the missing tables
+  const missing = selected.filter((table) => !(table in header.tables))
+  if (missing.length > 0) {
+    throw new Error(`This backup predates ${missing.join(', ')} and can't restore the selected tables`)
+  }
+  const diffs: TableDiff[] = []
+
+  for (const table of selected) {
+    const currentRows = await fetchAllRows(supabase, table)
+    diffs.push(diffTable(table, rowsByTable[table] ?? [], currentRows))
+  }
+
+  if (!dryRun) {
+    // One database transaction with triggers off: deletes run children first, upserts parents
+    // first, and any failure rolls the whole restore back
+    const rows: Record<string, Record<string, unknown>[]> = {}
+    for (const table of selected) {
+      rows[table] = rowsByTable[table] ?? []
+    }
+
+    const { error: restoreError } = await supabase.rpc('restore_backup_tables', {
+      p_tables: selected,
+      p_rows: rows,
+    })
+    if (restoreError) {
+      throw new Error(`Failed to restore backup: ${restoreError.message}`)
+    }
+
+    await supabase
+      .from('backups')
+      .update({ last_restored_at: new Date().toISOString() })
+      .eq('id', backupId)
+  }
+
+  return { dryRun, diffs }
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    )
+
+    const { action, backupId, tables, dryRun } = await req.json()
+
+    // Scheduled runs authenticate with a shared secret instead of a user session
+    const cronSecret = Deno.env.get('BACKUP_CRON_SECRET')
+    const isScheduled = !!cronSecret && req.headers.get('x-backup-secret') === cronSecret
+
+    let callerId: string | null = null
+    if (!isScheduled) {
+      const authHeader = req.headers.get('Authorization')
+      if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        throw new Error('Missing or invalid authorization header')
+      }
+
+      const {
+        data: { user },
+        error: authError,
+      } = await supabaseAdmin.auth.getUser(authHeader.replace('Bearer ', '').trim())
+
+      if (authError || !user) {
+        throw new Error('Unauthorized')
+      }
+
+      const { data: profile } = await supabaseAdmin
+        .from('profiles')
+        .select('user_type')
+        .eq('id', user.id)
+        .single()
+
+      if (profile?.user_type !== 'super-admin') {
+        throw new Error('Only super admins can manage backups')
+      }
+
+      callerId = user.id
+    }
+
+    switch (action) {
+      case 'create': {
+        const type: BackupType = isScheduled ? 'automatic' : 'manual'
+        const backup = await createBackup(supabaseAdmin, type, callerId)
+        const pruned = type === 'automatic' ? await pruneAutomaticBackups(supabaseAdmin) : 0
+        return jsonResponse({ success: true, backup, pruned })
+      }
+
+      case 'restore': {
+        if (isScheduled) {
+          throw new Error('Scheduled jobs cannot restore backups')
+        }
+        if (!backupId || !Array.isArray(tables)) {
+          throw new Error('backupId and tables are required')
+        }
+        const result = await restoreBackup(supabaseAdmin, backupId, tables, dryRun !== false)
+        return jsonResponse({ success: true, ...result })
+      }
+
+      default:
+        throw new Error(`Unknown action: ${action}`)
+    }
+  } catch (error) {
+    console.error('❌ Backup function error:', error)
+    return jsonResponse(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      400
+    )
+  }
+})
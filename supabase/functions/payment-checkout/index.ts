@@ -0,0 +1,172 @@
+// Edge Function to start an e-wallet (GCash / Maya) checkout with the payment gateway (PayMongo)
+// Request:  { provider: 'gcash' | 'maya', transactionIds: string[], returnUrl: string }
+// Response: { success: true, reference, checkoutUrl }
+// The buyer pays on the gateway's page; payment-webhook settles the transactions afterwards.
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.95.0'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers':
+    'authorization, x-client-info, apikey, content-type, prefer',
+}
+
+const GATEWAY_API_URL = 'https://api.paymongo.com/v1'
+
+// Gateway names for our providers
+const GATEWAY_PAYMENT_TYPES: Record<string, string> = {
+  gcash: 'gcash',
+  maya: 'paymaya',
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const gatewaySecret = Deno.env.get('PAYMONGO_SECRET_KEY')
+    if (!gatewaySecret) {
+      throw new Error('E-wallet payments are not configured')
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    )
+
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      throw new Error('Missing or invalid authorization header')
+    }
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabaseAdmin.auth.getUser(authHeader.replace('Bearer ', '').trim())
+
+    if (authError || !user) {
+      throw new Error('Unauthorized')
+    }
+
+    const { provider, transactionIds, returnUrl } = await req.json()
+
+    const paymentType = GATEWAY_PAYMENT_TYPES[provider]
+    if (!paymentType) {
+      throw new Error(`Unsupported payment provider: ${provider}`)
+    }
+    if (!Array.isArray(transactionIds) || transactionIds.length === 0) {
+      throw new Error('transactionIds are required')
+    }
+
+    const { data: transactions, error: txError } = await supabaseAdmin
+      .from('transactions')
+      .select('id, amount, status, payment_method, orders:order_id (id, buyer_id, purchase_code)')
+      .in('id', transactionIds)
+
+    if (txError) {
+      throw new Error(`Failed to load transactions: ${txError.message}`)
+    }
+    if (!transactions || transactions.length !== transactionIds.length) {
+      throw new Error('Some transactions were not found')
+    }
+
+    for (const tx of transactions as any[]) {
+      if (tx.orders?.buyer_id !== user.id) {
+        throw new Error('You can only pay for your own orders')
+      }
+      if (tx.payment_method !== provider) {
+        throw new Error('Transaction uses a different payment method')
+      }
+      if (tx.status !== 'pending' && tx.status !== 'failed') {
+        throw new Error('Transaction is already settled')
+      }
+    }
+
+    // Our reference ties the gateway's events back to these transactions
+    const reference = `F2G-${Date.now()}-${crypto.randomUUID().slice(0, 8).toUpperCase()}`
+    const lineItems = (transactions as any[]).map((tx) => ({
+      name: `Farm2Go order ${tx.orders?.purchase_code || tx.orders?.id?.slice(0, 8)}`,
+      quantity: 1,
+      currency: 'PHP',
+      amount: Math.round(Number(tx.amount) * 100), // centavos
+    }))
+
+    const gatewayResponse = await fetch(`${GATEWAY_API_URL}/checkout_sessions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Basic ${btoa(`${gatewaySecret}:`)}`,
+      },
+      body: JSON.stringify({
+        data: {
+          attributes: {
+            line_items: lineItems,
+            payment_method_types: [paymentType],
+            reference_number: reference,
+            description: 'Farm2Go order payment',
+            success_url: returnUrl,
+            cancel_url: returnUrl,
+            send_email_receipt: false,
+            metadata: { reference },
+          },
+        },
+      }),
+    })
+
+    const gatewayBody = await gatewayResponse.json()
+    if (!gatewayResponse.ok) {
+      const detail = gatewayBody?.errors?.[0]?.detail || gatewayResponse.statusText
+      throw new Error(`Payment gateway error: ${detail}`)
+    }
+
+    const checkoutUrl = gatewayBody.data?.attributes?.checkout_url
+    if (!checkoutUrl) {
+      throw new Error('Payment gateway did not return a checkout URL')
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from('transactions')
+      .update({
+        status: 'pending',
+        provider_reference: reference,
+        checkout_url: checkoutUrl,
+        failure_reason: null,
+        updated_at: new Date().toISOString(),
+      })
+      .in('id', transactionIds)
+
+    if (updateError) {
+      throw new Error(`Failed to record checkout: ${updateError.message}`)
+    }
+
+    return jsonResponse({ success: true, reference, checkoutUrl })
+  } catch (error) {
+    console.error('❌ Payment checkout error:', error)
+    return jsonResponse(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      400
+    )
+  }
+})
@@ -0,0 +1,181 @@
+// Edge Function receiving payment gateway (PayMongo) webhooks
+// Verifies the Paymongo-Signature header, then hands the outcome to apply_payment_event,
+// which records the event once and moves the matching transactions to completed, failed or refunded.
+// Deploy with --no-verify-jwt: the gateway does not send a Supabase token.
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.95.0'
+
+// Reject events signed more than this long ago (replays)
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60
+
+// Gateway payment type -> our provider
+const PROVIDERS_BY_PAYMENT_TYPE: Record<string, string> = {
+  gcash: 'gcash',
+  paymaya: 'maya',
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { 'Content-Type': 'application/json' },
+    status,
+  })
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+
+// Constant-time comparison so the signature can't be guessed byte by byte
+const safeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+// Header format: t=<unix seconds>,te=<test signature>,li=<live signature>
+const verifySignature = async (header: string | null, rawBody: string, secret: string) => {
+  if (!header) return false
+
+  const parts = Object.fromEntries(
+    header.split(',').map((part) => {
+      const [key, ...rest] = part.split('=')
+      return [key.trim(), rest.join('=').trim()]
+    })
+  )
+
+  const timestamp = Number(parts.t)
+  if (!timestamp || Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false
+  }
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const expected = toHex(
+    await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${parts.t}.${rawBody}`))
+  )
+
+  const provided = parts.li || parts.te || ''
+  return safeEqual(expected, provided)
+}
+
+interface PaymentOutcome {
+  provider: string
+  reference: string
+  status: 'completed' | 'failed' | 'refunded'
+  amount: number | null
+  failureReason: string | null
+}
+
+// Translate a gateway event into our outcome; null for events we don't act on
+const parseEvent = (type: string, resource: any): PaymentOutcome | null => {
+  const attributes = resource?.attributes ?? {}
+
+  switch (type) {
+    case 'checkout_session.payment.paid': {
+      const payment = attributes.payments?.[0]?.attributes ?? {}
+      return {
+        provider: PROVIDERS_BY_PAYMENT_TYPE[payment.source?.type ?? attributes.payment_method_used] ?? '',
+        reference: attributes.reference_number ?? attributes.metadata?.reference ?? '',
+        status: 'completed',
+        amount: typeof payment.amount === 'number' ? payment.amount / 100 : null,
+        failureReason: null,
+      }
+    }
+
+    case 'payment.failed':
+    case 'payment.refunded': {
+      return {
+        provider: PROVIDERS_BY_PAYMENT_TYPE[attributes.source?.type] ?? '',
+        reference: attributes.metadata?.reference ?? attributes.external_reference_number ?? '',
+        status: type === 'payment.failed' ? 'failed' : 'refunded',
+        amount: typeof attributes.amount === 'number' ? attributes.amount / 100 : null,
+        failureReason: attributes.failed_message ?? attributes.failed_code ?? null,
+      }
+    }
+
+    default:
+      return null
+  }
+}
+
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const webhookSecret = Deno.env.get('PAYMONGO_WEBHOOK_SECRET')
+    if (!webhookSecret) {
+      throw new Error('Payment webhook is not configured')
+    }
+
+    const rawBody = await req.text()
+    const signatureValid = await verifySignature(
+      req.headers.get('Paymongo-Signature'),
+      rawBody,
+      webhookSecret
+    )
+    if (!signatureValid) {
+      return jsonResponse({ success: false, error: 'Invalid signature' }, 401)
+    }
+
+    const event = JSON.parse(rawBody)?.data
+    const type = event?.attributes?.type
+    const outcome = parseEvent(type, event?.attributes?.data)
+
+    if (!outcome) {
+      console.log('ℹ️ Ignoring payment event:', type)
+      return jsonResponse({ success: true, result: 'ignored' })
+    }
+    if (!outcome.provider || !outcome.reference) {
+      console.warn('⚠️ Payment event without provider or reference:', event?.id, type)
+      return jsonResponse({ success: true, result: 'ignored' })
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    )
+
+    const { data: result, error } = await supabaseAdmin.rpc('apply_payment_event', {
+      p_provider: outcome.provider,
+      p_event_id: event.id,
+      p_provider_reference: outcome.reference,
+      p_status: outcome.status,
+      p_amount: outcome.amount,
+      p_failure_reason: outcome.failureReason,
+      p_payload: event,
+    })
+
+    if (error) {
+      throw new Error(`Failed to apply payment event: ${error.message}`)
+    }
+
+    console.log('✅ Payment event', event.id, type, '→', result)
+    return jsonResponse({ success: true, result })
+  } catch (error) {
+    // A 5xx makes the gateway retry; apply_payment_event ignores the duplicates
+    console.error('❌ Payment webhook error:', error)
+    return jsonResponse(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    )
+  }
+})
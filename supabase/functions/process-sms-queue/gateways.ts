@@ -0,0 +1,119 @@
+// SMS gateways. SMS_GATEWAY picks one:
+//   stub       writes to sms_stub_outbox; numbers ending in 0000 fail, to exercise retries
+//   semaphore  Semaphore (semaphore.co), needs SEMAPHORE_API_KEY and optionally SEMAPHORE_SENDER_NAME
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.95.0'
+
+export type DeliveryStatus = 'sent' | 'delivered' | 'failed'
+
+export interface SendResult {
+  providerMessageId: string | null
+  // 'delivered' when the gateway confirms delivery straight away
+  status: DeliveryStatus
+}
+
+export interface SmsGateway {
+  name: string
+  // phone is E.164, e.g. +639171234567
+  send: (phone: string, message: string, queueId: string) => Promise<SendResult>
+  // Where a sent message is now; null if the gateway can't tell yet
+  checkStatus?: (providerMessageId: string) => Promise<{ status: DeliveryStatus; error?: string } | null>
+}
+
+// Thrown for failures a later attempt can't fix, e.g. a rejected number
+export class PermanentSmsError extends Error {}
+
+const createStubGateway = (supabase: SupabaseClient): SmsGateway => ({
+  name: 'stub',
+
+  send: async (phone, message, queueId) => {
+    if (phone.endsWith('0000')) {
+      throw new Error('Stub gateway: simulated carrier failure')
+    }
+
+    const { data, error } = await supabase
+      .from('sms_stub_outbox')
+      .insert({ queue_id: queueId, phone, message })
+      .select('id')
+      .single()
+
+    if (error) {
+      throw new Error(`Stub gateway: ${error.message}`)
+    }
+
+    console.log(`📱 [stub] SMS to ${phone}: ${message}`)
+    return { providerMessageId: data.id, status: 'sent' }
+  },
+
+  // The stub "delivers" everything it accepted
+  checkStatus: async () => ({ status: 'delivered' }),
+})
+
+const SEMAPHORE_API = 'https://api.semaphore.co/api/v4/messages'
+
+const createSemaphoreGateway = (apiKey: string, senderName?: string): SmsGateway => ({
+  name: 'semaphore',
+
+  send: async (phone, message) => {
+    const response = await fetch(SEMAPHORE_API, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        apikey: apiKey,
+        number: phone.replace(/^\+/, ''),
+        message,
+        ...(senderName ? { sendername: senderName } : {}),
+      }),
+    })
+
+    const body = await response.json().catch(() => null)
+
+    if (!response.ok) {
+      const detail = body ? JSON.stringify(body) : response.statusText
+      // Server errors and rate limits are worth retrying; anything else is a bad request
+      if (response.status >= 500 || response.status === 429) {
+        throw new Error(`Semaphore ${response.status}: ${detail}`)
+      }
+      throw new PermanentSmsError(`Semaphore ${response.status}: ${detail}`)
+    }
+
+    const sent = Array.isArray(body) ? body[0] : body
+    if (!sent?.message_id) {
+      throw new Error(`Semaphore: unexpected response ${JSON.stringify(body)}`)
+    }
+
+    return { providerMessageId: String(sent.message_id), status: 'sent' }
+  },
+
+  // Semaphore has no delivery callbacks, so sent messages are polled
+  checkStatus: async (providerMessageId) => {
+    const response = await fetch(`${SEMAPHORE_API}/${providerMessageId}?apikey=${encodeURIComponent(apiKey)}`)
+    if (!response.ok) return null
+
+    const body = await response.json().catch(() => null)
+    const status = String((Array.isArray(body) ? body[0] : body)?.status || '').toLowerCase()
+
+    if (status === 'sent') return { status: 'delivered' }
+    if (status === 'failed' || status === 'refunded') return { status: 'failed', error: `Semaphore status: ${status}` }
+    return null
+  },
+})
+
+export const getSmsGateway = (supabase: SupabaseClient): SmsGateway => {
+  const gateway = (Deno.env.get('SMS_GATEWAY') ?? 'stub').toLowerCase()
+
+  switch (gateway) {
+    case 'stub':
+      return createStubGateway(supabase)
+
+    case 'semaphore': {
+      const apiKey = Deno.env.get('SEMAPHORE_API_KEY')
+      if (!apiKey) {
+        throw new Error('SEMAPHORE_API_KEY environment variable is required')
+      }
+      return createSemaphoreGateway(apiKey, Deno.env.get('SEMAPHORE_SENDER_NAME') ?? undefined)
+    }
+
+    default:
+      throw new Error(`Unknown SMS_GATEWAY: ${gateway}`)
+  }
+}
@@ -0,0 +1,349 @@
+// Edge Function to send queued SMS notifications (sms_notification_queue) and track delivery.
+// Runs every minute from pg_cron (see supabase/migrations/20261019063707_create_sms_queue.sql); admins can
+// also run it by hand. Each run:
+//   1. puts rows stuck in 'sending' by a crashed run back in the queue
+//   2. sends due rows through the gateway chosen by SMS_GATEWAY, retrying failures with backoff
+//   3. asks the gateway what happened to recently sent messages
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.95.0'
+import { normalizePhilippineMobile } from '../_shared/phone.ts'
+import { getSmsGateway, PermanentSmsError, SmsGateway } from './gateways.ts'
+import { renderSmsMessage, SmsLanguage } from './templates.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers':
+    'authorization, x-client-info, apikey, content-type, x-sms-secret',
+}
+
+const BATCH_SIZE = 50
+
+// Retry after 2, 4, 8... minutes
+const RETRY_BASE_MS = 2 * 60 * 1000
+
+// A run that has not finished sending by then has crashed
+const STUCK_AFTER_MS = 10 * 60 * 1000
+
+// Stop asking about messages the gateway never confirmed
+const DELIVERY_CHECK_WINDOW_MS = 48 * 60 * 60 * 1000
+
+interface QueueItem {
+  id: string
+  recipient_id: string
+  notification_type: string
+  template_data: Record<string, unknown>
+  attempts: number
+  max_attempts: number
+}
+
+interface RunSummary {
+  sent: number
+  retrying: number
+  failed: number
+  delivered: number
+  undelivered: number
+  recovered: number
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+const updateQueueItem = async (
+  supabase: SupabaseClient,
+  id: string,
+  changes: Record<string, unknown>
+) => {
+  const { error } = await supabase
+    .from('sms_notification_queue')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id)
+
+  if (error) {
+    console.error('❌ Error updating SMS queue item:', id, error)
+  }
+}
+
+const recoverStuckItems = async (supabase: SupabaseClient) => {
+  const { data, error } = await supabase
+    .from('sms_notification_queue')
+    .update({ status: 'pending', updated_at: new Date().toISOString() })
+    .eq('status', 'sending')
+    .lt('updated_at', new Date(Date.now() - STUCK_AFTER_MS).toISOString())
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to recover stuck SMS: ${error.message}`)
+  }
+  return data?.length ?? 0
+}
+
+// Claim due rows so an overlapping run doesn't send them twice
+const claimDueItems = async (supabase: SupabaseClient): Promise<QueueItem[]> => {
+  const { data: due, error } = await supabase
+    .from('sms_notification_queue')
+    .select('id')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(BATCH_SIZE)
+
+  if (error) {
+    throw new Error(`Failed to read the SMS queue: ${error.message}`)
+  }
+  if (!due || due.length === 0) return []
+
+  const { data: claimed, error: claimError } = await supabase
+    .from('sms_notification_queue')
+    .update({ status: 'sending', updated_at: new Date().toISOString() })
+    .in('id', due.map(item => item.id))
+    .eq('status', 'pending')
+    .select('id, recipient_id, notification_type, template_data, attempts, max_attempts')
+
+  if (claimError) {
+    throw new Error(`Failed to claim SMS: ${claimError.message}`)
+  }
+  return (claimed ?? []) as QueueItem[]
+}
+
+// Phone numbers and SMS languages for everyone in the batch
+const loadRecipients = async (supabase: SupabaseClient, recipientIds: string[]) => {
+  const [profiles, preferences] = await Promise.all([
+    supabase.from('profiles').select('id, phone').in('id', recipientIds),
+    supabase.from('notification_preferences').select('user_id, sms_language').in('user_id', recipientIds),
+  ])
+
+  if (profiles.error) {
+    throw new Error(`Failed to load phone numbers: ${profiles.error.message}`)
+  }
+
+  const phones = new Map<string, string | null>()
+  const languages = new Map<string, SmsLanguage>()
+  ;(profiles.data ?? []).forEach(row => phones.set(row.id, row.phone))
+  ;(preferences.data ?? []).forEach(row => languages.set(row.user_id, row.sms_language === 'fil' ? 'fil' : 'en'))
+
+  return { phones, languages }
+}
+
+const sendQueueItem = async (
+  supabase: SupabaseClient,
+  gateway: SmsGateway,
+  item: QueueItem,
+  rawPhone: string | null | undefined,
+  language: SmsLanguage,
+  summary: RunSummary
+) => {
+  const attempts = item.attempts + 1
+  const phone = normalizePhilippineMobile(rawPhone)
+
+  if (!phone) {
+    await updateQueueItem(supabase, item.id, {
+      status: 'failed',
+      attempts,
+      language,
+      last_error: 'No valid mobile number on the profile',
+    })
+    summary.failed++
+    return
+  }
+
+  const message = renderSmsMessage(item.notification_type, language, item.template_data ?? {})
+
+  if (!message) {
+    await updateQueueItem(supabase, item.id, {
+      status: 'failed',
+      attempts,
+      phone,
+      language,
+      last_error: `No SMS template for ${item.notification_type}`,
+    })
+    summary.failed++
+    return
+  }
+
+  try {
+    const result = await gateway.send(phone, message, item.id)
+    const now = new Date().toISOString()
+
+    await updateQueueItem(supabase, item.id, {
+      status: result.status,
+      attempts,
+      phone,
+      language,
+      message,
+      gateway: gateway.name,
+      provider_message_id: result.providerMessageId,
+      last_error: null,
+      sent_at: now,
+      delivered_at: result.status === 'delivered' ? now : null,
+    })
+    summary.sent++
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Unknown error'
+    const retry = !(error instanceof PermanentSmsError) && attempts < item.max_attempts
+    console.error(`❌ SMS ${item.id} attempt ${attempts} failed:`, reason)
+
+    await updateQueueItem(supabase, item.id, {
+      status: retry ? 'pending' : 'failed',
+      attempts,
+      phone,
+      language,
+      message,
+      gateway: gateway.name,
+      last_error: reason,
+      next_attempt_at: retry
+        ? new Date(Date.now() + RETRY_BASE_MS * 2 ** (attempts - 1)).toISOString()
+        : undefined,
+    })
+
+    if (retry) {
+      summary.retrying++
+    } else {
+      summary.failed++
+    }
+  }
+}
+
+const checkDeliveries = async (supabase: SupabaseClient, gateway: SmsGateway, summary: RunSummary) => {
+  if (!gateway.checkStatus) return
+
+  const { data: items, error } = await supabase
+    .from('sms_notification_queue')
+    .select('id, provider_message_id')
+    .eq('status', 'sent')
+    .eq('gateway', gateway.name)
+    .not('provider_message_id', 'is', null)
+    .gte('sent_at', new Date(Date.now() - DELIVERY_CHECK_WINDOW_MS).toISOString())
+    .order('sent_at', { ascending: true })
+    .limit(BATCH_SIZE)
+
+  if (error) {
+    throw new Error(`Failed to read sent SMS: ${error.message}`)
+  }
+
+  for (const item of items ?? []) {
+    try {
+      const result = await gateway.checkStatus(item.provider_message_id)
+      if (!result || result.status === 'sent') continue
+
+      if (result.status === 'delivered') {
+        await updateQueueItem(supabase, item.id, { status: 'delivered', delivered_at: new Date().toISOString() })
+        summary.delivered++
+      } else {
+        await updateQueueItem(supabase, item.id, { status: 'failed', last_error: result.error ?? 'Not delivered' })
+        summary.undelivered++
+      }
+    } catch (statusError) {
+      console.error('❌ Error checking SMS delivery:', item.id, statusError)
+    }
+  }
+}
+
+const processQueue = async (supabase: SupabaseClient): Promise<RunSummary> => {
+  const summary: RunSummary = { sent: 0, retrying: 0, failed: 0, delivered: 0, undelivered: 0, recovered: 0 }
+  const gateway = getSmsGateway(supabase)
+
+  summary.recovered = await recoverStuckItems(supabase)
+
+  const items = await claimDueItems(supabase)
+  if (items.length > 0) {
+    console.log(`📤 Sending ${items.length} SMS via ${gateway.name}...`)
+    const { phones, languages } = await loadRecipients(
+      supabase,
+      Array.from(new Set(items.map(item => item.recipient_id)))
+    )
+
+    for (const item of items) {
+      await sendQueueItem(
+        supabase,
+        gateway,
+        item,
+        phones.get(item.recipient_id),
+        languages.get(item.recipient_id) ?? 'en',
+        summary
+      )
+    }
+  }
+
+  await checkDeliveries(supabase, gateway, summary)
+
+  console.log('✅ SMS queue run complete:', summary)
+  return summary
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    )
+
+    const { action } = await req.json().catch(() => ({ action: 'process' }))
+
+    // Scheduled runs authenticate with a shared secret instead of a user session
+    const cronSecret = Deno.env.get('SMS_CRON_SECRET')
+    const isScheduled = !!cronSecret && req.headers.get('x-sms-secret') === cronSecret
+
+    if (!isScheduled) {
+      const authHeader = req.headers.get('Authorization')
+      if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        throw new Error('Missing or invalid authorization header')
+      }
+
+      const {
+        data: { user },
+        error: authError,
+      } = await supabaseAdmin.auth.getUser(authHeader.replace('Bearer ', '').trim())
+
+      if (authError || !user) {
+        throw new Error('Unauthorized')
+      }
+
+      const { data: profile } = await supabaseAdmin
+        .from('profiles')
+        .select('user_type')
+        .eq('id', user.id)
+        .single()
+
+      if (profile?.user_type !== 'admin' && profile?.user_type !== 'super-admin') {
+        throw new Error('Only admins can run the SMS queue')
+      }
+    }
+
+    switch (action ?? 'process') {
+      case 'process': {
+        const summary = await processQueue(supabaseAdmin)
+        return jsonResponse({ success: true, ...summary })
+      }
+
+      default:
+        throw new Error(`Unknown action: ${action}`)
+    }
+  } catch (error) {
+    console.error('❌ SMS queue function error:', error)
+    return jsonResponse(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      400
+    )
+  }
+})
@@ -0,0 +1,110 @@
+// SMS wording per notification type, in English and Filipino.
+// Types without a template are never sent: a queued row can't put its own words on our number.
+
+export type SmsLanguage = 'en' | 'fil'
+
+type TemplateData = Record<string, any>
+type SmsTemplate = Record<SmsLanguage, (data: TemplateData) => string>
+
+const SMS_PREFIX = 'Farm2Go: '
+
+// Two concatenated GSM-7 segments; longer messages cost more and arrive out of order on some phones
+const MAX_SMS_LENGTH = 306
+
+const peso = (amount: unknown) =>
+  `PHP ${Number(amount || 0).toLocaleString('en-PH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+const orderRef = (data: TemplateData) =>
+  data.orderId ? `#${String(data.orderId).substring(0, 8).toUpperCase()}` : ''
+
+const reasonText = (data: TemplateData, label: string) =>
+  data.reason ? ` ${label}: ${data.reason}.` : ''
+
+// Farmers get order_created with action 'new_order_received'; buyers get the confirmation
+const isFarmerCopy = (data: TemplateData) => data.action === 'new_order_received'
+
+const SMS_TEMPLATES: Record<string, SmsTemplate> = {
+  order_created: {
+    en: (data) => isFarmerCopy(data)
+      ? `New order ${orderRef(data)} from ${data.buyerName || 'a buyer'}: ${data.itemCount} item(s), ${peso(data.totalAmount)}. Open Farm2Go to confirm it.`
+      : `Your order ${orderRef(data)} for ${peso(data.totalAmount)} was placed and sent to the farmer.`,
+    fil: (data) => isFarmerCopy(data)
+      ? `Bagong order ${orderRef(data)} mula kay ${data.buyerName || 'isang mamimili'}: ${data.itemCount} item, ${peso(data.totalAmount)}. Buksan ang Farm2Go para kumpirmahin.`
+      : `Naipadala na sa magsasaka ang iyong order ${orderRef(data)} na ${peso(data.totalAmount)}.`,
+  },
+  order_cancelled: {
+    en: (data) => `Order ${orderRef(data)} has been cancelled.${reasonText(data, 'Reason')}`,
+    fil: (data) => `Kinansela na ang order ${orderRef(data)}.${reasonText(data, 'Dahilan')}`,
+  },
+  order_confirmed: {
+    en: (data) => `Order ${orderRef(data)} was confirmed and is being prepared.`,
+    fil: (data) => `Nakumpirma na ang order ${orderRef(data)} at inihahanda na.`,
+  },
+  order_ready: {
+    en: (data) => `Order ${orderRef(data)} is ready for pickup.`,
+    fil: (data) => `Handa nang kunin ang order ${orderRef(data)}.`,
+  },
+  payment_received: {
+    en: (data) => `Payment received: ${peso(data.amount)} from ${data.buyerName || 'a buyer'} for order ${orderRef(data)}.`,
+    fil: (data) => `Natanggap ang bayad na ${peso(data.amount)} mula kay ${data.buyerName || 'isang mamimili'} para sa order ${orderRef(data)}.`,
+  },
+  payout_recorded: {
+    en: (data) => `You were paid ${peso(data.amount)}. See Payouts in the app for the details.`,
+    fil: (data) => `Nabayaran ka ng ${peso(data.amount)}. Tingnan ang Payouts sa app para sa detalye.`,
+  },
+  verification_approved: {
+    en: () => 'Your verification was approved. Your account is now fully verified.',
+    fil: () => 'Naaprubahan na ang iyong verification. Ganap nang beripikado ang iyong account.',
+  },
+  verification_rejected: {
+    en: (data) => `Your verification was not approved.${reasonText(data, 'Reason')} Please submit again in the app.`,
+    fil: (data) => `Hindi naaprubahan ang iyong verification.${reasonText(data, 'Dahilan')} Magsumite muli sa app.`,
+  },
+  user_approved: {
+    en: () => 'Your account was approved. You can now use all features.',
+    fil: () => 'Naaprubahan na ang iyong account. Magagamit mo na ang lahat ng feature.',
+  },
+  // Answers to farmers' texted commands (supabase/functions/sms-inbound)
+  sms_command_reply: {
+    en: (data) => {
+      switch (data.outcome) {
+        case 'confirmed': return `Order ${data.code} confirmed. The buyer has been told.`
+        case 'declined': return `Order ${data.code} declined. The buyer has been told.`
+        case 'stock_updated': return `Stock for ${data.product} is now ${data.quantity} ${data.unit || ''}.`
+        case 'error': return `Could not do that: ${data.error}. Text HELP for the commands.`
+        default: return 'Commands: OK <code> to confirm an order, NO <code> <reason> to decline, STOCK <product> <qty> to set stock.'
+      }
+    },
+    fil: (data) => {
+      switch (data.outcome) {
+        case 'confirmed': return `Nakumpirma ang order ${data.code}. Naabisuhan na ang mamimili.`
+        case 'declined': return `Tinanggihan ang order ${data.code}. Naabisuhan na ang mamimili.`
+        case 'stock_updated': return `Ang stock ng ${data.product} ay ${data.quantity} ${data.unit || ''} na.`
+        case 'error': return `Hindi naisagawa: ${data.error}. I-text ang TULONG para sa mga utos.`
+        default: return 'Mga utos: OK <code> para kumpirmahin ang order, NO <code> <dahilan> para tanggihan, STOCK <produkto> <dami> para sa stock.'
+      }
+    },
+  },
+  user_rejected: {
+    en: (data) => `Your account was not approved.${reasonText(data, 'Reason')}`,
+    fil: (data) => `Hindi naaprubahan ang iyong account.${reasonText(data, 'Dahilan')}`,
+  },
+}
+
+// Emoji and the peso sign are outside GSM-7 and would force a much shorter UCS-2 message
+const toSmsText = (text: string) =>
+  text
+    .replace(/₱/g, 'PHP ')
+    .replace(/\p{Extended_Pictographic}\uFE0F?/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+// Null when the type has no template
+export const renderSmsMessage = (type: string, language: SmsLanguage, data: TemplateData): string | null => {
+  const template = SMS_TEMPLATES[type]
+  if (!template) return null
+
+  const body = template[language](data)
+  const message = SMS_PREFIX + toSmsText(body)
+  return message.length > MAX_SMS_LENGTH ? `${message.substring(0, MAX_SMS_LENGTH - 3)}...` : message
+}
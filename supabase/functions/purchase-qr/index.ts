@@ -0,0 +1,160 @@
+// Edge Function issuing the signed QR token for an order's purchase code
+// Request:  { orderId: string }
+// Response: { success: true, token, purchaseCode, expiresAt }
+// Token format: F2G1.<base64url payload JSON>.<base64url Ed25519 signature of the payload segment>
+// Scanners verify it offline with EXPO_PUBLIC_PURCHASE_QR_PUBLIC_KEY (see utils/purchaseCode.ts).
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.95.0'
+import nacl from 'https://esm.sh/tweetnacl@1.0.3'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers':
+    'authorization, x-client-info, apikey, content-type, prefer',
+}
+
+const TOKEN_PREFIX = 'F2G1'
+
+// Long enough to cover a pickup or delivery with no signal on either side
+const TOKEN_TTL_SECONDS = 14 * 24 * 60 * 60
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+const base64UrlEncode = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+
+const base64Decode = (value: string) =>
+  Uint8Array.from(atob(value.trim()), (c) => c.charCodeAt(0))
+
+// Escape non-ASCII characters so the payload bytes can be read back without a UTF-8 decoder
+const asciiJson = (value: unknown) =>
+  JSON.stringify(value).replace(
+    /[\u007f-\uffff]/g,
+    (c) => `\\u${c.charCodeAt(0).toString(16).padStart(4, '0')}`
+  )
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    // base64 of the 32-byte Ed25519 seed
+    const signingSeed = Deno.env.get('PURCHASE_QR_SIGNING_SEED')
+    if (!signingSeed) {
+      throw new Error('Purchase QR signing is not configured')
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    )
+
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      throw new Error('Missing or invalid authorization header')
+    }
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabaseAdmin.auth.getUser(authHeader.replace('Bearer ', '').trim())
+
+    if (authError || !user) {
+      throw new Error('Unauthorized')
+    }
+
+    const { orderId } = await req.json()
+    if (!orderId) {
+      throw new Error('orderId is required')
+    }
+
+    const { data: order, error: orderError } = await supabaseAdmin
+      .from('orders')
+      .select(`
+        id,
+        buyer_id,
+        farmer_id,
+        purchase_code,
+        total_price,
+        created_at,
+        farmer_profile:profiles!farmer_id(first_name, last_name, farm_name),
+        product:products(name),
+        order_items(product:products(name))
+      `)
+      .eq('id', orderId)
+      .single()
+
+    if (orderError || !order) {
+      throw new Error('Order not found')
+    }
+
+    // Only the buyer shows the code; the farmer and admins may reissue it for them
+    if (order.buyer_id !== user.id && order.farmer_id !== user.id) {
+      const { data: profile } = await supabaseAdmin
+        .from('profiles')
+        .select('user_type')
+        .eq('id', user.id)
+        .single()
+
+      if (!profile || !['admin', 'super-admin'].includes(profile.user_type)) {
+        throw new Error('You are not allowed to view this order')
+      }
+    }
+
+    const farmer = order.farmer_profile ?? {}
+    const issuedAt = Math.floor(Date.now() / 1000)
+    const payload = {
+      code: order.purchase_code,
+      orderId: order.id,
+      amount: Number(order.total_price),
+      farm:
+        farmer.farm_name ||
+        `${farmer.first_name ?? ''} ${farmer.last_name ?? ''}`.trim() ||
+        'Unknown Farm',
+      product: order.order_items?.[0]?.product?.name ?? order.product?.name ?? 'Farm Products',
+      purchasedAt: order.created_at,
+      iat: issuedAt,
+      exp: issuedAt + TOKEN_TTL_SECONDS,
+    }
+
+    const payloadSegment = base64UrlEncode(new TextEncoder().encode(asciiJson(payload)))
+    const { secretKey } = nacl.sign.keyPair.fromSeed(base64Decode(signingSeed))
+    const signature = nacl.sign.detached(new TextEncoder().encode(payloadSegment), secretKey)
+
+    return jsonResponse({
+      success: true,
+      token: `${TOKEN_PREFIX}.${payloadSegment}.${base64UrlEncode(signature)}`,
+      purchaseCode: order.purchase_code,
+      expiresAt: new Date(payload.exp * 1000).toISOString(),
+    })
+  } catch (error) {
+    console.error('❌ Purchase QR error:', error)
+    return jsonResponse(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      400
+    )
+  }
+})
@@ -0,0 +1,300 @@
+// Edge Function for text messages farmers send back (see supabase/migrations/20261019064059_create_sms_commands.sql).
+// The carrier posts each inbound SMS here with the shared secret SMS_INBOUND_SECRET, either as an
+// x-sms-secret header or a ?secret= parameter. JSON and form posts are accepted; the sender may be
+// in from/number/sender and the text in message/text/body.
+//
+// Super admins can post { simulate: true, from, message } with their session instead, to test the
+// whole loop while SMS_GATEWAY is 'stub': replies then land in sms_stub_outbox.
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.95.0'
+import { normalizePhilippineMobile } from '../_shared/phone.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers':
+    'authorization, x-client-info, apikey, content-type, x-sms-secret',
+}
+
+type Command =
+  | { kind: 'confirm'; code: string }
+  | { kind: 'decline'; code: string; reason: string | null }
+  | { kind: 'stock'; product: string; quantity: number }
+  | { kind: 'help' }
+
+type ReplyData = Record<string, unknown> & { outcome: string }
+
+interface InboundSms {
+  from: string
+  message: string
+  providerMessageId: string | null
+}
+
+// Filipino keywords work as well as the English ones
+const CONFIRM_WORDS = ['OK', 'YES', 'OO']
+const DECLINE_WORDS = ['NO', 'HINDI']
+const STOCK_WORDS = ['STOCK', 'STOK']
+const HELP_WORDS = ['HELP', 'TULONG']
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+// Raised for problems the farmer should hear about in the reply
+class CommandError extends Error {}
+
+const parseCommand = (text: string): Command => {
+  const words = text.trim().split(/\s+/).filter(Boolean)
+  const keyword = (words[0] ?? '').toUpperCase()
+
+  if (CONFIRM_WORDS.includes(keyword)) {
+    if (!words[1]) throw new CommandError('add the order code, e.g. OK FG-2025-A3B7K9')
+    return { kind: 'confirm', code: words[1].toUpperCase() }
+  }
+
+  if (DECLINE_WORDS.includes(keyword)) {
+    if (!words[1]) throw new CommandError('add the order code, e.g. NO FG-2025-A3B7K9 out of stock')
+    return { kind: 'decline', code: words[1].toUpperCase(), reason: words.slice(2).join(' ') || null }
+  }
+
+  if (STOCK_WORDS.includes(keyword)) {
+    const quantity = Number(words[words.length - 1])
+    const product = words.slice(1, -1).join(' ')
+    if (!product || !Number.isInteger(quantity) || quantity < 0) {
+      throw new CommandError('use STOCK <product> <quantity>, e.g. STOCK tomatoes 25')
+    }
+    return { kind: 'stock', product, quantity }
+  }
+
+  if (HELP_WORDS.includes(keyword)) {
+    return { kind: 'help' }
+  }
+
+  throw new CommandError(`unknown command "${words[0] ?? ''}"`)
+}
+
+// Accept the shapes common SMS gateways post in
+const readInboundSms = (body: Record<string, unknown>): InboundSms => {
+  const pick = (...keys: string[]) => {
+    for (const key of keys) {
+      const value = body[key]
+      if (value !== undefined && value !== null && String(value).trim() !== '') return String(value)
+    }
+    return null
+  }
+
+  const from = pick('from', 'number', 'sender', 'mobile')
+  const message = pick('message', 'text', 'body')
+  if (!from || message === null) {
+    throw new Error('Inbound SMS needs a sender and a message')
+  }
+
+  return { from, message, providerMessageId: pick('message_id', 'messageId', 'id') }
+}
+
+const readBody = async (req: Request): Promise<Record<string, unknown>> => {
+  const contentType = req.headers.get('content-type') ?? ''
+  if (contentType.includes('application/x-www-form-urlencoded') || contentType.includes('multipart/form-data')) {
+    const form = await req.formData()
+    return Object.fromEntries(Array.from(form.entries()).map(([key, value]) => [key, String(value)]))
+  }
+  return await req.json().catch(() => ({}))
+}
+
+const runCommand = async (
+  supabase: SupabaseClient,
+  farmerId: string,
+  command: Command
+): Promise<ReplyData> => {
+  switch (command.kind) {
+    case 'confirm':
+    case 'decline': {
+      const { data, error } = await supabase.rpc('apply_sms_order_command', {
+        p_farmer_id: farmerId,
+        p_purchase_code: command.code,
+        p_new_status: command.kind === 'confirm' ? 'confirmed' : 'cancelled',
+        p_reason: command.kind === 'decline' ? command.reason ?? 'Declined by the farmer by SMS' : 'Confirmed by SMS',
+      })
+      if (error) throw new CommandError(error.message)
+      return { outcome: command.kind === 'confirm' ? 'confirmed' : 'declined', code: data.purchase_code }
+    }
+
+    case 'stock': {
+      const { data, error } = await supabase.rpc('apply_sms_stock_command', {
+        p_farmer_id: farmerId,
+        p_product: command.product,
+        p_quantity: command.quantity,
+      })
+      if (error) throw new CommandError(error.message)
+      return { outcome: 'stock_updated', product: data.name, quantity: data.quantity, unit: data.unit }
+    }
+
+    case 'help':
+      return { outcome: 'help' }
+  }
+}
+
+// Queue the reply and nudge the sender so it doesn't wait for the next scheduled run
+const sendReply = async (supabase: SupabaseClient, recipientId: string, reply: ReplyData) => {
+  const { error } = await supabase
+    .from('sms_notification_queue')
+    .insert({ recipient_id: recipientId, notification_type: 'sms_command_reply', template_data: reply })
+
+  if (error) {
+    console.error('❌ Error queueing SMS reply:', error)
+    return
+  }
+
+  const cronSecret = Deno.env.get('SMS_CRON_SECRET')
+  if (!cronSecret) return
+
+  await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/process-sms-queue`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-sms-secret': cronSecret },
+    body: JSON.stringify({ action: 'process' }),
+  }).catch((sendError) => console.error('❌ Could not start the SMS queue:', sendError))
+}
+
+const handleInboundSms = async (supabase: SupabaseClient, sms: InboundSms, simulated: boolean) => {
+  const { data: logged, error: logError } = await supabase
+    .from('sms_inbound_messages')
+    .insert({
+      from_phone: normalizePhilippineMobile(sms.from) ?? sms.from,
+      body: sms.message,
+      provider_message_id: sms.providerMessageId,
+      simulated,
+    })
+    .select('id')
+    .single()
+
+  if (logError) {
+    // Unique violation: the carrier redelivered a message we already handled
+    if (logError.code === '23505') return { status: 'duplicate' }
+    throw new Error(`Failed to log inbound SMS: ${logError.message}`)
+  }
+
+  const finish = async (changes: Record<string, unknown>) => {
+    await supabase
+      .from('sms_inbound_messages')
+      .update({ ...changes, processed_at: new Date().toISOString() })
+      .eq('id', logged.id)
+    return changes
+  }
+
+  const { data: senders, error: senderError } = await supabase.rpc('find_profiles_by_phone', { p_phone: sms.from })
+  if (senderError) {
+    throw new Error(`Failed to look up the sender: ${senderError.message}`)
+  }
+
+  // Unknown numbers get no reply, so the endpoint can't be used to send texts to strangers
+  if (!senders || senders.length === 0) {
+    return await finish({ status: 'ignored', error: 'No profile has this number' })
+  }
+  if (senders.length > 1) {
+    return await finish({ status: 'ignored', error: 'Several profiles share this number' })
+  }
+
+  const sender = senders[0]
+  let command: Command | null = null
+  let reply: ReplyData
+
+  try {
+    if (sender.user_type !== 'farmer') {
+      throw new CommandError('SMS commands are only for farmers')
+    }
+    command = parseCommand(sms.message)
+    reply = await runCommand(supabase, sender.id, command)
+  } catch (error) {
+    if (!(error instanceof CommandError)) throw error
+    reply = { outcome: 'error', error: error.message }
+  }
+
+  await sendReply(supabase, sender.id, reply)
+
+  return await finish({
+    sender_id: sender.id,
+    command: command?.kind ?? null,
+    status: reply.outcome === 'error' ? 'rejected' : 'applied',
+    error: reply.outcome === 'error' ? reply.error : null,
+  })
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    )
+
+    const body = await readBody(req)
+
+    const inboundSecret = Deno.env.get('SMS_INBOUND_SECRET')
+    const givenSecret = req.headers.get('x-sms-secret') ?? new URL(req.url).searchParams.get('secret')
+    const fromCarrier = !!inboundSecret && givenSecret === inboundSecret
+
+    if (!fromCarrier) {
+      if (body.simulate !== true) {
+        throw new Error('Unauthorized')
+      }
+
+      const authHeader = req.headers.get('Authorization')
+      if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        throw new Error('Missing or invalid authorization header')
+      }
+
+      const {
+        data: { user },
+        error: authError,
+      } = await supabaseAdmin.auth.getUser(authHeader.replace('Bearer ', '').trim())
+
+      if (authError || !user) {
+        throw new Error('Unauthorized')
+      }
+
+      const { data: profile } = await supabaseAdmin
+        .from('profiles')
+        .select('user_type')
+        .eq('id', user.id)
+        .single()
+
+      if (profile?.user_type !== 'super-admin') {
+        throw new Error('Only super admins can simulate inbound SMS')
+      }
+
+      // Simulated commands really change orders and stock; never mix them with real texts
+      if ((Deno.env.get('SMS_GATEWAY') ?? 'stub').toLowerCase() !== 'stub') {
+        throw new Error('The SMS simulator only works with the stub gateway')
+      }
+    }
+
+    const sms = readInboundSms(body)
+    const result = await handleInboundSms(supabaseAdmin, sms, !fromCarrier)
+
+    return jsonResponse({ success: true, ...result })
+  } catch (error) {
+    console.error('❌ Inbound SMS function error:', error)
+    return jsonResponse(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      400
+    )
+  }
+})
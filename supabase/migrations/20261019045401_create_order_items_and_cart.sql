@@ -0,0 +1,265 @@
+-- Multi-item orders and persistent buyer carts
+-- An order now belongs to a single farmer and carries one or more order_items rows.
+-- orders.product_id / orders.quantity are kept (first line / total quantity) so older
+-- screens that read them keep working.
+
+-- Order line items
+CREATE TABLE IF NOT EXISTS order_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id),
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_price NUMERIC NOT NULL CHECK (unit_price >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_items_order_id ON order_items(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_items_product_id ON order_items(product_id);
+
+ALTER TABLE order_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view items of their orders" ON order_items;
+CREATE POLICY "Users can view items of their orders" ON order_items
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_items.order_id
+      AND (orders.buyer_id = auth.uid() OR orders.farmer_id = auth.uid())
+    )
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.user_type IN ('admin', 'super-admin')
+    )
+  );
+
+-- Backfill one line item for every existing single-product order
+INSERT INTO order_items (order_id, product_id, quantity, unit_price, created_at, updated_at)
+SELECT o.id, o.product_id, o.quantity,
+       CASE WHEN o.quantity > 0 THEN o.total_price / o.quantity ELSE 0 END,
+       o.created_at, o.updated_at
+FROM orders o
+WHERE o.product_id IS NOT NULL
+AND NOT EXISTS (SELECT 1 FROM order_items oi WHERE oi.order_id = o.id);
+
+-- Server-side copy of each buyer's cart so it follows them across devices
+CREATE TABLE IF NOT EXISTS cart_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cart_items_user_id ON cart_items(user_id);
+
+ALTER TABLE cart_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users manage their own cart" ON cart_items;
+CREATE POLICY "Users manage their own cart" ON cart_items
+  FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+-- Create one order per farmer from a list of cart lines, atomically.
+-- p_items: [{ "product_id": "...", "quantity": 3 }, ...]
+-- Every product row is locked before stock is checked, so two buyers checking out
+-- the same product cannot both take the last units. Any failure rolls back every order.
+CREATE OR REPLACE FUNCTION create_multi_item_orders(
+  p_buyer_id UUID,
+  p_items JSONB,
+  p_delivery_address TEXT,
+  p_notes TEXT DEFAULT NULL,
+  p_payment_method TEXT DEFAULT 'pending'
+) RETURNS JSON AS $$
+DECLARE
+  v_item JSONB;
+  v_product RECORD;
+  v_quantity INTEGER;
+  v_farmer_id UUID;
+  v_order_id UUID;
+  v_transaction_id UUID;
+  v_total NUMERIC;
+  v_total_quantity INTEGER;
+  v_first_product UUID;
+  v_purchase_code TEXT;
+  v_results JSON[] := ARRAY[]::JSON[];
+BEGIN
+  IF p_buyer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Unauthorized to place orders for another user';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  SELECT i->'product_id' INTO v_item
+  FROM jsonb_array_elements(p_items) AS i
+  WHERE (i->>'quantity')::INTEGER IS NULL OR (i->>'quantity')::INTEGER <= 0
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Invalid quantity for product %', v_item #>> '{}';
+  END IF;
+
+  -- A product listed on several lines has to fit in stock as a whole, so total it into one line
+  SELECT jsonb_agg(jsonb_build_object('product_id', product_id, 'quantity', quantity) ORDER BY product_id)
+  INTO p_items
+  FROM (
+    SELECT i->>'product_id' AS product_id, sum((i->>'quantity')::INTEGER) AS quantity
+    FROM jsonb_array_elements(p_items) AS i
+    GROUP BY i->>'product_id'
+  ) lines;
+
+  -- Lock and validate every product up front
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', v_item->>'product_id';
+    END IF;
+
+    SELECT id, farmer_id, name, price, quantity_available, status
+    INTO v_product
+    FROM products
+    WHERE id = (v_item->>'product_id')::UUID
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found: %', v_item->>'product_id';
+    END IF;
+
+    IF v_product.status <> 'approved' THEN
+      RAISE EXCEPTION 'Product "%" is not available for sale', v_product.name;
+    END IF;
+
+    IF v_product.farmer_id = p_buyer_id THEN
+      RAISE EXCEPTION 'You cannot order your own product "%"', v_product.name;
+    END IF;
+
+    IF v_product.quantity_available < v_quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for "%". Available: %, Requested: %',
+        v_product.name, v_product.quantity_available, v_quantity;
+    END IF;
+  END LOOP;
+
+  -- One order per farmer
+  FOR v_farmer_id IN
+    SELECT DISTINCT p.farmer_id
+    FROM jsonb_array_elements(p_items) AS i
+    JOIN products p ON p.id = (i->>'product_id')::UUID
+  LOOP
+    SELECT SUM(p.price * (i->>'quantity')::INTEGER),
+           SUM((i->>'quantity')::INTEGER),
+           (ARRAY_AGG(p.id))[1]
+    INTO v_total, v_total_quantity, v_first_product
+    FROM jsonb_array_elements(p_items) AS i
+    JOIN products p ON p.id = (i->>'product_id')::UUID
+    WHERE p.farmer_id = v_farmer_id;
+
+    v_purchase_code := 'PO-' || EXTRACT(EPOCH FROM NOW())::BIGINT || '-' || SUBSTR(MD5(RANDOM()::TEXT), 1, 8);
+
+    INSERT INTO orders (
+      buyer_id, farmer_id, product_id, quantity, total_price,
+      status, delivery_address, notes, purchase_code
+    ) VALUES (
+      p_buyer_id, v_farmer_id, v_first_product, v_total_quantity, v_total,
+      'pending', p_delivery_address, p_notes, v_purchase_code
+    ) RETURNING id INTO v_order_id;
+
+    INSERT INTO order_items (order_id, product_id, quantity, unit_price)
+    SELECT v_order_id, p.id, (i->>'quantity')::INTEGER, p.price
+    FROM jsonb_array_elements(p_items) AS i
+    JOIN products p ON p.id = (i->>'product_id')::UUID
+    WHERE p.farmer_id = v_farmer_id;
+
+    UPDATE products p
+    SET quantity_available = p.quantity_available - (i->>'quantity')::INTEGER,
+        updated_at = NOW()
+    FROM jsonb_array_elements(p_items) AS i
+    WHERE p.id = (i->>'product_id')::UUID
+    AND p.farmer_id = v_farmer_id;
+
+    INSERT INTO transactions (order_id, amount, status, payment_method)
+    VALUES (v_order_id, v_total, 'pending', p_payment_method)
+    RETURNING id INTO v_transaction_id;
+
+    v_results := v_results || json_build_object(
+      'order', (SELECT row_to_json(o.*) FROM orders o WHERE o.id = v_order_id),
+      'transaction', (SELECT row_to_json(t.*) FROM transactions t WHERE t.id = v_transaction_id),
+      'items', (SELECT json_agg(row_to_json(oi.*)) FROM order_items oi WHERE oi.order_id = v_order_id)
+    );
+  END LOOP;
+
+  -- Ordered products leave the buyer's cart
+  DELETE FROM cart_items
+  WHERE user_id = p_buyer_id
+  AND product_id IN (SELECT (i->>'product_id')::UUID FROM jsonb_array_elements(p_items) AS i);
+
+  RETURN array_to_json(v_results);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Cancelling a multi-item order must restore every line, not just orders.product_id
+CREATE OR REPLACE FUNCTION cancel_order_with_stock_restore(
+  p_order_id UUID,
+  p_cancellation_reason TEXT
+) RETURNS JSON AS $$
+DECLARE
+  v_order_status TEXT;
+  v_product_id UUID;
+  v_quantity INTEGER;
+  v_order JSON;
+BEGIN
+  SELECT status, product_id, quantity
+  INTO v_order_status, v_product_id, v_quantity
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF v_order_status IS NULL THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order_status != 'pending' THEN
+    RAISE EXCEPTION 'Can only cancel pending orders. Current status: %', v_order_status;
+  END IF;
+
+  UPDATE orders
+  SET
+    status = 'cancelled',
+    notes = CASE
+      WHEN notes IS NULL THEN 'Cancellation reason: ' || p_cancellation_reason
+      ELSE notes || E'\nCancellation reason: ' || p_cancellation_reason
+    END,
+    updated_at = NOW()
+  WHERE id = p_order_id;
+
+  IF EXISTS (SELECT 1 FROM order_items WHERE order_id = p_order_id) THEN
+    UPDATE products p
+    SET quantity_available = p.quantity_available + oi.quantity,
+        updated_at = NOW()
+    FROM order_items oi
+    WHERE oi.order_id = p_order_id
+    AND p.id = oi.product_id;
+  ELSE
+    UPDATE products
+    SET quantity_available = quantity_available + v_quantity
+    WHERE id = v_product_id;
+  END IF;
+
+  UPDATE transactions
+  SET status = 'failed', updated_at = NOW()
+  WHERE order_id = p_order_id;
+
+  SELECT row_to_json(o.*) INTO v_order
+  FROM orders o
+  WHERE o.id = p_order_id;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION create_multi_item_orders(UUID, JSONB, TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_order_with_stock_restore(UUID, TEXT) TO authenticated;
@@ -0,0 +1,175 @@
+-- Database backups for the super-admin Backup & Restore screen
+-- Archives are written by the database-backup edge function; this table indexes them.
+
+CREATE TABLE IF NOT EXISTS backups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('manual', 'automatic')),
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed', 'failed')),
+  storage_path TEXT NOT NULL,
+  format_version INTEGER NOT NULL DEFAULT 1,
+  size_bytes BIGINT,
+  table_counts JSONB,
+  error_message TEXT,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  last_restored_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_backups_created_at ON backups(created_at DESC);
+
+COMMENT ON TABLE backups IS 'Index of NDJSON database archives stored in the backups bucket';
+
+ALTER TABLE backups ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Super admins can view backups" ON backups;
+CREATE POLICY "Super admins can view backups" ON backups
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND user_type = 'super-admin')
+  );
+
+DROP POLICY IF EXISTS "Super admins can delete backups" ON backups;
+CREATE POLICY "Super admins can delete backups" ON backups
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND user_type = 'super-admin')
+  );
+
+-- Private bucket: archives contain personal data
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'backups',
+  'backups',
+  false,
+  1073741824, -- 1GB limit
+  ARRAY['application/x-ndjson', 'application/json']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Super admins can read backup archives"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'backups' AND
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND user_type = 'super-admin')
+);
+
+CREATE POLICY "Super admins can delete backup archives"
+ON storage.objects FOR DELETE
+USING (
+  bucket_id = 'backups' AND
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND user_type = 'super-admin')
+);
+
+-- Primary key columns of a public table, in key order
+CREATE OR REPLACE FUNCTION backup_table_key(p_table TEXT)
+RETURNS TEXT[] AS $$
+  SELECT array_agg(a.attname::TEXT ORDER BY array_position(i.indkey::INT2[], a.attnum))
+  FROM pg_index i
+  JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY(i.indkey)
+  WHERE i.indrelid = format('public.%I', p_table)::regclass
+  AND i.indisprimary;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Restore archived rows in one transaction, so a failed restore leaves the database as it was.
+-- p_tables lists the tables parents first (BACKUP_TABLES in supabase/functions/database-backup) and
+-- p_rows maps each table to its archived rows. Rows missing from the archive are deleted children
+-- first, then archived rows are upserted parents first, matched on each table's primary key.
+-- Triggers are off for the restore (session_replication_role = replica), so rows come back exactly
+-- as archived: no status checks, history, codes, notifications or ledger postings fire again.
+-- Foreign keys aren't checked either, which is why the edge function always restores a table
+-- together with the tables that reference it.
+-- Only the database-backup edge function (service role) may call this.
+CREATE OR REPLACE FUNCTION restore_backup_tables(p_tables TEXT[], p_rows JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_table TEXT;
+  v_rows JSONB;
+  v_key TEXT[];
+  v_match TEXT;
+  v_columns TEXT;
+  v_updates TEXT;
+BEGIN
+  IF 'backups' = ANY(p_tables) THEN
+    RAISE EXCEPTION 'The backups index is not part of backups';
+  END IF;
+
+  FOREACH v_table IN ARRAY p_tables LOOP
+    IF backup_table_key(v_table) IS NULL THEN
+      RAISE EXCEPTION 'Table % has no primary key to restore by', v_table;
+    END IF;
+  END LOOP;
+
+  PERFORM set_config('session_replication_role', 'replica', true);
+
+  FOR i IN REVERSE array_length(p_tables, 1)..1 LOOP
+    v_table := p_tables[i];
+    v_key := backup_table_key(v_table);
+    SELECT string_agg(format('a.%1$I = t.%1$I', k), ' AND ') INTO v_match FROM unnest(v_key) k;
+
+    EXECUTE format(
+      'DELETE FROM %1$I t WHERE NOT EXISTS ' ||
+      '(SELECT 1 FROM jsonb_populate_recordset(NULL::%1$I, $1) a WHERE %2$s)',
+      v_table, v_match
+    ) USING COALESCE(p_rows -> v_table, '[]'::jsonb);
+  END LOOP;
+
+  FOR i IN 1..array_length(p_tables, 1) LOOP
+    v_table := p_tables[i];
+    v_rows := COALESCE(p_rows -> v_table, '[]'::jsonb);
+    CONTINUE WHEN jsonb_array_length(v_rows) = 0;
+    v_key := backup_table_key(v_table);
+
+    -- Columns the archive has; ones added since keep their defaults
+    SELECT
+      string_agg(format('%I', a.attname), ', ' ORDER BY a.attnum),
+      string_agg(format('%1$I = EXCLUDED.%1$I', a.attname), ', ' ORDER BY a.attnum)
+        FILTER (WHERE NOT a.attname::TEXT = ANY(v_key))
+    INTO v_columns, v_updates
+    FROM pg_attribute a
+    WHERE a.attrelid = format('public.%I', v_table)::regclass
+    AND a.attnum > 0
+    AND NOT a.attisdropped
+    AND a.attgenerated = ''
+    AND (v_rows -> 0) ? a.attname;
+
+    EXECUTE format(
+      'INSERT INTO %1$I (%2$s) SELECT %2$s FROM jsonb_populate_recordset(NULL::%1$I, $1) ' ||
+      'ON CONFLICT (%3$s) DO ' || CASE WHEN v_updates IS NULL THEN 'NOTHING' ELSE 'UPDATE SET %4$s' END,
+      v_table, v_columns,
+      (SELECT string_agg(format('%I', k), ', ') FROM unnest(v_key) k),
+      v_updates
+    ) USING v_rows;
+  END LOOP;
+
+  PERFORM set_config('session_replication_role', 'origin', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION backup_table_key(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION restore_backup_tables(TEXT[], JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION restore_backup_tables(TEXT[], JSONB) TO service_role;
+
+-- Daily automatic backup at 02:00 Asia/Manila (18:00 UTC).
+-- Requires the pg_cron and pg_net extensions, plus these database settings:
+--   ALTER DATABASE postgres SET app.settings.functions_url = 'https://<project>.supabase.co/functions/v1';
+--   ALTER DATABASE postgres SET app.settings.backup_cron_secret = '<same value as BACKUP_CRON_SECRET>';
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.unschedule('farm2go-daily-backup')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'farm2go-daily-backup');
+
+SELECT cron.schedule(
+  'farm2go-daily-backup',
+  '0 18 * * *',
+  $$
+  SELECT net.http_post(
+    url := current_setting('app.settings.functions_url') || '/database-backup',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-backup-secret', current_setting('app.settings.backup_cron_secret')
+    ),
+    body := '{"action":"create"}'::jsonb
+  );
+  $$
+);
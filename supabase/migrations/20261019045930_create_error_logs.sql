@@ -0,0 +1,64 @@
+-- Client error reports collected by utils/errorLogger
+-- Used by the super-admin System Reports screen to count errors per period.
+
+CREATE TABLE IF NOT EXISTS error_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  message TEXT NOT NULL,
+  stack TEXT,
+  platform TEXT,
+  app_version TEXT,
+  category TEXT,
+  extra JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_error_logs_created_at ON error_logs(created_at DESC);
+
+ALTER TABLE error_logs ENABLE ROW LEVEL SECURITY;
+
+-- Anyone (including signed-out users hitting a crash) may report an error
+DROP POLICY IF EXISTS "Anyone can report errors" ON error_logs;
+CREATE POLICY "Anyone can report errors" ON error_logs
+  FOR INSERT WITH CHECK (user_id IS NULL OR user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Super admins can view error logs" ON error_logs;
+CREATE POLICY "Super admins can view error logs" ON error_logs
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND user_type = 'super-admin')
+  );
+
+-- Order figures for the System Reports screen, added up in the database so they cover every
+-- order in the period rather than the first page of rows. Revenue only counts orders that were
+-- paid and not cancelled. 20261019052435_create_order_refunds.sql also takes refunds off.
+CREATE OR REPLACE FUNCTION get_report_order_stats(p_start TIMESTAMPTZ, p_end TIMESTAMPTZ)
+RETURNS JSON AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND user_type = 'super-admin') THEN
+    RAISE EXCEPTION 'Only super admins can view reports';
+  END IF;
+
+  RETURN json_build_object(
+    'orders', (
+      SELECT count(*) FROM orders
+      WHERE created_at >= p_start AND created_at < p_end
+    ),
+    'revenue', (
+      SELECT COALESCE(sum(o.total_price), 0) FROM orders o
+      WHERE o.created_at >= p_start AND o.created_at < p_end
+      AND o.status <> 'cancelled'
+      AND EXISTS (SELECT 1 FROM transactions t WHERE t.order_id = o.id AND t.status = 'completed')
+    ),
+    -- A farmer is active in a period if they received an order or touched a listing
+    'active_farmers', (
+      SELECT count(DISTINCT farmer_id) FROM (
+        SELECT farmer_id FROM orders WHERE created_at >= p_start AND created_at < p_end
+        UNION
+        SELECT farmer_id FROM products WHERE updated_at >= p_start AND updated_at < p_end
+      ) active
+    )
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_report_order_stats(TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
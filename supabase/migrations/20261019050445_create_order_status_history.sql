@@ -0,0 +1,383 @@
+-- Order state machine with an audit trail
+--
+-- order_status_transitions lists every legal status change and the roles allowed to make it.
+-- It mirrors ORDER_STATUS_TRANSITIONS in types/orders.ts - keep the two in sync.
+-- A trigger on orders rejects any other change (including direct table updates from the app)
+-- and records each change in order_status_history.
+
+-- 1. One set of statuses. Older setups used the order_status enum, which lacks
+--    processing/ready/cancellation_requested/issue_reported, so store the column as text.
+ALTER TABLE orders ALTER COLUMN status DROP DEFAULT;
+ALTER TABLE orders ALTER COLUMN status TYPE TEXT USING status::TEXT;
+
+-- 'completed' was used interchangeably with 'delivered'
+UPDATE orders SET status = 'delivered' WHERE status = 'completed';
+
+ALTER TABLE orders ALTER COLUMN status SET DEFAULT 'pending';
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE orders ADD CONSTRAINT orders_status_check CHECK (status IN (
+  'pending',
+  'confirmed',
+  'processing',
+  'ready',
+  'shipped',
+  'delivered',
+  'cancellation_requested',
+  'issue_reported',
+  'cancelled'
+));
+
+-- 2. Allowed transitions
+CREATE TABLE IF NOT EXISTS order_status_transitions (
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('buyer', 'farmer', 'admin', 'system')),
+  PRIMARY KEY (from_status, to_status, role)
+);
+
+COMMENT ON TABLE order_status_transitions IS 'Order state machine; mirrors ORDER_STATUS_TRANSITIONS in types/orders.ts';
+
+DELETE FROM order_status_transitions;
+INSERT INTO order_status_transitions (from_status, to_status, role) VALUES
+  ('pending', 'confirmed', 'farmer'),
+  ('pending', 'confirmed', 'admin'),
+  ('pending', 'confirmed', 'system'),
+  ('pending', 'cancellation_requested', 'buyer'),
+  ('pending', 'cancelled', 'buyer'),
+  ('pending', 'cancelled', 'farmer'),
+  ('pending', 'cancelled', 'admin'),
+  ('pending', 'cancelled', 'system'),
+
+  ('confirmed', 'processing', 'farmer'),
+  ('confirmed', 'processing', 'admin'),
+  ('confirmed', 'ready', 'farmer'),
+  ('confirmed', 'ready', 'admin'),
+  ('confirmed', 'delivered', 'farmer'),
+  ('confirmed', 'delivered', 'admin'),
+  ('confirmed', 'cancellation_requested', 'buyer'),
+  ('confirmed', 'cancelled', 'farmer'),
+  ('confirmed', 'cancelled', 'admin'),
+
+  ('processing', 'ready', 'farmer'),
+  ('processing', 'ready', 'admin'),
+  ('processing', 'delivered', 'farmer'),
+  ('processing', 'delivered', 'admin'),
+  ('processing', 'cancellation_requested', 'buyer'),
+  ('processing', 'cancelled', 'farmer'),
+  ('processing', 'cancelled', 'admin'),
+
+  ('ready', 'shipped', 'farmer'),
+  ('ready', 'shipped', 'admin'),
+  ('ready', 'delivered', 'farmer'),
+  ('ready', 'delivered', 'admin'),
+  ('ready', 'cancellation_requested', 'buyer'),
+  ('ready', 'cancelled', 'farmer'),
+  ('ready', 'cancelled', 'admin'),
+
+  ('shipped', 'delivered', 'farmer'),
+  ('shipped', 'delivered', 'admin'),
+  ('shipped', 'cancelled', 'admin'),
+
+  ('cancellation_requested', 'pending', 'farmer'),
+  ('cancellation_requested', 'pending', 'admin'),
+  ('cancellation_requested', 'confirmed', 'farmer'),
+  ('cancellation_requested', 'confirmed', 'admin'),
+  ('cancellation_requested', 'processing', 'farmer'),
+  ('cancellation_requested', 'processing', 'admin'),
+  ('cancellation_requested', 'ready', 'farmer'),
+  ('cancellation_requested', 'ready', 'admin'),
+  ('cancellation_requested', 'cancelled', 'farmer'),
+  ('cancellation_requested', 'cancelled', 'admin'),
+
+  ('delivered', 'issue_reported', 'buyer'),
+
+  ('issue_reported', 'delivered', 'admin'),
+  ('issue_reported', 'cancelled', 'admin');
+
+ALTER TABLE order_status_transitions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read order status transitions" ON order_status_transitions;
+CREATE POLICY "Anyone can read order status transitions" ON order_status_transitions
+  FOR SELECT USING (true);
+
+-- 3. Audit trail
+CREATE TABLE IF NOT EXISTS order_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  changed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  changed_by_role TEXT NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order ON order_status_history(order_id, created_at);
+
+ALTER TABLE order_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the triggers below
+DROP POLICY IF EXISTS "Order parties and admins can view status history" ON order_status_history;
+CREATE POLICY "Order parties and admins can view status history" ON order_status_history
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM orders o
+      WHERE o.id = order_status_history.order_id
+      AND (o.buyer_id = auth.uid() OR o.farmer_id = auth.uid())
+    )
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND user_type IN ('admin', 'super-admin')
+    )
+  );
+
+-- Backfill: every existing order gets its creation entry plus its current status
+INSERT INTO order_status_history (order_id, from_status, to_status, changed_by, changed_by_role, reason, created_at)
+SELECT o.id, NULL, 'pending', o.buyer_id, 'buyer', NULL, o.created_at
+FROM orders o
+WHERE NOT EXISTS (SELECT 1 FROM order_status_history h WHERE h.order_id = o.id);
+
+INSERT INTO order_status_history (order_id, from_status, to_status, changed_by, changed_by_role, reason, created_at)
+SELECT o.id, 'pending', o.status, NULL, 'system', 'Recorded before status history was tracked', COALESCE(o.updated_at, o.created_at)
+FROM orders o
+WHERE o.status <> 'pending'
+AND NOT EXISTS (
+  SELECT 1 FROM order_status_history h
+  WHERE h.order_id = o.id AND h.from_status IS NOT NULL
+);
+
+-- 4. Role of the current caller with respect to an order.
+-- Trusted database code can act as 'system' by setting farm2go.order_actor_role for the statement.
+CREATE OR REPLACE FUNCTION order_actor_role(p_buyer_id UUID, p_farmer_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  v_override TEXT := NULLIF(current_setting('farm2go.order_actor_role', true), '');
+  v_user_type TEXT;
+BEGIN
+  IF v_override IS NOT NULL THEN
+    RETURN v_override;
+  END IF;
+
+  -- Service role, cron jobs and the SQL editor have no auth user; anonymous API callers don't either
+  IF auth.uid() IS NULL THEN
+    RETURN CASE WHEN auth.role() = 'anon' THEN NULL ELSE 'system' END;
+  END IF;
+
+  SELECT user_type INTO v_user_type FROM profiles WHERE id = auth.uid();
+
+  IF v_user_type IN ('admin', 'super-admin') THEN
+    RETURN 'admin';
+  ELSIF auth.uid() = p_farmer_id THEN
+    RETURN 'farmer';
+  ELSIF auth.uid() = p_buyer_id THEN
+    RETURN 'buyer';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- 5. Enforce the state machine and write history on every status change
+CREATE OR REPLACE FUNCTION enforce_order_status_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_role TEXT;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  v_role := order_actor_role(OLD.buyer_id, OLD.farmer_id);
+
+  IF v_role IS NULL THEN
+    RAISE EXCEPTION 'Unauthorized to update this order';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM order_status_transitions
+    WHERE from_status = OLD.status AND to_status = NEW.status AND role = v_role
+  ) THEN
+    RAISE EXCEPTION 'Cannot change order status from % to % as %', OLD.status, NEW.status, v_role
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO order_status_history (order_id, from_status, to_status, changed_by, changed_by_role, reason)
+  VALUES (
+    OLD.id,
+    OLD.status,
+    NEW.status,
+    auth.uid(),
+    v_role,
+    NULLIF(current_setting('farm2go.order_status_reason', true), '')
+  );
+
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_enforce_order_status ON orders;
+CREATE TRIGGER trigger_enforce_order_status
+  BEFORE UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_order_status_transition();
+
+CREATE OR REPLACE FUNCTION record_order_created()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO order_status_history (order_id, from_status, to_status, changed_by, changed_by_role, reason)
+  VALUES (
+    NEW.id,
+    NULL,
+    NEW.status,
+    auth.uid(),
+    COALESCE(order_actor_role(NEW.buyer_id, NEW.farmer_id), 'buyer'),
+    NULL
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_record_order_created ON orders;
+CREATE TRIGGER trigger_record_order_created
+  AFTER INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION record_order_created();
+
+-- 6. The one entry point for status changes: validates via the trigger, records the reason,
+--    and applies the side effects of cancelling (stock and payment).
+DROP FUNCTION IF EXISTS update_order_status_safe(UUID, order_status, UUID);
+
+CREATE OR REPLACE FUNCTION update_order_status_safe(
+  p_order_id UUID,
+  p_new_status TEXT,
+  p_reason TEXT DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  v_order RECORD;
+BEGIN
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  -- The trigger lets unchanged statuses through unchecked, and the side effects below must
+  -- run once per change, so repeats are refused and the caller is checked up front
+  IF v_order.status::TEXT = p_new_status THEN
+    RAISE EXCEPTION 'Order is already %', p_new_status;
+  END IF;
+
+  IF order_actor_role(v_order.buyer_id, v_order.farmer_id) IS NULL THEN
+    RAISE EXCEPTION 'Unauthorized to update this order';
+  END IF;
+
+  PERFORM set_config('farm2go.order_status_reason', COALESCE(p_reason, ''), true);
+
+  UPDATE orders
+  SET status = p_new_status
+  WHERE id = p_order_id;
+
+  PERFORM set_config('farm2go.order_status_reason', '', true);
+
+  IF p_new_status = 'cancelled' THEN
+    IF v_order.status = 'issue_reported' THEN
+      -- Refund approved after delivery: the goods are gone, so no stock comes back
+      UPDATE transactions
+      SET status = 'refunded', updated_at = NOW()
+      WHERE order_id = p_order_id;
+    ELSE
+      IF EXISTS (SELECT 1 FROM order_items WHERE order_id = p_order_id) THEN
+        UPDATE products p
+        SET quantity_available = p.quantity_available + oi.quantity,
+            updated_at = NOW()
+        FROM order_items oi
+        WHERE oi.order_id = p_order_id
+        AND p.id = oi.product_id;
+      ELSE
+        UPDATE products
+        SET quantity_available = quantity_available + v_order.quantity,
+            updated_at = NOW()
+        WHERE id = v_order.product_id;
+      END IF;
+
+      UPDATE transactions
+      SET status = 'failed', updated_at = NOW()
+      WHERE order_id = p_order_id;
+    END IF;
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'order_id', p_order_id,
+    'from_status', v_order.status,
+    'new_status', p_new_status
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Buyer self-cancellation keeps its pending-only rule but goes through the state machine
+CREATE OR REPLACE FUNCTION cancel_order_with_stock_restore(
+  p_order_id UUID,
+  p_cancellation_reason TEXT
+) RETURNS JSON AS $$
+DECLARE
+  v_order_status TEXT;
+  v_order JSON;
+BEGIN
+  SELECT status INTO v_order_status
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF v_order_status IS NULL THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order_status != 'pending' THEN
+    RAISE EXCEPTION 'Can only cancel pending orders. Current status: %', v_order_status;
+  END IF;
+
+  UPDATE orders
+  SET notes = CASE
+      WHEN notes IS NULL THEN 'Cancellation reason: ' || p_cancellation_reason
+      ELSE notes || E'\nCancellation reason: ' || p_cancellation_reason
+    END
+  WHERE id = p_order_id;
+
+  PERFORM update_order_status_safe(p_order_id, 'cancelled', p_cancellation_reason);
+
+  SELECT row_to_json(o.*) INTO v_order
+  FROM orders o
+  WHERE o.id = p_order_id;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Payment confirmation is made by whoever updates the transaction, so act as 'system'
+CREATE OR REPLACE FUNCTION auto_confirm_order_on_payment()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status != 'completed' THEN
+    PERFORM set_config('farm2go.order_actor_role', 'system', true);
+    PERFORM set_config('farm2go.order_status_reason', 'Payment completed', true);
+
+    UPDATE orders
+    SET status = 'confirmed'
+    WHERE id = NEW.order_id AND status = 'pending';
+
+    PERFORM set_config('farm2go.order_actor_role', '', true);
+    PERFORM set_config('farm2go.order_status_reason', '', true);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION update_order_status_safe(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION update_order_status_safe(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_order_with_stock_restore(UUID, TEXT) TO authenticated;
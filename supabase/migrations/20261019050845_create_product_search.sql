@@ -0,0 +1,285 @@
+-- Server-side product search for the buyer search screen (app/buyer/search.tsx)
+--
+-- Matches every query word against product name, description, category, farm name and barangay.
+-- Each word is expanded with Filipino/English synonyms ("kamatis" finds "tomato" and vice versa)
+-- and compared with trigram similarity, so small typos ("kamatsi", "tomatoe") still match.
+-- Results are ranked by relevance, then nudged by rating and proximity.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+-- Synonyms: term -> canonical English name. Lookups run in both directions.
+CREATE TABLE IF NOT EXISTS search_synonyms (
+  term TEXT NOT NULL,
+  canonical TEXT NOT NULL,
+  PRIMARY KEY (term, canonical)
+);
+
+COMMENT ON TABLE search_synonyms IS 'Filipino/Tagalog and regional produce names mapped to their English names for product search';
+
+INSERT INTO search_synonyms (term, canonical) VALUES
+  ('kamatis', 'tomato'),
+  ('sibuyas', 'onion'),
+  ('bawang', 'garlic'),
+  ('luya', 'ginger'),
+  ('talong', 'eggplant'),
+  ('ampalaya', 'bitter gourd'),
+  ('ampalaya', 'bitter melon'),
+  ('kalabasa', 'squash'),
+  ('kalabasa', 'pumpkin'),
+  ('sitaw', 'string beans'),
+  ('sitaw', 'long beans'),
+  ('bataw', 'hyacinth bean'),
+  ('patani', 'lima bean'),
+  ('munggo', 'mung bean'),
+  ('pechay', 'bok choy'),
+  ('petsay', 'bok choy'),
+  ('repolyo', 'cabbage'),
+  ('patatas', 'potato'),
+  ('kamote', 'sweet potato'),
+  ('gabi', 'taro'),
+  ('ube', 'purple yam'),
+  ('labanos', 'radish'),
+  ('karot', 'carrot'),
+  ('pipino', 'cucumber'),
+  ('upo', 'bottle gourd'),
+  ('patola', 'sponge gourd'),
+  ('sayote', 'chayote'),
+  ('kangkong', 'water spinach'),
+  ('malunggay', 'moringa'),
+  ('alugbati', 'malabar spinach'),
+  ('mustasa', 'mustard greens'),
+  ('sili', 'chili'),
+  ('siling labuyo', 'chili'),
+  ('siling haba', 'green chili'),
+  ('mais', 'corn'),
+  ('bigas', 'rice'),
+  ('palay', 'rice'),
+  ('malagkit', 'glutinous rice'),
+  ('saging', 'banana'),
+  ('mangga', 'mango'),
+  ('pinya', 'pineapple'),
+  ('niyog', 'coconut'),
+  ('buko', 'coconut'),
+  ('papaya', 'papaya'),
+  ('kalamansi', 'calamansi'),
+  ('calamansi', 'lime'),
+  ('dalandan', 'orange'),
+  ('dayap', 'lime'),
+  ('suha', 'pomelo'),
+  ('bayabas', 'guava'),
+  ('langka', 'jackfruit'),
+  ('abokado', 'avocado'),
+  ('pakwan', 'watermelon'),
+  ('milon', 'melon'),
+  ('santol', 'cotton fruit'),
+  ('atis', 'sugar apple'),
+  ('guyabano', 'soursop'),
+  ('lansones', 'langsat'),
+  ('rambutan', 'rambutan'),
+  ('tanglad', 'lemongrass'),
+  ('oregano', 'oregano'),
+  ('dahon ng sibuyas', 'spring onion'),
+  ('kinchay', 'chinese celery'),
+  ('itlog', 'egg'),
+  ('manok', 'chicken'),
+  ('baboy', 'pork'),
+  ('baka', 'beef'),
+  ('isda', 'fish'),
+  ('gatas', 'milk'),
+  ('gulay', 'vegetables'),
+  ('prutas', 'fruits'),
+  ('butil', 'grains'),
+  ('halamang gamot', 'herbs')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE search_synonyms ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read search synonyms" ON search_synonyms;
+CREATE POLICY "Anyone can read search synonyms" ON search_synonyms
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage search synonyms" ON search_synonyms;
+CREATE POLICY "Admins can manage search synonyms" ON search_synonyms
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND user_type IN ('admin', 'super-admin'))
+  );
+
+CREATE INDEX IF NOT EXISTS idx_search_synonyms_canonical ON search_synonyms(canonical);
+
+-- Search approved products.
+--   p_sort: relevance | newest | price-low | price-high | name | popular | rating | nearest
+--   p_buyer_barangay: used for proximity until addresses carry coordinates
+-- Every row carries total_count (for paging) and category_counts (facets before the category filter).
+-- Runs as definer so ratings aggregate over all orders, not just the caller's; only public listing data is returned.
+CREATE OR REPLACE FUNCTION search_products(
+  p_query TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_in_stock BOOLEAN DEFAULT TRUE,
+  p_sort TEXT DEFAULT 'relevance',
+  p_buyer_barangay TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+) RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  price NUMERIC,
+  unit TEXT,
+  quantity_available INTEGER,
+  category TEXT,
+  image_url TEXT,
+  farmer_id UUID,
+  created_at TIMESTAMPTZ,
+  farm_name TEXT,
+  farmer_first_name TEXT,
+  farmer_last_name TEXT,
+  barangay TEXT,
+  rating NUMERIC,
+  rating_count INTEGER,
+  order_count INTEGER,
+  relevance REAL,
+  total_count BIGINT,
+  category_counts JSONB
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_query TEXT := lower(unaccent(COALESCE(p_query, '')));
+  v_word_count INTEGER;
+BEGIN
+  SELECT count(DISTINCT w) INTO v_word_count
+  FROM regexp_split_to_table(v_query, '[^a-z0-9ñ]+') AS w
+  WHERE length(w) > 1;
+
+  RETURN QUERY
+  WITH words AS (
+    -- Query words: lower-cased, accents stripped, single letters dropped
+    SELECT DISTINCT w AS word
+    FROM regexp_split_to_table(v_query, '[^a-z0-9ñ]+') AS w
+    WHERE length(w) > 1
+  ),
+  terms AS (
+    -- Each word plus its synonyms in both directions (typos tolerated on the lookup too)
+    SELECT wd.word, wd.word AS term FROM words wd
+    UNION
+    SELECT wd.word, s.canonical FROM words wd
+    JOIN search_synonyms s ON s.term = wd.word OR similarity(s.term, wd.word) >= 0.5
+    UNION
+    SELECT wd.word, s.term FROM words wd
+    JOIN search_synonyms s ON s.canonical = wd.word OR similarity(s.canonical, wd.word) >= 0.5
+  ),
+  candidates AS (
+    SELECT
+      p.*,
+      pr.farm_name AS p_farm_name,
+      pr.first_name AS p_first_name,
+      pr.last_name AS p_last_name,
+      pr.barangay AS p_barangay,
+      lower(unaccent(p.name)) AS name_text,
+      lower(unaccent(concat_ws(' ', p.name, p.category, pr.farm_name, pr.barangay, p.description))) AS doc_text
+    FROM products p
+    LEFT JOIN profiles pr ON pr.id = p.farmer_id
+    WHERE p.status = 'approved'
+    AND (NOT p_in_stock OR p.quantity_available > 0)
+    AND (p_min_price IS NULL OR p.price >= p_min_price)
+    AND (p_max_price IS NULL OR p.price <= p_max_price)
+  ),
+  -- Best match score of every query word against every candidate
+  word_scores AS (
+    SELECT c.id AS product_id, t.word, max(GREATEST(
+      CASE
+        WHEN c.name_text LIKE '%' || t.term || '%' THEN 1.0
+        WHEN c.doc_text LIKE '%' || t.term || '%' THEN 0.7
+        ELSE 0
+      END,
+      word_similarity(t.term, c.name_text),
+      word_similarity(t.term, c.doc_text) * 0.6
+    )) AS score
+    FROM candidates c
+    CROSS JOIN terms t
+    GROUP BY c.id, t.word
+  ),
+  -- A product matches when every query word matched something
+  scored AS (
+    SELECT ws.product_id, avg(ws.score)::REAL AS score
+    FROM word_scores ws
+    GROUP BY ws.product_id
+    HAVING min(ws.score) >= 0.4
+  ),
+  ratings AS (
+    SELECT
+      o.product_id,
+      avg(o.ratings) FILTER (WHERE o.ratings > 0) AS avg_rating,
+      count(*) FILTER (WHERE o.ratings > 0)::INTEGER AS rating_count,
+      count(*) FILTER (WHERE o.status <> 'cancelled')::INTEGER AS order_count
+    FROM orders o
+    GROUP BY o.product_id
+  ),
+  matched AS (
+    SELECT
+      c.*,
+      COALESCE(r.score, 0)::REAL AS text_score,
+      rt.avg_rating,
+      COALESCE(rt.rating_count, 0) AS p_rating_count,
+      COALESCE(rt.order_count, 0) AS p_order_count,
+      (p_buyer_barangay IS NOT NULL AND lower(c.p_barangay) = lower(p_buyer_barangay)) AS is_near
+    FROM candidates c
+    LEFT JOIN scored r ON r.product_id = c.id
+    LEFT JOIN ratings rt ON rt.product_id = c.id
+    WHERE v_word_count = 0 OR r.product_id IS NOT NULL
+  ),
+  facets AS (
+    SELECT COALESCE(jsonb_object_agg(cat, n), '{}'::jsonb) AS counts
+    FROM (SELECT lower(m.category) AS cat, count(*) AS n FROM matched m GROUP BY lower(m.category)) f
+  ),
+  filtered AS (
+    SELECT
+      m.*,
+      -- Relevance first; rating and proximity break near-ties
+      (m.text_score
+        + COALESCE(m.avg_rating, 0) / 5 * 0.2
+        + CASE WHEN m.is_near THEN 0.15 ELSE 0 END)::REAL AS final_score
+    FROM matched m
+    WHERE p_category IS NULL OR p_category = 'all' OR lower(m.category) = lower(p_category)
+  )
+  SELECT
+    f.id,
+    f.name::TEXT,
+    f.description::TEXT,
+    f.price::NUMERIC,
+    f.unit::TEXT,
+    f.quantity_available::INTEGER,
+    f.category::TEXT,
+    f.image_url::TEXT,
+    f.farmer_id,
+    f.created_at,
+    f.p_farm_name::TEXT,
+    f.p_first_name::TEXT,
+    f.p_last_name::TEXT,
+    f.p_barangay::TEXT,
+    round(f.avg_rating, 1),
+    f.p_rating_count,
+    f.p_order_count,
+    f.final_score,
+    count(*) OVER (),
+    (SELECT counts FROM facets)
+  FROM filtered f
+  ORDER BY
+    CASE WHEN p_sort = 'nearest' THEN f.is_near END DESC,
+    CASE WHEN p_sort = 'price-low' THEN f.price END ASC,
+    CASE WHEN p_sort = 'price-high' THEN f.price END DESC,
+    CASE WHEN p_sort = 'name' THEN f.name END ASC,
+    CASE WHEN p_sort = 'popular' THEN f.p_order_count END DESC,
+    CASE WHEN p_sort = 'rating' THEN COALESCE(f.avg_rating, 0) END DESC,
+    CASE WHEN p_sort = 'newest' OR (p_sort = 'relevance' AND v_word_count = 0) THEN f.created_at END DESC,
+    f.final_score DESC,
+    f.created_at DESC,
+    f.id
+  LIMIT GREATEST(p_limit, 1)
+  OFFSET GREATEST(p_offset, 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION search_products(TEXT, TEXT, NUMERIC, NUMERIC, BOOLEAN, TEXT, TEXT, INTEGER, INTEGER) TO authenticated, anon;
@@ -0,0 +1,277 @@
+-- Product reviews: star rating, written comment and photos for a delivered order,
+-- one farmer reply per review, helpful votes and admin moderation.
+-- orders.ratings stays in sync with the review so older screens and search ranking keep working.
+
+CREATE TABLE IF NOT EXISTS product_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  buyer_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  farmer_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  rating INTEGER NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment TEXT CHECK (comment IS NULL OR length(comment) <= 1000),
+  photo_urls TEXT[] NOT NULL DEFAULT '{}' CHECK (coalesce(array_length(photo_urls, 1), 0) <= 5),
+  farmer_reply TEXT CHECK (farmer_reply IS NULL OR length(farmer_reply) <= 1000),
+  farmer_replied_at TIMESTAMPTZ,
+  helpful_count INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'published' CHECK (status IN ('published', 'hidden')),
+  is_flagged BOOLEAN NOT NULL DEFAULT FALSE,
+  flag_reason TEXT,
+  moderated_by UUID REFERENCES profiles(id),
+  moderated_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (order_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_reviews_product ON product_reviews(product_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_product_reviews_farmer ON product_reviews(farmer_id);
+CREATE INDEX IF NOT EXISTS idx_product_reviews_flagged ON product_reviews(is_flagged) WHERE is_flagged;
+
+-- One helpful vote per user per review
+CREATE TABLE IF NOT EXISTS product_review_votes (
+  review_id UUID NOT NULL REFERENCES product_reviews(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (review_id, user_id)
+);
+
+CREATE OR REPLACE FUNCTION is_admin_user()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND user_type IN ('admin', 'super-admin')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE product_reviews ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Published reviews are public" ON product_reviews;
+CREATE POLICY "Published reviews are public" ON product_reviews
+  FOR SELECT USING (
+    status = 'published'
+    OR buyer_id = auth.uid()
+    OR farmer_id = auth.uid()
+    OR is_admin_user()
+  );
+
+DROP POLICY IF EXISTS "Buyers can review their orders" ON product_reviews;
+CREATE POLICY "Buyers can review their orders" ON product_reviews
+  FOR INSERT WITH CHECK (buyer_id = auth.uid());
+
+-- Column-level rules (who may change what) are enforced by guard_product_review_update
+DROP POLICY IF EXISTS "Review parties and admins can update reviews" ON product_reviews;
+CREATE POLICY "Review parties and admins can update reviews" ON product_reviews
+  FOR UPDATE USING (
+    buyer_id = auth.uid()
+    OR farmer_id = auth.uid()
+    OR is_admin_user()
+  );
+
+DROP POLICY IF EXISTS "Buyers and admins can delete reviews" ON product_reviews;
+CREATE POLICY "Buyers and admins can delete reviews" ON product_reviews
+  FOR DELETE USING (buyer_id = auth.uid() OR is_admin_user());
+
+ALTER TABLE product_review_votes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view review votes" ON product_review_votes;
+CREATE POLICY "Anyone can view review votes" ON product_review_votes
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Users manage their own review votes" ON product_review_votes;
+CREATE POLICY "Users manage their own review votes" ON product_review_votes
+  FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+-- A review must come from the order's buyer, for a delivered order that contains the product
+CREATE OR REPLACE FUNCTION validate_product_review()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_order RECORD;
+BEGIN
+  SELECT id, buyer_id, farmer_id, product_id, status INTO v_order
+  FROM orders WHERE id = NEW.order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.buyer_id <> NEW.buyer_id THEN
+    RAISE EXCEPTION 'Only the buyer of this order can review it';
+  END IF;
+
+  IF v_order.status <> 'delivered' THEN
+    RAISE EXCEPTION 'Only delivered orders can be reviewed';
+  END IF;
+
+  IF v_order.product_id IS DISTINCT FROM NEW.product_id AND NOT EXISTS (
+    SELECT 1 FROM order_items WHERE order_id = NEW.order_id AND product_id = NEW.product_id
+  ) THEN
+    RAISE EXCEPTION 'This product is not part of the order';
+  END IF;
+
+  NEW.farmer_id := v_order.farmer_id;
+  NEW.helpful_count := 0;
+  NEW.status := 'published';
+  NEW.is_flagged := FALSE;
+  NEW.farmer_reply := NULL;
+  NEW.farmer_replied_at := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_validate_product_review ON product_reviews;
+CREATE TRIGGER trigger_validate_product_review
+  BEFORE INSERT ON product_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_product_review();
+
+-- Buyers edit their own rating, comment and photos; farmers only their reply;
+-- admins only moderation fields. helpful_count is maintained by the vote trigger.
+CREATE OR REPLACE FUNCTION guard_product_review_update()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_is_admin BOOLEAN := is_admin_user();
+BEGIN
+  -- Trigger-maintained counters and internal calls (no signed-in user) pass through
+  IF auth.uid() IS NULL OR pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.order_id <> OLD.order_id OR NEW.product_id <> OLD.product_id
+     OR NEW.buyer_id <> OLD.buyer_id OR NEW.farmer_id <> OLD.farmer_id
+     OR NEW.helpful_count <> OLD.helpful_count THEN
+    RAISE EXCEPTION 'These review fields cannot be changed';
+  END IF;
+
+  IF (NEW.rating, NEW.comment, NEW.photo_urls) IS DISTINCT FROM (OLD.rating, OLD.comment, OLD.photo_urls)
+     AND auth.uid() <> OLD.buyer_id THEN
+    RAISE EXCEPTION 'Only the reviewer can edit this review';
+  END IF;
+
+  IF NEW.farmer_reply IS DISTINCT FROM OLD.farmer_reply THEN
+    IF auth.uid() <> OLD.farmer_id AND NOT v_is_admin THEN
+      RAISE EXCEPTION 'Only the farmer can reply to this review';
+    END IF;
+    NEW.farmer_replied_at := CASE WHEN NEW.farmer_reply IS NULL THEN NULL ELSE NOW() END;
+  ELSE
+    NEW.farmer_replied_at := OLD.farmer_replied_at;
+  END IF;
+
+  IF (NEW.status, NEW.is_flagged, NEW.flag_reason) IS DISTINCT FROM (OLD.status, OLD.is_flagged, OLD.flag_reason) THEN
+    IF NOT v_is_admin THEN
+      RAISE EXCEPTION 'Only admins can moderate reviews';
+    END IF;
+    NEW.moderated_by := auth.uid();
+    NEW.moderated_at := NOW();
+  ELSE
+    NEW.moderated_by := OLD.moderated_by;
+    NEW.moderated_at := OLD.moderated_at;
+  END IF;
+
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_guard_product_review_update ON product_reviews;
+CREATE TRIGGER trigger_guard_product_review_update
+  BEFORE UPDATE ON product_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_product_review_update();
+
+-- Mirror the rating of the order's main product into orders.ratings (0 = unrated)
+CREATE OR REPLACE FUNCTION sync_order_rating_from_review()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    UPDATE orders SET ratings = 0
+    WHERE id = OLD.order_id AND product_id = OLD.product_id;
+  ELSE
+    UPDATE orders
+    SET ratings = CASE WHEN NEW.status = 'hidden' THEN 0 ELSE NEW.rating END
+    WHERE id = NEW.order_id AND product_id = NEW.product_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_sync_order_rating ON product_reviews;
+CREATE TRIGGER trigger_sync_order_rating
+  AFTER INSERT OR UPDATE OF rating, status OR DELETE ON product_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_order_rating_from_review();
+
+-- Keep product_reviews.helpful_count equal to the number of votes
+CREATE OR REPLACE FUNCTION update_review_helpful_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE product_reviews
+  SET helpful_count = (
+    SELECT count(*) FROM product_review_votes
+    WHERE review_id = COALESCE(NEW.review_id, OLD.review_id)
+  )
+  WHERE id = COALESCE(NEW.review_id, OLD.review_id);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_update_review_helpful_count ON product_review_votes;
+CREATE TRIGGER trigger_update_review_helpful_count
+  AFTER INSERT OR DELETE ON product_review_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_review_helpful_count();
+
+-- Existing star-only ratings become reviews without a comment
+INSERT INTO product_reviews (order_id, product_id, buyer_id, farmer_id, rating, created_at, updated_at)
+SELECT o.id, o.product_id, o.buyer_id, o.farmer_id, o.ratings, o.updated_at, o.updated_at
+FROM orders o
+WHERE o.ratings BETWEEN 1 AND 5
+AND o.status = 'delivered'
+AND o.product_id IS NOT NULL
+ON CONFLICT (order_id, product_id) DO NOTHING;
+
+-- Storage bucket for review photos, one folder per reviewer
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('review-photos', 'review-photos', true)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Users can upload their own review photos" ON storage.objects;
+CREATE POLICY "Users can upload their own review photos"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'review-photos'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+DROP POLICY IF EXISTS "Anyone can view review photos" ON storage.objects;
+CREATE POLICY "Anyone can view review photos"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'review-photos');
+
+DROP POLICY IF EXISTS "Users can delete their own review photos" ON storage.objects;
+CREATE POLICY "Users can delete their own review photos"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'review-photos'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+-- Allow the review notification type sent to farmers
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check CHECK (type IN (
+  'user_approved', 'user_rejected', 'user_deleted',
+  'product_approved', 'product_rejected', 'product_deleted',
+  'product_created', 'product_updated', 'product_low_stock',
+  'verification_approved', 'verification_rejected',
+  'order_created', 'order_confirmed', 'order_processing', 'order_ready',
+  'order_completed', 'order_cancelled', 'order_status_changed',
+  'order_cancellation_requested',
+  'payment_received', 'payment_pending',
+  'review_received', 'review_reply',
+  'admin_action', 'system_message'
+));
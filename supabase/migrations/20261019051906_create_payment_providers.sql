@@ -0,0 +1,288 @@
+-- Payment providers
+--
+-- transactions.payment_method names the provider that settles the transaction:
+--   cod          - cash on delivery, completed when the order is delivered
+--   manual_proof - buyer pays outside the app, completed when the order is delivered with proof of payment
+--   gcash / maya - e-wallet checkout through the payment gateway, completed by its webhook
+--   mock         - local test provider, started by start_mock_payment and completed by events the
+--                  app sends itself. Off unless the
+--                  database setting app.settings.mock_payments_enabled is 'true' (never in production):
+--                    ALTER DATABASE postgres SET app.settings.mock_payments_enabled = 'true';
+-- Every provider outcome goes through apply_payment_event, which records it in payment_events
+-- and moves the transaction to completed, failed or refunded. Clients can't change a payment's
+-- status themselves; only admins may update transactions directly.
+
+-- 1. Provider details on transactions
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS provider_reference TEXT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS checkout_url TEXT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS amount_paid NUMERIC(10,2);
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS failure_reason TEXT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS paid_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_provider_reference ON transactions(provider_reference);
+
+-- 'pending' was a placeholder; those orders were paid with an uploaded proof
+UPDATE transactions SET payment_method = 'manual_proof'
+WHERE payment_method IS NULL OR payment_method = 'pending';
+
+ALTER TABLE transactions ALTER COLUMN payment_method SET DEFAULT 'manual_proof';
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_payment_method_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_payment_method_check CHECK (
+  payment_method IN ('cod', 'manual_proof', 'gcash', 'maya', 'mock')
+);
+
+-- The app decides whether to offer mock payments, but only this setting lets them through
+CREATE OR REPLACE FUNCTION mock_payments_enabled()
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(current_setting('app.settings.mock_payments_enabled', true), '') = 'true';
+$$ LANGUAGE sql STABLE;
+
+-- Older order RPCs still pass 'pending'. Mock transactions are refused while mock payments are off,
+-- whichever checkout path creates them.
+CREATE OR REPLACE FUNCTION normalize_transaction_payment_method()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.payment_method IS NULL OR NEW.payment_method = 'pending' THEN
+    NEW.payment_method := 'manual_proof';
+  END IF;
+
+  IF NEW.payment_method = 'mock'
+    AND (TG_OP = 'INSERT' OR OLD.payment_method IS DISTINCT FROM 'mock')
+    AND NOT mock_payments_enabled() THEN
+    RAISE EXCEPTION 'Mock payments are not enabled';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_normalize_transaction_payment_method ON transactions;
+CREATE TRIGGER trigger_normalize_transaction_payment_method
+  BEFORE INSERT OR UPDATE OF payment_method ON transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION normalize_transaction_payment_method();
+
+-- 2. Provider event log. (provider, event_id) is unique so webhook retries are ignored.
+CREATE TABLE IF NOT EXISTS payment_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  provider_reference TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('completed', 'failed', 'refunded')),
+  amount NUMERIC(10,2),
+  failure_reason TEXT,
+  payload JSONB,
+  result TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (provider, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_events_reference ON payment_events(provider_reference);
+
+ALTER TABLE payment_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view payment events" ON payment_events;
+CREATE POLICY "Admins can view payment events" ON payment_events
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.user_type IN ('admin', 'super-admin')
+    )
+  );
+
+-- 3. Apply a provider outcome to every transaction sharing the provider reference
+--    (one e-wallet checkout can pay several per-farmer orders).
+--    Allowed moves: pending -> completed | failed, failed -> completed (late success),
+--    completed -> refunded. Anything else is recorded and ignored.
+--    Returns 'applied', 'duplicate', 'ignored' or 'amount_mismatch'.
+CREATE OR REPLACE FUNCTION apply_payment_event(
+  p_provider TEXT,
+  p_event_id TEXT,
+  p_provider_reference TEXT,
+  p_status TEXT,
+  p_amount NUMERIC DEFAULT NULL,
+  p_failure_reason TEXT DEFAULT NULL,
+  p_payload JSONB DEFAULT NULL
+) RETURNS TEXT AS $$
+DECLARE
+  v_event_id UUID;
+  v_expected NUMERIC;
+  v_count INTEGER;
+  v_result TEXT := 'applied';
+BEGIN
+  IF p_provider = 'mock' AND NOT mock_payments_enabled() THEN
+    RAISE EXCEPTION 'Mock payments are not enabled';
+  END IF;
+
+  -- Real providers are applied by the payment-webhook edge function with the service role.
+  -- Anyone else may only drive the mock provider, and only for their own orders.
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    IF p_provider <> 'mock' THEN
+      RAISE EXCEPTION 'Only the payment gateway can report % payments', p_provider;
+    END IF;
+
+    IF auth.uid() IS NULL OR EXISTS (
+      SELECT 1 FROM transactions t
+      JOIN orders o ON o.id = t.order_id
+      WHERE t.provider_reference = p_provider_reference
+      AND o.buyer_id IS DISTINCT FROM auth.uid()
+    ) THEN
+      RAISE EXCEPTION 'Not allowed to update this payment';
+    END IF;
+  END IF;
+
+  INSERT INTO payment_events (provider, event_id, provider_reference, status, amount, failure_reason, payload)
+  VALUES (p_provider, p_event_id, p_provider_reference, p_status, p_amount, p_failure_reason, p_payload)
+  ON CONFLICT (provider, event_id) DO NOTHING
+  RETURNING id INTO v_event_id;
+
+  IF v_event_id IS NULL THEN
+    RETURN 'duplicate';
+  END IF;
+
+  SELECT sum(amount), count(*) INTO v_expected, v_count
+  FROM transactions
+  WHERE provider_reference = p_provider_reference
+  AND payment_method = p_provider;
+
+  IF v_count = 0 THEN
+    v_result := 'ignored';
+  ELSIF p_status = 'completed' THEN
+    IF p_amount IS NOT NULL AND p_amount <> v_expected THEN
+      v_result := 'amount_mismatch';
+      UPDATE transactions
+      SET status = 'failed',
+          failure_reason = format('Paid amount %s does not match the order total %s', p_amount, v_expected),
+          updated_at = NOW()
+      WHERE provider_reference = p_provider_reference
+      AND payment_method = p_provider
+      AND status = 'pending';
+    ELSE
+      UPDATE transactions
+      SET status = 'completed',
+          amount_paid = amount,
+          paid_at = NOW(),
+          failure_reason = NULL,
+          updated_at = NOW()
+      WHERE provider_reference = p_provider_reference
+      AND payment_method = p_provider
+      AND status IN ('pending', 'failed');
+    END IF;
+  ELSIF p_status = 'failed' THEN
+    UPDATE transactions
+    SET status = 'failed',
+        failure_reason = COALESCE(p_failure_reason, 'Payment failed'),
+        updated_at = NOW()
+    WHERE provider_reference = p_provider_reference
+    AND payment_method = p_provider
+    AND status = 'pending';
+  ELSIF p_status = 'refunded' THEN
+    UPDATE transactions
+    SET status = 'refunded',
+        failure_reason = p_failure_reason,
+        updated_at = NOW()
+    WHERE provider_reference = p_provider_reference
+    AND payment_method = p_provider
+    AND status = 'completed';
+  END IF;
+
+  UPDATE payment_events SET result = v_result WHERE id = v_event_id;
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION apply_payment_event(TEXT, TEXT, TEXT, TEXT, NUMERIC, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION apply_payment_event(TEXT, TEXT, TEXT, TEXT, NUMERIC, TEXT, JSONB) TO authenticated, service_role;
+
+-- 4. Cash on delivery and proof-of-payment orders are settled on delivery
+CREATE OR REPLACE FUNCTION settle_payment_on_delivery()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'delivered' AND OLD.status IS DISTINCT FROM 'delivered' THEN
+    UPDATE transactions
+    SET status = 'completed',
+        amount_paid = amount,
+        paid_at = NOW(),
+        failure_reason = NULL,
+        updated_at = NOW()
+    WHERE order_id = NEW.id
+    AND status = 'pending'
+    AND (
+      payment_method = 'cod'
+      OR (payment_method = 'manual_proof' AND NEW.proof_of_payment IS NOT NULL)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_settle_payment_on_delivery ON orders;
+CREATE TRIGGER trigger_settle_payment_on_delivery
+  AFTER UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION settle_payment_on_delivery();
+
+-- 5. Mock checkout: issue a reference for the buyer's own unpaid mock transactions.
+--    The gateway checkout does the same in the payment-checkout edge function.
+CREATE OR REPLACE FUNCTION start_mock_payment(p_transaction_ids UUID[])
+RETURNS TEXT AS $$
+DECLARE
+  v_reference TEXT := 'MOCK-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::BIGINT
+    || '-' || upper(substr(md5(random()::TEXT), 1, 6));
+  v_count INTEGER;
+BEGIN
+  IF NOT mock_payments_enabled() THEN
+    RAISE EXCEPTION 'Mock payments are not enabled';
+  END IF;
+
+  IF auth.uid() IS NULL OR EXISTS (
+    SELECT 1 FROM transactions t
+    JOIN orders o ON o.id = t.order_id
+    WHERE t.id = ANY(p_transaction_ids)
+    AND o.buyer_id IS DISTINCT FROM auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to pay for these orders';
+  END IF;
+
+  UPDATE transactions
+  SET status = 'pending',
+      provider_reference = v_reference,
+      checkout_url = NULL,
+      failure_reason = NULL,
+      updated_at = NOW()
+  WHERE id = ANY(p_transaction_ids)
+  AND payment_method = 'mock'
+  AND status IN ('pending', 'failed');
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'Nothing left to pay';
+  END IF;
+
+  RETURN v_reference;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION start_mock_payment(UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION start_mock_payment(UUID[]) TO authenticated;
+
+-- 6. Payments change through the functions above and the order triggers. The original policies let
+--    any client write any transaction, including marking its own payment completed.
+DROP POLICY IF EXISTS "System can create transactions" ON transactions;
+DROP POLICY IF EXISTS "Buyers can create pending payments for their orders" ON transactions;
+CREATE POLICY "Buyers can create pending payments for their orders" ON transactions
+  FOR INSERT WITH CHECK (
+    status = 'pending'
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = transactions.order_id
+      AND orders.buyer_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "System can update transactions" ON transactions;
+DROP POLICY IF EXISTS "Admins can update transactions" ON transactions;
+CREATE POLICY "Admins can update transactions" ON transactions
+  FOR UPDATE USING (is_admin_user()) WITH CHECK (is_admin_user());
@@ -0,0 +1,529 @@
+-- Refunds
+--
+-- A buyer asks for a full or partial refund of a delivered order (refund_requests, one line per
+-- product in refund_request_items). The order's farmer or an admin approves or denies it.
+-- An approved refund is written as its own transaction (transaction_type = 'refund') linked to
+-- the payment it refunds; the payment becomes 'refunded' once it has been refunded in full.
+-- Stock comes back only for the quantities the buyer actually returned.
+-- Cancelling an order that was already paid refunds it the same way.
+
+-- 1. Refund transactions live next to the payments they refund
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS transaction_type TEXT NOT NULL DEFAULT 'payment';
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_transaction_type_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_transaction_type_check CHECK (
+  transaction_type IN ('payment', 'refund')
+);
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS parent_transaction_id UUID REFERENCES transactions(id);
+
+CREATE INDEX IF NOT EXISTS idx_transactions_parent ON transactions(parent_transaction_id);
+
+-- 2. Refund requests
+CREATE TABLE IF NOT EXISTS refund_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  buyer_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  farmer_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  refund_type TEXT NOT NULL CHECK (refund_type IN ('full', 'partial')),
+  issue_type TEXT CHECK (issue_type IN ('rotten', 'damaged', 'wrong_item', 'missing_item', 'other')),
+  reason TEXT NOT NULL,
+  photo_urls TEXT[] NOT NULL DEFAULT '{}' CHECK (cardinality(photo_urls) <= 5),
+  amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'denied')),
+  decided_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  decided_at TIMESTAMPTZ,
+  decision_note TEXT,
+  refund_transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_refund_requests_order ON refund_requests(order_id);
+CREATE INDEX IF NOT EXISTS idx_refund_requests_status ON refund_requests(status);
+
+-- Only one open request per order
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refund_requests_one_pending
+  ON refund_requests(order_id) WHERE status = 'pending';
+
+CREATE TABLE IF NOT EXISTS refund_request_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  refund_request_id UUID NOT NULL REFERENCES refund_requests(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id),
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_price NUMERIC NOT NULL CHECK (unit_price >= 0),
+  -- Units that made it back to the farmer; set when the request is approved
+  returned_quantity INTEGER NOT NULL DEFAULT 0 CHECK (returned_quantity >= 0 AND returned_quantity <= quantity),
+  UNIQUE (refund_request_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_refund_request_items_request ON refund_request_items(refund_request_id);
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS refund_request_id UUID REFERENCES refund_requests(id) ON DELETE SET NULL;
+
+-- Requests are created and decided through the functions below; parties can only read them
+ALTER TABLE refund_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE refund_request_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Order parties and admins can view refund requests" ON refund_requests;
+CREATE POLICY "Order parties and admins can view refund requests" ON refund_requests
+  FOR SELECT USING (buyer_id = auth.uid() OR farmer_id = auth.uid() OR is_admin_user());
+
+DROP POLICY IF EXISTS "Order parties and admins can view refund items" ON refund_request_items;
+CREATE POLICY "Order parties and admins can view refund items" ON refund_request_items
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM refund_requests r
+      WHERE r.id = refund_request_items.refund_request_id
+      AND (r.buyer_id = auth.uid() OR r.farmer_id = auth.uid() OR is_admin_user())
+    )
+  );
+
+-- 3. Farmers may now settle issue reports on their own orders
+INSERT INTO order_status_transitions (from_status, to_status, role) VALUES
+  ('issue_reported', 'delivered', 'farmer'),
+  ('issue_reported', 'cancelled', 'farmer')
+ON CONFLICT DO NOTHING;
+
+-- 4. Refund part or all of what was paid for an order.
+--    p_amount NULL refunds whatever is left. Returns the refund transaction, or NULL when
+--    nothing was paid or everything was already refunded.
+CREATE OR REPLACE FUNCTION record_order_refund(
+  p_order_id UUID,
+  p_amount NUMERIC DEFAULT NULL,
+  p_refund_request_id UUID DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_payment RECORD;
+  v_paid NUMERIC;
+  v_refunded NUMERIC;
+  v_amount NUMERIC;
+  v_refund_id UUID;
+BEGIN
+  SELECT * INTO v_payment
+  FROM transactions
+  WHERE order_id = p_order_id
+  AND transaction_type = 'payment'
+  AND status IN ('completed', 'refunded')
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_paid := COALESCE(v_payment.amount_paid, v_payment.amount);
+
+  SELECT COALESCE(sum(amount), 0) INTO v_refunded
+  FROM transactions
+  WHERE parent_transaction_id = v_payment.id
+  AND transaction_type = 'refund';
+
+  v_amount := LEAST(COALESCE(p_amount, v_paid - v_refunded), v_paid - v_refunded);
+  IF v_amount <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO transactions (
+    order_id, amount, status, payment_method, transaction_type,
+    parent_transaction_id, refund_request_id, failure_reason, paid_at
+  ) VALUES (
+    p_order_id, v_amount, 'completed', v_payment.payment_method, 'refund',
+    v_payment.id, p_refund_request_id, p_reason, NOW()
+  )
+  RETURNING id INTO v_refund_id;
+
+  IF v_refunded + v_amount >= v_paid THEN
+    UPDATE transactions
+    SET status = 'refunded', updated_at = NOW()
+    WHERE id = v_payment.id;
+  END IF;
+
+  RETURN v_refund_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the guarded functions below (cancelling, deciding a refund request) may record refunds
+REVOKE ALL ON FUNCTION record_order_refund(UUID, NUMERIC, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Refund rows are born completed; they must not confirm orders the way payments do
+CREATE OR REPLACE FUNCTION auto_confirm_order_on_payment()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.transaction_type = 'payment' AND NEW.status = 'completed' AND OLD.status != 'completed' THEN
+    PERFORM set_config('farm2go.order_actor_role', 'system', true);
+    PERFORM set_config('farm2go.order_status_reason', 'Payment completed', true);
+
+    UPDATE orders
+    SET status = 'confirmed'
+    WHERE id = NEW.order_id AND status = 'pending';
+
+    PERFORM set_config('farm2go.order_actor_role', '', true);
+    PERFORM set_config('farm2go.order_status_reason', '', true);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 5. Cancelling now settles money: paid orders are refunded, unpaid ones fail.
+--    Stock comes back for undelivered orders; after delivery only returned units do,
+--    and those are restored by decide_refund_request.
+CREATE OR REPLACE FUNCTION update_order_status_safe(
+  p_order_id UUID,
+  p_new_status TEXT,
+  p_reason TEXT DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  v_order RECORD;
+BEGIN
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  -- The trigger lets unchanged statuses through unchecked, and the side effects below must
+  -- run once per change, so repeats are refused and the caller is checked up front
+  IF v_order.status::TEXT = p_new_status THEN
+    RAISE EXCEPTION 'Order is already %', p_new_status;
+  END IF;
+
+  IF order_actor_role(v_order.buyer_id, v_order.farmer_id) IS NULL THEN
+    RAISE EXCEPTION 'Unauthorized to update this order';
+  END IF;
+
+  PERFORM set_config('farm2go.order_status_reason', COALESCE(p_reason, ''), true);
+
+  UPDATE orders
+  SET status = p_new_status
+  WHERE id = p_order_id;
+
+  PERFORM set_config('farm2go.order_status_reason', '', true);
+
+  IF p_new_status = 'cancelled' THEN
+    IF v_order.status <> 'issue_reported' THEN
+      IF EXISTS (SELECT 1 FROM order_items WHERE order_id = p_order_id) THEN
+        UPDATE products p
+        SET quantity_available = p.quantity_available + oi.quantity,
+            updated_at = NOW()
+        FROM order_items oi
+        WHERE oi.order_id = p_order_id
+        AND p.id = oi.product_id;
+      ELSE
+        UPDATE products
+        SET quantity_available = quantity_available + v_order.quantity,
+            updated_at = NOW()
+        WHERE id = v_order.product_id;
+      END IF;
+    END IF;
+
+    PERFORM record_order_refund(p_order_id, NULL, NULL, COALESCE(p_reason, 'Order cancelled'));
+
+    UPDATE transactions
+    SET status = 'failed',
+        failure_reason = COALESCE(failure_reason, 'Order cancelled'),
+        updated_at = NOW()
+    WHERE order_id = p_order_id
+    AND transaction_type = 'payment'
+    AND status = 'pending';
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'order_id', p_order_id,
+    'from_status', v_order.status,
+    'new_status', p_new_status
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION update_order_status_safe(UUID, TEXT, TEXT) TO authenticated;
+
+-- 6. Buyer asks for a refund of a delivered order.
+--    p_items: [{ "product_id": "...", "quantity": 2 }, ...]; ignored for a full refund,
+--    which covers every line. The order moves to issue_reported until the request is decided.
+CREATE OR REPLACE FUNCTION request_order_refund(
+  p_order_id UUID,
+  p_refund_type TEXT,
+  p_reason TEXT,
+  p_issue_type TEXT DEFAULT NULL,
+  p_photo_urls TEXT[] DEFAULT '{}',
+  p_items JSONB DEFAULT '[]'::jsonb
+) RETURNS JSON AS $$
+DECLARE
+  v_order RECORD;
+  v_request_id UUID;
+  v_amount NUMERIC;
+  v_refunded NUMERIC;
+BEGIN
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.buyer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the buyer can request a refund';
+  END IF;
+
+  IF v_order.status NOT IN ('delivered', 'issue_reported') THEN
+    RAISE EXCEPTION 'Refunds can only be requested for delivered orders. Current status: %', v_order.status;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM refund_requests WHERE order_id = p_order_id AND status = 'pending') THEN
+    RAISE EXCEPTION 'A refund request for this order is already being reviewed';
+  END IF;
+
+  IF p_refund_type NOT IN ('full', 'partial') THEN
+    RAISE EXCEPTION 'Invalid refund type: %', p_refund_type;
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Please describe the problem';
+  END IF;
+
+  -- Earlier approved requests (and a pending one, should it exist) have already claimed part
+  -- of the order; only the rest can be refunded
+  SELECT COALESCE(sum(amount), 0) INTO v_refunded
+  FROM refund_requests
+  WHERE order_id = p_order_id
+  AND status IN ('pending', 'approved');
+
+  IF v_refunded >= v_order.total_price THEN
+    RAISE EXCEPTION 'This order has already been refunded in full';
+  END IF;
+
+  INSERT INTO refund_requests (
+    order_id, buyer_id, farmer_id, refund_type, issue_type, reason, photo_urls, amount
+  ) VALUES (
+    p_order_id, v_order.buyer_id, v_order.farmer_id, p_refund_type, p_issue_type,
+    trim(p_reason), COALESCE(p_photo_urls, '{}'), v_order.total_price - v_refunded
+  )
+  RETURNING id INTO v_request_id;
+
+  IF p_refund_type = 'full' THEN
+    INSERT INTO refund_request_items (refund_request_id, product_id, quantity, unit_price)
+    SELECT v_request_id, ol.product_id, ol.quantity - COALESCE(cl.quantity, 0), ol.unit_price
+    FROM (
+      SELECT product_id, sum(quantity) AS quantity, max(unit_price) AS unit_price
+      FROM order_items
+      WHERE order_id = p_order_id
+      GROUP BY product_id
+    ) ol
+    LEFT JOIN (
+      SELECT earlier_item.product_id, sum(earlier_item.quantity) AS quantity
+      FROM refund_request_items earlier_item
+      JOIN refund_requests earlier ON earlier.id = earlier_item.refund_request_id
+      WHERE earlier.order_id = p_order_id
+      AND earlier.status IN ('pending', 'approved')
+      AND earlier.id <> v_request_id
+      GROUP BY earlier_item.product_id
+    ) cl ON cl.product_id = ol.product_id
+    WHERE ol.quantity > COALESCE(cl.quantity, 0);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Everything on this order has already been refunded';
+    END IF;
+  ELSE
+    INSERT INTO refund_request_items (refund_request_id, product_id, quantity, unit_price)
+    SELECT v_request_id, oi.product_id, (i->>'quantity')::INTEGER, oi.unit_price
+    FROM jsonb_array_elements(p_items) AS i
+    JOIN order_items oi
+      ON oi.order_id = p_order_id
+      AND oi.product_id = (i->>'product_id')::UUID
+    WHERE (i->>'quantity')::INTEGER > 0;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Choose at least one item to refund';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM refund_request_items ri
+      JOIN order_items oi ON oi.order_id = p_order_id AND oi.product_id = ri.product_id
+      LEFT JOIN (
+        SELECT earlier_item.product_id, sum(earlier_item.quantity) AS quantity
+        FROM refund_request_items earlier_item
+        JOIN refund_requests earlier ON earlier.id = earlier_item.refund_request_id
+        WHERE earlier.order_id = p_order_id
+        AND earlier.status IN ('pending', 'approved')
+        AND earlier.id <> v_request_id
+        GROUP BY earlier_item.product_id
+      ) cl ON cl.product_id = ri.product_id
+      WHERE ri.refund_request_id = v_request_id
+      AND ri.quantity > oi.quantity - COALESCE(cl.quantity, 0)
+    ) THEN
+      RAISE EXCEPTION 'Cannot refund more than was ordered and not yet refunded';
+    END IF;
+
+    SELECT sum(quantity * unit_price) INTO v_amount
+    FROM refund_request_items
+    WHERE refund_request_id = v_request_id;
+
+    UPDATE refund_requests
+    SET amount = LEAST(v_amount, v_order.total_price - v_refunded)
+    WHERE id = v_request_id;
+  END IF;
+
+  IF v_order.status = 'delivered' THEN
+    PERFORM update_order_status_safe(
+      p_order_id,
+      'issue_reported',
+      format('%s refund requested: %s', initcap(p_refund_type), trim(p_reason))
+    );
+  END IF;
+
+  RETURN (SELECT row_to_json(r.*) FROM refund_requests r WHERE r.id = v_request_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION request_order_refund(UUID, TEXT, TEXT, TEXT, TEXT[], JSONB) TO authenticated;
+
+-- 7. Farmer or admin decides a refund request.
+--    p_returned: [{ "product_id": "...", "quantity": 1 }, ...] - units that came back and can be
+--    sold again. Approving a full refund cancels the order; anything else returns it to delivered.
+CREATE OR REPLACE FUNCTION decide_refund_request(
+  p_request_id UUID,
+  p_approve BOOLEAN,
+  p_note TEXT DEFAULT NULL,
+  p_returned JSONB DEFAULT '[]'::jsonb
+) RETURNS JSON AS $$
+DECLARE
+  v_request RECORD;
+  v_order_status TEXT;
+  v_refund_id UUID;
+BEGIN
+  SELECT * INTO v_request
+  FROM refund_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Refund request not found';
+  END IF;
+
+  IF v_request.farmer_id IS DISTINCT FROM auth.uid() AND NOT is_admin_user() THEN
+    RAISE EXCEPTION 'Only the farmer or an admin can decide this refund';
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'This refund request was already %', v_request.status;
+  END IF;
+
+  SELECT status INTO v_order_status FROM orders WHERE id = v_request.order_id;
+
+  IF p_approve THEN
+    UPDATE refund_request_items ri
+    SET returned_quantity = LEAST(GREATEST((r->>'quantity')::INTEGER, 0), ri.quantity)
+    FROM jsonb_array_elements(COALESCE(p_returned, '[]'::jsonb)) AS r
+    WHERE ri.refund_request_id = p_request_id
+    AND ri.product_id = (r->>'product_id')::UUID;
+
+    UPDATE products p
+    SET quantity_available = p.quantity_available + ri.returned_quantity,
+        updated_at = NOW()
+    FROM refund_request_items ri
+    WHERE ri.refund_request_id = p_request_id
+    AND ri.returned_quantity > 0
+    AND p.id = ri.product_id;
+
+    v_refund_id := record_order_refund(
+      v_request.order_id,
+      CASE WHEN v_request.refund_type = 'full' THEN NULL ELSE v_request.amount END,
+      p_request_id,
+      v_request.reason
+    );
+  END IF;
+
+  UPDATE refund_requests
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'denied' END,
+      decided_by = auth.uid(),
+      decided_at = NOW(),
+      decision_note = NULLIF(trim(COALESCE(p_note, '')), ''),
+      refund_transaction_id = v_refund_id,
+      updated_at = NOW()
+  WHERE id = p_request_id;
+
+  IF v_order_status = 'issue_reported' THEN
+    PERFORM update_order_status_safe(
+      v_request.order_id,
+      CASE WHEN p_approve AND v_request.refund_type = 'full' THEN 'cancelled' ELSE 'delivered' END,
+      CASE WHEN p_approve
+        THEN format('%s refund approved', initcap(v_request.refund_type))
+        ELSE COALESCE('Refund denied: ' || NULLIF(trim(COALESCE(p_note, '')), ''), 'Refund denied')
+      END
+    );
+  END IF;
+
+  RETURN (SELECT row_to_json(r.*) FROM refund_requests r WHERE r.id = p_request_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION decide_refund_request(UUID, BOOLEAN, TEXT, JSONB) TO authenticated;
+
+-- 8. Storage bucket for refund evidence, one folder per buyer
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('refund-photos', 'refund-photos', true)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Users can upload their own refund photos" ON storage.objects;
+CREATE POLICY "Users can upload their own refund photos"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'refund-photos'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+DROP POLICY IF EXISTS "Anyone can view refund photos" ON storage.objects;
+CREATE POLICY "Anyone can view refund photos"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'refund-photos');
+
+-- 9. Report revenue (20261019045930_create_error_logs.sql) is net of approved refunds. An order refunded in full
+--    has a 'refunded' payment and drops out altogether.
+CREATE OR REPLACE FUNCTION get_report_order_stats(p_start TIMESTAMPTZ, p_end TIMESTAMPTZ)
+RETURNS JSON AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND user_type = 'super-admin') THEN
+    RAISE EXCEPTION 'Only super admins can view reports';
+  END IF;
+
+  RETURN json_build_object(
+    'orders', (
+      SELECT count(*) FROM orders
+      WHERE created_at >= p_start AND created_at < p_end
+    ),
+    'revenue', (
+      SELECT COALESCE(sum(
+        o.total_price - COALESCE((
+          SELECT sum(r.amount) FROM refund_requests r
+          WHERE r.order_id = o.id AND r.status = 'approved'
+        ), 0)
+      ), 0)
+      FROM orders o
+      WHERE o.created_at >= p_start AND o.created_at < p_end
+      AND o.status <> 'cancelled'
+      AND EXISTS (
+        SELECT 1 FROM transactions t
+        WHERE t.order_id = o.id
+        AND t.transaction_type = 'payment'
+        AND t.status = 'completed'
+      )
+    ),
+    'active_farmers', (
+      SELECT count(DISTINCT farmer_id) FROM (
+        SELECT farmer_id FROM orders WHERE created_at >= p_start AND created_at < p_end
+        UNION
+        SELECT farmer_id FROM products WHERE updated_at >= p_start AND updated_at < p_end
+      ) active
+    )
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,118 @@
+-- Server-issued purchase codes and purchase QR scan log
+--
+-- Every order gets its purchase code from the database (FG-YYYY-XXXXXX), whatever the client sent.
+-- The QR code a buyer shows is signed by the purchase-qr Edge Function; scanners verify it
+-- offline with the public key and record each scan in purchase_code_scans.
+
+-- 1. Purchase code generation
+-- Same alphabet as the old client generator: no I, O, 0 or 1, which are easy to misread
+CREATE OR REPLACE FUNCTION generate_purchase_code()
+RETURNS TEXT AS $$
+DECLARE
+  v_alphabet CONSTANT TEXT := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  v_bytes BYTEA;
+  v_code TEXT;
+BEGIN
+  LOOP
+    -- The first six bytes of a v4 UUID are fully random; 256 is a multiple of 32 so no bias
+    v_bytes := decode(replace(gen_random_uuid()::TEXT, '-', ''), 'hex');
+    v_code := 'FG-' || EXTRACT(YEAR FROM NOW())::INTEGER || '-';
+    FOR i IN 0..5 LOOP
+      v_code := v_code || substr(v_alphabet, (get_byte(v_bytes, i) % 32) + 1, 1);
+    END LOOP;
+
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM orders WHERE purchase_code = v_code);
+  END LOOP;
+
+  RETURN v_code;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+-- Codes are only ever issued here; older RPCs and clients still send their own
+CREATE OR REPLACE FUNCTION assign_purchase_code()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.purchase_code := generate_purchase_code();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_assign_purchase_code ON orders;
+CREATE TRIGGER trigger_assign_purchase_code
+  BEFORE INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_purchase_code();
+
+-- 2. Backfill: orders without a code, and all but the oldest order sharing a code, get a new one.
+-- Existing unique codes (including PO- codes) stay valid.
+UPDATE orders SET purchase_code = generate_purchase_code()
+WHERE purchase_code IS NULL
+OR id IN (
+  SELECT id FROM (
+    SELECT id, ROW_NUMBER() OVER (PARTITION BY purchase_code ORDER BY created_at, id) AS position
+    FROM orders
+    WHERE purchase_code IS NOT NULL
+  ) duplicates
+  WHERE position > 1
+);
+
+ALTER TABLE orders ALTER COLUMN purchase_code SET NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_purchase_code_unique ON orders(purchase_code);
+
+-- The code can't be changed once issued
+CREATE OR REPLACE FUNCTION keep_purchase_code()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.purchase_code := OLD.purchase_code;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_keep_purchase_code ON orders;
+CREATE TRIGGER trigger_keep_purchase_code
+  BEFORE UPDATE OF purchase_code ON orders
+  FOR EACH ROW
+  WHEN (OLD.purchase_code IS NOT NULL)
+  EXECUTE FUNCTION keep_purchase_code();
+
+-- 3. Scan log
+-- result is what the scanner concluded; verified_offline is true when the order couldn't be
+-- looked up and only the QR signature was checked. Offline scans are uploaded later, so
+-- scanned_at is the device time of the scan and created_at the time it reached the server.
+CREATE TABLE IF NOT EXISTS purchase_code_scans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  purchase_code TEXT,
+  scanned_by UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  result TEXT NOT NULL CHECK (result IN ('valid', 'expired', 'invalid_signature', 'unsigned', 'not_found', 'mismatch')),
+  verified_offline BOOLEAN NOT NULL DEFAULT FALSE,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  location_accuracy DOUBLE PRECISION,
+  scanned_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_code_scans_order_id ON purchase_code_scans(order_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_code_scans_scanned_by ON purchase_code_scans(scanned_by, scanned_at DESC);
+
+ALTER TABLE purchase_code_scans ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Scanners record their own scans" ON purchase_code_scans;
+CREATE POLICY "Scanners record their own scans" ON purchase_code_scans
+  FOR INSERT WITH CHECK (scanned_by = auth.uid());
+
+-- Scanners see their own scans; buyer and farmer see the scans of their orders
+DROP POLICY IF EXISTS "Scan log visible to scanner, order parties and admins" ON purchase_code_scans;
+CREATE POLICY "Scan log visible to scanner, order parties and admins" ON purchase_code_scans
+  FOR SELECT USING (
+    scanned_by = auth.uid()
+    OR is_admin_user()
+    OR EXISTS (
+      SELECT 1 FROM orders o
+      WHERE o.id = purchase_code_scans.order_id
+      AND (o.buyer_id = auth.uid() OR o.farmer_id = auth.uid())
+    )
+  );
+
+GRANT SELECT, INSERT ON purchase_code_scans TO authenticated;
@@ -0,0 +1,21 @@
+-- Offline sync support
+--
+-- Farmers' edits made without a connection are replayed later by the app (services/offlineSync.ts).
+-- Each queued edit remembers the row's updated_at when it was made; if the row has changed since,
+-- the edit is held back as a conflict instead of overwriting the newer data.
+-- That only works if every change to a product moves updated_at, including the stock
+-- changes made by the order RPCs and by other clients that don't set it themselves.
+
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_products_updated_at ON products;
+CREATE TRIGGER trigger_products_updated_at
+  BEFORE UPDATE ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
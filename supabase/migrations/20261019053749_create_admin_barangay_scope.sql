@@ -0,0 +1,269 @@
+-- Barangay-scoped admin access
+--
+-- A barangay admin (user_type = 'admin') may only see and manage orders and products that belong
+-- to the barangays they are assigned: their own profiles.barangay plus any rows in admin_barangays.
+-- Super-admins keep province-wide access. An admin with no barangay assigned sees nothing beyond
+-- their own orders and listings.
+--
+-- The scope is enforced with RESTRICTIVE policies, which are ANDed with every permissive policy on
+-- the table, so an older "admins can see everything" policy can no longer leak other barangays.
+-- Tables hanging off an order (items, status history, refunds, transactions, payment events) follow
+-- their order's scope; SMS tables follow the person texted (20261019063707_create_sms_queue.sql,
+-- 20261019064059_create_sms_commands.sql).
+-- The admin screens read from admin_orders_scoped / admin_products_scoped, which apply the same
+-- scope in the query so only the admin's barangays are sent to the app.
+
+-- Extra barangays an admin covers (e.g. while another barangay's admin is away)
+CREATE TABLE IF NOT EXISTS admin_barangays (
+  admin_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  barangay TEXT NOT NULL,
+  assigned_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (admin_id, barangay)
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_barangays_barangay ON admin_barangays(barangay);
+CREATE INDEX IF NOT EXISTS idx_profiles_barangay ON profiles(barangay);
+
+CREATE OR REPLACE FUNCTION is_super_admin_user()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND user_type = 'super-admin'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_barangay_admin_user()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND user_type = 'admin'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Barangays the signed-in admin is assigned to
+CREATE OR REPLACE FUNCTION current_admin_barangays()
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(array_agg(DISTINCT scoped.barangay), '{}')
+  FROM (
+    SELECT barangay FROM profiles WHERE id = auth.uid() AND barangay IS NOT NULL
+    UNION
+    SELECT barangay FROM admin_barangays WHERE admin_id = auth.uid()
+  ) scoped;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION admin_can_access_barangay(p_barangay TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT is_super_admin_user()
+    OR (is_barangay_admin_user() AND p_barangay = ANY(current_admin_barangays()));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Lets the policies below read a party's barangay without going through profiles' own RLS
+CREATE OR REPLACE FUNCTION profile_barangay(p_profile_id UUID)
+RETURNS TEXT AS $$
+  SELECT barangay FROM profiles WHERE id = p_profile_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- What the restrictive policies allow: everything for anyone but a barangay admin, and for a
+-- barangay admin their own rows plus rows whose parties are in their barangays
+CREATE OR REPLACE FUNCTION barangay_scope_allows_profile(p_profile_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT NOT is_barangay_admin_user()
+    OR p_profile_id = auth.uid()
+    OR admin_can_access_barangay(profile_barangay(p_profile_id));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION barangay_scope_allows_order(p_order_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT NOT is_barangay_admin_user()
+    OR EXISTS (
+      SELECT 1 FROM orders o
+      WHERE o.id = p_order_id
+      AND (
+        o.buyer_id = auth.uid()
+        OR o.farmer_id = auth.uid()
+        OR admin_can_access_barangay(profile_barangay(o.buyer_id))
+        OR admin_can_access_barangay(profile_barangay(o.farmer_id))
+      )
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION is_super_admin_user TO authenticated;
+GRANT EXECUTE ON FUNCTION is_barangay_admin_user TO authenticated;
+GRANT EXECUTE ON FUNCTION current_admin_barangays TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_can_access_barangay TO authenticated;
+GRANT EXECUTE ON FUNCTION barangay_scope_allows_profile TO authenticated;
+GRANT EXECUTE ON FUNCTION barangay_scope_allows_order TO authenticated;
+
+ALTER TABLE admin_barangays ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view their barangay assignments" ON admin_barangays;
+CREATE POLICY "Admins can view their barangay assignments" ON admin_barangays
+  FOR SELECT USING (admin_id = auth.uid() OR is_super_admin_user());
+
+DROP POLICY IF EXISTS "Super admins manage barangay assignments" ON admin_barangays;
+CREATE POLICY "Super admins manage barangay assignments" ON admin_barangays
+  FOR ALL USING (is_super_admin_user())
+  WITH CHECK (is_super_admin_user());
+
+-- Orders: an order is in scope when either the buyer or the farmer is in one of the admin's barangays
+DROP POLICY IF EXISTS "Admins can view orders in their barangays" ON orders;
+CREATE POLICY "Admins can view orders in their barangays" ON orders
+  FOR SELECT USING (
+    admin_can_access_barangay(profile_barangay(buyer_id))
+    OR admin_can_access_barangay(profile_barangay(farmer_id))
+  );
+
+DROP POLICY IF EXISTS "Admins can update orders in their barangays" ON orders;
+CREATE POLICY "Admins can update orders in their barangays" ON orders
+  FOR UPDATE USING (
+    admin_can_access_barangay(profile_barangay(buyer_id))
+    OR admin_can_access_barangay(profile_barangay(farmer_id))
+  );
+
+DROP POLICY IF EXISTS "Barangay admins are limited to their barangays" ON orders;
+CREATE POLICY "Barangay admins are limited to their barangays" ON orders
+  AS RESTRICTIVE
+  FOR SELECT USING (
+    NOT is_barangay_admin_user()
+    OR buyer_id = auth.uid()
+    OR farmer_id = auth.uid()
+    OR admin_can_access_barangay(profile_barangay(buyer_id))
+    OR admin_can_access_barangay(profile_barangay(farmer_id))
+  );
+
+DROP POLICY IF EXISTS "Barangay admins only update orders in their barangays" ON orders;
+CREATE POLICY "Barangay admins only update orders in their barangays" ON orders
+  AS RESTRICTIVE
+  FOR UPDATE USING (
+    NOT is_barangay_admin_user()
+    OR buyer_id = auth.uid()
+    OR farmer_id = auth.uid()
+    OR admin_can_access_barangay(profile_barangay(buyer_id))
+    OR admin_can_access_barangay(profile_barangay(farmer_id))
+  );
+
+-- Products: in scope when the farmer is in one of the admin's barangays.
+-- Approved listings stay readable, since they are public in the marketplace anyway.
+DROP POLICY IF EXISTS "Admins can view products in their barangays" ON products;
+CREATE POLICY "Admins can view products in their barangays" ON products
+  FOR SELECT USING (admin_can_access_barangay(profile_barangay(farmer_id)));
+
+DROP POLICY IF EXISTS "Admins can review products in their barangays" ON products;
+CREATE POLICY "Admins can review products in their barangays" ON products
+  FOR UPDATE USING (admin_can_access_barangay(profile_barangay(farmer_id)));
+
+DROP POLICY IF EXISTS "Barangay admins are limited to their barangays" ON products;
+CREATE POLICY "Barangay admins are limited to their barangays" ON products
+  AS RESTRICTIVE
+  FOR SELECT USING (
+    NOT is_barangay_admin_user()
+    OR farmer_id = auth.uid()
+    OR status = 'approved'
+    OR admin_can_access_barangay(profile_barangay(farmer_id))
+  );
+
+DROP POLICY IF EXISTS "Barangay admins only review products in their barangays" ON products;
+CREATE POLICY "Barangay admins only review products in their barangays" ON products
+  AS RESTRICTIVE
+  FOR UPDATE USING (
+    NOT is_barangay_admin_user()
+    OR farmer_id = auth.uid()
+    OR admin_can_access_barangay(profile_barangay(farmer_id))
+  );
+
+-- Rows that belong to an order. FOR ALL, so the scope also holds for updates and deletes.
+DROP POLICY IF EXISTS "Barangay admins are limited to their barangays" ON order_items;
+CREATE POLICY "Barangay admins are limited to their barangays" ON order_items
+  AS RESTRICTIVE
+  FOR ALL USING (barangay_scope_allows_order(order_id));
+
+DROP POLICY IF EXISTS "Barangay admins are limited to their barangays" ON order_status_history;
+CREATE POLICY "Barangay admins are limited to their barangays" ON order_status_history
+  AS RESTRICTIVE
+  FOR ALL USING (barangay_scope_allows_order(order_id));
+
+DROP POLICY IF EXISTS "Barangay admins are limited to their barangays" ON refund_requests;
+CREATE POLICY "Barangay admins are limited to their barangays" ON refund_requests
+  AS RESTRICTIVE
+  FOR ALL USING (barangay_scope_allows_order(order_id));
+
+DROP POLICY IF EXISTS "Barangay admins are limited to their barangays" ON refund_request_items;
+CREATE POLICY "Barangay admins are limited to their barangays" ON refund_request_items
+  AS RESTRICTIVE
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM refund_requests r
+      WHERE r.id = refund_request_items.refund_request_id
+      AND barangay_scope_allows_order(r.order_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Barangay admins are limited to their barangays" ON transactions;
+CREATE POLICY "Barangay admins are limited to their barangays" ON transactions
+  AS RESTRICTIVE
+  FOR ALL USING (barangay_scope_allows_order(order_id));
+
+-- Payment events reach an order through the provider reference on its transaction; events no
+-- transaction claims are left to super-admins
+DROP POLICY IF EXISTS "Barangay admins are limited to their barangays" ON payment_events;
+CREATE POLICY "Barangay admins are limited to their barangays" ON payment_events
+  AS RESTRICTIVE
+  FOR ALL USING (
+    NOT is_barangay_admin_user()
+    OR EXISTS (
+      SELECT 1 FROM transactions t
+      WHERE t.provider_reference = payment_events.provider_reference
+      AND barangay_scope_allows_order(t.order_id)
+    )
+  );
+
+-- Admin screen views. security_invoker keeps the caller's RLS in force on the underlying tables.
+CREATE OR REPLACE VIEW admin_orders_scoped
+WITH (security_invoker = true) AS
+SELECT
+  o.id,
+  o.buyer_id,
+  o.farmer_id,
+  o.product_id,
+  o.quantity,
+  o.total_price,
+  o.status,
+  o.delivery_address,
+  o.notes,
+  o.created_at,
+  p.name AS product_name,
+  p.unit AS product_unit,
+  p.price AS product_price,
+  bp.first_name AS buyer_first_name,
+  bp.last_name AS buyer_last_name,
+  bp.phone AS buyer_phone,
+  bp.barangay AS buyer_barangay,
+  fp.first_name AS farmer_first_name,
+  fp.last_name AS farmer_last_name,
+  fp.phone AS farmer_phone,
+  fp.farm_name AS farmer_farm_name,
+  fp.barangay AS farmer_barangay
+FROM orders o
+LEFT JOIN products p ON p.id = o.product_id
+LEFT JOIN profiles bp ON bp.id = o.buyer_id
+LEFT JOIN profiles fp ON fp.id = o.farmer_id
+WHERE admin_can_access_barangay(bp.barangay)
+  OR admin_can_access_barangay(fp.barangay);
+
+CREATE OR REPLACE VIEW admin_products_scoped
+WITH (security_invoker = true) AS
+SELECT
+  pr.*,
+  fp.first_name AS farmer_first_name,
+  fp.last_name AS farmer_last_name,
+  fp.farm_name AS farmer_farm_name,
+  fp.barangay AS farmer_barangay
+FROM products pr
+LEFT JOIN profiles fp ON fp.id = pr.farmer_id
+WHERE admin_can_access_barangay(fp.barangay);
+
+GRANT SELECT ON admin_orders_scoped TO authenticated;
+GRANT SELECT ON admin_products_scoped TO authenticated;
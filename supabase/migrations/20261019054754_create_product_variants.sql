@@ -0,0 +1,873 @@
+-- Product variants and bulk pricing
+--
+-- A product can be sold in several ways (per kg or per sack, Grade A or Grade B). Each way is a
+-- product_variants row with its own price, unit, stock and SKU. Any price can drop for larger
+-- quantities through product_price_tiers: the tier with the highest min_quantity a line reaches wins.
+--
+-- Products without variants work exactly as before from products.price / unit / quantity_available.
+-- For products with variants those columns are kept in step with the active variants (cheapest
+-- price and its unit, total stock) so listings, search, sorting and stock filters keep working.
+--
+-- Variants and tiers are written through save_product_variants(); everyone who can see a product
+-- can read them. Order lines and cart lines now point at the variant they were for.
+
+-- 1. Variants
+CREATE TABLE IF NOT EXISTS product_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  grade TEXT,
+  unit TEXT NOT NULL,
+  price NUMERIC(10,2) NOT NULL CHECK (price > 0),
+  quantity_available INTEGER NOT NULL DEFAULT 0 CHECK (quantity_available >= 0),
+  sku TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  -- Retired variants stay behind for the orders that reference them
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_variants_product ON product_variants(product_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_variants_sku
+  ON product_variants(product_id, lower(sku))
+  WHERE sku IS NOT NULL AND is_active;
+
+DROP TRIGGER IF EXISTS trigger_product_variants_updated_at ON product_variants;
+CREATE TRIGGER trigger_product_variants_updated_at
+  BEFORE UPDATE ON product_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. Quantity tiers, either for a product without variants or for one variant
+CREATE TABLE IF NOT EXISTS product_price_tiers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID REFERENCES products(id) ON DELETE CASCADE,
+  variant_id UUID REFERENCES product_variants(id) ON DELETE CASCADE,
+  min_quantity INTEGER NOT NULL CHECK (min_quantity > 1),
+  unit_price NUMERIC(10,2) NOT NULL CHECK (unit_price > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((product_id IS NULL) <> (variant_id IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_price_tiers_product
+  ON product_price_tiers(product_id, min_quantity) WHERE product_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_price_tiers_variant
+  ON product_price_tiers(variant_id, min_quantity) WHERE variant_id IS NOT NULL;
+
+ALTER TABLE product_variants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE product_price_tiers ENABLE ROW LEVEL SECURITY;
+
+-- Visible whenever the product itself is visible to the caller
+DROP POLICY IF EXISTS "Variants are visible with their product" ON product_variants;
+CREATE POLICY "Variants are visible with their product" ON product_variants
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM products p WHERE p.id = product_variants.product_id)
+  );
+
+DROP POLICY IF EXISTS "Price tiers are visible with their product" ON product_price_tiers;
+CREATE POLICY "Price tiers are visible with their product" ON product_price_tiers
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM products p WHERE p.id = product_price_tiers.product_id)
+    OR EXISTS (
+      SELECT 1 FROM product_variants v
+      JOIN products p ON p.id = v.product_id
+      WHERE v.id = product_price_tiers.variant_id
+    )
+  );
+
+-- 3. Order and cart lines reference the variant they are for.
+--    variant_name / unit are copied onto the order line so it still reads right after edits.
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES product_variants(id) ON DELETE SET NULL;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS variant_name TEXT;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS unit TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_order_items_variant_id ON order_items(variant_id);
+
+ALTER TABLE cart_items ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES product_variants(id) ON DELETE CASCADE;
+-- One cart line per product and variant; matches cartLineKey() in services/cart.ts
+ALTER TABLE cart_items ADD COLUMN IF NOT EXISTS line_key TEXT
+  GENERATED ALWAYS AS (product_id::text || ':' || COALESCE(variant_id::text, '')) STORED;
+
+ALTER TABLE cart_items DROP CONSTRAINT IF EXISTS cart_items_user_id_product_id_key;
+ALTER TABLE cart_items DROP CONSTRAINT IF EXISTS cart_items_user_id_line_key_key;
+ALTER TABLE cart_items ADD CONSTRAINT cart_items_user_id_line_key_key UNIQUE (user_id, line_key);
+
+-- 4. Keep the product row in step with its variants
+CREATE OR REPLACE FUNCTION sync_product_from_variants()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_product_id UUID := COALESCE(NEW.product_id, OLD.product_id);
+  v_count INTEGER;
+  v_stock INTEGER;
+  v_price NUMERIC;
+  v_unit TEXT;
+BEGIN
+  SELECT count(*), COALESCE(sum(quantity_available), 0)
+  INTO v_count, v_stock
+  FROM product_variants
+  WHERE product_id = v_product_id
+  AND is_active;
+
+  -- Back to a plain product: its own columns take over again
+  IF v_count = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT price, unit INTO v_price, v_unit
+  FROM product_variants
+  WHERE product_id = v_product_id
+  AND is_active
+  ORDER BY price ASC, sort_order ASC
+  LIMIT 1;
+
+  UPDATE products
+  SET quantity_available = v_stock,
+      price = v_price,
+      unit = v_unit
+  WHERE id = v_product_id
+  AND (quantity_available IS DISTINCT FROM v_stock
+    OR price IS DISTINCT FROM v_price
+    OR unit IS DISTINCT FROM v_unit);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_sync_product_from_variants ON product_variants;
+CREATE TRIGGER trigger_sync_product_from_variants
+  AFTER INSERT OR UPDATE OR DELETE ON product_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_product_from_variants();
+
+-- 5. Price of one unit for a line of p_quantity, after quantity tiers
+CREATE OR REPLACE FUNCTION product_unit_price(
+  p_product_id UUID,
+  p_variant_id UUID,
+  p_quantity INTEGER
+) RETURNS NUMERIC AS $$
+DECLARE
+  v_price NUMERIC;
+BEGIN
+  SELECT unit_price INTO v_price
+  FROM product_price_tiers
+  WHERE CASE WHEN p_variant_id IS NULL
+    THEN product_id = p_product_id
+    ELSE variant_id = p_variant_id
+  END
+  AND min_quantity <= p_quantity
+  ORDER BY min_quantity DESC
+  LIMIT 1;
+
+  IF v_price IS NOT NULL THEN
+    RETURN v_price;
+  END IF;
+
+  IF p_variant_id IS NULL THEN
+    SELECT price INTO v_price FROM products WHERE id = p_product_id;
+  ELSE
+    SELECT price INTO v_price FROM product_variants WHERE id = p_variant_id;
+  END IF;
+
+  RETURN v_price;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION product_unit_price(UUID, UUID, INTEGER) TO authenticated, anon;
+
+-- 6. Replace a product's variants and tiers in one go.
+--    p_variants: [{ "id"?: "...", "name", "grade", "unit", "price", "quantity_available", "sku",
+--                   "price_tiers": [{ "min_quantity": 20, "unit_price": 45 }] }, ...]
+--    p_price_tiers: tiers for the product itself, used when it has no variants.
+--    Variants left out are deleted, or retired when an order already references them.
+CREATE OR REPLACE FUNCTION save_product_variants(
+  p_product_id UUID,
+  p_variants JSONB DEFAULT '[]'::jsonb,
+  p_price_tiers JSONB DEFAULT '[]'::jsonb
+) RETURNS JSON AS $$
+DECLARE
+  v_farmer_id UUID;
+  v_keep UUID[];
+  v_variant JSONB;
+  v_position BIGINT;
+  v_variant_id UUID;
+BEGIN
+  SELECT farmer_id INTO v_farmer_id
+  FROM products
+  WHERE id = p_product_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  IF v_farmer_id IS DISTINCT FROM auth.uid()
+    AND NOT admin_can_access_barangay(profile_barangay(v_farmer_id)) THEN
+    RAISE EXCEPTION 'You can only change options of your own products';
+  END IF;
+
+  v_keep := ARRAY(
+    SELECT (v->>'id')::UUID
+    FROM jsonb_array_elements(COALESCE(p_variants, '[]'::jsonb)) AS v
+    WHERE NULLIF(v->>'id', '') IS NOT NULL
+  );
+
+  UPDATE product_variants pv
+  SET is_active = false
+  WHERE pv.product_id = p_product_id
+  AND NOT (pv.id = ANY(v_keep))
+  AND EXISTS (SELECT 1 FROM order_items oi WHERE oi.variant_id = pv.id);
+
+  DELETE FROM product_variants pv
+  WHERE pv.product_id = p_product_id
+  AND NOT (pv.id = ANY(v_keep))
+  AND NOT EXISTS (SELECT 1 FROM order_items oi WHERE oi.variant_id = pv.id);
+
+  FOR v_variant, v_position IN
+    SELECT value, ordinality FROM jsonb_array_elements(COALESCE(p_variants, '[]'::jsonb)) WITH ORDINALITY
+  LOOP
+    IF COALESCE(trim(v_variant->>'name'), '') = '' THEN
+      RAISE EXCEPTION 'Every option needs a name';
+    END IF;
+
+    IF COALESCE((v_variant->>'price')::NUMERIC, 0) <= 0 THEN
+      RAISE EXCEPTION 'Option "%" needs a price', trim(v_variant->>'name');
+    END IF;
+
+    IF COALESCE((v_variant->>'quantity_available')::INTEGER, -1) < 0 THEN
+      RAISE EXCEPTION 'Option "%" needs a stock quantity', trim(v_variant->>'name');
+    END IF;
+
+    IF NULLIF(v_variant->>'id', '') IS NOT NULL THEN
+      UPDATE product_variants
+      SET name = trim(v_variant->>'name'),
+          grade = NULLIF(trim(COALESCE(v_variant->>'grade', '')), ''),
+          unit = v_variant->>'unit',
+          price = (v_variant->>'price')::NUMERIC,
+          quantity_available = (v_variant->>'quantity_available')::INTEGER,
+          sku = NULLIF(trim(COALESCE(v_variant->>'sku', '')), ''),
+          sort_order = v_position,
+          is_active = true
+      WHERE id = (v_variant->>'id')::UUID
+      AND product_id = p_product_id
+      RETURNING id INTO v_variant_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Option "%" no longer exists', trim(v_variant->>'name');
+      END IF;
+    ELSE
+      INSERT INTO product_variants (
+        product_id, name, grade, unit, price, quantity_available, sku, sort_order
+      ) VALUES (
+        p_product_id,
+        trim(v_variant->>'name'),
+        NULLIF(trim(COALESCE(v_variant->>'grade', '')), ''),
+        v_variant->>'unit',
+        (v_variant->>'price')::NUMERIC,
+        (v_variant->>'quantity_available')::INTEGER,
+        NULLIF(trim(COALESCE(v_variant->>'sku', '')), ''),
+        v_position
+      )
+      RETURNING id INTO v_variant_id;
+    END IF;
+
+    DELETE FROM product_price_tiers WHERE variant_id = v_variant_id;
+
+    INSERT INTO product_price_tiers (variant_id, min_quantity, unit_price)
+    SELECT v_variant_id, (t->>'min_quantity')::INTEGER, (t->>'unit_price')::NUMERIC
+    FROM jsonb_array_elements(COALESCE(v_variant->'price_tiers', '[]'::jsonb)) AS t;
+  END LOOP;
+
+  DELETE FROM product_price_tiers WHERE product_id = p_product_id;
+
+  INSERT INTO product_price_tiers (product_id, min_quantity, unit_price)
+  SELECT p_product_id, (t->>'min_quantity')::INTEGER, (t->>'unit_price')::NUMERIC
+  FROM jsonb_array_elements(COALESCE(p_price_tiers, '[]'::jsonb)) AS t;
+
+  RETURN json_build_object(
+    'success', true,
+    'product_id', p_product_id,
+    'variant_count', (SELECT count(*) FROM product_variants WHERE product_id = p_product_id AND is_active)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION save_product_variants(UUID, JSONB, JSONB) TO authenticated;
+
+-- 7. Stock going back on the shelf goes to the variant a line was for
+CREATE OR REPLACE FUNCTION restock_order_items(p_order_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_order RECORD;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM order_items WHERE order_id = p_order_id) THEN
+    -- Legacy single-product order
+    SELECT product_id, quantity INTO v_order FROM orders WHERE id = p_order_id;
+
+    UPDATE products
+    SET quantity_available = quantity_available + v_order.quantity,
+        updated_at = NOW()
+    WHERE id = v_order.product_id;
+    RETURN;
+  END IF;
+
+  UPDATE product_variants v
+  SET quantity_available = v.quantity_available + lines.quantity
+  FROM (
+    SELECT variant_id, sum(quantity) AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id
+    AND variant_id IS NOT NULL
+    GROUP BY variant_id
+  ) lines
+  WHERE v.id = lines.variant_id;
+
+  UPDATE products p
+  SET quantity_available = p.quantity_available + lines.quantity,
+      updated_at = NOW()
+  FROM (
+    SELECT product_id, sum(quantity) AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id
+    AND variant_id IS NULL
+    GROUP BY product_id
+  ) lines
+  WHERE p.id = lines.product_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Refunds are recorded per product; returned units are spread over that product's lines in
+-- the order, oldest line first
+CREATE OR REPLACE FUNCTION restock_returned_units(
+  p_order_id UUID,
+  p_product_id UUID,
+  p_quantity INTEGER
+) RETURNS VOID AS $$
+DECLARE
+  v_line RECORD;
+  v_remaining INTEGER := p_quantity;
+  v_units INTEGER;
+BEGIN
+  FOR v_line IN
+    SELECT variant_id, sum(quantity) AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id
+    AND product_id = p_product_id
+    GROUP BY variant_id
+    ORDER BY min(created_at)
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+    v_units := LEAST(v_remaining, v_line.quantity);
+
+    IF v_line.variant_id IS NOT NULL THEN
+      UPDATE product_variants
+      SET quantity_available = quantity_available + v_units
+      WHERE id = v_line.variant_id;
+    ELSE
+      UPDATE products
+      SET quantity_available = quantity_available + v_units,
+          updated_at = NOW()
+      WHERE id = p_product_id;
+    END IF;
+
+    v_remaining := v_remaining - v_units;
+  END LOOP;
+
+  IF v_remaining > 0 THEN
+    UPDATE products
+    SET quantity_available = quantity_available + v_remaining,
+        updated_at = NOW()
+    WHERE id = p_product_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Restocking only happens through cancelling and refund decisions, never directly
+REVOKE ALL ON FUNCTION restock_order_items(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION restock_returned_units(UUID, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- 8. Checkout with variants and tier prices.
+--    p_items: [{ "product_id": "...", "variant_id": "..." | null, "quantity": 3 }, ...]
+--    A product that has variants must be ordered through one of them.
+--    The purchase code is assigned by trigger_assign_purchase_code.
+CREATE OR REPLACE FUNCTION create_multi_item_orders(
+  p_buyer_id UUID,
+  p_items JSONB,
+  p_delivery_address TEXT,
+  p_notes TEXT DEFAULT NULL,
+  p_payment_method TEXT DEFAULT 'pending'
+) RETURNS JSON AS $$
+DECLARE
+  v_item JSONB;
+  v_product RECORD;
+  v_variant RECORD;
+  v_variant_id UUID;
+  v_quantity INTEGER;
+  v_already INTEGER;
+  v_lines JSONB := '[]'::jsonb;
+  v_farmer_id UUID;
+  v_order_id UUID;
+  v_transaction_id UUID;
+  v_total NUMERIC;
+  v_total_quantity INTEGER;
+  v_first_product UUID;
+  v_results JSON[] := ARRAY[]::JSON[];
+BEGIN
+  IF p_buyer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Unauthorized to place orders for another user';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF p_payment_method = 'mock' AND NOT mock_payments_enabled() THEN
+    RAISE EXCEPTION 'Mock payments are not enabled';
+  END IF;
+
+  -- Lock, validate and price every line up front
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+    v_variant_id := NULLIF(v_item->>'variant_id', '')::UUID;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', v_item->>'product_id';
+    END IF;
+
+    SELECT id, farmer_id, name, price, unit, quantity_available, status
+    INTO v_product
+    FROM products
+    WHERE id = (v_item->>'product_id')::UUID
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found: %', v_item->>'product_id';
+    END IF;
+
+    IF v_product.status <> 'approved' THEN
+      RAISE EXCEPTION 'Product "%" is not available for sale', v_product.name;
+    END IF;
+
+    IF v_product.farmer_id = p_buyer_id THEN
+      RAISE EXCEPTION 'You cannot order your own product "%"', v_product.name;
+    END IF;
+
+    -- Same product and variant listed twice still has to fit in stock
+    SELECT COALESCE(sum((l->>'quantity')::INTEGER), 0) INTO v_already
+    FROM jsonb_array_elements(v_lines) AS l
+    WHERE (l->>'product_id')::UUID = v_product.id
+    AND (l->>'variant_id')::UUID IS NOT DISTINCT FROM v_variant_id;
+
+    IF v_variant_id IS NULL THEN
+      IF EXISTS (SELECT 1 FROM product_variants WHERE product_id = v_product.id AND is_active) THEN
+        RAISE EXCEPTION 'Choose an option for "%"', v_product.name;
+      END IF;
+
+      IF v_product.quantity_available < v_already + v_quantity THEN
+        RAISE EXCEPTION 'Insufficient stock for "%". Available: %, Requested: %',
+          v_product.name, v_product.quantity_available, v_already + v_quantity;
+      END IF;
+
+      v_lines := v_lines || jsonb_build_object(
+        'product_id', v_product.id,
+        'variant_id', NULL,
+        'variant_name', NULL,
+        'unit', v_product.unit,
+        'farmer_id', v_product.farmer_id,
+        'quantity', v_quantity,
+        'unit_price', product_unit_price(v_product.id, NULL, v_quantity)
+      );
+    ELSE
+      SELECT id, name, unit, quantity_available, is_active
+      INTO v_variant
+      FROM product_variants
+      WHERE id = v_variant_id
+      AND product_id = v_product.id
+      FOR UPDATE;
+
+      IF NOT FOUND OR NOT v_variant.is_active THEN
+        RAISE EXCEPTION 'That option of "%" is no longer available', v_product.name;
+      END IF;
+
+      IF v_variant.quantity_available < v_already + v_quantity THEN
+        RAISE EXCEPTION 'Insufficient stock for "%" (%). Available: %, Requested: %',
+          v_product.name, v_variant.name, v_variant.quantity_available, v_already + v_quantity;
+      END IF;
+
+      v_lines := v_lines || jsonb_build_object(
+        'product_id', v_product.id,
+        'variant_id', v_variant.id,
+        'variant_name', v_variant.name,
+        'unit', v_variant.unit,
+        'farmer_id', v_product.farmer_id,
+        'quantity', v_quantity,
+        'unit_price', product_unit_price(v_product.id, v_variant.id, v_quantity)
+      );
+    END IF;
+  END LOOP;
+
+  -- One order per farmer
+  FOR v_farmer_id IN
+    SELECT DISTINCT (l->>'farmer_id')::UUID FROM jsonb_array_elements(v_lines) AS l
+  LOOP
+    SELECT SUM((l->>'unit_price')::NUMERIC * (l->>'quantity')::INTEGER),
+           SUM((l->>'quantity')::INTEGER),
+           (ARRAY_AGG((l->>'product_id')::UUID))[1]
+    INTO v_total, v_total_quantity, v_first_product
+    FROM jsonb_array_elements(v_lines) AS l
+    WHERE (l->>'farmer_id')::UUID = v_farmer_id;
+
+    INSERT INTO orders (
+      buyer_id, farmer_id, product_id, quantity, total_price,
+      status, delivery_address, notes
+    ) VALUES (
+      p_buyer_id, v_farmer_id, v_first_product, v_total_quantity, v_total,
+      'pending', p_delivery_address, p_notes
+    ) RETURNING id INTO v_order_id;
+
+    INSERT INTO order_items (order_id, product_id, variant_id, variant_name, unit, quantity, unit_price)
+    SELECT v_order_id,
+           (l->>'product_id')::UUID,
+           (l->>'variant_id')::UUID,
+           l->>'variant_name',
+           l->>'unit',
+           (l->>'quantity')::INTEGER,
+           (l->>'unit_price')::NUMERIC
+    FROM jsonb_array_elements(v_lines) AS l
+    WHERE (l->>'farmer_id')::UUID = v_farmer_id;
+
+    UPDATE product_variants v
+    SET quantity_available = v.quantity_available - lines.quantity
+    FROM (
+      SELECT (l->>'variant_id')::UUID AS variant_id, sum((l->>'quantity')::INTEGER) AS quantity
+      FROM jsonb_array_elements(v_lines) AS l
+      WHERE (l->>'farmer_id')::UUID = v_farmer_id
+      AND l->>'variant_id' IS NOT NULL
+      GROUP BY 1
+    ) lines
+    WHERE v.id = lines.variant_id;
+
+    UPDATE products p
+    SET quantity_available = p.quantity_available - lines.quantity,
+        updated_at = NOW()
+    FROM (
+      SELECT (l->>'product_id')::UUID AS product_id, sum((l->>'quantity')::INTEGER) AS quantity
+      FROM jsonb_array_elements(v_lines) AS l
+      WHERE (l->>'farmer_id')::UUID = v_farmer_id
+      AND l->>'variant_id' IS NULL
+      GROUP BY 1
+    ) lines
+    WHERE p.id = lines.product_id;
+
+    INSERT INTO transactions (order_id, amount, status, payment_method)
+    VALUES (v_order_id, v_total, 'pending', p_payment_method)
+    RETURNING id INTO v_transaction_id;
+
+    v_results := v_results || json_build_object(
+      'order', (SELECT row_to_json(o.*) FROM orders o WHERE o.id = v_order_id),
+      'transaction', (SELECT row_to_json(t.*) FROM transactions t WHERE t.id = v_transaction_id),
+      'items', (SELECT json_agg(row_to_json(oi.*)) FROM order_items oi WHERE oi.order_id = v_order_id)
+    );
+  END LOOP;
+
+  -- Ordered lines leave the buyer's cart
+  DELETE FROM cart_items
+  WHERE user_id = p_buyer_id
+  AND line_key IN (
+    SELECT (l->>'product_id') || ':' || COALESCE(l->>'variant_id', '')
+    FROM jsonb_array_elements(v_lines) AS l
+  );
+
+  RETURN array_to_json(v_results);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_multi_item_orders(UUID, JSONB, TEXT, TEXT, TEXT) TO authenticated;
+
+-- 9. Cancelling restocks through restock_order_items; otherwise unchanged from 20261019052435_create_order_refunds.sql
+CREATE OR REPLACE FUNCTION update_order_status_safe(
+  p_order_id UUID,
+  p_new_status TEXT,
+  p_reason TEXT DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  v_order RECORD;
+BEGIN
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  -- The trigger lets unchanged statuses through unchecked, and the side effects below must
+  -- run once per change, so repeats are refused and the caller is checked up front
+  IF v_order.status::TEXT = p_new_status THEN
+    RAISE EXCEPTION 'Order is already %', p_new_status;
+  END IF;
+
+  IF order_actor_role(v_order.buyer_id, v_order.farmer_id) IS NULL THEN
+    RAISE EXCEPTION 'Unauthorized to update this order';
+  END IF;
+
+  PERFORM set_config('farm2go.order_status_reason', COALESCE(p_reason, ''), true);
+
+  UPDATE orders
+  SET status = p_new_status
+  WHERE id = p_order_id;
+
+  PERFORM set_config('farm2go.order_status_reason', '', true);
+
+  IF p_new_status = 'cancelled' THEN
+    IF v_order.status <> 'issue_reported' THEN
+      PERFORM restock_order_items(p_order_id);
+    END IF;
+
+    PERFORM record_order_refund(p_order_id, NULL, NULL, COALESCE(p_reason, 'Order cancelled'));
+
+    UPDATE transactions
+    SET status = 'failed',
+        failure_reason = COALESCE(failure_reason, 'Order cancelled'),
+        updated_at = NOW()
+    WHERE order_id = p_order_id
+    AND transaction_type = 'payment'
+    AND status = 'pending';
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'order_id', p_order_id,
+    'from_status', v_order.status,
+    'new_status', p_new_status
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION update_order_status_safe(UUID, TEXT, TEXT) TO authenticated;
+
+-- 10. An order can hold several variants of one product; refund lines add them up per product
+CREATE OR REPLACE FUNCTION request_order_refund(
+  p_order_id UUID,
+  p_refund_type TEXT,
+  p_reason TEXT,
+  p_issue_type TEXT DEFAULT NULL,
+  p_photo_urls TEXT[] DEFAULT '{}',
+  p_items JSONB DEFAULT '[]'::jsonb
+) RETURNS JSON AS $$
+DECLARE
+  v_order RECORD;
+  v_request_id UUID;
+  v_amount NUMERIC;
+  v_refunded NUMERIC;
+BEGIN
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.buyer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the buyer can request a refund';
+  END IF;
+
+  IF v_order.status NOT IN ('delivered', 'issue_reported') THEN
+    RAISE EXCEPTION 'Refunds can only be requested for delivered orders. Current status: %', v_order.status;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM refund_requests WHERE order_id = p_order_id AND status = 'pending') THEN
+    RAISE EXCEPTION 'A refund request for this order is already being reviewed';
+  END IF;
+
+  IF p_refund_type NOT IN ('full', 'partial') THEN
+    RAISE EXCEPTION 'Invalid refund type: %', p_refund_type;
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Please describe the problem';
+  END IF;
+
+  -- Earlier approved requests (and a pending one, should it exist) have already claimed part
+  -- of the order; only the rest can be refunded
+  SELECT COALESCE(sum(amount), 0) INTO v_refunded
+  FROM refund_requests
+  WHERE order_id = p_order_id
+  AND status IN ('pending', 'approved');
+
+  IF v_refunded >= v_order.total_price THEN
+    RAISE EXCEPTION 'This order has already been refunded in full';
+  END IF;
+
+  INSERT INTO refund_requests (
+    order_id, buyer_id, farmer_id, refund_type, issue_type, reason, photo_urls, amount
+  ) VALUES (
+    p_order_id, v_order.buyer_id, v_order.farmer_id, p_refund_type, p_issue_type,
+    trim(p_reason), COALESCE(p_photo_urls, '{}'), v_order.total_price - v_refunded
+  )
+  RETURNING id INTO v_request_id;
+
+  IF p_refund_type = 'full' THEN
+    INSERT INTO refund_request_items (refund_request_id, product_id, quantity, unit_price)
+    SELECT v_request_id, ol.product_id, ol.quantity - COALESCE(cl.quantity, 0), ol.unit_price
+    FROM (
+      SELECT product_id, sum(quantity) AS quantity, sum(quantity * unit_price) / sum(quantity) AS unit_price
+      FROM order_items
+      WHERE order_id = p_order_id
+      GROUP BY product_id
+    ) ol
+    LEFT JOIN (
+      SELECT earlier_item.product_id, sum(earlier_item.quantity) AS quantity
+      FROM refund_request_items earlier_item
+      JOIN refund_requests earlier ON earlier.id = earlier_item.refund_request_id
+      WHERE earlier.order_id = p_order_id
+      AND earlier.status IN ('pending', 'approved')
+      AND earlier.id <> v_request_id
+      GROUP BY earlier_item.product_id
+    ) cl ON cl.product_id = ol.product_id
+    WHERE ol.quantity > COALESCE(cl.quantity, 0);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Everything on this order has already been refunded';
+    END IF;
+  ELSE
+    INSERT INTO refund_request_items (refund_request_id, product_id, quantity, unit_price)
+    SELECT v_request_id, ol.product_id, (i->>'quantity')::INTEGER, ol.unit_price
+    FROM jsonb_array_elements(p_items) AS i
+    JOIN (
+      SELECT product_id, sum(quantity * unit_price) / sum(quantity) AS unit_price
+      FROM order_items
+      WHERE order_id = p_order_id
+      GROUP BY product_id
+    ) ol ON ol.product_id = (i->>'product_id')::UUID
+    WHERE (i->>'quantity')::INTEGER > 0;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Choose at least one item to refund';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM refund_request_items ri
+      JOIN (
+        SELECT product_id, sum(quantity) AS quantity
+        FROM order_items
+        WHERE order_id = p_order_id
+        GROUP BY product_id
+      ) ol ON ol.product_id = ri.product_id
+      LEFT JOIN (
+        SELECT earlier_item.product_id, sum(earlier_item.quantity) AS quantity
+        FROM refund_request_items earlier_item
+        JOIN refund_requests earlier ON earlier.id = earlier_item.refund_request_id
+        WHERE earlier.order_id = p_order_id
+        AND earlier.status IN ('pending', 'approved')
+        AND earlier.id <> v_request_id
+        GROUP BY earlier_item.product_id
+      ) cl ON cl.product_id = ri.product_id
+      WHERE ri.refund_request_id = v_request_id
+      AND ri.quantity > ol.quantity - COALESCE(cl.quantity, 0)
+    ) THEN
+      RAISE EXCEPTION 'Cannot refund more than was ordered and not yet refunded';
+    END IF;
+
+    SELECT sum(quantity * unit_price) INTO v_amount
+    FROM refund_request_items
+    WHERE refund_request_id = v_request_id;
+
+    UPDATE refund_requests
+    SET amount = LEAST(v_amount, v_order.total_price - v_refunded)
+    WHERE id = v_request_id;
+  END IF;
+
+  IF v_order.status = 'delivered' THEN
+    PERFORM update_order_status_safe(
+      p_order_id,
+      'issue_reported',
+      format('%s refund requested: %s', initcap(p_refund_type), trim(p_reason))
+    );
+  END IF;
+
+  RETURN (SELECT row_to_json(r.*) FROM refund_requests r WHERE r.id = v_request_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION request_order_refund(UUID, TEXT, TEXT, TEXT, TEXT[], JSONB) TO authenticated;
+
+-- Returned units go back through restock_returned_units; otherwise unchanged
+CREATE OR REPLACE FUNCTION decide_refund_request(
+  p_request_id UUID,
+  p_approve BOOLEAN,
+  p_note TEXT DEFAULT NULL,
+  p_returned JSONB DEFAULT '[]'::jsonb
+) RETURNS JSON AS $$
+DECLARE
+  v_request RECORD;
+  v_order_status TEXT;
+  v_refund_id UUID;
+BEGIN
+  SELECT * INTO v_request
+  FROM refund_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Refund request not found';
+  END IF;
+
+  IF v_request.farmer_id IS DISTINCT FROM auth.uid() AND NOT is_admin_user() THEN
+    RAISE EXCEPTION 'Only the farmer or an admin can decide this refund';
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'This refund request was already %', v_request.status;
+  END IF;
+
+  SELECT status INTO v_order_status FROM orders WHERE id = v_request.order_id;
+
+  IF p_approve THEN
+    UPDATE refund_request_items ri
+    SET returned_quantity = LEAST(GREATEST((r->>'quantity')::INTEGER, 0), ri.quantity)
+    FROM jsonb_array_elements(COALESCE(p_returned, '[]'::jsonb)) AS r
+    WHERE ri.refund_request_id = p_request_id
+    AND ri.product_id = (r->>'product_id')::UUID;
+
+    PERFORM restock_returned_units(v_request.order_id, ri.product_id, ri.returned_quantity)
+    FROM refund_request_items ri
+    WHERE ri.refund_request_id = p_request_id
+    AND ri.returned_quantity > 0;
+
+    v_refund_id := record_order_refund(
+      v_request.order_id,
+      CASE WHEN v_request.refund_type = 'full' THEN NULL ELSE v_request.amount END,
+      p_request_id,
+      v_request.reason
+    );
+  END IF;
+
+  UPDATE refund_requests
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'denied' END,
+      decided_by = auth.uid(),
+      decided_at = NOW(),
+      decision_note = NULLIF(trim(COALESCE(p_note, '')), ''),
+      refund_transaction_id = v_refund_id,
+      updated_at = NOW()
+  WHERE id = p_request_id;
+
+  IF v_order_status = 'issue_reported' THEN
+    PERFORM update_order_status_safe(
+      v_request.order_id,
+      CASE WHEN p_approve AND v_request.refund_type = 'full' THEN 'cancelled' ELSE 'delivered' END,
+      CASE WHEN p_approve
+        THEN format('%s refund approved', initcap(v_request.refund_type))
+        ELSE COALESCE('Refund denied: ' || NULLIF(trim(COALESCE(p_note, '')), ''), 'Refund denied')
+      END
+    );
+  END IF;
+
+  RETURN (SELECT row_to_json(r.*) FROM refund_requests r WHERE r.id = p_request_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION decide_refund_request(UUID, BOOLEAN, TEXT, JSONB) TO authenticated;
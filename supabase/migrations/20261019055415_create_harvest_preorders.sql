@@ -0,0 +1,536 @@
+-- Harvest schedules and pre-orders
+--
+-- A farmer can publish a harvest they expect to bring in: which product (and option), when, how
+-- much and at what price. Buyers pre-order against it, optionally with a deposit that is paid to
+-- the farmer outside the app and confirmed by the farmer. Pre-orders can never add up to more than
+-- the projected quantity.
+--
+-- When the farmer marks the harvest as done with the actual yield, complete_harvest() fills the
+-- pre-orders first come, first served. Each filled pre-order becomes a regular confirmed order
+-- with its own COD transaction; paid deposits count towards it. Pre-orders the yield cannot cover
+-- are partially filled or cancelled, and any deposit that was not used is marked for refund.
+-- Whatever is left of the yield is added to the listing's stock.
+--
+-- Both tables are read-only to clients; every change goes through the functions below.
+
+-- 1. Harvests
+CREATE TABLE IF NOT EXISTS harvests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variant_id UUID REFERENCES product_variants(id) ON DELETE SET NULL,
+  farmer_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  expected_date DATE NOT NULL,
+  projected_quantity INTEGER NOT NULL CHECK (projected_quantity > 0),
+  actual_quantity INTEGER CHECK (actual_quantity >= 0),
+  price NUMERIC(10,2) NOT NULL CHECK (price > 0),
+  -- Share of a pre-order's value asked up front; 0 means no deposit
+  deposit_percent INTEGER NOT NULL DEFAULT 0 CHECK (deposit_percent BETWEEN 0 AND 100),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'harvested', 'cancelled')),
+  notes TEXT,
+  harvested_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_harvests_product ON harvests(product_id);
+CREATE INDEX IF NOT EXISTS idx_harvests_farmer ON harvests(farmer_id, status);
+CREATE INDEX IF NOT EXISTS idx_harvests_open_date ON harvests(expected_date) WHERE status = 'open';
+
+-- 2. Pre-orders
+CREATE TABLE IF NOT EXISTS preorders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  harvest_id UUID NOT NULL REFERENCES harvests(id) ON DELETE CASCADE,
+  buyer_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  -- Harvest price at the time of the pre-order
+  unit_price NUMERIC(10,2) NOT NULL,
+  deposit_amount NUMERIC(10,2) NOT NULL DEFAULT 0,
+  -- applied: counted towards the order; refund_due: the farmer owes it back
+  deposit_status TEXT NOT NULL DEFAULT 'none' CHECK (
+    deposit_status IN ('none', 'pending', 'paid', 'applied', 'refund_due', 'refunded')
+  ),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (
+    status IN ('pending', 'converted', 'partially_filled', 'cancelled')
+  ),
+  fulfilled_quantity INTEGER NOT NULL DEFAULT 0,
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  delivery_address TEXT,
+  notes TEXT,
+  cancel_reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_preorders_harvest ON preorders(harvest_id, status, created_at);
+CREATE INDEX IF NOT EXISTS idx_preorders_buyer ON preorders(buyer_id, created_at DESC);
+
+-- 3. RLS
+-- The two tables' policies look at each other, so the lookups run as definer to avoid recursion
+CREATE OR REPLACE FUNCTION harvest_farmer(p_harvest_id UUID)
+RETURNS UUID AS $$
+  SELECT farmer_id FROM harvests WHERE id = p_harvest_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION has_preordered_harvest(p_harvest_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM preorders
+    WHERE harvest_id = p_harvest_id
+    AND buyer_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE harvests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE preorders ENABLE ROW LEVEL SECURITY;
+
+-- Open harvests of approved listings are public, like the listings themselves
+DROP POLICY IF EXISTS "Anyone can view open harvests" ON harvests;
+CREATE POLICY "Anyone can view open harvests" ON harvests
+  FOR SELECT USING (
+    status = 'open'
+    AND EXISTS (SELECT 1 FROM products p WHERE p.id = harvests.product_id AND p.status = 'approved')
+  );
+
+DROP POLICY IF EXISTS "Farmers can view their harvests" ON harvests;
+CREATE POLICY "Farmers can view their harvests" ON harvests
+  FOR SELECT USING (farmer_id = auth.uid());
+
+DROP POLICY IF EXISTS "Buyers can view harvests they pre-ordered" ON harvests;
+CREATE POLICY "Buyers can view harvests they pre-ordered" ON harvests
+  FOR SELECT USING (has_preordered_harvest(id));
+
+DROP POLICY IF EXISTS "Admins can view harvests in their barangays" ON harvests;
+CREATE POLICY "Admins can view harvests in their barangays" ON harvests
+  FOR SELECT USING (admin_can_access_barangay(profile_barangay(farmer_id)));
+
+DROP POLICY IF EXISTS "Buyers can view their pre-orders" ON preorders;
+CREATE POLICY "Buyers can view their pre-orders" ON preorders
+  FOR SELECT USING (buyer_id = auth.uid());
+
+DROP POLICY IF EXISTS "Farmers can view pre-orders for their harvests" ON preorders;
+CREATE POLICY "Farmers can view pre-orders for their harvests" ON preorders
+  FOR SELECT USING (harvest_farmer(harvest_id) = auth.uid());
+
+DROP POLICY IF EXISTS "Admins can view pre-orders in their barangays" ON preorders;
+CREATE POLICY "Admins can view pre-orders in their barangays" ON preorders
+  FOR SELECT USING (admin_can_access_barangay(profile_barangay(buyer_id)));
+
+-- Pre-orders are only visible to the parties, so how much of a harvest is taken comes from here
+CREATE OR REPLACE FUNCTION harvest_reserved_quantities(p_harvest_ids UUID[])
+RETURNS TABLE (harvest_id UUID, reserved_quantity INTEGER) AS $$
+  SELECT h.id, COALESCE(sum(po.quantity), 0)::INTEGER
+  FROM harvests h
+  LEFT JOIN preorders po ON po.harvest_id = h.id AND po.status = 'pending'
+  WHERE h.id = ANY(p_harvest_ids)
+  GROUP BY h.id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION harvest_reserved_quantities(UUID[]) TO authenticated, anon;
+
+-- 4. Scheduling
+CREATE OR REPLACE FUNCTION schedule_harvest(
+  p_product_id UUID,
+  p_expected_date DATE,
+  p_projected_quantity INTEGER,
+  p_price NUMERIC,
+  p_deposit_percent INTEGER DEFAULT 0,
+  p_variant_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+) RETURNS harvests AS $$
+DECLARE
+  v_product RECORD;
+  v_harvest harvests;
+BEGIN
+  SELECT id, farmer_id, name INTO v_product
+  FROM products
+  WHERE id = p_product_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  IF v_product.farmer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the farmer can schedule harvests for "%"', v_product.name;
+  END IF;
+
+  IF p_expected_date IS NULL OR p_expected_date < CURRENT_DATE THEN
+    RAISE EXCEPTION 'The expected harvest date cannot be in the past';
+  END IF;
+
+  IF p_projected_quantity IS NULL OR p_projected_quantity <= 0 THEN
+    RAISE EXCEPTION 'Projected quantity must be greater than zero';
+  END IF;
+
+  IF p_price IS NULL OR p_price <= 0 THEN
+    RAISE EXCEPTION 'Price must be greater than zero';
+  END IF;
+
+  IF p_variant_id IS NULL THEN
+    IF EXISTS (SELECT 1 FROM product_variants WHERE product_id = p_product_id AND is_active) THEN
+      RAISE EXCEPTION 'Choose which option of "%" you are harvesting', v_product.name;
+    END IF;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM product_variants WHERE id = p_variant_id AND product_id = p_product_id AND is_active
+  ) THEN
+    RAISE EXCEPTION 'That option of "%" is no longer available', v_product.name;
+  END IF;
+
+  INSERT INTO harvests (
+    product_id, variant_id, farmer_id, expected_date, projected_quantity,
+    price, deposit_percent, notes
+  ) VALUES (
+    p_product_id, p_variant_id, v_product.farmer_id, p_expected_date, p_projected_quantity,
+    p_price, COALESCE(p_deposit_percent, 0), NULLIF(trim(p_notes), '')
+  ) RETURNING * INTO v_harvest;
+
+  RETURN v_harvest;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION schedule_harvest(UUID, DATE, INTEGER, NUMERIC, INTEGER, UUID, TEXT) TO authenticated;
+
+-- Cancelling a harvest cancels its open pre-orders; returns them for notifications
+CREATE OR REPLACE FUNCTION cancel_harvest(
+  p_harvest_id UUID,
+  p_reason TEXT DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  v_harvest harvests;
+  v_cancelled JSON;
+BEGIN
+  SELECT * INTO v_harvest FROM harvests WHERE id = p_harvest_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Harvest not found';
+  END IF;
+
+  IF v_harvest.farmer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the farmer can cancel this harvest';
+  END IF;
+
+  IF v_harvest.status <> 'open' THEN
+    RAISE EXCEPTION 'This harvest is already %', v_harvest.status;
+  END IF;
+
+  WITH cancelled AS (
+    UPDATE preorders
+    SET status = 'cancelled',
+        cancel_reason = COALESCE(NULLIF(trim(p_reason), ''), 'The harvest was cancelled'),
+        deposit_status = CASE WHEN deposit_status = 'paid' THEN 'refund_due' ELSE 'none' END,
+        updated_at = NOW()
+    WHERE harvest_id = p_harvest_id
+    AND status = 'pending'
+    RETURNING *
+  )
+  SELECT COALESCE(json_agg(row_to_json(cancelled.*)), '[]'::json) INTO v_cancelled FROM cancelled;
+
+  UPDATE harvests
+  SET status = 'cancelled',
+      notes = COALESCE(NULLIF(trim(p_reason), ''), notes),
+      updated_at = NOW()
+  WHERE id = p_harvest_id;
+
+  RETURN v_cancelled;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION cancel_harvest(UUID, TEXT) TO authenticated;
+
+-- 5. Pre-orders
+CREATE OR REPLACE FUNCTION place_preorder(
+  p_harvest_id UUID,
+  p_quantity INTEGER,
+  p_delivery_address TEXT,
+  p_notes TEXT DEFAULT NULL
+) RETURNS preorders AS $$
+DECLARE
+  v_harvest harvests;
+  v_reserved INTEGER;
+  v_deposit NUMERIC;
+  v_preorder preorders;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to pre-order';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero';
+  END IF;
+
+  IF p_delivery_address IS NULL OR length(trim(p_delivery_address)) = 0 THEN
+    RAISE EXCEPTION 'A delivery address is required';
+  END IF;
+
+  -- Serialises pre-orders on the same harvest so they cannot oversell it
+  SELECT * INTO v_harvest FROM harvests WHERE id = p_harvest_id FOR UPDATE;
+
+  IF NOT FOUND OR v_harvest.status <> 'open' THEN
+    RAISE EXCEPTION 'This harvest is no longer taking pre-orders';
+  END IF;
+
+  IF v_harvest.farmer_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot pre-order your own harvest';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM products WHERE id = v_harvest.product_id AND status = 'approved') THEN
+    RAISE EXCEPTION 'This product is not available for sale';
+  END IF;
+
+  SELECT reserved_quantity INTO v_reserved
+  FROM harvest_reserved_quantities(ARRAY[p_harvest_id]);
+
+  IF v_reserved + p_quantity > v_harvest.projected_quantity THEN
+    RAISE EXCEPTION 'Only % left to pre-order', GREATEST(v_harvest.projected_quantity - v_reserved, 0);
+  END IF;
+
+  v_deposit := round(v_harvest.price * p_quantity * v_harvest.deposit_percent / 100.0, 2);
+
+  INSERT INTO preorders (
+    harvest_id, buyer_id, quantity, unit_price, deposit_amount, deposit_status,
+    delivery_address, notes
+  ) VALUES (
+    p_harvest_id, auth.uid(), p_quantity, v_harvest.price, v_deposit,
+    CASE WHEN v_deposit > 0 THEN 'pending' ELSE 'none' END,
+    trim(p_delivery_address), NULLIF(trim(p_notes), '')
+  ) RETURNING * INTO v_preorder;
+
+  RETURN v_preorder;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION place_preorder(UUID, INTEGER, TEXT, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION cancel_preorder(
+  p_preorder_id UUID,
+  p_reason TEXT DEFAULT NULL
+) RETURNS preorders AS $$
+DECLARE
+  v_preorder preorders;
+BEGIN
+  SELECT * INTO v_preorder FROM preorders WHERE id = p_preorder_id FOR UPDATE;
+
+  IF NOT FOUND OR v_preorder.buyer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Pre-order not found';
+  END IF;
+
+  IF v_preorder.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending pre-orders can be cancelled';
+  END IF;
+
+  UPDATE preorders
+  SET status = 'cancelled',
+      cancel_reason = COALESCE(NULLIF(trim(p_reason), ''), 'Cancelled by the buyer'),
+      deposit_status = CASE WHEN deposit_status = 'paid' THEN 'refund_due' ELSE 'none' END,
+      updated_at = NOW()
+  WHERE id = p_preorder_id
+  RETURNING * INTO v_preorder;
+
+  RETURN v_preorder;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION cancel_preorder(UUID, TEXT) TO authenticated;
+
+-- The farmer confirms a deposit they received, or one they paid back
+CREATE OR REPLACE FUNCTION update_preorder_deposit(
+  p_preorder_id UUID,
+  p_deposit_status TEXT
+) RETURNS preorders AS $$
+DECLARE
+  v_preorder preorders;
+  v_farmer_id UUID;
+BEGIN
+  SELECT po.* INTO v_preorder FROM preorders po WHERE po.id = p_preorder_id FOR UPDATE;
+
+  SELECT farmer_id INTO v_farmer_id FROM harvests WHERE id = v_preorder.harvest_id;
+
+  IF v_preorder.id IS NULL OR v_farmer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Pre-order not found';
+  END IF;
+
+  IF NOT (
+    (p_deposit_status = 'paid' AND v_preorder.deposit_status = 'pending' AND v_preorder.status = 'pending')
+    OR (p_deposit_status = 'refunded' AND v_preorder.deposit_status = 'refund_due')
+  ) THEN
+    RAISE EXCEPTION 'Cannot mark a % deposit as %', v_preorder.deposit_status, p_deposit_status;
+  END IF;
+
+  UPDATE preorders
+  SET deposit_status = p_deposit_status,
+      updated_at = NOW()
+  WHERE id = p_preorder_id
+  RETURNING * INTO v_preorder;
+
+  RETURN v_preorder;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION update_preorder_deposit(UUID, TEXT) TO authenticated;
+
+-- 6. Completing a harvest
+-- Fills pending pre-orders oldest first. Returns one entry per pre-order with its outcome
+-- ('converted', 'partially_filled' or 'cancelled') so the app can notify the buyers.
+CREATE OR REPLACE FUNCTION complete_harvest(
+  p_harvest_id UUID,
+  p_actual_quantity INTEGER
+) RETURNS JSON AS $$
+DECLARE
+  v_harvest harvests;
+  v_product RECORD;
+  v_variant_name TEXT;
+  v_unit TEXT;
+  v_preorder preorders;
+  v_remaining INTEGER;
+  v_fill INTEGER;
+  v_total NUMERIC;
+  v_applied NUMERIC;
+  v_order_id UUID;
+  v_results JSON[] := ARRAY[]::JSON[];
+BEGIN
+  SELECT * INTO v_harvest FROM harvests WHERE id = p_harvest_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Harvest not found';
+  END IF;
+
+  IF v_harvest.farmer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the farmer can complete this harvest';
+  END IF;
+
+  IF v_harvest.status <> 'open' THEN
+    RAISE EXCEPTION 'This harvest is already %', v_harvest.status;
+  END IF;
+
+  IF p_actual_quantity IS NULL OR p_actual_quantity < 0 THEN
+    RAISE EXCEPTION 'Actual quantity cannot be negative';
+  END IF;
+
+  SELECT id, name, unit INTO v_product FROM products WHERE id = v_harvest.product_id FOR UPDATE;
+  v_unit := v_product.unit;
+
+  IF v_harvest.variant_id IS NOT NULL THEN
+    SELECT name, COALESCE(unit, v_unit) INTO v_variant_name, v_unit
+    FROM product_variants
+    WHERE id = v_harvest.variant_id
+    FOR UPDATE;
+  END IF;
+
+  v_remaining := p_actual_quantity;
+
+  FOR v_preorder IN
+    SELECT * FROM preorders
+    WHERE harvest_id = p_harvest_id
+    AND status = 'pending'
+    ORDER BY created_at, id
+    FOR UPDATE
+  LOOP
+    v_fill := LEAST(v_preorder.quantity, v_remaining);
+    v_remaining := v_remaining - v_fill;
+
+    IF v_fill = 0 THEN
+      UPDATE preorders
+      SET status = 'cancelled',
+          cancel_reason = 'The harvest came in short',
+          deposit_status = CASE WHEN deposit_status = 'paid' THEN 'refund_due' ELSE 'none' END,
+          updated_at = NOW()
+      WHERE id = v_preorder.id
+      RETURNING * INTO v_preorder;
+
+      v_results := v_results || json_build_object(
+        'outcome', 'cancelled',
+        'preorder', row_to_json(v_preorder),
+        'order', NULL
+      );
+      CONTINUE;
+    END IF;
+
+    v_total := v_fill * v_preorder.unit_price;
+    -- A paid deposit counts towards the order, up to its value; the rest goes back to the buyer
+    v_applied := CASE WHEN v_preorder.deposit_status = 'paid'
+      THEN LEAST(v_preorder.deposit_amount, v_total) ELSE 0 END;
+
+    INSERT INTO orders (
+      buyer_id, farmer_id, product_id, quantity, total_price,
+      status, delivery_address, notes
+    ) VALUES (
+      v_preorder.buyer_id, v_harvest.farmer_id, v_harvest.product_id, v_fill, v_total,
+      'confirmed', v_preorder.delivery_address,
+      concat_ws(E'\n', v_preorder.notes, 'Pre-order from the ' || to_char(v_harvest.expected_date, 'Mon DD, YYYY') || ' harvest')
+    ) RETURNING id INTO v_order_id;
+
+    INSERT INTO order_items (order_id, product_id, variant_id, variant_name, unit, quantity, unit_price)
+    VALUES (
+      v_order_id, v_harvest.product_id, v_harvest.variant_id, v_variant_name,
+      v_unit, v_fill, v_preorder.unit_price
+    );
+
+    INSERT INTO transactions (order_id, amount, amount_paid, status, payment_method)
+    VALUES (v_order_id, v_total, v_applied, 'pending', 'cod');
+
+    UPDATE preorders
+    SET status = CASE WHEN v_fill = quantity THEN 'converted' ELSE 'partially_filled' END,
+        fulfilled_quantity = v_fill,
+        order_id = v_order_id,
+        -- An unpaid deposit is no longer asked for; the whole amount is due on delivery
+        deposit_status = CASE deposit_status
+          WHEN 'paid' THEN CASE WHEN deposit_amount > v_applied THEN 'refund_due' ELSE 'applied' END
+          WHEN 'pending' THEN 'none'
+          ELSE deposit_status
+        END,
+        updated_at = NOW()
+    WHERE id = v_preorder.id
+    RETURNING * INTO v_preorder;
+
+    v_results := v_results || json_build_object(
+      'outcome', v_preorder.status,
+      'preorder', row_to_json(v_preorder),
+      'order', (SELECT row_to_json(o.*) FROM orders o WHERE o.id = v_order_id)
+    );
+  END LOOP;
+
+  -- Whatever was not pre-ordered goes on sale
+  IF v_remaining > 0 THEN
+    IF v_harvest.variant_id IS NOT NULL THEN
+      UPDATE product_variants
+      SET quantity_available = quantity_available + v_remaining,
+          updated_at = NOW()
+      WHERE id = v_harvest.variant_id;
+    ELSE
+      UPDATE products
+      SET quantity_available = quantity_available + v_remaining,
+          updated_at = NOW()
+      WHERE id = v_harvest.product_id;
+    END IF;
+  END IF;
+
+  UPDATE harvests
+  SET status = 'harvested',
+      actual_quantity = p_actual_quantity,
+      harvested_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_harvest_id;
+
+  RETURN json_build_object(
+    'restocked_quantity', v_remaining,
+    'preorders', array_to_json(v_results)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION complete_harvest(UUID, INTEGER) TO authenticated;
+
+-- 7. Notification types for pre-orders
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check CHECK (type IN (
+  'user_approved', 'user_rejected', 'user_deleted',
+  'product_approved', 'product_rejected', 'product_deleted',
+  'product_created', 'product_updated', 'product_low_stock',
+  'verification_approved', 'verification_rejected',
+  'order_created', 'order_confirmed', 'order_processing', 'order_ready',
+  'order_completed', 'order_cancelled', 'order_status_changed',
+  'order_cancellation_requested',
+  'payment_received', 'payment_pending',
+  'review_received', 'review_reply',
+  'preorder_placed', 'preorder_fulfilled', 'preorder_cancelled',
+  'admin_action', 'system_message'
+));
@@ -0,0 +1,298 @@
+-- Product image galleries
+--
+-- A product can have several ordered images. The app resizes and compresses each photo on the
+-- device and uploads two files per image to the product-images bucket, a full-size JPEG and a small
+-- thumbnail, under the farmer's folder. A blurhash of the thumbnail is stored so lists can show a
+-- placeholder while the thumbnail loads.
+--
+-- products.image_url, thumbnail_url and image_blurhash mirror the first image so the marketplace,
+-- search and every older screen keep working from the products row alone.
+--
+-- The gallery is replaced as a whole through save_product_images(). New images must be files the
+-- caller uploaded to their own folder. Files no gallery uses any more are recorded in
+-- product_image_orphans; the app deletes them from storage (the storage API is the only way to
+-- remove files) and then clears them, so a failed delete is retried later.
+
+-- 1. Gallery
+CREATE TABLE IF NOT EXISTS product_images (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL,
+  thumbnail_path TEXT,
+  url TEXT NOT NULL,
+  thumbnail_url TEXT,
+  blurhash TEXT,
+  width INTEGER,
+  height INTEGER,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_images_product ON product_images(product_id, sort_order);
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS thumbnail_url TEXT;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS image_blurhash TEXT;
+
+-- Existing single images become the first image of each gallery
+INSERT INTO product_images (product_id, storage_path, url, sort_order)
+SELECT p.id, split_part(p.image_url, '/product-images/', 2), p.image_url, 0
+FROM products p
+WHERE p.image_url LIKE '%/product-images/%'
+AND NOT EXISTS (SELECT 1 FROM product_images pi WHERE pi.product_id = p.id);
+
+-- 2. Files waiting to be deleted from storage
+CREATE TABLE IF NOT EXISTS product_image_orphans (
+  storage_path TEXT PRIMARY KEY,
+  -- Farmer whose product the file belonged to
+  owner_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE product_images ENABLE ROW LEVEL SECURITY;
+ALTER TABLE product_image_orphans ENABLE ROW LEVEL SECURITY;
+
+-- Images are visible to whoever can see the product
+DROP POLICY IF EXISTS "Product images follow product visibility" ON product_images;
+CREATE POLICY "Product images follow product visibility" ON product_images
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM products p WHERE p.id = product_images.product_id)
+  );
+
+DROP POLICY IF EXISTS "Owners and admins can view orphaned images" ON product_image_orphans;
+CREATE POLICY "Owners and admins can view orphaned images" ON product_image_orphans
+  FOR SELECT USING (
+    owner_id = auth.uid()
+    OR admin_can_access_barangay(profile_barangay(owner_id))
+  );
+
+-- 3. Storage bucket
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('product-images', 'product-images', true)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Farmers can upload product images to their folder" ON storage.objects;
+CREATE POLICY "Farmers can upload product images to their folder"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'product-images'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+-- Uploads are retried with upsert, which needs update rights on the same files
+DROP POLICY IF EXISTS "Farmers can replace product images in their folder" ON storage.objects;
+CREATE POLICY "Farmers can replace product images in their folder"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (
+  bucket_id = 'product-images'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+DROP POLICY IF EXISTS "Anyone can view product images" ON storage.objects;
+CREATE POLICY "Anyone can view product images"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'product-images');
+
+-- Older uploads sit at the bucket root, so the uploader (owner) may delete those too
+DROP POLICY IF EXISTS "Owners and admins can delete product images" ON storage.objects;
+CREATE POLICY "Owners and admins can delete product images"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'product-images'
+  AND (
+    (storage.foldername(name))[1] = auth.uid()::text
+    OR owner = auth.uid()
+    OR is_admin_user()
+  )
+);
+
+-- 4. Saving a gallery
+-- p_images is the full ordered list:
+-- [{ storage_path, thumbnail_path, url, thumbnail_url, blurhash, width, height }]
+-- Returns the storage paths that are no longer used, for the caller to delete.
+CREATE OR REPLACE FUNCTION save_product_images(
+  p_product_id UUID,
+  p_images JSONB
+) RETURNS JSON AS $$
+DECLARE
+  v_product RECORD;
+  v_kept TEXT[];
+  v_removed TEXT[];
+  v_first JSONB;
+BEGIN
+  SELECT id, farmer_id INTO v_product FROM products WHERE id = p_product_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  IF v_product.farmer_id IS DISTINCT FROM auth.uid()
+    AND NOT admin_can_access_barangay(profile_barangay(v_product.farmer_id)) THEN
+    RAISE EXCEPTION 'Unauthorized to change images of this product';
+  END IF;
+
+  p_images := COALESCE(p_images, '[]'::jsonb);
+
+  IF jsonb_array_length(p_images) > 10 THEN
+    RAISE EXCEPTION 'A product can have at most 10 images';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_images) AS img
+    WHERE COALESCE(img->>'storage_path', '') = '' OR COALESCE(img->>'url', '') = ''
+  ) THEN
+    RAISE EXCEPTION 'Every image needs a storage path and URL';
+  END IF;
+
+  -- New files must come from the caller's own folder. Files already in this gallery may stay,
+  -- which covers older uploads at the bucket root and a farmer's files kept by an admin's edit.
+  IF EXISTS (
+    SELECT 1
+    FROM (
+      SELECT img->>'storage_path' AS path FROM jsonb_array_elements(p_images) AS img
+      UNION
+      SELECT NULLIF(img->>'thumbnail_path', '') FROM jsonb_array_elements(p_images) AS img
+    ) requested
+    WHERE path IS NOT NULL
+    AND split_part(path, '/', 1) <> auth.uid()::text
+    AND NOT EXISTS (
+      SELECT 1 FROM product_images pi
+      WHERE pi.product_id = p_product_id
+      AND (pi.storage_path = requested.path OR pi.thumbnail_path = requested.path)
+    )
+  ) THEN
+    RAISE EXCEPTION 'Images must be uploaded to your own folder';
+  END IF;
+
+  SELECT COALESCE(array_agg(path), '{}') INTO v_kept
+  FROM (
+    SELECT img->>'storage_path' AS path FROM jsonb_array_elements(p_images) AS img
+    UNION
+    SELECT img->>'thumbnail_path' FROM jsonb_array_elements(p_images) AS img
+    WHERE img->>'thumbnail_path' IS NOT NULL
+  ) kept;
+
+  SELECT COALESCE(array_agg(DISTINCT path), '{}') INTO v_removed
+  FROM (
+    SELECT storage_path AS path FROM product_images WHERE product_id = p_product_id
+    UNION
+    SELECT thumbnail_path FROM product_images WHERE product_id = p_product_id AND thumbnail_path IS NOT NULL
+  ) old
+  WHERE path <> ALL(v_kept);
+
+  DELETE FROM product_images WHERE product_id = p_product_id;
+
+  INSERT INTO product_images (
+    product_id, storage_path, thumbnail_path, url, thumbnail_url, blurhash, width, height, sort_order
+  )
+  SELECT
+    p_product_id,
+    img->>'storage_path',
+    NULLIF(img->>'thumbnail_path', ''),
+    img->>'url',
+    NULLIF(img->>'thumbnail_url', ''),
+    NULLIF(img->>'blurhash', ''),
+    (img->>'width')::INTEGER,
+    (img->>'height')::INTEGER,
+    (position - 1)::INTEGER
+  FROM jsonb_array_elements(p_images) WITH ORDINALITY AS images(img, position);
+
+  v_first := p_images->0;
+
+  UPDATE products
+  SET image_url = v_first->>'url',
+      thumbnail_url = COALESCE(NULLIF(v_first->>'thumbnail_url', ''), v_first->>'url'),
+      image_blurhash = NULLIF(v_first->>'blurhash', ''),
+      updated_at = NOW()
+  WHERE id = p_product_id;
+
+  -- Another gallery may share the file; then it isn't an orphan
+  INSERT INTO product_image_orphans (storage_path, owner_id)
+  SELECT path, v_product.farmer_id FROM unnest(v_removed) AS path
+  WHERE NOT EXISTS (
+    SELECT 1 FROM product_images pi
+    WHERE pi.storage_path = path OR pi.thumbnail_path = path
+  )
+  ON CONFLICT (storage_path) DO NOTHING;
+
+  -- A file that was put back is no longer an orphan
+  DELETE FROM product_image_orphans WHERE storage_path = ANY(v_kept);
+
+  RETURN json_build_object('removed', to_json(v_removed));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION save_product_images(UUID, JSONB) TO authenticated;
+
+-- Orphans the caller may delete from storage. Entries a gallery has started using again are
+-- dropped first, so a file is never deleted while a product still shows it.
+CREATE OR REPLACE FUNCTION get_product_image_orphans(p_limit INTEGER DEFAULT 100)
+RETURNS SETOF TEXT AS $$
+BEGIN
+  DELETE FROM product_image_orphans o
+  WHERE EXISTS (
+    SELECT 1 FROM product_images pi
+    WHERE pi.storage_path = o.storage_path OR pi.thumbnail_path = o.storage_path
+  );
+
+  RETURN QUERY
+  SELECT o.storage_path FROM product_image_orphans o
+  WHERE o.owner_id = auth.uid() OR admin_can_access_barangay(profile_barangay(o.owner_id))
+  ORDER BY o.created_at
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_product_image_orphans(INTEGER) TO authenticated;
+
+-- Called once the files are gone from storage
+CREATE OR REPLACE FUNCTION clear_product_image_orphans(p_paths TEXT[])
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  DELETE FROM product_image_orphans
+  WHERE storage_path = ANY(p_paths)
+  AND (owner_id = auth.uid() OR admin_can_access_barangay(profile_barangay(owner_id)))
+  -- Never clear a file a gallery still uses
+  AND NOT EXISTS (
+    SELECT 1 FROM product_images pi
+    WHERE pi.storage_path = product_image_orphans.storage_path
+    OR pi.thumbnail_path = product_image_orphans.storage_path
+  );
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION clear_product_image_orphans(TEXT[]) TO authenticated;
+
+-- Deleting a product leaves its files behind; queue them for cleanup too
+CREATE OR REPLACE FUNCTION queue_deleted_product_images()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO product_image_orphans (storage_path, owner_id)
+  SELECT path, OLD.farmer_id
+  FROM (
+    SELECT storage_path AS path FROM product_images WHERE product_id = OLD.id
+    UNION
+    SELECT thumbnail_path FROM product_images WHERE product_id = OLD.id AND thumbnail_path IS NOT NULL
+  ) files
+  WHERE NOT EXISTS (
+    SELECT 1 FROM product_images pi
+    WHERE pi.product_id <> OLD.id
+    AND (pi.storage_path = files.path OR pi.thumbnail_path = files.path)
+  )
+  ON CONFLICT (storage_path) DO NOTHING;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_queue_deleted_product_images ON products;
+CREATE TRIGGER trigger_queue_deleted_product_images
+  BEFORE DELETE ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_deleted_product_images();
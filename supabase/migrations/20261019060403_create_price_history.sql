@@ -0,0 +1,172 @@
+-- Price history and market reference prices
+--
+-- Every price a product has had is kept in product_price_history, written by a trigger so the
+-- forms, updateProduct(), the offline queue and admins all record it the same way. For products
+-- with options the tracked price is products.price, which the app keeps at the cheapest option.
+--
+-- get_market_reference_prices() compares listings of the same crop sold by the same unit,
+-- optionally within one barangay: median, min and max of the current prices, the median 7 and
+-- 30 days ago, and a short series of medians for a chart. A crop is the product name, trimmed
+-- and lowercased, so "Tomato" and "tomato " match but "Tomatoes" does not.
+
+-- 1. History
+CREATE TABLE IF NOT EXISTS product_price_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  farmer_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  crop TEXT NOT NULL,
+  unit TEXT NOT NULL,
+  price DECIMAL(10,2) NOT NULL,
+  previous_price DECIMAL(10,2),
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_history_product ON product_price_history(product_id, recorded_at DESC);
+CREATE INDEX IF NOT EXISTS idx_price_history_crop ON product_price_history(crop, unit, recorded_at);
+
+CREATE OR REPLACE FUNCTION normalize_crop(p_name TEXT)
+RETURNS TEXT AS $$
+  SELECT lower(btrim(p_name));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Current prices of existing products become their first entry
+INSERT INTO product_price_history (product_id, farmer_id, crop, unit, price, recorded_at)
+SELECT p.id, p.farmer_id, normalize_crop(p.name), p.unit, p.price, COALESCE(p.created_at, NOW())
+FROM products p
+WHERE NOT EXISTS (SELECT 1 FROM product_price_history h WHERE h.product_id = p.id);
+
+CREATE OR REPLACE FUNCTION record_product_price()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.price IS NOT DISTINCT FROM OLD.price
+    AND normalize_crop(NEW.name) IS NOT DISTINCT FROM normalize_crop(OLD.name)
+    AND NEW.unit IS NOT DISTINCT FROM OLD.unit THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO product_price_history (product_id, farmer_id, crop, unit, price, previous_price)
+  VALUES (
+    NEW.id,
+    NEW.farmer_id,
+    normalize_crop(NEW.name),
+    NEW.unit,
+    NEW.price,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.price END
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_record_product_price ON products;
+CREATE TRIGGER trigger_record_product_price
+  AFTER INSERT OR UPDATE OF price, name, unit ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION record_product_price();
+
+ALTER TABLE product_price_history ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the trigger
+DROP POLICY IF EXISTS "Price history follows product visibility" ON product_price_history;
+CREATE POLICY "Price history follows product visibility" ON product_price_history
+  FOR SELECT USING (
+    farmer_id = auth.uid()
+    OR admin_can_access_barangay(profile_barangay(farmer_id))
+    OR EXISTS (
+      SELECT 1 FROM products p
+      WHERE p.id = product_price_history.product_id AND p.status = 'approved'
+    )
+  );
+
+-- 2. Market reference prices
+-- The price each approved listing of a crop had at a point in time
+CREATE OR REPLACE FUNCTION market_prices_at(
+  p_crop TEXT,
+  p_unit TEXT,
+  p_barangay TEXT,
+  p_exclude_product UUID,
+  p_at TIMESTAMPTZ
+) RETURNS TABLE (product_id UUID, price DECIMAL) AS $$
+  SELECT latest.product_id, latest.price
+  FROM (
+    -- Only this crop's rows are read (idx_price_history_crop), not every product's history
+    SELECT DISTINCT ON (h.product_id) h.product_id, h.price, h.recorded_at
+    FROM product_price_history h
+    WHERE h.crop = normalize_crop(p_crop)
+    AND h.unit = p_unit
+    AND h.recorded_at <= p_at
+    ORDER BY h.product_id, h.recorded_at DESC
+  ) latest
+  JOIN products p ON p.id = latest.product_id
+  WHERE p.status = 'approved'
+  -- A listing renamed or sold by another unit since then no longer counts as this crop
+  AND NOT EXISTS (
+    SELECT 1 FROM product_price_history later
+    WHERE later.product_id = latest.product_id
+    AND later.recorded_at > latest.recorded_at
+    AND later.recorded_at <= p_at
+  )
+  AND (p_barangay IS NULL OR profile_barangay(p.farmer_id) = p_barangay)
+  AND (p_exclude_product IS NULL OR p.id <> p_exclude_product);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Returns:
+-- { crop, unit, barangay, sample_size, median, min, max, trend_7d, trend_30d,
+--   series: [{ date, median }] }
+-- Trends are the percent change of the median; they and the series entries are null when
+-- there were no listings to compare.
+CREATE OR REPLACE FUNCTION get_market_reference_prices(
+  p_crop TEXT,
+  p_unit TEXT,
+  p_barangay TEXT DEFAULT NULL,
+  p_exclude_product UUID DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  v_count INTEGER;
+  v_median NUMERIC;
+  v_min NUMERIC;
+  v_max NUMERIC;
+  v_median_7d NUMERIC;
+  v_median_30d NUMERIC;
+  v_series JSON;
+BEGIN
+  SELECT
+    COUNT(*),
+    percentile_cont(0.5) WITHIN GROUP (ORDER BY price)::NUMERIC,
+    MIN(price),
+    MAX(price)
+  INTO v_count, v_median, v_min, v_max
+  FROM market_prices_at(p_crop, p_unit, p_barangay, p_exclude_product, NOW());
+
+  SELECT percentile_cont(0.5) WITHIN GROUP (ORDER BY price)::NUMERIC INTO v_median_7d
+  FROM market_prices_at(p_crop, p_unit, p_barangay, p_exclude_product, NOW() - INTERVAL '7 days');
+
+  SELECT percentile_cont(0.5) WITHIN GROUP (ORDER BY price)::NUMERIC INTO v_median_30d
+  FROM market_prices_at(p_crop, p_unit, p_barangay, p_exclude_product, NOW() - INTERVAL '30 days');
+
+  SELECT json_agg(json_build_object(
+    'date', point::DATE,
+    'median', (
+      SELECT ROUND(percentile_cont(0.5) WITHIN GROUP (ORDER BY price)::NUMERIC, 2)
+      FROM market_prices_at(p_crop, p_unit, p_barangay, p_exclude_product, point)
+    )
+  ) ORDER BY point)
+  INTO v_series
+  FROM generate_series(NOW() - INTERVAL '30 days', NOW(), INTERVAL '5 days') AS point;
+
+  RETURN json_build_object(
+    'crop', normalize_crop(p_crop),
+    'unit', p_unit,
+    'barangay', p_barangay,
+    'sample_size', v_count,
+    'median', ROUND(v_median, 2),
+    'min', v_min,
+    'max', v_max,
+    'trend_7d', CASE WHEN v_median_7d > 0 THEN ROUND((v_median - v_median_7d) / v_median_7d * 100, 1) END,
+    'trend_30d', CASE WHEN v_median_30d > 0 THEN ROUND((v_median - v_median_30d) / v_median_30d * 100, 1) END,
+    'series', COALESCE(v_series, '[]'::json)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_market_reference_prices(TEXT, TEXT, TEXT, UUID) TO authenticated, anon;
@@ -0,0 +1,402 @@
+-- Delivery scheduling
+--
+-- Farmers define weekly delivery windows and pickup points ("barangay hall, every Saturday
+-- 7-10am"), each with a capacity in orders per date. Buyers book one for each order at checkout
+-- (in the same transaction that places the orders, so a full slot fails the checkout) and either side can move an order to another slot later.
+--
+-- The booked slot is copied onto the order (method, date, window and pickup location), so an
+-- order keeps its schedule when the farmer edits or retires the slot.
+
+-- 1. Slots
+CREATE TABLE IF NOT EXISTS delivery_slots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  farmer_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('delivery', 'pickup')),
+  label TEXT NOT NULL,
+  -- Where buyers collect their order; pickup points only
+  location TEXT,
+  -- 0 = Sunday, as in JavaScript's getDay() and EXTRACT(DOW)
+  day_of_week SMALLINT NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  capacity INTEGER NOT NULL CHECK (capacity > 0),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (end_time > start_time),
+  CHECK (kind = 'delivery' OR COALESCE(btrim(location), '') <> '')
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_slots_farmer ON delivery_slots(farmer_id, is_active);
+
+DROP TRIGGER IF EXISTS trigger_delivery_slots_updated_at ON delivery_slots;
+CREATE TRIGGER trigger_delivery_slots_updated_at
+  BEFORE UPDATE ON delivery_slots
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE delivery_slots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view active delivery slots" ON delivery_slots;
+CREATE POLICY "Anyone can view active delivery slots" ON delivery_slots
+  FOR SELECT USING (is_active OR farmer_id = auth.uid());
+
+-- Slots are retired (is_active = false) rather than deleted, so there is no delete policy
+DROP POLICY IF EXISTS "Farmers can add their delivery slots" ON delivery_slots;
+CREATE POLICY "Farmers can add their delivery slots" ON delivery_slots
+  FOR INSERT WITH CHECK (farmer_id = auth.uid());
+
+DROP POLICY IF EXISTS "Farmers can update their delivery slots" ON delivery_slots;
+CREATE POLICY "Farmers can update their delivery slots" ON delivery_slots
+  FOR UPDATE USING (farmer_id = auth.uid()) WITH CHECK (farmer_id = auth.uid());
+
+-- 2. Schedule on the order
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS fulfillment_method TEXT
+  CHECK (fulfillment_method IN ('delivery', 'pickup'));
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS delivery_slot_id UUID REFERENCES delivery_slots(id) ON DELETE SET NULL;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS delivery_date DATE;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS delivery_window_start TIME;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS delivery_window_end TIME;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS pickup_location TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_orders_delivery_slot ON orders(delivery_slot_id, delivery_date);
+CREATE INDEX IF NOT EXISTS idx_orders_farmer_delivery_date ON orders(farmer_id, delivery_date);
+
+-- 3. Availability
+-- Dates in the next p_days on which each of a farmer's active slots runs, with the orders
+-- already booked. Cancelled orders free their place.
+CREATE OR REPLACE FUNCTION delivery_slot_availability(
+  p_farmer_id UUID,
+  p_days INTEGER DEFAULT 14
+) RETURNS TABLE (slot_id UUID, slot_date DATE, booked INTEGER, remaining INTEGER) AS $$
+  SELECT
+    s.id,
+    d.day::DATE,
+    COUNT(o.id)::INTEGER,
+    GREATEST(s.capacity - COUNT(o.id), 0)::INTEGER
+  FROM delivery_slots s
+  CROSS JOIN generate_series(CURRENT_DATE, CURRENT_DATE + (LEAST(p_days, 60) - 1), INTERVAL '1 day') AS d(day)
+  LEFT JOIN orders o
+    ON o.delivery_slot_id = s.id
+    AND o.delivery_date = d.day::DATE
+    AND o.status <> 'cancelled'
+  WHERE s.farmer_id = p_farmer_id
+  AND s.is_active
+  AND EXTRACT(DOW FROM d.day) = s.day_of_week
+  GROUP BY s.id, s.capacity, d.day
+  ORDER BY d.day, MIN(s.start_time);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION delivery_slot_availability(UUID, INTEGER) TO authenticated;
+
+-- 4. Booking and rescheduling
+-- Either side of the order may book; the slot must be the order's farmer's and have room on
+-- that date. Returns { order, previous } where previous is the schedule that was replaced
+-- (null on the first booking), so the app can tell both sides what changed.
+CREATE OR REPLACE FUNCTION book_delivery_slot(
+  p_order_id UUID,
+  p_slot_id UUID,
+  p_date DATE
+) RETURNS JSON AS $$
+DECLARE
+  v_order RECORD;
+  v_slot RECORD;
+  v_booked INTEGER;
+  v_previous JSON;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM v_order.buyer_id AND auth.uid() IS DISTINCT FROM v_order.farmer_id THEN
+    RAISE EXCEPTION 'Unauthorized to schedule this order';
+  END IF;
+
+  IF v_order.status NOT IN ('pending', 'confirmed', 'processing', 'ready') THEN
+    RAISE EXCEPTION 'Orders that are % can no longer be rescheduled', v_order.status;
+  END IF;
+
+  -- Locking the slot makes concurrent bookings of the last place wait for each other
+  SELECT * INTO v_slot FROM delivery_slots WHERE id = p_slot_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_slot.is_active OR v_slot.farmer_id <> v_order.farmer_id THEN
+    RAISE EXCEPTION 'That delivery slot is not available for this order';
+  END IF;
+
+  IF p_date IS NULL OR p_date < CURRENT_DATE THEN
+    RAISE EXCEPTION 'Choose a date from today onwards';
+  END IF;
+
+  IF EXTRACT(DOW FROM p_date) <> v_slot.day_of_week THEN
+    RAISE EXCEPTION '% does not run on that day', v_slot.label;
+  END IF;
+
+  IF v_order.delivery_slot_id = p_slot_id AND v_order.delivery_date = p_date THEN
+    RETURN json_build_object('order', row_to_json(v_order), 'previous', NULL);
+  END IF;
+
+  SELECT COUNT(*) INTO v_booked
+  FROM orders
+  WHERE delivery_slot_id = p_slot_id
+  AND delivery_date = p_date
+  AND status <> 'cancelled'
+  AND id <> p_order_id;
+
+  IF v_booked >= v_slot.capacity THEN
+    RAISE EXCEPTION '% on % is full', v_slot.label, to_char(p_date, 'Mon DD');
+  END IF;
+
+  IF v_order.delivery_date IS NOT NULL THEN
+    v_previous := json_build_object(
+      'fulfillment_method', v_order.fulfillment_method,
+      'delivery_date', v_order.delivery_date,
+      'delivery_window_start', v_order.delivery_window_start,
+      'delivery_window_end', v_order.delivery_window_end,
+      'pickup_location', v_order.pickup_location
+    );
+  END IF;
+
+  UPDATE orders
+  SET fulfillment_method = v_slot.kind,
+      delivery_slot_id = v_slot.id,
+      delivery_date = p_date,
+      delivery_window_start = v_slot.start_time,
+      delivery_window_end = v_slot.end_time,
+      pickup_location = CASE WHEN v_slot.kind = 'pickup' THEN v_slot.location END,
+      updated_at = NOW()
+  WHERE id = p_order_id;
+
+  RETURN json_build_object(
+    'order', (SELECT row_to_json(o.*) FROM orders o WHERE o.id = p_order_id),
+    'previous', v_previous
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION book_delivery_slot(UUID, UUID, DATE) TO authenticated;
+
+-- 5. Notification type for schedule changes
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check CHECK (type IN (
+  'user_approved', 'user_rejected', 'user_deleted',
+  'product_approved', 'product_rejected', 'product_deleted',
+  'product_created', 'product_updated', 'product_low_stock',
+  'verification_approved', 'verification_rejected',
+  'order_created', 'order_confirmed', 'order_processing', 'order_ready',
+  'order_completed', 'order_cancelled', 'order_status_changed',
+  'order_cancellation_requested',
+  'payment_received', 'payment_pending',
+  'review_received', 'review_reply',
+  'preorder_placed', 'preorder_fulfilled', 'preorder_cancelled',
+  'delivery_slot_changed',
+  'admin_action', 'system_message'
+));
+
+-- 6. Checkout books each order's delivery slot in the same transaction, so an order is never
+--    placed without the slot the buyer chose; otherwise unchanged from 20261019054754_create_product_variants.sql.
+--    p_delivery_slots: { "<farmer_id>": { "slot_id": "...", "date": "YYYY-MM-DD" }, ... }
+DROP FUNCTION IF EXISTS create_multi_item_orders(UUID, JSONB, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION create_multi_item_orders(
+  p_buyer_id UUID,
+  p_items JSONB,
+  p_delivery_address TEXT,
+  p_notes TEXT DEFAULT NULL,
+  p_payment_method TEXT DEFAULT 'pending',
+  p_delivery_slots JSONB DEFAULT '{}'::jsonb
+) RETURNS JSON AS $$
+DECLARE
+  v_item JSONB;
+  v_product RECORD;
+  v_variant RECORD;
+  v_variant_id UUID;
+  v_quantity INTEGER;
+  v_already INTEGER;
+  v_lines JSONB := '[]'::jsonb;
+  v_farmer_id UUID;
+  v_order_id UUID;
+  v_transaction_id UUID;
+  v_total NUMERIC;
+  v_total_quantity INTEGER;
+  v_first_product UUID;
+  v_slot JSONB;
+  v_results JSON[] := ARRAY[]::JSON[];
+BEGIN
+  IF p_buyer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Unauthorized to place orders for another user';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF p_payment_method = 'mock' AND NOT mock_payments_enabled() THEN
+    RAISE EXCEPTION 'Mock payments are not enabled';
+  END IF;
+
+  -- Lock, validate and price every line up front
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+    v_variant_id := NULLIF(v_item->>'variant_id', '')::UUID;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', v_item->>'product_id';
+    END IF;
+
+    SELECT id, farmer_id, name, price, unit, quantity_available, status
+    INTO v_product
+    FROM products
+    WHERE id = (v_item->>'product_id')::UUID
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found: %', v_item->>'product_id';
+    END IF;
+
+    IF v_product.status <> 'approved' THEN
+      RAISE EXCEPTION 'Product "%" is not available for sale', v_product.name;
+    END IF;
+
+    IF v_product.farmer_id = p_buyer_id THEN
+      RAISE EXCEPTION 'You cannot order your own product "%"', v_product.name;
+    END IF;
+
+    -- Same product and variant listed twice still has to fit in stock
+    SELECT COALESCE(sum((l->>'quantity')::INTEGER), 0) INTO v_already
+    FROM jsonb_array_elements(v_lines) AS l
+    WHERE (l->>'product_id')::UUID = v_product.id
+    AND (l->>'variant_id')::UUID IS NOT DISTINCT FROM v_variant_id;
+
+    IF v_variant_id IS NULL THEN
+      IF EXISTS (SELECT 1 FROM product_variants WHERE product_id = v_product.id AND is_active) THEN
+        RAISE EXCEPTION 'Choose an option for "%"', v_product.name;
+      END IF;
+
+      IF v_product.quantity_available < v_already + v_quantity THEN
+        RAISE EXCEPTION 'Insufficient stock for "%". Available: %, Requested: %',
+          v_product.name, v_product.quantity_available, v_already + v_quantity;
+      END IF;
+
+      v_lines := v_lines || jsonb_build_object(
+        'product_id', v_product.id,
+        'variant_id', NULL,
+        'variant_name', NULL,
+        'unit', v_product.unit,
+        'farmer_id', v_product.farmer_id,
+        'quantity', v_quantity,
+        'unit_price', product_unit_price(v_product.id, NULL, v_quantity)
+      );
+    ELSE
+      SELECT id, name, unit, quantity_available, is_active
+      INTO v_variant
+      FROM product_variants
+      WHERE id = v_variant_id
+      AND product_id = v_product.id
+      FOR UPDATE;
+
+      IF NOT FOUND OR NOT v_variant.is_active THEN
+        RAISE EXCEPTION 'That option of "%" is no longer available', v_product.name;
+      END IF;
+
+      IF v_variant.quantity_available < v_already + v_quantity THEN
+        RAISE EXCEPTION 'Insufficient stock for "%" (%). Available: %, Requested: %',
+          v_product.name, v_variant.name, v_variant.quantity_available, v_already + v_quantity;
+      END IF;
+
+      v_lines := v_lines || jsonb_build_object(
+        'product_id', v_product.id,
+        'variant_id', v_variant.id,
+        'variant_name', v_variant.name,
+        'unit', v_variant.unit,
+        'farmer_id', v_product.farmer_id,
+        'quantity', v_quantity,
+        'unit_price', product_unit_price(v_product.id, v_variant.id, v_quantity)
+      );
+    END IF;
+  END LOOP;
+
+  -- One order per farmer
+  FOR v_farmer_id IN
+    SELECT DISTINCT (l->>'farmer_id')::UUID FROM jsonb_array_elements(v_lines) AS l
+  LOOP
+    SELECT SUM((l->>'unit_price')::NUMERIC * (l->>'quantity')::INTEGER),
+           SUM((l->>'quantity')::INTEGER),
+           (ARRAY_AGG((l->>'product_id')::UUID))[1]
+    INTO v_total, v_total_quantity, v_first_product
+    FROM jsonb_array_elements(v_lines) AS l
+    WHERE (l->>'farmer_id')::UUID = v_farmer_id;
+
+    INSERT INTO orders (
+      buyer_id, farmer_id, product_id, quantity, total_price,
+      status, delivery_address, notes
+    ) VALUES (
+      p_buyer_id, v_farmer_id, v_first_product, v_total_quantity, v_total,
+      'pending', p_delivery_address, p_notes
+    ) RETURNING id INTO v_order_id;
+
+    INSERT INTO order_items (order_id, product_id, variant_id, variant_name, unit, quantity, unit_price)
+    SELECT v_order_id,
+           (l->>'product_id')::UUID,
+           (l->>'variant_id')::UUID,
+           l->>'variant_name',
+           l->>'unit',
+           (l->>'quantity')::INTEGER,
+           (l->>'unit_price')::NUMERIC
+    FROM jsonb_array_elements(v_lines) AS l
+    WHERE (l->>'farmer_id')::UUID = v_farmer_id;
+
+    UPDATE product_variants v
+    SET quantity_available = v.quantity_available - lines.quantity
+    FROM (
+      SELECT (l->>'variant_id')::UUID AS variant_id, sum((l->>'quantity')::INTEGER) AS quantity
+      FROM jsonb_array_elements(v_lines) AS l
+      WHERE (l->>'farmer_id')::UUID = v_farmer_id
+      AND l->>'variant_id' IS NOT NULL
+      GROUP BY 1
+    ) lines
+    WHERE v.id = lines.variant_id;
+
+    UPDATE products p
+    SET quantity_available = p.quantity_available - lines.quantity,
+        updated_at = NOW()
+    FROM (
+      SELECT (l->>'product_id')::UUID AS product_id, sum((l->>'quantity')::INTEGER) AS quantity
+      FROM jsonb_array_elements(v_lines) AS l
+      WHERE (l->>'farmer_id')::UUID = v_farmer_id
+      AND l->>'variant_id' IS NULL
+      GROUP BY 1
+    ) lines
+    WHERE p.id = lines.product_id;
+
+    INSERT INTO transactions (order_id, amount, status, payment_method)
+    VALUES (v_order_id, v_total, 'pending', p_payment_method)
+    RETURNING id INTO v_transaction_id;
+
+    -- A full slot raises here and the whole checkout rolls back
+    v_slot := COALESCE(p_delivery_slots, '{}'::jsonb) -> v_farmer_id::TEXT;
+    IF v_slot IS NOT NULL THEN
+      PERFORM book_delivery_slot(v_order_id, (v_slot->>'slot_id')::UUID, (v_slot->>'date')::DATE);
+    END IF;
+
+    v_results := v_results || json_build_object(
+      'order', (SELECT row_to_json(o.*) FROM orders o WHERE o.id = v_order_id),
+      'transaction', (SELECT row_to_json(t.*) FROM transactions t WHERE t.id = v_transaction_id),
+      'items', (SELECT json_agg(row_to_json(oi.*)) FROM order_items oi WHERE oi.order_id = v_order_id)
+    );
+  END LOOP;
+
+  -- Ordered lines leave the buyer's cart
+  DELETE FROM cart_items
+  WHERE user_id = p_buyer_id
+  AND line_key IN (
+    SELECT (l->>'product_id') || ':' || COALESCE(l->>'variant_id', '')
+    FROM jsonb_array_elements(v_lines) AS l
+  );
+
+  RETURN array_to_json(v_results);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_multi_item_orders(UUID, JSONB, TEXT, TEXT, TEXT, JSONB) TO authenticated;
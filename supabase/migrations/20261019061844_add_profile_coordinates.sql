@@ -0,0 +1,122 @@
+-- Coordinates for farm and buyer addresses
+--
+-- Addresses were free text (barangay plus full_address). The app now geocodes them when a
+-- profile is created or completed and keeps the result here, for distance sorting in the
+-- marketplace. location_source says how good the point is:
+--   gps       taken from the phone
+--   search    the street address was found on the map
+--   barangay  only the barangay is known; the point is its centre
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS full_address TEXT,
+ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION,
+ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION,
+ADD COLUMN IF NOT EXISTS location_source TEXT,
+ADD COLUMN IF NOT EXISTS location_updated_at TIMESTAMPTZ;
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_location_source_check;
+ALTER TABLE profiles ADD CONSTRAINT profiles_location_source_check
+  CHECK (location_source IS NULL OR location_source IN ('gps', 'search', 'barangay'));
+
+-- A point is both coordinates or neither
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_coordinates_check;
+ALTER TABLE profiles ADD CONSTRAINT profiles_coordinates_check
+  CHECK (
+    (latitude IS NULL AND longitude IS NULL)
+    OR (latitude BETWEEN -90 AND 90 AND longitude BETWEEN -180 AND 180)
+  );
+
+COMMENT ON COLUMN profiles.full_address IS 'Street address within the barangay, as the user typed it';
+COMMENT ON COLUMN profiles.latitude IS 'Geocoded latitude of the farm or delivery address';
+COMMENT ON COLUMN profiles.longitude IS 'Geocoded longitude of the farm or delivery address';
+COMMENT ON COLUMN profiles.location_source IS 'How the coordinates were found: gps, search or barangay (centre of the barangay)';
+
+-- Straight-line distance in kilometres (haversine), as services/locationService.ts haversineKm
+CREATE OR REPLACE FUNCTION distance_km(
+  p_lat1 DOUBLE PRECISION,
+  p_lon1 DOUBLE PRECISION,
+  p_lat2 DOUBLE PRECISION,
+  p_lon2 DOUBLE PRECISION
+) RETURNS DOUBLE PRECISION AS $$
+  SELECT 6371 * 2 * asin(sqrt(
+    power(sin(radians(p_lat2 - p_lat1) / 2), 2)
+    + cos(radians(p_lat1)) * cos(radians(p_lat2)) * power(sin(radians(p_lon2 - p_lon1) / 2), 2)
+  ));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Marketplace listing with each product's distance from the buyer. Sorting nearest-first and the
+-- distance filter happen here, so they cover every product rather than the pages loaded so far.
+-- Farm coordinates stay in the database. Distances are measured only from the caller's own saved
+-- location, never from a point passed in, and only whole-kilometre bands (rounded up) are returned,
+-- filtered on or sorted by, so they can't be combined to pin down a farm.
+-- Farms that can't be placed, and callers without a location, have no distance; those come last
+-- when sorting by it.
+DROP FUNCTION IF EXISTS get_marketplace_products(
+  DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, TEXT, INTEGER, INTEGER
+);
+
+CREATE OR REPLACE FUNCTION get_marketplace_products(
+  p_max_km DOUBLE PRECISION DEFAULT NULL,
+  p_sort TEXT DEFAULT 'newest',
+  p_search TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+) RETURNS JSON AS $$
+  SELECT COALESCE(json_agg(listed.product ORDER BY listed.sort_position), '[]'::json)
+  FROM (
+    SELECT
+      json_build_object(
+        'id', p.id,
+        'name', p.name,
+        'description', p.description,
+        'price', p.price,
+        'unit', p.unit,
+        'quantity_available', p.quantity_available,
+        'category', p.category,
+        'image_url', p.image_url,
+        'thumbnail_url', p.thumbnail_url,
+        'image_blurhash', p.image_blurhash,
+        'farmer_id', p.farmer_id,
+        'created_at', p.created_at,
+        'profiles', json_build_object(
+          'first_name', f.first_name,
+          'last_name', f.last_name,
+          'farm_name', f.farm_name,
+          'barangay', f.barangay
+        ),
+        'distance_km', d.km
+      ) AS product,
+      row_number() OVER (
+        ORDER BY
+          CASE WHEN p_sort = 'nearest' THEN d.km END ASC NULLS LAST,
+          p.created_at DESC,
+          p.id
+      ) AS sort_position
+    FROM products p
+    LEFT JOIN profiles f ON f.id = p.farmer_id
+    LEFT JOIN profiles buyer ON buyer.id = auth.uid()
+    CROSS JOIN LATERAL (
+      SELECT CASE
+        WHEN buyer.latitude IS NULL OR buyer.longitude IS NULL OR f.latitude IS NULL OR f.longitude IS NULL THEN NULL
+        ELSE GREATEST(ceil(distance_km(buyer.latitude, buyer.longitude, f.latitude, f.longitude)), 1)::INTEGER
+      END AS km
+    ) d
+    WHERE p.status = 'approved'
+    AND p.quantity_available > 0
+    AND (p_max_km IS NULL OR d.km <= p_max_km)
+    AND (
+      COALESCE(trim(p_search), '') = ''
+      OR p.name ILIKE '%' || trim(p_search) || '%'
+      OR p.description ILIKE '%' || trim(p_search) || '%'
+      OR p.category ILIKE '%' || trim(p_search) || '%'
+      OR f.farm_name ILIKE '%' || trim(p_search) || '%'
+    )
+    ORDER BY sort_position
+    LIMIT LEAST(GREATEST(p_limit, 1), 100)
+    OFFSET GREATEST(p_offset, 0)
+  ) listed;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_marketplace_products(
+  DOUBLE PRECISION, TEXT, TEXT, INTEGER, INTEGER
+) TO anon, authenticated;
@@ -0,0 +1,374 @@
+-- Farmer payouts ledger
+--
+-- What each farmer is owed lives in farmer_ledger_entries, one signed line per movement
+-- (credits positive, debits negative); the balance is their sum.
+--   sale               +  a payment for one of the farmer's orders completed
+--   fee                -  a platform or cooperative fee on that sale (payout_fee_rules)
+--   direct_collection  -  the buyer paid the farmer directly (cash on delivery or a manual
+--                         transfer), so the platform holds none of that money
+--   refund             -  money given back to the buyer
+--   fee_reversal       +  the refunded share of the fees charged on the sale
+--   payout             -  an admin paid the farmer (farmer_payouts)
+-- A positive balance is owed to the farmer; a negative one is fees the farmer owes.
+--
+-- Lines for transactions are written by a trigger when the transaction completes, so every
+-- payment path (webhooks, delivery with proof, cancellations with refunds) posts the same way.
+-- Only real money reaches the ledger: mock (test) payments are never posted, so they can't
+-- become a balance an admin pays out.
+-- Payouts go through record_farmer_payout(). Nothing writes to the ledger directly.
+
+-- 1. Fee rules. A sale pays every active rule that applies to the farmer: rules with neither
+--    barangay nor farmer apply to everyone, a barangay rule to that barangay's farmers (e.g. a
+--    cooperative's share), a farmer rule to one farmer.
+CREATE TABLE IF NOT EXISTS payout_fee_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  percent NUMERIC(5,2) NOT NULL CHECK (percent >= 0 AND percent <= 100),
+  barangay TEXT,
+  farmer_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (barangay IS NULL OR farmer_id IS NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payout_fee_rules_active ON payout_fee_rules(is_active);
+
+-- 2. Payouts
+CREATE TABLE IF NOT EXISTS farmer_payouts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  farmer_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+  method TEXT NOT NULL CHECK (method IN ('cash', 'bank_transfer', 'e_wallet')),
+  -- Bank or e-wallet reference, or who received the cash
+  reference TEXT,
+  notes TEXT,
+  paid_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  recorded_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_farmer_payouts_farmer ON farmer_payouts(farmer_id, paid_at DESC);
+
+-- 3. Ledger
+CREATE TABLE IF NOT EXISTS farmer_ledger_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  farmer_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  entry_type TEXT NOT NULL CHECK (entry_type IN (
+    'sale', 'fee', 'direct_collection', 'refund', 'fee_reversal', 'payout'
+  )),
+  amount NUMERIC(12,2) NOT NULL,
+  description TEXT NOT NULL,
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  payout_id UUID REFERENCES farmer_payouts(id) ON DELETE SET NULL,
+  fee_rule_id UUID REFERENCES payout_fee_rules(id) ON DELETE SET NULL,
+  -- When the money moved; statements are cut on this, not on created_at
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_farmer_ledger_farmer ON farmer_ledger_entries(farmer_id, occurred_at);
+CREATE INDEX IF NOT EXISTS idx_farmer_ledger_transaction ON farmer_ledger_entries(transaction_id);
+
+-- A transaction is posted once, with at most one line of each kind (one per fee rule)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_farmer_ledger_once
+  ON farmer_ledger_entries(transaction_id, entry_type, COALESCE(fee_rule_id, '00000000-0000-0000-0000-000000000000'::uuid))
+  WHERE transaction_id IS NOT NULL;
+
+ALTER TABLE payout_fee_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE farmer_payouts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE farmer_ledger_entries ENABLE ROW LEVEL SECURITY;
+
+-- Farmers can see which fees apply to them
+DROP POLICY IF EXISTS "Signed-in users can view fee rules" ON payout_fee_rules;
+CREATE POLICY "Signed-in users can view fee rules" ON payout_fee_rules
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+
+-- Super-admins set platform-wide fees; barangay admins set fees for their own barangays and farmers
+DROP POLICY IF EXISTS "Admins manage fee rules in their scope" ON payout_fee_rules;
+CREATE POLICY "Admins manage fee rules in their scope" ON payout_fee_rules
+  FOR ALL USING (
+    is_super_admin_user()
+    OR (barangay IS NOT NULL AND admin_can_access_barangay(barangay))
+    OR (farmer_id IS NOT NULL AND admin_can_access_barangay(profile_barangay(farmer_id)))
+  )
+  WITH CHECK (
+    is_super_admin_user()
+    OR (barangay IS NOT NULL AND admin_can_access_barangay(barangay))
+    OR (farmer_id IS NOT NULL AND admin_can_access_barangay(profile_barangay(farmer_id)))
+  );
+
+DROP POLICY IF EXISTS "Farmers and their admins can view payouts" ON farmer_payouts;
+CREATE POLICY "Farmers and their admins can view payouts" ON farmer_payouts
+  FOR SELECT USING (farmer_id = auth.uid() OR admin_can_access_barangay(profile_barangay(farmer_id)));
+
+DROP POLICY IF EXISTS "Farmers and their admins can view ledger entries" ON farmer_ledger_entries;
+CREATE POLICY "Farmers and their admins can view ledger entries" ON farmer_ledger_entries
+  FOR SELECT USING (farmer_id = auth.uid() OR admin_can_access_barangay(profile_barangay(farmer_id)));
+
+-- 4. Post a completed transaction to its farmer's ledger. Safe to call more than once.
+CREATE OR REPLACE FUNCTION post_transaction_to_ledger(p_transaction_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_tx RECORD;
+  v_parent RECORD;
+  v_rule RECORD;
+  v_fee RECORD;
+  v_amount NUMERIC;
+  v_parent_amount NUMERIC;
+  v_direct BOOLEAN;
+  v_order_label TEXT;
+  v_line NUMERIC;
+BEGIN
+  SELECT t.*, o.farmer_id, pr.barangay AS farmer_barangay
+  INTO v_tx
+  FROM transactions t
+  JOIN orders o ON o.id = t.order_id
+  LEFT JOIN profiles pr ON pr.id = o.farmer_id
+  WHERE t.id = p_transaction_id;
+
+  IF NOT FOUND OR v_tx.farmer_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Payments stay on the ledger after they are refunded; refunds post their own lines
+  IF NOT (v_tx.status = 'completed' OR (v_tx.transaction_type = 'payment' AND v_tx.status = 'refunded')) THEN
+    RETURN;
+  END IF;
+
+  IF v_tx.payment_method NOT IN ('cod', 'manual_proof', 'gcash', 'maya') THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM farmer_ledger_entries WHERE transaction_id = v_tx.id) THEN
+    RETURN;
+  END IF;
+
+  v_amount := COALESCE(v_tx.amount_paid, v_tx.amount);
+  v_direct := v_tx.payment_method IN ('cod', 'manual_proof');
+  v_order_label := 'Order #' || right(v_tx.order_id::TEXT, 8);
+
+  IF v_tx.transaction_type = 'payment' THEN
+    INSERT INTO farmer_ledger_entries (farmer_id, entry_type, amount, description, order_id, transaction_id, occurred_at)
+    VALUES (v_tx.farmer_id, 'sale', v_amount, v_order_label, v_tx.order_id, v_tx.id, COALESCE(v_tx.paid_at, NOW()));
+
+    FOR v_rule IN
+      SELECT * FROM payout_fee_rules
+      WHERE is_active
+      AND (farmer_id IS NULL OR farmer_id = v_tx.farmer_id)
+      AND (barangay IS NULL OR lower(barangay) = lower(v_tx.farmer_barangay))
+      ORDER BY created_at
+    LOOP
+      v_line := round(v_amount * v_rule.percent / 100, 2);
+      IF v_line > 0 THEN
+        INSERT INTO farmer_ledger_entries (farmer_id, entry_type, amount, description, order_id, transaction_id, fee_rule_id, occurred_at)
+        VALUES (
+          v_tx.farmer_id, 'fee', -v_line,
+          v_rule.name || ' (' || trim(trailing '.' FROM trim(trailing '0' FROM v_rule.percent::TEXT)) || '%) on ' || v_order_label,
+          v_tx.order_id, v_tx.id, v_rule.id, COALESCE(v_tx.paid_at, NOW())
+        );
+      END IF;
+    END LOOP;
+
+    IF v_direct THEN
+      INSERT INTO farmer_ledger_entries (farmer_id, entry_type, amount, description, order_id, transaction_id, occurred_at)
+      VALUES (v_tx.farmer_id, 'direct_collection', -v_amount, 'Paid to you directly for ' || v_order_label,
+              v_tx.order_id, v_tx.id, COALESCE(v_tx.paid_at, NOW()));
+    END IF;
+
+  ELSIF v_tx.transaction_type = 'refund' THEN
+    INSERT INTO farmer_ledger_entries (farmer_id, entry_type, amount, description, order_id, transaction_id, occurred_at)
+    VALUES (v_tx.farmer_id, 'refund', -v_amount, 'Refund on ' || v_order_label, v_tx.order_id, v_tx.id, COALESCE(v_tx.paid_at, NOW()));
+
+    SELECT * INTO v_parent FROM transactions WHERE id = v_tx.parent_transaction_id;
+    v_parent_amount := COALESCE(v_parent.amount_paid, v_parent.amount);
+
+    -- Give back the same share of each fee charged on the sale
+    IF v_parent_amount > 0 THEN
+      FOR v_fee IN
+        SELECT * FROM farmer_ledger_entries
+        WHERE transaction_id = v_parent.id AND entry_type = 'fee'
+      LOOP
+        v_line := round(-v_fee.amount * LEAST(v_amount / v_parent_amount, 1), 2);
+        IF v_line > 0 THEN
+          INSERT INTO farmer_ledger_entries (farmer_id, entry_type, amount, description, order_id, transaction_id, fee_rule_id, occurred_at)
+          VALUES (v_tx.farmer_id, 'fee_reversal', v_line, 'Fee returned on refund of ' || v_order_label,
+                  v_tx.order_id, v_tx.id, v_fee.fee_rule_id, COALESCE(v_tx.paid_at, NOW()));
+        END IF;
+      END LOOP;
+    END IF;
+
+    -- The farmer handed the money back themselves, so it does not come out of their balance
+    IF v_direct THEN
+      INSERT INTO farmer_ledger_entries (farmer_id, entry_type, amount, description, order_id, transaction_id, occurred_at)
+      VALUES (v_tx.farmer_id, 'direct_collection', v_amount, 'Returned to the buyer by you for ' || v_order_label,
+              v_tx.order_id, v_tx.id, COALESCE(v_tx.paid_at, NOW()));
+    END IF;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the trigger below (and the backfill) posts to the ledger
+REVOKE ALL ON FUNCTION post_transaction_to_ledger(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION post_completed_transaction_to_ledger()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM post_transaction_to_ledger(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_post_transaction_to_ledger ON transactions;
+CREATE TRIGGER trigger_post_transaction_to_ledger
+  AFTER INSERT OR UPDATE OF status ON transactions
+  FOR EACH ROW
+  WHEN (NEW.status = 'completed')
+  EXECUTE FUNCTION post_completed_transaction_to_ledger();
+
+-- Post what was already paid, oldest first so refunds find their sale's fees
+DO $$
+DECLARE
+  v_id UUID;
+BEGIN
+  FOR v_id IN
+    SELECT id FROM transactions
+    WHERE (transaction_type = 'payment' AND status IN ('completed', 'refunded'))
+    OR (transaction_type = 'refund' AND status = 'completed')
+    ORDER BY created_at
+  LOOP
+    PERFORM post_transaction_to_ledger(v_id);
+  END LOOP;
+END $$;
+
+-- 5. Balance, optionally as it stood just before a moment (a statement's opening balance)
+CREATE OR REPLACE FUNCTION farmer_ledger_balance(p_farmer_id UUID, p_before TIMESTAMPTZ DEFAULT NULL)
+RETURNS NUMERIC AS $$
+BEGIN
+  IF p_farmer_id IS DISTINCT FROM auth.uid() AND NOT admin_can_access_barangay(profile_barangay(p_farmer_id)) THEN
+    RAISE EXCEPTION 'Not allowed to view this farmer''s balance';
+  END IF;
+
+  RETURN COALESCE((
+    SELECT sum(amount) FROM farmer_ledger_entries
+    WHERE farmer_id = p_farmer_id
+    AND (p_before IS NULL OR occurred_at < p_before)
+  ), 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 6. Balances of the farmers in the signed-in admin's barangays, largest owed first
+CREATE OR REPLACE FUNCTION get_farmer_balances()
+RETURNS TABLE (
+  farmer_id UUID,
+  first_name TEXT,
+  last_name TEXT,
+  farm_name TEXT,
+  barangay TEXT,
+  balance NUMERIC,
+  last_payout_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  IF NOT (is_super_admin_user() OR is_barangay_admin_user()) THEN
+    RAISE EXCEPTION 'Only admins can view farmer balances';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.first_name::TEXT,
+    p.last_name::TEXT,
+    p.farm_name::TEXT,
+    p.barangay::TEXT,
+    COALESCE((SELECT sum(e.amount) FROM farmer_ledger_entries e WHERE e.farmer_id = p.id), 0),
+    (SELECT max(fp.paid_at) FROM farmer_payouts fp WHERE fp.farmer_id = p.id)
+  FROM profiles p
+  WHERE p.user_type = 'farmer'
+  AND admin_can_access_barangay(p.barangay)
+  AND EXISTS (SELECT 1 FROM farmer_ledger_entries e WHERE e.farmer_id = p.id)
+  ORDER BY 6 DESC, p.last_name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 7. Record a payout. It may not be more than the farmer is owed.
+CREATE OR REPLACE FUNCTION record_farmer_payout(
+  p_farmer_id UUID,
+  p_amount NUMERIC,
+  p_method TEXT,
+  p_reference TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_paid_at TIMESTAMPTZ DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+  v_balance NUMERIC;
+  v_payout farmer_payouts%ROWTYPE;
+  v_method_label TEXT;
+BEGIN
+  IF NOT admin_can_access_barangay(profile_barangay(p_farmer_id)) THEN
+    RAISE EXCEPTION 'Not allowed to record payouts for this farmer';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Payout amount must be more than zero';
+  END IF;
+
+  -- One payout at a time per farmer, so two admins cannot both pay out the same balance
+  PERFORM pg_advisory_xact_lock(hashtext('farmer_payout:' || p_farmer_id::TEXT));
+
+  SELECT COALESCE(sum(amount), 0) INTO v_balance
+  FROM farmer_ledger_entries
+  WHERE farmer_id = p_farmer_id;
+
+  IF round(p_amount, 2) > v_balance THEN
+    RAISE EXCEPTION 'Payout of % is more than the % the farmer is owed', round(p_amount, 2), v_balance;
+  END IF;
+
+  INSERT INTO farmer_payouts (farmer_id, amount, method, reference, notes, paid_at, recorded_by)
+  VALUES (p_farmer_id, round(p_amount, 2), p_method, NULLIF(btrim(p_reference), ''), NULLIF(btrim(p_notes), ''),
+          COALESCE(p_paid_at, NOW()), auth.uid())
+  RETURNING * INTO v_payout;
+
+  v_method_label := CASE p_method
+    WHEN 'cash' THEN 'Cash'
+    WHEN 'bank_transfer' THEN 'Bank transfer'
+    ELSE 'E-wallet'
+  END;
+
+  INSERT INTO farmer_ledger_entries (farmer_id, entry_type, amount, description, payout_id, occurred_at)
+  VALUES (
+    p_farmer_id, 'payout', -v_payout.amount,
+    'Payout by ' || lower(v_method_label) || COALESCE(' · ' || v_payout.reference, ''),
+    v_payout.id, v_payout.paid_at
+  );
+
+  RETURN jsonb_build_object(
+    'payout', row_to_json(v_payout),
+    'balance', v_balance - v_payout.amount
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION farmer_ledger_balance(UUID, TIMESTAMPTZ) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION farmer_ledger_balance(UUID, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_farmer_balances() TO authenticated;
+GRANT EXECUTE ON FUNCTION record_farmer_payout(UUID, NUMERIC, TEXT, TEXT, TEXT, TIMESTAMPTZ) TO authenticated;
+
+-- 8. Farmers hear about payouts
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check CHECK (type IN (
+  'user_approved', 'user_rejected', 'user_deleted',
+  'product_approved', 'product_rejected', 'product_deleted',
+  'product_created', 'product_updated', 'product_low_stock',
+  'verification_approved', 'verification_rejected',
+  'order_created', 'order_confirmed', 'order_processing', 'order_ready',
+  'order_completed', 'order_cancelled', 'order_status_changed',
+  'order_cancellation_requested',
+  'payment_received', 'payment_pending',
+  'review_received', 'review_reply',
+  'preorder_placed', 'preorder_fulfilled', 'preorder_cancelled',
+  'delivery_slot_changed',
+  'payout_recorded',
+  'admin_action', 'system_message'
+));
@@ -0,0 +1,178 @@
+-- Notification preferences, quiet hours and daily digests
+--
+-- Every notification goes through dispatchNotifications() in services/notifications.ts, which
+-- reads the recipient's preferences and decides, per channel (in-app, push, SMS, email), whether
+-- to send it now, stay silent because of quiet hours, or hold it for the daily digest.
+--   channel_settings  only what the user changed from the defaults in types/notifications.ts,
+--                     as {"<notification type>": {"push": false, "sms": true, ...}}
+--   quiet hours       push and SMS are not sent between quiet_hours_start and quiet_hours_end
+--                     in the user's time zone; the in-app notification is still written
+--   digest            low-priority notices are queued in notification_digest_items and sent as
+--                     one in-app summary at digest_hour, local time
+-- Users without a row get the defaults.
+
+-- 1. Preferences
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  channel_settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+  quiet_hours_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  quiet_hours_start TIME NOT NULL DEFAULT '21:00',
+  quiet_hours_end TIME NOT NULL DEFAULT '07:00',
+  timezone TEXT NOT NULL DEFAULT 'Asia/Manila',
+  digest_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  digest_hour SMALLINT NOT NULL DEFAULT 18 CHECK (digest_hour BETWEEN 0 AND 23),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users manage their own notification preferences" ON notification_preferences;
+CREATE POLICY "Users manage their own notification preferences" ON notification_preferences
+  FOR ALL USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Whoever sends a notification needs the recipients' routing settings, but not the table
+CREATE OR REPLACE FUNCTION get_notification_preferences(p_user_ids UUID[])
+RETURNS SETOF notification_preferences AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM notification_preferences
+  WHERE user_id = ANY(p_user_ids);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_notification_preferences(UUID[]) TO authenticated;
+
+-- 2. Notices held for the daily digest
+CREATE TABLE IF NOT EXISTS notification_digest_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  recipient_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  sender_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  action_url TEXT,
+  action_data JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Set when the item went out in a digest
+  digested_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_digest_pending
+  ON notification_digest_items(recipient_id, created_at)
+  WHERE digested_at IS NULL;
+
+ALTER TABLE notification_digest_items ENABLE ROW LEVEL SECURITY;
+
+-- Anyone who may notify a user may queue a notice for them, as with notifications
+DROP POLICY IF EXISTS "Signed-in users can queue digest items" ON notification_digest_items;
+CREATE POLICY "Signed-in users can queue digest items" ON notification_digest_items
+  FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Users can view their pending digest items" ON notification_digest_items;
+CREATE POLICY "Users can view their pending digest items" ON notification_digest_items
+  FOR SELECT USING (recipient_id = auth.uid());
+
+-- 3. Send digests that are due: users whose digest hour it is now, plus anyone who has switched
+--    digests off since items were queued for them. Returns the number of digests sent.
+CREATE OR REPLACE FUNCTION send_notification_digests()
+RETURNS INTEGER AS $$
+DECLARE
+  v_user RECORD;
+  v_count INTEGER;
+  v_titles TEXT;
+  v_sent INTEGER := 0;
+BEGIN
+  FOR v_user IN
+    SELECT DISTINCT i.recipient_id
+    FROM notification_digest_items i
+    LEFT JOIN notification_preferences p ON p.user_id = i.recipient_id
+    WHERE i.digested_at IS NULL
+    AND (
+      p.user_id IS NULL
+      OR NOT p.digest_enabled
+      OR EXTRACT(HOUR FROM NOW() AT TIME ZONE p.timezone) = p.digest_hour
+    )
+  LOOP
+    SELECT count(*) INTO v_count
+    FROM notification_digest_items
+    WHERE recipient_id = v_user.recipient_id AND digested_at IS NULL;
+
+    SELECT string_agg('• ' || title, E'\n' ORDER BY created_at) INTO v_titles
+    FROM (
+      SELECT title, created_at FROM notification_digest_items
+      WHERE recipient_id = v_user.recipient_id AND digested_at IS NULL
+      ORDER BY created_at
+      LIMIT 5
+    ) latest;
+
+    INSERT INTO notifications (recipient_id, type, title, message, action_url, action_data, is_read)
+    VALUES (
+      v_user.recipient_id,
+      'notification_digest',
+      '📰 Your Daily Summary',
+      v_count || CASE WHEN v_count = 1 THEN ' update' ELSE ' updates' END || E' since your last summary:\n'
+        || v_titles
+        || CASE WHEN v_count > 5 THEN E'\n…and ' || (v_count - 5) || ' more' ELSE '' END,
+      NULL,
+      jsonb_build_object(
+        'action', 'notification_digest',
+        'items', (
+          SELECT jsonb_agg(jsonb_build_object(
+            'type', type, 'title', title, 'message', message,
+            'actionUrl', action_url, 'createdAt', created_at
+          ) ORDER BY created_at)
+          FROM notification_digest_items
+          WHERE recipient_id = v_user.recipient_id AND digested_at IS NULL
+        )
+      ),
+      FALSE
+    );
+
+    UPDATE notification_digest_items
+    SET digested_at = NOW()
+    WHERE recipient_id = v_user.recipient_id AND digested_at IS NULL;
+
+    v_sent := v_sent + 1;
+  END LOOP;
+
+  RETURN v_sent;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Checked at the top of every hour; each user's digest goes out in their own digest hour.
+-- Requires the pg_cron extension (see 20261019045556_create_backups.sql).
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.unschedule('farm2go-notification-digests')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'farm2go-notification-digests');
+
+SELECT cron.schedule(
+  'farm2go-notification-digests',
+  '0 * * * *',
+  $$ SELECT send_notification_digests(); $$
+);
+
+-- 4. Notification type for digests
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check CHECK (type IN (
+  'user_approved', 'user_rejected', 'user_deleted',
+  'product_approved', 'product_rejected', 'product_deleted',
+  'product_created', 'product_updated', 'product_low_stock',
+  'verification_approved', 'verification_rejected',
+  'order_created', 'order_confirmed', 'order_processing', 'order_ready',
+  'order_completed', 'order_cancelled', 'order_status_changed',
+  'order_cancellation_requested',
+  'payment_received', 'payment_pending',
+  'review_received', 'review_reply',
+  'preorder_placed', 'preorder_fulfilled', 'preorder_cancelled',
+  'delivery_slot_changed',
+  'payout_recorded',
+  'notification_digest',
+  'admin_action', 'system_message'
+));
@@ -0,0 +1,285 @@
+-- SMS notifications
+--
+-- Farmers without the app, or with data turned off, never see push notifications. Critical events
+-- (new order, cancellation, verification result, payment received) are also sent by SMS.
+--   queue     dispatchNotifications() in services/notifications.ts queues a row per recipient
+--             through queue_sms_notifications(), which only takes templated types from senders
+--             with a reason to text the recipient; database-side events (payments) queue directly.
+--             The phone number and message are filled in when sent.
+--   sending   the process-sms-queue edge function runs every minute. It renders the English or
+--             Filipino template for the type, hands it to the configured gateway (SMS_GATEWAY)
+--             and retries failures with backoff, up to max_attempts.
+--   status    pending -> sending -> sent -> delivered, or failed once retries run out
+--   stub      SMS_GATEWAY=stub writes messages to sms_stub_outbox instead of a carrier
+-- SMS is on by default only for the critical types; users can change it per type in Settings.
+
+-- 1. Which language SMS are written in
+ALTER TABLE notification_preferences
+  ADD COLUMN IF NOT EXISTS sms_language TEXT NOT NULL DEFAULT 'en'
+  CHECK (sms_language IN ('en', 'fil'));
+
+-- 2. Queue
+CREATE TABLE IF NOT EXISTS sms_notification_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  recipient_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  notification_type TEXT NOT NULL,
+  -- Title, message and action data of the notification; the template picks what it needs
+  template_data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sending', 'sent', 'delivered', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Filled in by the sender
+  phone TEXT,
+  language TEXT,
+  message TEXT,
+  gateway TEXT,
+  provider_message_id TEXT,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sent_at TIMESTAMPTZ,
+  delivered_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_sms_queue_due
+  ON sms_notification_queue(next_attempt_at)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_sms_queue_awaiting_delivery
+  ON sms_notification_queue(sent_at)
+  WHERE status = 'sent';
+
+CREATE INDEX IF NOT EXISTS idx_sms_queue_recipient
+  ON sms_notification_queue(recipient_id, created_at DESC);
+
+ALTER TABLE sms_notification_queue ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by queue_sms_notifications() below, the database and the sender (service role)
+DROP POLICY IF EXISTS "Signed-in users can queue SMS" ON sms_notification_queue;
+
+DROP POLICY IF EXISTS "Users and admins can view SMS" ON sms_notification_queue;
+CREATE POLICY "Users and admins can view SMS" ON sms_notification_queue
+  FOR SELECT USING (recipient_id = auth.uid() OR is_admin_user());
+
+-- Barangay admins only see texts to people in their barangays (20261019053749_create_admin_barangay_scope.sql)
+DROP POLICY IF EXISTS "Barangay admins are limited to their barangays" ON sms_notification_queue;
+CREATE POLICY "Barangay admins are limited to their barangays" ON sms_notification_queue
+  AS RESTRICTIVE
+  FOR ALL USING (barangay_scope_allows_profile(recipient_id));
+
+-- Queue SMS from the app. Texts cost money and land on personal phones, so only types with a
+-- fixed template are accepted (see supabase/functions/process-sms-queue/templates.ts), only the
+-- fields those templates use are kept, and the sender must have a reason to text the recipient:
+-- themselves, an order they share, or an admin. Rows that don't qualify are skipped.
+-- p_messages: [{ recipient_id, notification_type, template_data }]. Returns how many were queued.
+CREATE OR REPLACE FUNCTION queue_sms_notifications(p_messages JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  v_caller UUID := auth.uid();
+  v_is_admin BOOLEAN := is_admin_user();
+  v_message JSONB;
+  v_recipient UUID;
+  v_type TEXT;
+  v_data JSONB;
+  v_order_id UUID;
+  v_queued INTEGER := 0;
+BEGIN
+  IF v_caller IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  FOR v_message IN SELECT * FROM jsonb_array_elements(COALESCE(p_messages, '[]'::jsonb))
+  LOOP
+    v_recipient := (v_message ->> 'recipient_id')::UUID;
+    v_type := v_message ->> 'notification_type';
+    v_data := COALESCE(v_message -> 'template_data', '{}'::jsonb);
+
+    IF v_type IN ('order_created', 'order_cancelled', 'order_confirmed', 'order_ready') THEN
+      BEGIN
+        v_order_id := (v_data ->> 'orderId')::UUID;
+      EXCEPTION WHEN invalid_text_representation THEN
+        v_order_id := NULL;
+      END;
+
+      CONTINUE WHEN NOT (
+        v_is_admin
+        OR v_recipient = v_caller
+        OR EXISTS (
+          SELECT 1 FROM orders o
+          WHERE o.id = v_order_id
+          AND ((o.buyer_id = v_caller AND o.farmer_id = v_recipient)
+            OR (o.farmer_id = v_caller AND o.buyer_id = v_recipient))
+        )
+      );
+    ELSIF v_type IN ('verification_approved', 'verification_rejected', 'user_approved', 'user_rejected', 'payout_recorded') THEN
+      CONTINUE WHEN NOT v_is_admin;
+    ELSE
+      CONTINUE;
+    END IF;
+
+    -- Free text is kept short; the template frames it
+    v_data := jsonb_strip_nulls(jsonb_build_object(
+      'orderId', v_data ->> 'orderId',
+      'action', v_data ->> 'action',
+      'buyerName', left(v_data ->> 'buyerName', 40),
+      'itemCount', CASE WHEN (v_data ->> 'itemCount') ~ '^\d{1,4}$' THEN (v_data ->> 'itemCount')::INTEGER END,
+      'totalAmount', CASE WHEN (v_data ->> 'totalAmount') ~ '^\d+(\.\d+)?$' THEN (v_data ->> 'totalAmount')::NUMERIC END,
+      'amount', CASE WHEN (v_data ->> 'amount') ~ '^\d+(\.\d+)?$' THEN (v_data ->> 'amount')::NUMERIC END,
+      'reason', left(v_data ->> 'reason', 100)
+    ));
+
+    INSERT INTO sms_notification_queue (recipient_id, notification_type, template_data)
+    VALUES (v_recipient, v_type, v_data);
+    v_queued := v_queued + 1;
+  END LOOP;
+
+  RETURN v_queued;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION queue_sms_notifications(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION queue_sms_notifications(JSONB) TO authenticated;
+
+-- 3. Outbox for the stub gateway: what would have gone to the carrier
+CREATE TABLE IF NOT EXISTS sms_stub_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  queue_id UUID REFERENCES sms_notification_queue(id) ON DELETE SET NULL,
+  phone TEXT NOT NULL,
+  message TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE sms_stub_outbox ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view the SMS stub outbox" ON sms_stub_outbox;
+CREATE POLICY "Admins can view the SMS stub outbox" ON sms_stub_outbox
+  FOR SELECT USING (is_admin_user());
+
+-- 4. Preference checks for notifications raised inside the database, mirroring
+--    planNotificationDelivery() in services/notificationPreferences.ts.
+--    p_default is the channel's default for the type (see types/notifications.ts).
+CREATE OR REPLACE FUNCTION notification_channel_enabled(
+  p_user_id UUID,
+  p_type TEXT,
+  p_channel TEXT,
+  p_default BOOLEAN
+) RETURNS BOOLEAN AS $$
+  SELECT COALESCE(
+    (SELECT (channel_settings -> p_type ->> p_channel)::boolean
+     FROM notification_preferences
+     WHERE user_id = p_user_id),
+    p_default
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Quiet hours may run past midnight, e.g. 21:00 to 07:00
+CREATE OR REPLACE FUNCTION notification_in_quiet_hours(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(
+    (SELECT CASE
+       WHEN NOT quiet_hours_enabled OR quiet_hours_start = quiet_hours_end THEN FALSE
+       WHEN quiet_hours_start < quiet_hours_end THEN
+         (NOW() AT TIME ZONE timezone)::time >= quiet_hours_start
+         AND (NOW() AT TIME ZONE timezone)::time < quiet_hours_end
+       ELSE
+         (NOW() AT TIME ZONE timezone)::time >= quiet_hours_start
+         OR (NOW() AT TIME ZONE timezone)::time < quiet_hours_end
+     END
+     FROM notification_preferences
+     WHERE user_id = p_user_id),
+    FALSE
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 5. Payment received. Payments are completed by the payment webhook, the mock provider and
+--    manual updates alike, so the farmer is told from here rather than from the app.
+CREATE OR REPLACE FUNCTION notify_payment_received()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_order RECORD;
+  v_amount NUMERIC;
+  v_buyer_name TEXT;
+  v_title TEXT := '💰 Payment Received';
+  v_message TEXT;
+  v_data JSONB;
+BEGIN
+  IF NEW.transaction_type <> 'payment' OR NEW.status <> 'completed' THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' AND OLD.status = 'completed' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT o.id, o.buyer_id, o.farmer_id, p.first_name, p.last_name
+  INTO v_order
+  FROM orders o
+  LEFT JOIN profiles p ON p.id = o.buyer_id
+  WHERE o.id = NEW.order_id;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  v_amount := COALESCE(NEW.amount_paid, NEW.amount);
+  v_buyer_name := NULLIF(TRIM(COALESCE(v_order.first_name, '') || ' ' || COALESCE(v_order.last_name, '')), '');
+  v_message := 'You received ₱' || to_char(v_amount, 'FM999,999,990.00')
+    || ' from ' || COALESCE(v_buyer_name, 'a buyer')
+    || ' for order #' || UPPER(LEFT(v_order.id::text, 8)) || '.';
+  v_data := jsonb_build_object(
+    'action', 'payment_received',
+    'orderId', v_order.id,
+    'transactionId', NEW.id,
+    'amount', v_amount,
+    'buyerName', v_buyer_name,
+    'paymentMethod', NEW.payment_method
+  );
+
+  IF notification_channel_enabled(v_order.farmer_id, 'payment_received', 'in_app', TRUE) THEN
+    INSERT INTO notifications (recipient_id, sender_id, type, title, message, action_url, action_data, is_read)
+    VALUES (v_order.farmer_id, v_order.buyer_id, 'payment_received', v_title, v_message,
+            '/farmer/sales-history', v_data, FALSE);
+  END IF;
+
+  IF notification_channel_enabled(v_order.farmer_id, 'payment_received', 'sms', TRUE)
+     AND NOT notification_in_quiet_hours(v_order.farmer_id) THEN
+    INSERT INTO sms_notification_queue (recipient_id, notification_type, template_data)
+    VALUES (v_order.farmer_id, 'payment_received',
+            v_data || jsonb_build_object('title', v_title, 'message', v_message));
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_notify_payment_received ON transactions;
+CREATE TRIGGER trigger_notify_payment_received
+  AFTER INSERT OR UPDATE OF status ON transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_payment_received();
+
+-- 6. Send queued SMS every minute.
+-- Requires the pg_cron and pg_net extensions, plus these database settings:
+--   ALTER DATABASE postgres SET app.settings.functions_url = 'https://<project>.supabase.co/functions/v1';
+--   ALTER DATABASE postgres SET app.settings.sms_cron_secret = '<same value as SMS_CRON_SECRET>';
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.unschedule('farm2go-sms-queue')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'farm2go-sms-queue');
+
+SELECT cron.schedule(
+  'farm2go-sms-queue',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := current_setting('app.settings.functions_url') || '/process-sms-queue',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-sms-secret', current_setting('app.settings.sms_cron_secret')
+    ),
+    body := '{"action":"process"}'::jsonb
+  );
+  $$
+);
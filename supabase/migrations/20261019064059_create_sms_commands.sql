@@ -0,0 +1,236 @@
+-- Reply-by-SMS commands for farmers
+--
+-- Farmers without smartphones act on orders by texting back (see supabase/functions/sms-inbound):
+--   OK <purchase code>              confirm a pending order
+--   NO <purchase code> [reason]     decline (cancel) an order
+--   STOCK <product> <quantity>      set a product's stock
+--   HELP                            list the commands
+-- The sender is identified by the mobile number on their profile. Commands run as that farmer,
+-- so the order state machine (order_status_transitions) and order_status_history apply as they
+-- do in the app. Every inbound message is logged in sms_inbound_messages; the reply goes out
+-- through sms_notification_queue (20261019063707_create_sms_queue.sql).
+
+-- 1. Inbound log
+CREATE TABLE IF NOT EXISTS sms_inbound_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  from_phone TEXT NOT NULL,
+  body TEXT NOT NULL,
+  -- The carrier's id, so redelivered webhooks are only handled once
+  provider_message_id TEXT,
+  sender_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  command TEXT,
+  status TEXT NOT NULL DEFAULT 'received'
+    CHECK (status IN ('received', 'applied', 'rejected', 'ignored')),
+  error TEXT,
+  -- Sent from the SMS simulator rather than a carrier
+  simulated BOOLEAN NOT NULL DEFAULT FALSE,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  processed_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sms_inbound_provider_message
+  ON sms_inbound_messages(provider_message_id)
+  WHERE provider_message_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sms_inbound_received
+  ON sms_inbound_messages(received_at DESC);
+
+ALTER TABLE sms_inbound_messages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Senders and admins can view inbound SMS" ON sms_inbound_messages;
+CREATE POLICY "Senders and admins can view inbound SMS" ON sms_inbound_messages
+  FOR SELECT USING (sender_id = auth.uid() OR is_admin_user());
+
+-- Barangay admins only see texts from people in their barangays (20261019053749_create_admin_barangay_scope.sql);
+-- texts from unknown numbers are left to super-admins
+DROP POLICY IF EXISTS "Barangay admins are limited to their barangays" ON sms_inbound_messages;
+CREATE POLICY "Barangay admins are limited to their barangays" ON sms_inbound_messages
+  AS RESTRICTIVE
+  FOR ALL USING (
+    NOT is_barangay_admin_user()
+    OR (sender_id IS NOT NULL AND barangay_scope_allows_profile(sender_id))
+  );
+
+-- 2. Finding the sender. Numbers are stored in many formats (0917..., +63 917 ...), so compare
+--    the last ten digits.
+CREATE INDEX IF NOT EXISTS idx_profiles_phone_digits
+  ON profiles ((right(regexp_replace(phone, '\D', '', 'g'), 10)))
+  WHERE phone IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION find_profiles_by_phone(p_phone TEXT)
+RETURNS TABLE (id UUID, user_type TEXT, first_name TEXT, last_name TEXT) AS $$
+  SELECT p.id, p.user_type::text, p.first_name, p.last_name
+  FROM profiles p
+  WHERE p.phone IS NOT NULL
+  AND length(regexp_replace(p_phone, '\D', '', 'g')) >= 10
+  AND right(regexp_replace(p.phone, '\D', '', 'g'), 10) = right(regexp_replace(p_phone, '\D', '', 'g'), 10);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 3. In-app notification plus SMS for events raised inside the database, following the
+--    recipient's preferences like notify_payment_received() does.
+CREATE OR REPLACE FUNCTION send_database_notification(
+  p_recipient_id UUID,
+  p_sender_id UUID,
+  p_type TEXT,
+  p_title TEXT,
+  p_message TEXT,
+  p_action_url TEXT,
+  p_action_data JSONB,
+  p_sms_default BOOLEAN
+) RETURNS VOID AS $$
+BEGIN
+  IF notification_channel_enabled(p_recipient_id, p_type, 'in_app', TRUE) THEN
+    INSERT INTO notifications (recipient_id, sender_id, type, title, message, action_url, action_data, is_read)
+    VALUES (p_recipient_id, p_sender_id, p_type, p_title, p_message, p_action_url, p_action_data, FALSE);
+  END IF;
+
+  IF notification_channel_enabled(p_recipient_id, p_type, 'sms', p_sms_default)
+     AND NOT notification_in_quiet_hours(p_recipient_id) THEN
+    INSERT INTO sms_notification_queue (recipient_id, notification_type, template_data)
+    VALUES (p_recipient_id, p_type,
+            COALESCE(p_action_data, '{}'::jsonb) || jsonb_build_object('title', p_title, 'message', p_message));
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Make auth.uid() return this user for the rest of the transaction
+CREATE OR REPLACE FUNCTION act_as_user(p_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM set_config('request.jwt.claim.sub', p_user_id::text, true);
+  PERFORM set_config('request.jwt.claims', jsonb_build_object('sub', p_user_id, 'role', 'authenticated')::text, true);
+END;
+$$ LANGUAGE plpgsql;
+
+-- 4. OK / NO: confirm or cancel one of the farmer's orders by its purchase code
+CREATE OR REPLACE FUNCTION apply_sms_order_command(
+  p_farmer_id UUID,
+  p_purchase_code TEXT,
+  p_new_status TEXT,
+  p_reason TEXT DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  v_order RECORD;
+  v_farmer_name TEXT;
+  v_data JSONB;
+BEGIN
+  IF p_new_status NOT IN ('confirmed', 'cancelled') THEN
+    RAISE EXCEPTION 'Unsupported SMS order command: %', p_new_status;
+  END IF;
+
+  SELECT * INTO v_order
+  FROM orders
+  WHERE upper(purchase_code) = upper(trim(p_purchase_code))
+  AND farmer_id = p_farmer_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', upper(trim(p_purchase_code));
+  END IF;
+
+  IF v_order.status = p_new_status THEN
+    RAISE EXCEPTION 'Order % is already %', v_order.purchase_code, p_new_status;
+  END IF;
+
+  PERFORM act_as_user(p_farmer_id);
+  PERFORM update_order_status_safe(v_order.id, p_new_status, p_reason);
+
+  SELECT NULLIF(TRIM(COALESCE(farm_name, first_name || ' ' || last_name, '')), '')
+  INTO v_farmer_name
+  FROM profiles WHERE id = p_farmer_id;
+
+  v_data := jsonb_build_object('orderId', v_order.id, 'newStatus', p_new_status, 'action', 'order_status_changed');
+
+  -- The buyer hears about it as if the farmer had used the app (notifyOrderStatusChange)
+  IF p_new_status = 'confirmed' THEN
+    PERFORM send_database_notification(
+      v_order.buyer_id, p_farmer_id, 'order_status_changed',
+      '✅ Order Confirmed',
+      'Your order has been confirmed by ' || COALESCE(v_farmer_name, 'the farmer') || ' and is being prepared.',
+      '/buyer/my-orders', v_data, FALSE
+    );
+  ELSE
+    PERFORM send_database_notification(
+      v_order.buyer_id, p_farmer_id, 'order_cancelled',
+      '❌ Order Cancelled',
+      'Your order has been cancelled by ' || COALESCE(v_farmer_name, 'the farmer') || '.'
+        || COALESCE(' Reason: ' || NULLIF(p_reason, ''), ''),
+      '/buyer/my-orders', v_data || jsonb_build_object('reason', NULLIF(p_reason, '')), TRUE
+    );
+  END IF;
+
+  RETURN json_build_object(
+    'order_id', v_order.id,
+    'purchase_code', v_order.purchase_code,
+    'status', p_new_status
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 5. STOCK: set the stock of one of the farmer's products, found by name
+CREATE OR REPLACE FUNCTION apply_sms_stock_command(
+  p_farmer_id UUID,
+  p_product TEXT,
+  p_quantity INTEGER
+) RETURNS JSON AS $$
+DECLARE
+  v_matches UUID[];
+  v_product RECORD;
+BEGIN
+  IF p_quantity IS NULL OR p_quantity < 0 THEN
+    RAISE EXCEPTION 'Quantity must be 0 or more';
+  END IF;
+
+  -- An exact name wins over partial matches
+  SELECT array_agg(id) INTO v_matches
+  FROM products
+  WHERE farmer_id = p_farmer_id AND lower(name) = lower(trim(p_product));
+
+  IF v_matches IS NULL THEN
+    SELECT array_agg(id) INTO v_matches
+    FROM products
+    WHERE farmer_id = p_farmer_id AND name ILIKE '%' || trim(p_product) || '%';
+  END IF;
+
+  IF v_matches IS NULL THEN
+    RAISE EXCEPTION 'No product named "%"', trim(p_product);
+  END IF;
+
+  IF array_length(v_matches, 1) > 1 THEN
+    RAISE EXCEPTION 'Several products match "%": %', trim(p_product), (
+      SELECT string_agg(name, ', ' ORDER BY name) FROM products WHERE id = ANY(v_matches)
+    );
+  END IF;
+
+  SELECT * INTO v_product FROM products WHERE id = v_matches[1];
+
+  -- Their stock is the sum of the variants' stock (20261019054754_create_product_variants.sql)
+  IF EXISTS (SELECT 1 FROM product_variants WHERE product_id = v_product.id AND is_active) THEN
+    RAISE EXCEPTION '% is sold in several variants; update its stock in the app', v_product.name;
+  END IF;
+
+  PERFORM act_as_user(p_farmer_id);
+
+  UPDATE products
+  SET quantity_available = p_quantity,
+      updated_at = NOW()
+  WHERE id = v_product.id;
+
+  RETURN json_build_object(
+    'product_id', v_product.id,
+    'name', v_product.name,
+    'unit', v_product.unit,
+    'quantity', p_quantity
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the sms-inbound edge function (service role) may run commands on someone's behalf
+REVOKE ALL ON FUNCTION find_profiles_by_phone(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION send_database_notification(UUID, UUID, TEXT, TEXT, TEXT, TEXT, JSONB, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION act_as_user(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION apply_sms_order_command(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION apply_sms_stock_command(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION find_profiles_by_phone(TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION apply_sms_order_command(UUID, TEXT, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION apply_sms_stock_command(UUID, TEXT, INTEGER) TO service_role;
@@ -0,0 +1,27 @@
+-- Notification inbox: archive, delete and paging
+--
+-- The inbox (app/shared/notifications.tsx) pages through a user's notifications newest first with a
+-- (created_at, id) cursor, and can archive or delete them. Archived notifications are marked read,
+-- so the unread badge only ever counts what is in the inbox. Other devices learn about reads,
+-- archives and deletes through realtime UPDATE events (deletes mark the rows read first).
+
+-- 1. Archive
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+
+-- 2. Paging and the unread badge
+CREATE INDEX IF NOT EXISTS idx_notifications_inbox
+  ON notifications(recipient_id, created_at DESC, id DESC)
+  WHERE archived_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_archived
+  ON notifications(recipient_id, created_at DESC, id DESC)
+  WHERE archived_at IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_unread
+  ON notifications(recipient_id)
+  WHERE is_read = FALSE;
+
+-- 3. Users may delete their own notifications
+DROP POLICY IF EXISTS "Users can delete their own notifications" ON notifications;
+CREATE POLICY "Users can delete their own notifications" ON notifications
+  FOR DELETE USING (recipient_id = auth.uid());
@@ -34,6 +34,12 @@ export interface Database {
           verification_rejected_at: string | null
           verification_admin_notes: string | null
           id_document_type: string | null
+          // Geocoded address; see location_source for how precise it is
+          full_address: string | null
+          latitude: number | null
+          longitude: number | null
+          location_source: 'gps' | 'search' | 'barangay' | null
+          location_updated_at: string | null
         }
         Insert: {
           id: string
@@ -57,6 +63,11 @@ export interface Database {
           verification_rejected_at?: string | null
           verification_admin_notes?: string | null
           id_document_type?: string | null
+          full_address?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          location_source?: 'gps' | 'search' | 'barangay' | null
+          location_updated_at?: string | null
         }
         Update: {
           id?: string
@@ -80,6 +91,11 @@ export interface Database {
           verification_rejected_at?: string | null
           verification_admin_notes?: string | null
           id_document_type?: string | null
+          full_address?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          location_source?: 'gps' | 'search' | 'barangay' | null
+          location_updated_at?: string | null
         }
       }
       products: {
@@ -93,6 +109,8 @@ export interface Database {
           quantity_available: number
           category: string
           image_url: string | null
+          thumbnail_url: string | null
+          image_blurhash: string | null
           status: 'pending' | 'approved' | 'rejected'
           created_at: string
           updated_at: string
@@ -107,6 +125,8 @@ export interface Database {
           quantity_available: number
           category: string
           image_url?: string | null
+          thumbnail_url?: string | null
+          image_blurhash?: string | null
           status?: 'pending' | 'approved' | 'rejected'
           created_at?: string
           updated_at?: string
@@ -121,6 +141,8 @@ export interface Database {
           quantity_available?: number
           category?: string
           image_url?: string | null
+          thumbnail_url?: string | null
+          image_blurhash?: string | null
           status?: 'pending' | 'approved' | 'rejected'
           created_at?: string
           updated_at?: string
@@ -134,7 +156,7 @@ export interface Database {
           product_id: string
           quantity: number
           total_price: number
-          status: 'pending' | 'confirmed' | 'processing' | 'ready' | 'delivered' | 'cancelled'
+          status: 'pending' | 'confirmed' | 'processing' | 'ready' | 'shipped' | 'delivered' | 'cancellation_requested' | 'issue_reported' | 'cancelled'
           delivery_address: string
           notes: string | null
           purchase_code: string | null
@@ -149,7 +171,7 @@ export interface Database {
           product_id: string
           quantity: number
           total_price: number
-          status?: 'pending' | 'confirmed' | 'processing' | 'ready' | 'delivered' | 'cancelled'
+          status?: 'pending' | 'confirmed' | 'processing' | 'ready' | 'shipped' | 'delivered' | 'cancellation_requested' | 'issue_reported' | 'cancelled'
           delivery_address: string
           notes?: string | null
           purchase_code?: string | null
@@ -164,7 +186,7 @@ export interface Database {
           product_id?: string
           quantity?: number
           total_price?: number
-          status?: 'pending' | 'confirmed' | 'processing' | 'ready' | 'delivered' | 'cancelled'
+          status?: 'pending' | 'confirmed' | 'processing' | 'ready' | 'shipped' | 'delivered' | 'cancellation_requested' | 'issue_reported' | 'cancelled'
           delivery_address?: string
           notes?: string | null
           purchase_code?: string | null
@@ -202,6 +224,32 @@ export interface Database {
           updated_at?: string
         }
       }
+      cart_items: {
+        Row: {
+          id: string
+          user_id: string
+          product_id: string
+          quantity: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          product_id: string
+          quantity: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          product_id?: string
+          quantity?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
       transactions: {
         Row: {
           id: string
@@ -288,7 +336,7 @@ export interface Database {
     Enums: {
       user_type: 'farmer' | 'buyer' | 'admin' | 'super-admin'
       product_status: 'pending' | 'approved' | 'rejected'
-      order_status: 'pending' | 'confirmed' | 'processing' | 'ready' | 'delivered' | 'cancelled' | 'completed'
+      order_status: 'pending' | 'confirmed' | 'processing' | 'ready' | 'shipped' | 'delivered' | 'cancellation_requested' | 'issue_reported' | 'cancelled'
       transaction_status: 'pending' | 'completed' | 'failed' | 'refunded'
       verification_status: 'pending' | 'approved' | 'rejected' | 'not_submitted'
     }
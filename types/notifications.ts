@@ -0,0 +1,188 @@
+// Notification types and delivery preferences.
+// The type list is mirrored by notifications_type_check in the database; keep the two in sync.
+
+export type NotificationType =
+  | 'user_approved' | 'user_rejected' | 'user_deleted'
+  | 'product_approved' | 'product_rejected' | 'product_deleted'
+  | 'product_created' | 'product_updated' | 'product_low_stock'
+  | 'verification_approved' | 'verification_rejected'
+  | 'order_created' | 'order_confirmed' | 'order_processing' | 'order_ready'
+  | 'order_completed' | 'order_cancelled' | 'order_status_changed'
+  | 'order_cancellation_requested'
+  | 'payment_received' | 'payment_pending'
+  | 'review_received' | 'review_reply'
+  | 'preorder_placed' | 'preorder_fulfilled' | 'preorder_cancelled'
+  | 'delivery_slot_changed'
+  | 'payout_recorded'
+  | 'notification_digest'
+  | 'admin_action' | 'system_message';
+
+export type NotificationChannel = 'in_app' | 'push' | 'sms' | 'email';
+
+// 'low' notices can be held for the daily digest
+export type NotificationPriority = 'high' | 'normal' | 'low';
+
+export type NotificationAudience = 'farmer' | 'buyer' | 'admin';
+
+export type NotificationGroup = 'account' | 'orders' | 'payments' | 'products' | 'reviews' | 'preorders' | 'admin';
+
+export type SmsLanguage = 'en' | 'fil';
+
+// Inbox filter tabs
+export type NotificationCategory = 'orders' | 'products' | 'verification' | 'system';
+
+// One notification to send, before preferences are applied
+export interface NotificationParams {
+  recipientId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  actionUrl?: string;
+  actionData?: Record<string, any>;
+  senderId?: string;
+}
+
+// Overrides of the per-type defaults; a missing channel means the default applies
+export type NotificationChannelSettings = Partial<Record<NotificationType, Partial<Record<NotificationChannel, boolean>>>>;
+
+export interface NotificationPreferences {
+  user_id: string;
+  channel_settings: NotificationChannelSettings;
+  quiet_hours_enabled: boolean;
+  // 'HH:MM' or 'HH:MM:SS', in `timezone`
+  quiet_hours_start: string;
+  quiet_hours_end: string;
+  // IANA name, e.g. 'Asia/Manila'
+  timezone: string;
+  digest_enabled: boolean;
+  // Local hour the digest is sent, 0-23
+  digest_hour: number;
+  sms_language: SmsLanguage;
+}
+
+// What the dispatcher will do with one notification
+export interface NotificationDeliveryPlan {
+  // Channels to send on now
+  channels: NotificationChannel[];
+  // Channels held back by quiet hours
+  silenced: NotificationChannel[];
+  // Held for the daily digest instead of being sent now
+  digest: boolean;
+}
+
+export const NOTIFICATION_CHANNEL_CONFIG: Record<NotificationChannel, { label: string; shortLabel: string }> = {
+  in_app: { label: 'In-app', shortLabel: 'App' },
+  push: { label: 'Push', shortLabel: 'Push' },
+  sms: { label: 'SMS', shortLabel: 'SMS' },
+  email: { label: 'Email', shortLabel: 'Email' },
+};
+
+export const NOTIFICATION_CHANNELS = Object.keys(NOTIFICATION_CHANNEL_CONFIG) as NotificationChannel[];
+
+// Channels that interrupt the user; quiet hours hold these back
+export const INTERRUPTING_CHANNELS: NotificationChannel[] = ['push', 'sms'];
+
+export const NOTIFICATION_GROUP_LABELS: Record<NotificationGroup, string> = {
+  account: 'Account',
+  orders: 'Orders & Deliveries',
+  payments: 'Payments & Payouts',
+  products: 'Products',
+  reviews: 'Reviews',
+  preorders: 'Pre-orders',
+  admin: 'Admin',
+};
+
+const ALL: NotificationAudience[] = ['farmer', 'buyer', 'admin'];
+const FARMER: NotificationAudience[] = ['farmer'];
+const FARMER_BUYER: NotificationAudience[] = ['farmer', 'buyer'];
+const FARMER_ADMIN: NotificationAudience[] = ['farmer', 'admin'];
+const ADMIN: NotificationAudience[] = ['admin'];
+
+export const NOTIFICATION_TYPE_CONFIG: Record<NotificationType, {
+  label: string;
+  group: NotificationGroup;
+  priority: NotificationPriority;
+  audience: NotificationAudience[];
+}> = {
+  user_approved: { label: 'Account approved', group: 'account', priority: 'high', audience: ALL },
+  user_rejected: { label: 'Account rejected', group: 'account', priority: 'high', audience: ALL },
+  user_deleted: { label: 'Account removed', group: 'account', priority: 'high', audience: ALL },
+  verification_approved: { label: 'Verification approved', group: 'account', priority: 'high', audience: ALL },
+  verification_rejected: { label: 'Verification rejected', group: 'account', priority: 'high', audience: ALL },
+
+  order_created: { label: 'New orders', group: 'orders', priority: 'high', audience: FARMER_BUYER },
+  order_confirmed: { label: 'Order confirmed', group: 'orders', priority: 'normal', audience: FARMER_BUYER },
+  order_processing: { label: 'Order being prepared', group: 'orders', priority: 'normal', audience: FARMER_BUYER },
+  order_ready: { label: 'Order ready', group: 'orders', priority: 'normal', audience: FARMER_BUYER },
+  order_completed: { label: 'Order completed', group: 'orders', priority: 'normal', audience: FARMER_BUYER },
+  order_cancelled: { label: 'Order cancelled', group: 'orders', priority: 'high', audience: FARMER_BUYER },
+  order_status_changed: { label: 'Order status updates', group: 'orders', priority: 'normal', audience: FARMER_BUYER },
+  order_cancellation_requested: { label: 'Cancellation requests', group: 'orders', priority: 'high', audience: FARMER_BUYER },
+  delivery_slot_changed: { label: 'Delivery schedule changes', group: 'orders', priority: 'high', audience: FARMER_BUYER },
+
+  payment_received: { label: 'Payment received', group: 'payments', priority: 'normal', audience: FARMER_BUYER },
+  payment_pending: { label: 'Payment pending', group: 'payments', priority: 'normal', audience: FARMER_BUYER },
+  payout_recorded: { label: 'Payouts', group: 'payments', priority: 'normal', audience: FARMER },
+
+  product_approved: { label: 'Product approved', group: 'products', priority: 'normal', audience: FARMER },
+  product_rejected: { label: 'Product rejected', group: 'products', priority: 'normal', audience: FARMER },
+  product_deleted: { label: 'Product removed', group: 'products', priority: 'normal', audience: FARMER },
+  product_created: { label: 'New products', group: 'products', priority: 'low', audience: FARMER_ADMIN },
+  product_updated: { label: 'Product changes', group: 'products', priority: 'low', audience: FARMER_ADMIN },
+  product_low_stock: { label: 'Low stock', group: 'products', priority: 'normal', audience: FARMER },
+
+  review_received: { label: 'New reviews', group: 'reviews', priority: 'low', audience: FARMER },
+  review_reply: { label: 'Replies to your reviews', group: 'reviews', priority: 'low', audience: ['buyer'] },
+
+  preorder_placed: { label: 'New pre-orders', group: 'preorders', priority: 'normal', audience: FARMER_BUYER },
+  preorder_fulfilled: { label: 'Pre-order filled', group: 'preorders', priority: 'normal', audience: FARMER_BUYER },
+  preorder_cancelled: { label: 'Pre-order cancelled', group: 'preorders', priority: 'high', audience: FARMER_BUYER },
+
+  notification_digest: { label: 'Daily summary', group: 'account', priority: 'normal', audience: ALL },
+  admin_action: { label: 'Admin activity', group: 'admin', priority: 'low', audience: ADMIN },
+  system_message: { label: 'Announcements', group: 'account', priority: 'low', audience: ALL },
+};
+
+// Channels each priority is sent on unless the user changes it
+export const DEFAULT_PRIORITY_CHANNELS: Record<NotificationPriority, Record<NotificationChannel, boolean>> = {
+  high: { in_app: true, push: true, sms: false, email: false },
+  normal: { in_app: true, push: true, sms: false, email: false },
+  low: { in_app: true, push: false, sms: false, email: false },
+};
+
+// Types that differ from their priority's defaults. These reach users who don't have the app
+// or have data off, so they go out by SMS too. notify_payment_received() in
+// supabase/migrations/20261019063707_create_sms_queue.sql assumes the same for payment_received.
+export const DEFAULT_TYPE_CHANNELS: Partial<Record<NotificationType, Partial<Record<NotificationChannel, boolean>>>> = {
+  order_created: { sms: true },
+  order_cancelled: { sms: true },
+  verification_approved: { sms: true },
+  verification_rejected: { sms: true },
+  payment_received: { sms: true },
+};
+
+export const SMS_LANGUAGE_CONFIG: Record<SmsLanguage, { label: string }> = {
+  en: { label: 'English' },
+  fil: { label: 'Filipino' },
+};
+
+export const NOTIFICATION_CATEGORY_CONFIG: Record<NotificationCategory, { label: string; icon: string }> = {
+  orders: { label: 'Orders', icon: 'shopping-bag' },
+  products: { label: 'Products', icon: 'seedling' },
+  verification: { label: 'Verification', icon: 'id-badge' },
+  system: { label: 'System', icon: 'bullhorn' },
+};
+
+export const getNotificationCategory = (type: NotificationType): NotificationCategory => {
+  const group = NOTIFICATION_TYPE_CONFIG[type]?.group;
+  if (group === 'orders' || group === 'payments' || group === 'preorders') return 'orders';
+  if (group === 'products' || group === 'reviews') return 'products';
+  if (type.startsWith('user_') || type.startsWith('verification_')) return 'verification';
+  return 'system';
+};
+
+export const NOTIFICATION_CATEGORY_TYPES = (Object.keys(NOTIFICATION_TYPE_CONFIG) as NotificationType[])
+  .reduce((byCategory, type) => {
+    byCategory[getNotificationCategory(type)].push(type);
+    return byCategory;
+  }, { orders: [], products: [], verification: [], system: [] } as Record<NotificationCategory, NotificationType[]>);
@@ -1,7 +1,41 @@
 // Order and Transaction Types based on actual database schema
 
-export type OrderStatus = 'pending' | 'confirmed' | 'shipped' | 'delivered' | 'cancelled' | 'cancellation_requested' | 'issue_reported';
-export type TransactionStatus = 'pending' | 'completed' | 'failed';
+export type OrderStatus =
+  | 'pending'
+  | 'confirmed'
+  | 'processing'
+  | 'ready'
+  | 'shipped'
+  | 'delivered'
+  | 'cancellation_requested'
+  | 'issue_reported'
+  | 'cancelled';
+export type TransactionStatus = 'pending' | 'completed' | 'failed' | 'refunded';
+
+// How a transaction is settled; see services/payments.ts for the providers
+export type PaymentMethod = 'cod' | 'manual_proof' | 'gcash' | 'maya' | 'mock';
+
+// 'refund' rows return money for the 'payment' row in parent_transaction_id
+export type TransactionType = 'payment' | 'refund';
+
+export type RefundType = 'full' | 'partial';
+export type RefundStatus = 'pending' | 'approved' | 'denied';
+export type RefundIssueType = 'rotten' | 'damaged' | 'wrong_item' | 'missing_item' | 'other';
+
+export type HarvestStatus = 'open' | 'harvested' | 'cancelled';
+export type PreorderStatus = 'pending' | 'converted' | 'partially_filled' | 'cancelled';
+// 'applied' deposits were counted towards the order; 'refund_due' ones are owed back to the buyer
+export type PreorderDepositStatus = 'none' | 'pending' | 'paid' | 'applied' | 'refund_due' | 'refunded';
+
+export type FulfillmentMethod = 'delivery' | 'pickup';
+
+// Lines on a farmer's payouts ledger; see supabase/migrations/20261019062758_create_farmer_payouts.sql
+export type LedgerEntryType = 'sale' | 'fee' | 'direct_collection' | 'refund' | 'fee_reversal' | 'payout';
+export type PayoutMethod = 'cash' | 'bank_transfer' | 'e_wallet';
+export type StatementPeriod = 'week' | 'month';
+
+// Who is changing an order's status. 'system' covers triggers and scheduled jobs.
+export type OrderActorRole = 'buyer' | 'farmer' | 'admin' | 'system';
 
 export interface Order {
   id: string;
@@ -16,6 +50,29 @@ export interface Order {
   created_at: string;
   updated_at: string;
   purchase_code?: string;
+  // Booked delivery window or pickup point, copied from the slot when it was booked
+  fulfillment_method?: FulfillmentMethod | null;
+  delivery_slot_id?: string | null;
+  delivery_date?: string | null;
+  delivery_window_start?: string | null;
+  delivery_window_end?: string | null;
+  pickup_location?: string | null;
+}
+
+export interface OrderItem {
+  id?: string;
+  order_id: string;
+  product_id?: string;
+  variant_id?: string | null;
+  // Option the line was for, as it was named when ordered
+  variant_name?: string | null;
+  quantity: number;
+  unit_price: number;
+  product: {
+    name: string;
+    unit: string;
+    image_url: string | null;
+  };
 }
 
 export interface Transaction {
@@ -23,11 +80,239 @@ export interface Transaction {
   order_id: string;
   amount: number;
   status: TransactionStatus;
-  payment_method?: string;
+  payment_method?: PaymentMethod;
+  provider_reference?: string | null;
+  checkout_url?: string | null;
+  amount_paid?: number | null;
+  failure_reason?: string | null;
+  paid_at?: string | null;
+  transaction_type?: TransactionType;
+  parent_transaction_id?: string | null;
+  refund_request_id?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RefundRequestItem {
+  id: string;
+  refund_request_id: string;
+  product_id: string;
+  quantity: number;
+  unit_price: number;
+  returned_quantity: number;
+  product?: {
+    name: string;
+    unit: string;
+  } | null;
+}
+
+export interface RefundRequest {
+  id: string;
+  order_id: string;
+  buyer_id: string;
+  farmer_id: string;
+  refund_type: RefundType;
+  issue_type: RefundIssueType | null;
+  reason: string;
+  photo_urls: string[];
+  amount: number;
+  status: RefundStatus;
+  decided_by: string | null;
+  decided_at: string | null;
+  decision_note: string | null;
+  refund_transaction_id: string | null;
+  created_at: string;
+  updated_at: string;
+  items?: RefundRequestItem[];
+}
+
+// An expected harvest buyers can pre-order from
+export interface Harvest {
+  id: string;
+  product_id: string;
+  variant_id: string | null;
+  farmer_id: string;
+  expected_date: string;
+  projected_quantity: number;
+  actual_quantity: number | null;
+  price: number;
+  deposit_percent: number;
+  status: HarvestStatus;
+  notes: string | null;
+  harvested_at: string | null;
+  created_at: string;
+  updated_at: string;
+  // Pending pre-order quantity, filled in by the services
+  reserved_quantity?: number;
+  product?: {
+    name: string;
+    unit: string;
+    category: string;
+    image_url: string | null;
+  } | null;
+  variant?: {
+    name: string;
+    unit: string;
+  } | null;
+  farmer?: {
+    first_name: string | null;
+    last_name: string | null;
+    farm_name: string | null;
+    barangay: string | null;
+  } | null;
+}
+
+export interface Preorder {
+  id: string;
+  harvest_id: string;
+  buyer_id: string;
+  quantity: number;
+  unit_price: number;
+  deposit_amount: number;
+  deposit_status: PreorderDepositStatus;
+  status: PreorderStatus;
+  fulfilled_quantity: number;
+  order_id: string | null;
+  delivery_address: string | null;
+  notes: string | null;
+  cancel_reason: string | null;
+  created_at: string;
+  updated_at: string;
+  harvest?: Harvest | null;
+  buyer?: {
+    first_name: string | null;
+    last_name: string | null;
+    phone: string | null;
+  } | null;
+}
+
+// What happened to one pre-order when its harvest was completed
+export interface PreorderOutcome {
+  outcome: 'converted' | 'partially_filled' | 'cancelled';
+  preorder: Preorder;
+  order: Order | null;
+}
+
+// A weekly delivery window or pickup point set up by a farmer
+export interface DeliverySlot {
+  id: string;
+  farmer_id: string;
+  kind: FulfillmentMethod;
+  label: string;
+  location: string | null;
+  // 0 = Sunday
+  day_of_week: number;
+  // 'HH:MM:SS'
+  start_time: string;
+  end_time: string;
+  // Orders per date
+  capacity: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// One date a slot runs on, with its free places
+export interface DeliverySlotOpening {
+  slot: DeliverySlot;
+  date: string;
+  booked: number;
+  remaining: number;
+}
+
+// The schedule an order had before it was moved
+export type DeliverySchedule = Pick<
+  Order,
+  'fulfillment_method' | 'delivery_date' | 'delivery_window_start' | 'delivery_window_end' | 'pickup_location'
+>;
+
+// An order on a farmer's delivery manifest
+export interface DeliveryManifestOrder extends Order {
+  buyer_profile: {
+    first_name: string | null;
+    last_name: string | null;
+    phone: string | null;
+  } | null;
+  order_items: OrderItem[];
+}
+
+// The orders booked into one slot on one date. slot is null for orders whose slot was removed.
+export interface DeliveryManifestGroup {
+  key: string;
+  slot: DeliverySlot | null;
+  fulfillment_method: FulfillmentMethod;
+  label: string;
+  location: string | null;
+  window_start: string | null;
+  window_end: string | null;
+  orders: DeliveryManifestOrder[];
+}
+
+// One signed line on a farmer's ledger: credits are positive, debits negative
+export interface FarmerLedgerEntry {
+  id: string;
+  farmer_id: string;
+  entry_type: LedgerEntryType;
+  amount: number;
+  description: string;
+  order_id: string | null;
+  transaction_id: string | null;
+  payout_id: string | null;
+  fee_rule_id: string | null;
+  occurred_at: string;
+  created_at: string;
+}
+
+export interface FarmerPayout {
+  id: string;
+  farmer_id: string;
+  amount: number;
+  method: PayoutMethod;
+  reference: string | null;
+  notes: string | null;
+  paid_at: string;
+  recorded_by: string | null;
+  created_at: string;
+}
+
+// A fee taken from every sale. Applies to everyone, one barangay's farmers, or one farmer.
+export interface PayoutFeeRule {
+  id: string;
+  name: string;
+  percent: number;
+  barangay: string | null;
+  farmer_id: string | null;
+  is_active: boolean;
+  created_by: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// What a farmer is owed, for the admin payouts list
+export interface FarmerBalance {
+  farmer_id: string;
+  first_name: string | null;
+  last_name: string | null;
+  farm_name: string | null;
+  barangay: string | null;
+  balance: number;
+  last_payout_at: string | null;
+}
+
+// A weekly or monthly settlement: opening balance + lines = closing balance
+export interface SettlementStatement {
+  farmer_id: string;
+  period: StatementPeriod;
+  // Inclusive start, exclusive end
+  start: string;
+  end: string;
+  label: string;
+  opening_balance: number;
+  closing_balance: number;
+  totals: Record<LedgerEntryType, number>;
+  entries: (FarmerLedgerEntry & { running_balance: number })[];
+}
+
 export interface Product {
   id: string;
   farmer_id: string;
@@ -63,6 +348,7 @@ export interface OrderWithDetails extends Order {
   product: Product;
   farmer_profile: Profile;
   transaction?: Transaction;
+  order_items?: OrderItem[];
 }
 
 export interface OrderSummary {
@@ -81,20 +367,69 @@ export interface CreateOrderData {
   notes?: string;
 }
 
+// A single line in the buyer's cart
+export interface CartItem {
+  product_id: string;
+  farmer_id: string;
+  name: string;
+  price: number;
+  unit: string;
+  image_url?: string | null;
+  farm_name?: string | null;
+  // Set for products sold in several options; each option is its own line
+  variant_id?: string | null;
+  variant_name?: string | null;
+  // Bulk prices; `price` is the regular unit price
+  price_tiers?: { min_quantity: number; unit_price: number }[];
+  quantity_available: number;
+  quantity: number;
+  added_at: string;
+}
+
+export interface CreateMultiItemOrderData {
+  items: { product_id: string; variant_id?: string | null; quantity: number }[];
+  delivery_address: string;
+  notes?: string;
+  payment_method: PaymentMethod;
+  // Delivery slot chosen for each farmer's order, keyed by farmer id
+  delivery_slots?: Record<string, { slot_id: string; date: string }>;
+}
+
+// One row of order_status_history
+export interface OrderStatusHistoryEntry {
+  id: string;
+  order_id: string;
+  from_status: OrderStatus | null; // null for the initial 'pending' entry
+  to_status: OrderStatus;
+  changed_by: string | null;
+  changed_by_role: OrderActorRole;
+  reason: string | null;
+  created_at: string;
+  actor?: {
+    first_name: string | null;
+    last_name: string | null;
+    user_type: string | null;
+  } | null;
+}
+
 export interface CreateTransactionData {
   order_id: string;
   amount: number;
-  payment_method: string;
+  payment_method: PaymentMethod;
 }
 
 // Status flows
-export const ORDER_STATUS_FLOW: OrderStatus[] = ['pending', 'confirmed', 'shipped', 'delivered'];
+// The happy path of an order. 'processing' and 'shipped' are optional steps:
+// farmers may go straight from confirmed to ready, and pickup orders skip shipping.
+export const ORDER_STATUS_FLOW: OrderStatus[] = ['pending', 'confirmed', 'processing', 'ready', 'shipped', 'delivered'];
 export const TRANSACTION_STATUS_FLOW: TransactionStatus[] = ['pending', 'completed'];
 
 // Status display configurations
 export const ORDER_STATUS_CONFIG = {
   pending: { label: 'Pending', color: '#f59e0b', bgColor: '#fef3c7' },
   confirmed: { label: 'Confirmed', color: '#3b82f6', bgColor: '#dbeafe' },
+  processing: { label: 'Processing', color: '#8b5cf6', bgColor: '#ede9fe' },
+  ready: { label: 'Ready', color: '#10b981', bgColor: '#d1fae5' },
   shipped: { label: 'Shipped', color: '#8b5cf6', bgColor: '#e9d5ff' },
   delivered: { label: 'Delivered', color: '#10b981', bgColor: '#d1fae5' },
   cancellation_requested: { label: 'Cancellation Requested', color: '#f59e0b', bgColor: '#fef3c7' },
@@ -105,7 +440,103 @@ export const ORDER_STATUS_CONFIG = {
 export const TRANSACTION_STATUS_CONFIG = {
   pending: { label: 'Payment Pending', color: '#f59e0b', bgColor: '#fef3c7' },
   completed: { label: 'Paid', color: '#10b981', bgColor: '#d1fae5' },
-  failed: { label: 'Payment Failed', color: '#ef4444', bgColor: '#fee2e2' }
+  failed: { label: 'Payment Failed', color: '#ef4444', bgColor: '#fee2e2' },
+  refunded: { label: 'Refunded', color: '#6b7280', bgColor: '#f3f4f6' }
+};
+
+export const REFUND_STATUS_CONFIG: Record<RefundStatus, { label: string; color: string; bgColor: string }> = {
+  pending: { label: 'Refund Requested', color: '#f59e0b', bgColor: '#fef3c7' },
+  approved: { label: 'Refund Approved', color: '#10b981', bgColor: '#d1fae5' },
+  denied: { label: 'Refund Denied', color: '#ef4444', bgColor: '#fee2e2' }
+};
+
+export const PREORDER_STATUS_CONFIG: Record<PreorderStatus, { label: string; color: string; bgColor: string }> = {
+  pending: { label: 'Pre-ordered', color: '#3b82f6', bgColor: '#dbeafe' },
+  converted: { label: 'Ordered', color: '#10b981', bgColor: '#d1fae5' },
+  partially_filled: { label: 'Partially Filled', color: '#f59e0b', bgColor: '#fef3c7' },
+  cancelled: { label: 'Cancelled', color: '#ef4444', bgColor: '#fee2e2' }
+};
+
+export const REFUND_ISSUE_TYPES: { key: RefundIssueType; label: string }[] = [
+  { key: 'rotten', label: 'Rotten' },
+  { key: 'damaged', label: 'Damaged' },
+  { key: 'wrong_item', label: 'Wrong Item' },
+  { key: 'missing_item', label: 'Missing Item' },
+  { key: 'other', label: 'Other' }
+];
+
+export const PAYMENT_METHOD_CONFIG: Record<PaymentMethod, { label: string; description: string; icon: string }> = {
+  cod: { label: 'Cash on Delivery', description: 'Pay the farmer when you receive your order', icon: 'money-bill-wave' },
+  manual_proof: { label: 'Bank / E-wallet Transfer', description: 'Send payment yourself; the farmer uploads proof on delivery', icon: 'receipt' },
+  gcash: { label: 'GCash', description: 'Pay now with your GCash wallet', icon: 'wallet' },
+  maya: { label: 'Maya', description: 'Pay now with your Maya wallet', icon: 'wallet' },
+  mock: { label: 'Test Payment', description: 'Simulated e-wallet checkout for testing', icon: 'flask' },
+};
+
+export const LEDGER_ENTRY_CONFIG: Record<LedgerEntryType, { label: string; color: string; bgColor: string }> = {
+  sale: { label: 'Sale', color: '#10b981', bgColor: '#d1fae5' },
+  fee: { label: 'Fee', color: '#f59e0b', bgColor: '#fef3c7' },
+  direct_collection: { label: 'Collected Directly', color: '#3b82f6', bgColor: '#dbeafe' },
+  refund: { label: 'Refund', color: '#ef4444', bgColor: '#fee2e2' },
+  fee_reversal: { label: 'Fee Returned', color: '#8b5cf6', bgColor: '#ede9fe' },
+  payout: { label: 'Payout', color: '#6b7280', bgColor: '#f3f4f6' }
+};
+
+export const PAYOUT_METHOD_CONFIG: Record<PayoutMethod, { label: string; icon: string }> = {
+  cash: { label: 'Cash', icon: 'money-bill-wave' },
+  bank_transfer: { label: 'Bank Transfer', icon: 'university' },
+  e_wallet: { label: 'E-wallet', icon: 'wallet' },
+};
+
+// The order state machine: allowed transitions and who may make them.
+// Mirrored by the order_status_transitions table (supabase/migrations/20261019050445_create_order_status_history.sql),
+// which the database enforces on every update - keep the two in sync.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, Partial<Record<OrderStatus, OrderActorRole[]>>> = {
+  pending: {
+    confirmed: ['farmer', 'admin', 'system'],
+    cancellation_requested: ['buyer'],
+    cancelled: ['buyer', 'farmer', 'admin', 'system'],
+  },
+  confirmed: {
+    processing: ['farmer', 'admin'],
+    ready: ['farmer', 'admin'],
+    delivered: ['farmer', 'admin'],
+    cancellation_requested: ['buyer'],
+    cancelled: ['farmer', 'admin'],
+  },
+  processing: {
+    ready: ['farmer', 'admin'],
+    delivered: ['farmer', 'admin'],
+    cancellation_requested: ['buyer'],
+    cancelled: ['farmer', 'admin'],
+  },
+  ready: {
+    shipped: ['farmer', 'admin'],
+    delivered: ['farmer', 'admin'],
+    cancellation_requested: ['buyer'],
+    cancelled: ['farmer', 'admin'],
+  },
+  shipped: {
+    delivered: ['farmer', 'admin'],
+    cancelled: ['admin'],
+  },
+  cancellation_requested: {
+    // Rejecting a request puts the order back where it was
+    pending: ['farmer', 'admin'],
+    confirmed: ['farmer', 'admin'],
+    processing: ['farmer', 'admin'],
+    ready: ['farmer', 'admin'],
+    cancelled: ['farmer', 'admin'],
+  },
+  delivered: {
+    issue_reported: ['buyer'],
+  },
+  issue_reported: {
+    // Settled through decide_refund_request (services/refunds.ts)
+    delivered: ['farmer', 'admin'], // refund denied or partially refunded
+    cancelled: ['farmer', 'admin'], // full refund approved
+  },
+  cancelled: {},
 };
 
 // Validation functions
@@ -113,12 +544,30 @@ export const validateOrderAmount = (orderTotal: number, transactionAmount: numbe
   return transactionAmount <= orderTotal;
 };
 
-export const canAdvanceOrderStatus = (currentStatus: OrderStatus, transactionStatus?: TransactionStatus): boolean => {
-  // Can't advance order status if payment is not completed (except for cancellation)
-  if (currentStatus !== 'cancelled' && transactionStatus !== 'completed') {
-    return false;
-  }
-  return true;
+export const canTransitionOrderStatus = (
+  from: OrderStatus,
+  to: OrderStatus,
+  role: OrderActorRole
+): boolean => {
+  return ORDER_STATUS_TRANSITIONS[from]?.[to]?.includes(role) ?? false;
+};
+
+// Statuses the given role may move an order to from its current status
+export const getAllowedOrderTransitions = (from: OrderStatus, role: OrderActorRole): OrderStatus[] => {
+  const targets = ORDER_STATUS_TRANSITIONS[from] || {};
+  return (Object.keys(targets) as OrderStatus[]).filter(to => targets[to]?.includes(role));
+};
+
+// Map a profile user_type onto the role used by the state machine
+export const getOrderActorRole = (
+  userType: string | null | undefined,
+  userId: string | null | undefined,
+  order: Pick<Order, 'buyer_id' | 'farmer_id'>
+): OrderActorRole | null => {
+  if (userType === 'admin' || userType === 'super-admin') return 'admin';
+  if (userId && userId === order.farmer_id) return 'farmer';
+  if (userId && userId === order.buyer_id) return 'buyer';
+  return null;
 };
 
 export const getNextOrderStatus = (currentStatus: OrderStatus): OrderStatus | null => {
@@ -1,5 +1,6 @@
 import * as FileSystem from 'expo-file-system/legacy';
 import { Platform } from 'react-native';
+import { supabase } from '../lib/supabase';
 
 interface ErrorLog {
   timestamp: string;
@@ -33,6 +34,9 @@ class ErrorLogger {
 
     // Save to local storage
     await this.saveToLocalStorage(errorLog);
+
+    // Report to the server so system reports can count errors across devices
+    await this.saveToRemote(errorLog);
   }
 
   /**
@@ -75,6 +79,32 @@ class ErrorLogger {
     }
   }
 
+  /**
+   * Save error to the shared error_logs table (best effort, never throws)
+   */
+  private async saveToRemote(errorLog: ErrorLog): Promise<void> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await (supabase as any)
+        .from('error_logs')
+        .insert({
+          user_id: user?.id ?? null,
+          message: errorLog.error.substring(0, 2000),
+          stack: errorLog.stack?.substring(0, 8000) ?? null,
+          platform: errorLog.platform,
+          app_version: errorLog.appVersion,
+          category: errorLog.extra?.category ?? null,
+          extra: errorLog.extra ?? null,
+        });
+
+      if (error) {
+        console.warn('Failed to report error log to server:', error.message);
+      }
+    } catch (e) {
+      console.warn('Failed to report error log to server:', e);
+    }
+  }
+
   /**
    * Get all stored error logs
    */
@@ -0,0 +1,120 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import { Platform, Share } from 'react-native';
+
+/**
+ * Helpers for turning tabular data into downloadable CSV / printable HTML files
+ */
+
+export type ExportCell = string | number | boolean | null | undefined;
+
+export interface ExportTable {
+  columns: string[];
+  rows: ExportCell[][];
+}
+
+/**
+ * Escape a single CSV cell (RFC 4180)
+ */
+const escapeCsvCell = (value: ExportCell): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Build CSV text from a table
+ */
+export function toCsv(table: ExportTable): string {
+  return [table.columns, ...table.rows]
+    .map(row => row.map(escapeCsvCell).join(','))
+    .join('\r\n');
+}
+
+export const escapeHtml = (value: ExportCell): string => {
+  if (value === null || value === undefined) return '';
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+/**
+ * Render a table as an HTML <table> fragment
+ */
+export function toHtmlTable(table: ExportTable): string {
+  const head = table.columns.map(col => `<th>${escapeHtml(col)}</th>`).join('');
+  const body = table.rows
+    .map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`)
+    .join('');
+  return `<table><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>`;
+}
+
+/**
+ * Wrap body HTML in a print-friendly A4 document
+ */
+export function toPrintableHtml(title: string, bodyHtml: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { size: A4; margin: 16mm; }
+  body { font-family: -apple-system, Segoe UI, Roboto, sans-serif; color: #111827; font-size: 12px; }
+  h1 { font-size: 20px; color: #059669; margin-bottom: 4px; }
+  h2 { font-size: 15px; margin-top: 24px; }
+  .muted { color: #6b7280; }
+  table { width: 100%; border-collapse: collapse; margin-top: 8px; }
+  th, td { border: 1px solid #e5e7eb; padding: 6px 8px; text-align: left; }
+  th { background: #f0fdf4; }
+  .num { text-align: right; }
+</style>
+</head>
+<body>
+${bodyHtml}
+</body>
+</html>`;
+}
+
+/**
+ * Save or share a generated file.
+ * Web: triggers a browser download (HTML files open in a new tab with the print dialog).
+ * Native: writes to the cache directory and opens the share sheet.
+ */
+export async function exportFile(
+  fileName: string,
+  content: string,
+  mimeType: 'text/csv' | 'text/html'
+): Promise<void> {
+  if (Platform.OS === 'web') {
+    const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+
+    if (mimeType === 'text/html') {
+      const printWindow = window.open(url, '_blank');
+      printWindow?.addEventListener('load', () => printWindow.print());
+    } else {
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    }
+
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+    return;
+  }
+
+  const fileUri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(fileUri, content, {
+    encoding: FileSystem.EncodingType.UTF8,
+  });
+
+  await Share.share({
+    url: fileUri,
+    title: fileName,
+    message: Platform.OS === 'android' ? content : undefined,
+  });
+}
@@ -2,10 +2,11 @@ import { FilterSection } from '../components/FilterSidebar';
 
 // Common filter configurations for different pages
 
-// Marketplace filters
+// Marketplace filters; distance options need to know where the buyer is
 export const getMarketplaceFilters = (
   products: any[],
-  categoryCounts?: { all: number; vegetables: number; fruits: number; grains: number; herbs: number }
+  categoryCounts?: { all: number; vegetables: number; fruits: number; grains: number; herbs: number },
+  hasBuyerLocation = false
 ): FilterSection[] => [
   {
     key: 'category',
@@ -39,12 +40,27 @@ export const getMarketplaceFilters = (
       { key: 'inStock', label: 'In Stock Only' },
     ],
   },
+  ...(hasBuyerLocation
+    ? [{
+        key: 'distance',
+        title: 'Distance',
+        type: 'range' as const,
+        // Keys are the limit in km; the marketplace filters by it in the database
+        options: [
+          { key: 'all', label: 'Any Distance' },
+          { key: '5', label: 'Within 5 km', max: 5 },
+          { key: '10', label: 'Within 10 km', max: 10 },
+          { key: '25', label: 'Within 25 km', max: 25 },
+        ],
+      }]
+    : []),
   {
     key: 'sortBy',
     title: 'Sort By',
     type: 'sort',
     options: [
       { key: 'newest', label: 'Newest First' },
+      ...(hasBuyerLocation ? [{ key: 'nearest', label: 'Nearest First' }] : []),
       { key: 'price-low', label: 'Price: Low to High' },
       { key: 'price-high', label: 'Price: High to Low' },
       { key: 'name', label: 'Name A-Z' },
@@ -53,6 +69,35 @@ export const getMarketplaceFilters = (
   },
 ];
 
+// Product search filters: marketplace filters with search-only sort options
+export const getProductSearchFilters = (
+  categoryCounts: Record<string, number>,
+  hasBuyerLocation: boolean
+): FilterSection[] => {
+  const total = Object.values(categoryCounts).reduce((sum, count) => sum + count, 0);
+  const sections = getMarketplaceFilters([], {
+    all: total,
+    vegetables: categoryCounts.vegetables || 0,
+    fruits: categoryCounts.fruits || 0,
+    grains: categoryCounts.grains || 0,
+    herbs: categoryCounts.herbs || 0,
+  });
+
+  return sections.map(section =>
+    section.key === 'sortBy'
+      ? {
+          ...section,
+          options: [
+            { key: 'relevance', label: 'Best Match' },
+            ...section.options,
+            { key: 'rating', label: 'Top Rated' },
+            ...(hasBuyerLocation ? [{ key: 'nearest', label: 'Nearest First' }] : []),
+          ],
+        }
+      : section
+  );
+};
+
 // Purchase History filters
 export const getPurchaseHistoryFilters = (orders: any[]): FilterSection[] => [
   {
@@ -453,6 +498,10 @@ export const applyFilters = (
       case 'revenue-high':
         filtered = filtered.sort((a, b) => (b.price || b.total_price || b.amount || 0) - (a.price || a.total_price || a.amount || 0));
         break;
+      case 'nearest':
+        // Items that cannot be placed go last
+        filtered = filtered.sort((a, b) => (a.distance_km ?? Infinity) - (b.distance_km ?? Infinity));
+        break;
     }
   }
 
@@ -1,43 +1,42 @@
-/**
- * Utility functions for generating unique purchase codes and QR codes
- */
+import nacl from 'tweetnacl';
 
 /**
- * Generates a unique purchase code that's different from the actual order ID
- * Format: FG-YYYY-XXXXXX (e.g., FG-2025-A3B7K9)
+ * Utility functions for purchase codes and signed purchase QR tokens.
+ * Codes are issued by the database and QR tokens are signed by the purchase-qr Edge Function;
+ * the app only ever verifies them.
  */
-export function generateUniquePurchaseCode(): string {
-  const currentYear = new Date().getFullYear();
-  const characters = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Removed confusing characters like I, L, O, 0, 1
 
-  let code = '';
-  for (let i = 0; i < 6; i++) {
-    code += characters.charAt(Math.floor(Math.random() * characters.length));
-  }
+const TOKEN_PREFIX = 'F2G1';
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// Public half of the purchase-qr signing key (base64, 32 bytes)
+const PUBLIC_KEY = process.env.EXPO_PUBLIC_PURCHASE_QR_PUBLIC_KEY || '';
 
-  return `FG-${currentYear}-${code}`;
+/**
+ * Details carried in a signed purchase QR token
+ */
+export interface PurchaseQRPayload {
+  code: string;
+  orderId: string;
+  amount: number;
+  farm: string;
+  product: string;
+  purchasedAt: string;
+  // Unix seconds
+  iat: number;
+  exp: number;
 }
 
 /**
- * Generates QR code data containing purchase information
+ * Outcome of checking a scanned QR code without going online.
+ * unsigned: an old-style JSON code with no signature, which anyone could have made.
  */
-export function generateQRCodeData(purchaseCode: string, orderDetails: {
-  farmName?: string;
-  totalAmount: number;
-  purchaseDate: string;
-  productName?: string;
-}): string {
-  const qrData = {
-    type: 'FARM2GO_PURCHASE',
-    code: purchaseCode,
-    farm: orderDetails.farmName || 'Unknown Farm',
-    amount: orderDetails.totalAmount,
-    date: orderDetails.purchaseDate,
-    product: orderDetails.productName || 'Farm Products',
-    verified: true
-  };
-
-  return JSON.stringify(qrData);
+export type PurchaseQRStatus = 'valid' | 'expired' | 'invalid_signature' | 'unsigned' | 'unreadable';
+
+export interface PurchaseQRVerification {
+  status: PurchaseQRStatus;
+  // Only trustworthy when status is 'valid' or 'expired'
+  payload: PurchaseQRPayload | null;
 }
 
 /**
@@ -46,4 +45,92 @@ export function generateQRCodeData(purchaseCode: string, orderDetails: {
 export function isValidPurchaseCode(code: string): boolean {
   const regex = /^FG-\d{4}-[ABCDEFGHJKLMNPQRSTUVWXYZ23456789]{6}$/;
   return regex.test(code);
-}
\ No newline at end of file
+}
+
+// base64 or base64url -> bytes; throws on characters outside the alphabet
+function decodeBase64(value: string): Uint8Array {
+  const clean = value.replace(/-/g, '+').replace(/_/g, '/').replace(/=+$/, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let index = 0;
+
+  for (const char of clean) {
+    const sextet = BASE64_ALPHABET.indexOf(char);
+    if (sextet === -1) throw new Error('Invalid base64');
+    buffer = (buffer << 6) | sextet;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[index++] = (buffer >> bits) & 0xff;
+    }
+  }
+
+  return bytes;
+}
+
+// The token is ASCII only (the signer escapes everything else in the JSON)
+const asciiBytes = (value: string) => Uint8Array.from(value, (char) => char.charCodeAt(0) & 0xff);
+
+/**
+ * Checks a scanned QR code's signature and expiry using only the bundled public key,
+ * so it works at a farm gate with no connection.
+ */
+export function verifyPurchaseQR(data: string, now: Date = new Date()): PurchaseQRVerification {
+  const parts = data.trim().split('.');
+
+  if (parts.length !== 3 || parts[0] !== TOKEN_PREFIX) {
+    try {
+      const legacy = JSON.parse(data);
+      if (legacy?.type === 'FARM2GO_PURCHASE') {
+        return { status: 'unsigned', payload: null };
+      }
+    } catch {
+      // Not JSON either
+    }
+    return { status: 'unreadable', payload: null };
+  }
+
+  if (!PUBLIC_KEY) {
+    console.warn('⚠️ EXPO_PUBLIC_PURCHASE_QR_PUBLIC_KEY is not set; purchase QR codes cannot be verified');
+    return { status: 'invalid_signature', payload: null };
+  }
+
+  try {
+    const [, payloadSegment, signatureSegment] = parts;
+    const signatureValid = nacl.sign.detached.verify(
+      asciiBytes(payloadSegment),
+      decodeBase64(signatureSegment),
+      decodeBase64(PUBLIC_KEY)
+    );
+    if (!signatureValid) {
+      return { status: 'invalid_signature', payload: null };
+    }
+
+    const payload = JSON.parse(String.fromCharCode(...decodeBase64(payloadSegment))) as PurchaseQRPayload;
+    if (!payload.code || !payload.orderId || typeof payload.exp !== 'number') {
+      return { status: 'unreadable', payload: null };
+    }
+
+    const expired = payload.exp * 1000 < now.getTime();
+    return { status: expired ? 'expired' : 'valid', payload };
+  } catch (error) {
+    // Wrong key or signature length, or a corrupted payload
+    console.error('Error verifying purchase QR:', error);
+    return { status: 'invalid_signature', payload: null };
+  }
+}
+
+/**
+ * Reads the payload of a token without checking it, for showing a cached token's expiry
+ */
+export function readPurchaseQRPayload(token: string): PurchaseQRPayload | null {
+  const parts = token.split('.');
+  if (parts.length !== 3 || parts[0] !== TOKEN_PREFIX) return null;
+
+  try {
+    return JSON.parse(String.fromCharCode(...decodeBase64(parts[1]))) as PurchaseQRPayload;
+  } catch {
+    return null;
+  }
+}